@@ -6,9 +6,15 @@ import BoqFileReview from "./pages/BoqFileReview";
 import ScheduleFileReview from "./pages/ScheduleFileReview";
 import Pricing from "./pages/Pricing";
 import ProductivityRates from "./pages/ProductivityRates";
+import ProductivityLibrary from "./pages/ProductivityLibrary";
+import AssemblyLibrary from "./pages/AssemblyLibrary";
+import MaterialsCatalogue from "./pages/MaterialsCatalogue";
+import TradeRates from "./pages/TradeRates";
+import EquipmentCatalogue from "./pages/EquipmentCatalogue";
+import ReviewQueue from "./pages/ReviewQueue";
 import ComparePage from "./pages/ComparePage";
 import Estimation from "./pages/Estimation";
-import type { CadExtractionItem, EstimationRow, ProjectFile, ProjectItem, ProjectLog, ProjectSummary } from "./types";
+import type { BoqItemType, CadExtractionItem, EstimationRow, ProjectFile, ProjectItem, ProjectLog, ProjectSummary } from "./types";
 import {
   addProjectFileItem,
   createProject,
@@ -23,6 +29,7 @@ import {
   startProjectExtraction,
   updateProjectName,
   updateProjectItem,
+  updateProjectType,
   uploadProjectFiles,
 } from "./services/api";
 
@@ -37,6 +44,12 @@ type AppPage =
   | "compare"
   | "estimation"
   | "productivity-rates"
+  | "productivity-library"
+  | "assemblies"
+  | "materials"
+  | "trade-rates"
+  | "equipment"
+  | "reviews"
   | "pricing";
 
 type CadItemWithId = CadExtractionItem & { id: string };
@@ -46,6 +59,9 @@ const PROJECT_STATUS_LABELS: Record<ProjectSummary["status"], string> = {
   in_progress: "In Progess",
   analyzing: "Analysing Files",
   finalized: "Extraction Ready",
+  in_review: "In Review",
+  approved: "Approved",
+  submitted: "Submitted",
 };
 
 const FILE_STATUS_LABELS: Record<ProjectFile["status"], string> = {
@@ -55,6 +71,15 @@ const FILE_STATUS_LABELS: Record<ProjectFile["status"], string> = {
   failed: "Failed",
 };
 
+const BOQ_ITEM_TYPE_LABELS: Record<BoqItemType, string> = {
+  measured: "Measured",
+  rate_only: "Rate only",
+  provisional_sum: "Provisional sum",
+  pc_sum: "PC sum",
+  daywork: "Daywork",
+  time_related: "Time-related",
+};
+
 const EXTRACTION_STAGE_LABELS: Record<string, string> = {
   uploading: "Uploading to AI...",
   uploaded: "File uploaded",
@@ -91,6 +116,7 @@ export default function App() {
   const [openingProject, setOpeningProject] = useState(false);
   const [pageLoadingMessage, setPageLoadingMessage] = useState<string | null>(null);
   const [activeProject, setActiveProject] = useState<ProjectSummary | null>(null);
+  const isLumpSumProject = activeProject?.projectType === "lump_sum";
   const [projectFiles, setProjectFiles] = useState<ProjectFile[]>([]);
   const [projectItems, setProjectItems] = useState<ProjectItem[]>([]);
   const [activeFile, setActiveFile] = useState<ProjectFile | null>(null);
@@ -100,7 +126,6 @@ export default function App() {
   const [drawings, setDrawings] = useState<File[]>([]);
   const [scheduleFiles, setScheduleFiles] = useState<File[]>([]);
   const [boqFile, setBoqFile] = useState<File | null>(null);
-  const [isLumpSumProject, setIsLumpSumProject] = useState(false);
   const [projectNameInput, setProjectNameInput] = useState("");
   const [deleteTarget, setDeleteTarget] = useState<ProjectSummary | null>(null);
   const [deletingProject, setDeletingProject] = useState(false);
@@ -307,7 +332,6 @@ export default function App() {
       setDrawings([]);
       setScheduleFiles([]);
       setBoqFile(null);
-      setIsLumpSumProject(false);
       requestPageChange("upload");
       setMaxStepReached(0);
       void refreshProjects();
@@ -316,15 +340,26 @@ export default function App() {
     }
   }, [refreshProjects]);
 
-  const handleLumpSumChange = useCallback((checked: boolean) => {
-    setIsLumpSumProject(checked);
-    if (checked) {
-      setDrawings([]);
-      setScheduleFiles([]);
-      setAddDrawings([]);
-      setAddSchedules([]);
-    }
-  }, []);
+  const handleLumpSumChange = useCallback(
+    async (checked: boolean) => {
+      if (!activeProject) return;
+      try {
+        const updated = await updateProjectType(activeProject.id, checked ? "lump_sum" : "measured");
+        setActiveProject(updated);
+        void refreshProjects();
+      } catch (error) {
+        setFeedback((error as Error).message || "Failed to update project type.");
+        return;
+      }
+      if (checked) {
+        setDrawings([]);
+        setScheduleFiles([]);
+        setAddDrawings([]);
+        setAddSchedules([]);
+      }
+    },
+    [activeProject, refreshProjects]
+  );
 
   const handleOpenProject = useCallback(async (project: ProjectSummary) => {
     setOpeningProject(true);
@@ -513,6 +548,24 @@ export default function App() {
     [activeProject, handleCancelEditItem, itemDrafts]
   );
 
+  const handleItemTypeChange = useCallback(
+    async (itemId: string, itemType: BoqItemType) => {
+      if (!activeProject) return;
+      setSavingItemId(itemId);
+      try {
+        const updated = await updateProjectItem(activeProject.id, itemId, { itemType });
+        setProjectItems((prev) =>
+          prev.map((item) => (item.id === itemId ? { ...item, itemType: updated.itemType ?? itemType } : item))
+        );
+      } catch (error) {
+        setFeedback((error as Error).message || "Failed to update item.");
+      } finally {
+        setSavingItemId(null);
+      }
+    },
+    [activeProject]
+  );
+
   const handleDeleteItem = useCallback(async () => {
     if (!activeProject || !deleteItemTarget) return;
     setDeletingItemId(deleteItemTarget.id);
@@ -700,7 +753,9 @@ export default function App() {
     const inProgress = projects.filter((p) => p.status === "in_progress").length;
     const analyzing = projects.filter((p) => p.status === "analyzing").length;
     const finalized = projects.filter((p) => p.status === "finalized").length;
-    return { total, inProgress, analyzing, finalized };
+    const inReview = projects.filter((p) => p.status === "in_review" || p.status === "approved").length;
+    const submitted = projects.filter((p) => p.status === "submitted").length;
+    return { total, inProgress, analyzing, finalized, inReview, submitted };
   }, [projects]);
   const recentProject = useMemo(() => projects[0] ?? null, [projects]);
 
@@ -847,7 +902,7 @@ export default function App() {
       }).length,
     [filteredBoqItems]
   );
-  const boqColumns = useMemo(() => ["Item", "Description", "QTY", "Unit", "Rate"], []);
+  const boqColumns = useMemo(() => ["Item", "Description", "QTY", "Unit", "Rate", "Type"], []);
   const getBoqCellValue = (item: ProjectItem, column: string) => {
     const key = normalizeColumn(column);
     const fields = item.metadata?.fields ?? {};
@@ -940,6 +995,72 @@ export default function App() {
             </svg>
             <span>Productivity Rates</span>
           </button>
+          <button
+            type="button"
+            className={`nav-link ${activePage === "productivity-library" ? "is-active" : ""}`}
+            onClick={() => requestPageChange("productivity-library")}
+            title="Company productivity library, proposals and approvals"
+          >
+            <svg width="20" height="20" viewBox="0 0 20 20" fill="none">
+              <path d="M4 3h9l3 3v11H4zM7 8h6M7 11h6M7 14h4" stroke="currentColor" strokeWidth="2" strokeLinejoin="round" strokeLinecap="round" />
+            </svg>
+            <span>Company Library</span>
+          </button>
+          <button
+            type="button"
+            className={`nav-link ${activePage === "assemblies" ? "is-active" : ""}`}
+            onClick={() => requestPageChange("assemblies")}
+            title="Search and curate reusable pricing assemblies"
+          >
+            <svg width="20" height="20" viewBox="0 0 20 20" fill="none">
+              <path d="M4 4h5v5H4zM11 4h5v5h-5zM4 11h5v5H4zM11 11h5v5h-5z" stroke="currentColor" strokeWidth="2" strokeLinejoin="round" />
+            </svg>
+            <span>Assembly Library</span>
+          </button>
+          <button
+            type="button"
+            className={`nav-link ${activePage === "materials" ? "is-active" : ""}`}
+            onClick={() => requestPageChange("materials")}
+            title="Supplier material prices with effective dates"
+          >
+            <svg width="20" height="20" viewBox="0 0 20 20" fill="none">
+              <path d="M3 7l7-4 7 4-7 4-7-4zM3 7v6l7 4 7-4V7" stroke="currentColor" strokeWidth="2" strokeLinejoin="round" />
+            </svg>
+            <span>Materials Catalogue</span>
+          </button>
+          <button
+            type="button"
+            className={`nav-link ${activePage === "trade-rates" ? "is-active" : ""}`}
+            onClick={() => requestPageChange("trade-rates")}
+            title="Hourly cost of each trade by project location"
+          >
+            <svg width="20" height="20" viewBox="0 0 20 20" fill="none">
+              <path d="M10 3a3 3 0 110 6 3 3 0 010-6zM4 17c0-3 2.7-5 6-5s6 2 6 5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" />
+            </svg>
+            <span>Trade Rates</span>
+          </button>
+          <button
+            type="button"
+            className={`nav-link ${activePage === "equipment" ? "is-active" : ""}`}
+            onClick={() => requestPageChange("equipment")}
+            title="Plant ownership, rental, fuel and operator costs"
+          >
+            <svg width="20" height="20" viewBox="0 0 20 20" fill="none">
+              <path d="M3 14h9V9H7L5 11H3zM12 11h3l2 3h-5M6 16a1.5 1.5 0 100-3M14 16a1.5 1.5 0 100-3" stroke="currentColor" strokeWidth="2" strokeLinejoin="round" strokeLinecap="round" />
+            </svg>
+            <span>Equipment</span>
+          </button>
+          <button
+            type="button"
+            className={`nav-link ${activePage === "reviews" ? "is-active" : ""}`}
+            onClick={() => requestPageChange("reviews")}
+            title="Other estimators' projects waiting for your review"
+          >
+            <svg width="20" height="20" viewBox="0 0 20 20" fill="none">
+              <path d="M4 10l4 4 8-8" stroke="currentColor" strokeWidth="2" strokeLinejoin="round" strokeLinecap="round" />
+            </svg>
+            <span>Reviews</span>
+          </button>
         </nav>
 
         <div className="sidebar__bottom">
@@ -1066,6 +1187,18 @@ export default function App() {
                     <span className="stat-card__value">{projectStats.finalized}</span>
                   </div>
                 </div>
+                <div className="stat-card dashboard-card">
+                  <div className="stat-card__content">
+                    <p className="stat-card__label">In Review</p>
+                    <span className="stat-card__value">{projectStats.inReview}</span>
+                  </div>
+                </div>
+                <div className="stat-card dashboard-card">
+                  <div className="stat-card__content">
+                    <p className="stat-card__label">Submitted</p>
+                    <span className="stat-card__value">{projectStats.submitted}</span>
+                  </div>
+                </div>
               </div>
 
               <div className="dashboard-split">
@@ -1158,6 +1291,13 @@ export default function App() {
           <ProductivityRates projectName={activeProject?.name} />
         )}
 
+        {activePage === "productivity-library" && <ProductivityLibrary />}
+        {activePage === "assemblies" && <AssemblyLibrary />}
+        {activePage === "materials" && <MaterialsCatalogue />}
+        {activePage === "trade-rates" && <TradeRates />}
+        {activePage === "equipment" && <EquipmentCatalogue />}
+        {activePage === "reviews" && <ReviewQueue />}
+
         {activePage === "pricing" && (
           <Pricing
             boqItems={boqItems}
@@ -1166,6 +1306,7 @@ export default function App() {
             projectName={activeProject?.name}
             projectId={activeProject?.id}
             headerTop={renderStepper()}
+            isLumpSum={isLumpSumProject}
             onDirtyChange={(dirty) => setPricingDirty(dirty)}
             onRegisterSave={(save) => {
               pricingSaveRef.current = save;
@@ -1175,6 +1316,7 @@ export default function App() {
               setEstimationRowsByProject((prev) => ({ ...prev, [activeProject.id]: rows }));
               requestPageChange("estimation");
             }}
+            onProjectStatusChange={() => void refreshProjects()}
           />
         )}
 
@@ -1182,7 +1324,10 @@ export default function App() {
           <Estimation
             rows={activeEstimationRows}
             projectName={activeProject.name}
+            projectId={activeProject.id}
+            boqFiles={projectFiles.filter((file) => file.fileType === "boq")}
             headerTop={renderStepper()}
+            isLumpSum={isLumpSumProject}
           />
         )}
 
@@ -1223,7 +1368,7 @@ export default function App() {
                 <input
                   type="checkbox"
                   checked={isLumpSumProject}
-                  onChange={(event) => handleLumpSumChange(event.target.checked)}
+                  onChange={(event) => void handleLumpSumChange(event.target.checked)}
                 />
                 <span>Lump Sum project (BOQ only)</span>
               </label>
@@ -1509,7 +1654,9 @@ export default function App() {
                                     const highlightItemCode = /^[A-Z]$/.test(itemCode);
                                     const hideNonDescription = isItemPlaceholder(item.item_code);
                                     const rateValue = String(getBoqCellValue(item, "Rate") ?? "").trim();
-                                    const isRateOnly = rateValue.toLowerCase() === "rate only";
+                                    const isRateOnly = item.itemType
+                                      ? item.itemType === "rate_only"
+                                      : rateValue.toLowerCase() === "rate only";
                                     rows.push(
                                       <tr
                                         key={item.id}
@@ -1529,6 +1676,24 @@ export default function App() {
                                               if (normalizedCol === "item") {
                                                 return renderItemCodeCell(item.item_code);
                                               }
+                                              if (normalizedCol === "type") {
+                                                return (
+                                                  <select
+                                                    className="electrical-input__control"
+                                                    value={item.itemType ?? "measured"}
+                                                    disabled={savingItemId === item.id}
+                                                    onChange={(event) =>
+                                                      void handleItemTypeChange(item.id, event.target.value as BoqItemType)
+                                                    }
+                                                  >
+                                                    {(Object.keys(BOQ_ITEM_TYPE_LABELS) as BoqItemType[]).map((type) => (
+                                                      <option key={type} value={type}>
+                                                        {BOQ_ITEM_TYPE_LABELS[type]}
+                                                      </option>
+                                                    ))}
+                                                  </select>
+                                                );
+                                              }
                                               return renderCell(getBoqCellValue(item, col));
                                             })()}
                                           </td>
@@ -1909,7 +2074,7 @@ export default function App() {
                   <input
                     type="checkbox"
                     checked={isLumpSumProject}
-                    onChange={(event) => handleLumpSumChange(event.target.checked)}
+                    onChange={(event) => void handleLumpSumChange(event.target.checked)}
                   />
                   <span>Lump Sum project (BOQ only)</span>
                 </label>
@@ -0,0 +1,429 @@
+import { useCallback, useEffect, useState } from "react";
+import type { Assembly, AssemblyPayload, SearchBlocksSubitem } from "../services/api";
+import {
+  createAssembly,
+  deleteAssembly,
+  importCompletedAssemblies,
+  listAssemblyTags,
+  searchAssemblies,
+  updateAssembly,
+} from "../services/api";
+
+const PAGE_SIZE = 20;
+
+type SearchCriteria = { text: string; blockCode: string; tag: string };
+
+/** Form state; tags are edited as comma-separated text. */
+type AssemblyDraft = Omit<AssemblyPayload, "tags"> & { id: string | null; tagsText: string };
+
+const emptySubitem = (): SearchBlocksSubitem => ({ description: "", code: "", qty: "", thickness: null });
+
+const toDraft = (assembly?: Assembly): AssemblyDraft => ({
+  id: assembly?.id ?? null,
+  description: assembly?.description ?? "",
+  blockCode: assembly?.blockCode ?? "",
+  unit: assembly?.unit ?? "",
+  category: assembly?.category ?? "",
+  tagsText: (assembly?.tags ?? []).join(", "),
+  notes: assembly?.notes ?? "",
+  subitems: assembly?.subitems.length ? assembly.subitems.map((sub) => ({ ...sub })) : [emptySubitem()],
+});
+
+const toPayload = (draft: AssemblyDraft): AssemblyPayload => ({
+  description: draft.description,
+  blockCode: draft.blockCode,
+  unit: draft.unit,
+  category: draft.category,
+  tags: draft.tagsText.split(","),
+  notes: draft.notes,
+  subitems: draft.subitems,
+});
+
+/** Reusable pricing assemblies: captured from completed blocks or saved here, searchable by text, code and tag. */
+export default function AssemblyLibrary() {
+  const [text, setText] = useState("");
+  const [blockCode, setBlockCode] = useState("");
+  const [tag, setTag] = useState("");
+  const [tags, setTags] = useState<string[]>([]);
+  const [assemblies, setAssemblies] = useState<Assembly[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [draft, setDraft] = useState<AssemblyDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const loadPage = useCallback(async (nextPage: number, criteria: SearchCriteria) => {
+    setLoading(true);
+    setMessage("");
+    try {
+      const result = await searchAssemblies({ ...criteria, page: nextPage, pageSize: PAGE_SIZE });
+      setAssemblies(result.assemblies);
+      setTotal(result.total);
+      setPage(nextPage);
+    } catch (error: unknown) {
+      setMessage((error as Error).message || "Search failed.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const runSearch = useCallback(
+    (nextPage: number) => loadPage(nextPage, { text, blockCode, tag }),
+    [blockCode, loadPage, tag, text]
+  );
+
+  const refreshTags = useCallback(async () => {
+    try {
+      setTags(await listAssemblyTags());
+    } catch {
+      // the tag filter is optional
+    }
+  }, []);
+
+  // Initial load only; later searches run from the Search button.
+  useEffect(() => {
+    void loadPage(1, { text: "", blockCode: "", tag: "" });
+    void refreshTags();
+  }, [loadPage, refreshTags]);
+
+  const handleSave = useCallback(async () => {
+    if (!draft) return;
+    setSaving(true);
+    setMessage("");
+    try {
+      const payload = toPayload(draft);
+      if (draft.id) {
+        await updateAssembly(draft.id, payload);
+      } else {
+        await createAssembly(payload);
+      }
+      setDraft(null);
+      await Promise.all([runSearch(page), refreshTags()]);
+    } catch (error: unknown) {
+      setMessage((error as Error).message || "Failed to save assembly.");
+    } finally {
+      setSaving(false);
+    }
+  }, [draft, page, refreshTags, runSearch]);
+
+  const handleDelete = useCallback(
+    async (assembly: Assembly) => {
+      if (!window.confirm(`Delete "${assembly.description}" from the library?`)) return;
+      try {
+        await deleteAssembly(assembly.id);
+        if (draft?.id === assembly.id) setDraft(null);
+        await runSearch(page);
+      } catch (error: unknown) {
+        setMessage((error as Error).message || "Failed to delete assembly.");
+      }
+    },
+    [draft, page, runSearch]
+  );
+
+  const handleImport = useCallback(async () => {
+    setMessage("");
+    try {
+      const { imported } = await importCompletedAssemblies();
+      setMessage(`${imported} completed block${imported === 1 ? "" : "s"} added to the library.`);
+      await Promise.all([runSearch(1), refreshTags()]);
+    } catch (error: unknown) {
+      setMessage((error as Error).message || "Import failed.");
+    }
+  }, [refreshTags, runSearch]);
+
+  const updateSubitem = (index: number, patch: Partial<SearchBlocksSubitem>) =>
+    setDraft((prev) =>
+      prev ? { ...prev, subitems: prev.subitems.map((sub, i) => (i === index ? { ...sub, ...patch } : sub)) } : prev
+    );
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <section className="panel">
+      <div className="panel__header">
+        <h2 className="section-title section-title--compact">Assembly Library</h2>
+        <p className="eyebrow" style={{ opacity: 0.7, marginTop: "0.35rem" }}>
+          Blocks marked complete on the Pricing page are added automatically.
+        </p>
+      </div>
+      <div className="panel__body">
+        <div className="pricing-scenario__row" style={{ marginBottom: "0.75rem" }}>
+          <label className="electrical-input" style={{ flex: 2 }}>
+            <span className="electrical-input__label">Search</span>
+            <input
+              className="electrical-input__control"
+              type="text"
+              value={text}
+              placeholder="Description, code, tag..."
+              onChange={(event) => setText(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") void runSearch(1);
+              }}
+            />
+          </label>
+          <label className="electrical-input">
+            <span className="electrical-input__label">Block code</span>
+            <input
+              className="electrical-input__control"
+              type="text"
+              value={blockCode}
+              onChange={(event) => setBlockCode(event.target.value)}
+            />
+          </label>
+          <label className="electrical-input">
+            <span className="electrical-input__label">Tag</span>
+            <select className="electrical-input__control" value={tag} onChange={(event) => setTag(event.target.value)}>
+              <option value="">All tags</option>
+              {tags.map((entry) => (
+                <option key={entry} value={entry}>
+                  {entry}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button type="button" className="btn-secondary" onClick={() => void runSearch(1)} disabled={loading}>
+            {loading ? "Searching..." : "Search"}
+          </button>
+          <button type="button" className="btn-secondary" onClick={() => setDraft(toDraft())}>
+            New Assembly
+          </button>
+          <button
+            type="button"
+            className="btn-secondary btn-muted"
+            onClick={() => void handleImport()}
+            title="Add blocks marked complete before the library existed"
+          >
+            Import Completed Blocks
+          </button>
+        </div>
+        {message && <p className="feedback" style={{ marginTop: 0 }}>{message}</p>}
+
+        {draft && (
+          <div className="estimation-report">
+            <div className="pricing-scenario__row">
+              <label className="electrical-input" style={{ flex: 2 }}>
+                <span className="electrical-input__label">Description</span>
+                <input
+                  className="electrical-input__control"
+                  type="text"
+                  value={draft.description}
+                  onChange={(event) => setDraft({ ...draft, description: event.target.value })}
+                />
+              </label>
+              <label className="electrical-input">
+                <span className="electrical-input__label">Block code</span>
+                <input
+                  className="electrical-input__control"
+                  type="text"
+                  value={draft.blockCode}
+                  onChange={(event) => setDraft({ ...draft, blockCode: event.target.value })}
+                />
+              </label>
+              <label className="electrical-input">
+                <span className="electrical-input__label">Unit</span>
+                <input
+                  className="electrical-input__control"
+                  type="text"
+                  value={draft.unit}
+                  onChange={(event) => setDraft({ ...draft, unit: event.target.value })}
+                />
+              </label>
+              <label className="electrical-input">
+                <span className="electrical-input__label">Category</span>
+                <input
+                  className="electrical-input__control"
+                  type="text"
+                  value={draft.category}
+                  onChange={(event) => setDraft({ ...draft, category: event.target.value })}
+                />
+              </label>
+            </div>
+            <div className="pricing-scenario__row" style={{ marginTop: "0.5rem" }}>
+              <label className="electrical-input" style={{ flex: 1 }}>
+                <span className="electrical-input__label">Tags (comma separated)</span>
+                <input
+                  className="electrical-input__control"
+                  type="text"
+                  value={draft.tagsText}
+                  onChange={(event) => setDraft({ ...draft, tagsText: event.target.value })}
+                />
+              </label>
+              <label className="electrical-input" style={{ flex: 2 }}>
+                <span className="electrical-input__label">Notes</span>
+                <input
+                  className="electrical-input__control"
+                  type="text"
+                  value={draft.notes}
+                  onChange={(event) => setDraft({ ...draft, notes: event.target.value })}
+                />
+              </label>
+            </div>
+            <div className="table-wrapper" style={{ margin: "0.75rem 0" }}>
+              <table className="matches-table">
+                <thead>
+                  <tr>
+                    <th>Code</th>
+                    <th>Description</th>
+                    <th>Qty</th>
+                    <th>Thickness (mm)</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {draft.subitems.map((sub, index) => (
+                    <tr key={index}>
+                      <td>
+                        <input
+                          className="electrical-input__control"
+                          type="text"
+                          value={sub.code}
+                          onChange={(event) => updateSubitem(index, { code: event.target.value })}
+                        />
+                      </td>
+                      <td>
+                        <input
+                          className="electrical-input__control"
+                          type="text"
+                          value={sub.description}
+                          onChange={(event) => updateSubitem(index, { description: event.target.value })}
+                        />
+                      </td>
+                      <td>
+                        <input
+                          className="electrical-input__control"
+                          type="text"
+                          value={sub.qty}
+                          onChange={(event) => updateSubitem(index, { qty: event.target.value })}
+                        />
+                      </td>
+                      <td>
+                        <input
+                          className="electrical-input__control"
+                          type="text"
+                          value={sub.thickness ?? ""}
+                          onChange={(event) => {
+                            const value = event.target.value.trim();
+                            const parsed = Number(value);
+                            updateSubitem(index, { thickness: value && Number.isFinite(parsed) ? parsed : null });
+                          }}
+                        />
+                      </td>
+                      <td>
+                        <button
+                          type="button"
+                          className="btn-secondary btn-compact btn-muted"
+                          onClick={() =>
+                            setDraft({ ...draft, subitems: draft.subitems.filter((_, i) => i !== index) })
+                          }
+                        >
+                          ×
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div style={{ display: "flex", justifyContent: "space-between", gap: "0.5rem" }}>
+              <button
+                type="button"
+                className="btn-secondary btn-compact"
+                onClick={() => setDraft({ ...draft, subitems: [...draft.subitems, emptySubitem()] })}
+              >
+                Add Sub-item
+              </button>
+              <div style={{ display: "flex", gap: "0.5rem" }}>
+                <button type="button" className="btn-secondary btn-compact btn-muted" onClick={() => setDraft(null)}>
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  className="btn-secondary btn-compact"
+                  onClick={() => void handleSave()}
+                  disabled={saving}
+                >
+                  {saving ? "Saving..." : "Save Assembly"}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {assemblies.length === 0 ? (
+          <div className="pricing-placeholder">
+            <h3>No assemblies found</h3>
+            <p>Mark pricing blocks complete, import completed blocks, or create an assembly.</p>
+          </div>
+        ) : (
+          <div className="table-wrapper">
+            <table className="matches-table">
+              <thead>
+                <tr>
+                  <th>Block code</th>
+                  <th>Description</th>
+                  <th>Unit</th>
+                  <th>Sub-items</th>
+                  <th>Tags</th>
+                  <th>Source</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {assemblies.map((assembly) => (
+                  <tr key={assembly.id}>
+                    <td>{assembly.blockCode || "—"}</td>
+                    <td title={assembly.subitems.map((sub) => sub.description).join("\n")}>{assembly.description}</td>
+                    <td>{assembly.unit || "—"}</td>
+                    <td>{assembly.subitems.length}</td>
+                    <td>{assembly.tags.join(", ") || "—"}</td>
+                    <td>{assembly.source === "completed" ? assembly.sourceProjectName : "Library"}</td>
+                    <td style={{ whiteSpace: "nowrap" }}>
+                      <button
+                        type="button"
+                        className="btn-secondary btn-compact"
+                        onClick={() => setDraft(toDraft(assembly))}
+                      >
+                        Edit
+                      </button>{" "}
+                      <button
+                        type="button"
+                        className="btn-secondary btn-compact btn-muted"
+                        onClick={() => void handleDelete(assembly)}
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {total > PAGE_SIZE && (
+          <div style={{ display: "flex", justifyContent: "flex-end", alignItems: "center", gap: "0.5rem", marginTop: "0.5rem" }}>
+            <button
+              type="button"
+              className="btn-secondary btn-compact"
+              onClick={() => void runSearch(page - 1)}
+              disabled={page <= 1 || loading}
+            >
+              Previous
+            </button>
+            <span>
+              Page {page} of {pageCount}
+            </span>
+            <button
+              type="button"
+              className="btn-secondary btn-compact"
+              onClick={() => void runSearch(page + 1)}
+              disabled={page >= pageCount || loading}
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
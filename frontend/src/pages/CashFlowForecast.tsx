@@ -0,0 +1,262 @@
+import { useEffect, useMemo, useState } from "react";
+import { downloadCashFlow, getCashFlow, saveCashFlowTerms } from "../services/api";
+import type { CashFlowForecast as Forecast, CashFlowTerms, SpendProfile } from "../services/api";
+
+type CashFlowForecastProps = {
+  projectId: string;
+};
+
+const DEFAULT_TERMS: CashFlowTerms = {
+  profile: "s_curve",
+  customProfile: [],
+  advancePercent: "10",
+  retentionPercent: "10",
+  retentionReleaseMonths: "12",
+  paymentDelayMonths: "2",
+  vatPercent: "15",
+};
+
+const TERM_FIELDS: Array<{ key: Exclude<keyof CashFlowTerms, "profile" | "customProfile">; label: string }> = [
+  { key: "advancePercent", label: "Advance %" },
+  { key: "retentionPercent", label: "Retention %" },
+  { key: "retentionReleaseMonths", label: "Retention release (months)" },
+  { key: "paymentDelayMonths", label: "Payment delay (months)" },
+  { key: "vatPercent", label: "VAT %" },
+];
+
+const CHART_LINES: Array<{ key: "cumulativeCost" | "cumulativeRevenue" | "cumulativeNet"; label: string; color: string }> = [
+  { key: "cumulativeCost", label: "Cumulative cost", color: "#e85d75" },
+  { key: "cumulativeRevenue", label: "Cumulative revenue", color: "#3ccf91" },
+  { key: "cumulativeNet", label: "Cumulative cash", color: "#6284ff" },
+];
+
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 220;
+
+const formatMoney = (value: number): string =>
+  (Number.isFinite(value) ? value : 0).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/** Monthly cost/revenue forecast of the bid under its payment terms, with the cumulative S-curves. */
+export default function CashFlowForecast({ projectId }: CashFlowForecastProps) {
+  const [forecast, setForecast] = useState<Forecast | null>(null);
+  const [terms, setTerms] = useState<CashFlowTerms>(DEFAULT_TERMS);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getCashFlow(projectId)
+      .then((result) => {
+        if (cancelled) return;
+        setForecast(result);
+        setTerms(result.terms);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError((err as Error).message || "Failed to load the cash flow.");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const dirty = forecast !== null && JSON.stringify(forecast.terms) !== JSON.stringify(terms);
+  /** Months of the programme itself, which the custom profile is entered for. */
+  const workMonths = forecast ? Math.ceil(forecast.projectDuration) : 0;
+
+  const chart = useMemo(() => {
+    if (!forecast || forecast.months.length === 0) return null;
+    const values = forecast.months.flatMap((entry) => CHART_LINES.map((line) => entry[line.key]));
+    const max = Math.max(...values, 0);
+    const min = Math.min(...values, 0);
+    const span = max - min || 1;
+    const step = forecast.months.length > 1 ? CHART_WIDTH / (forecast.months.length - 1) : 0;
+    const y = (value: number) => CHART_HEIGHT - ((value - min) / span) * CHART_HEIGHT;
+    return {
+      zero: y(0),
+      lines: CHART_LINES.map((line) => ({
+        ...line,
+        points: forecast.months.map((entry, index) => `${index * step},${y(entry[line.key])}`).join(" "),
+      })),
+    };
+  }, [forecast]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError("");
+    try {
+      const result = await saveCashFlowTerms(projectId, terms);
+      setForecast(result);
+      setTerms(result.terms);
+    } catch (err: unknown) {
+      setError((err as Error).message || "Failed to save the payment terms.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError("");
+    try {
+      await downloadCashFlow(projectId);
+    } catch (err: unknown) {
+      setError((err as Error).message || "Export failed.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="eyebrow">Building cash flow...</p>;
+  }
+
+  return (
+    <>
+      <div className="estimation-report__header">
+        <span>
+          Peak negative cash:{" "}
+          <strong>
+            {forecast?.peakNegative
+              ? `${formatMoney(forecast.peakNegative.amount)} (${forecast.peakNegative.month})`
+              : "—"}
+          </strong>
+          {forecast && (
+            <>
+              {" • "}cash positive from {forecast.breakEvenMonth ?? "—"}
+              {" • "}contract sum {formatMoney(forecast.contractSum)} over {forecast.projectDuration} months
+            </>
+          )}
+        </span>
+        <button
+          type="button"
+          className="btn-secondary btn-compact"
+          onClick={() => void handleExport()}
+          disabled={exporting || !forecast || dirty}
+        >
+          {exporting ? "Exporting..." : "Export Excel"}
+        </button>
+      </div>
+      {error && <p className="feedback" style={{ marginTop: 0 }}>{error}</p>}
+
+      <div className="pricing-scenario">
+        <div className="pricing-scenario__row">
+          <label className="electrical-input">
+            <span className="electrical-input__label">Spending profile</span>
+            <select
+              className="electrical-input__control"
+              value={terms.profile}
+              onChange={(event) => setTerms((prev) => ({ ...prev, profile: event.target.value as SpendProfile }))}
+            >
+              <option value="s_curve">S-curve</option>
+              <option value="linear">Linear</option>
+              <option value="custom">Custom</option>
+            </select>
+          </label>
+          {TERM_FIELDS.map((field) => (
+            <label key={field.key} className="electrical-input">
+              <span className="electrical-input__label">{field.label}</span>
+              <input
+                className="electrical-input__control"
+                type="number"
+                min="0"
+                value={terms[field.key]}
+                onChange={(event) => setTerms((prev) => ({ ...prev, [field.key]: event.target.value }))}
+              />
+            </label>
+          ))}
+          <button
+            type="button"
+            className="btn-secondary btn-compact"
+            onClick={() => void handleSave()}
+            disabled={saving || (forecast !== null && !dirty)}
+          >
+            {saving ? "Saving..." : "Save Terms"}
+          </button>
+        </div>
+        {terms.profile === "custom" && (
+          <div className="pricing-scenario__row">
+            {Array.from({ length: workMonths }, (_, month) => (
+              <label key={month} className="electrical-input" style={{ maxWidth: "6rem" }}>
+                <span className="electrical-input__label">M{month + 1} %</span>
+                <input
+                  className="electrical-input__control"
+                  type="number"
+                  min="0"
+                  value={terms.customProfile[month] ?? ""}
+                  onChange={(event) =>
+                    setTerms((prev) => {
+                      const customProfile = Array.from({ length: workMonths }, (_, index) => prev.customProfile[index] ?? "");
+                      customProfile[month] = event.target.value;
+                      return { ...prev, customProfile };
+                    })
+                  }
+                />
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {forecast && chart && (
+        <>
+          <svg
+            className="cash-flow__chart"
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+            preserveAspectRatio="none"
+            role="img"
+            aria-label="Cumulative cost, revenue and cash"
+          >
+            <line x1={0} x2={CHART_WIDTH} y1={chart.zero} y2={chart.zero} className="cash-flow__axis" />
+            {chart.lines.map((line) => (
+              <polyline key={line.key} points={line.points} fill="none" stroke={line.color} strokeWidth={2} />
+            ))}
+          </svg>
+          <div className="manpower-histogram__legend">
+            {CHART_LINES.map((line) => (
+              <span key={line.key}>
+                <i style={{ background: line.color }} />
+                {line.label}
+              </span>
+            ))}
+          </div>
+          <div className="table-wrapper" style={{ margin: "0.75rem 0 0" }}>
+            <table className="matches-table">
+              <thead>
+                <tr>
+                  <th>Month</th>
+                  <th>Cost</th>
+                  <th>Revenue</th>
+                  <th>Cash in</th>
+                  <th>Cash out</th>
+                  <th>Net</th>
+                  <th>Cumulative cash</th>
+                </tr>
+              </thead>
+              <tbody>
+                {forecast.months.map((entry) => (
+                  <tr key={entry.month}>
+                    <td>{entry.month}</td>
+                    <td>{formatMoney(entry.cost)}</td>
+                    <td>{formatMoney(entry.revenue)}</td>
+                    <td>{formatMoney(entry.cashIn)}</td>
+                    <td>{formatMoney(entry.cashOut)}</td>
+                    <td>{formatMoney(entry.net)}</td>
+                    <td style={entry.cumulativeNet < 0 ? { color: "#e85d75" } : undefined}>
+                      {formatMoney(entry.cumulativeNet)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,377 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { Equipment, EquipmentCostBasis, EquipmentPayload, EquipmentRatePeriod } from "../services/api";
+import { createEquipment, deleteEquipment, listEquipment, updateEquipment } from "../services/api";
+
+type NumberField =
+  | "baseRate"
+  | "purchasePrice"
+  | "residualValue"
+  | "usefulLifeHours"
+  | "maintenancePercent"
+  | "hoursPerDay"
+  | "fuelLitresPerHour"
+  | "fuelPricePerLitre"
+  | "operatorHourlyCost"
+  | "mobilisationCost"
+  | "mobilisationHours";
+
+/** Form state; the numbers are edited as text. */
+type EquipmentDraft = Omit<EquipmentPayload, NumberField> & { id: string | null } & Record<NumberField, string>;
+
+const COST_BASIS_LABELS: Record<EquipmentCostBasis, string> = {
+  owned: "Owned",
+  rented: "Rented",
+};
+
+const RATE_PERIOD_LABELS: Record<EquipmentRatePeriod, string> = {
+  hour: "per hour",
+  day: "per day",
+  month: "per month",
+};
+
+/** Working days in a month; mirrors WORKING_DAYS_PER_MONTH in src/services/pricing/equipmentCatalogue.ts. */
+const WORKING_DAYS_PER_MONTH = 26;
+
+const toDraft = (entry?: Equipment): EquipmentDraft => ({
+  id: entry?.id ?? null,
+  code: entry?.code ?? "",
+  description: entry?.description ?? "",
+  costBasis: entry?.costBasis ?? "owned",
+  baseRate: entry ? String(entry.baseRate) : "",
+  ratePeriod: entry?.ratePeriod ?? "hour",
+  purchasePrice: entry?.purchasePrice ? String(entry.purchasePrice) : "",
+  residualValue: entry?.residualValue ? String(entry.residualValue) : "",
+  usefulLifeHours: entry?.usefulLifeHours ? String(entry.usefulLifeHours) : "",
+  maintenancePercent: entry?.maintenancePercent ? String(entry.maintenancePercent) : "",
+  hoursPerDay: entry ? String(entry.hoursPerDay) : "10",
+  fuelLitresPerHour: entry ? String(entry.fuelLitresPerHour) : "",
+  fuelPricePerLitre: entry ? String(entry.fuelPricePerLitre) : "",
+  operatorRequired: entry?.operatorRequired ?? false,
+  operatorHourlyCost: entry ? String(entry.operatorHourlyCost) : "",
+  mobilisationCost: entry ? String(entry.mobilisationCost) : "",
+  mobilisationHours: entry ? String(entry.mobilisationHours) : "",
+});
+
+const toNumber = (value: string): number => {
+  const parsed = Number(value);
+  return value.trim() && Number.isFinite(parsed) ? parsed : 0;
+};
+
+const toPayload = (draft: EquipmentDraft): EquipmentPayload => ({
+  code: draft.code.trim(),
+  description: draft.description.trim(),
+  costBasis: draft.costBasis,
+  baseRate: toNumber(draft.baseRate),
+  ratePeriod: draft.ratePeriod,
+  purchasePrice: toNumber(draft.purchasePrice),
+  residualValue: toNumber(draft.residualValue),
+  usefulLifeHours: toNumber(draft.usefulLifeHours),
+  maintenancePercent: toNumber(draft.maintenancePercent),
+  hoursPerDay: toNumber(draft.hoursPerDay),
+  fuelLitresPerHour: toNumber(draft.fuelLitresPerHour),
+  fuelPricePerLitre: toNumber(draft.fuelPricePerLitre),
+  operatorRequired: draft.operatorRequired,
+  operatorHourlyCost: toNumber(draft.operatorHourlyCost),
+  mobilisationCost: toNumber(draft.mobilisationCost),
+  mobilisationHours: toNumber(draft.mobilisationHours),
+});
+
+/** Owned plant with a purchase price is depreciated; otherwise the per-period rate is used as entered. */
+const isDepreciated = (entry: Pick<EquipmentPayload, "costBasis" | "purchasePrice">): boolean =>
+  entry.costBasis === "owned" && entry.purchasePrice > 0;
+
+/** Ownership or rental cost of one working hour of a payload, before fuel, operator and mobilisation. */
+const baseHourlyCost = (payload: EquipmentPayload): number => {
+  if (isDepreciated(payload)) {
+    const depreciation =
+      payload.usefulLifeHours > 0
+        ? Math.max(payload.purchasePrice - payload.residualValue, 0) / payload.usefulLifeHours
+        : 0;
+    return depreciation * (1 + payload.maintenancePercent / 100);
+  }
+  const periodHours =
+    payload.ratePeriod === "day"
+      ? payload.hoursPerDay
+      : payload.ratePeriod === "month"
+        ? payload.hoursPerDay * WORKING_DAYS_PER_MONTH
+        : 1;
+  return periodHours > 0 ? payload.baseRate / periodHours : 0;
+};
+
+/** Hourly cost of a draft; mirrors equipmentCostBreakdown in src/services/pricing/equipmentCatalogue.ts. */
+const draftHourlyCost = (draft: EquipmentDraft): number => {
+  const payload = toPayload(draft);
+  return (
+    baseHourlyCost(payload) +
+    payload.fuelLitresPerHour * payload.fuelPricePerLitre +
+    (payload.operatorRequired ? payload.operatorHourlyCost : 0) +
+    (payload.mobilisationHours > 0 ? payload.mobilisationCost / payload.mobilisationHours : 0)
+  );
+};
+
+/** Plant with its ownership or rental, fuel, operator and mobilisation costs; equipment rows in blocks link by code. */
+export default function EquipmentCatalogue() {
+  const [entries, setEntries] = useState<Equipment[]>([]);
+  const [search, setSearch] = useState("");
+  const [draft, setDraft] = useState<EquipmentDraft | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setEntries(await listEquipment());
+    } catch (error: unknown) {
+      setMessage((error as Error).message || "Failed to load the equipment catalogue.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const visibleEntries = useMemo(() => {
+    const needle = search.trim().toLowerCase();
+    if (!needle) return entries;
+    return entries.filter((entry) =>
+      [entry.code, entry.description].some((value) => value.toLowerCase().includes(needle))
+    );
+  }, [entries, search]);
+
+  const handleSave = useCallback(async () => {
+    if (!draft) return;
+    setSaving(true);
+    setMessage("");
+    try {
+      const payload = toPayload(draft);
+      if (draft.id) {
+        await updateEquipment(draft.id, payload);
+      } else {
+        await createEquipment(payload);
+      }
+      setDraft(null);
+      await refresh();
+    } catch (error: unknown) {
+      setMessage((error as Error).message || "Failed to save the equipment.");
+    } finally {
+      setSaving(false);
+    }
+  }, [draft, refresh]);
+
+  const handleDelete = useCallback(
+    async (entry: Equipment) => {
+      if (!window.confirm(`Delete ${entry.code} from the catalogue? Blocks using it go back to their typed rates.`)) {
+        return;
+      }
+      try {
+        await deleteEquipment(entry.id);
+        if (draft?.id === entry.id) setDraft(null);
+        await refresh();
+      } catch (error: unknown) {
+        setMessage((error as Error).message || "Failed to delete the equipment.");
+      }
+    },
+    [draft, refresh]
+  );
+
+  const draftField = (label: string, key: "code" | "description" | NumberField, type = "number", flex = 1) => (
+    <label className="electrical-input" style={{ flex }}>
+      <span className="electrical-input__label">{label}</span>
+      <input
+        className="electrical-input__control"
+        type={type}
+        step={type === "number" ? "0.01" : undefined}
+        value={draft ? draft[key] : ""}
+        onChange={(event) => setDraft((prev) => (prev ? { ...prev, [key]: event.target.value } : prev))}
+      />
+    </label>
+  );
+
+  return (
+    <section className="panel">
+      <div className="panel__header">
+        <h2 className="section-title section-title--compact">Equipment Catalogue</h2>
+        <p className="eyebrow" style={{ opacity: 0.7, marginTop: "0.35rem" }}>
+          Give an equipment row in a productivity block a catalogue code and every block using it is priced at the
+          catalogue's hourly cost.
+        </p>
+      </div>
+      <div className="panel__body">
+        <div className="pricing-scenario__row" style={{ marginBottom: "0.75rem" }}>
+          <label className="electrical-input" style={{ flex: 2 }}>
+            <span className="electrical-input__label">Search</span>
+            <input
+              className="electrical-input__control"
+              type="text"
+              value={search}
+              placeholder="Code, description..."
+              onChange={(event) => setSearch(event.target.value)}
+            />
+          </label>
+          <button type="button" className="btn-secondary" onClick={() => setDraft(toDraft())}>
+            New Equipment
+          </button>
+        </div>
+        {message && <p className="feedback" style={{ marginTop: 0 }}>{message}</p>}
+
+        {draft && (
+          <div className="estimation-report">
+            <div className="pricing-scenario__row">
+              {draftField("Code", "code", "text")}
+              {draftField("Description", "description", "text", 3)}
+              <label className="electrical-input">
+                <span className="electrical-input__label">Cost basis</span>
+                <select
+                  className="electrical-input__control"
+                  value={draft.costBasis}
+                  onChange={(event) =>
+                    setDraft((prev) => (prev ? { ...prev, costBasis: event.target.value as EquipmentCostBasis } : prev))
+                  }
+                >
+                  {(Object.keys(COST_BASIS_LABELS) as EquipmentCostBasis[]).map((basis) => (
+                    <option key={basis} value={basis}>
+                      {COST_BASIS_LABELS[basis]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            {draft.costBasis === "owned" && (
+              <>
+                <div className="pricing-scenario__row" style={{ marginTop: "0.5rem" }}>
+                  {draftField("Purchase price", "purchasePrice")}
+                  {draftField("Residual value", "residualValue")}
+                  {draftField("Working life (hours)", "usefulLifeHours")}
+                  {draftField("Maintenance % of depreciation", "maintenancePercent")}
+                </div>
+                <p className="eyebrow" style={{ marginTop: "0.35rem" }}>
+                  Owned plant is depreciated over its working life, whatever the project calendar. Without a
+                  purchase price the ownership rate below is used as entered.
+                </p>
+              </>
+            )}
+            <div className="pricing-scenario__row" style={{ marginTop: "0.5rem" }}>
+              {(draft.costBasis === "rented" || !(toNumber(draft.purchasePrice) > 0)) && (
+                <>
+                  {draftField(draft.costBasis === "rented" ? "Rental rate" : "Ownership rate", "baseRate")}
+                  <label className="electrical-input">
+                    <span className="electrical-input__label">Period</span>
+                    <select
+                      className="electrical-input__control"
+                      value={draft.ratePeriod}
+                      onChange={(event) =>
+                        setDraft((prev) =>
+                          prev ? { ...prev, ratePeriod: event.target.value as EquipmentRatePeriod } : prev
+                        )
+                      }
+                    >
+                      {(Object.keys(RATE_PERIOD_LABELS) as EquipmentRatePeriod[]).map((period) => (
+                        <option key={period} value={period}>
+                          {RATE_PERIOD_LABELS[period]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  {draftField("Working hours / day", "hoursPerDay")}
+                </>
+              )}
+              {draftField("Fuel (l/hr)", "fuelLitresPerHour")}
+              {draftField("Fuel price / l", "fuelPricePerLitre")}
+            </div>
+            <div className="pricing-scenario__row" style={{ marginTop: "0.5rem" }}>
+              <label className="electrical-input" style={{ flexDirection: "row", alignItems: "center", gap: "0.35rem" }}>
+                <input
+                  type="checkbox"
+                  checked={draft.operatorRequired}
+                  onChange={(event) =>
+                    setDraft((prev) => (prev ? { ...prev, operatorRequired: event.target.checked } : prev))
+                  }
+                />
+                <span className="electrical-input__label">Needs an operator</span>
+              </label>
+              {draft.operatorRequired && draftField("Operator cost / hr", "operatorHourlyCost")}
+              {draftField("Mobilisation cost", "mobilisationCost")}
+              {draftField("Hours on site", "mobilisationHours")}
+              <span className="status">{draftHourlyCost(draft).toFixed(2)} / hr</span>
+              <button type="button" className="btn-secondary btn-compact btn-muted" onClick={() => setDraft(null)}>
+                Cancel
+              </button>
+              <button
+                type="button"
+                className="btn-secondary btn-compact"
+                onClick={() => void handleSave()}
+                disabled={saving || !draft.code.trim()}
+              >
+                {saving ? "Saving..." : "Save Equipment"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {visibleEntries.length === 0 ? (
+          <div className="pricing-placeholder">
+            <h3>{loading ? "Loading equipment..." : "No equipment found"}</h3>
+            <p>Add the plant you price with, owned or rented.</p>
+          </div>
+        ) : (
+          <div className="table-wrapper">
+            <table className="matches-table">
+              <thead>
+                <tr>
+                  <th>Code</th>
+                  <th>Description</th>
+                  <th>Basis</th>
+                  <th>Rate</th>
+                  <th>Base / hr</th>
+                  <th>Maintenance / hr</th>
+                  <th>Fuel / hr</th>
+                  <th>Operator / hr</th>
+                  <th>Mobilisation / hr</th>
+                  <th>Hourly cost</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {visibleEntries.map((entry) => (
+                  <tr key={entry.id}>
+                    <td>{entry.code}</td>
+                    <td>{entry.description || "—"}</td>
+                    <td>{COST_BASIS_LABELS[entry.costBasis]}</td>
+                    <td>
+                      {isDepreciated(entry)
+                        ? `${entry.purchasePrice.toFixed(2)} over ${entry.usefulLifeHours} hrs`
+                        : `${entry.baseRate.toFixed(2)} ${RATE_PERIOD_LABELS[entry.ratePeriod]}`}
+                    </td>
+                    <td>{entry.hourlyCost.base.toFixed(2)}</td>
+                    <td>{isDepreciated(entry) ? entry.hourlyCost.maintenance.toFixed(2) : "—"}</td>
+                    <td>{entry.hourlyCost.fuel.toFixed(2)}</td>
+                    <td>{entry.operatorRequired ? entry.hourlyCost.operator.toFixed(2) : "—"}</td>
+                    <td>{entry.hourlyCost.mobilisation.toFixed(2)}</td>
+                    <td>
+                      <strong>{entry.hourlyCost.total.toFixed(2)}</strong>
+                    </td>
+                    <td style={{ whiteSpace: "nowrap" }}>
+                      <button type="button" className="btn-secondary btn-compact" onClick={() => setDraft(toDraft(entry))}>
+                        Edit
+                      </button>{" "}
+                      <button
+                        type="button"
+                        className="btn-secondary btn-compact btn-muted"
+                        onClick={() => void handleDelete(entry)}
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -1,12 +1,32 @@
 import type { ReactNode } from "react";
-import { useCallback, useMemo } from "react";
+import { useCallback, useMemo, useState } from "react";
 import * as XLSX from "xlsx";
-import type { EstimationRow } from "../types";
+import type { EstimationRow, ProjectFile } from "../types";
+import {
+  downloadManpowerHistogram,
+  downloadMaterialEnquiry,
+  downloadPricedBoq,
+  downloadTenderPack,
+  getManpowerHistogram,
+  getMaterialTakeoff,
+  getTenderDetails,
+  saveMaterialWaste,
+} from "../services/api";
+import type { LumpSumSpread, ManpowerHistogram, MaterialTakeoff } from "../services/api";
+import PricingScenarios from "./PricingScenarios";
+import SubcontractQuotes from "./SubcontractQuotes";
+import LumpSumBreakdown from "./LumpSumBreakdown";
+import CashFlowForecast from "./CashFlowForecast";
 
 type EstimationProps = {
   rows: EstimationRow[];
   projectName?: string;
+  projectId?: string;
+  /** Client BOQ workbooks; each can be downloaded with the saved pricing written into its rows. */
+  boqFiles?: ProjectFile[];
   headerTop?: ReactNode;
+  /** Lump-sum projects get the top-down breakdown and can show its spread rates instead of the bottom-up ones. */
+  isLumpSum?: boolean;
   onGenerate?: () => void;
 };
 
@@ -31,7 +51,56 @@ const formatRounded = (value: number): string => {
 
 const formatCell = (value?: string) => (value && value.trim() ? value : "—");
 
-export default function Estimation({ rows, projectName, headerTop, onGenerate }: EstimationProps) {
+const TRADE_COLORS = ["#6284ff", "#3ccf91", "#f5a524", "#e85d75", "#9b6bff", "#2fb8d6", "#c9d45c", "#ff8a4c"];
+
+const tradeColor = (index: number) => TRADE_COLORS[index % TRADE_COLORS.length];
+
+export default function Estimation({
+  rows: pricedRows,
+  projectName,
+  projectId,
+  boqFiles = [],
+  headerTop,
+  isLumpSum = false,
+  onGenerate,
+}: EstimationProps) {
+  const [downloadingFileId, setDownloadingFileId] = useState<string | null>(null);
+  const [downloadError, setDownloadError] = useState("");
+  const [tenderOpen, setTenderOpen] = useState(false);
+  const [tenderClientName, setTenderClientName] = useState("");
+  const [tenderReference, setTenderReference] = useState("");
+  const [tenderAssumptions, setTenderAssumptions] = useState("");
+  const [tenderExclusions, setTenderExclusions] = useState("");
+  const [tenderGenerating, setTenderGenerating] = useState(false);
+  const [histogramOpen, setHistogramOpen] = useState(false);
+  const [histogram, setHistogram] = useState<ManpowerHistogram | null>(null);
+  const [histogramLoading, setHistogramLoading] = useState(false);
+  const [histogramExporting, setHistogramExporting] = useState(false);
+  const [scenariosOpen, setScenariosOpen] = useState(false);
+  const [subcontractsOpen, setSubcontractsOpen] = useState(false);
+  const [lumpSumOpen, setLumpSumOpen] = useState(false);
+  const [cashFlowOpen, setCashFlowOpen] = useState(false);
+  const [lumpSumSpread, setLumpSumSpread] = useState<LumpSumSpread | null>(null);
+  const [showSpreadRates, setShowSpreadRates] = useState(false);
+  const [takeoffOpen, setTakeoffOpen] = useState(false);
+  const [takeoff, setTakeoff] = useState<MaterialTakeoff | null>(null);
+  const [takeoffDefaultWaste, setTakeoffDefaultWaste] = useState("");
+  /** Per-line waste percentages that differ from the default, keyed by take-off line key. */
+  const [takeoffWaste, setTakeoffWaste] = useState<Record<string, string>>({});
+  const [takeoffLoading, setTakeoffLoading] = useState(false);
+  const [takeoffSaving, setTakeoffSaving] = useState(false);
+  const [takeoffExporting, setTakeoffExporting] = useState(false);
+
+  /** The rows as priced, or with the lump-sum spread's rates and amounts when those are shown. */
+  const rows = useMemo(() => {
+    if (!isLumpSum || !showSpreadRates || !lumpSumSpread || lumpSumSpread.amount <= 0) return pricedRows;
+    const linesById = new Map(lumpSumSpread.lines.map((line) => [`priced-${line.itemId}`, line]));
+    return pricedRows.map((row) => {
+      const line = row.type === "priced" ? linesById.get(row.id) : undefined;
+      return line ? { ...row, rate: formatRounded(line.rate), amount: formatRounded(line.amount) } : row;
+    });
+  }, [isLumpSum, lumpSumSpread, pricedRows, showSpreadRates]);
+
   const totalAmount = useMemo(() => {
     return rows.reduce((sum, row) => {
       if (row.type !== "priced") return sum;
@@ -155,6 +224,139 @@ export default function Estimation({ rows, projectName, headerTop, onGenerate }:
     XLSX.writeFile(workbook, `${fileBase}-estimation.xlsx`);
   }, [onGenerate, projectName, rows, totalAmount]);
 
+  const handleDownloadPricedBoq = useCallback(
+    async (file: ProjectFile) => {
+      if (!projectId) return;
+      setDownloadError("");
+      setDownloadingFileId(file.id);
+      try {
+        await downloadPricedBoq(projectId, file.id, file.fileName);
+      } catch (error: unknown) {
+        setDownloadError((error as Error).message || "Failed to export priced BOQ.");
+      } finally {
+        setDownloadingFileId(null);
+      }
+    },
+    [projectId]
+  );
+
+  const toggleTenderPack = useCallback(async () => {
+    const nextOpen = !tenderOpen;
+    setTenderOpen(nextOpen);
+    if (!nextOpen || !projectId) return;
+    try {
+      const details = await getTenderDetails(projectId);
+      setTenderClientName(details.clientName ?? "");
+      setTenderReference(details.reference ?? "");
+      setTenderAssumptions((details.assumptions ?? []).join("\n"));
+      setTenderExclusions((details.exclusions ?? []).join("\n"));
+    } catch {
+      // keep whatever is already in the form
+    }
+  }, [projectId, tenderOpen]);
+
+  const handleGenerateTenderPack = useCallback(async () => {
+    if (!projectId) return;
+    setDownloadError("");
+    setTenderGenerating(true);
+    try {
+      await downloadTenderPack(projectId, {
+        clientName: tenderClientName,
+        reference: tenderReference,
+        assumptions: tenderAssumptions.split("\n"),
+        exclusions: tenderExclusions.split("\n"),
+      });
+    } catch (error: unknown) {
+      setDownloadError((error as Error).message || "Failed to generate tender pack.");
+    } finally {
+      setTenderGenerating(false);
+    }
+  }, [projectId, tenderClientName, tenderReference, tenderAssumptions, tenderExclusions]);
+
+  const toggleHistogram = useCallback(async () => {
+    const nextOpen = !histogramOpen;
+    setHistogramOpen(nextOpen);
+    if (!nextOpen || !projectId) return;
+    setDownloadError("");
+    setHistogramLoading(true);
+    try {
+      setHistogram(await getManpowerHistogram(projectId));
+    } catch (error: unknown) {
+      setHistogram(null);
+      setDownloadError((error as Error).message || "Failed to build manpower histogram.");
+    } finally {
+      setHistogramLoading(false);
+    }
+  }, [histogramOpen, projectId]);
+
+  const handleExportHistogram = useCallback(async () => {
+    if (!projectId) return;
+    setDownloadError("");
+    setHistogramExporting(true);
+    try {
+      await downloadManpowerHistogram(projectId);
+    } catch (error: unknown) {
+      setDownloadError((error as Error).message || "Failed to export manpower histogram.");
+    } finally {
+      setHistogramExporting(false);
+    }
+  }, [projectId]);
+
+  const applyTakeoff = useCallback((next: MaterialTakeoff) => {
+    setTakeoff(next);
+    setTakeoffDefaultWaste(next.defaultWastePercent);
+    const overrides: Record<string, string> = {};
+    next.lines.forEach((line) => {
+      if (line.wastePercent !== next.defaultWastePercent) overrides[line.key] = line.wastePercent;
+    });
+    setTakeoffWaste(overrides);
+  }, []);
+
+  const toggleTakeoff = useCallback(async () => {
+    const nextOpen = !takeoffOpen;
+    setTakeoffOpen(nextOpen);
+    if (!nextOpen || !projectId) return;
+    setDownloadError("");
+    setTakeoffLoading(true);
+    try {
+      applyTakeoff(await getMaterialTakeoff(projectId));
+    } catch (error: unknown) {
+      setTakeoff(null);
+      setDownloadError((error as Error).message || "Failed to load material take-off.");
+    } finally {
+      setTakeoffLoading(false);
+    }
+  }, [applyTakeoff, projectId, takeoffOpen]);
+
+  const handleSaveWaste = useCallback(async () => {
+    if (!projectId) return;
+    setDownloadError("");
+    setTakeoffSaving(true);
+    try {
+      const wasteFactors = Object.entries(takeoffWaste).map(([key, percent]) => ({ key, percent }));
+      applyTakeoff(await saveMaterialWaste(projectId, takeoffDefaultWaste, wasteFactors));
+    } catch (error: unknown) {
+      setDownloadError((error as Error).message || "Failed to save waste factors.");
+    } finally {
+      setTakeoffSaving(false);
+    }
+  }, [applyTakeoff, projectId, takeoffDefaultWaste, takeoffWaste]);
+
+  const handleExportEnquiry = useCallback(async () => {
+    if (!projectId) return;
+    setDownloadError("");
+    setTakeoffExporting(true);
+    try {
+      await downloadMaterialEnquiry(projectId);
+    } catch (error: unknown) {
+      setDownloadError((error as Error).message || "Failed to export material enquiry.");
+    } finally {
+      setTakeoffExporting(false);
+    }
+  }, [projectId]);
+
+  const histogramScale = useMemo(() => Math.max(1, ...(histogram?.totals ?? [])), [histogram]);
+
   return (
     <section className="panel">
       <div className="panel__header panel__header--review">
@@ -167,11 +369,329 @@ export default function Estimation({ rows, projectName, headerTop, onGenerate }:
         </div>
       </div>
       <div className="panel__body">
-        <div style={{ display: "flex", justifyContent: "flex-end", marginBottom: "0.75rem" }}>
+        <div style={{ display: "flex", justifyContent: "flex-end", gap: "0.75rem", marginBottom: "0.75rem", flexWrap: "wrap" }}>
+          {projectId &&
+            boqFiles.map((file) => (
+              <button
+                key={file.id}
+                type="button"
+                className="btn-secondary"
+                onClick={() => void handleDownloadPricedBoq(file)}
+                disabled={downloadingFileId !== null}
+                title="Download the client's BOQ with saved rates and amounts filled in"
+              >
+                {downloadingFileId === file.id ? "Exporting..." : `Priced BOQ: ${file.fileName}`}
+              </button>
+            ))}
+          {projectId && (
+            <button type="button" className="btn-secondary" onClick={() => void toggleTenderPack()}>
+              Tender Pack
+            </button>
+          )}
+          {projectId && (
+            <button type="button" className="btn-secondary" onClick={() => void toggleHistogram()}>
+              Manpower Histogram
+            </button>
+          )}
+          {projectId && (
+            <button type="button" className="btn-secondary" onClick={() => void toggleTakeoff()}>
+              Material Take-off
+            </button>
+          )}
+          {projectId && (
+            <button type="button" className="btn-secondary" onClick={() => setScenariosOpen((prev) => !prev)}>
+              Scenarios
+            </button>
+          )}
+          {projectId && (
+            <button type="button" className="btn-secondary" onClick={() => setSubcontractsOpen((prev) => !prev)}>
+              Subcontract Quotes
+            </button>
+          )}
+          {projectId && (
+            <button type="button" className="btn-secondary" onClick={() => setCashFlowOpen((prev) => !prev)}>
+              Cash Flow
+            </button>
+          )}
+          {projectId && isLumpSum && (
+            <button type="button" className="btn-secondary" onClick={() => setLumpSumOpen((prev) => !prev)}>
+              Lump Sum Breakdown
+            </button>
+          )}
           <button type="button" className="btn-secondary" onClick={handleGenerate}>
             Generate
           </button>
         </div>
+        {downloadError && <p className="feedback" style={{ marginTop: 0 }}>{downloadError}</p>}
+        {tenderOpen && projectId && (
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "0.75rem", marginBottom: "1rem" }}>
+            <label className="electrical-input">
+              <span className="electrical-input__label">Client</span>
+              <input
+                className="electrical-input__control"
+                type="text"
+                value={tenderClientName}
+                onChange={(event) => setTenderClientName(event.target.value)}
+              />
+            </label>
+            <label className="electrical-input">
+              <span className="electrical-input__label">Tender reference</span>
+              <input
+                className="electrical-input__control"
+                type="text"
+                value={tenderReference}
+                onChange={(event) => setTenderReference(event.target.value)}
+              />
+            </label>
+            <label className="electrical-input">
+              <span className="electrical-input__label">Assumptions (one per line)</span>
+              <textarea
+                className="productivity-textarea"
+                value={tenderAssumptions}
+                onChange={(event) => setTenderAssumptions(event.target.value)}
+                rows={5}
+              />
+            </label>
+            <label className="electrical-input">
+              <span className="electrical-input__label">Exclusions (one per line)</span>
+              <textarea
+                className="productivity-textarea"
+                value={tenderExclusions}
+                onChange={(event) => setTenderExclusions(event.target.value)}
+                rows={5}
+              />
+            </label>
+            <div style={{ gridColumn: "1 / -1", display: "flex", justifyContent: "flex-end" }}>
+              <button
+                type="button"
+                className="btn-secondary"
+                onClick={() => void handleGenerateTenderPack()}
+                disabled={tenderGenerating}
+              >
+                {tenderGenerating ? "Generating..." : "Download Tender Pack PDF"}
+              </button>
+            </div>
+          </div>
+        )}
+        {histogramOpen && projectId && (
+          <div className="estimation-report">
+            {histogramLoading ? (
+              <p className="eyebrow">Building histogram...</p>
+            ) : histogram ? (
+              <>
+                <div className="estimation-report__header">
+                  <span>
+                    Peak manpower:{" "}
+                    <strong>
+                      {histogram.peak ? `${histogram.peak.headcount.toFixed(1)} (${histogram.peak.month})` : "—"}
+                    </strong>
+                    {" • "}
+                    {histogram.totalMh.toFixed(0)} MH over {histogram.projectDuration} months at an average{" "}
+                    {histogram.hoursPerMonth.toFixed(0)} h/month
+                  </span>
+                  <button
+                    type="button"
+                    className="btn-secondary btn-compact"
+                    onClick={() => void handleExportHistogram()}
+                    disabled={histogramExporting}
+                  >
+                    {histogramExporting ? "Exporting..." : "Export Excel"}
+                  </button>
+                </div>
+                <div className="manpower-histogram__chart">
+                  {histogram.months.map((month, monthIndex) => (
+                    <div key={month} className="manpower-histogram__column">
+                      <span className="manpower-histogram__value">{histogram.totals[monthIndex].toFixed(1)}</span>
+                      <div className="manpower-histogram__stack">
+                        {histogram.trades.map((trade, tradeIndex) =>
+                          trade.headcount[monthIndex] > 0 ? (
+                            <div
+                              key={trade.trade}
+                              className="manpower-histogram__bar"
+                              title={`${trade.trade}: ${trade.headcount[monthIndex].toFixed(1)}`}
+                              style={{
+                                height: `${(trade.headcount[monthIndex] / histogramScale) * 100}%`,
+                                background: tradeColor(tradeIndex),
+                              }}
+                            />
+                          ) : null
+                        )}
+                      </div>
+                      <span
+                        className="manpower-histogram__label"
+                        title={`${histogram.monthHours[monthIndex]} working hours per worker`}
+                      >
+                        {histogram.monthLabels[monthIndex] ?? month}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                <div className="manpower-histogram__legend">
+                  {histogram.trades.map((trade, tradeIndex) => (
+                    <span key={trade.trade}>
+                      <i style={{ background: tradeColor(tradeIndex) }} />
+                      {trade.trade}
+                    </span>
+                  ))}
+                </div>
+                <div className="table-wrapper" style={{ margin: "0.75rem 0 0" }}>
+                  <table className="matches-table">
+                    <thead>
+                      <tr>
+                        <th>Trade</th>
+                        <th>Total MH</th>
+                        {histogram.months.map((month, index) => (
+                          <th key={month}>{histogram.monthLabels[index] ?? month}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {histogram.trades.map((trade) => (
+                        <tr key={trade.trade}>
+                          <td>{trade.trade}</td>
+                          <td>{trade.totalMh.toFixed(2)}</td>
+                          {trade.headcount.map((value, index) => (
+                            <td key={histogram.months[index]}>{value.toFixed(1)}</td>
+                          ))}
+                        </tr>
+                      ))}
+                      <tr className="pricing-summary-row">
+                        <td>Total headcount</td>
+                        <td>{histogram.totalMh.toFixed(2)}</td>
+                        {histogram.totals.map((value, index) => (
+                          <td key={histogram.months[index]}>{value.toFixed(1)}</td>
+                        ))}
+                      </tr>
+                      <tr>
+                        <td>Hours per worker</td>
+                        <td />
+                        {histogram.monthHours.map((value, index) => (
+                          <td key={histogram.months[index]}>{value.toFixed(0)}</td>
+                        ))}
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            ) : null}
+          </div>
+        )}
+        {takeoffOpen && projectId && (
+          <div className="estimation-report">
+            {takeoffLoading ? (
+              <p className="eyebrow">Loading material take-off...</p>
+            ) : takeoff ? (
+              <>
+                <div className="estimation-report__header">
+                  <label className="electrical-input" style={{ maxWidth: "180px" }}>
+                    <span className="electrical-input__label">Default waste %</span>
+                    <input
+                      className="electrical-input__control"
+                      type="text"
+                      value={takeoffDefaultWaste}
+                      onChange={(event) => setTakeoffDefaultWaste(event.target.value)}
+                    />
+                  </label>
+                  <div style={{ display: "flex", gap: "0.5rem" }}>
+                    <button
+                      type="button"
+                      className="btn-secondary btn-compact"
+                      onClick={() => void handleSaveWaste()}
+                      disabled={takeoffSaving}
+                    >
+                      {takeoffSaving ? "Saving..." : "Save Waste"}
+                    </button>
+                    <button
+                      type="button"
+                      className="btn-secondary btn-compact"
+                      onClick={() => void handleExportEnquiry()}
+                      disabled={takeoffExporting || takeoff.lines.length === 0}
+                      title="Exports the last saved waste factors"
+                    >
+                      {takeoffExporting ? "Exporting..." : "Export Enquiry Sheet"}
+                    </button>
+                  </div>
+                </div>
+                {takeoff.lines.length === 0 ? (
+                  <p className="eyebrow">No priced sub-items with quantities yet.</p>
+                ) : (
+                  <div className="table-wrapper" style={{ margin: 0, maxHeight: "360px" }}>
+                    <table className="matches-table">
+                      <thead>
+                        <tr>
+                          <th>Code</th>
+                          <th>Description</th>
+                          <th>Unit</th>
+                          <th>Net Qty</th>
+                          <th>Waste %</th>
+                          <th>Gross Qty</th>
+                          <th>Budget Rate</th>
+                          <th>Used In</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {takeoff.lines.map((line) => {
+                          const waste = takeoffWaste[line.key] || takeoffDefaultWaste;
+                          return (
+                            <tr key={line.key}>
+                              <td>{formatCell(line.code)}</td>
+                              <td>{formatCell(line.description)}</td>
+                              <td>{formatCell(line.unit)}</td>
+                              <td>{line.netQty.toFixed(3)}</td>
+                              <td>
+                                <input
+                                  className="electrical-input__control"
+                                  type="text"
+                                  style={{ width: "70px" }}
+                                  value={takeoffWaste[line.key] ?? ""}
+                                  placeholder={takeoffDefaultWaste}
+                                  onChange={(event) =>
+                                    setTakeoffWaste((prev) => ({ ...prev, [line.key]: event.target.value }))
+                                  }
+                                />
+                              </td>
+                              <td>{(line.netQty * (1 + parseNumber(waste) / 100)).toFixed(3)}</td>
+                              <td>{formatRounded(line.budgetRate)}</td>
+                              <td>{line.itemCodes.join(", ") || "—"}</td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </>
+            ) : null}
+          </div>
+        )}
+        {scenariosOpen && projectId && (
+          <div className="estimation-report">
+            <PricingScenarios projectId={projectId} />
+          </div>
+        )}
+        {subcontractsOpen && projectId && (
+          <div className="estimation-report">
+            <SubcontractQuotes projectId={projectId} />
+          </div>
+        )}
+        {cashFlowOpen && projectId && (
+          <div className="estimation-report">
+            <CashFlowForecast projectId={projectId} />
+          </div>
+        )}
+        {lumpSumOpen && projectId && isLumpSum && (
+          <div className="estimation-report">
+            <label className="panel__checkbox">
+              <input
+                type="checkbox"
+                checked={showSpreadRates}
+                onChange={(event) => setShowSpreadRates(event.target.checked)}
+              />
+              <span>Show spread rates in the table and export</span>
+            </label>
+            <LumpSumBreakdown projectId={projectId} onSpreadChange={setLumpSumSpread} />
+          </div>
+        )}
         {rows.length === 0 ? (
           <div className="pricing-placeholder">
             <h3>No priced items yet</h3>
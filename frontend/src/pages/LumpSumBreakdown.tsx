@@ -0,0 +1,301 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import { getComputedPricing, getLumpSum, getLumpSumSpread, saveLumpSum } from "../services/api";
+import type { ComputedPricingItem, LumpSumBreakdown as Breakdown, LumpSumPackage, LumpSumSpread } from "../services/api";
+
+type LumpSumBreakdownProps = {
+  projectId: string;
+  /** Called with every freshly loaded spread, so a host table can show the spread rates. */
+  onSpreadChange?: (spread: LumpSumSpread) => void;
+};
+
+const formatMoney = (value: number): string =>
+  (Number.isFinite(value) ? value : 0).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const emptyPackage = (): LumpSumPackage => ({ id: uuidv4(), name: "", basis: "percent", value: "", itemIds: [] });
+
+/**
+ * Top-down pricing of a lump-sum project: the tender sum split into trade packages by allowance or percentage,
+ * then spread back to the BOQ lines in proportion to their bottom-up pricing.
+ */
+export default function LumpSumBreakdown({ projectId, onSpreadChange }: LumpSumBreakdownProps) {
+  const [breakdown, setBreakdown] = useState<Breakdown>({ amount: "", packages: [] });
+  const [saved, setSaved] = useState<Breakdown | null>(null);
+  const [spread, setSpread] = useState<LumpSumSpread | null>(null);
+  const [items, setItems] = useState<ComputedPricingItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const itemsById = useMemo(() => new Map(items.map((item) => [item.itemId, item])), [items]);
+  const categories = useMemo(
+    () => Array.from(new Set(items.map((item) => item.category))).sort((a, b) => a.localeCompare(b)),
+    [items]
+  );
+  /** Items already in some package; an item belongs to one package only. */
+  const assigned = useMemo(() => new Set(breakdown.packages.flatMap((pkg) => pkg.itemIds)), [breakdown.packages]);
+  const dirty = saved !== null && JSON.stringify(saved) !== JSON.stringify(breakdown);
+
+  const applySpread = useCallback(
+    (next: LumpSumSpread) => {
+      setSpread(next);
+      onSpreadChange?.(next);
+    },
+    [onSpreadChange]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([getLumpSum(projectId), getLumpSumSpread(projectId), getComputedPricing(projectId)])
+      .then(([stored, storedSpread, computed]) => {
+        if (cancelled) return;
+        setBreakdown(stored);
+        setSaved(stored);
+        setItems(computed.items.filter((item) => item.itemType === "measured"));
+        applySpread(storedSpread);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError((err as Error).message || "Failed to load the lump-sum breakdown.");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, applySpread]);
+
+  const updatePackage = (id: string, patch: Partial<LumpSumPackage>) =>
+    setBreakdown((prev) => ({
+      ...prev,
+      packages: prev.packages.map((pkg) => (pkg.id === id ? { ...pkg, ...patch } : pkg)),
+    }));
+
+  const handleSave = async () => {
+    setBusy(true);
+    setError("");
+    try {
+      const stored = await saveLumpSum(projectId, breakdown);
+      setBreakdown(stored);
+      setSaved(stored);
+      applySpread(await getLumpSumSpread(projectId));
+    } catch (err: unknown) {
+      setError((err as Error).message || "Failed to save the breakdown.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="eyebrow">Loading lump-sum breakdown...</p>;
+  }
+
+  return (
+    <>
+      <div className="estimation-report__header">
+        <span>
+          Packages take an allowance or a share of the lump sum; what they leave is spread over items in no package.
+        </span>
+        <div style={{ display: "flex", gap: "0.5rem" }}>
+          <button
+            type="button"
+            className="btn-secondary btn-compact"
+            onClick={() => setBreakdown((prev) => ({ ...prev, packages: [...prev.packages, emptyPackage()] }))}
+          >
+            Add Package
+          </button>
+          <button type="button" className="btn-secondary btn-compact" onClick={() => void handleSave()} disabled={busy || !dirty}>
+            {busy ? "Saving..." : "Save Breakdown"}
+          </button>
+        </div>
+      </div>
+      {error && <p className="feedback" style={{ marginTop: 0 }}>{error}</p>}
+
+      <div className="pricing-scenario">
+        <div className="pricing-scenario__row">
+          <label className="electrical-input">
+            <span className="electrical-input__label">Lump sum</span>
+            <input
+              className="electrical-input__control"
+              type="number"
+              min="0"
+              value={breakdown.amount}
+              onChange={(event) => setBreakdown((prev) => ({ ...prev, amount: event.target.value }))}
+            />
+          </label>
+          {spread && (
+            <span className="eyebrow">
+              Allocated {formatMoney(spread.allocated)} · remainder {formatMoney(spread.remainder)}
+              {spread.rounding !== 0 && ` · ${formatMoney(spread.rounding)} rounding on package totals`}
+              {spread.unspread !== 0 && ` · ${formatMoney(spread.unspread)} not spread to any line`}
+            </span>
+          )}
+        </div>
+        {breakdown.packages.map((pkg) => (
+          <div key={pkg.id} className="pricing-scenario__row">
+            <label className="electrical-input">
+              <span className="electrical-input__label">Package</span>
+              <input
+                className="electrical-input__control"
+                type="text"
+                value={pkg.name}
+                placeholder="e.g. Civil works"
+                onChange={(event) => updatePackage(pkg.id, { name: event.target.value })}
+              />
+            </label>
+            <label className="electrical-input">
+              <span className="electrical-input__label">Basis</span>
+              <select
+                className="electrical-input__control"
+                value={pkg.basis}
+                onChange={(event) => updatePackage(pkg.id, { basis: event.target.value as LumpSumPackage["basis"] })}
+              >
+                <option value="percent">% of lump sum</option>
+                <option value="allowance">Allowance</option>
+              </select>
+            </label>
+            <label className="electrical-input">
+              <span className="electrical-input__label">{pkg.basis === "percent" ? "Percent" : "Amount"}</span>
+              <input
+                className="electrical-input__control"
+                type="number"
+                min="0"
+                value={pkg.value}
+                onChange={(event) => updatePackage(pkg.id, { value: event.target.value })}
+              />
+            </label>
+            <label className="electrical-input">
+              <span className="electrical-input__label">Add BOQ item</span>
+              <select
+                className="electrical-input__control"
+                value=""
+                onChange={(event) => {
+                  const itemId = event.target.value;
+                  if (itemId) updatePackage(pkg.id, { itemIds: [...pkg.itemIds, itemId] });
+                }}
+              >
+                <option value="">Select item...</option>
+                {items
+                  .filter((item) => !assigned.has(item.itemId))
+                  .map((item) => (
+                    <option key={item.itemId} value={item.itemId}>
+                      {item.itemCode} — {item.description.slice(0, 60)}
+                    </option>
+                  ))}
+              </select>
+            </label>
+            <label className="electrical-input">
+              <span className="electrical-input__label">Add category</span>
+              <select
+                className="electrical-input__control"
+                value=""
+                onChange={(event) => {
+                  const category = event.target.value;
+                  if (!category) return;
+                  updatePackage(pkg.id, {
+                    itemIds: [
+                      ...pkg.itemIds,
+                      ...items
+                        .filter((item) => item.category === category && !assigned.has(item.itemId))
+                        .map((item) => item.itemId),
+                    ],
+                  });
+                }}
+              >
+                <option value="">Select category...</option>
+                {categories.map((category) => (
+                  <option key={category} value={category}>
+                    {category}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {pkg.itemIds.map((itemId) => (
+              <span key={itemId} style={{ display: "inline-flex", gap: "0.25rem", alignItems: "center" }}>
+                <span title={itemsById.get(itemId)?.description}>{itemsById.get(itemId)?.itemCode || "Removed item"}</span>
+                <button
+                  type="button"
+                  className="btn-secondary btn-compact btn-muted"
+                  onClick={() => updatePackage(pkg.id, { itemIds: pkg.itemIds.filter((id) => id !== itemId) })}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+            <button
+              type="button"
+              className="btn-secondary btn-compact btn-muted"
+              onClick={() =>
+                setBreakdown((prev) => ({ ...prev, packages: prev.packages.filter((entry) => entry.id !== pkg.id) }))
+              }
+            >
+              Remove Package
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {spread && spread.packages.length > 0 && !dirty && (
+        <div className="table-wrapper" style={{ margin: "0.75rem 0 0" }}>
+          <table className="matches-table">
+            <thead>
+              <tr>
+                <th>Package</th>
+                <th>Items</th>
+                <th>Share</th>
+                <th>Amount</th>
+                <th>Rounding</th>
+                <th>Bottom-up sell</th>
+              </tr>
+            </thead>
+            <tbody>
+              {spread.packages.map((pkg) => (
+                <tr key={pkg.id ?? "remainder"}>
+                  <td>{pkg.name}</td>
+                  <td>{pkg.itemCount}</td>
+                  <td>{pkg.percent.toFixed(2)}%</td>
+                  <td>{formatMoney(pkg.amount)}</td>
+                  <td>{pkg.rounding !== 0 ? formatMoney(pkg.rounding) : "—"}</td>
+                  <td>{formatMoney(pkg.bottomUpSell)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {spread && spread.lines.length > 0 && !dirty && (
+        <div className="table-wrapper" style={{ margin: "0.75rem 0 0" }}>
+          <table className="matches-table">
+            <thead>
+              <tr>
+                <th>Item</th>
+                <th>Description</th>
+                <th>Package</th>
+                <th>Qty</th>
+                <th>Unit</th>
+                <th>Bottom-up</th>
+                <th>Rate</th>
+                <th>Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {spread.lines.map((line) => (
+                <tr key={line.itemId}>
+                  <td>{line.itemCode}</td>
+                  <td>{line.description}</td>
+                  <td>{line.packageName}</td>
+                  <td>{line.qty}</td>
+                  <td>{line.unit}</td>
+                  <td>{formatMoney(line.bottomUpSell)}</td>
+                  <td>{formatMoney(line.rate)}</td>
+                  <td>{formatMoney(line.amount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,230 @@
+import { useCallback, useEffect, useState } from "react";
+import type { ManpowerMix } from "../types";
+import { getManpowerMix, getNationalisationReport, saveManpowerMix } from "../services/api";
+import type { NationalisationReport } from "../services/api";
+
+type ManpowerMixProps = {
+  projectId: string;
+  /** Trade codes of the location the project is priced at, offered for the per-trade percentages. */
+  tradeCodes: string[];
+  onSaved?: (mix: ManpowerMix | null) => void;
+};
+
+const EMPTY_MIX: ManpowerMix = { saudiPercent: "", trades: [], nitaqatPercent: "" };
+
+const formatAmount = (value: number): string =>
+  value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * The Saudi share of the project's workforce, overall and per trade, with the Nitaqat target; and what it
+ * costs over an all-expatriate workforce for the trades of the project's location with Saudi and expatriate pay.
+ */
+export default function ManpowerMixPanel({ projectId, tradeCodes, onSaved }: ManpowerMixProps) {
+  const [mix, setMix] = useState<ManpowerMix>(EMPTY_MIX);
+  const [report, setReport] = useState<NationalisationReport | null>(null);
+  const [reportError, setReportError] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [error, setError] = useState("");
+
+  const refreshReport = useCallback(async () => {
+    try {
+      setReport(await getNationalisationReport(projectId));
+      setReportError("");
+    } catch (err: unknown) {
+      setReport(null);
+      setReportError((err as Error).message || "Failed to load the nationalisation cost.");
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError("");
+    getManpowerMix(projectId)
+      .then(async (stored) => {
+        if (cancelled) return;
+        setMix(stored ?? EMPTY_MIX);
+        setDirty(false);
+        await refreshReport();
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError((err as Error).message || "Failed to load the manpower mix.");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, refreshReport]);
+
+  const update = useCallback((change: Partial<ManpowerMix>) => {
+    setMix((prev) => ({ ...prev, ...change }));
+    setDirty(true);
+  }, []);
+
+  const updateTrade = useCallback((index: number, change: Partial<ManpowerMix["trades"][number]>) => {
+    setMix((prev) => ({
+      ...prev,
+      trades: prev.trades.map((entry, position) => (position === index ? { ...entry, ...change } : entry)),
+    }));
+    setDirty(true);
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    setError("");
+    setSaving(true);
+    try {
+      const saved = await saveManpowerMix(projectId, {
+        ...mix,
+        trades: mix.trades
+          .map((entry) => ({ tradeCode: entry.tradeCode.trim(), saudiPercent: entry.saudiPercent.trim() }))
+          .filter((entry) => entry.tradeCode),
+      });
+      setMix(saved ?? EMPTY_MIX);
+      setDirty(false);
+      onSaved?.(saved);
+      await refreshReport();
+    } catch (err: unknown) {
+      setError((err as Error).message || "Failed to save the manpower mix.");
+    } finally {
+      setSaving(false);
+    }
+  }, [mix, onSaved, projectId, refreshReport]);
+
+  if (loading) {
+    return <p className="eyebrow">Loading manpower mix...</p>;
+  }
+
+  return (
+    <>
+      <div className="estimation-report__header">
+        <span>
+          Trades with Saudi and expatriate pay in the location's trade rates are priced at the blend of this mix.
+        </span>
+        <div style={{ display: "flex", gap: "0.5rem" }}>
+          <button
+            type="button"
+            className="btn-secondary btn-compact"
+            onClick={() => update({ trades: [...mix.trades, { tradeCode: "", saudiPercent: "" }] })}
+          >
+            Add Trade
+          </button>
+          <button
+            type="button"
+            className="btn-secondary btn-compact"
+            onClick={() => void handleSave()}
+            disabled={saving || !dirty}
+          >
+            {saving ? "Saving..." : "Save Mix"}
+          </button>
+        </div>
+      </div>
+      {error && <p className="feedback" style={{ marginTop: 0 }}>{error}</p>}
+      <datalist id="manpower-mix-trades">
+        {tradeCodes.map((code) => (
+          <option key={code} value={code} />
+        ))}
+      </datalist>
+      <div className="pricing-scenario">
+        <div className="pricing-scenario__row">
+          <label className="electrical-input">
+            <span className="electrical-input__label">Saudi % (all trades)</span>
+            <input
+              className="electrical-input__control"
+              type="text"
+              placeholder="0"
+              value={mix.saudiPercent}
+              onChange={(event) => update({ saudiPercent: event.target.value })}
+            />
+          </label>
+          <label className="electrical-input">
+            <span className="electrical-input__label">Nitaqat target %</span>
+            <input
+              className="electrical-input__control"
+              type="text"
+              placeholder="None"
+              value={mix.nitaqatPercent}
+              onChange={(event) => update({ nitaqatPercent: event.target.value })}
+            />
+          </label>
+        </div>
+        {mix.trades.map((entry, index) => (
+          <div key={index} className="pricing-scenario__row" style={{ marginTop: "0.5rem" }}>
+            <label className="electrical-input">
+              <span className="electrical-input__label">Trade code</span>
+              <input
+                className="electrical-input__control"
+                type="text"
+                list="manpower-mix-trades"
+                value={entry.tradeCode}
+                onChange={(event) => updateTrade(index, { tradeCode: event.target.value })}
+              />
+            </label>
+            <label className="electrical-input">
+              <span className="electrical-input__label">Saudi %</span>
+              <input
+                className="electrical-input__control"
+                type="text"
+                value={entry.saudiPercent}
+                onChange={(event) => updateTrade(index, { saudiPercent: event.target.value })}
+              />
+            </label>
+            <button
+              type="button"
+              className="btn-secondary btn-compact btn-muted"
+              onClick={() => update({ trades: mix.trades.filter((_, position) => position !== index) })}
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+      {reportError && <p className="eyebrow">{reportError}</p>}
+      {report && (
+        <>
+          <p className="eyebrow">
+            Saudi share {report.saudiPercent.toFixed(1)}% of {report.totalMh.toFixed(0)} MH
+            {report.nitaqatPercent !== null &&
+              ` • Nitaqat target ${report.nitaqatPercent}%${report.meetsNitaqat === false ? " not met" : ""}`}
+            {" • "}Nationalisation cost <strong>{formatAmount(report.cost)}</strong>
+          </p>
+          {report.trades.length > 0 ? (
+            <div className="table-wrapper">
+              <table className="matches-table">
+                <thead>
+                  <tr>
+                    <th>Trade</th>
+                    <th>MH</th>
+                    <th>Saudi %</th>
+                    <th>Saudi / hr</th>
+                    <th>Expat / hr</th>
+                    <th>Blended / hr</th>
+                    <th>Cost over expat</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.trades.map((trade) => (
+                    <tr key={trade.tradeCode}>
+                      <td>{trade.name ? `${trade.tradeCode} — ${trade.name}` : trade.tradeCode}</td>
+                      <td>{trade.totalMh.toFixed(2)}</td>
+                      <td>{trade.saudiPercent}</td>
+                      <td>{trade.saudiHourly.toFixed(2)}</td>
+                      <td>{trade.expatriateHourly.toFixed(2)}</td>
+                      <td>{trade.blendedHourly.toFixed(2)}</td>
+                      <td>{formatAmount(trade.cost)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="eyebrow">No priced manpower rows use a trade with Saudi and expatriate pay.</p>
+          )}
+        </>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,330 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { MaterialPrice, MaterialPricePayload, SupersededMaterialPrice } from "../services/api";
+import {
+  createMaterialPrice,
+  deleteMaterialPrice,
+  importMaterialPrices,
+  listMaterialPrices,
+  listSupersededMaterialPrices,
+  updateMaterialPrice,
+} from "../services/api";
+
+/** Form state; the price is edited as text and dates as yyyy-mm-dd. */
+type MaterialPriceDraft = Omit<MaterialPricePayload, "price" | "validTo"> & {
+  id: string | null;
+  price: string;
+  validTo: string;
+};
+
+const toDateInput = (value: string | null | undefined): string => (value ? value.slice(0, 10) : "");
+
+const today = (): string => new Date().toISOString().slice(0, 10);
+
+const toDraft = (price?: MaterialPrice): MaterialPriceDraft => ({
+  id: price?.id ?? null,
+  code: price?.code ?? "",
+  description: price?.description ?? "",
+  unit: price?.unit ?? "",
+  supplier: price?.supplier ?? "",
+  price: price ? String(price.price) : "",
+  currency: price?.currency ?? "SAR",
+  validFrom: toDateInput(price?.validFrom) || today(),
+  validTo: toDateInput(price?.validTo),
+});
+
+/** A new dated price for the same material, taking effect today. */
+const toNewPriceDraft = (price: MaterialPrice): MaterialPriceDraft => ({
+  ...toDraft(price),
+  id: null,
+  price: "",
+  validFrom: today(),
+  validTo: "",
+});
+
+const toPayload = (draft: MaterialPriceDraft): MaterialPricePayload => ({
+  code: draft.code,
+  description: draft.description,
+  unit: draft.unit,
+  supplier: draft.supplier,
+  price: Number(draft.price),
+  currency: draft.currency,
+  validFrom: draft.validFrom,
+  validTo: draft.validTo || null,
+});
+
+/** Supplier material prices with effective dates; productivity blocks link to them by code. */
+export default function MaterialsCatalogue() {
+  const [prices, setPrices] = useState<MaterialPrice[]>([]);
+  const [superseded, setSuperseded] = useState<SupersededMaterialPrice[]>([]);
+  const [search, setSearch] = useState("");
+  const [showHistory, setShowHistory] = useState(false);
+  const [draft, setDraft] = useState<MaterialPriceDraft | null>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [catalogue, outdated] = await Promise.all([listMaterialPrices(), listSupersededMaterialPrices()]);
+      setPrices(catalogue);
+      setSuperseded(outdated);
+    } catch (error: unknown) {
+      setMessage((error as Error).message || "Failed to load the materials catalogue.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const visiblePrices = useMemo(() => {
+    const needle = search.trim().toLowerCase();
+    return prices.filter((price) => {
+      if (!showHistory && !price.isCurrent) return false;
+      if (!needle) return true;
+      return [price.code, price.description, price.supplier].some((value) => value.toLowerCase().includes(needle));
+    });
+  }, [prices, search, showHistory]);
+
+  const supersededByProject = useMemo(() => {
+    const groups = new Map<string, { projectName: string; entries: SupersededMaterialPrice[] }>();
+    superseded.forEach((entry) => {
+      const group = groups.get(entry.projectId) ?? { projectName: entry.projectName, entries: [] };
+      group.entries.push(entry);
+      groups.set(entry.projectId, group);
+    });
+    return Array.from(groups.values());
+  }, [superseded]);
+
+  const handleSave = useCallback(async () => {
+    if (!draft) return;
+    setSaving(true);
+    setMessage("");
+    try {
+      const payload = toPayload(draft);
+      if (draft.id) {
+        await updateMaterialPrice(draft.id, payload);
+      } else {
+        await createMaterialPrice(payload);
+      }
+      setDraft(null);
+      await refresh();
+    } catch (error: unknown) {
+      setMessage((error as Error).message || "Failed to save the price.");
+    } finally {
+      setSaving(false);
+    }
+  }, [draft, refresh]);
+
+  const handleDelete = useCallback(
+    async (price: MaterialPrice) => {
+      if (!window.confirm(`Delete the ${price.code} price from ${price.supplier || "the catalogue"}?`)) return;
+      try {
+        await deleteMaterialPrice(price.id);
+        if (draft?.id === price.id) setDraft(null);
+        await refresh();
+      } catch (error: unknown) {
+        setMessage((error as Error).message || "Failed to delete the price.");
+      }
+    },
+    [draft, refresh]
+  );
+
+  const handleImport = useCallback(async () => {
+    if (!importFile) return;
+    setSaving(true);
+    setMessage("");
+    try {
+      const { imported, skippedRows } = await importMaterialPrices(importFile);
+      setMessage(
+        `${imported} price${imported === 1 ? "" : "s"} imported` +
+          (skippedRows ? `; ${skippedRows} row(s) without a code or a numeric price were skipped.` : ".")
+      );
+      setImportFile(null);
+      await refresh();
+    } catch (error: unknown) {
+      setMessage((error as Error).message || "Import failed.");
+    } finally {
+      setSaving(false);
+    }
+  }, [importFile, refresh]);
+
+  const draftField = (label: string, key: keyof MaterialPriceDraft, type = "text", flex = 1) => (
+    <label className="electrical-input" style={{ flex }}>
+      <span className="electrical-input__label">{label}</span>
+      <input
+        className="electrical-input__control"
+        type={type}
+        value={draft ? String(draft[key] ?? "") : ""}
+        onChange={(event) => setDraft((prev) => (prev ? { ...prev, [key]: event.target.value } : prev))}
+      />
+    </label>
+  );
+
+  return (
+    <section className="panel">
+      <div className="panel__header">
+        <h2 className="section-title section-title--compact">Materials Catalogue</h2>
+        <p className="eyebrow" style={{ opacity: 0.7, marginTop: "0.35rem" }}>
+          Link a productivity block to a material code and new pricing sub-items pick up its current price.
+        </p>
+      </div>
+      <div className="panel__body">
+        <div className="pricing-scenario__row" style={{ marginBottom: "0.75rem" }}>
+          <label className="electrical-input" style={{ flex: 2 }}>
+            <span className="electrical-input__label">Search</span>
+            <input
+              className="electrical-input__control"
+              type="text"
+              value={search}
+              placeholder="Code, description, supplier..."
+              onChange={(event) => setSearch(event.target.value)}
+            />
+          </label>
+          <label className="electrical-input" style={{ flexDirection: "row", alignItems: "center", gap: "0.35rem" }}>
+            <input type="checkbox" checked={showHistory} onChange={(event) => setShowHistory(event.target.checked)} />
+            <span className="electrical-input__label">Show past and future prices</span>
+          </label>
+          <button type="button" className="btn-secondary" onClick={() => setDraft(toDraft())}>
+            New Price
+          </button>
+          <label className="electrical-input">
+            <span className="electrical-input__label">Supplier price list (.xlsx)</span>
+            <input
+              className="electrical-input__control"
+              type="file"
+              accept=".xlsx,.xls"
+              onChange={(event) => setImportFile(event.target.files?.[0] ?? null)}
+            />
+          </label>
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={() => void handleImport()}
+            disabled={!importFile || saving}
+            title="Needs a header row with Code and Price; Description, Unit, Supplier, Currency, Valid From and Valid To (date cells or YYYY-MM-DD text) are optional"
+          >
+            Import
+          </button>
+        </div>
+        {message && <p className="feedback" style={{ marginTop: 0 }}>{message}</p>}
+
+        {supersededByProject.length > 0 && (
+          <details className="pricing-validation" open>
+            <summary>
+              {`${superseded.length} sub-item${superseded.length === 1 ? "" : "s"} in ${supersededByProject.length} project${
+                supersededByProject.length === 1 ? "" : "s"
+              } use a superseded price — open the project's Pricing page to update them`}
+            </summary>
+            <ul className="pricing-validation__list">
+              {supersededByProject.map((group) =>
+                group.entries.map((entry) => (
+                  <li key={`${entry.projectId}-${entry.subItemId}`}>
+                    <span className={`pricing-validation__issue ${entry.currentPrice === null ? "is-error" : ""}`}>
+                      <strong>{group.projectName}</strong> {entry.itemCode || "—"} {entry.description}: {entry.code}{" "}
+                      at {entry.usedPrice.toFixed(2)}
+                      {entry.currentPrice === null
+                        ? ", no current price"
+                        : `, now ${entry.currentPrice.toFixed(2)} ${entry.currency}`}
+                    </span>
+                  </li>
+                ))
+              )}
+            </ul>
+          </details>
+        )}
+
+        {draft && (
+          <div className="estimation-report">
+            <div className="pricing-scenario__row">
+              {draftField("Code", "code")}
+              {draftField("Description", "description", "text", 2)}
+              {draftField("Unit", "unit")}
+              {draftField("Supplier", "supplier")}
+            </div>
+            <div className="pricing-scenario__row" style={{ marginTop: "0.5rem" }}>
+              {draftField("Price", "price", "number")}
+              {draftField("Currency", "currency")}
+              {draftField("Valid from", "validFrom", "date")}
+              {draftField("Valid to", "validTo", "date")}
+              <button type="button" className="btn-secondary btn-compact btn-muted" onClick={() => setDraft(null)}>
+                Cancel
+              </button>
+              <button
+                type="button"
+                className="btn-secondary btn-compact"
+                onClick={() => void handleSave()}
+                disabled={saving || !draft.code.trim() || draft.price.trim() === "" || !draft.validFrom}
+              >
+                {saving ? "Saving..." : "Save Price"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {visiblePrices.length === 0 ? (
+          <div className="pricing-placeholder">
+            <h3>{loading ? "Loading prices..." : "No prices found"}</h3>
+            <p>Add a price or import a supplier price list.</p>
+          </div>
+        ) : (
+          <div className="table-wrapper">
+            <table className="matches-table">
+              <thead>
+                <tr>
+                  <th>Code</th>
+                  <th>Description</th>
+                  <th>Unit</th>
+                  <th>Supplier</th>
+                  <th>Price</th>
+                  <th>Valid from</th>
+                  <th>Valid to</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {visiblePrices.map((price) => (
+                  <tr key={price.id} style={price.isCurrent ? undefined : { opacity: 0.6 }}>
+                    <td>{price.code}</td>
+                    <td>{price.description || "—"}</td>
+                    <td>{price.unit || "—"}</td>
+                    <td>{price.supplier || "—"}</td>
+                    <td>
+                      {price.price.toFixed(2)} {price.currency}
+                    </td>
+                    <td>{toDateInput(price.validFrom)}</td>
+                    <td>{toDateInput(price.validTo) || "—"}</td>
+                    <td style={{ whiteSpace: "nowrap" }}>
+                      <button
+                        type="button"
+                        className="btn-secondary btn-compact"
+                        onClick={() => setDraft(toNewPriceDraft(price))}
+                        title="Add a new dated price for this material"
+                      >
+                        New Price
+                      </button>{" "}
+                      <button type="button" className="btn-secondary btn-compact" onClick={() => setDraft(toDraft(price))}>
+                        Edit
+                      </button>{" "}
+                      <button
+                        type="button"
+                        className="btn-secondary btn-compact btn-muted"
+                        onClick={() => void handleDelete(price)}
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
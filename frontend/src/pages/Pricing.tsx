@@ -2,19 +2,54 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { createPortal } from "react-dom";
 import type { ReactNode } from "react";
 import { v4 as uuidv4 } from "uuid";
-import type { EstimationRow, PricingPayload, ProductivityRatesBlock, ProjectItem } from "../types";
+import type {
+  AllowanceInputs,
+  BoqItemType,
+  EstimationRow,
+  PricingMarkup,
+  PricingMarkupKind,
+  PricingMarkupScope,
+  PricingPayload,
+  ProductivityAdjustment,
+  ProductivityRatesBlock,
+  ProjectItem,
+  WorkingCalendar,
+} from "../types";
 import {
+  diffPricingRevisions,
   getPricing,
+  getPricingValidation,
+  getProductivityLibrary,
   getProductivityRates,
+  getProjectProductivityRates,
+  getUnitRateBenchmark,
+  listMaterialPrices,
+  listPricingRevisions,
+  listTradeRates,
+  restorePricingRevision,
   savePricing,
+  setProjectLibraryVersion,
+  setProjectTradeLocation,
   suggestProductivityItems,
   searchPricingBlocks,
 } from "../services/api";
 import type {
+  MaterialPrice,
+  PricingIssue,
+  PricingRevisionDiff,
+  PricingRevisionSummary,
+  PricingValidationReport,
   ProductivitySuggestResponse,
+  ProjectProductivityRates,
   SearchBlocksBlock,
   SearchBlocksSubitem,
+  UnitRateBenchmark,
 } from "../services/api";
+import LumpSumBreakdown from "./LumpSumBreakdown";
+import PricingReview from "./PricingReview";
+import ProductivityAdjustments from "./ProductivityAdjustments";
+import WorkingCalendarPanel from "./WorkingCalendar";
+import ManpowerMixPanel from "./ManpowerMix";
 
 type PricingProps = {
   boqItems: ProjectItem[];
@@ -23,9 +58,13 @@ type PricingProps = {
   projectName?: string;
   projectId?: string;
   headerTop?: ReactNode;
+  /** Lump-sum projects can open the top-down breakdown from the toolbar. */
+  isLumpSum?: boolean;
   onDirtyChange?: (isDirty: boolean) => void;
   onRegisterSave?: (save: () => Promise<boolean>) => void;
   onGoToEstimation?: (rows: EstimationRow[]) => void;
+  /** Review actions can move the project status on. */
+  onProjectStatusChange?: () => void;
 };
 
 type PricingPayloadWithTracking = PricingPayload & {
@@ -54,17 +93,30 @@ type PricingSubItem = {
   unitEquipRate: number;
   materialsRate: string;
   subconRate: string;
+  /** Set when subconRate was filled by awarding a subcontract quote; cleared on manual edits */
+  subconQuote?: { packageId: string; quoteId: string; subcontractor: string; reference: string } | null;
+  /** Set when materialsRate came from the materials catalogue through the productivity block; cleared on manual edits */
+  materialPrice?: MaterialPriceRef | null;
   toolsRate: string;
 };
 
+/** materialsRate = price * quantity (catalogue units per block unit) when it was picked up */
+type MaterialPriceRef = { priceId: string; code: string; price: number; quantity: number };
+
 type ProductivityOption = {
   id: string;
   code: string;
   description: string;
   unit: string;
+  /** Block man-hours before the project's adjustment factors, and what each factor adds */
+  libraryUnitMh: number;
+  mhAdjustments: MhAdjustmentShare[];
   unitMh: number;
   unitWagesRate: number;
   equipmentRate: number;
+  /** Current catalogue price of the block's material, "0.00" when the block has none */
+  materialsRate: string;
+  materialPrice: MaterialPriceRef | null;
 };
 
 type PricingEntry = { type: "item"; item: ProjectItem };
@@ -85,6 +137,72 @@ type SuggestionStatus = "idle" | "running" | "success" | "failed";
 
 type PricingHeaderRateKey = "wages" | "materials" | "subcon" | "equip" | "other";
 
+/** Markup kinds in application order; each layer is charged on direct cost plus the layers before it. */
+const MARKUP_KINDS: Array<{ value: PricingMarkupKind; label: string }> = [
+  { value: "overhead", label: "Overhead" },
+  { value: "contingency", label: "Contingency" },
+  { value: "risk", label: "Risk" },
+  { value: "profit", label: "Profit" },
+  { value: "bond", label: "Bond" },
+  { value: "insurance", label: "Insurance" },
+];
+
+const MARKUP_SCOPES: Array<{ value: PricingMarkupScope; label: string }> = [
+  { value: "project", label: "All items" },
+  { value: "category", label: "Category" },
+  { value: "costType", label: "Cost type" },
+];
+
+const MARKUP_COST_TYPES: Array<{ value: PricingHeaderRateKey; label: string }> = [
+  { value: "wages", label: "Manpower" },
+  { value: "materials", label: "Materials" },
+  { value: "subcon", label: "Subcontract" },
+  { value: "equip", label: "Equipment" },
+  { value: "other", label: "Tools & other" },
+];
+
+type AllowanceType = "provisional_sum" | "pc_sum" | "daywork" | "time_related";
+
+/** Lines priced on their own terms and summarised apart from the measured work. */
+const ALLOWANCE_LABELS: Record<AllowanceType, string> = {
+  provisional_sum: "Provisional sums",
+  pc_sum: "Prime cost sums",
+  daywork: "Daywork",
+  time_related: "Time-related preliminaries",
+};
+
+const isAllowanceType = (itemType: BoqItemType): itemType is AllowanceType => itemType in ALLOWANCE_LABELS;
+
+const SELL_RATE_FACTOR_KEY = "sellRateFactor";
+const SELL_RATE_OVERRIDE_KEY = "sellRateOverride";
+
+const markupKindIndex = (kind: PricingMarkupKind) => MARKUP_KINDS.findIndex((entry) => entry.value === kind);
+
+const sortMarkups = (markups: PricingMarkup[]): PricingMarkup[] =>
+  markups
+    .map((markup, index) => ({ markup, index }))
+    .sort((a, b) => markupKindIndex(a.markup.kind) - markupKindIndex(b.markup.kind) || a.index - b.index)
+    .map(({ markup }) => markup);
+
+const markupAppliesTo = (markup: PricingMarkup, category: string, rateKey: PricingHeaderRateKey): boolean => {
+  if (markup.scope === "project") return true;
+  if (markup.scope === "category") {
+    return markup.scopeValue.trim().toLowerCase() === category.trim().toLowerCase();
+  }
+  return markup.scopeValue === rateKey;
+};
+
+const describeMarkup = (markup: PricingMarkup): string => {
+  const name = markup.label.trim() || MARKUP_KINDS[markupKindIndex(markup.kind)]?.label || markup.kind;
+  const scope =
+    markup.scope === "project"
+      ? "all items"
+      : markup.scope === "category"
+        ? `category ${markup.scopeValue}`
+        : MARKUP_COST_TYPES.find((entry) => entry.value === markup.scopeValue)?.label ?? markup.scopeValue;
+  return `${name} ${markup.percent.trim() || "0"}% (${scope})`;
+};
+
 type PricingHeader = {
   key: string;
   label: string;
@@ -230,8 +348,142 @@ const computeManpowerMh = (block: ProductivityRatesBlock): number => {
   return productivityValue ? (manpowerSum * hoursValue) / productivityValue : 0;
 };
 
-const computeEquipmentRateSum = (block: ProductivityRatesBlock): number => {
+type ManpowerRow = ProductivityRatesBlock["manpowerRows"][number];
+
+type MhAdjustmentShare = { adjustmentId: string; name: string; unitMh: number };
+
+const adjustmentApplies = (adjustment: ProductivityAdjustment, blockCode: string, tradeCode: string): boolean => {
+  const matches = (codes: string[], code: string) =>
+    codes.length === 0 || codes.some((entry) => entry.toLowerCase() === code.trim().toLowerCase());
+  return matches(adjustment.blockCodes, blockCode) && matches(adjustment.tradeCodes, tradeCode);
+};
+
+/**
+ * Block man-hours with the project's adjustment factors applied to the manpower rows in their scope; the
+ * percentages in scope of a row add up. Mirrors adjustManpowerMh in pricingEngine.ts.
+ */
+const adjustManpowerMh = (block: ProductivityRatesBlock, adjustments: ProductivityAdjustment[]) => {
+  const libraryUnitMh = computeManpowerMh(block);
+  const hoursValue = parseNumber(block.hoursPerDay);
+  const productivityValue = parseNumber(block.dailyProductivity);
+  const blockCode = String(block.code ?? "");
+  const inScope = (row: ManpowerRow) =>
+    adjustments.filter((adjustment) => adjustmentApplies(adjustment, blockCode, row.tradeCode ?? ""));
+  const shares = adjustments.map<MhAdjustmentShare>((adjustment) => ({
+    adjustmentId: adjustment.id,
+    name: adjustment.name,
+    unitMh: 0,
+  }));
+  block.manpowerRows.forEach((row) => {
+    const rowMh = productivityValue ? (parseNumber(row.quantity) * hoursValue) / productivityValue : 0;
+    const applied = inScope(row);
+    shares.forEach((share, index) => {
+      if (applied.includes(adjustments[index])) share.unitMh += (rowMh * parseNumber(adjustments[index].percent)) / 100;
+    });
+  });
+  const appliedShares = shares.filter((share) => share.unitMh !== 0);
+  return {
+    libraryUnitMh,
+    unitMh: appliedShares.reduce((sum, share) => sum + share.unitMh, libraryUnitMh),
+    shares: appliedShares,
+    rowMultiplier: (row: ManpowerRow) =>
+      inScope(row).reduce((multiplier, adjustment) => multiplier + parseNumber(adjustment.percent) / 100, 1),
+  };
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Longest programme the server accepts; mirrors MAX_PROJECT_DURATION_MONTHS in workingCalendar.ts. */
+const MAX_PROJECT_DURATION_MONTHS = 120;
+
+/** The `day` of a month held to its last day; mirrors monthDay in workingCalendar.ts. */
+const monthDay = (year: number, month: number, day: number): number =>
+  Date.UTC(year, month, Math.min(day, new Date(Date.UTC(year, month + 1, 0)).getUTCDate()));
+
+/**
+ * Hours one worker puts in over the project duration and the working days in it: 160 hours and 26 days a month,
+ * or the days and hours of the project's working calendar (26 days a month still when it has no working day).
+ * Mirrors workerHoursByMonth and averageWorkingDaysPerMonth in workingCalendar.ts, summed.
+ */
+const computeProgrammeTime = (
+  calendar: WorkingCalendar | null,
+  duration: number
+): { hours: number; workingDays: number } => {
+  if (!(duration > 0)) return { hours: 0, workingDays: 0 };
+  if (!calendar) return { hours: 160 * duration, workingDays: 26 * duration };
+  const dayHours = (value: string) => Math.max(parseNumber(value), 0);
+  if (!calendar.startDate) {
+    const workingDays = (7 - calendar.restDays.length) * (52 / 12) * duration;
+    return {
+      hours: workingDays * dayHours(calendar.hoursPerDay),
+      workingDays: workingDays > 0 ? workingDays : 26 * duration,
+    };
+  }
+  const start = new Date(`${calendar.startDate}T00:00:00Z`);
+  let hours = 0;
+  let workingDays = 0;
+  for (let month = 0; month < Math.ceil(duration); month += 1) {
+    const from = monthDay(start.getUTCFullYear(), start.getUTCMonth() + month, start.getUTCDate());
+    const next = monthDay(start.getUTCFullYear(), start.getUTCMonth() + month + 1, start.getUTCDate());
+    const days = Math.round(((next - from) / DAY_MS) * Math.min(1, duration - month));
+    for (let day = 0; day < days; day += 1) {
+      const date = new Date(from + day * DAY_MS);
+      if (calendar.restDays.includes(date.getUTCDay())) continue;
+      const key = date.toISOString().slice(0, 10);
+      const worked = calendar.periods
+        .filter((period) => period.startDate <= key && key <= period.endDate)
+        .reduce((value, period) => Math.min(value, dayHours(period.hoursPerDay)), dayHours(calendar.hoursPerDay));
+      if (worked > 0) workingDays += 1;
+      hours += worked;
+    }
+  }
+  return { hours, workingDays: workingDays > 0 ? workingDays : 26 * duration };
+};
+
+/**
+ * Wages per unit of the block from its crew mix, each manpower row at its trade's hourly cost or the manpower
+ * hourly rate for its adjusted hours; null when no row has a priced trade. Mirrors computeCrewWagesRate in
+ * pricingEngine.ts.
+ */
+const computeCrewWagesRate = (
+  block: ProductivityRatesBlock,
+  mpHourlyRate: number,
+  tradeCosts: Record<string, number> | null,
+  rowMultiplier: (row: ManpowerRow) => number = () => 1
+): number | null => {
+  if (!tradeCosts) return null;
+  const costOf = (row: ManpowerRow) => tradeCosts[(row.tradeCode ?? "").trim().toLowerCase()] as number | undefined;
+  if (!block.manpowerRows.some((row) => costOf(row) !== undefined)) return null;
+  const hoursValue = parseNumber(block.hoursPerDay);
+  const productivityValue = parseNumber(block.dailyProductivity);
+  const crewHourlyCost = block.manpowerRows.reduce(
+    (sum, row) => sum + parseNumber(row.quantity) * (costOf(row) ?? mpHourlyRate) * rowMultiplier(row),
+    0
+  );
+  return productivityValue ? (crewHourlyCost * hoursValue) / productivityValue : 0;
+};
+
+/** Idle time is paid at the average hourly cost of the item's crews. */
+const crewHourlyRate = (totals: { totalMh: number; totalRateWages: number }, mpHourlyRate: number): number =>
+  totals.totalMh ? totals.totalRateWages / totals.totalMh : mpHourlyRate;
+
+/**
+ * Equipment cost per unit of the block; rows linked to the equipment catalogue are priced at its hourly cost.
+ * Mirrors computeEquipmentRateSum in pricingEngine.ts.
+ */
+const computeEquipmentRateSum = (
+  block: ProductivityRatesBlock,
+  equipmentCosts: Record<string, number> | null
+): number => {
   return block.equipmentRows.reduce((sum, row) => {
+    const catalogueCost = equipmentCosts?.[(row.equipmentCode ?? "").trim().toLowerCase()];
+    if (catalogueCost !== undefined) {
+      const rowProductivity = parseNumber(row.dailyProductivity ?? "");
+      const rowEh = rowProductivity
+        ? (parseNumber(row.quantity) * parseNumber(row.hoursPerDay ?? "")) / rowProductivity
+        : 0;
+      return sum + rowEh * catalogueCost;
+    }
     const savedRate = row.rate !== undefined ? parseNumber(row.rate) : null;
     if (savedRate !== null && Number.isFinite(savedRate)) return sum + savedRate;
     const rowQty = parseNumber(row.quantity);
@@ -251,9 +503,11 @@ export default function Pricing({
   projectName,
   projectId,
   headerTop,
+  isLumpSum = false,
   onDirtyChange,
   onRegisterSave,
   onGoToEstimation,
+  onProjectStatusChange,
 }: PricingProps) {
   const [percentage, setPercentage] = useState("10");
   const [idleText, setIdleText] = useState("idle time");
@@ -265,7 +519,24 @@ export default function Pricing({
   const [sellRateOverridesByItemId, setSellRateOverridesByItemId] = useState<
     Record<string, Partial<Record<PricingHeaderRateKey, string>>>
   >({});
+  const [markups, setMarkups] = useState<PricingMarkup[]>([]);
   const [productivityBlocks, setProductivityBlocks] = useState<ProductivityRatesBlock[]>([]);
+  /** Company library version the project is pinned to, and the versions it could switch to. */
+  const [libraryVersion, setLibraryVersion] = useState<number | null>(null);
+  const [libraryVersions, setLibraryVersions] = useState<number[]>([]);
+  const [switchingLibrary, setSwitchingLibrary] = useState(false);
+  /** Location whose trade rates price the crews, its hourly costs by trade code, and the locations to pick from. */
+  const [tradeLocation, setTradeLocation] = useState<string | null>(null);
+  const [tradeCosts, setTradeCosts] = useState<Record<string, number> | null>(null);
+  const [tradeLocations, setTradeLocations] = useState<string[]>([]);
+  /** Hourly cost of each equipment catalogue code, for block rows linked to the catalogue. */
+  const [equipmentCosts, setEquipmentCosts] = useState<Record<string, number> | null>(null);
+  /** The project's factors on library man-hours (see ProductivityAdjustments). */
+  const [productivityAdjustments, setProductivityAdjustments] = useState<ProductivityAdjustment[]>([]);
+  /** The project's working calendar; null for the flat 160-hour month. */
+  const [workingCalendar, setWorkingCalendar] = useState<WorkingCalendar | null>(null);
+  /** Catalogue prices that apply today; null until loaded, so nothing is flagged as superseded before then */
+  const [currentMaterialPrices, setCurrentMaterialPrices] = useState<MaterialPrice[] | null>(null);
   const [loadingRates, setLoadingRates] = useState(false);
   const [ratesError, setRatesError] = useState("");
   const [loadingPricing, setLoadingPricing] = useState(false);
@@ -275,6 +546,7 @@ export default function Pricing({
   const [collapsedByItemId, setCollapsedByItemId] = useState<Record<string, boolean>>({});
   const [completedByItemId, setCompletedByItemId] = useState<Record<string, boolean>>({});
   const [blockCodeByItemId, setBlockCodeByItemId] = useState<Record<string, string>>({});
+  const [allowanceInputsByItemId, setAllowanceInputsByItemId] = useState<Record<string, AllowanceInputs>>({});
   const [activeRowId, setActiveRowId] = useState<string | null>(null);
   const [rowCodeErrorByRowId, setRowCodeErrorByRowId] = useState<Record<string, string>>({});
   const [codeLoadingByRowId, setCodeLoadingByRowId] = useState<Record<string, boolean>>({});
@@ -301,10 +573,33 @@ export default function Pricing({
   const COPY_FROM_PROJECT_PAGE_SIZE = 5;
   const [copyFromProjectSelected, setCopyFromProjectSelected] = useState<SearchBlocksBlock | null>(null);
   const [copyFromProjectLoading, setCopyFromProjectLoading] = useState(false);
+  const [revisionNote, setRevisionNote] = useState("");
+  const [revisionsOpen, setRevisionsOpen] = useState(false);
+  const [lumpSumOpen, setLumpSumOpen] = useState(false);
+  const [reviewOpen, setReviewOpen] = useState(false);
+  const [adjustmentsOpen, setAdjustmentsOpen] = useState(false);
+  const [calendarOpen, setCalendarOpen] = useState(false);
+  const [mixOpen, setMixOpen] = useState(false);
+  const [revisions, setRevisions] = useState<PricingRevisionSummary[]>([]);
+  const [revisionsLoading, setRevisionsLoading] = useState(false);
+  const [revisionsError, setRevisionsError] = useState("");
+  const [revisionDiff, setRevisionDiff] = useState<PricingRevisionDiff | null>(null);
+  const [revisionDiffLoading, setRevisionDiffLoading] = useState(false);
+  const [restoringRevision, setRestoringRevision] = useState<number | null>(null);
+  const [validation, setValidation] = useState<PricingValidationReport | null>(null);
+  const [validationLoading, setValidationLoading] = useState(false);
+  const [validationError, setValidationError] = useState("");
+  const [benchmarkItemId, setBenchmarkItemId] = useState<string | null>(null);
+  const [benchmark, setBenchmark] = useState<UnitRateBenchmark | null>(null);
+  const [benchmarkCurrentRate, setBenchmarkCurrentRate] = useState("");
+  const [benchmarkLoading, setBenchmarkLoading] = useState(false);
+  const [benchmarkError, setBenchmarkError] = useState("");
   const subItemsByItemIdRef = useRef<Record<string, PricingSubItem[]>>({});
   const lastSavedSnapshotRef = useRef<string>("");
   const initializingRef = useRef(false);
   const lastLoadedProjectIdRef = useRef<string | undefined>(undefined);
+  /** Revision of the stored pricing this page holds; awards and restores elsewhere move it on. */
+  const baseRevisionRef = useRef<number | undefined>(undefined);
   const autoUpdateRef = useRef(false);
   const portalTarget = typeof document !== "undefined" ? document.body : null;
   const activeMenuRef = useRef<HTMLDivElement | null>(null);
@@ -319,12 +614,14 @@ export default function Pricing({
       projectDuration,
       sellRateFactor,
       sellRateOverridesByItemId,
+      markups,
       subItemsByItemId,
       autoRowQtyByItemId,
       qtyOverrideByItemId,
       collapsedByItemId,
       completedByItemId,
       blockCodeByItemId,
+      allowanceInputsByItemId,
     }),
     [
       percentage,
@@ -335,12 +632,14 @@ export default function Pricing({
       projectDuration,
       sellRateFactor,
       sellRateOverridesByItemId,
+      markups,
       subItemsByItemId,
       autoRowQtyByItemId,
       qtyOverrideByItemId,
       collapsedByItemId,
       completedByItemId,
       blockCodeByItemId,
+      allowanceInputsByItemId,
     ]
   );
 
@@ -357,36 +656,111 @@ export default function Pricing({
     setSellRateOverridesByItemId(
       (payload.sellRateOverridesByItemId as Record<string, Partial<Record<PricingHeaderRateKey, string>>>) ?? {}
     );
+    setMarkups(payload.markups ?? []);
     setSubItemsByItemId((payload.subItemsByItemId as Record<string, PricingSubItem[]>) ?? {});
     setAutoRowQtyByItemId((payload.autoRowQtyByItemId as Record<string, string>) ?? {});
     setQtyOverrideByItemId((payload.qtyOverrideByItemId as Record<string, string>) ?? {});
     setCollapsedByItemId((payload.collapsedByItemId as Record<string, boolean>) ?? {});
     setCompletedByItemId((payload.completedByItemId as Record<string, boolean>) ?? {});
     setBlockCodeByItemId((payload.blockCodeByItemId as Record<string, string>) ?? {});
+    setAllowanceInputsByItemId(payload.allowanceInputsByItemId ?? {});
   }, []);
 
+  const applyProductivityRates = useCallback(
+    (payload: Pick<ProjectProductivityRates, "factor" | "blocks"> & Partial<ProjectProductivityRates>) => {
+      setProductivityBlocks(payload.blocks ?? []);
+      setMpHourlyRate(payload.factor ?? "0");
+      setTradeLocation(payload.tradeLocation ?? null);
+      setTradeCosts(payload.tradeCosts ?? null);
+      setEquipmentCosts(payload.equipmentCosts ?? null);
+      setProductivityAdjustments(payload.adjustments ?? []);
+      setWorkingCalendar(payload.calendar ?? null);
+    },
+    []
+  );
+
   useEffect(() => {
     setLoadingRates(true);
     setRatesError("");
-    getProductivityRates()
-      .then((payload) => {
-        setProductivityBlocks(payload.blocks ?? []);
-        setMpHourlyRate(payload.factor ?? "0");
-      })
+    const request = projectId
+      ? getProjectProductivityRates(projectId).then((payload) => {
+          setLibraryVersion(payload.libraryVersion);
+          return payload;
+        })
+      : getProductivityRates();
+    request
+      .then(applyProductivityRates)
       .catch((error: unknown) => {
         setRatesError((error as Error).message || "Failed to load productivity rates.");
       })
       .finally(() => setLoadingRates(false));
+  }, [projectId, applyProductivityRates]);
+
+  useEffect(() => {
+    listMaterialPrices()
+      .then((prices) => setCurrentMaterialPrices(prices.filter((price) => price.isCurrent)))
+      .catch(() => setCurrentMaterialPrices(null));
+    getProductivityLibrary()
+      .then((library) => setLibraryVersions(library.versions.map((version) => version.version)))
+      .catch(() => setLibraryVersions([]));
+    listTradeRates()
+      .then((tables) => setTradeLocations(tables.map((table) => table.location)))
+      .catch(() => setTradeLocations([]));
   }, []);
 
+  /**
+   * Reloads the rates once the calendar or the manpower mix is saved: monthly equipment rates are spread over
+   * the calendar's working days, and split trades are costed at the mix.
+   */
+  const reloadProjectRates = useCallback(() => {
+    if (!projectId) return;
+    getProjectProductivityRates(projectId)
+      .then(applyProductivityRates)
+      .catch((error: unknown) => {
+        setRatesError((error as Error).message || "Failed to reload productivity rates.");
+      });
+  }, [projectId, applyProductivityRates]);
+
+  /** Pins the project to another library version (or own rates) and reloads the blocks it is priced with. */
+  const handleLibraryVersionChange = async (version: number | null) => {
+    if (!projectId) return;
+    setSwitchingLibrary(true);
+    setRatesError("");
+    try {
+      const payload = await setProjectLibraryVersion(projectId, version);
+      setLibraryVersion(payload.libraryVersion);
+      applyProductivityRates(payload);
+    } catch (error: unknown) {
+      setRatesError((error as Error).message || "Failed to switch the productivity library.");
+    } finally {
+      setSwitchingLibrary(false);
+    }
+  };
+
+  /** Prices the crews from another location's trade rates (or the manpower hourly rate) and reloads the blocks. */
+  const handleTradeLocationChange = async (location: string | null) => {
+    if (!projectId) return;
+    setSwitchingLibrary(true);
+    setRatesError("");
+    try {
+      applyProductivityRates(await setProjectTradeLocation(projectId, location));
+    } catch (error: unknown) {
+      setRatesError((error as Error).message || "Failed to switch the trade rates.");
+    } finally {
+      setSwitchingLibrary(false);
+    }
+  };
+
   useEffect(() => {
     if (!projectId) return;
     if (lastLoadedProjectIdRef.current === projectId) return;
     lastLoadedProjectIdRef.current = projectId;
     setLoadingPricing(true);
     lastSavedSnapshotRef.current = "";
+    baseRevisionRef.current = undefined;
     getPricing(projectId)
       .then((payload) => {
+        baseRevisionRef.current = payload.revision;
         initializingRef.current = true;
         applyPricingPayload(payload);
         lastSavedSnapshotRef.current = JSON.stringify(payload);
@@ -459,20 +833,39 @@ export default function Pricing({
     return blocks;
   }, [pricingEntries]);
 
+  const currentMaterialPriceByCode = useMemo(
+    () => new Map((currentMaterialPrices ?? []).map((price) => [normalizeCode(price.code), price])),
+    [currentMaterialPrices]
+  );
+
   const productivityOptions = useMemo<ProductivityOption[]>(
     () =>
-      productivityBlocks.map((block) => ({
-        id: block.id,
-        code: String(block.code ?? "").trim(),
-        description: block.description || "Untitled",
-        unit: block.unit,
-        unitMh: computeManpowerMh(block),
-        unitWagesRate: block.manpowerRate
-          ? parseNumber(block.manpowerRate)
-          : computeManpowerMh(block) * parseNumber(mpHourlyRate),
-        equipmentRate: computeEquipmentRateSum(block),
-      })),
-    [productivityBlocks, mpHourlyRate]
+      productivityBlocks.map((block) => {
+        const material = block.materialCode ? currentMaterialPriceByCode.get(normalizeCode(block.materialCode)) : undefined;
+        const materialQty = block.materialQty?.trim() ? parseNumber(block.materialQty) : 1;
+        const manpower = adjustManpowerMh(block, productivityAdjustments);
+        const hoursRatio = manpower.libraryUnitMh ? manpower.unitMh / manpower.libraryUnitMh : 1;
+        return {
+          id: block.id,
+          code: String(block.code ?? "").trim(),
+          description: block.description || "Untitled",
+          unit: block.unit,
+          libraryUnitMh: manpower.libraryUnitMh,
+          mhAdjustments: manpower.shares,
+          unitMh: manpower.unitMh,
+          unitWagesRate:
+            computeCrewWagesRate(block, parseNumber(mpHourlyRate), tradeCosts, manpower.rowMultiplier) ??
+            (block.manpowerRate
+              ? parseNumber(block.manpowerRate) * hoursRatio
+              : manpower.unitMh * parseNumber(mpHourlyRate)),
+          equipmentRate: computeEquipmentRateSum(block, equipmentCosts),
+          materialsRate: material ? (material.price * materialQty).toFixed(2) : "0.00",
+          materialPrice: material
+            ? { priceId: material.id, code: material.code, price: material.price, quantity: materialQty }
+            : null,
+        };
+      }),
+    [productivityBlocks, productivityAdjustments, mpHourlyRate, tradeCosts, equipmentCosts, currentMaterialPriceByCode]
   );
 
   const productivitySuggestionItems = useMemo(
@@ -484,6 +877,18 @@ export default function Pricing({
     return new Map(productivityOptions.map((option) => [option.id, option]));
   }, [productivityOptions]);
 
+  /** "Library 1.40, Congestion +0.14" for a sub row linked to a block the project's factors adjust. */
+  const describeMhAdjustments = (productivityId?: string): string | undefined => {
+    const option = productivityId ? productivityOptionsById.get(productivityId) : undefined;
+    if (!option?.mhAdjustments.length) return undefined;
+    return [
+      `Library ${option.libraryUnitMh.toFixed(2)}`,
+      ...option.mhAdjustments.map(
+        (share) => `${share.name} ${share.unitMh >= 0 ? "+" : "−"}${Math.abs(share.unitMh).toFixed(2)}`
+      ),
+    ].join(", ");
+  };
+
   const productivityOptionsByCode = useMemo(() => {
     const map = new Map<string, ProductivityOption>();
     productivityOptions.forEach((option) => {
@@ -533,6 +938,44 @@ export default function Pricing({
     [sortedBoqItems]
   );
 
+  /** Sub-items whose catalogue material price is no longer the one that applies today */
+  const supersededMaterialRows = useMemo(() => {
+    if (!currentMaterialPrices) return [];
+    const itemCodeById = new Map(pricedItems.map((item) => [item.id, String(item.item_code ?? "").trim()]));
+    return Object.entries(subItemsByItemId).flatMap(([itemId, rows]) =>
+      rows
+        .filter((row) => row.materialPrice)
+        .map((row) => ({
+          itemId,
+          itemCode: itemCodeById.get(itemId) ?? "",
+          row,
+          current: currentMaterialPriceByCode.get(normalizeCode(row.materialPrice?.code ?? "")) ?? null,
+        }))
+        .filter((entry) => entry.current?.id !== entry.row.materialPrice?.priceId)
+    );
+  }, [currentMaterialPrices, currentMaterialPriceByCode, pricedItems, subItemsByItemId]);
+
+  const applyCurrentMaterialPrices = useCallback(() => {
+    setSubItemsByItemId((current) => {
+      const next = { ...current };
+      Object.entries(current).forEach(([itemId, rows]) => {
+        next[itemId] = rows.map((row) => {
+          const ref = row.materialPrice;
+          const latest = ref ? currentMaterialPriceByCode.get(normalizeCode(ref.code)) : undefined;
+          if (!ref || !latest || latest.id === ref.priceId) return row;
+          return {
+            ...row,
+            materialsRate: (latest.price * ref.quantity).toFixed(2),
+            materialPrice: { ...ref, priceId: latest.id, price: latest.price },
+          };
+        });
+      });
+      return next;
+    });
+    onDirtyChange?.(true);
+    setIsDirty(true);
+  }, [currentMaterialPriceByCode, onDirtyChange]);
+
   const defaultQtyByItemId = useMemo(() => {
     const map = new Map<string, string>();
     pricedItems.forEach((item) => {
@@ -631,11 +1074,15 @@ export default function Pricing({
     [scheduleCodeEntries]
   );
 
-  const isRateOnlyItem = useCallback((item: ProjectItem): boolean => {
+  /** The type set at extraction or in review; the server fills it in for older items from their text. */
+  const getItemType = useCallback((item: ProjectItem): BoqItemType => {
+    if (item.itemType) return item.itemType;
     const rateValue = getBoqFieldValue(item, "rate");
-    return rateValue.trim().toLowerCase() === "rate only";
+    return rateValue.trim().toLowerCase() === "rate only" ? "rate_only" : "measured";
   }, []);
 
+  const isRateOnlyItem = useCallback((item: ProjectItem): boolean => getItemType(item) === "rate_only", [getItemType]);
+
   useEffect(() => {
     setSubItemsByItemId((current) => {
       const next = { ...current };
@@ -745,6 +1192,9 @@ export default function Pricing({
         unitMh: selected.unitMh,
         unitWagesRate: selected.unitWagesRate,
         unitEquipRate: selected.equipmentRate,
+        // A block without a catalogue material keeps a typed rate, but not one priced for the previous block.
+        materialsRate: selected.materialPrice ? selected.materialsRate : row.materialPrice ? "0.00" : row.materialsRate,
+        materialPrice: selected.materialPrice,
         suggestedIds: row.suggestedIds?.includes(selected.id)
           ? row.suggestedIds
           : row.suggestedIds
@@ -820,7 +1270,8 @@ export default function Pricing({
             unitMh: option.unitMh,
             unitWagesRate: option.unitWagesRate,
             unitEquipRate: option.equipmentRate,
-            materialsRate: "0.00",
+            materialsRate: option.materialsRate,
+            materialPrice: option.materialPrice,
             subconRate: "0.00",
             toolsRate: "0.00",
           };
@@ -925,7 +1376,8 @@ export default function Pricing({
           unitMh: option.unitMh,
           unitWagesRate: option.unitWagesRate,
           unitEquipRate: option.equipmentRate,
-          materialsRate: "0.00",
+          materialsRate: option.materialsRate,
+          materialPrice: option.materialPrice,
           subconRate: "0.00",
           toolsRate: "0.00",
         };
@@ -1087,7 +1539,8 @@ export default function Pricing({
                 unitMh: option.unitMh,
                 unitWagesRate: option.unitWagesRate,
                 unitEquipRate: option.equipmentRate,
-                materialsRate: "0.00",
+                materialsRate: option.materialsRate,
+                materialPrice: option.materialPrice,
                 subconRate: "0.00",
                 toolsRate: "0.00",
               } as PricingSubItem;
@@ -1281,7 +1734,8 @@ export default function Pricing({
                     unitMh: option.unitMh,
                     unitWagesRate: option.unitWagesRate,
                     unitEquipRate: option.equipmentRate,
-                    materialsRate: "0.00",
+                    materialsRate: option.materialsRate,
+                    materialPrice: option.materialPrice,
                     subconRate: "0.00",
                     toolsRate: "0.00",
                   } as PricingSubItem;
@@ -1352,6 +1806,10 @@ export default function Pricing({
   const poRateValue = parseNumber(poRate) / 100;
   const mpHourlyRateValue = parseNumber(mpHourlyRate);
   const projectDurationValue = parseNumber(projectDuration);
+  const { hours: workerHours, workingDays: programmeWorkingDays } = useMemo(
+    () => computeProgrammeTime(workingCalendar, projectDurationValue),
+    [workingCalendar, projectDurationValue]
+  );
   const getSellRateInputValue = useCallback(
     (itemId: string, rateKey: PricingHeaderRateKey) => {
       const override = sellRateOverridesByItemId[itemId]?.[rateKey];
@@ -1361,12 +1819,73 @@ export default function Pricing({
     [sellRateOverridesByItemId, sellRateFactor]
   );
 
-  const getSellRateValue = useCallback(
-    (itemId: string, rateKey: PricingHeaderRateKey) =>
-      parseNumber(getSellRateInputValue(itemId, rateKey)) / 100,
-    [getSellRateInputValue]
+  const orderedMarkups = useMemo(() => sortMarkups(markups), [markups]);
+
+  /**
+   * Sell rate for one unit direct cost column. A per-item override wins; otherwise the markups are layered
+   * in order, and without markups the single sell-rate factor applies as a margin on sell.
+   * Mirrors applyMarkupLayers in src/services/pricing/markups.ts. Layer amounts are added to `layers`.
+   */
+  const applySellMarkup = useCallback(
+    (item: ProjectItem, rateKey: PricingHeaderRateKey, direct: number, layers?: Map<string, number>) => {
+      const addLayer = (key: string, amount: number) => layers?.set(key, (layers.get(key) ?? 0) + amount);
+      const override = sellRateOverridesByItemId[item.id]?.[rateKey];
+      if (override !== undefined && override.trim() !== "") {
+        const sell = direct / (1 - parseNumber(override) / 100);
+        addLayer(SELL_RATE_OVERRIDE_KEY, sell - direct);
+        return sell;
+      }
+      if (orderedMarkups.length === 0) {
+        const sell = direct / (1 - parseNumber(sellRateFactor) / 100);
+        addLayer(SELL_RATE_FACTOR_KEY, sell - direct);
+        return sell;
+      }
+      const category = (item.metadata?.category ?? "").trim() || "Uncategorized";
+      return orderedMarkups.reduce((running, markup) => {
+        if (!markupAppliesTo(markup, category, rateKey)) return running;
+        const amount = running * (parseNumber(markup.percent) / 100);
+        addLayer(markup.id, amount);
+        return running + amount;
+      }, direct);
+    },
+    [sellRateOverridesByItemId, sellRateFactor, orderedMarkups]
+  );
+
+  /**
+   * Direct and sell amounts of an allowance line, which ignore sub-items and markups. Mirrors priceAllowance in
+   * src/services/pricing/pricingEngine.ts.
+   */
+  const priceAllowance = useCallback(
+    (item: ProjectItem, itemType: AllowanceType, qtyValue: number) => {
+      const inputs = allowanceInputsByItemId[item.id] ?? {};
+      const qty = itemType === "daywork" ? qtyValue : qtyValue || 1;
+      let direct: number;
+      let sell: number;
+      if (itemType === "daywork") {
+        const hourlySell = inputs.hourlyRate?.trim()
+          ? parseNumber(inputs.hourlyRate)
+          : applySellMarkup(item, "wages", mpHourlyRateValue);
+        direct = mpHourlyRateValue * qty;
+        sell = roundTo2(hourlySell) * qty;
+      } else if (itemType === "time_related" && (inputs.monthlyRate?.trim() || inputs.dailyRate?.trim())) {
+        direct =
+          parseNumber(inputs.monthlyRate ?? "") * projectDurationValue +
+          parseNumber(inputs.dailyRate ?? "") * programmeWorkingDays;
+        sell = direct;
+      } else {
+        const attendance = itemType === "pc_sum" ? parseNumber(inputs.attendancePercent) / 100 : 0;
+        direct = inputs.sum?.trim() ? parseNumber(inputs.sum) : parseNumber(getBoqFieldValue(item, "rate")) * qty;
+        sell = direct * (1 + attendance);
+      }
+      return { direct, sell, unitSell: qty ? roundTo2(sell / qty) : 0 };
+    },
+    [allowanceInputsByItemId, applySellMarkup, mpHourlyRateValue, projectDurationValue, programmeWorkingDays]
   );
 
+  const updateAllowanceInput = useCallback((itemId: string, key: keyof AllowanceInputs, value: string) => {
+    setAllowanceInputsByItemId((current) => ({ ...current, [itemId]: { ...current[itemId], [key]: value } }));
+  }, []);
+
   const buildEstimationRows = useCallback((): EstimationRow[] => {
     return pricingBlocks.flatMap((entry) => {
       const item = entry.item;
@@ -1385,6 +1904,23 @@ export default function Pricing({
       const qtyDisplay = qtyOverrideByItemId[item.id] ?? baseQtyDisplay;
       const unitDisplay = getBoqFieldValue(item, "unit");
       const qtyValue = parseNumber(qtyDisplay);
+      const itemType = getItemType(item);
+      if (isAllowanceType(itemType)) {
+        const allowance = priceAllowance(item, itemType, qtyValue);
+        const allowanceRow: EstimationRow = {
+          id: `priced-${item.id}`,
+          type: "priced",
+          itemCode: item.item_code?.trim() ? item.item_code : "—",
+          category,
+          subcategory,
+          description: item.description?.trim() ? item.description : "—",
+          qty: qtyDisplay?.trim() ? qtyDisplay : "—",
+          unit: unitDisplay?.trim() ? unitDisplay : "—",
+          rate: formatRounded(allowance.unitSell),
+          amount: formatRounded(allowance.sell),
+        };
+        return [...noteRows, allowanceRow];
+      }
       const subItems = subItemsByItemId[item.id] ?? [];
 
       const manualRows = subItems.map((row) => {
@@ -1436,7 +1972,7 @@ export default function Pricing({
       const autoQty = parseNumber(autoRowQtyByItemId[item.id] ?? "1");
       const autoUnitMh = manualTotals.totalMh * percentValue;
       const autoTotalMh = autoUnitMh * autoQty;
-      const autoUnitRateWages = autoUnitMh * mpHourlyRateValue;
+      const autoUnitRateWages = autoUnitMh * crewHourlyRate(manualTotals, mpHourlyRateValue);
       const autoTotalRateWages = autoUnitRateWages * autoQty;
       const autoUnitRateEquip = manualTotals.totalRateEquip * percentValue;
       const autoTotalRateEquip = autoUnitRateEquip * autoQty;
@@ -1450,22 +1986,16 @@ export default function Pricing({
         totalRateTools: manualTotals.totalRateTools,
       };
 
-      const pricedUnitMh = qtyValue ? totalsWithAuto.totalMh / qtyValue : 0;
-      const pricedUnitRateWages = pricedUnitMh * mpHourlyRateValue;
+      const pricedUnitRateWages = qtyValue ? totalsWithAuto.totalRateWages / qtyValue : 0;
       const pricedUnitRateMaterials = qtyValue ? totalsWithAuto.totalRateMaterials / qtyValue : 0;
       const pricedUnitRateSubcon = qtyValue ? totalsWithAuto.totalRateSubcon / qtyValue : 0;
       const pricedUnitRateEquip = qtyValue ? totalsWithAuto.totalRateEquip / qtyValue : 0;
       const pricedUnitRateTools = qtyValue ? totalsWithAuto.totalRateTools / qtyValue : 0;
-      const sellRateWagesValue = getSellRateValue(item.id, "wages");
-      const sellRateMaterialsValue = getSellRateValue(item.id, "materials");
-      const sellRateSubconValue = getSellRateValue(item.id, "subcon");
-      const sellRateEquipValue = getSellRateValue(item.id, "equip");
-      const sellRateOtherValue = getSellRateValue(item.id, "other");
-      const sellUnitRateWages = pricedUnitRateWages / (1 - sellRateWagesValue);
-      const sellUnitRateMaterials = pricedUnitRateMaterials / (1 - sellRateMaterialsValue);
-      const sellUnitRateSubcon = pricedUnitRateSubcon / (1 - sellRateSubconValue);
-      const sellUnitRateEquip = pricedUnitRateEquip / (1 - sellRateEquipValue);
-      const sellUnitRateOther = pricedUnitRateTools / (1 - sellRateOtherValue);
+      const sellUnitRateWages = applySellMarkup(item, "wages", pricedUnitRateWages);
+      const sellUnitRateMaterials = applySellMarkup(item, "materials", pricedUnitRateMaterials);
+      const sellUnitRateSubcon = applySellMarkup(item, "subcon", pricedUnitRateSubcon);
+      const sellUnitRateEquip = applySellMarkup(item, "equip", pricedUnitRateEquip);
+      const sellUnitRateOther = applySellMarkup(item, "other", pricedUnitRateTools);
       const sellUnitPriceRaw =
         sellUnitRateWages +
         sellUnitRateMaterials +
@@ -1498,9 +2028,30 @@ export default function Pricing({
     percentValue,
     poRateValue,
     mpHourlyRateValue,
-    getSellRateValue,
+    applySellMarkup,
+    getItemType,
+    priceAllowance,
   ]);
 
+  const openBenchmark = useCallback(
+    async (itemId: string) => {
+      if (!projectId) return;
+      setBenchmarkItemId(itemId);
+      setBenchmark(null);
+      setBenchmarkError("");
+      setBenchmarkCurrentRate(buildEstimationRows().find((row) => row.id === `priced-${itemId}`)?.rate ?? "");
+      setBenchmarkLoading(true);
+      try {
+        setBenchmark(await getUnitRateBenchmark(projectId, itemId));
+      } catch (error: unknown) {
+        setBenchmarkError((error as Error).message || "Failed to load benchmark.");
+      } finally {
+        setBenchmarkLoading(false);
+      }
+    },
+    [projectId, buildEstimationRows]
+  );
+
   const handleGoToEstimation = useCallback(() => {
     if (!onGoToEstimation) return;
     onGoToEstimation(buildEstimationRows());
@@ -1510,7 +2061,8 @@ export default function Pricing({
     return pricingBlocks.reduce(
       (acc, entry) => {
         const item = entry.item;
-        if (isRateOnlyItem(item)) return acc;
+        // Rate-only lines stay out of the totals, and allowances are summed on their own below.
+        if (getItemType(item) !== "measured") return acc;
         const baseQtyDisplay = getBoqFieldValue(item, "qty");
         const qtyDisplay = qtyOverrideByItemId[item.id] ?? baseQtyDisplay;
         const qtyValue = parseNumber(qtyDisplay);
@@ -1556,7 +2108,7 @@ export default function Pricing({
         const autoQty = parseNumber(autoRowQtyByItemId[item.id] ?? "1");
         const autoUnitMh = manualTotals.totalMh * percentValue;
         const autoTotalMh = autoUnitMh * autoQty;
-        const autoUnitRateWages = autoUnitMh * mpHourlyRateValue;
+        const autoUnitRateWages = autoUnitMh * crewHourlyRate(manualTotals, mpHourlyRateValue);
         const autoTotalRateWages = autoUnitRateWages * autoQty;
         const autoUnitRateEquip = manualTotals.totalRateEquip * percentValue;
         const autoTotalRateEquip = autoUnitRateEquip * autoQty;
@@ -1571,7 +2123,7 @@ export default function Pricing({
         };
 
         const pricedUnitMh = qtyValue ? totalsWithAuto.totalMh / qtyValue : 0;
-        const pricedUnitRateWages = pricedUnitMh * mpHourlyRateValue;
+        const pricedUnitRateWages = qtyValue ? totalsWithAuto.totalRateWages / qtyValue : 0;
         const pricedUnitRateMaterials = qtyValue ? totalsWithAuto.totalRateMaterials / qtyValue : 0;
         const pricedUnitRateSubcon = qtyValue ? totalsWithAuto.totalRateSubcon / qtyValue : 0;
         const pricedUnitRateEquip = qtyValue ? totalsWithAuto.totalRateEquip / qtyValue : 0;
@@ -1585,20 +2137,16 @@ export default function Pricing({
         const pricedUnitPrice = roundTo2(pricedUnitPriceRaw);
         const pricedTotalPrice = roundTo2(pricedUnitPrice * qtyValue);
 
-        const sellRateWagesValue = getSellRateValue(item.id, "wages");
-        const sellRateMaterialsValue = getSellRateValue(item.id, "materials");
-        const sellRateSubconValue = getSellRateValue(item.id, "subcon");
-        const sellRateEquipValue = getSellRateValue(item.id, "equip");
-        const sellRateOtherValue = getSellRateValue(item.id, "other");
-        const sellUnitRateWages = pricedUnitRateWages / (1 - sellRateWagesValue);
+        const unitLayers = new Map<string, number>();
+        const sellUnitRateWages = applySellMarkup(item, "wages", pricedUnitRateWages, unitLayers);
         const sellTotalRateWages = sellUnitRateWages * qtyValue;
-        const sellUnitRateMaterials = pricedUnitRateMaterials / (1 - sellRateMaterialsValue);
+        const sellUnitRateMaterials = applySellMarkup(item, "materials", pricedUnitRateMaterials, unitLayers);
         const sellTotalRateMaterials = sellUnitRateMaterials * qtyValue;
-        const sellUnitRateSubcon = pricedUnitRateSubcon / (1 - sellRateSubconValue);
+        const sellUnitRateSubcon = applySellMarkup(item, "subcon", pricedUnitRateSubcon, unitLayers);
         const sellTotalRateSubcon = sellUnitRateSubcon * qtyValue;
-        const sellUnitRateEquip = pricedUnitRateEquip / (1 - sellRateEquipValue);
+        const sellUnitRateEquip = applySellMarkup(item, "equip", pricedUnitRateEquip, unitLayers);
         const sellTotalRateEquip = sellUnitRateEquip * qtyValue;
-        const sellUnitRateOther = pricedUnitRateTools / (1 - sellRateOtherValue);
+        const sellUnitRateOther = applySellMarkup(item, "other", pricedUnitRateTools, unitLayers);
         const sellTotalRateOther = sellUnitRateOther * qtyValue;
         const sellUnitPriceRaw =
           sellUnitRateWages +
@@ -1622,6 +2170,9 @@ export default function Pricing({
         acc.sellTotalRateEquip += sellTotalRateEquip;
         acc.sellTotalRateOther += sellTotalRateOther;
         acc.sellTotalPrice += sellTotalPriceRaw;
+        unitLayers.forEach((amount, key) =>
+          acc.markupLayers.set(key, (acc.markupLayers.get(key) ?? 0) + amount * qtyValue)
+        );
         return acc;
       },
       {
@@ -1638,6 +2189,7 @@ export default function Pricing({
         sellTotalRateEquip: 0,
         sellTotalRateOther: 0,
         sellTotalPrice: 0,
+        markupLayers: new Map<string, number>(),
       }
     );
   }, [
@@ -1648,10 +2200,70 @@ export default function Pricing({
     percentValue,
     poRateValue,
     mpHourlyRateValue,
-    isRateOnlyItem,
-    getSellRateValue,
+    getItemType,
+    applySellMarkup,
   ]);
 
+  const allowanceTotals = useMemo(() => {
+    const byType = new Map<AllowanceType, { itemCount: number; direct: number; sell: number }>();
+    pricingBlocks.forEach((entry) => {
+      const itemType = getItemType(entry.item);
+      if (!isAllowanceType(itemType)) return;
+      const qtyValue = parseNumber(qtyOverrideByItemId[entry.item.id] ?? getBoqFieldValue(entry.item, "qty"));
+      const allowance = priceAllowance(entry.item, itemType, qtyValue);
+      const current = byType.get(itemType) ?? { itemCount: 0, direct: 0, sell: 0 };
+      byType.set(itemType, {
+        itemCount: current.itemCount + 1,
+        direct: current.direct + allowance.direct,
+        sell: current.sell + allowance.sell,
+      });
+    });
+    const lines = (Object.keys(ALLOWANCE_LABELS) as AllowanceType[]).flatMap((itemType) => {
+      const totals = byType.get(itemType);
+      return totals ? [{ itemType, label: ALLOWANCE_LABELS[itemType], ...totals }] : [];
+    });
+    return { lines, sell: lines.reduce((sum, line) => sum + line.sell, 0) };
+  }, [pricingBlocks, qtyOverrideByItemId, getItemType, priceAllowance]);
+
+  const markupBreakdown = useMemo(() => {
+    const labels: Array<[string, string]> = [
+      ...(orderedMarkups.length === 0
+        ? [[SELL_RATE_FACTOR_KEY, `Sell rate factor ${sellRateFactor.trim() || "0"}%`] as [string, string]]
+        : []),
+      ...orderedMarkups.map((markup): [string, string] => [markup.id, describeMarkup(markup)]),
+      [SELL_RATE_OVERRIDE_KEY, "Item sell-rate overrides"],
+    ];
+    const lines = labels
+      .filter(([key]) => summaryTotals.markupLayers.has(key))
+      .map(([key, label]) => ({ key, label, amount: summaryTotals.markupLayers.get(key) ?? 0 }));
+    const rounding =
+      summaryTotals.sellTotalPrice - summaryTotals.totalPrice - lines.reduce((sum, line) => sum + line.amount, 0);
+    return { lines, rounding };
+  }, [orderedMarkups, sellRateFactor, summaryTotals]);
+
+  const markupCategories = useMemo(
+    () =>
+      Array.from(
+        new Set(pricingBlocks.map((entry) => (entry.item.metadata?.category ?? "").trim() || "Uncategorized"))
+      ),
+    [pricingBlocks]
+  );
+
+  const addMarkup = useCallback(() => {
+    setMarkups((current) => [
+      ...current,
+      { id: uuidv4(), kind: "overhead", label: "", percent: "0", scope: "project", scopeValue: "" },
+    ]);
+  }, []);
+
+  const updateMarkup = useCallback((id: string, patch: Partial<PricingMarkup>) => {
+    setMarkups((current) => current.map((markup) => (markup.id === id ? { ...markup, ...patch } : markup)));
+  }, []);
+
+  const removeMarkup = useCallback((id: string) => {
+    setMarkups((current) => current.filter((markup) => markup.id !== id));
+  }, []);
+
   const handleSave = useCallback(async (): Promise<boolean> => {
     if (!projectId) {
       setSaveError("Save requires an active project.");
@@ -1662,10 +2274,12 @@ export default function Pricing({
     setSaveMessage("");
     const payload = buildPricingPayload();
     try {
-      await savePricing(projectId, payload);
+      const saved = await savePricing(projectId, payload, revisionNote, baseRevisionRef.current);
+      baseRevisionRef.current = saved.revision;
       lastSavedSnapshotRef.current = JSON.stringify(payload);
       onDirtyChange?.(false);
       setIsDirty(false);
+      setRevisionNote("");
       setSaveMessage("Saved.");
       setTimeout(() => setSaveMessage(""), 3000);
       return true;
@@ -1675,12 +2289,91 @@ export default function Pricing({
     } finally {
       setSaving(false);
     }
-  }, [projectId, buildPricingPayload, onDirtyChange]);
+  }, [projectId, buildPricingPayload, onDirtyChange, revisionNote]);
 
   useEffect(() => {
     onRegisterSave?.(handleSave);
   }, [handleSave, onRegisterSave]);
 
+  /** Checks run on the stored pricing, so pending edits are saved first. */
+  const runValidation = useCallback(async () => {
+    if (!projectId) return;
+    if (isDirty && !(await handleSave())) return;
+    setValidationError("");
+    setValidationLoading(true);
+    try {
+      setValidation(await getPricingValidation(projectId));
+    } catch (error: unknown) {
+      setValidationError((error as Error).message || "Failed to check pricing.");
+    } finally {
+      setValidationLoading(false);
+    }
+  }, [projectId, isDirty, handleSave]);
+
+  const issuesByItemId = useMemo(() => {
+    const map = new Map<string, PricingIssue[]>();
+    validation?.issues.forEach((issue) => map.set(issue.itemId, [...(map.get(issue.itemId) ?? []), issue]));
+    return map;
+  }, [validation]);
+
+  const openRevisions = useCallback(async () => {
+    if (!projectId) return;
+    setRevisionsOpen(true);
+    setRevisionDiff(null);
+    setRevisionsError("");
+    setRevisionsLoading(true);
+    try {
+      const { revisions: list } = await listPricingRevisions(projectId);
+      setRevisions(list ?? []);
+    } catch (error: unknown) {
+      setRevisionsError((error as Error).message || "Failed to load revisions.");
+    } finally {
+      setRevisionsLoading(false);
+    }
+  }, [projectId]);
+
+  const compareRevision = useCallback(
+    async (revision: number) => {
+      if (!projectId) return;
+      setRevisionsError("");
+      setRevisionDiffLoading(true);
+      try {
+        setRevisionDiff(await diffPricingRevisions(projectId, revision, "current"));
+      } catch (error: unknown) {
+        setRevisionsError((error as Error).message || "Failed to compare revisions.");
+      } finally {
+        setRevisionDiffLoading(false);
+      }
+    },
+    [projectId]
+  );
+
+  const restoreRevision = useCallback(
+    async (revision: number) => {
+      if (!projectId) return;
+      if (isDirty && !window.confirm("Restoring will discard your unsaved changes. Continue?")) return;
+      setRevisionsError("");
+      setRestoringRevision(revision);
+      try {
+        const payload = await restorePricingRevision(projectId, revision);
+        baseRevisionRef.current = payload.revision;
+        initializingRef.current = true;
+        applyPricingPayload(payload);
+        lastSavedSnapshotRef.current = JSON.stringify(payload);
+        onDirtyChange?.(false);
+        setIsDirty(false);
+        setRevisionsOpen(false);
+        setSaveMessage(`Restored revision ${revision}.`);
+        setTimeout(() => setSaveMessage(""), 3000);
+      } catch (error: unknown) {
+        setRevisionsError((error as Error).message || "Failed to restore revision.");
+      } finally {
+        setRestoringRevision(null);
+      }
+    },
+    [projectId, isDirty, applyPricingPayload, onDirtyChange]
+  );
+
   useEffect(() => {
     const currentSnapshot = JSON.stringify(buildPricingPayload());
     if (loadingPricing || initializingRef.current) {
@@ -1843,9 +2536,132 @@ export default function Pricing({
               onChange={(event) => setSellRateFactor(event.target.value)}
               min={0}
               step="0.01"
+              disabled={markups.length > 0}
+              title={markups.length > 0 ? "Markups below replace the sell-rate factor" : undefined}
             />
           </label>
         </div>
+        <div style={{ marginBottom: "1rem" }}>
+          <div style={{ display: "flex", alignItems: "center", gap: "0.75rem", marginBottom: "0.5rem", flexWrap: "wrap" }}>
+            <span className="electrical-input__label">Markups</span>
+            <button type="button" className="btn-secondary btn-compact" onClick={addMarkup}>
+              Add markup
+            </button>
+            <span style={{ opacity: 0.7, fontSize: "0.85rem" }}>
+              Applied in order overhead → contingency → risk → profit → bond → insurance, each on the running total.
+            </span>
+          </div>
+          {markups.length > 0 && (
+            <table className="matches-table" style={{ width: "auto" }}>
+              <thead>
+                <tr>
+                  <th>Type</th>
+                  <th>Label</th>
+                  <th>%</th>
+                  <th>Applies to</th>
+                  <th />
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {markups.map((markup) => (
+                  <tr key={markup.id}>
+                    <td>
+                      <select
+                        className="electrical-input__control"
+                        value={markup.kind}
+                        onChange={(event) => updateMarkup(markup.id, { kind: event.target.value as PricingMarkupKind })}
+                      >
+                        {MARKUP_KINDS.map((kind) => (
+                          <option key={kind.value} value={kind.value}>
+                            {kind.label}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td>
+                      <input
+                        className="electrical-input__control"
+                        type="text"
+                        value={markup.label}
+                        onChange={(event) => updateMarkup(markup.id, { label: event.target.value })}
+                        placeholder="Optional"
+                      />
+                    </td>
+                    <td>
+                      <input
+                        className="electrical-input__control"
+                        type="number"
+                        value={markup.percent}
+                        onChange={(event) => updateMarkup(markup.id, { percent: event.target.value })}
+                        step="0.01"
+                        style={{ width: "6rem" }}
+                      />
+                    </td>
+                    <td>
+                      <select
+                        className="electrical-input__control"
+                        value={markup.scope}
+                        onChange={(event) => {
+                          const scope = event.target.value as PricingMarkupScope;
+                          const scopeValue =
+                            scope === "category" ? markupCategories[0] ?? "" : scope === "costType" ? "wages" : "";
+                          updateMarkup(markup.id, { scope, scopeValue });
+                        }}
+                      >
+                        {MARKUP_SCOPES.map((scope) => (
+                          <option key={scope.value} value={scope.value}>
+                            {scope.label}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td>
+                      {markup.scope === "category" && (
+                        <select
+                          className="electrical-input__control"
+                          value={markup.scopeValue}
+                          onChange={(event) => updateMarkup(markup.id, { scopeValue: event.target.value })}
+                        >
+                          {!markupCategories.includes(markup.scopeValue) && (
+                            <option value={markup.scopeValue}>{markup.scopeValue || "—"}</option>
+                          )}
+                          {markupCategories.map((category) => (
+                            <option key={category} value={category}>
+                              {category}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                      {markup.scope === "costType" && (
+                        <select
+                          className="electrical-input__control"
+                          value={markup.scopeValue}
+                          onChange={(event) => updateMarkup(markup.id, { scopeValue: event.target.value })}
+                        >
+                          {MARKUP_COST_TYPES.map((costType) => (
+                            <option key={costType.value} value={costType.value}>
+                              {costType.label}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                    </td>
+                    <td>
+                      <button
+                        type="button"
+                        className="btn-secondary btn-compact btn-muted"
+                        onClick={() => removeMarkup(markup.id)}
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
         <div style={{ display: "flex", alignItems: "center", gap: "0.75rem", marginBottom: "1rem", justifyContent: "flex-end", flexWrap: "wrap" }}>
           <button
             type="button"
@@ -1855,6 +2671,14 @@ export default function Pricing({
           >
             Go to Estimation
           </button>
+          <input
+            type="text"
+            className="electrical-input__control"
+            value={revisionNote}
+            onChange={(event) => setRevisionNote(event.target.value)}
+            placeholder="Revision note (optional)"
+            style={{ maxWidth: "16rem" }}
+          />
           <button
             type="button"
             className="btn-secondary"
@@ -1863,6 +2687,105 @@ export default function Pricing({
           >
             {saving ? "Saving..." : "Save"}
           </button>
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={() => void openRevisions()}
+            disabled={!projectId}
+          >
+            Revisions
+          </button>
+          {isLumpSum && (
+            <button
+              type="button"
+              className="btn-secondary"
+              onClick={() => setLumpSumOpen((prev) => !prev)}
+              disabled={!projectId}
+              title="Spreads the saved pricing; save first to spread the latest rates"
+            >
+              Lump Sum Breakdown
+            </button>
+          )}
+          <select
+            className="electrical-input__control"
+            value={libraryVersion === null ? "" : String(libraryVersion)}
+            onChange={(event) =>
+              void handleLibraryVersionChange(event.target.value === "" ? null : Number(event.target.value))
+            }
+            disabled={!projectId || switchingLibrary}
+            title="Productivity rates this project is priced against"
+            style={{ maxWidth: "14rem" }}
+          >
+            <option value="">My productivity rates</option>
+            {libraryVersions.map((version, index) => (
+              <option key={version} value={String(version)}>
+                Company library v{version}
+                {index === 0 ? " (latest)" : ""}
+              </option>
+            ))}
+          </select>
+          <select
+            className="electrical-input__control"
+            value={tradeLocation ?? ""}
+            onChange={(event) => void handleTradeLocationChange(event.target.value || null)}
+            disabled={!projectId || switchingLibrary}
+            title="Trade rates the crews are costed at; without a location every crew is costed at the manpower hourly rate"
+            style={{ maxWidth: "14rem" }}
+          >
+            <option value="">Manpower hourly rate</option>
+            {tradeLocations.map((location) => (
+              <option key={location} value={location}>
+                {location} trade rates
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={() => void runValidation()}
+            disabled={!projectId || validationLoading || saving}
+            title="Check for zero rates, unit problems and outliers"
+          >
+            {validationLoading ? "Checking..." : "Check Pricing"}
+          </button>
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={() => setAdjustmentsOpen((prev) => !prev)}
+            disabled={!projectId}
+            title="Project factors on the library man-hours: height, congestion, working hours, climate, learning curve"
+          >
+            {productivityAdjustments.length
+              ? `Productivity Factors (${productivityAdjustments.length})`
+              : "Productivity Factors"}
+          </button>
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={() => setCalendarOpen((prev) => !prev)}
+            disabled={!projectId}
+            title="Working days and hours: rest days, Ramadan hours, public holidays and the summer midday ban"
+          >
+            {workingCalendar ? "Working Calendar (set)" : "Working Calendar"}
+          </button>
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={() => setMixOpen((prev) => !prev)}
+            disabled={!projectId}
+            title="Saudi/expatriate share per trade, Nitaqat target and the nationalisation cost"
+          >
+            Manpower Mix
+          </button>
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={() => setReviewOpen((prev) => !prev)}
+            disabled={!projectId}
+            title="Reviews the saved pricing; save first so the latest items are included"
+          >
+            Review
+          </button>
           <button
             type="button"
             className="btn-secondary"
@@ -1884,7 +2807,108 @@ export default function Pricing({
           {saveError && <span className="feedback" style={{ margin: 0 }}>{saveError}</span>}
         </div>
         {ratesError && <p className="feedback">{ratesError}</p>}
+        {lumpSumOpen && isLumpSum && projectId && (
+          <div className="estimation-report">
+            <LumpSumBreakdown projectId={projectId} />
+          </div>
+        )}
+        {adjustmentsOpen && projectId && (
+          <div className="estimation-report">
+            <ProductivityAdjustments
+              projectId={projectId}
+              blockCodes={productivityOptions.map((option) => option.code).filter(Boolean)}
+              onSaved={setProductivityAdjustments}
+            />
+          </div>
+        )}
+        {calendarOpen && projectId && (
+          <div className="estimation-report">
+            <WorkingCalendarPanel projectId={projectId} onSaved={reloadProjectRates} />
+          </div>
+        )}
+        {mixOpen && projectId && (
+          <div className="estimation-report">
+            <ManpowerMixPanel
+              projectId={projectId}
+              tradeCodes={Object.keys(tradeCosts ?? {})}
+              onSaved={reloadProjectRates}
+            />
+          </div>
+        )}
+        {reviewOpen && projectId && (
+          <div className="estimation-report">
+            <PricingReview projectId={projectId} onStatusChange={onProjectStatusChange} />
+          </div>
+        )}
         {loadingRates && <p className="loading-text">Loading productivity rates...</p>}
+        {validationError && <p className="feedback">{validationError}</p>}
+        {validation && (
+          <details className="pricing-validation" open={validation.issues.length > 0}>
+            <summary>
+              {validation.issues.length === 0
+                ? `No issues found in ${validation.checkedItems} items.`
+                : `${validation.errors} error${validation.errors === 1 ? "" : "s"}, ${validation.warnings} warning${
+                    validation.warnings === 1 ? "" : "s"
+                  } in ${issuesByItemId.size} of ${validation.checkedItems} items`}
+              <button
+                type="button"
+                className="btn-secondary btn-compact btn-muted"
+                onClick={() => setValidation(null)}
+              >
+                Dismiss
+              </button>
+            </summary>
+            <ul className="pricing-validation__list">
+              {validation.issues.map((issue, index) => (
+                <li key={`${issue.itemId}-${issue.rule}-${index}`}>
+                  <button
+                    type="button"
+                    className={`pricing-validation__issue is-${issue.severity}`}
+                    onClick={() => setCollapsedByItemId((curr) => ({ ...curr, [issue.itemId]: false }))}
+                    title="Open this block"
+                  >
+                    <strong>{issue.itemCode || "—"}</strong> {issue.message}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+        {supersededMaterialRows.length > 0 && (
+          <details className="pricing-validation">
+            <summary>
+              {`${supersededMaterialRows.length} sub-item${
+                supersededMaterialRows.length === 1 ? " uses" : "s use"
+              } a superseded material price`}
+              <button
+                type="button"
+                className="btn-secondary btn-compact"
+                onClick={applyCurrentMaterialPrices}
+                disabled={supersededMaterialRows.every((entry) => !entry.current)}
+              >
+                Use Current Prices
+              </button>
+            </summary>
+            <ul className="pricing-validation__list">
+              {supersededMaterialRows.map(({ itemId, itemCode, row, current }) => (
+                <li key={row.id}>
+                  <button
+                    type="button"
+                    className={`pricing-validation__issue ${current ? "is-warning" : "is-error"}`}
+                    onClick={() => setCollapsedByItemId((curr) => ({ ...curr, [itemId]: false }))}
+                    title="Open this block"
+                  >
+                    <strong>{itemCode || "—"}</strong> {row.description}: {row.materialPrice?.code} priced at{" "}
+                    {row.materialPrice?.price.toFixed(2)}
+                    {current
+                      ? `, now ${current.price.toFixed(2)} ${current.currency}${current.supplier ? ` (${current.supplier})` : ""}`
+                      : ", no current catalogue price"}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
         {showSuggestionLogs && (
           <div className="compare-log-card" style={{ marginBottom: "1.5rem" }}>
             <div className="compare-log-header">
@@ -1961,6 +2985,7 @@ export default function Pricing({
               const isCollapsed = collapsedByItemId[item.id] ?? false;
               const isCompleted = completedByItemId[item.id] ?? false;
               const panelId = `pricing-panel-${item.id}`;
+              const itemIssues = issuesByItemId.get(item.id) ?? [];
               const baseQtyDisplay = getBoqFieldValue(item, "qty");
               const qtyDisplay = qtyOverrideByItemId[item.id] ?? baseQtyDisplay;
               const unitDisplay = getBoqFieldValue(item, "unit");
@@ -2034,7 +3059,7 @@ export default function Pricing({
               const percentageLabel = percentage.trim() || "0";
               const autoUnitMh = manualTotals.totalMh * percentValue;
               const autoTotalMh = autoUnitMh * autoQty;
-              const autoUnitRateWages = autoUnitMh * mpHourlyRateValue;
+              const autoUnitRateWages = autoUnitMh * crewHourlyRate(manualTotals, mpHourlyRateValue);
               const autoTotalRateWages = autoUnitRateWages * autoQty;
               const autoUnitRateEquip = manualTotals.totalRateEquip * percentValue;
               const autoTotalRateEquip = autoUnitRateEquip * autoQty;
@@ -2051,7 +3076,7 @@ export default function Pricing({
               };
 
               const pricedUnitMh = qtyValue ? totalsWithAuto.totalMh / qtyValue : 0;
-              const pricedUnitRateWages = pricedUnitMh * mpHourlyRateValue;
+              const pricedUnitRateWages = qtyValue ? totalsWithAuto.totalRateWages / qtyValue : 0;
               const pricedUnitRateMaterials = qtyValue ? totalsWithAuto.totalRateMaterials / qtyValue : 0;
               const pricedUnitRateSubcon = qtyValue ? totalsWithAuto.totalRateSubcon / qtyValue : 0;
               const pricedUnitRateEquip = qtyValue ? totalsWithAuto.totalRateEquip / qtyValue : 0;
@@ -2064,20 +3089,15 @@ export default function Pricing({
                 pricedUnitRateMaterials;
               const pricedUnitPrice = roundTo2(pricedUnitPriceRaw);
               const pricedTotalPrice = roundTo2(pricedUnitPrice * qtyValue);
-              const sellRateWagesValue = getSellRateValue(item.id, "wages");
-              const sellRateMaterialsValue = getSellRateValue(item.id, "materials");
-              const sellRateSubconValue = getSellRateValue(item.id, "subcon");
-              const sellRateEquipValue = getSellRateValue(item.id, "equip");
-              const sellRateOtherValue = getSellRateValue(item.id, "other");
-              const sellUnitRateWages = pricedUnitRateWages / (1 - sellRateWagesValue);
+              const sellUnitRateWages = applySellMarkup(item, "wages", pricedUnitRateWages);
               const sellTotalRateWages = sellUnitRateWages * qtyValue;
-              const sellUnitRateMaterials = pricedUnitRateMaterials / (1 - sellRateMaterialsValue);
+              const sellUnitRateMaterials = applySellMarkup(item, "materials", pricedUnitRateMaterials);
               const sellTotalRateMaterials = sellUnitRateMaterials * qtyValue;
-              const sellUnitRateSubcon = pricedUnitRateSubcon / (1 - sellRateSubconValue);
+              const sellUnitRateSubcon = applySellMarkup(item, "subcon", pricedUnitRateSubcon);
               const sellTotalRateSubcon = sellUnitRateSubcon * qtyValue;
-              const sellUnitRateEquip = pricedUnitRateEquip / (1 - sellRateEquipValue);
+              const sellUnitRateEquip = applySellMarkup(item, "equip", pricedUnitRateEquip);
               const sellTotalRateEquip = sellUnitRateEquip * qtyValue;
-              const sellUnitRateOther = pricedUnitRateTools / (1 - sellRateOtherValue);
+              const sellUnitRateOther = applySellMarkup(item, "other", pricedUnitRateTools);
               const sellTotalRateOther = sellUnitRateOther * qtyValue;
               const sellUnitPriceRaw =
                 sellUnitRateWages +
@@ -2089,6 +3109,9 @@ export default function Pricing({
               const sellTotalPriceRaw = sellUnitPriceRounded * qtyValue;
 
               const isRateOnly = isRateOnlyItem(item);
+              const itemType = getItemType(item);
+              const allowanceType = isAllowanceType(itemType) ? itemType : null;
+              const allowanceInputs = allowanceInputsByItemId[item.id] ?? {};
               return (
                 <div
                   key={item.id}
@@ -2108,7 +3131,17 @@ export default function Pricing({
                       }
                     }}
                   >
-                    <span>{categoryLabel}</span>
+                    <span>
+                      {categoryLabel}
+                      {itemIssues.length > 0 && (
+                        <span
+                          className={`pricing-issue-badge${itemIssues.some((issue) => issue.severity === "error") ? " is-error" : ""}`}
+                          title={itemIssues.map((issue) => issue.message).join("\n")}
+                        >
+                          {itemIssues.length}
+                        </span>
+                      )}
+                    </span>
                     <div className="pricing-accordion__block-code" onClick={(e) => e.stopPropagation()}>
                       <label className="pricing-block-code-label">
                         Block code
@@ -2164,19 +3197,113 @@ export default function Pricing({
                       </button>
                       <button
                         type="button"
-                        className="inline-add-button"
+                        className="inline-copy-block-button"
                         onClick={(event) => {
                           event.stopPropagation();
-                          addSubItem(item.id, qtyDisplay);
+                          void openBenchmark(item.id);
                         }}
-                        aria-label="Add sub item"
-                        title="Add sub item"
+                        disabled={!projectId}
+                        aria-label="Compare unit rate with other projects"
+                        title="Compare unit rate with other projects"
                       >
-                        +
+                        ≈
                       </button>
+                      {!allowanceType && (
+                        <button
+                          type="button"
+                          className="inline-add-button"
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            addSubItem(item.id, qtyDisplay);
+                          }}
+                          aria-label="Add sub item"
+                          title="Add sub item"
+                        >
+                          +
+                        </button>
+                      )}
                     </div>
                   </div>
-                  {!isCollapsed && (
+                  {!isCollapsed && allowanceType && (
+                    <div className="pricing-accordion__panel" id={panelId}>
+                      <div className="pricing-scenario__row">
+                        {allowanceType === "daywork" ? (
+                          <label className="electrical-input">
+                            <span className="electrical-input__label">Hourly rate (sell)</span>
+                            <input
+                              className="electrical-input__control"
+                              type="number"
+                              min="0"
+                              value={allowanceInputs.hourlyRate ?? ""}
+                              placeholder={formatRounded(applySellMarkup(item, "wages", mpHourlyRateValue))}
+                              onChange={(event) => updateAllowanceInput(item.id, "hourlyRate", event.target.value)}
+                            />
+                          </label>
+                        ) : (
+                          <label className="electrical-input">
+                            <span className="electrical-input__label">Sum</span>
+                            <input
+                              className="electrical-input__control"
+                              type="number"
+                              min="0"
+                              value={allowanceInputs.sum ?? ""}
+                              placeholder={formatRounded(parseNumber(getBoqFieldValue(item, "rate")) * (qtyValue || 1))}
+                              onChange={(event) => updateAllowanceInput(item.id, "sum", event.target.value)}
+                            />
+                          </label>
+                        )}
+                        {allowanceType === "time_related" && (
+                          <>
+                            <label className="electrical-input">
+                              <span className="electrical-input__label">Monthly rate</span>
+                              <input
+                                className="electrical-input__control"
+                                type="number"
+                                min="0"
+                                value={allowanceInputs.monthlyRate ?? ""}
+                                onChange={(event) => updateAllowanceInput(item.id, "monthlyRate", event.target.value)}
+                              />
+                            </label>
+                            <label className="electrical-input">
+                              <span className="electrical-input__label">Daily rate</span>
+                              <input
+                                className="electrical-input__control"
+                                type="number"
+                                min="0"
+                                value={allowanceInputs.dailyRate ?? ""}
+                                onChange={(event) => updateAllowanceInput(item.id, "dailyRate", event.target.value)}
+                              />
+                            </label>
+                          </>
+                        )}
+                        {allowanceType === "pc_sum" && (
+                          <label className="electrical-input">
+                            <span className="electrical-input__label">Profit & attendance %</span>
+                            <input
+                              className="electrical-input__control"
+                              type="number"
+                              min="0"
+                              value={allowanceInputs.attendancePercent ?? ""}
+                              onChange={(event) =>
+                                updateAllowanceInput(item.id, "attendancePercent", event.target.value)
+                              }
+                            />
+                          </label>
+                        )}
+                        <span className="eyebrow">
+                          {ALLOWANCE_LABELS[allowanceType]}
+                          {allowanceType === "daywork" ? ` · ${qtyValue} hours` : ""}
+                          {allowanceType === "time_related" ? ` · ${formatRounded(projectDurationValue)} months` : ""}
+                          {allowanceType === "time_related"
+                            ? `, ${formatRounded(programmeWorkingDays)} working days`
+                            : ""}
+                          {" · sell "}
+                          {formatRounded(priceAllowance(item, allowanceType, qtyValue).sell)}
+                        </span>
+                      </div>
+                    </div>
+                  )}
+                  {!isCollapsed && !allowanceType && (
                     <div className="pricing-accordion__panel" id={panelId}>
                       <div className="pricing-table-wrapper">
                         <table className="matches-table pricing-table">
@@ -2285,8 +3412,13 @@ export default function Pricing({
                                 : [];
                               const displayCode = row.code ?? (row.productivityId ? productivityOptionsById.get(row.productivityId)?.code ?? "" : "");
                               const isCodeLoading = codeLoadingByRowId[row.id];
+                              const rowIssues = itemIssues.filter((issue) => issue.subItemId === row.id);
                               return (
-                                <tr key={row.id}>
+                                <tr
+                                  key={row.id}
+                                  className={rowIssues.length > 0 ? "has-pricing-issue" : undefined}
+                                  title={rowIssues.length > 0 ? rowIssues.map((issue) => issue.message).join("\n") : undefined}
+                                >
                                   <td className="pricing-col-action">
                                     <button
                                       type="button"
@@ -2485,11 +3617,19 @@ export default function Pricing({
                                     />
                                   </td>
                                   <td>{row.unit ?? unitDisplay ?? "—"}</td>
-                                  <td>{formatRounded(row.unitMh)}</td>
+                                  <td title={describeMhAdjustments(row.productivityId)}>{formatRounded(row.unitMh)}</td>
                                   <td>{formatRounded(row.totalMh)}</td>
                                   <td>{formatRounded(row.unitRateWages)}</td>
                                   <td>{formatRounded(row.totalRateWages)}</td>
-                                  <td>
+                                  <td
+                                    title={
+                                      row.materialPrice
+                                        ? `Catalogue ${row.materialPrice.code}: ${row.materialPrice.price.toFixed(2)} × ${
+                                            row.materialPrice.quantity
+                                          }`
+                                        : undefined
+                                    }
+                                  >
                                     <input
                                       type="number"
                                       value={row.materialsRate}
@@ -2497,12 +3637,21 @@ export default function Pricing({
                                         updateSubItem(item.id, row.id, (current) => ({
                                           ...current,
                                           materialsRate: event.target.value,
+                                          materialPrice: null,
                                         }))
                                       }
                                     />
                                   </td>
                                   <td>{formatRounded(row.totalRateMaterials)}</td>
-                                  <td>
+                                  <td
+                                    title={
+                                      row.subconQuote
+                                        ? `Awarded quote: ${row.subconQuote.subcontractor}${
+                                            row.subconQuote.reference ? ` (${row.subconQuote.reference})` : ""
+                                          }`
+                                        : undefined
+                                    }
+                                  >
                                     <input
                                       type="number"
                                       value={row.subconRate}
@@ -2510,6 +3659,7 @@ export default function Pricing({
                                         updateSubItem(item.id, row.id, (current) => ({
                                           ...current,
                                           subconRate: event.target.value,
+                                          subconQuote: null,
                                         }))
                                       }
                                     />
@@ -2660,6 +3810,66 @@ export default function Pricing({
                       </tbody>
                     </table>
                   </div>
+                  <div className="pricing-table-wrapper pricing-table-wrapper--summary">
+                    <table className="matches-table pricing-table pricing-table--summary" style={{ width: "auto" }}>
+                      <thead>
+                        <tr>
+                          <th>Markup breakdown</th>
+                          <th>Amount</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        <tr className="pricing-summary-row">
+                          <td>
+                            <span className="cell-text">Direct cost</span>
+                          </td>
+                          <td>{formatRounded(summaryTotals.totalPrice)}</td>
+                        </tr>
+                        {markupBreakdown.lines.map((line) => (
+                          <tr key={`markup-${line.key}`}>
+                            <td>
+                              <span className="cell-text">{line.label}</span>
+                            </td>
+                            <td>{formatRounded(line.amount)}</td>
+                          </tr>
+                        ))}
+                        {Math.abs(markupBreakdown.rounding) >= 0.01 && (
+                          <tr>
+                            <td>
+                              <span className="cell-text">Rounding</span>
+                            </td>
+                            <td>{formatRounded(markupBreakdown.rounding)}</td>
+                          </tr>
+                        )}
+                        <tr className="pricing-summary-row">
+                          <td>
+                            <span className="cell-text">Sell price</span>
+                          </td>
+                          <td className="pricing-summary-sell">{formatRounded(summaryTotals.sellTotalPrice)}</td>
+                        </tr>
+                        {allowanceTotals.lines.map((line) => (
+                          <tr key={`allowance-${line.itemType}`}>
+                            <td>
+                              <span className="cell-text">
+                                {line.label} ({line.itemCount})
+                              </span>
+                            </td>
+                            <td>{formatRounded(line.sell)}</td>
+                          </tr>
+                        ))}
+                        {allowanceTotals.lines.length > 0 && (
+                          <tr className="pricing-summary-row">
+                            <td>
+                              <span className="cell-text">Tender total</span>
+                            </td>
+                            <td className="pricing-summary-sell">
+                              {formatRounded(summaryTotals.sellTotalPrice + allowanceTotals.sell)}
+                            </td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
                   <div className="pricing-summary-foot">
                     <div className="pricing-summary-foot__label">
                       <span className="cell-text">Total Working Days</span>
@@ -2669,7 +3879,7 @@ export default function Pricing({
                         className="electrical-input__control"
                         type="number"
                         value={formatRounded(
-                          projectDurationValue ? summaryTotals.totalMh / 160 / projectDurationValue : 0
+                          workerHours > 0 ? summaryTotals.totalMh / workerHours : 0
                         )}
                         readOnly
                         disabled
@@ -2685,6 +3895,7 @@ export default function Pricing({
                         value={projectDuration}
                         onChange={(event) => setProjectDuration(event.target.value)}
                         min={0}
+                        max={MAX_PROJECT_DURATION_MONTHS}
                         step="0.01"
                       />
                     </div>
@@ -2852,6 +4063,231 @@ export default function Pricing({
           </div>
         </div>
       )}
+      {benchmarkItemId && (
+        <div
+          className="pricing-copy-modal-overlay"
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="pricing-benchmark-title"
+          onClick={(e) => e.target === e.currentTarget && setBenchmarkItemId(null)}
+        >
+          <div className="pricing-copy-modal">
+            <h2 id="pricing-benchmark-title" className="pricing-copy-modal__title">
+              Unit rate benchmark
+            </h2>
+            {benchmarkError && <p className="feedback">{benchmarkError}</p>}
+            <div className="pricing-copy-modal__table-wrap">
+              {benchmarkLoading ? (
+                <div className="pricing-copy-modal__loader" aria-busy="true">
+                  <span className="pricing-code-loader__spinner" />
+                  <span className="pricing-copy-modal__loader-text">Searching other projects…</span>
+                </div>
+              ) : benchmark && (
+                <>
+                  <p>
+                    {benchmark.description} ({benchmark.unit || "no unit"}) — current rate {benchmarkCurrentRate || "—"}
+                  </p>
+                  {benchmark.count === 0 ? (
+                    <p className="pricing-copy-modal__empty">No similar priced items in approved or submitted projects.</p>
+                  ) : (
+                    <>
+                      <p style={{ display: "flex", gap: "1.5rem" }}>
+                        <strong>Min {formatRounded(benchmark.min ?? 0)}</strong>
+                        <strong>Median {formatRounded(benchmark.median ?? 0)}</strong>
+                        <strong>Max {formatRounded(benchmark.max ?? 0)}</strong>
+                        <span>
+                          from {benchmark.count} item{benchmark.count === 1 ? "" : "s"}
+                        </span>
+                      </p>
+                      <table className="pricing-copy-modal__table matches-table">
+                        <thead>
+                          <tr>
+                            <th>Project</th>
+                            <th>Item</th>
+                            <th>Unit</th>
+                            <th>Rate</th>
+                            <th>Rate / {benchmark.unit || "unit"}</th>
+                            <th>Match</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {benchmark.samples.map((sample) => (
+                            <tr key={`${sample.projectId}-${sample.itemId}`}>
+                              <td>{sample.projectName}</td>
+                              <td>
+                                {sample.itemCode} — {sample.description}
+                              </td>
+                              <td>{sample.unit}</td>
+                              <td>{formatRounded(sample.rate)}</td>
+                              <td>{formatRounded(sample.normalizedRate)}</td>
+                              <td>{Math.round(sample.similarity * 100)}%</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </>
+                  )}
+                </>
+              )}
+            </div>
+            <div className="pricing-copy-modal__actions">
+              <button type="button" className="btn-secondary" onClick={() => setBenchmarkItemId(null)}>
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+      {revisionsOpen && (
+        <div
+          className="pricing-copy-modal-overlay"
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="pricing-revisions-title"
+          onClick={(e) => e.target === e.currentTarget && setRevisionsOpen(false)}
+        >
+          <div className="pricing-copy-modal">
+            <h2 id="pricing-revisions-title" className="pricing-copy-modal__title">
+              Pricing revisions
+            </h2>
+            {revisionsError && <p className="feedback">{revisionsError}</p>}
+            <div className="pricing-copy-modal__table-wrap">
+              {revisionsLoading ? (
+                <div className="pricing-copy-modal__loader" aria-busy="true">
+                  <span className="pricing-code-loader__spinner" />
+                  <span className="pricing-copy-modal__loader-text">Loading…</span>
+                </div>
+              ) : revisions.length === 0 ? (
+                <p className="pricing-copy-modal__empty">No revisions saved yet.</p>
+              ) : (
+                <table className="pricing-copy-modal__table matches-table">
+                  <thead>
+                    <tr>
+                      <th>Rev</th>
+                      <th>Saved</th>
+                      <th>By</th>
+                      <th>Library</th>
+                      <th>Note</th>
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {revisions.map((revision) => (
+                      <tr
+                        key={revision.revision}
+                        className={revisionDiff?.from === revision.revision ? "pricing-copy-modal__row--selected" : ""}
+                      >
+                        <td>{revision.revision}</td>
+                        <td>{new Date(revision.createdAt).toLocaleString()}</td>
+                        <td>{revision.authorName || "—"}</td>
+                        <td>{revision.libraryVersion ? `v${revision.libraryVersion}` : "Own rates"}</td>
+                        <td>{revision.note || "—"}</td>
+                        <td style={{ whiteSpace: "nowrap" }}>
+                          <button
+                            type="button"
+                            className="btn-secondary btn-compact"
+                            onClick={() => void compareRevision(revision.revision)}
+                            disabled={revisionDiffLoading}
+                          >
+                            Compare
+                          </button>{" "}
+                          <button
+                            type="button"
+                            className="btn-secondary btn-compact"
+                            onClick={() => void restoreRevision(revision.revision)}
+                            disabled={restoringRevision !== null}
+                          >
+                            {restoringRevision === revision.revision ? "Restoring…" : "Restore"}
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+            {revisionDiff && (
+              <div className="pricing-copy-modal__table-wrap">
+                <p>
+                  Revision {revisionDiff.from} → current: sell {formatRounded(revisionDiff.totals.sellFrom)} →{" "}
+                  {formatRounded(revisionDiff.totals.sellTo)} ({revisionDiff.totals.sellDelta >= 0 ? "+" : ""}
+                  {formatRounded(revisionDiff.totals.sellDelta)})
+                </p>
+                {revisionDiff.settings.length > 0 && (
+                  <ul className="pricing-copy-modal__subitems">
+                    {revisionDiff.settings.map((change) => (
+                      <li key={change.field}>
+                        {change.field}: {change.from || "—"} → {change.to || "—"}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {revisionDiff.items.length === 0 ? (
+                  <p className="pricing-copy-modal__empty">No line changes.</p>
+                ) : (
+                  <table className="pricing-copy-modal__table matches-table">
+                    <thead>
+                      <tr>
+                        <th>Item</th>
+                        <th>Changes</th>
+                        <th>Sell delta</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {revisionDiff.items.map((item) => (
+                        <tr key={item.itemId}>
+                          <td>
+                            {item.itemCode} — {item.description}
+                          </td>
+                          <td>
+                            <ul className="pricing-copy-modal__subitems">
+                              {item.qty && (
+                                <li>
+                                  qty: {item.qty.from || "—"} → {item.qty.to || "—"}
+                                </li>
+                              )}
+                              {item.added.map((row) => (
+                                <li key={`added-${row.id}`}>
+                                  + {row.code || "—"} {row.description}
+                                </li>
+                              ))}
+                              {item.removed.map((row) => (
+                                <li key={`removed-${row.id}`}>
+                                  − {row.code || "—"} {row.description}
+                                </li>
+                              ))}
+                              {item.sellRateOverrides.map((change) => (
+                                <li key={`sell-${change.field}`}>
+                                  sell % {change.field}: {change.from || "—"} → {change.to || "—"}
+                                </li>
+                              ))}
+                              {item.changed.map((row) => (
+                                <li key={`changed-${row.id}`}>
+                                  {row.code || "—"}:{" "}
+                                  {row.fields.map((field) => `${field.field} ${field.from || "—"} → ${field.to || "—"}`).join(", ")}
+                                </li>
+                              ))}
+                            </ul>
+                          </td>
+                          <td>
+                            {item.sellDelta >= 0 ? "+" : ""}
+                            {formatRounded(item.sellDelta)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+            <div className="pricing-copy-modal__actions">
+              <button type="button" className="btn-secondary" onClick={() => setRevisionsOpen(false)}>
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </section>
   );
 }
@@ -0,0 +1,404 @@
+import { useEffect, useMemo, useState } from "react";
+import { applyPricingReviewAction, getPricingReview, savePricingReviewers, submitPricingReview } from "../services/api";
+import type {
+  PricingReview as Review,
+  PricingReviewItem,
+  ReviewAction,
+  ReviewStatus,
+  ReviewStep,
+} from "../services/api";
+
+type PricingReviewProps = {
+  projectId: string;
+  /** Called after the project status may have changed, so the project list can refresh. */
+  onStatusChange?: () => void;
+};
+
+const STATUS_LABELS: Record<ReviewStatus, string> = {
+  draft: "Draft",
+  priced: "Priced",
+  reviewed: "Reviewed",
+  approved: "Approved",
+};
+
+const STATUS_COLORS: Record<ReviewStatus, string> = {
+  draft: "#8a94a6",
+  priced: "#6284ff",
+  reviewed: "#f5a524",
+  approved: "#3ccf91",
+};
+
+const ACTION_LABELS: Record<ReviewAction, string> = {
+  price: "Mark Priced",
+  review: "Review",
+  approve: "Approve",
+  reject: "Reject",
+};
+
+/** The forward action the server allows on the item, if any; approved items can only be rejected. */
+const forwardAction = (item: PricingReviewItem): ReviewAction | null =>
+  item.actions.find((action) => action !== "reject") ?? null;
+
+const PROJECT_STATUS_TEXT: Record<string, string> = {
+  in_review: "In review",
+  approved: "Approved, ready to submit",
+  submitted: "Submitted",
+};
+
+const formatDate = (value: string | null): string => (value ? new Date(value).toLocaleString() : "—");
+
+const formatMoney = (value: number): string =>
+  (Number.isFinite(value) ? value : 0).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatStep = (step: ReviewStep | null): string => step?.name || "—";
+
+/**
+ * Draft → priced → reviewed → approved workflow of the priced items, with rejection comments and submission.
+ * The owner prices and picks the reviewers; reviews and approvals come from them, never from whoever priced
+ * or reviewed the item, so the server only offers the actions the signed-in user may take.
+ */
+export default function PricingReview({ projectId, onStatusChange }: PricingReviewProps) {
+  const [review, setReview] = useState<Review | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [statusFilter, setStatusFilter] = useState<ReviewStatus | "all">("all");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [comment, setComment] = useState("");
+  const [historyItemId, setHistoryItemId] = useState<string | null>(null);
+  const [reviewerEmails, setReviewerEmails] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getPricingReview(projectId)
+      .then((result) => {
+        if (cancelled) return;
+        setReview(result);
+        setReviewerEmails(result.reviewers.map((reviewer) => reviewer.email).join(", "));
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError((err as Error).message || "Failed to load the review.");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const visibleItems = useMemo(
+    () => (review?.items ?? []).filter((item) => statusFilter === "all" || item.status === statusFilter),
+    [review, statusFilter]
+  );
+  const selectedItems = useMemo(
+    () => (review?.items ?? []).filter((item) => selectedIds.includes(item.itemId)),
+    [review, selectedIds]
+  );
+  /** Bulk forward action, offered only when the user may take the same one on every selected item. */
+  const bulkAction = useMemo(() => {
+    const actions = new Set(selectedItems.map(forwardAction));
+    const [action] = Array.from(actions);
+    return actions.size === 1 && action ? action : null;
+  }, [selectedItems]);
+  const canRejectSelected =
+    selectedItems.length > 0 && selectedItems.every((item) => item.actions.includes("reject"));
+  const historyItem = review?.items.find((item) => item.itemId === historyItemId) ?? null;
+
+  const runAction = async (itemIds: string[], action: ReviewAction) => {
+    if (action === "reject" && !comment.trim()) {
+      setError("Enter a comment explaining the rejection.");
+      return;
+    }
+    setBusy(true);
+    setError("");
+    try {
+      const result = await applyPricingReviewAction(projectId, { itemIds, action, comment: comment.trim() });
+      setReview(result);
+      setSelectedIds([]);
+      setComment("");
+      onStatusChange?.();
+    } catch (err: unknown) {
+      setError((err as Error).message || "Failed to update the review.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    setBusy(true);
+    setError("");
+    try {
+      setReview(await submitPricingReview(projectId));
+      onStatusChange?.();
+    } catch (err: unknown) {
+      setError((err as Error).message || "Failed to submit the bid.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveReviewers = async () => {
+    setBusy(true);
+    setError("");
+    try {
+      const emails = reviewerEmails
+        .split(/[,;\s]+/)
+        .map((email) => email.trim())
+        .filter(Boolean);
+      const result = await savePricingReviewers(projectId, emails);
+      setReview(result);
+      setReviewerEmails(result.reviewers.map((reviewer) => reviewer.email).join(", "));
+    } catch (err: unknown) {
+      setError((err as Error).message || "Failed to save the reviewers.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleSelected = (itemId: string) =>
+    setSelectedIds((prev) => (prev.includes(itemId) ? prev.filter((id) => id !== itemId) : [...prev, itemId]));
+
+  const renderActions = (item: PricingReviewItem) => {
+    const next = forwardAction(item);
+    return (
+      <>
+        {next && (
+          <button
+            type="button"
+            className="btn-secondary btn-compact"
+            onClick={() => void runAction([item.itemId], next)}
+            disabled={busy}
+          >
+            {ACTION_LABELS[next]}
+          </button>
+        )}
+        {item.actions.includes("reject") && (
+          <button
+            type="button"
+            className="btn-secondary btn-compact btn-muted"
+            onClick={() => void runAction([item.itemId], "reject")}
+            disabled={busy}
+            title="Sends the item back to draft; needs a comment"
+          >
+            Reject
+          </button>
+        )}
+      </>
+    );
+  };
+
+  if (loading) {
+    return <p className="eyebrow">Loading review...</p>;
+  }
+
+  return (
+    <>
+      <div className="estimation-report__header">
+        <span>
+          {review
+            ? (Object.keys(STATUS_LABELS) as ReviewStatus[])
+                .map((status) => `${STATUS_LABELS[status]} ${review.counts[status]}`)
+                .join(" • ")
+            : "—"}
+          {review && PROJECT_STATUS_TEXT[review.projectStatus] && (
+            <>
+              {" • "}
+              <strong>{PROJECT_STATUS_TEXT[review.projectStatus]}</strong>
+            </>
+          )}
+        </span>
+        {review?.isOwner && (
+          <button
+            type="button"
+            className="btn-secondary btn-compact"
+            onClick={() => void handleSubmit()}
+            disabled={busy || !review.canSubmit || review.projectStatus === "submitted"}
+            title="Every item must be approved first"
+          >
+            Submit Bid
+          </button>
+        )}
+      </div>
+      {error && <p className="feedback" style={{ marginTop: 0 }}>{error}</p>}
+
+      {review?.isOwner && (
+        <div className="pricing-scenario">
+          <div className="pricing-scenario__row">
+            <label className="electrical-input" style={{ flex: 1 }}>
+              <span className="electrical-input__label">Reviewers (emails)</span>
+              <input
+                className="electrical-input__control"
+                type="text"
+                value={reviewerEmails}
+                onChange={(event) => setReviewerEmails(event.target.value)}
+              />
+            </label>
+            <button
+              type="button"
+              className="btn-secondary btn-compact"
+              onClick={() => void handleSaveReviewers()}
+              disabled={busy}
+            >
+              Save Reviewers
+            </button>
+          </div>
+          <span className="eyebrow">
+            You price every item, so reviews and approvals come from your reviewers; whoever reviews an item
+            cannot also approve it.
+          </span>
+        </div>
+      )}
+
+      <div className="pricing-scenario">
+        <div className="pricing-scenario__row">
+          <label className="electrical-input">
+            <span className="electrical-input__label">Show</span>
+            <select
+              className="electrical-input__control"
+              value={statusFilter}
+              onChange={(event) => setStatusFilter(event.target.value as ReviewStatus | "all")}
+            >
+              <option value="all">All items</option>
+              {(Object.keys(STATUS_LABELS) as ReviewStatus[]).map((status) => (
+                <option key={status} value={status}>
+                  {STATUS_LABELS[status]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="electrical-input" style={{ flex: 1 }}>
+            <span className="electrical-input__label">Comment (required to reject)</span>
+            <input
+              className="electrical-input__control"
+              type="text"
+              value={comment}
+              onChange={(event) => setComment(event.target.value)}
+            />
+          </label>
+          <button
+            type="button"
+            className="btn-secondary btn-compact"
+            onClick={() => bulkAction && void runAction(selectedIds, bulkAction)}
+            disabled={busy || !bulkAction}
+            title="You must be able to take the same step on every selected item"
+          >
+            {bulkAction ? `${ACTION_LABELS[bulkAction]} Selected` : "Advance Selected"}
+          </button>
+          <button
+            type="button"
+            className="btn-secondary btn-compact btn-muted"
+            onClick={() => void runAction(selectedIds, "reject")}
+            disabled={busy || !canRejectSelected}
+          >
+            Reject Selected
+          </button>
+        </div>
+      </div>
+
+      {review && review.items.length === 0 ? (
+        <p className="eyebrow">No priced BOQ items yet.</p>
+      ) : (
+        <div className="table-wrapper" style={{ margin: "0.75rem 0 0" }}>
+          <table className="matches-table">
+            <thead>
+              <tr>
+                <th>
+                  <input
+                    type="checkbox"
+                    checked={visibleItems.length > 0 && visibleItems.every((item) => selectedIds.includes(item.itemId))}
+                    onChange={(event) =>
+                      setSelectedIds(event.target.checked ? visibleItems.map((item) => item.itemId) : [])
+                    }
+                  />
+                </th>
+                <th>Item</th>
+                <th>Description</th>
+                <th>Qty</th>
+                <th>Unit</th>
+                <th>Rate</th>
+                <th>Total</th>
+                <th>Status</th>
+                <th>Priced by</th>
+                <th>Reviewed by</th>
+                <th>Approved by</th>
+                <th>When</th>
+                <th>Comment</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {visibleItems.map((item) => (
+                <tr key={item.itemId}>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(item.itemId)}
+                      onChange={() => toggleSelected(item.itemId)}
+                    />
+                  </td>
+                  <td>{item.itemCode || "—"}</td>
+                  <td>{item.description}</td>
+                  <td>{item.qty}</td>
+                  <td>{item.unit || "—"}</td>
+                  <td>{formatMoney(item.sellRate)}</td>
+                  <td>{formatMoney(item.sellTotal)}</td>
+                  <td style={{ color: STATUS_COLORS[item.status] }}>{STATUS_LABELS[item.status]}</td>
+                  <td>{formatStep(item.pricedBy)}</td>
+                  <td>{formatStep(item.reviewedBy)}</td>
+                  <td>{formatStep(item.approvedBy)}</td>
+                  <td>{formatDate(item.updatedAt)}</td>
+                  <td>{item.comment || "—"}</td>
+                  <td style={{ whiteSpace: "nowrap" }}>
+                    {renderActions(item)}
+                    {item.history.length > 0 && (
+                      <button
+                        type="button"
+                        className="btn-secondary btn-compact btn-muted"
+                        onClick={() => setHistoryItemId((prev) => (prev === item.itemId ? null : item.itemId))}
+                      >
+                        History
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {historyItem && (
+        <div className="table-wrapper" style={{ margin: "0.75rem 0 0" }}>
+          <p className="eyebrow">History of {historyItem.itemCode || historyItem.description}</p>
+          <table className="matches-table">
+            <thead>
+              <tr>
+                <th>When</th>
+                <th>By</th>
+                <th>From</th>
+                <th>To</th>
+                <th>Comment</th>
+              </tr>
+            </thead>
+            <tbody>
+              {historyItem.history
+                .slice()
+                .reverse()
+                .map((event, index) => (
+                  <tr key={`${event.at}-${index}`}>
+                    <td>{formatDate(event.at)}</td>
+                    <td>{event.byName || "—"}</td>
+                    <td>{STATUS_LABELS[event.from]}</td>
+                    <td>{STATUS_LABELS[event.to]}</td>
+                    <td>{event.comment || "—"}</td>
+                  </tr>
+                ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,417 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import type { PricingMarkupKind, PricingScenario } from "../types";
+import {
+  comparePricingScenarios,
+  getComputedPricing,
+  getPricingScenarios,
+  savePricingScenarios,
+} from "../services/api";
+import type { ComputedPricingItem, ScenarioComparison, ScenarioSummary } from "../services/api";
+
+type PricingScenariosProps = {
+  projectId: string;
+};
+
+const RATE_COLUMNS: Array<{ key: string; label: string }> = [
+  { key: "wages", label: "Manpower ×" },
+  { key: "materials", label: "Materials ×" },
+  { key: "subcon", label: "Subcontract ×" },
+  { key: "equip", label: "Equipment ×" },
+  { key: "other", label: "Tools & other ×" },
+];
+
+const MARKUP_KINDS: Array<{ value: PricingMarkupKind; label: string }> = [
+  { value: "overhead", label: "Overhead" },
+  { value: "contingency", label: "Contingency" },
+  { value: "risk", label: "Risk" },
+  { value: "profit", label: "Profit" },
+  { value: "bond", label: "Bond" },
+  { value: "insurance", label: "Insurance" },
+];
+
+const formatMoney = (value: number): string =>
+  (Number.isFinite(value) ? value : 0).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDelta = (value: number): string => `${value > 0 ? "+" : ""}${formatMoney(value)}`;
+
+const createScenario = (index: number): PricingScenario => ({
+  id: uuidv4(),
+  name: `Scenario ${index}`,
+  description: "",
+  rateMultipliers: {},
+  productivityFactor: "",
+  markups: null,
+  subconItems: [],
+});
+
+/** Named what-if scenarios for a project and their totals side by side with the base pricing. */
+export default function PricingScenarios({ projectId }: PricingScenariosProps) {
+  const [scenarios, setScenarios] = useState<PricingScenario[]>([]);
+  const [items, setItems] = useState<ComputedPricingItem[]>([]);
+  const [comparison, setComparison] = useState<ScenarioComparison | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [error, setError] = useState("");
+
+  const refreshComparison = useCallback(async () => {
+    setComparison(await comparePricingScenarios(projectId));
+  }, [projectId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError("");
+    Promise.all([getPricingScenarios(projectId), getComputedPricing(projectId), comparePricingScenarios(projectId)])
+      .then(([stored, computed, compared]) => {
+        if (cancelled) return;
+        setScenarios(stored);
+        setItems(computed.items.filter((item) => item.itemType === "measured"));
+        setComparison(compared);
+        setDirty(false);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError((err as Error).message || "Failed to load scenarios.");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const itemsById = useMemo(() => new Map(items.map((item) => [item.itemId, item])), [items]);
+
+  const updateScenario = useCallback((id: string, update: (scenario: PricingScenario) => PricingScenario) => {
+    setScenarios((prev) => prev.map((scenario) => (scenario.id === id ? update(scenario) : scenario)));
+    setDirty(true);
+  }, []);
+
+  const addScenario = useCallback(() => {
+    setScenarios((prev) => [...prev, createScenario(prev.length + 1)]);
+    setDirty(true);
+  }, []);
+
+  const removeScenario = useCallback((id: string) => {
+    setScenarios((prev) => prev.filter((scenario) => scenario.id !== id));
+    setDirty(true);
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    setError("");
+    setSaving(true);
+    try {
+      setScenarios(await savePricingScenarios(projectId, scenarios));
+      setDirty(false);
+      await refreshComparison();
+    } catch (err: unknown) {
+      setError((err as Error).message || "Failed to save scenarios.");
+    } finally {
+      setSaving(false);
+    }
+  }, [projectId, refreshComparison, scenarios]);
+
+  const columns = useMemo<ScenarioSummary[]>(
+    () => (comparison ? [comparison.base, ...comparison.scenarios] : []),
+    [comparison]
+  );
+  const categoryNames = useMemo(() => {
+    const names: string[] = [];
+    columns.forEach((column) =>
+      column.categories.forEach((category) => {
+        if (!names.includes(category.category)) names.push(category.category);
+      })
+    );
+    return names;
+  }, [columns]);
+
+  if (loading) {
+    return <p className="eyebrow">Loading scenarios...</p>;
+  }
+
+  return (
+    <>
+      <div className="estimation-report__header">
+        <span>Scenarios are priced from the saved pricing; the live pricing is never changed.</span>
+        <div style={{ display: "flex", gap: "0.5rem" }}>
+          <button type="button" className="btn-secondary btn-compact" onClick={addScenario}>
+            Add Scenario
+          </button>
+          <button
+            type="button"
+            className="btn-secondary btn-compact"
+            onClick={() => void handleSave()}
+            disabled={saving || !dirty}
+          >
+            {saving ? "Saving..." : "Save & Compare"}
+          </button>
+        </div>
+      </div>
+      {error && <p className="feedback" style={{ marginTop: 0 }}>{error}</p>}
+      {scenarios.map((scenario) => (
+        <div key={scenario.id} className="pricing-scenario">
+          <div className="pricing-scenario__row">
+            <label className="electrical-input">
+              <span className="electrical-input__label">Name</span>
+              <input
+                className="electrical-input__control"
+                type="text"
+                value={scenario.name}
+                onChange={(event) => updateScenario(scenario.id, (prev) => ({ ...prev, name: event.target.value }))}
+              />
+            </label>
+            <label className="electrical-input" style={{ flex: 2 }}>
+              <span className="electrical-input__label">Description</span>
+              <input
+                className="electrical-input__control"
+                type="text"
+                value={scenario.description}
+                onChange={(event) =>
+                  updateScenario(scenario.id, (prev) => ({ ...prev, description: event.target.value }))
+                }
+              />
+            </label>
+            <button
+              type="button"
+              className="btn-secondary btn-compact btn-muted"
+              onClick={() => removeScenario(scenario.id)}
+            >
+              Remove
+            </button>
+          </div>
+          <div className="pricing-scenario__row">
+            {RATE_COLUMNS.map((column) => (
+              <label key={column.key} className="electrical-input">
+                <span className="electrical-input__label">{column.label}</span>
+                <input
+                  className="electrical-input__control"
+                  type="text"
+                  placeholder="1"
+                  value={scenario.rateMultipliers[column.key] ?? ""}
+                  onChange={(event) =>
+                    updateScenario(scenario.id, (prev) => ({
+                      ...prev,
+                      rateMultipliers: { ...prev.rateMultipliers, [column.key]: event.target.value },
+                    }))
+                  }
+                />
+              </label>
+            ))}
+            <label className="electrical-input">
+              <span className="electrical-input__label">Man-hours ×</span>
+              <input
+                className="electrical-input__control"
+                type="text"
+                placeholder="1"
+                value={scenario.productivityFactor}
+                onChange={(event) =>
+                  updateScenario(scenario.id, (prev) => ({ ...prev, productivityFactor: event.target.value }))
+                }
+              />
+            </label>
+          </div>
+          <div className="pricing-scenario__row">
+            <label className="electrical-input" style={{ flexDirection: "row", alignItems: "center", gap: "0.5rem" }}>
+              <input
+                type="checkbox"
+                checked={scenario.markups !== null}
+                onChange={(event) =>
+                  updateScenario(scenario.id, (prev) => ({ ...prev, markups: event.target.checked ? [] : null }))
+                }
+              />
+              <span className="electrical-input__label">Replace project markups</span>
+            </label>
+            {scenario.markups?.map((markup) => (
+              <div key={markup.id} style={{ display: "flex", gap: "0.35rem", alignItems: "center" }}>
+                <select
+                  className="electrical-input__control"
+                  value={markup.kind}
+                  onChange={(event) =>
+                    updateScenario(scenario.id, (prev) => ({
+                      ...prev,
+                      markups: (prev.markups ?? []).map((entry) =>
+                        entry.id === markup.id ? { ...entry, kind: event.target.value as PricingMarkupKind } : entry
+                      ),
+                    }))
+                  }
+                >
+                  {MARKUP_KINDS.map((kind) => (
+                    <option key={kind.value} value={kind.value}>
+                      {kind.label}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  className="electrical-input__control"
+                  type="text"
+                  style={{ width: "70px" }}
+                  placeholder="%"
+                  value={markup.percent}
+                  onChange={(event) =>
+                    updateScenario(scenario.id, (prev) => ({
+                      ...prev,
+                      markups: (prev.markups ?? []).map((entry) =>
+                        entry.id === markup.id ? { ...entry, percent: event.target.value } : entry
+                      ),
+                    }))
+                  }
+                />
+                {markup.scope !== "project" && <span className="eyebrow">{markup.scopeValue}</span>}
+                <button
+                  type="button"
+                  className="btn-secondary btn-compact btn-muted"
+                  onClick={() =>
+                    updateScenario(scenario.id, (prev) => ({
+                      ...prev,
+                      markups: (prev.markups ?? []).filter((entry) => entry.id !== markup.id),
+                    }))
+                  }
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            {scenario.markups !== null && (
+              <button
+                type="button"
+                className="btn-secondary btn-compact"
+                onClick={() =>
+                  updateScenario(scenario.id, (prev) => ({
+                    ...prev,
+                    markups: [
+                      ...(prev.markups ?? []),
+                      { id: uuidv4(), kind: "profit", label: "", percent: "", scope: "project", scopeValue: "" },
+                    ],
+                  }))
+                }
+              >
+                Add Markup
+              </button>
+            )}
+          </div>
+          <div className="pricing-scenario__row">
+            <label className="electrical-input">
+              <span className="electrical-input__label">Let to subcontract</span>
+              <select
+                className="electrical-input__control"
+                value=""
+                onChange={(event) => {
+                  const itemId = event.target.value;
+                  if (!itemId) return;
+                  updateScenario(scenario.id, (prev) => ({
+                    ...prev,
+                    subconItems: [...prev.subconItems, { itemId, rate: "" }],
+                  }));
+                }}
+              >
+                <option value="">Add BOQ item...</option>
+                {items
+                  .filter((item) => !scenario.subconItems.some((entry) => entry.itemId === item.itemId))
+                  .map((item) => (
+                    <option key={item.itemId} value={item.itemId}>
+                      {item.itemCode} — {item.description.slice(0, 60)}
+                    </option>
+                  ))}
+              </select>
+            </label>
+            {scenario.subconItems.map((entry) => {
+              const item = itemsById.get(entry.itemId);
+              return (
+                <div key={entry.itemId} style={{ display: "flex", gap: "0.35rem", alignItems: "center" }}>
+                  <span title={item?.description}>{item?.itemCode || "Removed item"}</span>
+                  <input
+                    className="electrical-input__control"
+                    type="text"
+                    style={{ width: "90px" }}
+                    placeholder={item ? formatMoney(item.unitRates.direct) : "Rate"}
+                    value={entry.rate}
+                    onChange={(event) =>
+                      updateScenario(scenario.id, (prev) => ({
+                        ...prev,
+                        subconItems: prev.subconItems.map((current) =>
+                          current.itemId === entry.itemId ? { ...current, rate: event.target.value } : current
+                        ),
+                      }))
+                    }
+                  />
+                  <button
+                    type="button"
+                    className="btn-secondary btn-compact btn-muted"
+                    onClick={() =>
+                      updateScenario(scenario.id, (prev) => ({
+                        ...prev,
+                        subconItems: prev.subconItems.filter((current) => current.itemId !== entry.itemId),
+                      }))
+                    }
+                  >
+                    ×
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+      {columns.length > 0 && (
+        <div className="table-wrapper" style={{ margin: "0.75rem 0 0" }}>
+          <table className="matches-table">
+            <thead>
+              <tr>
+                <th />
+                {columns.map((column) => (
+                  <th key={column.id}>{column.name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td>Direct cost</td>
+                {columns.map((column) => (
+                  <td key={column.id}>{formatMoney(column.totals.direct)}</td>
+                ))}
+              </tr>
+              <tr>
+                <td>Sell</td>
+                {columns.map((column) => (
+                  <td key={column.id}>{formatMoney(column.totals.sell)}</td>
+                ))}
+              </tr>
+              <tr>
+                <td>Margin</td>
+                {columns.map((column) => (
+                  <td key={column.id}>{formatMoney(column.margin)}</td>
+                ))}
+              </tr>
+              <tr>
+                <td>Man-hours</td>
+                {columns.map((column) => (
+                  <td key={column.id}>{column.totals.totalMh.toFixed(2)}</td>
+                ))}
+              </tr>
+              {categoryNames.map((name) => (
+                <tr key={name}>
+                  <td>{name} (sell)</td>
+                  {columns.map((column) => (
+                    <td key={column.id}>
+                      {formatMoney(column.categories.find((category) => category.category === name)?.sell ?? 0)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              <tr className="pricing-summary-row">
+                <td>Sell vs base</td>
+                {columns.map((column) => (
+                  <td key={column.id}>
+                    {formatDelta(column.sellDelta)} ({column.sellDeltaPercent.toFixed(2)}%)
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </>
+  );
+}
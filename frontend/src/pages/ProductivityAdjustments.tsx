@@ -0,0 +1,238 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import type { ProductivityAdjustment, ProductivityAdjustmentCategory } from "../types";
+import { getComputedPricing, getProductivityAdjustments, saveProductivityAdjustments } from "../services/api";
+import type { ComputedMhAdjustment } from "../services/api";
+
+type ProductivityAdjustmentsProps = {
+  projectId: string;
+  /** Block codes of the productivity rates the project is priced with, offered as scope suggestions. */
+  blockCodes: string[];
+  onSaved?: (adjustments: ProductivityAdjustment[]) => void;
+};
+
+/** Scopes are edited as comma-separated code lists. */
+type AdjustmentDraft = Omit<ProductivityAdjustment, "tradeCodes" | "blockCodes"> & {
+  tradeCodes: string;
+  blockCodes: string;
+};
+
+const CATEGORIES: Array<{ value: ProductivityAdjustmentCategory; label: string; example: string }> = [
+  { value: "height", label: "Height", example: "Work above 6 m" },
+  { value: "congestion", label: "Congestion", example: "City-centre site" },
+  { value: "working_hours", label: "Working hours", example: "Night work" },
+  { value: "climate", label: "Climate", example: "Summer heat" },
+  { value: "learning_curve", label: "Learning curve", example: "Repeated floors" },
+  { value: "other", label: "Other", example: "Remote site" },
+];
+
+const toDraft = (adjustment: ProductivityAdjustment): AdjustmentDraft => ({
+  ...adjustment,
+  tradeCodes: adjustment.tradeCodes.join(", "),
+  blockCodes: adjustment.blockCodes.join(", "),
+});
+
+const toCodes = (value: string): string[] =>
+  value
+    .split(",")
+    .map((code) => code.trim())
+    .filter(Boolean);
+
+const fromDraft = (draft: AdjustmentDraft): ProductivityAdjustment => ({
+  ...draft,
+  name: draft.name.trim(),
+  percent: draft.percent.trim(),
+  tradeCodes: toCodes(draft.tradeCodes),
+  blockCodes: toCodes(draft.blockCodes),
+});
+
+const formatMh = (value: number): string =>
+  `${value > 0 ? "+" : ""}${value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * The project's productivity adjustment profile: named factors on the library man-hours, each scoped to trades
+ * and/or block codes, and the man-hours each one adds to the saved pricing.
+ */
+export default function ProductivityAdjustments({ projectId, blockCodes, onSaved }: ProductivityAdjustmentsProps) {
+  const [drafts, setDrafts] = useState<AdjustmentDraft[]>([]);
+  const [addedMh, setAddedMh] = useState<ComputedMhAdjustment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [error, setError] = useState("");
+
+  const refreshAddedMh = useCallback(async () => {
+    const computed = await getComputedPricing(projectId);
+    setAddedMh(computed.mhAdjustments ?? []);
+  }, [projectId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError("");
+    Promise.all([getProductivityAdjustments(projectId), getComputedPricing(projectId)])
+      .then(([stored, computed]) => {
+        if (cancelled) return;
+        setDrafts(stored.map(toDraft));
+        setAddedMh(computed.mhAdjustments ?? []);
+        setDirty(false);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError((err as Error).message || "Failed to load the adjustment factors.");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const addedMhById = useMemo(() => new Map(addedMh.map((entry) => [entry.adjustmentId, entry.totalMh])), [addedMh]);
+
+  const updateDraft = useCallback((id: string, update: Partial<AdjustmentDraft>) => {
+    setDrafts((prev) => prev.map((draft) => (draft.id === id ? { ...draft, ...update } : draft)));
+    setDirty(true);
+  }, []);
+
+  const addDraft = useCallback(() => {
+    setDrafts((prev) => [
+      ...prev,
+      { id: uuidv4(), name: "", category: "congestion", percent: "", tradeCodes: "", blockCodes: "" },
+    ]);
+    setDirty(true);
+  }, []);
+
+  const removeDraft = useCallback((id: string) => {
+    setDrafts((prev) => prev.filter((draft) => draft.id !== id));
+    setDirty(true);
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    setError("");
+    setSaving(true);
+    try {
+      const saved = await saveProductivityAdjustments(projectId, drafts.map(fromDraft));
+      setDrafts(saved.map(toDraft));
+      setDirty(false);
+      onSaved?.(saved);
+      await refreshAddedMh();
+    } catch (err: unknown) {
+      setError((err as Error).message || "Failed to save the adjustment factors.");
+    } finally {
+      setSaving(false);
+    }
+  }, [drafts, onSaved, projectId, refreshAddedMh]);
+
+  if (loading) {
+    return <p className="eyebrow">Loading adjustment factors...</p>;
+  }
+
+  return (
+    <>
+      <div className="estimation-report__header">
+        <span>
+          Factors add to the library man-hours of the manpower rows in scope; leave a scope empty to cover every trade
+          or block.
+        </span>
+        <div style={{ display: "flex", gap: "0.5rem" }}>
+          <button type="button" className="btn-secondary btn-compact" onClick={addDraft}>
+            Add Factor
+          </button>
+          <button
+            type="button"
+            className="btn-secondary btn-compact"
+            onClick={() => void handleSave()}
+            disabled={saving || !dirty}
+          >
+            {saving ? "Saving..." : "Save Factors"}
+          </button>
+        </div>
+      </div>
+      {error && <p className="feedback" style={{ marginTop: 0 }}>{error}</p>}
+      <datalist id="productivity-adjustment-blocks">
+        {blockCodes.map((code) => (
+          <option key={code} value={code} />
+        ))}
+      </datalist>
+      {drafts.length === 0 && <p className="eyebrow">No factors: the project is priced at the library man-hours.</p>}
+      {drafts.map((draft) => {
+        const category = CATEGORIES.find((entry) => entry.value === draft.category) ?? CATEGORIES[0];
+        const added = addedMhById.get(draft.id);
+        return (
+          <div key={draft.id} className="pricing-scenario">
+            <div className="pricing-scenario__row">
+              <label className="electrical-input">
+                <span className="electrical-input__label">Category</span>
+                <select
+                  className="electrical-input__control"
+                  value={draft.category}
+                  onChange={(event) =>
+                    updateDraft(draft.id, { category: event.target.value as ProductivityAdjustmentCategory })
+                  }
+                >
+                  {CATEGORIES.map((entry) => (
+                    <option key={entry.value} value={entry.value}>
+                      {entry.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="electrical-input" style={{ flex: 2 }}>
+                <span className="electrical-input__label">Name</span>
+                <input
+                  className="electrical-input__control"
+                  type="text"
+                  placeholder={category.example}
+                  value={draft.name}
+                  onChange={(event) => updateDraft(draft.id, { name: event.target.value })}
+                />
+              </label>
+              <label className="electrical-input">
+                <span className="electrical-input__label">Man-hours %</span>
+                <input
+                  className="electrical-input__control"
+                  type="text"
+                  placeholder="e.g. 15 or -5"
+                  value={draft.percent}
+                  onChange={(event) => updateDraft(draft.id, { percent: event.target.value })}
+                />
+              </label>
+              <label className="electrical-input" style={{ flex: 2 }}>
+                <span className="electrical-input__label">Trade codes</span>
+                <input
+                  className="electrical-input__control"
+                  type="text"
+                  placeholder="All trades"
+                  value={draft.tradeCodes}
+                  onChange={(event) => updateDraft(draft.id, { tradeCodes: event.target.value })}
+                />
+              </label>
+              <label className="electrical-input" style={{ flex: 2 }}>
+                <span className="electrical-input__label">Block codes</span>
+                <input
+                  className="electrical-input__control"
+                  type="text"
+                  list="productivity-adjustment-blocks"
+                  placeholder="All blocks"
+                  value={draft.blockCodes}
+                  onChange={(event) => updateDraft(draft.id, { blockCodes: event.target.value })}
+                />
+              </label>
+              <span className="status" title="Man-hours the factor adds to the saved pricing">
+                {added !== undefined ? `${formatMh(added)} MH` : "—"}
+              </span>
+              <button
+                type="button"
+                className="btn-secondary btn-compact btn-muted"
+                onClick={() => removeDraft(draft.id)}
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,461 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type {
+  BlockChangeLogEntry,
+  LibraryBlockChange,
+  LibraryChangeAction,
+  LibraryProposal,
+  ProductivityLibrary as Library,
+} from "../services/api";
+import {
+  approveLibraryProposal,
+  getLibraryBlockLog,
+  getMyLibraryChanges,
+  getProductivityLibrary,
+  listLibraryProposals,
+  proposeLibraryChanges,
+  pullLibraryVersion,
+  rejectLibraryProposal,
+} from "../services/api";
+
+const ACTION_LABELS: Record<LibraryChangeAction, string> = {
+  added: "Added",
+  updated: "Updated",
+  removed: "Removed",
+};
+
+const STATUS_LABELS: Record<LibraryProposal["status"], string> = {
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+const formatDate = (value: string | null): string => (value ? new Date(value).toLocaleString() : "—");
+
+const describeChange = (change: Pick<LibraryBlockChange, "block">): string =>
+  change.block ? `${change.block.description || "—"} (${change.block.dailyProductivity || "0"} ${change.block.unit}/day)` : "—";
+
+/**
+ * The company productivity library: published versions, changes proposed from estimators' own rates, the
+ * admin approval queue and the change log of each block.
+ */
+export default function ProductivityLibrary() {
+  const [library, setLibrary] = useState<Library | null>(null);
+  const [proposals, setProposals] = useState<LibraryProposal[]>([]);
+  const [myChanges, setMyChanges] = useState<{ baseVersion: number | null; factor: string | null; changes: LibraryBlockChange[] }>({
+    baseVersion: null,
+    factor: null,
+    changes: [],
+  });
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+  const [note, setNote] = useState("");
+  const [includeFactor, setIncludeFactor] = useState(false);
+  const [excludedCodes, setExcludedCodes] = useState<string[]>([]);
+  const [reviewComments, setReviewComments] = useState<Record<string, string>>({});
+  const [openProposalId, setOpenProposalId] = useState<string | null>(null);
+  const [logCode, setLogCode] = useState("");
+  const [logEntries, setLogEntries] = useState<BlockChangeLogEntry[] | null>(null);
+  const [search, setSearch] = useState("");
+
+  const refresh = useCallback(async () => {
+    const [nextLibrary, nextProposals, nextChanges] = await Promise.all([
+      getProductivityLibrary(),
+      listLibraryProposals(),
+      getMyLibraryChanges(),
+    ]);
+    setLibrary(nextLibrary);
+    setProposals(nextProposals);
+    setMyChanges(nextChanges);
+    setExcludedCodes([]);
+  }, []);
+
+  useEffect(() => {
+    setLoading(true);
+    refresh()
+      .catch((err: unknown) => setError((err as Error).message || "Failed to load the library."))
+      .finally(() => setLoading(false));
+  }, [refresh]);
+
+  const latest = library?.latest ?? null;
+  const visibleBlocks = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const blocks = latest?.blocks ?? [];
+    if (!query) return blocks;
+    return blocks.filter((block) => `${block.code} ${block.description}`.toLowerCase().includes(query));
+  }, [latest, search]);
+  const proposedChanges = myChanges.changes.filter((change) => !excludedCodes.includes(change.code));
+
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true);
+    setError("");
+    setMessage("");
+    try {
+      setMessage(await action());
+    } catch (err: unknown) {
+      setError((err as Error).message || "Request failed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePull = () =>
+    run(async () => {
+      if (!latest) return "";
+      const confirmed = window.confirm(
+        `Replace your own productivity rates with library v${latest.version}? Unproposed changes will be lost.`
+      );
+      if (!confirmed) return "";
+      await pullLibraryVersion(latest.version);
+      await refresh();
+      return `Your rates now match library v${latest.version}.`;
+    });
+
+  const handlePropose = () =>
+    run(async () => {
+      const proposal = await proposeLibraryChanges({
+        note,
+        codes: proposedChanges.map((change) => change.code),
+        includeFactor,
+      });
+      setNote("");
+      setIncludeFactor(false);
+      await refresh();
+      return `Proposed ${proposal.changes.length} change${proposal.changes.length === 1 ? "" : "s"} for approval.`;
+    });
+
+  const handleReview = (proposal: LibraryProposal, decision: "approve" | "reject") =>
+    run(async () => {
+      const comment = (reviewComments[proposal.id] ?? "").trim();
+      if (decision === "reject") {
+        await rejectLibraryProposal(proposal.id, comment);
+        await refresh();
+        return "Proposal rejected.";
+      }
+      const result = await approveLibraryProposal(proposal.id, comment);
+      await refresh();
+      return `Published library v${result.version.version}.`;
+    });
+
+  const showLog = (code: string) => {
+    setLogCode(code);
+    setLogEntries(null);
+    getLibraryBlockLog(code)
+      .then((result) => setLogEntries(result.entries))
+      .catch((err: unknown) => setError((err as Error).message || "Failed to load the change log."));
+  };
+
+  const renderChanges = (changes: LibraryBlockChange[], selectable = false) => (
+    <div className="table-wrapper" style={{ margin: "0.5rem 0 0" }}>
+      <table className="matches-table">
+        <thead>
+          <tr>
+            {selectable && <th />}
+            <th>Code</th>
+            <th>Change</th>
+            <th>Block</th>
+          </tr>
+        </thead>
+        <tbody>
+          {changes.map((change) => (
+            <tr key={`${change.code}-${change.action}`}>
+              {selectable && (
+                <td>
+                  <input
+                    type="checkbox"
+                    checked={!excludedCodes.includes(change.code)}
+                    onChange={(event) =>
+                      setExcludedCodes((prev) =>
+                        event.target.checked ? prev.filter((code) => code !== change.code) : [...prev, change.code]
+                      )
+                    }
+                  />
+                </td>
+              )}
+              <td>{change.code}</td>
+              <td>{ACTION_LABELS[change.action]}</td>
+              <td>{describeChange(change)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  return (
+    <section className="panel">
+      <div className="panel__header">
+        <h2 className="section-title section-title--compact">Company Productivity Library</h2>
+        <p className="eyebrow" style={{ opacity: 0.7, marginTop: "0.35rem" }}>
+          {latest
+            ? `v${latest.version} published ${formatDate(latest.publishedAt)} by ${latest.publishedByName || "—"} • ${
+                latest.blocks.length
+              } blocks`
+            : "Nothing published yet. Propose your own rates to start the library."}
+          {library?.isAdmin ? " • You can approve changes." : ""}
+        </p>
+      </div>
+      <div className="panel__body">
+        {loading && <p className="loading-text">Loading library...</p>}
+        {error && <p className="feedback">{error}</p>}
+        {message && <p className="status">{message}</p>}
+
+        <div className="estimation-report">
+          <div className="estimation-report__header">
+            <span>
+              <strong>Your rates</strong> against {myChanges.baseVersion ? `v${myChanges.baseVersion}` : "an empty library"}:{" "}
+              {myChanges.changes.length === 0 && myChanges.factor === null
+                ? "no differences"
+                : `${myChanges.changes.length} block change${myChanges.changes.length === 1 ? "" : "s"}`}
+              {myChanges.factor !== null && ` • hourly rate ${myChanges.factor}`}
+            </span>
+            <button type="button" className="btn-secondary btn-compact" onClick={() => void handlePull()} disabled={busy || !latest}>
+              Load Latest into My Rates
+            </button>
+          </div>
+          {myChanges.changes.length > 0 && renderChanges(myChanges.changes, true)}
+          <div className="pricing-scenario__row" style={{ marginTop: "0.75rem" }}>
+            <label className="electrical-input" style={{ flex: 2 }}>
+              <span className="electrical-input__label">Reason for the change</span>
+              <input
+                className="electrical-input__control"
+                type="text"
+                value={note}
+                onChange={(event) => setNote(event.target.value)}
+              />
+            </label>
+            {myChanges.factor !== null && (
+              <label className="electrical-input" style={{ flexDirection: "row", alignItems: "center", gap: "0.35rem" }}>
+                <input type="checkbox" checked={includeFactor} onChange={(event) => setIncludeFactor(event.target.checked)} />
+                <span className="electrical-input__label">Include hourly rate {myChanges.factor}</span>
+              </label>
+            )}
+            <button
+              type="button"
+              className="btn-secondary"
+              onClick={() => void handlePropose()}
+              disabled={busy || !note.trim() || (proposedChanges.length === 0 && !includeFactor)}
+            >
+              Propose Changes
+            </button>
+          </div>
+        </div>
+
+        <div className="estimation-report">
+          <p className="eyebrow">{library?.isAdmin ? "Proposals" : "Your proposals"}</p>
+          {proposals.length === 0 ? (
+            <p className="eyebrow" style={{ opacity: 0.7 }}>No proposals yet.</p>
+          ) : (
+            <div className="table-wrapper" style={{ margin: 0 }}>
+              <table className="matches-table">
+                <thead>
+                  <tr>
+                    <th>Submitted</th>
+                    <th>By</th>
+                    <th>Note</th>
+                    <th>Changes</th>
+                    <th>Status</th>
+                    <th>Review</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {proposals.map((proposal) => (
+                    <tr key={proposal.id}>
+                      <td>{formatDate(proposal.createdAt)}</td>
+                      <td>{proposal.userName || "—"}</td>
+                      <td>{proposal.note}</td>
+                      <td>
+                        <button
+                          type="button"
+                          className="btn-secondary btn-compact btn-muted"
+                          onClick={() => setOpenProposalId((prev) => (prev === proposal.id ? null : proposal.id))}
+                        >
+                          {proposal.changes.length} block{proposal.changes.length === 1 ? "" : "s"}
+                          {proposal.factor !== null ? " + rate" : ""}
+                        </button>
+                      </td>
+                      <td>
+                        {STATUS_LABELS[proposal.status]}
+                        {proposal.publishedVersion ? ` (v${proposal.publishedVersion})` : ""}
+                      </td>
+                      <td>
+                        {proposal.status === "pending"
+                          ? `against ${proposal.baseVersion ? `v${proposal.baseVersion}` : "empty library"}`
+                          : `${proposal.reviewedByName || "—"}${proposal.reviewComment ? `: ${proposal.reviewComment}` : ""}`}
+                      </td>
+                      <td style={{ whiteSpace: "nowrap" }}>
+                        {library?.isAdmin && proposal.status === "pending" && (
+                          <>
+                            <input
+                              className="electrical-input__control"
+                              type="text"
+                              placeholder="Comment (required to reject)"
+                              value={reviewComments[proposal.id] ?? ""}
+                              onChange={(event) =>
+                                setReviewComments((prev) => ({ ...prev, [proposal.id]: event.target.value }))
+                              }
+                              style={{ maxWidth: "14rem" }}
+                            />
+                            <button
+                              type="button"
+                              className="btn-secondary btn-compact"
+                              onClick={() => void handleReview(proposal, "approve")}
+                              disabled={busy}
+                            >
+                              Approve
+                            </button>
+                            <button
+                              type="button"
+                              className="btn-secondary btn-compact btn-muted"
+                              onClick={() => void handleReview(proposal, "reject")}
+                              disabled={busy || !(reviewComments[proposal.id] ?? "").trim()}
+                            >
+                              Reject
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {openProposalId &&
+            (() => {
+              const proposal = proposals.find((entry) => entry.id === openProposalId);
+              return proposal ? renderChanges(proposal.changes) : null;
+            })()}
+        </div>
+
+        {library && library.versions.length > 0 && (
+          <div className="estimation-report">
+            <p className="eyebrow">Versions</p>
+            <div className="table-wrapper" style={{ margin: 0 }}>
+              <table className="matches-table">
+                <thead>
+                  <tr>
+                    <th>Version</th>
+                    <th>Published</th>
+                    <th>Proposed by</th>
+                    <th>Approved by</th>
+                    <th>Note</th>
+                    <th>Changes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {library.versions.map((version) => (
+                    <tr key={version.version}>
+                      <td>v{version.version}</td>
+                      <td>{formatDate(version.publishedAt)}</td>
+                      <td>{version.proposedByName || "—"}</td>
+                      <td>{version.publishedByName || "—"}</td>
+                      <td>{version.note}</td>
+                      <td>{version.changeCount}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {latest && (
+          <div className="estimation-report">
+            <div className="pricing-scenario__row" style={{ marginBottom: "0.5rem" }}>
+              <label className="electrical-input" style={{ flex: 2 }}>
+                <span className="electrical-input__label">Blocks in v{latest.version}</span>
+                <input
+                  className="electrical-input__control"
+                  type="text"
+                  value={search}
+                  placeholder="Code or description..."
+                  onChange={(event) => setSearch(event.target.value)}
+                />
+              </label>
+            </div>
+            <div className="table-wrapper" style={{ margin: 0 }}>
+              <table className="matches-table">
+                <thead>
+                  <tr>
+                    <th>Code</th>
+                    <th>Description</th>
+                    <th>Unit</th>
+                    <th>Daily productivity</th>
+                    <th>Crew</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleBlocks.map((block) => (
+                    <tr key={block.id}>
+                      <td>{block.code}</td>
+                      <td>{block.description}</td>
+                      <td>{block.unit}</td>
+                      <td>{block.dailyProductivity}</td>
+                      <td>{block.manpowerRows.map((row) => `${row.quantity} ${row.label}`).join(", ") || "—"}</td>
+                      <td>
+                        <button type="button" className="btn-secondary btn-compact btn-muted" onClick={() => showLog(block.code)}>
+                          Change Log
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {logCode && (
+          <div className="estimation-report">
+            <div className="estimation-report__header">
+              <span>
+                Change log of <strong>{logCode}</strong>
+              </span>
+              <button type="button" className="btn-secondary btn-compact btn-muted" onClick={() => setLogCode("")}>
+                Close
+              </button>
+            </div>
+            {logEntries === null ? (
+              <p className="eyebrow">Loading...</p>
+            ) : logEntries.length === 0 ? (
+              <p className="eyebrow" style={{ opacity: 0.7 }}>No published changes.</p>
+            ) : (
+              <div className="table-wrapper" style={{ margin: 0 }}>
+                <table className="matches-table">
+                  <thead>
+                    <tr>
+                      <th>Version</th>
+                      <th>Change</th>
+                      <th>Published</th>
+                      <th>Proposed by</th>
+                      <th>Approved by</th>
+                      <th>Note</th>
+                      <th>Block</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {logEntries.map((entry) => (
+                      <tr key={entry.version}>
+                        <td>v{entry.version}</td>
+                        <td>{ACTION_LABELS[entry.action]}</td>
+                        <td>{formatDate(entry.publishedAt)}</td>
+                        <td>{entry.proposedByName || "—"}</td>
+                        <td>{entry.publishedByName || "—"}</td>
+                        <td>{entry.note}</td>
+                        <td>{describeChange(entry)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -1,7 +1,16 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { v4 as uuidv4 } from "uuid";
 import type { ProductivityRatesBlock, ProductivityRatesPayload, ProductivityRatesRow } from "../types";
-import { getProductivityRates, importProductivityRates, saveProductivityRates } from "../services/api";
+import type { Equipment, MaterialPrice, TradeRate } from "../services/api";
+import {
+  downloadProductivityRates,
+  getProductivityRates,
+  importProductivityRates,
+  listEquipment,
+  listMaterialPrices,
+  listTradeRates,
+  saveProductivityRates,
+} from "../services/api";
 
 type ProductivityRatesProps = {
   projectName?: string;
@@ -88,6 +97,7 @@ const normalizeBlocks = (inputBlocks: ProductivityRatesBlock[]): ProductivityRat
     const applyEquipmentDefaults = (row: ProductivityRatesRow): ProductivityRatesRow => ({
       ...row,
       hourlyRate: row.hourlyRate ?? "",
+      equipmentCode: row.equipmentCode ?? "",
       hoursPerDay: row.hoursPerDay ?? legacyHours,
       dailyProductivity: row.dailyProductivity ?? legacyProductivity,
     });
@@ -99,6 +109,7 @@ const normalizeBlocks = (inputBlocks: ProductivityRatesBlock[]): ProductivityRat
       manpowerRows: block.manpowerRows.map((row) => ({
         ...row,
         hourlyRate: row.hourlyRate ?? "",
+        tradeCode: row.tradeCode ?? "",
       })),
       equipmentRows: block.equipmentRows.map(applyEquipmentDefaults),
     };
@@ -118,6 +129,7 @@ export default function ProductivityRates({ projectName }: ProductivityRatesProp
   const [importFile, setImportFile] = useState<File | null>(null);
   const [importing, setImporting] = useState(false);
   const [importError, setImportError] = useState("");
+  const [exporting, setExporting] = useState(false);
   const [rowOverrides, setRowOverrides] = useState<Record<string, { hoursPerDay?: boolean; dailyProductivity?: boolean }>>(
     {}
   );
@@ -174,6 +186,55 @@ export default function ProductivityRates({ projectName }: ProductivityRatesProp
     setSaveMessage("");
   }, []);
 
+  const [currentMaterials, setCurrentMaterials] = useState<MaterialPrice[]>([]);
+  useEffect(() => {
+    // Only used for the code picker and price hint; the block still saves without the catalogue.
+    listMaterialPrices()
+      .then((prices) => setCurrentMaterials(prices.filter((price) => price.isCurrent)))
+      .catch(() => setCurrentMaterials([]));
+  }, []);
+  const currentMaterialByCode = useMemo(
+    () => new Map(currentMaterials.map((price) => [price.code.trim().toLowerCase(), price])),
+    [currentMaterials]
+  );
+
+  const [trades, setTrades] = useState<TradeRate[]>([]);
+  useEffect(() => {
+    // Trade codes for the manpower picker, from every location; the same code names the same trade everywhere.
+    listTradeRates()
+      .then((tables) => {
+        const byCode = new Map<string, TradeRate>();
+        tables.forEach((table) =>
+          table.trades.forEach((trade) => {
+            if (!byCode.has(trade.code.toLowerCase())) byCode.set(trade.code.toLowerCase(), trade);
+          })
+        );
+        setTrades(Array.from(byCode.values()));
+      })
+      .catch(() => setTrades([]));
+  }, []);
+
+  const [equipment, setEquipment] = useState<Equipment[]>([]);
+  useEffect(() => {
+    listEquipment()
+      .then(setEquipment)
+      .catch(() => setEquipment([]));
+  }, []);
+  const equipmentCostByCode = useMemo(
+    () => new Map(equipment.map((entry) => [entry.code.trim().toLowerCase(), entry.hourlyCost.total])),
+    [equipment]
+  );
+  /** A row linked to the catalogue is priced at the catalogue's hourly cost; otherwise at the rate typed in the block. */
+  const equipmentHourlyRate = useCallback(
+    (row: ProductivityRatesRow): { value: number; linked: boolean } => {
+      const catalogueCost = equipmentCostByCode.get((row.equipmentCode ?? "").trim().toLowerCase());
+      return catalogueCost !== undefined
+        ? { value: catalogueCost, linked: true }
+        : { value: parseNumber(row.hourlyRate ?? ""), linked: false };
+    },
+    [equipmentCostByCode]
+  );
+
   const updateBlock = useCallback((blockId: string, updater: (block: ProductivityRatesBlock) => ProductivityRatesBlock) => {
     setBlocks((current) => current.map((block) => (block.id === blockId ? updater(block) : block)));
   }, []);
@@ -197,7 +258,7 @@ export default function ProductivityRates({ projectName }: ProductivityRatesProp
       blockId: string,
       section: "manpowerRows" | "equipmentRows",
       rowId: string,
-      field: "label" | "quantity" | "hourlyRate" | "hoursPerDay" | "dailyProductivity",
+      field: "label" | "quantity" | "hourlyRate" | "hoursPerDay" | "dailyProductivity" | "tradeCode" | "equipmentCode",
       value: string
     ) => {
       let isPrimaryRow = false;
@@ -311,14 +372,14 @@ export default function ProductivityRates({ projectName }: ProductivityRatesProp
           id: row.id,
           label: row.label,
           quantity: row.quantity,
+          tradeCode: row.tradeCode ?? "",
         })),
         equipmentRows: block.equipmentRows.map((row) => {
           const rowQty = parseNumber(row.quantity);
           const rowHours = parseNumber(row.hoursPerDay ?? "");
           const rowProductivity = parseNumber(row.dailyProductivity ?? "");
           const rowMh = rowProductivity ? (rowQty * rowHours) / rowProductivity : 0;
-          const hourlyRateValue = parseNumber(row.hourlyRate ?? "");
-          const rowRate = rowMh * hourlyRateValue;
+          const rowRate = rowMh * equipmentHourlyRate(row).value;
           return {
             ...row,
             mh: serializeNumber(rowMh),
@@ -339,7 +400,7 @@ export default function ProductivityRates({ projectName }: ProductivityRatesProp
         setErrorMessage((error as Error).message || "Failed to save productivity rates.");
       })
       .finally(() => setSaving(false));
-  }, [factor, blocks]);
+  }, [factor, blocks, equipmentHourlyRate]);
 
   const closeImportModal = useCallback(() => {
     setImportModalOpen(false);
@@ -349,7 +410,7 @@ export default function ProductivityRates({ projectName }: ProductivityRatesProp
 
   const handleImport = useCallback(() => {
     if (!importFile) {
-      setImportError("Please choose a JSON file to upload.");
+      setImportError("Please choose a JSON or Excel file to upload.");
       return;
     }
     setImporting(true);
@@ -365,6 +426,16 @@ export default function ProductivityRates({ projectName }: ProductivityRatesProp
       .finally(() => setImporting(false));
   }, [importFile, refreshProductivityRates, closeImportModal]);
 
+  const handleExport = useCallback(() => {
+    setExporting(true);
+    setErrorMessage("");
+    downloadProductivityRates()
+      .catch((error: unknown) => {
+        setErrorMessage((error as Error).message || "Export failed.");
+      })
+      .finally(() => setExporting(false));
+  }, []);
+
   const serialized = useMemo(() => JSON.stringify({ factor, blocks }), [factor, blocks]);
 
   useEffect(() => {
@@ -428,6 +499,15 @@ export default function ProductivityRates({ projectName }: ProductivityRatesProp
           <button type="button" className="btn-secondary" onClick={() => setImportModalOpen(true)} disabled={saving || importing}>
             Load Data
           </button>
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={handleExport}
+            disabled={exporting || isDirty}
+            title={isDirty ? "Save first; the export is of the saved library" : undefined}
+          >
+            {exporting ? "Exporting..." : "Export Excel"}
+          </button>
           <button type="button" className="btn-secondary" onClick={handleSave} disabled={saving}>
             {saving ? "Saving..." : "Save"}
           </button>
@@ -436,6 +516,27 @@ export default function ProductivityRates({ projectName }: ProductivityRatesProp
       </div>
       <div className="panel__body">
         {errorMessage && <p className="feedback">{errorMessage}</p>}
+        <datalist id="productivity-material-codes">
+          {currentMaterials.map((price) => (
+            <option key={price.id} value={price.code}>
+              {price.description}
+            </option>
+          ))}
+        </datalist>
+        <datalist id="productivity-trade-codes">
+          {trades.map((trade) => (
+            <option key={trade.code} value={trade.code}>
+              {trade.name}
+            </option>
+          ))}
+        </datalist>
+        <datalist id="productivity-equipment-codes">
+          {equipment.map((entry) => (
+            <option key={entry.id} value={entry.code}>
+              {entry.description}
+            </option>
+          ))}
+        </datalist>
         <div className="productivity-blocks">
           {blocks.map((block, index) => {
             const factorValue = parseNumber(factor);
@@ -444,6 +545,41 @@ export default function ProductivityRates({ projectName }: ProductivityRatesProp
             return (
               <div key={block.id} className="productivity-block">
                 <div className="productivity-block__header">
+                  <label className="productivity-block__material">
+                    Material
+                    <input
+                      type="text"
+                      list="productivity-material-codes"
+                      value={block.materialCode ?? ""}
+                      onChange={(event) =>
+                        updateBlock(block.id, (current) => ({ ...current, materialCode: event.target.value }))
+                      }
+                      placeholder="Catalogue code"
+                    />
+                  </label>
+                  <label className="productivity-block__material">
+                    Qty / {block.unit || "unit"}
+                    <input
+                      type="number"
+                      step="0.0001"
+                      value={block.materialQty ?? ""}
+                      onChange={(event) =>
+                        updateBlock(block.id, (current) => ({ ...current, materialQty: event.target.value }))
+                      }
+                      placeholder="1"
+                      disabled={!block.materialCode?.trim()}
+                    />
+                  </label>
+                  {block.materialCode?.trim() && (
+                    <span className="productivity-block__material-price">
+                      {(() => {
+                        const material = currentMaterialByCode.get(block.materialCode.trim().toLowerCase());
+                        return material
+                          ? `${material.price.toFixed(2)} ${material.currency} / ${material.unit || "unit"}`
+                          : "No current price";
+                      })()}
+                    </span>
+                  )}
                   <div className="productivity-block__meta-actions">
                     <button
                       type="button"
@@ -526,6 +662,17 @@ export default function ProductivityRates({ projectName }: ProductivityRatesProp
                                   }
                                   placeholder="e.g. Flagman"
                                 />
+                                <input
+                                  type="text"
+                                  list="productivity-trade-codes"
+                                  value={row.tradeCode ?? ""}
+                                  onChange={(event) =>
+                                    updateRow(block.id, "manpowerRows", row.id, "tradeCode", event.target.value)
+                                  }
+                                  placeholder="Trade code"
+                                  title="Trade rates code; on projects priced at a location the row is costed at its hourly cost"
+                                  style={{ maxWidth: "7rem" }}
+                                />
                                 <div className="row-action-buttons">
                                   {showShared && (
                                     <button
@@ -617,8 +764,8 @@ export default function ProductivityRates({ projectName }: ProductivityRatesProp
                         const rowHours = parseNumber(row.hoursPerDay ?? "");
                         const rowProductivity = parseNumber(row.dailyProductivity ?? "");
                         const equipmentMh = rowProductivity ? (rowQty * rowHours) / rowProductivity : 0;
-                        const hourlyRateValue = parseNumber(row.hourlyRate ?? "");
-                        const equipmentRate = equipmentMh * hourlyRateValue;
+                        const hourlyRate = equipmentHourlyRate(row);
+                        const equipmentRate = equipmentMh * hourlyRate.value;
                         return (
                           <tr
                             key={row.id}
@@ -634,6 +781,17 @@ export default function ProductivityRates({ projectName }: ProductivityRatesProp
                                   }
                                   placeholder="e.g. Water tanker"
                                 />
+                                <input
+                                  type="text"
+                                  list="productivity-equipment-codes"
+                                  value={row.equipmentCode ?? ""}
+                                  onChange={(event) =>
+                                    updateRow(block.id, "equipmentRows", row.id, "equipmentCode", event.target.value)
+                                  }
+                                  placeholder="Equipment code"
+                                  title="Equipment catalogue code; the row is priced at the catalogue's hourly cost"
+                                  style={{ maxWidth: "7rem" }}
+                                />
                                 <div className="row-action-buttons">
                                   {showShared && (
                                     <button
@@ -700,10 +858,12 @@ export default function ProductivityRates({ projectName }: ProductivityRatesProp
                               <input
                                 type="number"
                                 step="0.01"
-                                value={row.hourlyRate ?? ""}
+                                value={hourlyRate.linked ? hourlyRate.value.toFixed(2) : row.hourlyRate ?? ""}
                                 onChange={(event) =>
                                   updateRow(block.id, "equipmentRows", row.id, "hourlyRate", event.target.value)
                                 }
+                                disabled={hourlyRate.linked}
+                                title={hourlyRate.linked ? "From the equipment catalogue" : undefined}
                               />
                             </td>
                           </tr>
@@ -764,10 +924,10 @@ export default function ProductivityRates({ projectName }: ProductivityRatesProp
             </div>
             <div className="modal__body">
               <label className="productivity-field">
-                Upload JSON File
+                Upload JSON or Excel File
                 <input
                   type="file"
-                  accept=".json,application/json"
+                  accept=".json,application/json,.xlsx,.xls"
                   onChange={(event) => {
                     const file = event.target.files?.[0] ?? null;
                     setImportFile(file);
@@ -777,7 +937,16 @@ export default function ProductivityRates({ projectName }: ProductivityRatesProp
                 />
               </label>
               {importFile && <p className="status">Selected: {importFile.name}</p>}
-              {importError && <p className="feedback">{importError}</p>}
+              {importFile && /\.xlsx?$/i.test(importFile.name) && (
+                <p className="status">
+                  Use the Export Excel layout: Blocks, Manpower and Equipment sheets linked by block code.
+                </p>
+              )}
+              {importError && (
+                <p className="feedback" style={{ whiteSpace: "pre-line" }}>
+                  {importError}
+                </p>
+              )}
               {importing && <p className="loading-text">Reading data and updating productivity rates...</p>}
             </div>
             <div className="modal__footer">
@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useState } from "react";
+import { listProjectsToReview } from "../services/api";
+import type { ProjectToReview } from "../services/api";
+import PricingReview from "./PricingReview";
+
+const PROJECT_STATUS_TEXT: Record<string, string> = {
+  in_review: "In review",
+  approved: "Approved",
+  submitted: "Submitted",
+};
+
+/** Other estimators' projects the user was asked to review, each opening the review of its priced items. */
+export default function ReviewQueue() {
+  const [projects, setProjects] = useState<ProjectToReview[]>([]);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setMessage("");
+    try {
+      setProjects(await listProjectsToReview());
+    } catch (error: unknown) {
+      setMessage((error as Error).message || "Failed to load the projects to review.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const selected = projects.find((project) => project.id === projectId) ?? null;
+
+  return (
+    <section className="panel">
+      <div className="panel__header">
+        <h2 className="section-title section-title--compact">Reviews</h2>
+        <p className="eyebrow" style={{ opacity: 0.7, marginTop: "0.35rem" }}>
+          Projects other estimators asked you to review. You can review items someone else priced, and approve items
+          someone else priced and reviewed.
+        </p>
+      </div>
+      <div className="panel__body">
+        {message && <p className="feedback">{message}</p>}
+        {loading ? (
+          <p className="loading-text">Loading projects...</p>
+        ) : projects.length === 0 ? (
+          <p className="eyebrow">No projects are waiting for your review.</p>
+        ) : (
+          <div className="table-wrapper">
+            <table className="matches-table">
+              <thead>
+                <tr>
+                  <th>Project</th>
+                  <th>Estimator</th>
+                  <th>Status</th>
+                  <th>Updated</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {projects.map((project) => (
+                  <tr key={project.id}>
+                    <td>{project.name}</td>
+                    <td>{project.ownerName || "—"}</td>
+                    <td>{PROJECT_STATUS_TEXT[project.status] ?? "Being priced"}</td>
+                    <td>{new Date(project.updatedAt).toLocaleString()}</td>
+                    <td>
+                      <button
+                        type="button"
+                        className="btn-secondary btn-compact"
+                        onClick={() => setProjectId((prev) => (prev === project.id ? null : project.id))}
+                      >
+                        {projectId === project.id ? "Close" : "Open"}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {selected && (
+          <div className="estimation-report" style={{ marginTop: "0.75rem" }}>
+            <p className="eyebrow">{selected.name}</p>
+            <PricingReview key={selected.id} projectId={selected.id} onStatusChange={() => void refresh()} />
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
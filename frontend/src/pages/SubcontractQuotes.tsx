@@ -0,0 +1,533 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  addSubcontractQuote,
+  awardSubcontractQuote,
+  compareSubcontractQuotes,
+  createSubcontractPackage,
+  deleteSubcontractPackage,
+  deleteSubcontractQuote,
+  downloadSubcontractEnquiry,
+  getComputedPricing,
+  importSubcontractQuote,
+  listSubcontractPackages,
+  updateSubcontractPackage,
+  updateSubcontractQuote,
+} from "../services/api";
+import type {
+  ComputedPricingItem,
+  SubcontractComparison,
+  SubcontractPackage,
+  SubcontractPackagePayload,
+  SubcontractQuote,
+} from "../services/api";
+
+type SubcontractQuotesProps = {
+  projectId: string;
+};
+
+const formatMoney = (value: number): string =>
+  (Number.isFinite(value) ? value : 0).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const toDateInput = (value: string | null): string => (value ? value.slice(0, 10) : "");
+
+const emptyPackage = (): SubcontractPackagePayload => ({ name: "", description: "", itemIds: [] });
+
+/** Edited rate text, keyed `${quoteId}:${itemId}`. */
+type RateEdits = Record<string, string>;
+
+/** Subcontract packages of a project: quotes per package, line-by-line comparison and award into pricing. */
+export default function SubcontractQuotes({ projectId }: SubcontractQuotesProps) {
+  const [packages, setPackages] = useState<SubcontractPackage[]>([]);
+  const [items, setItems] = useState<ComputedPricingItem[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<SubcontractPackagePayload>(emptyPackage);
+  const [comparison, setComparison] = useState<SubcontractComparison | null>(null);
+  const [rateEdits, setRateEdits] = useState<RateEdits>({});
+  const [exclusionEdits, setExclusionEdits] = useState<Record<string, string>>({});
+  const [newQuote, setNewQuote] = useState({ subcontractor: "", reference: "", validUntil: "" });
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+
+  const selected = useMemo(() => packages.find((pkg) => pkg.id === selectedId) ?? null, [packages, selectedId]);
+  const itemsById = useMemo(() => new Map(items.map((item) => [item.itemId, item])), [items]);
+  const categories = useMemo(
+    () => Array.from(new Set(items.map((item) => item.category))).sort((a, b) => a.localeCompare(b)),
+    [items]
+  );
+
+  const selectPackage = useCallback((pkg: SubcontractPackage | null) => {
+    setSelectedId(pkg?.id ?? null);
+    setDraft(pkg ? { name: pkg.name, description: pkg.description, itemIds: pkg.itemIds } : emptyPackage());
+    setRateEdits({});
+    setExclusionEdits({});
+    setComparison(null);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([listSubcontractPackages(projectId), getComputedPricing(projectId)])
+      .then(([stored, computed]) => {
+        if (cancelled) return;
+        setPackages(stored);
+        setItems(computed.items);
+        selectPackage(stored[0] ?? null);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError((err as Error).message || "Failed to load subcontract packages.");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, selectPackage]);
+
+  useEffect(() => {
+    if (!selectedId) return;
+    let cancelled = false;
+    compareSubcontractQuotes(projectId, selectedId)
+      .then((result) => {
+        if (!cancelled) setComparison(result);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError((err as Error).message || "Failed to compare quotes.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, selectedId, packages]);
+
+  const replacePackage = useCallback((saved: SubcontractPackage) => {
+    setPackages((prev) =>
+      prev.some((pkg) => pkg.id === saved.id) ? prev.map((pkg) => (pkg.id === saved.id ? saved : pkg)) : [...prev, saved]
+    );
+  }, []);
+
+  /** Runs a request with the shared busy flag and error banner. */
+  const run = useCallback(async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError("");
+    setMessage("");
+    try {
+      await action();
+    } catch (err: unknown) {
+      setError((err as Error).message || "Request failed.");
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const savePackage = () =>
+    run(async () => {
+      const saved = selectedId
+        ? await updateSubcontractPackage(projectId, selectedId, draft)
+        : await createSubcontractPackage(projectId, draft);
+      replacePackage(saved);
+      setSelectedId(saved.id);
+      setMessage("Package saved.");
+    });
+
+  const removePackage = () =>
+    run(async () => {
+      if (!selected || !window.confirm(`Delete package "${selected.name}" and its quotes?`)) return;
+      await deleteSubcontractPackage(projectId, selected.id);
+      const remaining = packages.filter((pkg) => pkg.id !== selected.id);
+      setPackages(remaining);
+      selectPackage(remaining[0] ?? null);
+    });
+
+  const addQuote = () =>
+    run(async () => {
+      if (!selectedId) return;
+      const details = { subcontractor: newQuote.subcontractor.trim(), reference: newQuote.reference.trim() };
+      if (importFile) {
+        const result = await importSubcontractQuote(projectId, selectedId, importFile, details);
+        replacePackage(result.package);
+        setMessage(
+          `Imported ${result.matchedLines} line${result.matchedLines === 1 ? "" : "s"}` +
+            (result.unmatchedRows ? `; ${result.unmatchedRows} row(s) did not match a package item.` : ".")
+        );
+      } else {
+        replacePackage(
+          await addSubcontractQuote(projectId, selectedId, {
+            ...details,
+            receivedAt: new Date().toISOString(),
+            validUntil: newQuote.validUntil || null,
+            exclusions: [],
+            notes: "",
+            lines: [],
+          })
+        );
+      }
+      setNewQuote({ subcontractor: "", reference: "", validUntil: "" });
+      setImportFile(null);
+    });
+
+  const quoteIsDirty = (quote: SubcontractQuote): boolean =>
+    quote.id in exclusionEdits || Object.keys(rateEdits).some((key) => key.startsWith(`${quote.id}:`));
+
+  const saveQuote = (quote: SubcontractQuote) =>
+    run(async () => {
+      if (!selectedId) return;
+      const lines = draft.itemIds.map((itemId) => {
+        const existing = quote.lines.find((line) => line.itemId === itemId);
+        const edit = rateEdits[`${quote.id}:${itemId}`];
+        const text = edit ?? (existing?.rate != null ? String(existing.rate) : "");
+        return { itemId, rate: text.trim() === "" ? null : Number(text), note: existing?.note ?? "" };
+      });
+      const exclusions =
+        quote.id in exclusionEdits
+          ? exclusionEdits[quote.id].split("\n").map((entry) => entry.trim()).filter(Boolean)
+          : quote.exclusions;
+      replacePackage(await updateSubcontractQuote(projectId, selectedId, quote.id, { ...quote, exclusions, lines }));
+      setRateEdits((prev) => Object.fromEntries(Object.entries(prev).filter(([key]) => !key.startsWith(`${quote.id}:`))));
+      setExclusionEdits((prev) => Object.fromEntries(Object.entries(prev).filter(([key]) => key !== quote.id)));
+    });
+
+  const removeQuote = (quote: SubcontractQuote) =>
+    run(async () => {
+      if (!selectedId || !window.confirm(`Delete the quote from ${quote.subcontractor}?`)) return;
+      replacePackage(await deleteSubcontractQuote(projectId, selectedId, quote.id));
+    });
+
+  const awardQuote = (quote: SubcontractQuote) =>
+    run(async () => {
+      if (!selectedId) return;
+      const result = await awardSubcontractQuote(projectId, selectedId, quote.id);
+      replacePackage(result.package);
+      setMessage(
+        `Awarded to ${quote.subcontractor}: subcontract rates set on ${result.updatedItems} item${
+          result.updatedItems === 1 ? "" : "s"
+        }. Reopen Pricing to see them.`
+      );
+    });
+
+  if (loading) {
+    return <p className="eyebrow">Loading subcontract packages...</p>;
+  }
+
+  const quotes = selected?.quotes ?? [];
+  const summaryById = new Map((comparison?.quotes ? comparison.quotes : []).map((entry) => [entry.quoteId, entry]));
+  const packageDirty =
+    !selected ||
+    draft.name !== selected.name ||
+    draft.description !== selected.description ||
+    draft.itemIds.join() !== selected.itemIds.join();
+
+  return (
+    <>
+      <div className="estimation-report__header">
+        <span>Quotes are compared on normalised totals: lines a subcontractor left out are priced at the highest other rate.</span>
+        <div style={{ display: "flex", gap: "0.5rem" }}>
+          <select
+            className="electrical-input__control"
+            value={selectedId ?? ""}
+            onChange={(event) => selectPackage(packages.find((pkg) => pkg.id === event.target.value) ?? null)}
+          >
+            <option value="">New package...</option>
+            {packages.map((pkg) => (
+              <option key={pkg.id} value={pkg.id}>
+                {pkg.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      {error && <p className="feedback" style={{ marginTop: 0 }}>{error}</p>}
+      {message && <p className="status">{message}</p>}
+
+      <div className="pricing-scenario">
+        <div className="pricing-scenario__row">
+          <label className="electrical-input">
+            <span className="electrical-input__label">Package</span>
+            <input
+              className="electrical-input__control"
+              type="text"
+              value={draft.name}
+              placeholder="e.g. Landscaping"
+              onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))}
+            />
+          </label>
+          <label className="electrical-input" style={{ flex: 2 }}>
+            <span className="electrical-input__label">Description</span>
+            <input
+              className="electrical-input__control"
+              type="text"
+              value={draft.description}
+              onChange={(event) => setDraft((prev) => ({ ...prev, description: event.target.value }))}
+            />
+          </label>
+          <button
+            type="button"
+            className="btn-secondary btn-compact"
+            onClick={() => void savePackage()}
+            disabled={busy || !packageDirty || !draft.name.trim()}
+          >
+            Save Package
+          </button>
+          {selected && (
+            <>
+              <button
+                type="button"
+                className="btn-secondary btn-compact"
+                onClick={() => void run(() => downloadSubcontractEnquiry(projectId, selected.id))}
+                disabled={busy || selected.itemIds.length === 0}
+              >
+                Enquiry Sheet
+              </button>
+              <button
+                type="button"
+                className="btn-secondary btn-compact btn-muted"
+                onClick={() => void removePackage()}
+                disabled={busy}
+              >
+                Delete
+              </button>
+            </>
+          )}
+        </div>
+        <div className="pricing-scenario__row">
+          <label className="electrical-input">
+            <span className="electrical-input__label">Add BOQ item</span>
+            <select
+              className="electrical-input__control"
+              value=""
+              onChange={(event) => {
+                const itemId = event.target.value;
+                if (itemId) setDraft((prev) => ({ ...prev, itemIds: [...prev.itemIds, itemId] }));
+              }}
+            >
+              <option value="">Select item...</option>
+              {items
+                .filter((item) => !draft.itemIds.includes(item.itemId))
+                .map((item) => (
+                  <option key={item.itemId} value={item.itemId}>
+                    {item.itemCode} — {item.description.slice(0, 60)}
+                  </option>
+                ))}
+            </select>
+          </label>
+          <label className="electrical-input">
+            <span className="electrical-input__label">Add category</span>
+            <select
+              className="electrical-input__control"
+              value=""
+              onChange={(event) => {
+                const category = event.target.value;
+                if (!category) return;
+                setDraft((prev) => ({
+                  ...prev,
+                  itemIds: [
+                    ...prev.itemIds,
+                    ...items
+                      .filter((item) => item.category === category && !prev.itemIds.includes(item.itemId))
+                      .map((item) => item.itemId),
+                  ],
+                }));
+              }}
+            >
+              <option value="">Select category...</option>
+              {categories.map((category) => (
+                <option key={category} value={category}>
+                  {category}
+                </option>
+              ))}
+            </select>
+          </label>
+          {draft.itemIds.map((itemId) => (
+            <span key={itemId} style={{ display: "inline-flex", gap: "0.25rem", alignItems: "center" }}>
+              <span title={itemsById.get(itemId)?.description}>{itemsById.get(itemId)?.itemCode || "Removed item"}</span>
+              <button
+                type="button"
+                className="btn-secondary btn-compact btn-muted"
+                onClick={() => setDraft((prev) => ({ ...prev, itemIds: prev.itemIds.filter((id) => id !== itemId) }))}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+        {selected && !packageDirty && (
+          <div className="pricing-scenario__row">
+            <label className="electrical-input">
+              <span className="electrical-input__label">Subcontractor</span>
+              <input
+                className="electrical-input__control"
+                type="text"
+                value={newQuote.subcontractor}
+                onChange={(event) => setNewQuote((prev) => ({ ...prev, subcontractor: event.target.value }))}
+              />
+            </label>
+            <label className="electrical-input">
+              <span className="electrical-input__label">Quote reference</span>
+              <input
+                className="electrical-input__control"
+                type="text"
+                value={newQuote.reference}
+                onChange={(event) => setNewQuote((prev) => ({ ...prev, reference: event.target.value }))}
+              />
+            </label>
+            <label className="electrical-input">
+              <span className="electrical-input__label">Valid until</span>
+              <input
+                className="electrical-input__control"
+                type="date"
+                value={newQuote.validUntil}
+                onChange={(event) => setNewQuote((prev) => ({ ...prev, validUntil: event.target.value }))}
+              />
+            </label>
+            <label className="electrical-input">
+              <span className="electrical-input__label">Priced sheet (optional)</span>
+              <input
+                className="electrical-input__control"
+                type="file"
+                accept=".xlsx,.xls"
+                onChange={(event) => setImportFile(event.target.files?.[0] ?? null)}
+              />
+            </label>
+            <button
+              type="button"
+              className="btn-secondary btn-compact"
+              onClick={() => void addQuote()}
+              disabled={busy || !newQuote.subcontractor.trim()}
+            >
+              {importFile ? "Import Quote" : "Add Quote"}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {selected && comparison && quotes.length > 0 && (
+        <div className="table-wrapper" style={{ margin: "0.75rem 0 0" }}>
+          <table className="matches-table">
+            <thead>
+              <tr>
+                <th>Item</th>
+                <th>Description</th>
+                <th>Unit</th>
+                <th>Qty</th>
+                {quotes.map((quote) => (
+                  <th key={quote.id} title={quote.reference ? `Ref ${quote.reference}` : undefined}>
+                    {quote.subcontractor}
+                    {selected.awardedQuoteId === quote.id ? " ✓" : ""}
+                    {quote.validUntil && <div className="eyebrow">valid to {toDateInput(quote.validUntil)}</div>}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.lines.map((line) => (
+                <tr key={line.itemId}>
+                  <td>{line.itemCode || "—"}</td>
+                  <td>{line.description}</td>
+                  <td>{line.unit || "—"}</td>
+                  <td>{line.isRateOnly ? "Rate only" : line.qty}</td>
+                  {line.quotes.map((entry) => {
+                    const key = `${entry.quoteId}:${line.itemId}`;
+                    return (
+                      <td
+                        key={entry.quoteId}
+                        title={entry.note || undefined}
+                        style={line.lowestQuoteId === entry.quoteId ? { fontWeight: 700 } : undefined}
+                      >
+                        <input
+                          className="electrical-input__control"
+                          type="text"
+                          style={{ width: "90px" }}
+                          placeholder={entry.note ? "excl." : "—"}
+                          value={rateEdits[key] ?? (entry.rate != null ? String(entry.rate) : "")}
+                          onChange={(event) => setRateEdits((prev) => ({ ...prev, [key]: event.target.value }))}
+                        />
+                        {entry.amount != null && <div className="eyebrow">{formatMoney(entry.amount)}</div>}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+              <tr className="pricing-summary-row">
+                <td colSpan={4}>Quoted total</td>
+                {quotes.map((quote) => (
+                  <td key={quote.id}>{formatMoney(summaryById.get(quote.id)?.quotedTotal ?? 0)}</td>
+                ))}
+              </tr>
+              <tr>
+                <td colSpan={4}>Missing lines (plugged)</td>
+                {quotes.map((quote) => {
+                  const summary = summaryById.get(quote.id);
+                  return (
+                    <td key={quote.id}>
+                      {summary?.missingLines ?? 0}
+                      {summary?.plugAmount ? ` (+${formatMoney(summary.plugAmount)})` : ""}
+                    </td>
+                  );
+                })}
+              </tr>
+              <tr className="pricing-summary-row">
+                <td colSpan={4}>Normalised total</td>
+                {quotes.map((quote) => {
+                  const summary = summaryById.get(quote.id);
+                  return (
+                    <td key={quote.id}>
+                      {formatMoney(summary?.normalisedTotal ?? 0)}
+                      {summary?.rank ? ` (#${summary.rank})` : ""}
+                    </td>
+                  );
+                })}
+              </tr>
+              <tr>
+                <td colSpan={4}>Exclusions (one per line)</td>
+                {quotes.map((quote) => (
+                  <td key={quote.id}>
+                    <textarea
+                      className="electrical-input__control"
+                      rows={3}
+                      value={exclusionEdits[quote.id] ?? quote.exclusions.join("\n")}
+                      onChange={(event) => setExclusionEdits((prev) => ({ ...prev, [quote.id]: event.target.value }))}
+                    />
+                  </td>
+                ))}
+              </tr>
+              <tr>
+                <td colSpan={4} />
+                {quotes.map((quote) => (
+                  <td key={quote.id} style={{ whiteSpace: "nowrap" }}>
+                    <button
+                      type="button"
+                      className="btn-secondary btn-compact"
+                      onClick={() => void saveQuote(quote)}
+                      disabled={busy || !quoteIsDirty(quote)}
+                    >
+                      Save
+                    </button>{" "}
+                    <button
+                      type="button"
+                      className="btn-secondary btn-compact"
+                      onClick={() => void awardQuote(quote)}
+                      disabled={busy || quoteIsDirty(quote)}
+                      title="Fill the subcontract rate of the package's items from this quote"
+                    >
+                      Award
+                    </button>{" "}
+                    <button
+                      type="button"
+                      className="btn-secondary btn-compact btn-muted"
+                      onClick={() => void removeQuote(quote)}
+                      disabled={busy}
+                    >
+                      ×
+                    </button>
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,353 @@
+import { Fragment, useCallback, useEffect, useMemo, useState } from "react";
+import type { NationalityCost, TradeRatePayload, TradeRatesTable } from "../services/api";
+import { deleteTradeRates, listTradeRates, saveTradeRates } from "../services/api";
+
+type NationalityDraft = Record<keyof NationalityCost, string>;
+
+type Nationality = "saudi" | "expatriate";
+
+/** Form state of one trade; the numbers are edited as text. */
+type TradeDraft = {
+  key: string;
+  code: string;
+  name: string;
+  basicWage: string;
+  allowances: string;
+  burdenPercent: string;
+  /** Whether the trade has Saudi and expatriate pay. */
+  split: boolean;
+  saudi: NationalityDraft;
+  expatriate: NationalityDraft;
+};
+
+type TradeTextField = Exclude<keyof TradeDraft, "key" | "split" | Nationality>;
+
+const NATIONALITY_FIELDS: Array<{ field: keyof NationalityCost; label: string }> = [
+  { field: "basicWage", label: "Basic wage / hr" },
+  { field: "allowances", label: "Allowances / hr" },
+  { field: "gosiPercent", label: "GOSI %" },
+  { field: "annualFees", label: "Iqama, permits & visa / yr" },
+];
+
+/**
+ * Working hours a year the annual fees are spread over without a project calendar; mirrors HOURS_PER_WORKER_YEAR
+ * in src/services/pricing/tradeRates.ts.
+ */
+const HOURS_PER_WORKER_YEAR = 160 * 12;
+
+let nextDraftKey = 0;
+
+const toNationalityDraft = (cost?: NationalityCost): NationalityDraft => ({
+  basicWage: cost ? String(cost.basicWage) : "",
+  allowances: cost ? String(cost.allowances) : "",
+  gosiPercent: cost ? String(cost.gosiPercent) : "",
+  annualFees: cost ? String(cost.annualFees) : "",
+});
+
+const toTradeDraft = (trade?: TradeRatePayload): TradeDraft => ({
+  key: `trade-${(nextDraftKey += 1)}`,
+  code: trade?.code ?? "",
+  name: trade?.name ?? "",
+  basicWage: trade ? String(trade.basicWage) : "",
+  allowances: trade ? String(trade.allowances) : "",
+  burdenPercent: trade ? String(trade.burdenPercent) : "",
+  split: Boolean(trade?.nationalities),
+  saudi: toNationalityDraft(trade?.nationalities?.saudi),
+  expatriate: toNationalityDraft(trade?.nationalities?.expatriate),
+});
+
+const toNumber = (value: string): number => {
+  const parsed = Number(value);
+  return value.trim() && Number.isFinite(parsed) ? parsed : 0;
+};
+
+const toNationalityCost = (draft: NationalityDraft): NationalityCost => ({
+  basicWage: toNumber(draft.basicWage),
+  allowances: toNumber(draft.allowances),
+  gosiPercent: toNumber(draft.gosiPercent),
+  annualFees: toNumber(draft.annualFees),
+});
+
+/** Mirrors nationalityHourlyCost in src/services/pricing/tradeRates.ts. */
+const nationalityHourlyCostOf = (draft: TradeDraft, nationality: Nationality): number => {
+  const cost = toNationalityCost(draft[nationality]);
+  return (
+    (cost.basicWage + cost.allowances) * (1 + (cost.gosiPercent + toNumber(draft.burdenPercent)) / 100) +
+    cost.annualFees / HOURS_PER_WORKER_YEAR
+  );
+};
+
+/** Mirrors tradeHourlyCost in src/services/pricing/tradeRates.ts; all-expatriate for a split trade. */
+const hourlyCostOf = (draft: TradeDraft): number =>
+  draft.split
+    ? nationalityHourlyCostOf(draft, "expatriate")
+    : (toNumber(draft.basicWage) + toNumber(draft.allowances)) * (1 + toNumber(draft.burdenPercent) / 100);
+
+const toPayload = (draft: TradeDraft): TradeRatePayload => ({
+  code: draft.code.trim(),
+  name: draft.name.trim(),
+  basicWage: toNumber(draft.basicWage),
+  allowances: toNumber(draft.allowances),
+  burdenPercent: toNumber(draft.burdenPercent),
+  nationalities: draft.split
+    ? { saudi: toNationalityCost(draft.saudi), expatriate: toNationalityCost(draft.expatriate) }
+    : null,
+});
+
+/** Hourly cost per trade for each project location; manpower rows in productivity blocks link to them by code. */
+export default function TradeRates() {
+  const [tables, setTables] = useState<TradeRatesTable[]>([]);
+  const [location, setLocation] = useState("");
+  const [newLocation, setNewLocation] = useState("");
+  const [drafts, setDrafts] = useState<TradeDraft[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const selectLocation = useCallback((name: string, source: TradeRatesTable[]) => {
+    setLocation(name);
+    const table = source.find((entry) => entry.location === name);
+    setDrafts(table ? table.trades.map(toTradeDraft) : [toTradeDraft()]);
+  }, []);
+
+  const refresh = useCallback(
+    async (selected?: string) => {
+      setLoading(true);
+      try {
+        const loaded = await listTradeRates();
+        setTables(loaded);
+        const name = selected ?? loaded[0]?.location ?? "";
+        if (name) selectLocation(name, loaded);
+        else setDrafts([]);
+      } catch (error: unknown) {
+        setMessage((error as Error).message || "Failed to load the trade rates.");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [selectLocation]
+  );
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const savedTable = useMemo(() => tables.find((table) => table.location === location) ?? null, [tables, location]);
+
+  const updateDraft = (key: string, change: Partial<Omit<TradeDraft, "key">>) =>
+    setDrafts((prev) => prev.map((draft) => (draft.key === key ? { ...draft, ...change } : draft)));
+
+  const handleAddLocation = () => {
+    const name = newLocation.trim();
+    if (!name) return;
+    const existing = tables.find((table) => table.location.toLowerCase() === name.toLowerCase());
+    if (existing) {
+      selectLocation(existing.location, tables);
+    } else {
+      // Starts from the current location's trades, since most trades are priced everywhere.
+      setLocation(name);
+      setDrafts((prev) => (prev.length ? prev : [toTradeDraft()]));
+    }
+    setNewLocation("");
+    setMessage("");
+  };
+
+  const handleSave = useCallback(async () => {
+    if (!location) return;
+    setSaving(true);
+    setMessage("");
+    try {
+      const saved = await saveTradeRates(location, drafts.filter((draft) => draft.code.trim()).map(toPayload));
+      await refresh(saved.location);
+      setMessage(`Saved the ${saved.location} trade rates.`);
+    } catch (error: unknown) {
+      setMessage((error as Error).message || "Failed to save the trade rates.");
+    } finally {
+      setSaving(false);
+    }
+  }, [drafts, location, refresh]);
+
+  const handleDelete = useCallback(async () => {
+    if (!savedTable) return;
+    if (
+      !window.confirm(
+        `Delete the ${savedTable.location} trade rates? Projects priced there go back to the manpower hourly rate.`
+      )
+    ) {
+      return;
+    }
+    try {
+      await deleteTradeRates(savedTable.location);
+      await refresh();
+    } catch (error: unknown) {
+      setMessage((error as Error).message || "Failed to delete the trade rates.");
+    }
+  }, [savedTable, refresh]);
+
+  const draftInput = (draft: TradeDraft, field: TradeTextField, type = "text") => (
+    <input
+      className="electrical-input__control"
+      type={type}
+      step={type === "number" ? "0.01" : undefined}
+      value={draft[field]}
+      disabled={draft.split && (field === "basicWage" || field === "allowances")}
+      onChange={(event) => updateDraft(draft.key, { [field]: event.target.value })}
+    />
+  );
+
+  const nationalityInputs = (draft: TradeDraft, nationality: Nationality) =>
+    NATIONALITY_FIELDS.map(({ field, label }) => (
+      <label key={field} className="electrical-input">
+        <span className="electrical-input__label">{label}</span>
+        <input
+          className="electrical-input__control"
+          type="number"
+          step="0.01"
+          value={draft[nationality][field]}
+          onChange={(event) =>
+            updateDraft(draft.key, { [nationality]: { ...draft[nationality], [field]: event.target.value } })
+          }
+        />
+      </label>
+    ));
+
+  return (
+    <section className="panel">
+      <div className="panel__header">
+        <h2 className="section-title section-title--compact">Trade Rates</h2>
+        <p className="eyebrow" style={{ opacity: 0.7, marginTop: "0.35rem" }}>
+          Give a manpower row in a productivity block a trade code and, on projects priced at a location, its crew is
+          costed at these hourly rates.
+        </p>
+      </div>
+      <div className="panel__body">
+        <div className="pricing-scenario__row" style={{ marginBottom: "0.75rem" }}>
+          <label className="electrical-input">
+            <span className="electrical-input__label">Location</span>
+            <select
+              className="electrical-input__control"
+              value={location}
+              onChange={(event) => selectLocation(event.target.value, tables)}
+              disabled={tables.length === 0 && !location}
+            >
+              {!savedTable && location && <option value={location}>{location} (unsaved)</option>}
+              {tables.map((table) => (
+                <option key={table.location} value={table.location}>
+                  {table.location}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="electrical-input">
+            <span className="electrical-input__label">New location</span>
+            <input
+              className="electrical-input__control"
+              type="text"
+              value={newLocation}
+              placeholder="e.g. Riyadh"
+              onChange={(event) => setNewLocation(event.target.value)}
+            />
+          </label>
+          <button type="button" className="btn-secondary" onClick={handleAddLocation} disabled={!newLocation.trim()}>
+            Add Location
+          </button>
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={() => void handleSave()}
+            disabled={saving || !location}
+          >
+            {saving ? "Saving..." : "Save"}
+          </button>
+          <button
+            type="button"
+            className="btn-secondary btn-muted"
+            onClick={() => void handleDelete()}
+            disabled={!savedTable}
+          >
+            Delete Location
+          </button>
+        </div>
+        {message && <p className="feedback" style={{ marginTop: 0 }}>{message}</p>}
+
+        {!location ? (
+          <div className="pricing-placeholder">
+            <h3>{loading ? "Loading trade rates..." : "No locations yet"}</h3>
+            <p>Add a location, such as the city a project is built in, and enter its trades.</p>
+          </div>
+        ) : (
+          <div className="table-wrapper">
+            <table className="matches-table">
+              <thead>
+                <tr>
+                  <th>Code</th>
+                  <th>Trade</th>
+                  <th>Basic wage / hr</th>
+                  <th>Allowances / hr</th>
+                  <th>Burden %</th>
+                  <th title="Saudi and expatriate pay, GOSI and iqama costs; projects blend them by their manpower mix">
+                    Saudi split
+                  </th>
+                  <th>Hourly cost</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {drafts.map((draft) => (
+                  <Fragment key={draft.key}>
+                    <tr>
+                      <td>{draftInput(draft, "code")}</td>
+                      <td>{draftInput(draft, "name")}</td>
+                      <td>{draftInput(draft, "basicWage", "number")}</td>
+                      <td>{draftInput(draft, "allowances", "number")}</td>
+                      <td>{draftInput(draft, "burdenPercent", "number")}</td>
+                      <td>
+                        <input
+                          type="checkbox"
+                          checked={draft.split}
+                          onChange={(event) => updateDraft(draft.key, { split: event.target.checked })}
+                        />
+                      </td>
+                      <td>
+                        {draft.split
+                          ? `${nationalityHourlyCostOf(draft, "saudi").toFixed(2)} Saudi / ${hourlyCostOf(draft).toFixed(2)} expat`
+                          : hourlyCostOf(draft).toFixed(2)}
+                      </td>
+                      <td>
+                        <button
+                          type="button"
+                          className="btn-secondary btn-compact btn-muted"
+                          onClick={() => setDrafts((prev) => prev.filter((entry) => entry.key !== draft.key))}
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                    {draft.split &&
+                      (["saudi", "expatriate"] as const).map((nationality) => (
+                        <tr key={nationality}>
+                          <td />
+                          <td className="eyebrow">{nationality === "saudi" ? "Saudi" : "Expatriate"}</td>
+                          <td colSpan={6}>
+                            <div className="pricing-scenario__row">{nationalityInputs(draft, nationality)}</div>
+                          </td>
+                        </tr>
+                      ))}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+            <button
+              type="button"
+              className="btn-secondary btn-compact"
+              style={{ marginTop: "0.5rem" }}
+              onClick={() => setDrafts((prev) => [...prev, toTradeDraft()])}
+            >
+              Add Trade
+            </button>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,315 @@
+import { useCallback, useEffect, useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import type { CalendarPeriod, CalendarPeriodKind, WorkingCalendar } from "../types";
+import { getWorkingCalendar, saveWorkingCalendar } from "../services/api";
+import type { CalendarMonth } from "../services/api";
+
+type WorkingCalendarProps = {
+  projectId: string;
+  onSaved?: (calendar: WorkingCalendar | null) => void;
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const PERIOD_KINDS: Array<{ value: CalendarPeriodKind; label: string; example: string; hoursPerDay: string }> = [
+  { value: "ramadan", label: "Ramadan", example: "Ramadan 1448", hoursPerDay: "6" },
+  { value: "holiday", label: "Public holiday", example: "Eid al-Fitr", hoursPerDay: "0" },
+  { value: "summer_hours", label: "Summer hours", example: "Midday work ban", hoursPerDay: "8" },
+  { value: "other", label: "Other", example: "Site shutdown", hoursPerDay: "0" },
+];
+
+/** Saudi working week: Friday off, 8-hour days. */
+const DEFAULT_CALENDAR: WorkingCalendar = { startDate: "", restDays: [5], hoursPerDay: "8", periods: [] };
+
+/**
+ * The project's working calendar: rest days, normal hours and the periods with fewer hours (Ramadan, the summer
+ * midday ban) or none (public holidays), with the working days and hours they give each month of the duration.
+ */
+export default function WorkingCalendarPanel({ projectId, onSaved }: WorkingCalendarProps) {
+  const [calendar, setCalendar] = useState<WorkingCalendar | null>(null);
+  const [months, setMonths] = useState<CalendarMonth[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError("");
+    getWorkingCalendar(projectId)
+      .then((response) => {
+        if (cancelled) return;
+        setCalendar(response.calendar);
+        setMonths(response.months);
+        setDirty(false);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError((err as Error).message || "Failed to load the working calendar.");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const update = useCallback((change: Partial<WorkingCalendar>) => {
+    setCalendar((prev) => ({ ...(prev ?? DEFAULT_CALENDAR), ...change }));
+    setDirty(true);
+  }, []);
+
+  const updatePeriod = useCallback((id: string, change: Partial<CalendarPeriod>) => {
+    setCalendar((prev) =>
+      prev ? { ...prev, periods: prev.periods.map((period) => (period.id === id ? { ...period, ...change } : period)) } : prev
+    );
+    setDirty(true);
+  }, []);
+
+  const addPeriod = useCallback(() => {
+    setCalendar((prev) => {
+      const base = prev ?? DEFAULT_CALENDAR;
+      const date = base.startDate;
+      return {
+        ...base,
+        periods: [
+          ...base.periods,
+          { id: uuidv4(), name: "", kind: "ramadan", startDate: date, endDate: date, hoursPerDay: "6" },
+        ],
+      };
+    });
+    setDirty(true);
+  }, []);
+
+  const removePeriod = useCallback((id: string) => {
+    setCalendar((prev) => (prev ? { ...prev, periods: prev.periods.filter((period) => period.id !== id) } : prev));
+    setDirty(true);
+  }, []);
+
+  const save = useCallback(
+    async (next: WorkingCalendar | null) => {
+      setError("");
+      setSaving(true);
+      try {
+        const response = await saveWorkingCalendar(
+          projectId,
+          next && {
+            ...next,
+            periods: next.periods.map((period) => ({ ...period, name: period.name.trim() })),
+          }
+        );
+        setCalendar(response.calendar);
+        setMonths(response.months);
+        setDirty(false);
+        onSaved?.(response.calendar);
+      } catch (err: unknown) {
+        setError((err as Error).message || "Failed to save the working calendar.");
+      } finally {
+        setSaving(false);
+      }
+    },
+    [onSaved, projectId]
+  );
+
+  if (loading) {
+    return <p className="eyebrow">Loading working calendar...</p>;
+  }
+
+  if (!calendar) {
+    return (
+      <>
+        <div className="estimation-report__header">
+          <span>No working calendar: durations use a flat 160-hour month.</span>
+          <button
+            type="button"
+            className="btn-secondary btn-compact"
+            onClick={() => {
+              setCalendar(DEFAULT_CALENDAR);
+              setDirty(true);
+            }}
+          >
+            Set Up Calendar
+          </button>
+        </div>
+        {error && <p className="feedback" style={{ marginTop: 0 }}>{error}</p>}
+      </>
+    );
+  }
+
+  return (
+    <>
+      <div className="estimation-report__header">
+        <span>
+          The manpower histogram, cash flow, Total Working Days and monthly equipment rates follow the calendar.
+        </span>
+        <div style={{ display: "flex", gap: "0.5rem" }}>
+          <button type="button" className="btn-secondary btn-compact" onClick={addPeriod}>
+            Add Period
+          </button>
+          <button
+            type="button"
+            className="btn-secondary btn-compact btn-muted"
+            onClick={() => void save(null)}
+            disabled={saving}
+          >
+            Remove Calendar
+          </button>
+          <button
+            type="button"
+            className="btn-secondary btn-compact"
+            onClick={() => void save(calendar)}
+            disabled={saving || !dirty}
+          >
+            {saving ? "Saving..." : "Save Calendar"}
+          </button>
+        </div>
+      </div>
+      {error && <p className="feedback" style={{ marginTop: 0 }}>{error}</p>}
+      <div className="pricing-scenario">
+        <div className="pricing-scenario__row">
+          <label className="electrical-input">
+            <span className="electrical-input__label">Programme start</span>
+            <input
+              className="electrical-input__control"
+              type="date"
+              value={calendar.startDate}
+              onChange={(event) => update({ startDate: event.target.value })}
+            />
+          </label>
+          <label className="electrical-input">
+            <span className="electrical-input__label">Hours / day</span>
+            <input
+              className="electrical-input__control"
+              type="text"
+              value={calendar.hoursPerDay}
+              onChange={(event) => update({ hoursPerDay: event.target.value })}
+            />
+          </label>
+          <div className="electrical-input" style={{ flex: 2 }}>
+            <span className="electrical-input__label">Rest days</span>
+            <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap" }}>
+              {WEEKDAYS.map((label, day) => (
+                <label key={label} style={{ display: "flex", alignItems: "center", gap: "0.2rem" }}>
+                  <input
+                    type="checkbox"
+                    checked={calendar.restDays.includes(day)}
+                    onChange={(event) =>
+                      update({
+                        restDays: event.target.checked
+                          ? [...calendar.restDays, day].sort((a, b) => a - b)
+                          : calendar.restDays.filter((entry) => entry !== day),
+                      })
+                    }
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+      {calendar.periods.length > 0 && !calendar.startDate && (
+        <p className="eyebrow">Set the programme start so the periods can be placed on the months.</p>
+      )}
+      {calendar.periods.map((period) => {
+        const kind = PERIOD_KINDS.find((entry) => entry.value === period.kind) ?? PERIOD_KINDS[0];
+        return (
+          <div key={period.id} className="pricing-scenario">
+            <div className="pricing-scenario__row">
+              <label className="electrical-input">
+                <span className="electrical-input__label">Kind</span>
+                <select
+                  className="electrical-input__control"
+                  value={period.kind}
+                  onChange={(event) => {
+                    const next = PERIOD_KINDS.find((entry) => entry.value === event.target.value) ?? PERIOD_KINDS[0];
+                    updatePeriod(period.id, { kind: next.value, hoursPerDay: next.hoursPerDay });
+                  }}
+                >
+                  {PERIOD_KINDS.map((entry) => (
+                    <option key={entry.value} value={entry.value}>
+                      {entry.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="electrical-input" style={{ flex: 2 }}>
+                <span className="electrical-input__label">Name</span>
+                <input
+                  className="electrical-input__control"
+                  type="text"
+                  placeholder={kind.example}
+                  value={period.name}
+                  onChange={(event) => updatePeriod(period.id, { name: event.target.value })}
+                />
+              </label>
+              <label className="electrical-input">
+                <span className="electrical-input__label">From</span>
+                <input
+                  className="electrical-input__control"
+                  type="date"
+                  value={period.startDate}
+                  onChange={(event) => updatePeriod(period.id, { startDate: event.target.value })}
+                />
+              </label>
+              <label className="electrical-input">
+                <span className="electrical-input__label">To</span>
+                <input
+                  className="electrical-input__control"
+                  type="date"
+                  value={period.endDate}
+                  onChange={(event) => updatePeriod(period.id, { endDate: event.target.value })}
+                />
+              </label>
+              <label className="electrical-input">
+                <span className="electrical-input__label">Hours / day</span>
+                <input
+                  className="electrical-input__control"
+                  type="text"
+                  value={period.hoursPerDay}
+                  onChange={(event) => updatePeriod(period.id, { hoursPerDay: event.target.value })}
+                />
+              </label>
+              <button
+                type="button"
+                className="btn-secondary btn-compact btn-muted"
+                onClick={() => removePeriod(period.id)}
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        );
+      })}
+      {months.length > 0 && (
+        <div className="table-wrapper" style={{ margin: "0.75rem 0 0" }}>
+          <table className="matches-table">
+            <thead>
+              <tr>
+                <th>Saved calendar</th>
+                {months.map((month) => (
+                  <th key={month.month}>{month.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td>Working days</td>
+                {months.map((month) => (
+                  <td key={month.month}>{month.workingDays}</td>
+                ))}
+              </tr>
+              <tr>
+                <td>Hours per worker</td>
+                {months.map((month) => (
+                  <td key={month.month}>{month.hours}</td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </>
+  );
+}
@@ -1,4 +1,5 @@
 import type {
+  BoqItemType,
   BuildSummary,
   AttributeMap,
   ExtractedItem,
@@ -15,11 +16,19 @@ import type {
   ElectricalCalcResponse,
   CadExtractionItem,
   ProjectSummary,
+  ProjectStatus,
+  ProjectType,
   ProjectFile,
   ProjectItem,
+  ProductivityRatesBlock,
   ProductivityRatesPayload,
   PricingPayload,
+  PricingScenario,
+  ProductivityAdjustment,
+  ProductivityAdjustmentCategory,
   ProjectCompareResponse,
+  ManpowerMix,
+  WorkingCalendar,
 } from "../types";
 
 const API_BASE = "";
@@ -117,6 +126,41 @@ async function safeFetch(
   }
 }
 
+/** Fetches a file from an authenticated endpoint and saves it under the server-provided name. */
+async function downloadFile(input: string, fallbackName: string, init?: RequestInit): Promise<void> {
+  const headers: Record<string, string> = { ...(createHeaders() as Record<string, string>) };
+  if (init?.body) {
+    headers["Content-Type"] = "application/json";
+  }
+  const response = await fetch(input, { ...init, headers });
+  if (!response.ok) {
+    if (response.status === 401) {
+      localStorage.removeItem("auth_token");
+      window.dispatchEvent(new CustomEvent("auth:logout"));
+    }
+    const text = await response.text();
+    let errorMessage = text || "Download failed";
+    try {
+      const json = JSON.parse(text);
+      errorMessage = json.message || errorMessage;
+    } catch {
+      // Keep the text as is
+    }
+    throw new Error(errorMessage);
+  }
+  const disposition = response.headers.get("Content-Disposition") ?? "";
+  const match = disposition.match(/filename="?([^";]+)"?/i);
+  const blob = await response.blob();
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = match ? decodeURIComponent(match[1]) : fallbackName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
 export interface PaginatedResponse {
   data: BuildSummary[];
   totalCount: number;
@@ -361,6 +405,13 @@ export async function updateProjectName(projectId: string, name: string): Promis
   });
 }
 
+export async function updateProjectType(projectId: string, projectType: ProjectType): Promise<ProjectSummary> {
+  return safeFetch(`${API_BASE}/api/projects/${encodeURIComponent(projectId)}`, {
+    method: "PATCH",
+    body: JSON.stringify({ projectType }),
+  });
+}
+
 export async function removeProject(projectId: string): Promise<void> {
   await safeFetch(`${API_BASE}/api/projects/${encodeURIComponent(projectId)}`, {
     method: "DELETE",
@@ -380,6 +431,12 @@ export async function saveProductivityRates(
   });
 }
 
+/** The saved library in the Excel layout the import reads back. */
+export async function downloadProductivityRates(): Promise<void> {
+  return downloadFile(`${API_BASE}/api/productivity-rates?format=xlsx`, "productivity-rates.xlsx");
+}
+
+/** Accepts the JSON blocks file or the Excel template; a workbook with row errors is rejected whole. */
 export async function importProductivityRates(file: File): Promise<ProductivityRatesPayload> {
   const data = new FormData();
   data.append("file", file);
@@ -393,13 +450,617 @@ export async function getPricing(projectId: string): Promise<PricingPayload> {
   return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}`);
 }
 
-export async function savePricing(projectId: string, payload: PricingPayload): Promise<PricingPayload> {
+/** Fails with a conflict when the stored pricing has a newer revision than `baseRevision`. */
+export async function savePricing(
+  projectId: string,
+  payload: PricingPayload,
+  revisionNote?: string,
+  baseRevision?: number
+): Promise<PricingPayload> {
   return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}`, {
     method: "PUT",
+    body: JSON.stringify({ ...payload, revisionNote: revisionNote ?? "", baseRevision }),
+  });
+}
+
+export interface PricingRevisionSummary {
+  revision: number;
+  authorName: string;
+  note: string;
+  restoredFrom: number | null;
+  /** Company productivity library version the pricing was saved against; null for own rates. */
+  libraryVersion: number | null;
+  createdAt: string;
+}
+
+export interface PricingFieldChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+export interface PricingSubItemRef {
+  id: string;
+  code: string;
+  description: string;
+}
+
+export interface PricingRevisionDiff {
+  from: number;
+  to: string;
+  settings: PricingFieldChange[];
+  items: Array<{
+    itemId: string;
+    itemCode: string;
+    description: string;
+    qty: { from: string; to: string } | null;
+    added: PricingSubItemRef[];
+    removed: PricingSubItemRef[];
+    changed: Array<PricingSubItemRef & { fields: PricingFieldChange[] }>;
+    sellRateOverrides: PricingFieldChange[];
+    sellFrom: number;
+    sellTo: number;
+    sellDelta: number;
+  }>;
+  totals: {
+    directFrom: number;
+    directTo: number;
+    directDelta: number;
+    sellFrom: number;
+    sellTo: number;
+    sellDelta: number;
+  };
+}
+
+export async function listPricingRevisions(projectId: string): Promise<{ revisions: PricingRevisionSummary[] }> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/revisions`);
+}
+
+export async function diffPricingRevisions(
+  projectId: string,
+  from: number,
+  to: number | "current" = "current"
+): Promise<PricingRevisionDiff> {
+  const params = new URLSearchParams({ from: String(from), to: String(to) });
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/revisions/diff?${params.toString()}`);
+}
+
+export async function restorePricingRevision(projectId: string, revision: number): Promise<PricingPayload> {
+  return safeFetch(
+    `${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/revisions/${revision}/restore`,
+    { method: "POST" }
+  );
+}
+
+export interface PricingTotals {
+  totalMh: number;
+  wages: number;
+  materials: number;
+  subcon: number;
+  equip: number;
+  tools: number;
+  direct: number;
+  sellWages: number;
+  sellMaterials: number;
+  sellSubcon: number;
+  sellEquip: number;
+  sellOther: number;
+  sell: number;
+}
+
+export interface ComputedPricingItem {
+  itemId: string;
+  itemCode: string;
+  description: string;
+  category: string;
+  subcategory: string;
+  qty: number;
+  qtyDisplay: string;
+  unit: string;
+  itemType: BoqItemType;
+  isRateOnly: boolean;
+  completed: boolean;
+  blockCode: string;
+  unitRates: Record<"mh" | "wages" | "materials" | "subcon" | "equip" | "tools" | "direct" | "sell", number>;
+  totals: PricingTotals;
+  mhAdjustments: ComputedMhAdjustment[];
+}
+
+/** Man-hours one productivity adjustment factor adds to an item or to the whole project. */
+export interface ComputedMhAdjustment {
+  adjustmentId: string;
+  name: string;
+  category: ProductivityAdjustmentCategory;
+  totalMh: number;
+}
+
+export interface ComputedPricingResponse {
+  projectId: string;
+  projectName: string;
+  items: ComputedPricingItem[];
+  categories: Array<{ category: string; itemCount: number; totals: PricingTotals }>;
+  totals: PricingTotals;
+  allowances: Array<{ itemType: BoqItemType; label: string; itemCount: number; direct: number; sell: number }>;
+  tenderTotals: { direct: number; sell: number };
+  workingDays: number;
+  markupBreakdown: Array<{ key: string; label: string; amount: number }>;
+  mhAdjustments: ComputedMhAdjustment[];
+}
+
+export async function downloadPricedBoq(projectId: string, fileId: string, fileName: string): Promise<void> {
+  return downloadFile(
+    `${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/priced-boq/${encodeURIComponent(fileId)}`,
+    fileName
+  );
+}
+
+export interface TenderDetails {
+  clientName: string;
+  reference: string;
+  assumptions: string[];
+  exclusions: string[];
+}
+
+export async function getTenderDetails(projectId: string): Promise<TenderDetails> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/tender-pack/details`);
+}
+
+export async function downloadTenderPack(projectId: string, details: TenderDetails): Promise<void> {
+  return downloadFile(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/tender-pack`, "tender-pack.pdf", {
+    method: "POST",
+    body: JSON.stringify(details),
+  });
+}
+
+export interface ManpowerHistogram {
+  projectDuration: number;
+  /** Average hours one worker puts in a month */
+  hoursPerMonth: number;
+  /** Hours one worker puts in over each month, from the working calendar when there is one */
+  monthHours: number[];
+  months: string[];
+  /** Calendar month of each month (e.g. "Mar 2027") when the calendar has a start date */
+  monthLabels: string[];
+  trades: Array<{ trade: string; totalMh: number; headcount: number[] }>;
+  totals: number[];
+  peak: { month: string; headcount: number } | null;
+  phases: Array<{ category: string; totalMh: number; start: number; end: number }>;
+  totalMh: number;
+}
+
+export async function getManpowerHistogram(projectId: string): Promise<ManpowerHistogram> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/manpower-histogram`);
+}
+
+export async function downloadManpowerHistogram(projectId: string): Promise<void> {
+  return downloadFile(
+    `${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/manpower-histogram?format=xlsx`,
+    "manpower-histogram.xlsx"
+  );
+}
+
+export type SpendProfile = "linear" | "s_curve" | "custom";
+
+export interface CashFlowTerms {
+  profile: SpendProfile;
+  /** Percent of the work done per month for the "custom" profile. */
+  customProfile: string[];
+  advancePercent: string;
+  retentionPercent: string;
+  retentionReleaseMonths: string;
+  paymentDelayMonths: string;
+  vatPercent: string;
+}
+
+export interface CashFlowMonth {
+  month: string;
+  cost: number;
+  revenue: number;
+  cashIn: number;
+  cashOut: number;
+  net: number;
+  cumulativeCost: number;
+  cumulativeRevenue: number;
+  cumulativeNet: number;
+}
+
+export interface CashFlowForecast {
+  terms: CashFlowTerms;
+  projectDuration: number;
+  contractSum: number;
+  directCost: number;
+  months: CashFlowMonth[];
+  peakNegative: { month: string; amount: number } | null;
+  breakEvenMonth: string | null;
+}
+
+export async function getCashFlow(projectId: string): Promise<CashFlowForecast> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/cash-flow`);
+}
+
+export async function saveCashFlowTerms(projectId: string, terms: CashFlowTerms): Promise<CashFlowForecast> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/cash-flow/terms`, {
+    method: "PUT",
+    body: JSON.stringify(terms),
+  });
+}
+
+export async function downloadCashFlow(projectId: string): Promise<void> {
+  return downloadFile(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/cash-flow?format=xlsx`, "cash-flow.xlsx");
+}
+
+export type ReviewStatus = "draft" | "priced" | "reviewed" | "approved";
+
+export type ReviewAction = "price" | "review" | "approve" | "reject";
+
+export interface ReviewEvent {
+  /** "repriced" when a pricing save changed an item that was already reviewed or approved. */
+  action: ReviewAction | "repriced";
+  from: ReviewStatus;
+  to: ReviewStatus;
+  byId: string;
+  byName: string;
+  at: string;
+  comment: string;
+}
+
+/** Who took a step of an item's review, and when. */
+export interface ReviewStep {
+  id: string;
+  name: string;
+  at: string;
+}
+
+export interface PricingReviewItem {
+  itemId: string;
+  itemCode: string;
+  description: string;
+  category: string;
+  qty: number;
+  unit: string;
+  sellRate: number;
+  sellTotal: number;
+  status: ReviewStatus;
+  updatedById: string | null;
+  updatedByName: string;
+  updatedAt: string | null;
+  /** Comment of the last action; the reason when the item was rejected. */
+  comment: string;
+  pricedBy: ReviewStep | null;
+  reviewedBy: ReviewStep | null;
+  approvedBy: ReviewStep | null;
+  /** Actions the signed-in user may take on the item now; nobody reviews or approves what they priced or reviewed. */
+  actions: ReviewAction[];
+  history: ReviewEvent[];
+}
+
+export interface PricingReviewer {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface PricingReview {
+  projectStatus: ProjectStatus;
+  /** The signed-in user owns the project; otherwise they are one of its reviewers. */
+  isOwner: boolean;
+  items: PricingReviewItem[];
+  counts: Record<ReviewStatus, number>;
+  canSubmit: boolean;
+  reviewers: PricingReviewer[];
+}
+
+/** Another user's project the signed-in user was asked to review. */
+export interface ProjectToReview {
+  id: string;
+  name: string;
+  status: ProjectStatus;
+  ownerName: string;
+  updatedAt: string;
+}
+
+export async function listProjectsToReview(): Promise<ProjectToReview[]> {
+  return safeFetch(`${API_BASE}/api/pricing/reviews`);
+}
+
+export async function savePricingReviewers(projectId: string, emails: string[]): Promise<PricingReview> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/reviewers`, {
+    method: "PUT",
+    body: JSON.stringify({ emails }),
+  });
+}
+
+export async function getPricingReview(projectId: string): Promise<PricingReview> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/review`);
+}
+
+export async function applyPricingReviewAction(
+  projectId: string,
+  payload: { itemIds: string[]; action: ReviewAction; comment?: string }
+): Promise<PricingReview> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/review/actions`, {
+    method: "POST",
     body: JSON.stringify(payload),
   });
 }
 
+export async function submitPricingReview(projectId: string): Promise<PricingReview> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/review/submit`, { method: "POST" });
+}
+
+export interface MaterialTakeoffLine {
+  key: string;
+  code: string;
+  description: string;
+  unit: string;
+  netQty: number;
+  wastePercent: string;
+  grossQty: number;
+  budgetRate: number;
+  budgetAmount: number;
+  itemCodes: string[];
+}
+
+export interface MaterialTakeoff {
+  defaultWastePercent: string;
+  lines: MaterialTakeoffLine[];
+}
+
+export async function getMaterialTakeoff(projectId: string): Promise<MaterialTakeoff> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/material-takeoff`);
+}
+
+export async function saveMaterialWaste(
+  projectId: string,
+  defaultWastePercent: string,
+  wasteFactors: Array<{ key: string; percent: string }>
+): Promise<MaterialTakeoff> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/material-takeoff/waste`, {
+    method: "PUT",
+    body: JSON.stringify({ defaultWastePercent, wasteFactors }),
+  });
+}
+
+export async function downloadMaterialEnquiry(projectId: string): Promise<void> {
+  return downloadFile(
+    `${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/material-takeoff?format=xlsx`,
+    "material-enquiry.xlsx"
+  );
+}
+
+export interface ScenarioSummary {
+  id: string;
+  name: string;
+  totals: PricingTotals;
+  categories: Array<{ category: string; direct: number; sell: number }>;
+  margin: number;
+  directDelta: number;
+  sellDelta: number;
+  sellDeltaPercent: number;
+  totalMhDelta: number;
+}
+
+export interface ScenarioComparison {
+  base: ScenarioSummary;
+  scenarios: ScenarioSummary[];
+}
+
+export async function getPricingScenarios(projectId: string): Promise<PricingScenario[]> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/scenarios`);
+}
+
+export async function savePricingScenarios(projectId: string, scenarios: PricingScenario[]): Promise<PricingScenario[]> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/scenarios`, {
+    method: "PUT",
+    body: JSON.stringify({ scenarios }),
+  });
+}
+
+export async function getProductivityAdjustments(projectId: string): Promise<ProductivityAdjustment[]> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/productivity-adjustments`);
+}
+
+export async function saveProductivityAdjustments(
+  projectId: string,
+  adjustments: ProductivityAdjustment[]
+): Promise<ProductivityAdjustment[]> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/productivity-adjustments`, {
+    method: "PUT",
+    body: JSON.stringify({ adjustments }),
+  });
+}
+
+export interface CalendarMonth {
+  month: string;
+  label: string;
+  workingDays: number;
+  /** Hours one worker puts in over the month */
+  hours: number;
+}
+
+export interface WorkingCalendarResponse {
+  /** Null when durations use the flat 160-hour month */
+  calendar: WorkingCalendar | null;
+  /** Working days and hours of each month of the saved project duration */
+  months: CalendarMonth[];
+}
+
+export async function getWorkingCalendar(projectId: string): Promise<WorkingCalendarResponse> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/working-calendar`);
+}
+
+export async function saveWorkingCalendar(
+  projectId: string,
+  calendar: WorkingCalendar | null
+): Promise<WorkingCalendarResponse> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/working-calendar`, {
+    method: "PUT",
+    body: JSON.stringify({ calendar }),
+  });
+}
+
+export async function getManpowerMix(projectId: string): Promise<ManpowerMix | null> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/manpower-mix`);
+}
+
+export async function saveManpowerMix(projectId: string, mix: ManpowerMix | null): Promise<ManpowerMix | null> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/manpower-mix`, {
+    method: "PUT",
+    body: JSON.stringify({ mix }),
+  });
+}
+
+export interface NationalisationTrade {
+  tradeCode: string;
+  name: string;
+  totalMh: number;
+  saudiPercent: number;
+  saudiHourly: number;
+  expatriateHourly: number;
+  blendedHourly: number;
+  /** Cost of the Saudi share over pricing the same hours all-expatriate */
+  cost: number;
+}
+
+export interface NationalisationReport {
+  trades: NationalisationTrade[];
+  /** All priced man-hours, whatever the trade; the base the Nitaqat share is measured on */
+  totalMh: number;
+  saudiPercent: number;
+  nitaqatPercent: number | null;
+  meetsNitaqat: boolean | null;
+  /** Total cost of the mix over an all-expatriate workforce, at direct cost */
+  cost: number;
+}
+
+export async function getNationalisationReport(projectId: string): Promise<NationalisationReport> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/nationalisation`);
+}
+
+export async function comparePricingScenarios(projectId: string): Promise<ScenarioComparison> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/scenarios/compare`);
+}
+
+export type LumpSumBasis = "allowance" | "percent";
+
+export interface LumpSumPackage {
+  id: string;
+  name: string;
+  basis: LumpSumBasis;
+  /** Amount for "allowance", percentage of the lump sum for "percent". */
+  value: string;
+  itemIds: string[];
+}
+
+export interface LumpSumBreakdown {
+  amount: string;
+  packages: LumpSumPackage[];
+}
+
+export interface LumpSumSpreadPackage {
+  id: string | null;
+  name: string;
+  basis: LumpSumBasis | "remainder";
+  amount: number;
+  rounding: number;
+  percent: number;
+  itemCount: number;
+  bottomUpSell: number;
+}
+
+export interface LumpSumSpreadLine {
+  itemId: string;
+  itemCode: string;
+  description: string;
+  unit: string;
+  qty: number;
+  packageId: string | null;
+  packageName: string;
+  bottomUpSell: number;
+  amount: number;
+  rate: number;
+}
+
+export interface LumpSumSpread {
+  amount: number;
+  allocated: number;
+  remainder: number;
+  rounding: number;
+  unspread: number;
+  packages: LumpSumSpreadPackage[];
+  lines: LumpSumSpreadLine[];
+}
+
+export async function getLumpSum(projectId: string): Promise<LumpSumBreakdown> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/lump-sum`);
+}
+
+export async function saveLumpSum(projectId: string, breakdown: LumpSumBreakdown): Promise<LumpSumBreakdown> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/lump-sum`, {
+    method: "PUT",
+    body: JSON.stringify(breakdown),
+  });
+}
+
+export async function getLumpSumSpread(projectId: string): Promise<LumpSumSpread> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/lump-sum/spread`);
+}
+
+export type PricingIssueSeverity = "error" | "warning";
+
+export interface PricingIssue {
+  rule: string;
+  severity: PricingIssueSeverity;
+  itemId: string;
+  itemCode: string;
+  description: string;
+  subItemId: string | null;
+  message: string;
+}
+
+export interface PricingValidationReport {
+  checkedItems: number;
+  errors: number;
+  warnings: number;
+  issues: PricingIssue[];
+}
+
+export async function getPricingValidation(projectId: string): Promise<PricingValidationReport> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/validation`);
+}
+
+export interface UnitRateSample {
+  projectId: string;
+  projectName: string;
+  itemId: string;
+  itemCode: string;
+  description: string;
+  unit: string;
+  rate: number;
+  normalizedRate: number;
+  similarity: number;
+}
+
+export interface UnitRateBenchmark {
+  description: string;
+  unit: string;
+  count: number;
+  min: number | null;
+  median: number | null;
+  max: number | null;
+  samples: UnitRateSample[];
+}
+
+export async function getUnitRateBenchmark(projectId: string, itemId: string): Promise<UnitRateBenchmark> {
+  return safeFetch(
+    `${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/items/${encodeURIComponent(itemId)}/benchmark`
+  );
+}
+
+export async function getComputedPricing(projectId: string): Promise<ComputedPricingResponse> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/computed`);
+}
+
 export interface ProductivitySuggestBlock {
   blockId: string;
   itemCode: string;
@@ -443,9 +1104,13 @@ export interface SearchBlocksSubitem {
 }
 
 export interface SearchBlocksBlock {
+  assemblyId: string;
+  /** Project the assembly was captured from; empty for assemblies saved directly in the library. */
   projectId: string;
   projectName: string;
   itemId: string;
+  blockCode: string;
+  tags: string[];
   description: string;
   subitems: SearchBlocksSubitem[];
 }
@@ -467,6 +1132,391 @@ export async function searchPricingBlocks(
   return safeFetch(`${API_BASE}/api/pricing/search-blocks?${searchParams.toString()}`);
 }
 
+export interface AssemblyPayload {
+  description: string;
+  blockCode: string;
+  unit: string;
+  category: string;
+  tags: string[];
+  notes: string;
+  subitems: SearchBlocksSubitem[];
+}
+
+export interface Assembly extends AssemblyPayload {
+  id: string;
+  source: "completed" | "manual";
+  sourceProjectId: string | null;
+  sourceProjectName: string;
+  /** Text relevance when searching by text, otherwise null. */
+  score: number | null;
+  updatedAt: string;
+}
+
+export async function searchAssemblies(params: {
+  text?: string;
+  blockCode?: string;
+  tag?: string;
+  page?: number;
+  pageSize?: number;
+}): Promise<{ assemblies: Assembly[]; total: number }> {
+  const searchParams = new URLSearchParams();
+  if (params.text?.trim()) searchParams.set("text", params.text.trim());
+  if (params.blockCode?.trim()) searchParams.set("blockCode", params.blockCode.trim());
+  if (params.tag?.trim()) searchParams.set("tag", params.tag.trim());
+  if (params.page != null && params.page >= 1) searchParams.set("page", String(params.page));
+  if (params.pageSize != null && params.pageSize >= 1) searchParams.set("pageSize", String(params.pageSize));
+  return safeFetch(`${API_BASE}/api/assemblies?${searchParams.toString()}`);
+}
+
+export async function listAssemblyTags(): Promise<string[]> {
+  return safeFetch(`${API_BASE}/api/assemblies/tags`);
+}
+
+export async function createAssembly(payload: AssemblyPayload): Promise<Assembly> {
+  return safeFetch(`${API_BASE}/api/assemblies`, {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function updateAssembly(assemblyId: string, payload: AssemblyPayload): Promise<Assembly> {
+  return safeFetch(`${API_BASE}/api/assemblies/${encodeURIComponent(assemblyId)}`, {
+    method: "PUT",
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function deleteAssembly(assemblyId: string): Promise<void> {
+  await safeFetch(`${API_BASE}/api/assemblies/${encodeURIComponent(assemblyId)}`, { method: "DELETE" });
+}
+
+export async function importCompletedAssemblies(): Promise<{ imported: number }> {
+  return safeFetch(`${API_BASE}/api/assemblies/import-completed`, { method: "POST" });
+}
+
+export interface MaterialPricePayload {
+  code: string;
+  description: string;
+  unit: string;
+  supplier: string;
+  price: number;
+  currency: string;
+  validFrom: string;
+  validTo: string | null;
+}
+
+export interface MaterialPrice extends MaterialPricePayload {
+  id: string;
+  /** The price that applies today for its code. */
+  isCurrent: boolean;
+  updatedAt: string;
+}
+
+export interface SupersededMaterialPrice {
+  projectId: string;
+  projectName: string;
+  itemId: string;
+  itemCode: string;
+  subItemId: string;
+  description: string;
+  code: string;
+  usedPrice: number;
+  currentPrice: number | null;
+  currentPriceId: string | null;
+  supplier: string;
+  currency: string;
+  currentRate: number | null;
+}
+
+export async function listMaterialPrices(): Promise<MaterialPrice[]> {
+  return safeFetch(`${API_BASE}/api/materials`);
+}
+
+export async function createMaterialPrice(payload: MaterialPricePayload): Promise<MaterialPrice> {
+  return safeFetch(`${API_BASE}/api/materials`, { method: "POST", body: JSON.stringify(payload) });
+}
+
+export async function updateMaterialPrice(priceId: string, payload: MaterialPricePayload): Promise<MaterialPrice> {
+  return safeFetch(`${API_BASE}/api/materials/${encodeURIComponent(priceId)}`, {
+    method: "PUT",
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function deleteMaterialPrice(priceId: string): Promise<void> {
+  await safeFetch(`${API_BASE}/api/materials/${encodeURIComponent(priceId)}`, { method: "DELETE" });
+}
+
+export async function importMaterialPrices(file: File): Promise<{ imported: number; skippedRows: number }> {
+  const data = new FormData();
+  data.append("file", file);
+  return safeFetch(`${API_BASE}/api/materials/import`, { method: "POST", body: data });
+}
+
+export async function listSupersededMaterialPrices(projectId?: string): Promise<SupersededMaterialPrice[]> {
+  const query = projectId ? `?projectId=${encodeURIComponent(projectId)}` : "";
+  return safeFetch(`${API_BASE}/api/materials/superseded${query}`);
+}
+
+export type LibraryChangeAction = "added" | "updated" | "removed";
+
+export interface LibraryBlockChange {
+  code: string;
+  action: LibraryChangeAction;
+  /** Null when the block is removed. */
+  block: ProductivityRatesBlock | null;
+}
+
+export interface LibraryVersionSummary {
+  version: number;
+  note: string;
+  proposedByName: string;
+  publishedByName: string;
+  publishedAt: string;
+  changeCount: number;
+}
+
+export interface LibraryVersion extends LibraryVersionSummary {
+  factor: string;
+  blocks: ProductivityRatesBlock[];
+  changes: LibraryBlockChange[];
+}
+
+export interface ProductivityLibrary {
+  /** Can approve and reject proposals. */
+  isAdmin: boolean;
+  latest: LibraryVersion | null;
+  versions: LibraryVersionSummary[];
+}
+
+export type LibraryProposalStatus = "pending" | "approved" | "rejected";
+
+export interface LibraryProposal {
+  id: string;
+  userName: string;
+  baseVersion: number | null;
+  /** Proposed manpower hourly rate; null keeps the library's. */
+  factor: string | null;
+  changes: LibraryBlockChange[];
+  note: string;
+  status: LibraryProposalStatus;
+  reviewedByName: string;
+  reviewedAt: string | null;
+  reviewComment: string;
+  publishedVersion: number | null;
+  createdAt: string;
+}
+
+export interface BlockChangeLogEntry {
+  version: number;
+  action: LibraryChangeAction;
+  note: string;
+  proposedByName: string;
+  publishedByName: string;
+  publishedAt: string;
+  block: ProductivityRatesBlock | null;
+}
+
+/** Productivity rates a project is priced with. */
+export interface ProjectProductivityRates {
+  factor: string;
+  blocks: ProductivityRatesBlock[];
+  /** Pinned company library version; null for the user's own rates. */
+  libraryVersion: number | null;
+  latestVersion: number | null;
+  /** Location whose trade table prices the crews; null prices them at the manpower hourly rate. */
+  tradeLocation: string | null;
+  /** Hourly cost by lower-cased trade code at that location. */
+  tradeCosts: Record<string, number> | null;
+  /** Hourly cost by lower-cased equipment catalogue code. */
+  equipmentCosts: Record<string, number>;
+  /** The project's factors on library man-hours. */
+  adjustments: ProductivityAdjustment[];
+  /** The project's working calendar; null for the flat 160-hour month. */
+  calendar: WorkingCalendar | null;
+}
+
+const libraryUrl = (path = "") => `${API_BASE}/api/productivity-library${path}`;
+
+export async function getProductivityLibrary(): Promise<ProductivityLibrary> {
+  return safeFetch(libraryUrl());
+}
+
+export async function getLibraryVersion(version: number): Promise<LibraryVersion> {
+  return safeFetch(libraryUrl(`/versions/${version}`));
+}
+
+export async function getLibraryBlockLog(code: string): Promise<{ code: string; entries: BlockChangeLogEntry[] }> {
+  return safeFetch(libraryUrl(`/blocks/${encodeURIComponent(code)}/log`));
+}
+
+export async function getMyLibraryChanges(): Promise<{
+  baseVersion: number | null;
+  factor: string | null;
+  changes: LibraryBlockChange[];
+}> {
+  return safeFetch(libraryUrl("/my-changes"));
+}
+
+export async function listLibraryProposals(status?: LibraryProposalStatus): Promise<LibraryProposal[]> {
+  return safeFetch(libraryUrl(`/proposals${status ? `?status=${status}` : ""}`));
+}
+
+export async function proposeLibraryChanges(payload: {
+  note: string;
+  codes?: string[];
+  includeFactor?: boolean;
+}): Promise<LibraryProposal> {
+  return safeFetch(libraryUrl("/proposals"), { method: "POST", body: JSON.stringify(payload) });
+}
+
+export async function approveLibraryProposal(
+  proposalId: string,
+  comment = ""
+): Promise<{ proposal: LibraryProposal; version: LibraryVersionSummary }> {
+  return safeFetch(libraryUrl(`/proposals/${encodeURIComponent(proposalId)}/approve`), {
+    method: "POST",
+    body: JSON.stringify({ comment }),
+  });
+}
+
+export async function rejectLibraryProposal(proposalId: string, comment: string): Promise<LibraryProposal> {
+  return safeFetch(libraryUrl(`/proposals/${encodeURIComponent(proposalId)}/reject`), {
+    method: "POST",
+    body: JSON.stringify({ comment }),
+  });
+}
+
+/** Replaces the user's own rates with a library version, the latest when none is given. */
+export async function pullLibraryVersion(version?: number): Promise<ProductivityRatesPayload> {
+  return safeFetch(libraryUrl("/pull"), { method: "POST", body: JSON.stringify({ version: version ?? null }) });
+}
+
+export async function getProjectProductivityRates(projectId: string): Promise<ProjectProductivityRates> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/productivity-rates`);
+}
+
+export async function setProjectLibraryVersion(
+  projectId: string,
+  version: number | null
+): Promise<ProjectProductivityRates> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/library-version`, {
+    method: "PUT",
+    body: JSON.stringify({ version }),
+  });
+}
+
+export async function setProjectTradeLocation(
+  projectId: string,
+  location: string | null
+): Promise<ProjectProductivityRates> {
+  return safeFetch(`${API_BASE}/api/pricing/${encodeURIComponent(projectId)}/trade-location`, {
+    method: "PUT",
+    body: JSON.stringify({ location }),
+  });
+}
+
+/** Pay and statutory costs of the Saudi or the expatriate workers of a trade. */
+export interface NationalityCost {
+  basicWage: number;
+  allowances: number;
+  /** Employer GOSI contribution as a percentage of wage plus allowances. */
+  gosiPercent: number;
+  /** Iqama, work permit, expat levy and visa costs per worker per year. */
+  annualFees: number;
+}
+
+export interface TradeRatePayload {
+  code: string;
+  name: string;
+  basicWage: number;
+  allowances: number;
+  /** Employer on-costs as a percentage of wage plus allowances. */
+  burdenPercent: number;
+  /** Saudi and expatriate pay; projects price the trade at the blend of their manpower mix. */
+  nationalities: { saudi: NationalityCost; expatriate: NationalityCost } | null;
+}
+
+export interface TradeRate extends TradeRatePayload {
+  /** (basic wage + allowances) × (1 + burden %); the expatriate cost when the trade has a Saudi split. */
+  hourlyCost: number;
+  /** Hourly cost of the Saudi workers; null without a split. */
+  saudiHourlyCost: number | null;
+}
+
+export interface TradeRatesTable {
+  location: string;
+  trades: TradeRate[];
+  updatedAt: string;
+}
+
+export async function listTradeRates(): Promise<TradeRatesTable[]> {
+  return safeFetch(`${API_BASE}/api/trade-rates`);
+}
+
+export async function saveTradeRates(location: string, trades: TradeRatePayload[]): Promise<TradeRatesTable> {
+  return safeFetch(`${API_BASE}/api/trade-rates/${encodeURIComponent(location)}`, {
+    method: "PUT",
+    body: JSON.stringify({ trades }),
+  });
+}
+
+export async function deleteTradeRates(location: string): Promise<void> {
+  await safeFetch(`${API_BASE}/api/trade-rates/${encodeURIComponent(location)}`, { method: "DELETE" });
+}
+
+export type EquipmentCostBasis = "owned" | "rented";
+
+export type EquipmentRatePeriod = "hour" | "day" | "month";
+
+export interface EquipmentPayload {
+  code: string;
+  description: string;
+  costBasis: EquipmentCostBasis;
+  /** Rental charge per `ratePeriod`; for owned plant without a purchase price, its ownership cost per period. */
+  baseRate: number;
+  ratePeriod: EquipmentRatePeriod;
+  /** Owned plant: depreciated from the purchase price down to the residual value over `usefulLifeHours`. */
+  purchasePrice: number;
+  residualValue: number;
+  usefulLifeHours: number;
+  /** Owned plant: maintenance and repairs as a percentage of the depreciation. */
+  maintenancePercent: number;
+  hoursPerDay: number;
+  fuelLitresPerHour: number;
+  fuelPricePerLitre: number;
+  operatorRequired: boolean;
+  operatorHourlyCost: number;
+  mobilisationCost: number;
+  /** Hours on site the mobilisation cost is spread over; 0 leaves it out. */
+  mobilisationHours: number;
+}
+
+export interface Equipment extends EquipmentPayload {
+  id: string;
+  hourlyCost: { base: number; maintenance: number; fuel: number; operator: number; mobilisation: number; total: number };
+  updatedAt: string;
+}
+
+export async function listEquipment(): Promise<Equipment[]> {
+  return safeFetch(`${API_BASE}/api/equipment`);
+}
+
+export async function createEquipment(payload: EquipmentPayload): Promise<Equipment> {
+  return safeFetch(`${API_BASE}/api/equipment`, { method: "POST", body: JSON.stringify(payload) });
+}
+
+export async function updateEquipment(equipmentId: string, payload: EquipmentPayload): Promise<Equipment> {
+  return safeFetch(`${API_BASE}/api/equipment/${encodeURIComponent(equipmentId)}`, {
+    method: "PUT",
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function deleteEquipment(equipmentId: string): Promise<void> {
+  await safeFetch(`${API_BASE}/api/equipment/${encodeURIComponent(equipmentId)}`, { method: "DELETE" });
+}
+
 export async function retryProjectFile(projectId: string, fileId: string, idempotencyKey: string): Promise<{
   id: string;
   fileId: string;
@@ -579,7 +1629,7 @@ export async function addProjectFileItem(
 export async function updateProjectItem(
   projectId: string,
   itemId: string,
-  payload: Partial<Pick<ProjectItem, "item_code" | "description" | "notes" | "box" | "metadata" | "thickness" | "productivityRateId">>
+  payload: Partial<Pick<ProjectItem, "item_code" | "description" | "notes" | "box" | "metadata" | "thickness" | "productivityRateId" | "itemType">>
 ): Promise<ProjectItem> {
   return safeFetch(
     `${API_BASE}/api/projects/${encodeURIComponent(projectId)}/items/${encodeURIComponent(itemId)}`,
@@ -707,3 +1757,163 @@ export async function logout(): Promise<{ message: string }> {
   });
 }
 
+export interface SubcontractQuoteLine {
+  itemId: string;
+  rate: number | null;
+  note: string;
+}
+
+export interface SubcontractQuotePayload {
+  subcontractor: string;
+  reference: string;
+  receivedAt: string | null;
+  validUntil: string | null;
+  exclusions: string[];
+  notes: string;
+  lines: SubcontractQuoteLine[];
+}
+
+export interface SubcontractQuote extends SubcontractQuotePayload {
+  id: string;
+}
+
+export interface SubcontractPackagePayload {
+  name: string;
+  description: string;
+  itemIds: string[];
+}
+
+export interface SubcontractPackage extends SubcontractPackagePayload {
+  id: string;
+  quotes: SubcontractQuote[];
+  awardedQuoteId: string | null;
+  awardedAt: string | null;
+  updatedAt: string;
+}
+
+export interface SubcontractComparisonLine {
+  itemId: string;
+  itemCode: string;
+  description: string;
+  unit: string;
+  qty: number;
+  isRateOnly: boolean;
+  quotes: Array<{ quoteId: string; rate: number | null; amount: number | null; note: string }>;
+  lowestQuoteId: string | null;
+}
+
+export interface SubcontractComparisonQuote {
+  quoteId: string;
+  subcontractor: string;
+  reference: string;
+  exclusions: string[];
+  quotedTotal: number;
+  missingLines: number;
+  plugAmount: number;
+  normalisedTotal: number;
+  rank: number | null;
+  awarded: boolean;
+}
+
+export interface SubcontractComparison {
+  lines: SubcontractComparisonLine[];
+  quotes: SubcontractComparisonQuote[];
+}
+
+const subcontractsUrl = (projectId: string, path = "") =>
+  `${API_BASE}/api/subcontracts/${encodeURIComponent(projectId)}/packages${path}`;
+
+export async function listSubcontractPackages(projectId: string): Promise<SubcontractPackage[]> {
+  return safeFetch(subcontractsUrl(projectId));
+}
+
+export async function createSubcontractPackage(
+  projectId: string,
+  payload: SubcontractPackagePayload
+): Promise<SubcontractPackage> {
+  return safeFetch(subcontractsUrl(projectId), { method: "POST", body: JSON.stringify(payload) });
+}
+
+export async function updateSubcontractPackage(
+  projectId: string,
+  packageId: string,
+  payload: SubcontractPackagePayload
+): Promise<SubcontractPackage> {
+  return safeFetch(subcontractsUrl(projectId, `/${encodeURIComponent(packageId)}`), {
+    method: "PUT",
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function deleteSubcontractPackage(projectId: string, packageId: string): Promise<void> {
+  await safeFetch(subcontractsUrl(projectId, `/${encodeURIComponent(packageId)}`), { method: "DELETE" });
+}
+
+export async function addSubcontractQuote(
+  projectId: string,
+  packageId: string,
+  payload: SubcontractQuotePayload
+): Promise<SubcontractPackage> {
+  return safeFetch(subcontractsUrl(projectId, `/${encodeURIComponent(packageId)}/quotes`), {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function updateSubcontractQuote(
+  projectId: string,
+  packageId: string,
+  quoteId: string,
+  payload: SubcontractQuotePayload
+): Promise<SubcontractPackage> {
+  return safeFetch(
+    subcontractsUrl(projectId, `/${encodeURIComponent(packageId)}/quotes/${encodeURIComponent(quoteId)}`),
+    { method: "PUT", body: JSON.stringify(payload) }
+  );
+}
+
+export async function deleteSubcontractQuote(
+  projectId: string,
+  packageId: string,
+  quoteId: string
+): Promise<SubcontractPackage> {
+  return safeFetch(
+    subcontractsUrl(projectId, `/${encodeURIComponent(packageId)}/quotes/${encodeURIComponent(quoteId)}`),
+    { method: "DELETE" }
+  );
+}
+
+export async function importSubcontractQuote(
+  projectId: string,
+  packageId: string,
+  file: File,
+  details: Pick<SubcontractQuotePayload, "subcontractor" | "reference">
+): Promise<{ package: SubcontractPackage; matchedLines: number; unmatchedRows: number }> {
+  const data = new FormData();
+  data.append("file", file);
+  data.append("subcontractor", details.subcontractor);
+  data.append("reference", details.reference);
+  return safeFetch(subcontractsUrl(projectId, `/${encodeURIComponent(packageId)}/quotes/import`), {
+    method: "POST",
+    body: data,
+  });
+}
+
+export async function compareSubcontractQuotes(projectId: string, packageId: string): Promise<SubcontractComparison> {
+  return safeFetch(subcontractsUrl(projectId, `/${encodeURIComponent(packageId)}/comparison`));
+}
+
+export async function downloadSubcontractEnquiry(projectId: string, packageId: string): Promise<void> {
+  return downloadFile(subcontractsUrl(projectId, `/${encodeURIComponent(packageId)}/enquiry`), "subcontract-enquiry.xlsx");
+}
+
+export async function awardSubcontractQuote(
+  projectId: string,
+  packageId: string,
+  quoteId: string
+): Promise<{ package: SubcontractPackage; updatedItems: number }> {
+  return safeFetch(
+    subcontractsUrl(projectId, `/${encodeURIComponent(packageId)}/quotes/${encodeURIComponent(quoteId)}/award`),
+    { method: "POST" }
+  );
+}
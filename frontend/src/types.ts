@@ -204,12 +204,17 @@ export interface CadExtractionItem {
   productivityRateId?: string | null;
 }
 
-export type ProjectStatus = "in_progress" | "analyzing" | "finalized";
+/** Extraction statuses, then the pricing review: items under review, all approved, bid submitted. */
+export type ProjectStatus = "in_progress" | "analyzing" | "finalized" | "in_review" | "approved" | "submitted";
+
+/** "lump_sum" projects are tendered from the BOQ alone for a single price, broken down top-down. */
+export type ProjectType = "measured" | "lump_sum";
 
 export interface ProjectSummary {
   id: string;
   name: string;
   status: ProjectStatus;
+  projectType?: ProjectType;
   createdAt: string;
   updatedAt: string;
 }
@@ -218,6 +223,10 @@ export interface ProductivityRatesRow {
   id: string;
   label: string;
   quantity: string;
+  /** Manpower rows only: trade rates code whose hourly cost prices the row. */
+  tradeCode?: string;
+  /** Equipment rows only: equipment catalogue code whose hourly cost replaces `hourlyRate`. */
+  equipmentCode?: string;
   hourlyRate?: string;
   hoursPerDay?: string;
   dailyProductivity?: string;
@@ -236,6 +245,10 @@ export interface ProductivityRatesBlock {
   equipmentRows: ProductivityRatesRow[];
   manpowerMh?: string;
   manpowerRate?: string;
+  /** Materials catalogue code priced into sub-items that use this block. */
+  materialCode?: string;
+  /** Catalogue units of material per unit of the block; empty means 1. */
+  materialQty?: string;
 }
 
 export interface ProductivityRatesPayload {
@@ -244,6 +257,85 @@ export interface ProductivityRatesPayload {
   updatedAt?: string | null;
 }
 
+export type PricingMarkupKind = "overhead" | "contingency" | "risk" | "profit" | "bond" | "insurance";
+
+export type PricingMarkupScope = "project" | "category" | "costType";
+
+export interface PricingMarkup {
+  id: string;
+  kind: PricingMarkupKind;
+  label: string;
+  /** Percentage added on top of the running cost, e.g. "10" for 10% */
+  percent: string;
+  scope: PricingMarkupScope;
+  /** Category name for "category" scope; cost column (wages, materials, subcon, equip, other) for "costType" */
+  scopeValue: string;
+}
+
+/** Named what-if stored with the project's pricing; empty fields leave the base pricing unchanged */
+export interface PricingScenario {
+  id: string;
+  name: string;
+  description: string;
+  /** Multipliers per cost column (wages, materials, subcon, equip, other), e.g. "1.1" for +10% */
+  rateMultipliers: Partial<Record<string, string>>;
+  /** Multiplier on man-hours, e.g. "1.15" for crews 15% slower */
+  productivityFactor: string;
+  /** Markups used instead of the project's, or null to keep them */
+  markups: PricingMarkup[] | null;
+  /** BOQ items let to a subcontractor; an empty rate keeps the item's current direct unit cost */
+  subconItems: Array<{ itemId: string; rate: string }>;
+}
+
+export type ProductivityAdjustmentCategory =
+  | "height"
+  | "congestion"
+  | "working_hours"
+  | "climate"
+  | "learning_curve"
+  | "other";
+
+/** Project factor on library man-hours, e.g. +15% for a congested site; empty scopes cover everything */
+export interface ProductivityAdjustment {
+  id: string;
+  name: string;
+  category: ProductivityAdjustmentCategory;
+  /** Percent added to the man-hours in scope; negative when crews beat the library rate */
+  percent: string;
+  tradeCodes: string[];
+  blockCodes: string[];
+}
+
+/** Saudi share of a project's workforce: one percentage, overridden per trade code, and the Nitaqat target */
+export interface ManpowerMix {
+  saudiPercent: string;
+  trades: Array<{ tradeCode: string; saudiPercent: string }>;
+  /** Saudi share of the man-hours the Nitaqat band requires; empty when there is none */
+  nitaqatPercent: string;
+}
+
+export type CalendarPeriodKind = "ramadan" | "holiday" | "summer_hours" | "other";
+
+/** Dates with shorter working days, or none; both dates are included (YYYY-MM-DD) */
+export interface CalendarPeriod {
+  id: string;
+  name: string;
+  kind: CalendarPeriodKind;
+  startDate: string;
+  endDate: string;
+  /** Hours on each working day of the period; "0" for a public holiday */
+  hoursPerDay: string;
+}
+
+/** Working days and hours of a project's programme; the periods are placed from the start date */
+export interface WorkingCalendar {
+  startDate: string;
+  /** Weekdays with no work, 0 for Sunday to 6 for Saturday */
+  restDays: number[];
+  hoursPerDay: string;
+  periods: CalendarPeriod[];
+}
+
 export interface PricingPayload {
   percentage: string;
   idleText: string;
@@ -253,6 +345,7 @@ export interface PricingPayload {
   projectDuration?: string;
   sellRateFactor?: string;
   sellRateOverridesByItemId?: Record<string, Partial<Record<string, string>>>;
+  markups?: PricingMarkup[];
   subItemsByItemId: Record<string, unknown>;
   autoRowQtyByItemId: Record<string, unknown>;
   qtyOverrideByItemId?: Record<string, unknown>;
@@ -260,7 +353,10 @@ export interface PricingPayload {
   completedByItemId?: Record<string, unknown>;
   /** User-defined block code; when changed to match another block, sub rows are copied from that block */
   blockCodeByItemId?: Record<string, string>;
+  allowanceInputsByItemId?: Record<string, AllowanceInputs>;
   updatedAt?: string | null;
+  /** Latest pricing revision when loaded or saved; sent back as `baseRevision` so stale saves are refused. */
+  revision?: number;
 }
 
 export type ProjectFileStatus = "pending" | "processing" | "ready" | "failed";
@@ -293,6 +389,24 @@ export interface ProjectFile {
   updatedAt: string;
 }
 
+/**
+ * How a BOQ line is priced; provisional sums, PC sums, daywork and time-related preliminaries are carried apart
+ * from measured work.
+ */
+export type BoqItemType = "measured" | "rate_only" | "provisional_sum" | "pc_sum" | "daywork" | "time_related";
+
+/**
+ * Sum (overriding the BOQ rate), PC sum attendance %, daywork hourly sell rate, and the monthly and working-day
+ * rates of a time-related preliminary.
+ */
+export interface AllowanceInputs {
+  sum?: string;
+  attendancePercent?: string;
+  hourlyRate?: string;
+  monthlyRate?: string;
+  dailyRate?: string;
+}
+
 export interface ProjectItem {
   id: string;
   fileId: string;
@@ -305,6 +419,8 @@ export interface ProjectItem {
   box?: CadExtractionBox | null;
   thickness?: number | null;
   productivityRateId?: string | null;
+  /** Set for BOQ items only. */
+  itemType?: BoqItemType | null;
   metadata?: {
     sheetName?: string;
     sheetIndex?: number;
@@ -7,7 +7,13 @@ import projectsRouter from "./routes/projects";
 import promptsRouter from "./routes/prompts";
 import authRouter from "./routes/auth";
 import productivityRatesRouter from "./routes/productivityRates";
+import productivityLibraryRouter from "./routes/productivityLibrary";
+import tradeRatesRouter from "./routes/tradeRates";
+import equipmentRouter from "./routes/equipment";
 import pricingRouter from "./routes/pricing";
+import assembliesRouter from "./routes/assemblies";
+import subcontractsRouter from "./routes/subcontracts";
+import materialsRouter from "./routes/materials";
 import { authenticate } from "./middleware/auth";
 
 const app = express();
@@ -25,7 +31,13 @@ app.use("/api/estimates", authenticate, estimatesRouter);
 app.use("/api/projects", authenticate, projectsRouter);
 app.use("/api/prompts", authenticate, promptsRouter);
 app.use("/api/productivity-rates", authenticate, productivityRatesRouter);
+app.use("/api/productivity-library", authenticate, productivityLibraryRouter);
+app.use("/api/trade-rates", authenticate, tradeRatesRouter);
+app.use("/api/equipment", authenticate, equipmentRouter);
 app.use("/api/pricing", authenticate, pricingRouter);
+app.use("/api/assemblies", authenticate, assembliesRouter);
+app.use("/api/subcontracts", authenticate, subcontractsRouter);
+app.use("/api/materials", authenticate, materialsRouter);
 
 app.use((req, res) => {
   res.status(404).json({ message: "Route not found" });
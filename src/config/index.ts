@@ -59,6 +59,11 @@ export const config = {
   airweaveApiKey: process.env.AIRWEAVE_API_KEY ?? "",
   airweaveCollectionId: process.env.AIRWEAVE_COLLECTION_ID ?? "",
   airweaveOrganizationId: process.env.AIRWEAVE_ORGANIZATION_ID ?? "",
+  // Emails (comma-separated) of the users allowed to approve changes to the company productivity library.
+  productivityLibraryAdmins: (process.env.PRODUCTIVITY_LIBRARY_ADMINS ?? "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean),
   jwtSecret: process.env.JWT_SECRET ?? "your-secret-key-change-in-production",
   jwtExpiresIn: process.env.JWT_EXPIRES_IN ?? "7d",
 };
@@ -0,0 +1,82 @@
+import mongoose, { Schema } from "mongoose";
+
+export type AssemblySource = "completed" | "manual";
+
+export interface AssemblySubitem {
+  description: string;
+  code: string;
+  qty: string;
+  thickness: number | null;
+}
+
+export interface AssemblyDocument extends mongoose.Document {
+  userId: mongoose.Types.ObjectId;
+  /** Main BOQ item description the assembly prices. */
+  description: string;
+  blockCode: string;
+  /** Lower-cased block code for exact lookups. */
+  blockCodeKey: string;
+  unit: string;
+  category: string;
+  tags: string[];
+  notes: string;
+  subitems: AssemblySubitem[];
+  /** "completed" when captured from a block marked complete on the Pricing page. */
+  source: AssemblySource;
+  sourceProjectId: mongoose.Types.ObjectId | null;
+  sourceProjectName: string;
+  sourceItemId: string;
+  updatedAt: Date;
+  createdAt: Date;
+}
+
+const AssemblySubitemSchema = new Schema<AssemblySubitem>(
+  {
+    description: { type: String, default: "" },
+    code: { type: String, default: "" },
+    qty: { type: String, default: "" },
+    thickness: { type: Number, default: null },
+  },
+  { _id: false }
+);
+
+const AssemblySchema = new Schema<AssemblyDocument>(
+  {
+    userId: { type: Schema.Types.ObjectId, required: true, index: true, ref: "User" },
+    description: { type: String, default: "" },
+    blockCode: { type: String, default: "" },
+    blockCodeKey: { type: String, default: "" },
+    unit: { type: String, default: "" },
+    category: { type: String, default: "" },
+    tags: { type: [String], default: [] },
+    notes: { type: String, default: "" },
+    subitems: { type: [AssemblySubitemSchema], default: [] },
+    source: { type: String, default: "manual" },
+    sourceProjectId: { type: Schema.Types.ObjectId, default: null, ref: "Project" },
+    sourceProjectName: { type: String, default: "" },
+    sourceItemId: { type: String, default: "" },
+  },
+  { timestamps: true }
+);
+
+// Relevance ranking: the main description and block code count most, then tags, then sub-item text.
+AssemblySchema.index(
+  {
+    description: "text",
+    blockCode: "text",
+    tags: "text",
+    category: "text",
+    "subitems.description": "text",
+    "subitems.code": "text",
+  },
+  {
+    name: "assembly_text",
+    weights: { description: 10, blockCode: 8, tags: 6, category: 3, "subitems.description": 2, "subitems.code": 2 },
+  }
+);
+AssemblySchema.index({ userId: 1, blockCodeKey: 1 });
+AssemblySchema.index({ userId: 1, tags: 1 });
+AssemblySchema.index({ userId: 1, sourceProjectId: 1, sourceItemId: 1 });
+
+export const AssemblyModel =
+  mongoose.models.Assembly ?? mongoose.model<AssemblyDocument>("Assembly", AssemblySchema);
@@ -0,0 +1,143 @@
+import { Types } from "mongoose";
+import type { FilterQuery } from "mongoose";
+import { AssemblyDocument, AssemblyModel, AssemblySubitem } from "./assemblyModel";
+
+export type AssemblyInput = {
+  description: string;
+  blockCode: string;
+  unit: string;
+  category: string;
+  tags: string[];
+  notes: string;
+  subitems: AssemblySubitem[];
+};
+
+export type AssemblySearchResult = {
+  assemblies: Array<AssemblyDocument & { score?: number }>;
+  total: number;
+};
+
+const toBlockCodeKey = (blockCode: string): string => blockCode.trim().toLowerCase();
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** The fields of the text index, matched as substrings for partial words and code fragments. */
+const SUBSTRING_FIELDS = ["description", "blockCode", "tags", "category", "subitems.description", "subitems.code"];
+
+export async function createAssembly(userId: string, input: AssemblyInput): Promise<AssemblyDocument> {
+  if (!Types.ObjectId.isValid(userId)) {
+    throw new Error("Invalid user id");
+  }
+  const assembly = new AssemblyModel({
+    userId,
+    ...input,
+    blockCodeKey: toBlockCodeKey(input.blockCode),
+    source: "manual",
+  });
+  return assembly.save();
+}
+
+export async function updateAssembly(
+  userId: string,
+  assemblyId: string,
+  input: AssemblyInput
+): Promise<AssemblyDocument | null> {
+  if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(assemblyId)) return null;
+  return AssemblyModel.findOneAndUpdate(
+    { _id: assemblyId, userId },
+    { $set: { ...input, blockCodeKey: toBlockCodeKey(input.blockCode) } },
+    { new: true }
+  ).exec();
+}
+
+export async function deleteAssembly(userId: string, assemblyId: string): Promise<boolean> {
+  if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(assemblyId)) return false;
+  const result = await AssemblyModel.deleteOne({ _id: assemblyId, userId }).exec();
+  return result.deletedCount > 0;
+}
+
+/**
+ * Captures a completed pricing block. The block's content replaces what was captured before, while tags
+ * and notes added in the library are kept.
+ */
+export async function upsertCompletedAssembly(params: {
+  userId: string;
+  projectId: string;
+  projectName: string;
+  itemId: string;
+  assembly: Omit<AssemblyInput, "tags" | "notes">;
+}): Promise<AssemblyDocument | null> {
+  if (!Types.ObjectId.isValid(params.userId) || !Types.ObjectId.isValid(params.projectId)) return null;
+  return AssemblyModel.findOneAndUpdate(
+    { userId: params.userId, sourceProjectId: params.projectId, sourceItemId: params.itemId },
+    {
+      $set: {
+        ...params.assembly,
+        blockCodeKey: toBlockCodeKey(params.assembly.blockCode),
+        sourceProjectName: params.projectName,
+      },
+      $setOnInsert: { source: "completed", tags: [], notes: "" },
+    },
+    { new: true, upsert: true }
+  ).exec();
+}
+
+/** Source item ids already captured from a project, to skip when importing. */
+export async function listCapturedItemIds(userId: string, projectId: string): Promise<Set<string>> {
+  if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(projectId)) return new Set();
+  const ids: string[] = await AssemblyModel.distinct("sourceItemId", { userId, sourceProjectId: projectId }).exec();
+  return new Set(ids);
+}
+
+/**
+ * Searches the library. Free text goes through the text index and is ranked by relevance; when that finds
+ * nothing, e.g. for a partial word ("concr") or a code fragment, the indexed fields are matched as substrings
+ * instead. A block code matches exactly (case-insensitive). Without text, or on the substring fallback, the
+ * most recently updated assemblies come first.
+ */
+export async function searchAssemblies(params: {
+  userId: string;
+  text?: string;
+  blockCode?: string;
+  tag?: string;
+  excludeProjectId?: string;
+  page: number;
+  pageSize: number;
+}): Promise<AssemblySearchResult> {
+  if (!Types.ObjectId.isValid(params.userId)) return { assemblies: [], total: 0 };
+  const filter: FilterQuery<AssemblyDocument> = { userId: params.userId };
+  if (params.blockCode?.trim()) filter.blockCodeKey = toBlockCodeKey(params.blockCode);
+  if (params.tag?.trim()) filter.tags = params.tag.trim().toLowerCase();
+  if (params.excludeProjectId && Types.ObjectId.isValid(params.excludeProjectId)) {
+    filter.sourceProjectId = { $ne: new Types.ObjectId(params.excludeProjectId) };
+  }
+  const skip = (params.page - 1) * params.pageSize;
+
+  const text = params.text?.trim();
+  if (text) {
+    const textFilter = { ...filter, $text: { $search: text } };
+    const [assemblies, total] = await Promise.all([
+      AssemblyModel.find(textFilter, { score: { $meta: "textScore" } })
+        .sort({ score: { $meta: "textScore" }, updatedAt: -1 })
+        .skip(skip)
+        .limit(params.pageSize)
+        .exec(),
+      AssemblyModel.countDocuments(textFilter).exec(),
+    ]);
+    if (total > 0) return { assemblies, total };
+    const pattern = new RegExp(escapeRegex(text), "i");
+    filter.$or = SUBSTRING_FIELDS.map((field) => ({ [field]: pattern }));
+  }
+
+  const [assemblies, total] = await Promise.all([
+    AssemblyModel.find(filter).sort({ updatedAt: -1 }).skip(skip).limit(params.pageSize).exec(),
+    AssemblyModel.countDocuments(filter).exec(),
+  ]);
+  return { assemblies, total };
+}
+
+export async function listAssemblyTags(userId: string): Promise<string[]> {
+  if (!Types.ObjectId.isValid(userId)) return [];
+  const tags: string[] = await AssemblyModel.distinct("tags", { userId }).exec();
+  return tags.sort((a, b) => a.localeCompare(b));
+}
@@ -0,0 +1,71 @@
+import mongoose, { Schema } from "mongoose";
+
+export type EquipmentCostBasis = "owned" | "rented";
+
+export type EquipmentRatePeriod = "hour" | "day" | "month";
+
+export const EQUIPMENT_COST_BASES: EquipmentCostBasis[] = ["owned", "rented"];
+
+export const EQUIPMENT_RATE_PERIODS: EquipmentRatePeriod[] = ["hour", "day", "month"];
+
+/** A plant item in the user's equipment catalogue; its hourly cost is worked out in services/pricing/equipmentCatalogue.ts. */
+export interface EquipmentDocument extends mongoose.Document {
+  userId: mongoose.Types.ObjectId;
+  code: string;
+  /** Lower-cased code, unique per user; productivity block equipment rows link to it. */
+  codeKey: string;
+  description: string;
+  costBasis: EquipmentCostBasis;
+  /**
+   * Rental charge per `ratePeriod`; for owned plant without a purchase price, the ownership cost per period
+   * worked out elsewhere.
+   */
+  baseRate: number;
+  ratePeriod: EquipmentRatePeriod;
+  /** Owned plant: depreciated from the purchase price down to the residual value over `usefulLifeHours`. */
+  purchasePrice: number;
+  residualValue: number;
+  usefulLifeHours: number;
+  /** Owned plant: maintenance and repairs as a percentage of the depreciation. */
+  maintenancePercent: number;
+  /** Working hours in a day, to turn day and month rates into hourly ones. */
+  hoursPerDay: number;
+  fuelLitresPerHour: number;
+  fuelPricePerLitre: number;
+  operatorRequired: boolean;
+  operatorHourlyCost: number;
+  /** Mobilisation and demobilisation, spread over `mobilisationHours` on site; left out when that is 0. */
+  mobilisationCost: number;
+  mobilisationHours: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EquipmentSchema = new Schema<EquipmentDocument>(
+  {
+    userId: { type: Schema.Types.ObjectId, required: true, index: true, ref: "User" },
+    code: { type: String, required: true },
+    codeKey: { type: String, required: true },
+    description: { type: String, default: "" },
+    costBasis: { type: String, default: "owned" },
+    baseRate: { type: Number, default: 0 },
+    ratePeriod: { type: String, default: "hour" },
+    purchasePrice: { type: Number, default: 0 },
+    residualValue: { type: Number, default: 0 },
+    usefulLifeHours: { type: Number, default: 0 },
+    maintenancePercent: { type: Number, default: 0 },
+    hoursPerDay: { type: Number, default: 10 },
+    fuelLitresPerHour: { type: Number, default: 0 },
+    fuelPricePerLitre: { type: Number, default: 0 },
+    operatorRequired: { type: Boolean, default: false },
+    operatorHourlyCost: { type: Number, default: 0 },
+    mobilisationCost: { type: Number, default: 0 },
+    mobilisationHours: { type: Number, default: 0 },
+  },
+  { timestamps: true }
+);
+
+EquipmentSchema.index({ userId: 1, codeKey: 1 }, { unique: true });
+
+export const EquipmentModel =
+  mongoose.models.Equipment ?? mongoose.model<EquipmentDocument>("Equipment", EquipmentSchema);
@@ -0,0 +1,60 @@
+import { Types } from "mongoose";
+import { EquipmentCostBasis, EquipmentDocument, EquipmentModel, EquipmentRatePeriod } from "./equipmentModel";
+
+export type EquipmentInput = {
+  code: string;
+  description: string;
+  costBasis: EquipmentCostBasis;
+  baseRate: number;
+  ratePeriod: EquipmentRatePeriod;
+  purchasePrice: number;
+  residualValue: number;
+  usefulLifeHours: number;
+  maintenancePercent: number;
+  hoursPerDay: number;
+  fuelLitresPerHour: number;
+  fuelPricePerLitre: number;
+  operatorRequired: boolean;
+  operatorHourlyCost: number;
+  mobilisationCost: number;
+  mobilisationHours: number;
+};
+
+export const toEquipmentCodeKey = (code: string): string => code.trim().toLowerCase();
+
+export async function listEquipment(userId: string): Promise<EquipmentDocument[]> {
+  if (!Types.ObjectId.isValid(userId)) return [];
+  return EquipmentModel.find({ userId }).sort({ codeKey: 1 }).exec();
+}
+
+export async function findEquipmentByCode(userId: string, code: string): Promise<EquipmentDocument | null> {
+  if (!Types.ObjectId.isValid(userId)) return null;
+  return EquipmentModel.findOne({ userId, codeKey: toEquipmentCodeKey(code) }).exec();
+}
+
+export async function createEquipment(userId: string, input: EquipmentInput): Promise<EquipmentDocument> {
+  if (!Types.ObjectId.isValid(userId)) {
+    throw new Error("Invalid user id");
+  }
+  const record = new EquipmentModel({ userId, ...input, codeKey: toEquipmentCodeKey(input.code) });
+  return record.save();
+}
+
+export async function updateEquipment(
+  userId: string,
+  equipmentId: string,
+  input: EquipmentInput
+): Promise<EquipmentDocument | null> {
+  if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(equipmentId)) return null;
+  return EquipmentModel.findOneAndUpdate(
+    { _id: equipmentId, userId },
+    { $set: { ...input, codeKey: toEquipmentCodeKey(input.code) } },
+    { new: true }
+  ).exec();
+}
+
+export async function deleteEquipment(userId: string, equipmentId: string): Promise<boolean> {
+  if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(equipmentId)) return false;
+  const result = await EquipmentModel.deleteOne({ _id: equipmentId, userId }).exec();
+  return result.deletedCount > 0;
+}
@@ -0,0 +1,39 @@
+import mongoose, { Schema } from "mongoose";
+
+export interface MaterialPriceDocument extends mongoose.Document {
+  userId: mongoose.Types.ObjectId;
+  code: string;
+  /** Lower-cased code; prices of the same material share it across suppliers and dates. */
+  codeKey: string;
+  description: string;
+  unit: string;
+  supplier: string;
+  price: number;
+  currency: string;
+  validFrom: Date;
+  /** Open-ended when null. */
+  validTo: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MaterialPriceSchema = new Schema<MaterialPriceDocument>(
+  {
+    userId: { type: Schema.Types.ObjectId, required: true, index: true, ref: "User" },
+    code: { type: String, required: true },
+    codeKey: { type: String, required: true },
+    description: { type: String, default: "" },
+    unit: { type: String, default: "" },
+    supplier: { type: String, default: "" },
+    price: { type: Number, required: true },
+    currency: { type: String, default: "SAR" },
+    validFrom: { type: Date, required: true },
+    validTo: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+MaterialPriceSchema.index({ userId: 1, codeKey: 1, validFrom: -1 });
+
+export const MaterialPriceModel =
+  mongoose.models.MaterialPrice ?? mongoose.model<MaterialPriceDocument>("MaterialPrice", MaterialPriceSchema);
@@ -0,0 +1,59 @@
+import { Types } from "mongoose";
+import { MaterialPriceDocument, MaterialPriceModel } from "./materialPriceModel";
+
+export type MaterialPriceInput = {
+  code: string;
+  description: string;
+  unit: string;
+  supplier: string;
+  price: number;
+  currency: string;
+  validFrom: Date;
+  validTo: Date | null;
+};
+
+export const toMaterialCodeKey = (code: string): string => code.trim().toLowerCase();
+
+/** Every price in the user's catalogue, grouped by code with the newest price first. */
+export async function listMaterialPrices(userId: string): Promise<MaterialPriceDocument[]> {
+  if (!Types.ObjectId.isValid(userId)) return [];
+  return MaterialPriceModel.find({ userId }).sort({ codeKey: 1, validFrom: -1, createdAt: -1 }).exec();
+}
+
+export async function createMaterialPrice(userId: string, input: MaterialPriceInput): Promise<MaterialPriceDocument> {
+  if (!Types.ObjectId.isValid(userId)) {
+    throw new Error("Invalid user id");
+  }
+  const record = new MaterialPriceModel({ userId, ...input, codeKey: toMaterialCodeKey(input.code) });
+  return record.save();
+}
+
+export async function insertMaterialPrices(userId: string, inputs: MaterialPriceInput[]): Promise<number> {
+  if (!Types.ObjectId.isValid(userId)) {
+    throw new Error("Invalid user id");
+  }
+  if (inputs.length === 0) return 0;
+  const saved = await MaterialPriceModel.insertMany(
+    inputs.map((input) => ({ userId, ...input, codeKey: toMaterialCodeKey(input.code) }))
+  );
+  return saved.length;
+}
+
+export async function updateMaterialPrice(
+  userId: string,
+  priceId: string,
+  input: MaterialPriceInput
+): Promise<MaterialPriceDocument | null> {
+  if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(priceId)) return null;
+  return MaterialPriceModel.findOneAndUpdate(
+    { _id: priceId, userId },
+    { $set: { ...input, codeKey: toMaterialCodeKey(input.code) } },
+    { new: true }
+  ).exec();
+}
+
+export async function deleteMaterialPrice(userId: string, priceId: string): Promise<boolean> {
+  if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(priceId)) return false;
+  const result = await MaterialPriceModel.deleteOne({ _id: priceId, userId }).exec();
+  return result.deletedCount > 0;
+}
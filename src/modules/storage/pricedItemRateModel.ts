@@ -0,0 +1,40 @@
+import mongoose, { Schema } from "mongoose";
+
+/**
+ * The sell unit rate of one priced BOQ item, stored each time the project's pricing is saved so other
+ * projects can benchmark against it without re-running the pricing engine.
+ */
+export interface PricedItemRateDocument extends mongoose.Document {
+  userId: mongoose.Types.ObjectId;
+  projectId: mongoose.Types.ObjectId;
+  itemId: string;
+  itemCode: string;
+  description: string;
+  unit: string;
+  /** Dimension of `unit` (see services/pricing/units.ts); rates only compare within one. */
+  unitDimension: string;
+  rate: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PricedItemRateSchema = new Schema<PricedItemRateDocument>(
+  {
+    userId: { type: Schema.Types.ObjectId, required: true, index: true, ref: "User" },
+    projectId: { type: Schema.Types.ObjectId, required: true, ref: "Project" },
+    itemId: { type: String, required: true },
+    itemCode: { type: String, default: "" },
+    description: { type: String, default: "" },
+    unit: { type: String, default: "" },
+    unitDimension: { type: String, default: "" },
+    rate: { type: Number, required: true },
+  },
+  { timestamps: true }
+);
+
+PricedItemRateSchema.index({ userId: 1, projectId: 1 });
+PricedItemRateSchema.index({ userId: 1, unitDimension: 1, projectId: 1 });
+
+export const PricedItemRateModel =
+  mongoose.models.PricedItemRate ??
+  mongoose.model<PricedItemRateDocument>("PricedItemRate", PricedItemRateSchema);
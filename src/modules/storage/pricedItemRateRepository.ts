@@ -0,0 +1,37 @@
+import { Types } from "mongoose";
+import { PricedItemRateDocument, PricedItemRateModel } from "./pricedItemRateModel";
+
+export type PricedItemRateInput = {
+  itemId: string;
+  itemCode: string;
+  description: string;
+  unit: string;
+  unitDimension: string;
+  rate: number;
+};
+
+/** Replaces the stored rates of a project with those of its latest saved pricing. */
+export async function replacePricedItemRates(
+  userId: string,
+  projectId: string,
+  rates: PricedItemRateInput[]
+): Promise<void> {
+  if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(projectId)) {
+    throw new Error("Invalid project or user id");
+  }
+  await PricedItemRateModel.deleteMany({ userId, projectId }).exec();
+  if (rates.length === 0) return;
+  await PricedItemRateModel.insertMany(rates.map((rate) => ({ userId, projectId, ...rate })));
+}
+
+/** Stored rates of the given projects in one unit dimension. */
+export async function listPricedItemRates(
+  userId: string,
+  projectIds: string[],
+  unitDimension: string
+): Promise<PricedItemRateDocument[]> {
+  if (!Types.ObjectId.isValid(userId)) return [];
+  const ids = projectIds.filter((id) => Types.ObjectId.isValid(id));
+  if (ids.length === 0) return [];
+  return PricedItemRateModel.find({ userId, unitDimension, projectId: { $in: ids } }).exec();
+}
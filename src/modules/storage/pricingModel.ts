@@ -1,5 +1,11 @@
 import mongoose, { Schema } from "mongoose";
 
+export interface MaterialWasteFactor {
+  /** Take-off line key: productivity code (or description) and unit. */
+  key: string;
+  percent: string;
+}
+
 export interface PricingDocument extends mongoose.Document {
   userId: mongoose.Types.ObjectId;
   projectId: mongoose.Types.ObjectId;
@@ -7,12 +13,47 @@ export interface PricingDocument extends mongoose.Document {
   idleText: string;
   poRate: string;
   mpHourlyRate: string;
+  totalPriceFactor: string;
+  /** Project duration in months; drives "Total Working Days" on the Pricing summary. */
+  projectDuration: string;
+  /** Default sell-rate percentage applied to every cost column. */
+  sellRateFactor: string;
+  /** Per-item sell-rate percentages keyed by item id, then by column (wages, materials, subcon, equip, other). */
+  sellRateOverridesByItemId: Record<string, unknown>;
+  /** Layered markups (overhead, profit, contingency, ...) scoped to the project, a category or a cost type. */
+  markups: unknown[];
+  /** Named what-if scenarios (rate multipliers, markups, items let to subcontract, productivity factor). */
+  scenarios: unknown[];
+  /** Default waste percentage added to material take-off quantities. */
+  materialWastePercent: string;
+  /** Per-line waste percentages, kept as a list since codes such as "03.30" contain dots. */
+  materialWasteFactors: MaterialWasteFactor[];
+  /** Trade packages and the lump sum of a lump-sum project (see services/pricing/lumpSum.ts). */
+  lumpSum: unknown;
+  /** Spending profile and payment terms of the cash-flow forecast (see services/pricing/cashFlow.ts). */
+  cashFlowTerms: unknown;
+  /** Company productivity library version the project is priced against; null prices with the user's own rates. */
+  libraryVersion: number | null;
+  /** Location whose trade table prices the crews (see tradeRatesModel.ts); null prices them at the manpower hourly rate. */
+  tradeLocation: string | null;
+  /** Project productivity factors applied to library man-hours (see services/pricing/productivityAdjustments.ts). */
+  productivityAdjustments: unknown[];
+  /** Working days and hours of the programme (see services/pricing/workingCalendar.ts); null for a flat 160 h month. */
+  workingCalendar: unknown;
+  /** Saudi share of the workforce per trade and the Nitaqat target (see services/pricing/manpowerMix.ts). */
+  manpowerMix: unknown;
   subItemsByItemId: Record<string, unknown>;
   autoRowQtyByItemId: Record<string, unknown>;
   qtyOverrideByItemId: Record<string, unknown>;
   collapsedByItemId: Record<string, unknown>;
   completedByItemId: Record<string, unknown>;
   blockCodeByItemId: Record<string, unknown>;
+  /** Sum, attendance and daywork rate of the allowance lines (see AllowanceInputs in pricingEngine.ts). */
+  allowanceInputsByItemId: Record<string, unknown>;
+  /** Review workflow state and history per item (see services/pricing/reviewWorkflow.ts); not part of the page save. */
+  reviewByItemId: Record<string, unknown>;
+  /** Number of the latest pricing revision (see pricingRevisionModel.ts); 0 before the first save. */
+  revision: number;
   updatedAt: Date;
   createdAt: Date;
 }
@@ -25,12 +66,33 @@ const PricingSchema = new Schema<PricingDocument>(
     idleText: { type: String, default: "idle time" },
     poRate: { type: String, default: "8" },
     mpHourlyRate: { type: String, default: "0" },
+    totalPriceFactor: { type: String, default: "0" },
+    projectDuration: { type: String, default: "2" },
+    sellRateFactor: { type: String, default: "12.14" },
+    sellRateOverridesByItemId: { type: Schema.Types.Mixed, default: {} },
+    markups: { type: [Schema.Types.Mixed], default: [] },
+    scenarios: { type: [Schema.Types.Mixed], default: [] },
+    materialWastePercent: { type: String, default: "5" },
+    materialWasteFactors: {
+      type: [new Schema<MaterialWasteFactor>({ key: String, percent: String }, { _id: false })],
+      default: [],
+    },
+    lumpSum: { type: Schema.Types.Mixed, default: null },
+    cashFlowTerms: { type: Schema.Types.Mixed, default: null },
+    libraryVersion: { type: Number, default: null },
+    tradeLocation: { type: String, default: null },
+    productivityAdjustments: { type: [Schema.Types.Mixed], default: [] },
+    workingCalendar: { type: Schema.Types.Mixed, default: null },
+    manpowerMix: { type: Schema.Types.Mixed, default: null },
     subItemsByItemId: { type: Schema.Types.Mixed, default: {} },
     autoRowQtyByItemId: { type: Schema.Types.Mixed, default: {} },
     qtyOverrideByItemId: { type: Schema.Types.Mixed, default: {} },
     collapsedByItemId: { type: Schema.Types.Mixed, default: {} },
     completedByItemId: { type: Schema.Types.Mixed, default: {} },
     blockCodeByItemId: { type: Schema.Types.Mixed, default: {} },
+    allowanceInputsByItemId: { type: Schema.Types.Mixed, default: {} },
+    reviewByItemId: { type: Schema.Types.Mixed, default: {} },
+    revision: { type: Number, default: 0 },
   },
   { timestamps: true }
 );
@@ -1,39 +1,210 @@
-import { PricingModel } from "./pricingModel";
+import { MaterialWasteFactor, PricingDocument, PricingModel } from "./pricingModel";
+
+/** Scalar pricing settings and the values a project starts with before it is first saved. */
+export const PRICING_SETTING_DEFAULTS = {
+  percentage: "10",
+  idleText: "idle time",
+  poRate: "8",
+  mpHourlyRate: "0",
+  totalPriceFactor: "0",
+  projectDuration: "2",
+  sellRateFactor: "12.14",
+} as const;
 
 export type PricingPayload = {
   percentage: string;
   idleText: string;
   poRate: string;
   mpHourlyRate: string;
+  totalPriceFactor?: string;
+  projectDuration?: string;
+  sellRateFactor?: string;
+  sellRateOverridesByItemId?: Record<string, unknown>;
+  markups?: unknown[];
   subItemsByItemId: Record<string, unknown>;
   autoRowQtyByItemId: Record<string, unknown>;
   qtyOverrideByItemId?: Record<string, unknown>;
   collapsedByItemId?: Record<string, unknown>;
   completedByItemId?: Record<string, unknown>;
   blockCodeByItemId?: Record<string, unknown>;
+  allowanceInputsByItemId?: Record<string, unknown>;
 };
 
 export async function getPricing(userId: string, projectId: string) {
   return PricingModel.findOne({ userId, projectId }).exec();
 }
 
-export async function upsertPricing(userId: string, projectId: string, payload: PricingPayload) {
+/** The page-saved fields of a stored pricing, or of a payload, with the defaults filled in; revisions snapshot this. */
+export function toPricingPayload(record: Partial<PricingPayload>): PricingPayload {
+  return {
+    percentage: record.percentage ?? PRICING_SETTING_DEFAULTS.percentage,
+    idleText: record.idleText ?? PRICING_SETTING_DEFAULTS.idleText,
+    poRate: record.poRate ?? PRICING_SETTING_DEFAULTS.poRate,
+    mpHourlyRate: record.mpHourlyRate ?? PRICING_SETTING_DEFAULTS.mpHourlyRate,
+    totalPriceFactor: record.totalPriceFactor ?? PRICING_SETTING_DEFAULTS.totalPriceFactor,
+    projectDuration: record.projectDuration ?? PRICING_SETTING_DEFAULTS.projectDuration,
+    sellRateFactor: record.sellRateFactor ?? PRICING_SETTING_DEFAULTS.sellRateFactor,
+    sellRateOverridesByItemId: record.sellRateOverridesByItemId ?? {},
+    markups: record.markups ?? [],
+    subItemsByItemId: record.subItemsByItemId ?? {},
+    autoRowQtyByItemId: record.autoRowQtyByItemId ?? {},
+    qtyOverrideByItemId: record.qtyOverrideByItemId ?? {},
+    collapsedByItemId: record.collapsedByItemId ?? {},
+    completedByItemId: record.completedByItemId ?? {},
+    blockCodeByItemId: record.blockCodeByItemId ?? {},
+    allowanceInputsByItemId: record.allowanceInputsByItemId ?? {},
+  };
+}
+
+/**
+ * Saves the page's pricing as the next revision. With `expectedRevision` the write only goes ahead while the
+ * stored pricing is still at that revision, checked in the same write; null when it has moved on.
+ */
+export async function upsertPricing(
+  userId: string,
+  projectId: string,
+  payload: PricingPayload,
+  expectedRevision?: number
+): Promise<PricingDocument | null> {
+  const filter =
+    expectedRevision === undefined
+      ? { userId, projectId }
+      : // Pricing stored before revisions were numbered has no revision yet.
+        { userId, projectId, revision: expectedRevision === 0 ? { $in: [0, null] } : expectedRevision };
+  try {
+    return await PricingModel.findOneAndUpdate(
+      filter,
+      { $set: toPricingPayload(payload), $inc: { revision: 1 } },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    ).exec();
+  } catch (err: any) {
+    // A pricing stored at another revision misses the filter, so the upsert collides with it on the unique index.
+    if (expectedRevision !== undefined && err?.code === 11000) return null;
+    throw err;
+  }
+}
+
+/** Saves the take-off waste factors; kept out of upsertPricing so saving the Pricing page leaves them alone. */
+export async function updateMaterialWaste(
+  userId: string,
+  projectId: string,
+  materialWastePercent: string,
+  materialWasteFactors: MaterialWasteFactor[]
+) {
+  return PricingModel.findOneAndUpdate(
+    { userId, projectId },
+    { $set: { materialWastePercent, materialWasteFactors } },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  ).exec();
+}
+
+/** Replaces the project's what-if scenarios; like the waste factors, these are not part of the page save. */
+export async function updatePricingScenarios(userId: string, projectId: string, scenarios: unknown[]) {
+  return PricingModel.findOneAndUpdate(
+    { userId, projectId },
+    { $set: { scenarios } },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  ).exec();
+}
+
+/** Saves a lump-sum project's top-down breakdown; also kept out of the page save. */
+export async function updatePricingLumpSum(userId: string, projectId: string, lumpSum: unknown) {
+  return PricingModel.findOneAndUpdate(
+    { userId, projectId },
+    { $set: { lumpSum } },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  ).exec();
+}
+
+/** Saves the cash-flow spending profile and payment terms; not part of the page save either. */
+export async function updatePricingCashFlowTerms(userId: string, projectId: string, cashFlowTerms: unknown) {
+  return PricingModel.findOneAndUpdate(
+    { userId, projectId },
+    { $set: { cashFlowTerms } },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  ).exec();
+}
+
+/** Pins the project to a company productivity library version, or back to the user's own rates with null. */
+export async function updatePricingLibraryVersion(userId: string, projectId: string, libraryVersion: number | null) {
+  return PricingModel.findOneAndUpdate(
+    { userId, projectId },
+    { $set: { libraryVersion } },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  ).exec();
+}
+
+/** Prices the project's crews from a location's trade table, or at the manpower hourly rate with null. */
+export async function updatePricingTradeLocation(userId: string, projectId: string, tradeLocation: string | null) {
+  return PricingModel.findOneAndUpdate(
+    { userId, projectId },
+    { $set: { tradeLocation } },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  ).exec();
+}
+
+/** Replaces the project's productivity adjustment factors; not part of the page save. */
+export async function updatePricingProductivityAdjustments(
+  userId: string,
+  projectId: string,
+  productivityAdjustments: unknown[]
+) {
+  return PricingModel.findOneAndUpdate(
+    { userId, projectId },
+    { $set: { productivityAdjustments } },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  ).exec();
+}
+
+/** Saves the project's working calendar, or removes it with null; not part of the page save. */
+export async function updatePricingWorkingCalendar(userId: string, projectId: string, workingCalendar: unknown) {
+  return PricingModel.findOneAndUpdate(
+    { userId, projectId },
+    { $set: { workingCalendar } },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  ).exec();
+}
+
+/** Saves the project's Saudi/expatriate manpower mix, or removes it with null; not part of the page save. */
+export async function updatePricingManpowerMix(userId: string, projectId: string, manpowerMix: unknown) {
+  return PricingModel.findOneAndUpdate(
+    { userId, projectId },
+    { $set: { manpowerMix } },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  ).exec();
+}
+
+/**
+ * Replaces the sub-item rows of the given items only, as the next revision; other blocks and settings are
+ * left as saved.
+ */
+export async function updatePricingSubItems(
+  userId: string,
+  projectId: string,
+  subItemsByItemId: Record<string, unknown[]>
+) {
+  const update = Object.fromEntries(
+    Object.entries(subItemsByItemId).map(([itemId, rows]) => [`subItemsByItemId.${itemId}`, rows])
+  );
+  return PricingModel.findOneAndUpdate(
+    { userId, projectId },
+    { $set: update, $inc: { revision: 1 } },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  ).exec();
+}
+
+/** Replaces the review state of the given items only, like updatePricingSubItems. */
+export async function updatePricingItemReviews(
+  userId: string,
+  projectId: string,
+  reviewByItemId: Record<string, unknown>
+) {
+  const update = Object.fromEntries(
+    Object.entries(reviewByItemId).map(([itemId, review]) => [`reviewByItemId.${itemId}`, review])
+  );
   return PricingModel.findOneAndUpdate(
     { userId, projectId },
-    {
-      $set: {
-        percentage: payload.percentage ?? "10",
-        idleText: payload.idleText ?? "idle time",
-        poRate: payload.poRate ?? "8",
-        mpHourlyRate: payload.mpHourlyRate ?? "0",
-        subItemsByItemId: payload.subItemsByItemId ?? {},
-        autoRowQtyByItemId: payload.autoRowQtyByItemId ?? {},
-        qtyOverrideByItemId: payload.qtyOverrideByItemId ?? {},
-        collapsedByItemId: payload.collapsedByItemId ?? {},
-        completedByItemId: payload.completedByItemId ?? {},
-        blockCodeByItemId: payload.blockCodeByItemId ?? {},
-      },
-    },
+    { $set: update },
     { new: true, upsert: true, setDefaultsOnInsert: true }
   ).exec();
 }
@@ -0,0 +1,38 @@
+import mongoose, { Schema } from "mongoose";
+
+export interface PricingRevisionDocument extends mongoose.Document {
+  userId: mongoose.Types.ObjectId;
+  projectId: mongoose.Types.ObjectId;
+  revision: number;
+  authorId: mongoose.Types.ObjectId;
+  authorName: string;
+  note: string;
+  /** Full pricing payload as it was saved, so the revision can be diffed or restored on its own. */
+  snapshot: Record<string, unknown>;
+  restoredFrom?: number | null;
+  /** Company productivity library version the project was priced against when saved; null for own rates. */
+  libraryVersion?: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PricingRevisionSchema = new Schema<PricingRevisionDocument>(
+  {
+    userId: { type: Schema.Types.ObjectId, required: true, index: true, ref: "User" },
+    projectId: { type: Schema.Types.ObjectId, required: true, index: true, ref: "Project" },
+    revision: { type: Number, required: true },
+    authorId: { type: Schema.Types.ObjectId, required: true, ref: "User" },
+    authorName: { type: String, default: "" },
+    note: { type: String, default: "" },
+    snapshot: { type: Schema.Types.Mixed, required: true },
+    restoredFrom: { type: Number, default: null },
+    libraryVersion: { type: Number, default: null },
+  },
+  { timestamps: true }
+);
+
+PricingRevisionSchema.index({ userId: 1, projectId: 1, revision: -1 }, { unique: true });
+
+export const PricingRevisionModel =
+  mongoose.models.PricingRevision ??
+  mongoose.model<PricingRevisionDocument>("PricingRevision", PricingRevisionSchema);
@@ -0,0 +1,51 @@
+import { Types } from "mongoose";
+import { PricingRevisionDocument, PricingRevisionModel } from "./pricingRevisionModel";
+import type { PricingDocument } from "./pricingModel";
+import { toPricingPayload } from "./pricingRepository";
+
+/**
+ * Records a pricing just written as a new revision (upsertPricing moves it on to the next number), with its
+ * page-saved fields as the snapshot.
+ */
+export async function createPricingRevision(params: {
+  pricing: PricingDocument;
+  authorId: string;
+  authorName: string;
+  note?: string;
+  restoredFrom?: number | null;
+}): Promise<PricingRevisionDocument> {
+  const { pricing } = params;
+  return PricingRevisionModel.create({
+    userId: pricing.userId,
+    projectId: pricing.projectId,
+    revision: pricing.revision,
+    authorId: params.authorId,
+    authorName: params.authorName,
+    note: String(params.note ?? "").trim(),
+    snapshot: toPricingPayload(pricing),
+    restoredFrom: params.restoredFrom ?? null,
+    libraryVersion: pricing.libraryVersion ?? null,
+  });
+}
+
+/** Lists revisions newest first without their snapshots. */
+export async function listPricingRevisions(
+  userId: string,
+  projectId: string
+): Promise<PricingRevisionDocument[]> {
+  if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(projectId)) return [];
+  return PricingRevisionModel.find({ userId, projectId })
+    .select({ snapshot: 0 })
+    .sort({ revision: -1 })
+    .exec();
+}
+
+export async function findPricingRevision(
+  userId: string,
+  projectId: string,
+  revision: number
+): Promise<PricingRevisionDocument | null> {
+  if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(projectId)) return null;
+  if (!Number.isInteger(revision) || revision < 1) return null;
+  return PricingRevisionModel.findOne({ userId, projectId, revision }).exec();
+}
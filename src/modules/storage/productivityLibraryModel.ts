@@ -0,0 +1,103 @@
+import mongoose, { Schema } from "mongoose";
+import { ProductivityRatesBlock, ProductivityRatesBlockSchema } from "./productivityRatesModel";
+
+export type LibraryChangeAction = "added" | "updated" | "removed";
+
+/** One block changed by a proposal; `block` is the new content, null when the block is removed. */
+export interface LibraryBlockChange {
+  code: string;
+  action: LibraryChangeAction;
+  block: ProductivityRatesBlock | null;
+}
+
+export type LibraryProposalStatus = "pending" | "approved" | "rejected";
+
+/**
+ * A published version of the company productivity library. Versions are never edited: each approved proposal
+ * publishes the next one with the full block list, so projects priced against a version keep their rates.
+ */
+export interface ProductivityLibraryVersionDocument extends mongoose.Document {
+  version: number;
+  factor: string;
+  blocks: ProductivityRatesBlock[];
+  /** What changed against the previous version; the per-block change log is read from these. */
+  changes: LibraryBlockChange[];
+  note: string;
+  proposalId: mongoose.Types.ObjectId | null;
+  proposedByName: string;
+  publishedById: mongoose.Types.ObjectId;
+  publishedByName: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** A user's suggested changes to the library, waiting for an admin to approve or reject them. */
+export interface ProductivityLibraryProposalDocument extends mongoose.Document {
+  userId: mongoose.Types.ObjectId;
+  userName: string;
+  /** Library version the changes were worked out against; null when there was no library yet. */
+  baseVersion: number | null;
+  /** New manpower hourly rate, or null to keep the library's. */
+  factor: string | null;
+  changes: LibraryBlockChange[];
+  note: string;
+  status: LibraryProposalStatus;
+  reviewedById: mongoose.Types.ObjectId | null;
+  reviewedByName: string;
+  reviewedAt: Date | null;
+  reviewComment: string;
+  /** Version the approval published. */
+  publishedVersion: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LibraryBlockChangeSchema = new Schema<LibraryBlockChange>(
+  {
+    code: { type: String, required: true },
+    action: { type: String, required: true },
+    block: { type: ProductivityRatesBlockSchema, default: null },
+  },
+  { _id: false }
+);
+
+const ProductivityLibraryVersionSchema = new Schema<ProductivityLibraryVersionDocument>(
+  {
+    version: { type: Number, required: true, unique: true },
+    factor: { type: String, default: "1" },
+    blocks: { type: [ProductivityRatesBlockSchema], default: [] },
+    changes: { type: [LibraryBlockChangeSchema], default: [] },
+    note: { type: String, default: "" },
+    proposalId: { type: Schema.Types.ObjectId, default: null, ref: "ProductivityLibraryProposal" },
+    proposedByName: { type: String, default: "" },
+    publishedById: { type: Schema.Types.ObjectId, required: true, ref: "User" },
+    publishedByName: { type: String, default: "" },
+  },
+  { timestamps: true }
+);
+
+const ProductivityLibraryProposalSchema = new Schema<ProductivityLibraryProposalDocument>(
+  {
+    userId: { type: Schema.Types.ObjectId, required: true, index: true, ref: "User" },
+    userName: { type: String, default: "" },
+    baseVersion: { type: Number, default: null },
+    factor: { type: String, default: null },
+    changes: { type: [LibraryBlockChangeSchema], default: [] },
+    note: { type: String, default: "" },
+    status: { type: String, default: "pending", index: true },
+    reviewedById: { type: Schema.Types.ObjectId, default: null, ref: "User" },
+    reviewedByName: { type: String, default: "" },
+    reviewedAt: { type: Date, default: null },
+    reviewComment: { type: String, default: "" },
+    publishedVersion: { type: Number, default: null },
+  },
+  { timestamps: true }
+);
+
+export const ProductivityLibraryVersionModel =
+  mongoose.models.ProductivityLibraryVersion ??
+  mongoose.model<ProductivityLibraryVersionDocument>("ProductivityLibraryVersion", ProductivityLibraryVersionSchema);
+
+export const ProductivityLibraryProposalModel =
+  mongoose.models.ProductivityLibraryProposal ??
+  mongoose.model<ProductivityLibraryProposalDocument>("ProductivityLibraryProposal", ProductivityLibraryProposalSchema);
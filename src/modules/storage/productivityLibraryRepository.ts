@@ -0,0 +1,116 @@
+import { Types } from "mongoose";
+import type { ProductivityRatesBlock } from "./productivityRatesModel";
+import {
+  LibraryBlockChange,
+  LibraryProposalStatus,
+  ProductivityLibraryProposalDocument,
+  ProductivityLibraryProposalModel,
+  ProductivityLibraryVersionDocument,
+  ProductivityLibraryVersionModel,
+} from "./productivityLibraryModel";
+
+export async function getLatestLibraryVersion(): Promise<ProductivityLibraryVersionDocument | null> {
+  return ProductivityLibraryVersionModel.findOne().sort({ version: -1 }).exec();
+}
+
+export async function findLibraryVersion(version: number): Promise<ProductivityLibraryVersionDocument | null> {
+  if (!Number.isInteger(version) || version < 1) return null;
+  return ProductivityLibraryVersionModel.findOne({ version }).exec();
+}
+
+/** Every version, newest first, without the block lists. */
+export async function listLibraryVersions(): Promise<ProductivityLibraryVersionDocument[]> {
+  return ProductivityLibraryVersionModel.find().select("-blocks").sort({ version: -1 }).exec();
+}
+
+/**
+ * Publishes the next version number. The unique index on `version` makes a concurrent publish of the same
+ * number fail rather than overwrite.
+ */
+export async function createLibraryVersion(input: {
+  factor: string;
+  blocks: ProductivityRatesBlock[];
+  changes: LibraryBlockChange[];
+  note: string;
+  proposalId: string | null;
+  proposedByName: string;
+  publishedById: string;
+  publishedByName: string;
+}): Promise<ProductivityLibraryVersionDocument> {
+  if (!Types.ObjectId.isValid(input.publishedById)) {
+    throw new Error("Invalid user id");
+  }
+  const latest = await ProductivityLibraryVersionModel.findOne().select("version").sort({ version: -1 }).exec();
+  const record = new ProductivityLibraryVersionModel({ ...input, version: (latest?.version ?? 0) + 1 });
+  return record.save();
+}
+
+export async function createLibraryProposal(input: {
+  userId: string;
+  userName: string;
+  baseVersion: number | null;
+  factor: string | null;
+  changes: LibraryBlockChange[];
+  note: string;
+}): Promise<ProductivityLibraryProposalDocument> {
+  if (!Types.ObjectId.isValid(input.userId)) {
+    throw new Error("Invalid user id");
+  }
+  const record = new ProductivityLibraryProposalModel(input);
+  return record.save();
+}
+
+/** Proposals newest first; only the given user's when `userId` is set. */
+export async function listLibraryProposals(filter: {
+  userId?: string;
+  status?: LibraryProposalStatus;
+}): Promise<ProductivityLibraryProposalDocument[]> {
+  if (filter.userId !== undefined && !Types.ObjectId.isValid(filter.userId)) return [];
+  const query: Record<string, unknown> = {};
+  if (filter.userId !== undefined) query.userId = filter.userId;
+  if (filter.status) query.status = filter.status;
+  return ProductivityLibraryProposalModel.find(query).sort({ createdAt: -1 }).exec();
+}
+
+export async function findLibraryProposal(proposalId: string): Promise<ProductivityLibraryProposalDocument | null> {
+  if (!Types.ObjectId.isValid(proposalId)) return null;
+  return ProductivityLibraryProposalModel.findById(proposalId).exec();
+}
+
+/**
+ * Records an admin's decision on a pending proposal. Returns null when the proposal is gone or was already
+ * decided, so two admins cannot both approve it.
+ */
+export async function reviewLibraryProposal(
+  proposalId: string,
+  review: {
+    status: Exclude<LibraryProposalStatus, "pending">;
+    reviewedById: string;
+    reviewedByName: string;
+    reviewComment: string;
+  }
+): Promise<ProductivityLibraryProposalDocument | null> {
+  if (!Types.ObjectId.isValid(proposalId) || !Types.ObjectId.isValid(review.reviewedById)) return null;
+  return ProductivityLibraryProposalModel.findOneAndUpdate(
+    { _id: proposalId, status: "pending" },
+    { $set: { ...review, reviewedAt: new Date() } },
+    { new: true }
+  ).exec();
+}
+
+export async function setLibraryProposalPublishedVersion(
+  proposalId: string,
+  publishedVersion: number | null
+): Promise<void> {
+  if (!Types.ObjectId.isValid(proposalId)) return;
+  await ProductivityLibraryProposalModel.updateOne({ _id: proposalId }, { $set: { publishedVersion } }).exec();
+}
+
+/** Puts an approval back to pending when publishing its version failed. */
+export async function reopenLibraryProposal(proposalId: string): Promise<void> {
+  if (!Types.ObjectId.isValid(proposalId)) return;
+  await ProductivityLibraryProposalModel.updateOne(
+    { _id: proposalId },
+    { $set: { status: "pending", reviewedById: null, reviewedByName: "", reviewedAt: null, reviewComment: "" } }
+  ).exec();
+}
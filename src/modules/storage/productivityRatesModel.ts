@@ -4,6 +4,8 @@ export interface ProductivityRatesManpowerRow {
   id: string;
   label: string;
   quantity: string;
+  /** Trade table code whose hourly cost prices this row; rows without one use the manpower hourly rate. */
+  tradeCode?: string;
 }
 
 export interface ProductivityRatesEquipmentRow {
@@ -15,6 +17,8 @@ export interface ProductivityRatesEquipmentRow {
   dailyProductivity: string;
   mh?: string;
   rate?: string;
+  /** Equipment catalogue code whose hourly cost replaces `hourlyRate` (and the saved `rate`) when pricing. */
+  equipmentCode?: string;
 }
 
 export interface ProductivityRatesBlock {
@@ -28,6 +32,10 @@ export interface ProductivityRatesBlock {
   equipmentRows: ProductivityRatesEquipmentRow[];
   manpowerMh?: string;
   manpowerRate?: string;
+  /** Materials catalogue code whose current price fills the materials rate of sub-items using this block. */
+  materialCode?: string;
+  /** Catalogue units of material per unit of the block; empty means 1. */
+  materialQty?: string;
 }
 
 export interface ProductivityRatesDocument extends mongoose.Document {
@@ -43,6 +51,7 @@ const ProductivityRatesManpowerRowSchema = new Schema<ProductivityRatesManpowerR
     id: { type: String, required: true },
     label: { type: String, default: "" },
     quantity: { type: String, default: "" },
+    tradeCode: { type: String, default: "" },
   },
   { _id: false }
 );
@@ -57,11 +66,12 @@ const ProductivityRatesEquipmentRowSchema = new Schema<ProductivityRatesEquipmen
     dailyProductivity: { type: String, default: "" },
     mh: { type: String, default: "" },
     rate: { type: String, default: "" },
+    equipmentCode: { type: String, default: "" },
   },
   { _id: false }
 );
 
-const ProductivityRatesBlockSchema = new Schema<ProductivityRatesBlock>(
+export const ProductivityRatesBlockSchema = new Schema<ProductivityRatesBlock>(
   {
     id: { type: String, required: true },
     code: { type: String, default: "" },
@@ -73,6 +83,8 @@ const ProductivityRatesBlockSchema = new Schema<ProductivityRatesBlock>(
     equipmentRows: { type: [ProductivityRatesEquipmentRowSchema], default: [] },
     manpowerMh: { type: String, default: "" },
     manpowerRate: { type: String, default: "" },
+    materialCode: { type: String, default: "" },
+    materialQty: { type: String, default: "" },
   },
   { _id: false }
 );
@@ -2,6 +2,22 @@ import mongoose, { Schema } from "mongoose";
 
 export type ProjectItemSource = "cad" | "manual" | "boq" | "schedule";
 
+/**
+ * How a BOQ line is priced: measured work from its sub-items, a rate without a quantity in the totals, a
+ * provisional or prime cost sum the client fixes, daywork at hourly rates, or a time-related preliminary that
+ * runs for the programme.
+ */
+export type BoqItemType = "measured" | "rate_only" | "provisional_sum" | "pc_sum" | "daywork" | "time_related";
+
+export const BOQ_ITEM_TYPES: readonly BoqItemType[] = [
+  "measured",
+  "rate_only",
+  "provisional_sum",
+  "pc_sum",
+  "daywork",
+  "time_related",
+];
+
 export type CadBox = {
   left: number;
   top: number;
@@ -20,6 +36,8 @@ export interface ProjectItemDocument extends mongoose.Document {
   box?: CadBox | null;
   thickness?: number | null;
   productivityRateId?: string | null;
+  /** Set at extraction or in review; null on older items, whose type is detected from their text. */
+  itemType?: BoqItemType | null;
   metadata?: {
     sheetName?: string;
     sheetIndex?: number;
@@ -57,6 +75,7 @@ const ProjectItemSchema = new Schema<ProjectItemDocument>(
     box: { type: CadBoxSchema, default: null },
     thickness: { type: Number, default: null },
     productivityRateId: { type: String, default: null },
+    itemType: { type: String, default: null },
     metadata: { type: Schema.Types.Mixed, default: null },
   },
   { timestamps: true }
@@ -1,5 +1,5 @@
 import { Types } from "mongoose";
-import { ProjectItemDocument, ProjectItemModel } from "./projectItemModel";
+import { BoqItemType, ProjectItemDocument, ProjectItemModel } from "./projectItemModel";
 
 export async function listProjectItems(userId: string, projectId: string): Promise<ProjectItemDocument[]> {
   if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(projectId)) return [];
@@ -77,6 +77,7 @@ export async function updateProjectItem(params: {
     box: { left: number; top: number; right: number; bottom: number } | null;
     thickness: number | null;
     productivityRateId: string | null;
+    itemType: BoqItemType | null;
   }>;
 }): Promise<ProjectItemDocument | null> {
   if (
@@ -1,11 +1,34 @@
 import mongoose, { Schema } from "mongoose";
 
-export type ProjectStatus = "in_progress" | "analyzing" | "finalized";
+/**
+ * Extraction sets "analyzing" and "finalized"; the pricing review then moves a project to "in_review",
+ * "approved" once every item is approved, and "submitted" when the bid goes out (see reviewWorkflow.ts).
+ */
+export type ProjectStatus = "in_progress" | "analyzing" | "finalized" | "in_review" | "approved" | "submitted";
+
+/** "lump_sum" projects are priced from the BOQ only and broken down top-down (see services/pricing/lumpSum.ts). */
+export type ProjectType = "measured" | "lump_sum";
+
+export const PROJECT_TYPES: ProjectType[] = ["measured", "lump_sum"];
+
+export type TenderDetails = {
+  clientName: string;
+  reference: string;
+  assumptions: string[];
+  exclusions: string[];
+};
 
 export interface ProjectDocument extends mongoose.Document {
   userId: mongoose.Types.ObjectId;
   name: string;
   status: ProjectStatus;
+  projectType: ProjectType;
+  /** Cover and appendix text for the tender pack PDF; remembered between generations. */
+  tenderDetails?: TenderDetails | null;
+  /** When the bid was submitted; cleared once an item is sent back, so extraction can restore "submitted". */
+  submittedAt?: Date | null;
+  /** Users the owner asked to review and approve the pricing; they see the review but cannot edit prices. */
+  reviewerIds: mongoose.Types.ObjectId[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -15,6 +38,10 @@ const ProjectSchema = new Schema<ProjectDocument>(
     userId: { type: Schema.Types.ObjectId, required: true, index: true, ref: "User" },
     name: { type: String, required: true },
     status: { type: String, required: true, index: true },
+    projectType: { type: String, default: "measured" },
+    tenderDetails: { type: Schema.Types.Mixed, default: null },
+    submittedAt: { type: Date, default: null },
+    reviewerIds: { type: [Schema.Types.ObjectId], default: [], index: true, ref: "User" },
   },
   { timestamps: true }
 );
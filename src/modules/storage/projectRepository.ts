@@ -1,5 +1,5 @@
 import { Types } from "mongoose";
-import { ProjectDocument, ProjectModel, ProjectStatus } from "./projectModel";
+import { ProjectDocument, ProjectModel, ProjectStatus, ProjectType, TenderDetails } from "./projectModel";
 
 export async function listProjects(userId: string): Promise<ProjectDocument[]> {
   if (!Types.ObjectId.isValid(userId)) return [];
@@ -14,10 +14,26 @@ export async function findProjectById(
   return ProjectModel.findOne({ _id: projectId, userId }).exec();
 }
 
+/** The project when the user owns it or is one of its reviewers. */
+export async function findReviewableProject(
+  userId: string,
+  projectId: string
+): Promise<ProjectDocument | null> {
+  if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(projectId)) return null;
+  return ProjectModel.findOne({ _id: projectId, $or: [{ userId }, { reviewerIds: userId }] }).exec();
+}
+
+/** Other users' projects the user was asked to review, most recently updated first. */
+export async function listProjectsToReview(userId: string): Promise<ProjectDocument[]> {
+  if (!Types.ObjectId.isValid(userId)) return [];
+  return ProjectModel.find({ reviewerIds: userId }).sort({ updatedAt: -1 }).exec();
+}
+
 export async function createProject(params: {
   userId: string;
   name: string;
   status?: ProjectStatus;
+  projectType?: ProjectType;
 }): Promise<ProjectDocument> {
   if (!Types.ObjectId.isValid(params.userId)) {
     throw new Error("Invalid user id");
@@ -26,6 +42,7 @@ export async function createProject(params: {
     userId: params.userId,
     name: params.name,
     status: params.status ?? "in_progress",
+    projectType: params.projectType ?? "measured",
   });
   return project.save();
 }
@@ -43,6 +60,19 @@ export async function updateProjectStatus(
   ).exec();
 }
 
+export async function updateProjectSubmittedAt(
+  userId: string,
+  projectId: string,
+  submittedAt: Date | null
+): Promise<ProjectDocument | null> {
+  if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(projectId)) return null;
+  return ProjectModel.findOneAndUpdate(
+    { _id: projectId, userId },
+    { submittedAt },
+    { new: true }
+  ).exec();
+}
+
 export async function updateProjectName(
   userId: string,
   projectId: string,
@@ -55,3 +85,42 @@ export async function updateProjectName(
     { new: true }
   ).exec();
 }
+
+export async function updateProjectType(
+  userId: string,
+  projectId: string,
+  projectType: ProjectType
+): Promise<ProjectDocument | null> {
+  if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(projectId)) return null;
+  return ProjectModel.findOneAndUpdate(
+    { _id: projectId, userId },
+    { projectType },
+    { new: true }
+  ).exec();
+}
+
+export async function updateProjectTenderDetails(
+  userId: string,
+  projectId: string,
+  tenderDetails: TenderDetails
+): Promise<ProjectDocument | null> {
+  if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(projectId)) return null;
+  return ProjectModel.findOneAndUpdate(
+    { _id: projectId, userId },
+    { tenderDetails },
+    { new: true }
+  ).exec();
+}
+
+export async function updateProjectReviewers(
+  userId: string,
+  projectId: string,
+  reviewerIds: string[]
+): Promise<ProjectDocument | null> {
+  if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(projectId)) return null;
+  return ProjectModel.findOneAndUpdate(
+    { _id: projectId, userId },
+    { reviewerIds },
+    { new: true }
+  ).exec();
+}
@@ -0,0 +1,72 @@
+import mongoose, { Schema } from "mongoose";
+
+export interface SubcontractQuoteLine {
+  itemId: string;
+  /** Quoted unit rate in the BOQ unit; null when the line is not quoted or excluded. */
+  rate: number | null;
+  note: string;
+}
+
+export interface SubcontractQuote {
+  _id: mongoose.Types.ObjectId;
+  subcontractor: string;
+  reference: string;
+  receivedAt: Date | null;
+  validUntil: Date | null;
+  exclusions: string[];
+  notes: string;
+  lines: SubcontractQuoteLine[];
+}
+
+export interface SubcontractPackageDocument extends mongoose.Document {
+  userId: mongoose.Types.ObjectId;
+  projectId: mongoose.Types.ObjectId;
+  name: string;
+  description: string;
+  /** BOQ items let as this package. */
+  itemIds: string[];
+  quotes: mongoose.Types.DocumentArray<SubcontractQuote & mongoose.Types.Subdocument>;
+  awardedQuoteId: mongoose.Types.ObjectId | null;
+  awardedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SubcontractQuoteLineSchema = new Schema<SubcontractQuoteLine>(
+  {
+    itemId: { type: String, required: true },
+    rate: { type: Number, default: null },
+    note: { type: String, default: "" },
+  },
+  { _id: false }
+);
+
+const SubcontractQuoteSchema = new Schema<SubcontractQuote>({
+  subcontractor: { type: String, required: true },
+  reference: { type: String, default: "" },
+  receivedAt: { type: Date, default: null },
+  validUntil: { type: Date, default: null },
+  exclusions: { type: [String], default: [] },
+  notes: { type: String, default: "" },
+  lines: { type: [SubcontractQuoteLineSchema], default: [] },
+});
+
+const SubcontractPackageSchema = new Schema<SubcontractPackageDocument>(
+  {
+    userId: { type: Schema.Types.ObjectId, required: true, index: true, ref: "User" },
+    projectId: { type: Schema.Types.ObjectId, required: true, index: true, ref: "Project" },
+    name: { type: String, required: true },
+    description: { type: String, default: "" },
+    itemIds: { type: [String], default: [] },
+    quotes: { type: [SubcontractQuoteSchema], default: [] },
+    awardedQuoteId: { type: Schema.Types.ObjectId, default: null },
+    awardedAt: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+SubcontractPackageSchema.index({ userId: 1, projectId: 1, createdAt: 1 });
+
+export const SubcontractPackageModel =
+  mongoose.models.SubcontractPackage ??
+  mongoose.model<SubcontractPackageDocument>("SubcontractPackage", SubcontractPackageSchema);
@@ -0,0 +1,134 @@
+import { Types } from "mongoose";
+import {
+  SubcontractPackageDocument,
+  SubcontractPackageModel,
+  SubcontractQuoteLine,
+} from "./subcontractPackageModel";
+
+export type SubcontractPackageInput = {
+  name: string;
+  description: string;
+  itemIds: string[];
+};
+
+export type SubcontractQuoteInput = {
+  subcontractor: string;
+  reference: string;
+  receivedAt: Date | null;
+  validUntil: Date | null;
+  exclusions: string[];
+  notes: string;
+  lines: SubcontractQuoteLine[];
+};
+
+const isValidIds = (...ids: string[]): boolean => ids.every((id) => Types.ObjectId.isValid(id));
+
+export async function listSubcontractPackages(
+  userId: string,
+  projectId: string
+): Promise<SubcontractPackageDocument[]> {
+  if (!isValidIds(userId, projectId)) return [];
+  return SubcontractPackageModel.find({ userId, projectId }).sort({ createdAt: 1 }).exec();
+}
+
+export async function findSubcontractPackage(
+  userId: string,
+  projectId: string,
+  packageId: string
+): Promise<SubcontractPackageDocument | null> {
+  if (!isValidIds(userId, projectId, packageId)) return null;
+  return SubcontractPackageModel.findOne({ _id: packageId, userId, projectId }).exec();
+}
+
+export async function createSubcontractPackage(
+  userId: string,
+  projectId: string,
+  input: SubcontractPackageInput
+): Promise<SubcontractPackageDocument> {
+  if (!isValidIds(userId, projectId)) {
+    throw new Error("Invalid project or user id");
+  }
+  const record = new SubcontractPackageModel({ userId, projectId, ...input });
+  return record.save();
+}
+
+export async function updateSubcontractPackage(
+  userId: string,
+  projectId: string,
+  packageId: string,
+  input: SubcontractPackageInput
+): Promise<SubcontractPackageDocument | null> {
+  if (!isValidIds(userId, projectId, packageId)) return null;
+  return SubcontractPackageModel.findOneAndUpdate(
+    { _id: packageId, userId, projectId },
+    { $set: input },
+    { new: true }
+  ).exec();
+}
+
+export async function deleteSubcontractPackage(userId: string, projectId: string, packageId: string): Promise<boolean> {
+  if (!isValidIds(userId, projectId, packageId)) return false;
+  const result = await SubcontractPackageModel.deleteOne({ _id: packageId, userId, projectId }).exec();
+  return result.deletedCount > 0;
+}
+
+export async function addSubcontractQuote(
+  userId: string,
+  projectId: string,
+  packageId: string,
+  quote: SubcontractQuoteInput
+): Promise<SubcontractPackageDocument | null> {
+  if (!isValidIds(userId, projectId, packageId)) return null;
+  return SubcontractPackageModel.findOneAndUpdate(
+    { _id: packageId, userId, projectId },
+    { $push: { quotes: quote } },
+    { new: true }
+  ).exec();
+}
+
+export async function updateSubcontractQuote(
+  userId: string,
+  projectId: string,
+  packageId: string,
+  quoteId: string,
+  quote: SubcontractQuoteInput
+): Promise<SubcontractPackageDocument | null> {
+  if (!isValidIds(userId, projectId, packageId, quoteId)) return null;
+  return SubcontractPackageModel.findOneAndUpdate(
+    { _id: packageId, userId, projectId, "quotes._id": quoteId },
+    { $set: { "quotes.$": { _id: new Types.ObjectId(quoteId), ...quote } } },
+    { new: true }
+  ).exec();
+}
+
+/** Removes a quote; if it was the awarded one the package goes back to unawarded. */
+export async function deleteSubcontractQuote(
+  userId: string,
+  projectId: string,
+  packageId: string,
+  quoteId: string
+): Promise<SubcontractPackageDocument | null> {
+  if (!isValidIds(userId, projectId, packageId, quoteId)) return null;
+  const record = await SubcontractPackageModel.findOne({ _id: packageId, userId, projectId }).exec();
+  if (!record || !record.quotes.id(quoteId)) return null;
+  record.quotes.pull({ _id: quoteId });
+  if (record.awardedQuoteId && String(record.awardedQuoteId) === quoteId) {
+    record.awardedQuoteId = null;
+    record.awardedAt = null;
+  }
+  return record.save();
+}
+
+export async function setAwardedQuote(
+  userId: string,
+  projectId: string,
+  packageId: string,
+  quoteId: string
+): Promise<SubcontractPackageDocument | null> {
+  if (!isValidIds(userId, projectId, packageId, quoteId)) return null;
+  return SubcontractPackageModel.findOneAndUpdate(
+    { _id: packageId, userId, projectId, "quotes._id": quoteId },
+    { $set: { awardedQuoteId: new Types.ObjectId(quoteId), awardedAt: new Date() } },
+    { new: true }
+  ).exec();
+}
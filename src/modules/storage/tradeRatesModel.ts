@@ -0,0 +1,83 @@
+import mongoose, { Schema } from "mongoose";
+
+/** Pay and statutory costs of the Saudi or the expatriate workers of a trade. */
+export interface NationalityCost {
+  basicWage: number;
+  allowances: number;
+  /** Employer GOSI contribution as a percentage of wage plus allowances. */
+  gosiPercent: number;
+  /** Iqama, work permit, expat levy and visa costs per worker per year. */
+  annualFees: number;
+}
+
+/** Hourly cost of one trade: (basic wage + allowances) with the burden percentage on top. */
+export interface TradeRate {
+  code: string;
+  name: string;
+  basicWage: number;
+  allowances: number;
+  /** Employer on-costs (insurance, iqama, housing, transport...) as a percentage of wage plus allowances. */
+  burdenPercent: number;
+  /**
+   * Saudi and expatriate pay; when set, the trade is priced at the blend of the project's manpower mix instead
+   * of the wage and allowances above, with the burden percentage still on top.
+   */
+  nationalities?: { saudi: NationalityCost; expatriate: NationalityCost } | null;
+}
+
+/** One trade table per project location; projects pick the location they are priced with. */
+export interface TradeRatesDocument extends mongoose.Document {
+  userId: mongoose.Types.ObjectId;
+  location: string;
+  /** Lower-cased location, unique per user. */
+  locationKey: string;
+  trades: TradeRate[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const NationalityCostSchema = new Schema<NationalityCost>(
+  {
+    basicWage: { type: Number, default: 0 },
+    allowances: { type: Number, default: 0 },
+    gosiPercent: { type: Number, default: 0 },
+    annualFees: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+const TradeRateSchema = new Schema<TradeRate>(
+  {
+    code: { type: String, required: true },
+    name: { type: String, default: "" },
+    basicWage: { type: Number, default: 0 },
+    allowances: { type: Number, default: 0 },
+    burdenPercent: { type: Number, default: 0 },
+    nationalities: {
+      type: new Schema(
+        {
+          saudi: { type: NationalityCostSchema, required: true },
+          expatriate: { type: NationalityCostSchema, required: true },
+        },
+        { _id: false }
+      ),
+      default: null,
+    },
+  },
+  { _id: false }
+);
+
+const TradeRatesSchema = new Schema<TradeRatesDocument>(
+  {
+    userId: { type: Schema.Types.ObjectId, required: true, index: true, ref: "User" },
+    location: { type: String, required: true },
+    locationKey: { type: String, required: true },
+    trades: { type: [TradeRateSchema], default: [] },
+  },
+  { timestamps: true }
+);
+
+TradeRatesSchema.index({ userId: 1, locationKey: 1 }, { unique: true });
+
+export const TradeRatesModel =
+  mongoose.models.TradeRates ?? mongoose.model<TradeRatesDocument>("TradeRates", TradeRatesSchema);
@@ -0,0 +1,41 @@
+import { Types } from "mongoose";
+import { TradeRate, TradeRatesDocument, TradeRatesModel } from "./tradeRatesModel";
+
+export const toLocationKey = (location: string): string => location.trim().toLowerCase();
+
+/** Every location's trade table, by location name. */
+export async function listTradeRates(userId: string): Promise<TradeRatesDocument[]> {
+  if (!Types.ObjectId.isValid(userId)) return [];
+  return TradeRatesModel.find({ userId }).sort({ locationKey: 1 }).exec();
+}
+
+export async function getTradeRates(userId: string, location: string): Promise<TradeRatesDocument | null> {
+  if (!Types.ObjectId.isValid(userId) || !location.trim()) return null;
+  return TradeRatesModel.findOne({ userId, locationKey: toLocationKey(location) }).exec();
+}
+
+/** Replaces the trades of a location, creating the location when it is new. */
+export async function upsertTradeRates(
+  userId: string,
+  location: string,
+  trades: TradeRate[]
+): Promise<TradeRatesDocument> {
+  if (!Types.ObjectId.isValid(userId)) {
+    throw new Error("Invalid user id");
+  }
+  const updated = await TradeRatesModel.findOneAndUpdate(
+    { userId, locationKey: toLocationKey(location) },
+    { $set: { location: location.trim(), trades } },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  ).exec();
+  if (!updated) {
+    throw new Error("Failed to save trade rates");
+  }
+  return updated;
+}
+
+export async function deleteTradeRates(userId: string, location: string): Promise<boolean> {
+  if (!Types.ObjectId.isValid(userId)) return false;
+  const result = await TradeRatesModel.deleteOne({ userId, locationKey: toLocationKey(location) }).exec();
+  return result.deletedCount > 0;
+}
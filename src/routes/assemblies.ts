@@ -0,0 +1,152 @@
+import { Router } from "express";
+import type { Response, NextFunction } from "express";
+import { AuthRequest } from "../middleware/auth";
+import {
+  AssemblyInput,
+  createAssembly,
+  deleteAssembly,
+  listAssemblyTags,
+  searchAssemblies,
+  updateAssembly,
+} from "../modules/storage/assemblyRepository";
+import type { AssemblyDocument } from "../modules/storage/assemblyModel";
+import { importCompletedBlocks, toAssemblySubitems } from "../services/pricing/assemblyLibrary";
+
+const router = Router();
+
+const PAGE_SIZE_DEFAULT = 20;
+
+function getUserId(req: AuthRequest): string {
+  const user = req.user;
+  if (!user?._id) throw new Error("User not found");
+  return String(user._id);
+}
+
+function toAssemblyResponse(assembly: AssemblyDocument & { score?: number }) {
+  return {
+    id: String(assembly._id),
+    description: assembly.description,
+    blockCode: assembly.blockCode,
+    unit: assembly.unit,
+    category: assembly.category,
+    tags: assembly.tags,
+    notes: assembly.notes,
+    subitems: assembly.subitems,
+    source: assembly.source,
+    sourceProjectId: assembly.sourceProjectId ? String(assembly.sourceProjectId) : null,
+    sourceProjectName: assembly.sourceProjectName,
+    score: assembly.score ?? null,
+    updatedAt: assembly.updatedAt,
+  };
+}
+
+/** Tags are trimmed, lower-cased and de-duplicated so the tag filter matches however they were typed. */
+function toTags(value: unknown): string[] {
+  const entries = Array.isArray(value) ? value : String(value ?? "").split(",");
+  return Array.from(new Set(entries.map((entry) => String(entry ?? "").trim().toLowerCase()).filter(Boolean)));
+}
+
+/** Reads an assembly from a request body; returns an error message when it cannot be saved. */
+function toAssemblyInput(body: unknown): AssemblyInput | string {
+  const source = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+  const description = String(source.description ?? "").trim();
+  if (!description) return "description is required";
+  if (!Array.isArray(source.subitems) || source.subitems.length === 0) return "An assembly needs at least one sub-item";
+  const subitems = toAssemblySubitems(
+    source.subitems.filter((row): row is Record<string, unknown> => Boolean(row) && typeof row === "object")
+  ).filter((row) => row.description || row.code);
+  if (subitems.length === 0) return "Each sub-item needs a description or a code";
+  return {
+    description,
+    blockCode: String(source.blockCode ?? "").trim(),
+    unit: String(source.unit ?? "").trim(),
+    category: String(source.category ?? "").trim(),
+    tags: toTags(source.tags),
+    notes: String(source.notes ?? "").trim(),
+    subitems,
+  };
+}
+
+/** Library search: `text` is ranked by relevance, `blockCode` and `tag` filter exactly. */
+router.get("/", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const page = Math.max(1, parseInt(String(req.query.page ?? "1"), 10) || 1);
+    const pageSize = Math.min(100, Math.max(1, parseInt(String(req.query.pageSize ?? ""), 10) || PAGE_SIZE_DEFAULT));
+    const { assemblies, total } = await searchAssemblies({
+      userId,
+      text: String(req.query.text ?? ""),
+      blockCode: String(req.query.blockCode ?? ""),
+      tag: String(req.query.tag ?? ""),
+      page,
+      pageSize,
+    });
+    res.status(200).json({ assemblies: assemblies.map(toAssemblyResponse), total });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/tags", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    res.status(200).json(await listAssemblyTags(getUserId(req)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const input = toAssemblyInput(req.body);
+    if (typeof input === "string") {
+      return res.status(400).json({ message: input });
+    }
+    const saved = await createAssembly(userId, input);
+    res.status(201).json(toAssemblyResponse(saved));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Captures blocks marked complete before the library existed; blocks already in the library are skipped. */
+router.post("/import-completed", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const imported = await importCompletedBlocks(getUserId(req));
+    res.status(200).json({ imported });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put("/:assemblyId", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const input = toAssemblyInput(req.body);
+    if (typeof input === "string") {
+      return res.status(400).json({ message: input });
+    }
+    const saved = await updateAssembly(userId, String(req.params.assemblyId || "").trim(), input);
+    if (!saved) {
+      return res.status(404).json({ message: "Assembly not found" });
+    }
+    res.status(200).json(toAssemblyResponse(saved));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete("/:assemblyId", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const deleted = await deleteAssembly(userId, String(req.params.assemblyId || "").trim());
+    if (!deleted) {
+      return res.status(404).json({ message: "Assembly not found" });
+    }
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,179 @@
+import { Router } from "express";
+import type { Response, NextFunction } from "express";
+import { AuthRequest } from "../middleware/auth";
+import {
+  createEquipment,
+  deleteEquipment,
+  EquipmentInput,
+  findEquipmentByCode,
+  listEquipment,
+  updateEquipment,
+} from "../modules/storage/equipmentRepository";
+import {
+  EQUIPMENT_COST_BASES,
+  EQUIPMENT_RATE_PERIODS,
+  EquipmentCostBasis,
+  EquipmentDocument,
+  EquipmentRatePeriod,
+} from "../modules/storage/equipmentModel";
+import { equipmentCostBreakdown } from "../services/pricing/equipmentCatalogue";
+import { withItemReviewReset } from "../services/pricing/projectPricing";
+
+const router = Router();
+
+function getUserId(req: AuthRequest): string {
+  const user = req.user;
+  if (!user?._id) throw new Error("User not found");
+  return String(user._id);
+}
+
+function getUserName(req: AuthRequest): string {
+  return String(req.user?.username ?? req.user?.email ?? "").trim();
+}
+
+/**
+ * Runs a catalogue change; items of any of the user's projects whose equipment rows it reprices go back
+ * through the review.
+ */
+function withReviewReset<T>(req: AuthRequest, write: () => Promise<T>): Promise<T> {
+  const userId = getUserId(req);
+  return withItemReviewReset({ userId, actor: { id: userId, name: getUserName(req) } }, write);
+}
+
+function toEquipmentResponse(entry: EquipmentDocument) {
+  return {
+    id: String(entry._id),
+    code: entry.code,
+    description: entry.description,
+    costBasis: entry.costBasis,
+    baseRate: entry.baseRate,
+    ratePeriod: entry.ratePeriod,
+    purchasePrice: entry.purchasePrice ?? 0,
+    residualValue: entry.residualValue ?? 0,
+    usefulLifeHours: entry.usefulLifeHours ?? 0,
+    maintenancePercent: entry.maintenancePercent ?? 0,
+    hoursPerDay: entry.hoursPerDay,
+    fuelLitresPerHour: entry.fuelLitresPerHour,
+    fuelPricePerLitre: entry.fuelPricePerLitre,
+    operatorRequired: entry.operatorRequired,
+    operatorHourlyCost: entry.operatorHourlyCost,
+    mobilisationCost: entry.mobilisationCost,
+    mobilisationHours: entry.mobilisationHours,
+    hourlyCost: equipmentCostBreakdown(entry),
+    updatedAt: entry.updatedAt,
+  };
+}
+
+const NUMBER_FIELDS = [
+  "baseRate",
+  "purchasePrice",
+  "residualValue",
+  "usefulLifeHours",
+  "maintenancePercent",
+  "hoursPerDay",
+  "fuelLitresPerHour",
+  "fuelPricePerLitre",
+  "operatorHourlyCost",
+  "mobilisationCost",
+  "mobilisationHours",
+] as const;
+
+/** Reads a catalogue entry from a request body; returns an error message when it cannot be saved. */
+function toEquipmentInput(body: unknown): EquipmentInput | string {
+  const source = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+  const code = String(source.code ?? "").trim();
+  if (!code) return "code is required";
+  const costBasis = String(source.costBasis ?? "owned") as EquipmentCostBasis;
+  if (!EQUIPMENT_COST_BASES.includes(costBasis)) return `costBasis must be one of ${EQUIPMENT_COST_BASES.join(", ")}`;
+  const ratePeriod = String(source.ratePeriod ?? "hour") as EquipmentRatePeriod;
+  if (!EQUIPMENT_RATE_PERIODS.includes(ratePeriod)) {
+    return `ratePeriod must be one of ${EQUIPMENT_RATE_PERIODS.join(", ")}`;
+  }
+  const numbers = {} as Record<(typeof NUMBER_FIELDS)[number], number>;
+  for (const field of NUMBER_FIELDS) {
+    const raw = source[field];
+    const number = raw === "" || raw === null || raw === undefined ? 0 : Number(raw);
+    if (!Number.isFinite(number) || number < 0) return `${field} must be a number of zero or more`;
+    numbers[field] = number;
+  }
+  if (ratePeriod !== "hour" && numbers.hoursPerDay <= 0) return "hoursPerDay is needed for day and month rates";
+  if (costBasis === "owned" && numbers.purchasePrice > 0) {
+    if (numbers.usefulLifeHours <= 0) return "usefulLifeHours is needed to depreciate the purchase price";
+    if (numbers.residualValue > numbers.purchasePrice) return "residualValue cannot exceed purchasePrice";
+  }
+  return {
+    code,
+    description: String(source.description ?? "").trim(),
+    costBasis,
+    ratePeriod,
+    operatorRequired: source.operatorRequired === true,
+    ...numbers,
+  };
+}
+
+/** The catalogue, each entry with its hourly cost broken down. */
+router.get("/", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const entries = await listEquipment(getUserId(req));
+    res.status(200).json(entries.map(toEquipmentResponse));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Rows whose equipment code had no catalogue entry are priced from the new one. */
+router.post("/", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const input = toEquipmentInput(req.body);
+    if (typeof input === "string") {
+      return res.status(400).json({ message: input });
+    }
+    const userId = getUserId(req);
+    if (await findEquipmentByCode(userId, input.code)) {
+      return res.status(400).json({ message: `Equipment code "${input.code}" is already in the catalogue` });
+    }
+    const saved = await withReviewReset(req, () => createEquipment(userId, input));
+    res.status(201).json(toEquipmentResponse(saved));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Every block whose equipment rows use the code is priced at the new rate. */
+router.put("/:equipmentId", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const input = toEquipmentInput(req.body);
+    if (typeof input === "string") {
+      return res.status(400).json({ message: input });
+    }
+    const userId = getUserId(req);
+    const equipmentId = String(req.params.equipmentId);
+    const existing = await findEquipmentByCode(userId, input.code);
+    if (existing && String(existing._id) !== equipmentId) {
+      return res.status(400).json({ message: `Equipment code "${input.code}" is already in the catalogue` });
+    }
+    const saved = await withReviewReset(req, () => updateEquipment(userId, equipmentId, input));
+    if (!saved) {
+      return res.status(404).json({ message: "Equipment not found" });
+    }
+    res.status(200).json(toEquipmentResponse(saved));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Rows linked to a deleted code fall back to the hourly rate typed in the block. */
+router.delete("/:equipmentId", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const deleted = await withReviewReset(req, () => deleteEquipment(userId, String(req.params.equipmentId)));
+    if (!deleted) {
+      return res.status(404).json({ message: "Equipment not found" });
+    }
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
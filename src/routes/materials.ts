@@ -0,0 +1,169 @@
+import { Router } from "express";
+import type { Response, NextFunction, Express } from "express";
+import multer from "multer";
+import { AuthRequest } from "../middleware/auth";
+import {
+  createMaterialPrice,
+  deleteMaterialPrice,
+  insertMaterialPrices,
+  listMaterialPrices,
+  MaterialPriceInput,
+  updateMaterialPrice,
+} from "../modules/storage/materialPriceRepository";
+import type { MaterialPriceDocument } from "../modules/storage/materialPriceModel";
+import {
+  findSupersededMaterialPrices,
+  parseIsoDate,
+  parseMaterialPriceWorkbook,
+  selectCurrentPrices,
+} from "../services/pricing/materialCatalogue";
+import { config } from "../config";
+
+const router = Router();
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: config.maxFileSize },
+});
+
+function getUserId(req: AuthRequest): string {
+  const user = req.user;
+  if (!user?._id) throw new Error("User not found");
+  return String(user._id);
+}
+
+function toMaterialPriceResponse(price: MaterialPriceDocument, currentIds: Set<string>) {
+  return {
+    id: String(price._id),
+    code: price.code,
+    description: price.description,
+    unit: price.unit,
+    supplier: price.supplier,
+    price: price.price,
+    currency: price.currency,
+    validFrom: price.validFrom,
+    validTo: price.validTo,
+    isCurrent: currentIds.has(String(price._id)),
+    updatedAt: price.updatedAt,
+  };
+}
+
+async function loadCurrentPriceIds(userId: string): Promise<Set<string>> {
+  const prices = await listMaterialPrices(userId);
+  return new Set(Array.from(selectCurrentPrices(prices).values()).map((price) => String(price._id)));
+}
+
+
+/** Reads a catalogue price from a request body; returns an error message when it cannot be saved. */
+function toMaterialPriceInput(body: unknown): MaterialPriceInput | string {
+  const source = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+  const code = String(source.code ?? "").trim();
+  if (!code) return "code is required";
+  const price = Number(source.price);
+  if (source.price === "" || source.price === null || !Number.isFinite(price)) return "price must be a number";
+  const validFrom = parseIsoDate(String(source.validFrom ?? ""));
+  if (!validFrom) return "validFrom must be a YYYY-MM-DD date";
+  const hasValidTo = source.validTo !== null && source.validTo !== undefined && String(source.validTo).trim() !== "";
+  const validTo = hasValidTo ? parseIsoDate(String(source.validTo)) : null;
+  if (hasValidTo && !validTo) return "validTo must be a YYYY-MM-DD date";
+  if (validTo && validTo.getTime() < validFrom.getTime()) return "validTo must not be before validFrom";
+  return {
+    code,
+    description: String(source.description ?? "").trim(),
+    unit: String(source.unit ?? "").trim(),
+    supplier: String(source.supplier ?? "").trim(),
+    price,
+    currency: String(source.currency ?? "").trim().toUpperCase() || "SAR",
+    validFrom,
+    validTo,
+  };
+}
+
+/** The whole catalogue; `isCurrent` marks the price that applies today for each code. */
+router.get("/", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const prices = await listMaterialPrices(getUserId(req));
+    const currentIds = new Set(Array.from(selectCurrentPrices(prices).values()).map((price) => String(price._id)));
+    res.status(200).json(prices.map((price) => toMaterialPriceResponse(price, currentIds)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Sub-items priced from a catalogue price that has since been superseded, across projects or for one. */
+router.get("/superseded", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const projectId = String(req.query.projectId ?? "").trim();
+    res.status(200).json(await findSupersededMaterialPrices(getUserId(req), projectId || undefined));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const input = toMaterialPriceInput(req.body);
+    if (typeof input === "string") {
+      return res.status(400).json({ message: input });
+    }
+    const userId = getUserId(req);
+    const saved = await createMaterialPrice(userId, input);
+    res.status(201).json(toMaterialPriceResponse(saved, await loadCurrentPriceIds(userId)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Adds every priced row of an Excel price list; existing prices are kept, so dated rows build up history. */
+router.post("/import", upload.single("file"), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const file = req.file as Express.Multer.File | undefined;
+    if (!file) {
+      return res.status(400).json({ message: "file is required" });
+    }
+    let parsed: ReturnType<typeof parseMaterialPriceWorkbook>;
+    try {
+      parsed = parseMaterialPriceWorkbook(file.buffer);
+    } catch (error) {
+      return res.status(400).json({ message: (error as Error).message || "Could not read the workbook" });
+    }
+    if (parsed.prices.length === 0) {
+      return res.status(400).json({ message: "No rows with a code and a price were found" });
+    }
+    const imported = await insertMaterialPrices(userId, parsed.prices);
+    res.status(200).json({ imported, skippedRows: parsed.skippedRows });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put("/:priceId", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const input = toMaterialPriceInput(req.body);
+    if (typeof input === "string") {
+      return res.status(400).json({ message: input });
+    }
+    const userId = getUserId(req);
+    const saved = await updateMaterialPrice(userId, String(req.params.priceId), input);
+    if (!saved) {
+      return res.status(404).json({ message: "Material price not found" });
+    }
+    res.status(200).json(toMaterialPriceResponse(saved, await loadCurrentPriceIds(userId)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete("/:priceId", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const deleted = await deleteMaterialPrice(getUserId(req), String(req.params.priceId));
+    if (!deleted) {
+      return res.status(404).json({ message: "Material price not found" });
+    }
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,9 +1,91 @@
 import { Router } from "express";
 import type { Response, NextFunction } from "express";
 import { AuthRequest } from "../middleware/auth";
-import { getPricing, upsertPricing } from "../modules/storage/pricingRepository";
-import { listProjects } from "../modules/storage/projectRepository";
-import { listProjectItems } from "../modules/storage/projectItemRepository";
+import {
+  getPricing,
+  upsertPricing,
+  PricingPayload,
+  PRICING_SETTING_DEFAULTS,
+  updateMaterialWaste,
+  updatePricingCashFlowTerms,
+  updatePricingItemReviews,
+  updatePricingLibraryVersion,
+  updatePricingLumpSum,
+  updatePricingManpowerMix,
+  updatePricingProductivityAdjustments,
+  updatePricingScenarios,
+  updatePricingTradeLocation,
+  updatePricingWorkingCalendar,
+} from "../modules/storage/pricingRepository";
+import {
+  createPricingRevision,
+  findPricingRevision,
+  listPricingRevisions,
+} from "../modules/storage/pricingRevisionRepository";
+import {
+  findProjectById,
+  findReviewableProject,
+  listProjectsToReview,
+  updateProjectReviewers,
+  updateProjectStatus,
+  updateProjectSubmittedAt,
+  updateProjectTenderDetails,
+} from "../modules/storage/projectRepository";
+import type { ProjectDocument, TenderDetails } from "../modules/storage/projectModel";
+import { User } from "../modules/storage/userModel";
+import { createProjectLog } from "../modules/storage/projectLogRepository";
+import { searchAssemblies } from "../modules/storage/assemblyRepository";
+import { findProjectFileById } from "../modules/storage/projectFileRepository";
+import { findLibraryVersion, getLatestLibraryVersion } from "../modules/storage/productivityLibraryRepository";
+import { getTradeRates } from "../modules/storage/tradeRatesRepository";
+import {
+  benchmarkProjectItem,
+  compareProjectScenarios,
+  computeCashFlow,
+  computeLumpSumSpread,
+  computeManpowerHistogram,
+  computeMaterialTakeoff,
+  computeNationalisation,
+  computeProjectPricing,
+  computeReviewSummary,
+  diffProjectPricing,
+  exportPricedBoq,
+  exportTenderPack,
+  getProjectProductivityRates,
+  recordPricedItemRates,
+  validateProjectPricing,
+  withItemReviewReset,
+} from "../services/pricing/projectPricing";
+import { SELL_RATE_KEYS } from "../services/pricing/pricingEngine";
+import { buildManpowerHistogramWorkbook } from "../services/pricing/manpowerHistogram";
+import { buildMaterialEnquiryWorkbook } from "../services/pricing/materialTakeoff";
+import { normalizeScenarios } from "../services/pricing/scenarios";
+import {
+  normalizeProductivityAdjustments,
+  PRODUCTIVITY_ADJUSTMENT_CATEGORIES,
+} from "../services/pricing/productivityAdjustments";
+import {
+  buildCalendarMonths,
+  CALENDAR_PERIOD_KINDS,
+  isCalendarDate,
+  MAX_PROJECT_DURATION_MONTHS,
+  normalizeWorkingCalendar,
+  WorkingCalendar,
+} from "../services/pricing/workingCalendar";
+import { normalizeManpowerMix } from "../services/pricing/manpowerMix";
+import { normalizeLumpSum } from "../services/pricing/lumpSum";
+import { buildCashFlowWorkbook, normalizeCashFlowTerms, SPEND_PROFILES } from "../services/pricing/cashFlow";
+import { captureCompletedBlocks } from "../services/pricing/assemblyLibrary";
+import {
+  applyReviewAction,
+  canApplyReviewAction,
+  deriveReviewProjectStatus,
+  REVIEW_ACTION_VERBS,
+  REVIEW_ACTIONS,
+  ReviewAction,
+  reviewActionRefusal,
+} from "../services/pricing/reviewWorkflow";
+import { MARKUP_KINDS, MARKUP_SCOPES, normalizeMarkups } from "../services/pricing/markups";
 import {
   suggestProductivityForPricing,
   ProductivitySuggestBlock,
@@ -18,128 +100,1405 @@ function getUserId(req: AuthRequest): string {
   return String(user._id);
 }
 
-/** Normalize for search: trim, lower case */
-function normSearch(value: string): string {
-  return String(value ?? "").trim().toLowerCase();
+function getUserName(req: AuthRequest): string {
+  return String(req.user?.username ?? req.user?.email ?? "").trim();
+}
+
+type StoredPricing = Partial<PricingPayload> & { updatedAt?: Date | null };
+
+/** `revision` is the latest pricing revision, which the page sends back as `baseRevision` when it saves. */
+function toPricingResponse(record: StoredPricing, revision = 0) {
+  return {
+    percentage: record.percentage ?? PRICING_SETTING_DEFAULTS.percentage,
+    idleText: record.idleText ?? PRICING_SETTING_DEFAULTS.idleText,
+    poRate: record.poRate ?? PRICING_SETTING_DEFAULTS.poRate,
+    mpHourlyRate: record.mpHourlyRate ?? PRICING_SETTING_DEFAULTS.mpHourlyRate,
+    totalPriceFactor: record.totalPriceFactor ?? PRICING_SETTING_DEFAULTS.totalPriceFactor,
+    projectDuration: record.projectDuration ?? PRICING_SETTING_DEFAULTS.projectDuration,
+    sellRateFactor: record.sellRateFactor ?? PRICING_SETTING_DEFAULTS.sellRateFactor,
+    sellRateOverridesByItemId: record.sellRateOverridesByItemId ?? {},
+    markups: record.markups ?? [],
+    subItemsByItemId: record.subItemsByItemId ?? {},
+    autoRowQtyByItemId: record.autoRowQtyByItemId ?? {},
+    qtyOverrideByItemId: record.qtyOverrideByItemId ?? {},
+    collapsedByItemId: record.collapsedByItemId ?? {},
+    completedByItemId: record.completedByItemId ?? {},
+    blockCodeByItemId: record.blockCodeByItemId ?? {},
+    allowanceInputsByItemId: record.allowanceInputsByItemId ?? {},
+    updatedAt: record.updatedAt ?? null,
+    revision,
+  };
+}
+
+const NUMERIC_SETTINGS = ["percentage", "poRate", "totalPriceFactor", "projectDuration", "sellRateFactor"] as const;
+
+/** Empty means "not entered" on the page and is priced as 0; anything else must parse as a number. */
+function isNumericInput(value: string): boolean {
+  return value.trim() === "" || Number.isFinite(Number(value.trim()));
+}
+
+/** A sell-rate of 100% or more would divide by zero (or flip the sign) when marking up direct cost. */
+function isValidSellRate(value: unknown): boolean {
+  return typeof value === "string" && isNumericInput(value) && Number(value.trim() || 0) < 100;
+}
+
+/** Waste is added on top of the net quantity, so it cannot be negative. */
+function isValidWastePercent(value: unknown): boolean {
+  return typeof value === "string" && isNumericInput(value) && Number(value.trim() || 0) >= 0;
+}
+
+/** Amounts, percentages and month counts entered as text; blank counts as zero. */
+function isNonNegativeNumberInput(value: unknown): boolean {
+  return typeof value === "string" && isNumericInput(value) && Number(value.trim() || 0) >= 0;
+}
+
+/** Checks the pricing settings sent by the page; returns an error message, or null when they are valid. */
+function validatePricingSettings(settings: Record<string, unknown>, overrides: unknown): string | null {
+  for (const key of Object.keys(PRICING_SETTING_DEFAULTS)) {
+    if (typeof settings[key] !== "string") {
+      return `${key} must be a string`;
+    }
+  }
+  for (const key of NUMERIC_SETTINGS) {
+    if (!isNumericInput(settings[key] as string)) {
+      return `${key} must be a number`;
+    }
+  }
+  if (!isValidSellRate(settings.sellRateFactor)) {
+    return "sellRateFactor must be less than 100";
+  }
+  const projectDuration = Number((settings.projectDuration as string).trim() || 0);
+  if (projectDuration < 0) {
+    return "projectDuration cannot be negative";
+  }
+  if (projectDuration > MAX_PROJECT_DURATION_MONTHS) {
+    return `projectDuration cannot be more than ${MAX_PROJECT_DURATION_MONTHS} months`;
+  }
+  if (typeof overrides !== "object" || overrides === null || Array.isArray(overrides)) {
+    return "sellRateOverridesByItemId must be an object";
+  }
+  for (const [itemId, rates] of Object.entries(overrides)) {
+    if (typeof rates !== "object" || rates === null || Array.isArray(rates)) {
+      return `Sell-rate overrides for item ${itemId} must be an object`;
+    }
+    for (const [rateKey, value] of Object.entries(rates)) {
+      if (!(SELL_RATE_KEYS as readonly string[]).includes(rateKey)) {
+        return `Unknown sell-rate column "${rateKey}"`;
+      }
+      if (!isValidSellRate(value)) {
+        return `Sell-rate override ${rateKey} for item ${itemId} must be a number less than 100`;
+      }
+    }
+  }
+  return null;
+}
+
+/** Checks the structured markup list; returns an error message, or null when every entry is usable. */
+function validateMarkups(markups: unknown): string | null {
+  if (!Array.isArray(markups)) {
+    return "markups must be an array";
+  }
+  for (const [index, markup] of markups.entries()) {
+    const entry = (markup && typeof markup === "object" ? markup : {}) as Record<string, unknown>;
+    const position = `Markup ${index + 1}`;
+    if (typeof entry.id !== "string" || !entry.id.trim()) {
+      return `${position} needs an id`;
+    }
+    if (!(MARKUP_KINDS as readonly unknown[]).includes(entry.kind)) {
+      return `${position} has an unknown kind`;
+    }
+    if (!(MARKUP_SCOPES as readonly unknown[]).includes(entry.scope)) {
+      return `${position} has an unknown scope`;
+    }
+    if (typeof entry.percent !== "string" || !isNumericInput(entry.percent) || Number(entry.percent.trim() || 0) <= -100) {
+      return `${position} percent must be a number greater than -100`;
+    }
+    const scopeValue = typeof entry.scopeValue === "string" ? entry.scopeValue.trim() : "";
+    if (entry.scope === "category" && !scopeValue) {
+      return `${position} needs a category`;
+    }
+    if (entry.scope === "costType" && !(SELL_RATE_KEYS as readonly string[]).includes(scopeValue)) {
+      return `${position} needs a cost type (${SELL_RATE_KEYS.join(", ")})`;
+    }
+  }
+  return null;
+}
+
+const ALLOWANCE_INPUTS = ["sum", "attendancePercent", "hourlyRate", "monthlyRate", "dailyRate"] as const;
+
+/** Checks the allowance lines' inputs; each is optional, and a number when given. */
+function validateAllowanceInputs(inputs: unknown): string | null {
+  if (typeof inputs !== "object" || inputs === null || Array.isArray(inputs)) {
+    return "allowanceInputsByItemId must be an object";
+  }
+  for (const [itemId, entry] of Object.entries(inputs)) {
+    if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+      return `Allowance inputs for item ${itemId} must be an object`;
+    }
+    for (const [key, value] of Object.entries(entry)) {
+      if (!(ALLOWANCE_INPUTS as readonly string[]).includes(key)) {
+        return `Unknown allowance input "${key}"`;
+      }
+      if (!isNonNegativeNumberInput(value)) {
+        return `Allowance input ${key} for item ${itemId} must be a non-negative number`;
+      }
+    }
+  }
+  return null;
+}
+
+/** Multipliers and factors scale costs, so anything entered must be a positive number. */
+function isPositiveNumberInput(value: unknown): boolean {
+  return value === undefined || (typeof value === "string" && isNumericInput(value) && Number(value.trim() || 1) > 0);
+}
+
+const CASH_FLOW_NUMBERS = [
+  "advancePercent",
+  "retentionPercent",
+  "retentionReleaseMonths",
+  "paymentDelayMonths",
+  "vatPercent",
+] as const;
+
+/** Checks cash-flow terms; returns an error message, or null when they can be saved. */
+function validateCashFlowTerms(terms: unknown): string | null {
+  const source = (terms && typeof terms === "object" ? terms : {}) as Record<string, unknown>;
+  if (!(SPEND_PROFILES as readonly unknown[]).includes(source.profile)) {
+    return `profile must be one of ${SPEND_PROFILES.join(", ")}`;
+  }
+  for (const key of CASH_FLOW_NUMBERS) {
+    const value = source[key];
+    if (value !== undefined && !isNonNegativeNumberInput(value)) {
+      return `${key} must be a number of 0 or more`;
+    }
+  }
+  const percentOf = (key: string) => Number(String(source[key] ?? "").trim() || 0);
+  if (percentOf("advancePercent") + percentOf("retentionPercent") > 100) {
+    return "Advance and retention together cannot exceed 100%";
+  }
+  if (source.customProfile !== undefined) {
+    if (!Array.isArray(source.customProfile)) {
+      return "customProfile must be an array";
+    }
+    if (!source.customProfile.every(isNonNegativeNumberInput)) {
+      return "customProfile percentages must be numbers of 0 or more";
+    }
+  }
+  return null;
+}
+
+/** Checks a lump-sum breakdown; returns an error message, or null when it can be saved. */
+function validateLumpSum(lumpSum: unknown): string | null {
+  const source = (lumpSum && typeof lumpSum === "object" ? lumpSum : {}) as Record<string, unknown>;
+  if (source.amount !== undefined && (typeof source.amount !== "string" || !isNumericInput(source.amount))) {
+    return "amount must be a number";
+  }
+  if (!Array.isArray(source.packages)) {
+    return "packages must be an array";
+  }
+  const names = new Set<string>();
+  for (const [index, pkg] of source.packages.entries()) {
+    const entry = (pkg && typeof pkg === "object" ? pkg : {}) as Record<string, unknown>;
+    const position = `Package ${index + 1}`;
+    if (typeof entry.id !== "string" || !entry.id.trim()) {
+      return `${position} needs an id`;
+    }
+    const name = typeof entry.name === "string" ? entry.name.trim() : "";
+    if (!name) {
+      return `${position} needs a name`;
+    }
+    if (names.has(name.toLowerCase())) {
+      return `Package name "${name}" is used twice`;
+    }
+    names.add(name.toLowerCase());
+    if (entry.basis !== "allowance" && entry.basis !== "percent") {
+      return `${position} basis must be allowance or percent`;
+    }
+    if (!isNonNegativeNumberInput(entry.value)) {
+      return `${position} value must be a non-negative number`;
+    }
+    if (entry.itemIds !== undefined && !Array.isArray(entry.itemIds)) {
+      return `${position} itemIds must be an array`;
+    }
+  }
+  return null;
+}
+
+/** Checks a scenario list; returns an error message, or null when every scenario is usable. */
+function validateScenarios(scenarios: unknown): string | null {
+  if (!Array.isArray(scenarios)) {
+    return "scenarios must be an array";
+  }
+  const names = new Set<string>();
+  for (const [index, scenario] of scenarios.entries()) {
+    const entry = (scenario && typeof scenario === "object" ? scenario : {}) as Record<string, unknown>;
+    const position = `Scenario ${index + 1}`;
+    if (typeof entry.id !== "string" || !entry.id.trim()) {
+      return `${position} needs an id`;
+    }
+    const name = typeof entry.name === "string" ? entry.name.trim() : "";
+    if (!name) {
+      return `${position} needs a name`;
+    }
+    if (names.has(name.toLowerCase())) {
+      return `Scenario name "${name}" is used twice`;
+    }
+    names.add(name.toLowerCase());
+    const multipliers = (entry.rateMultipliers ?? {}) as Record<string, unknown>;
+    if (typeof multipliers !== "object" || Array.isArray(multipliers)) {
+      return `${position} rateMultipliers must be an object`;
+    }
+    for (const [key, value] of Object.entries(multipliers)) {
+      if (!(SELL_RATE_KEYS as readonly string[]).includes(key)) {
+        return `${position} has an unknown cost column "${key}"`;
+      }
+      if (!isPositiveNumberInput(value)) {
+        return `${position} ${key} multiplier must be a positive number`;
+      }
+    }
+    if (!isPositiveNumberInput(entry.productivityFactor)) {
+      return `${position} productivity factor must be a positive number`;
+    }
+    if (entry.markups !== undefined && entry.markups !== null) {
+      const markupError = validateMarkups(entry.markups);
+      if (markupError) return `${position}: ${markupError}`;
+    }
+    if (entry.subconItems !== undefined && !Array.isArray(entry.subconItems)) {
+      return `${position} subconItems must be an array`;
+    }
+    for (const item of (entry.subconItems ?? []) as Array<Record<string, unknown>>) {
+      if (!item || typeof item.itemId !== "string" || !item.itemId.trim()) {
+        return `${position} has a subcontracted item without an item id`;
+      }
+      const rate = item.rate ?? "";
+      if (typeof rate !== "string" || !isNumericInput(rate) || Number(rate.trim() || 0) < 0) {
+        return `${position} subcontract rates must be numbers of 0 or more`;
+      }
+    }
+  }
+  return null;
+}
+
+/** Checks a productivity adjustment list; returns an error message, or null when every factor is usable. */
+function validateProductivityAdjustments(adjustments: unknown): string | null {
+  if (!Array.isArray(adjustments)) {
+    return "adjustments must be an array";
+  }
+  const names = new Set<string>();
+  for (const [index, adjustment] of adjustments.entries()) {
+    const entry = (adjustment && typeof adjustment === "object" ? adjustment : {}) as Record<string, unknown>;
+    const position = `Factor ${index + 1}`;
+    if (typeof entry.id !== "string" || !entry.id.trim()) {
+      return `${position} needs an id`;
+    }
+    const name = typeof entry.name === "string" ? entry.name.trim() : "";
+    if (!name) {
+      return `${position} needs a name`;
+    }
+    if (names.has(name.toLowerCase())) {
+      return `Factor name "${name}" is used twice`;
+    }
+    names.add(name.toLowerCase());
+    if (
+      entry.category !== undefined &&
+      !(PRODUCTIVITY_ADJUSTMENT_CATEGORIES as readonly unknown[]).includes(entry.category)
+    ) {
+      return `${position} category must be one of ${PRODUCTIVITY_ADJUSTMENT_CATEGORIES.join(", ")}`;
+    }
+    const percent = entry.percent;
+    if (typeof percent !== "string" || !percent.trim() || !isNumericInput(percent) || Number(percent) <= -100) {
+      return `${position} percent must be a number above -100`;
+    }
+    for (const key of ["tradeCodes", "blockCodes"] as const) {
+      const codes = entry[key];
+      if (codes !== undefined && (!Array.isArray(codes) || codes.some((code) => typeof code !== "string"))) {
+        return `${position} ${key} must be a list of codes`;
+      }
+    }
+  }
+  return null;
+}
+
+/** Percentages of the workforce, entered as text: blank or a number from 0 to 100. */
+function isValidSharePercent(value: unknown): boolean {
+  if (value === undefined) return true;
+  if (typeof value !== "string" || !isNumericInput(value)) return false;
+  return Number(value.trim() || 0) >= 0 && Number(value.trim() || 0) <= 100;
+}
+
+/** Checks a manpower mix; returns an error message, or null when it can be stored. */
+function validateManpowerMix(mix: unknown): string | null {
+  if (!mix || typeof mix !== "object" || Array.isArray(mix)) {
+    return "mix must be an object or null";
+  }
+  const source = mix as Record<string, unknown>;
+  if (!isValidSharePercent(source.saudiPercent)) {
+    return "saudiPercent must be a number from 0 to 100";
+  }
+  if (!isValidSharePercent(source.nitaqatPercent)) {
+    return "nitaqatPercent must be a number from 0 to 100";
+  }
+  const trades = source.trades ?? [];
+  if (!Array.isArray(trades)) {
+    return "trades must be an array";
+  }
+  const codes = new Set<string>();
+  for (const [index, trade] of trades.entries()) {
+    const entry = (trade && typeof trade === "object" ? trade : {}) as Record<string, unknown>;
+    const code = typeof entry.tradeCode === "string" ? entry.tradeCode.trim() : "";
+    if (!code) {
+      return `Trade ${index + 1} needs a trade code`;
+    }
+    if (codes.has(code.toLowerCase())) {
+      return `Trade code "${code}" is used twice`;
+    }
+    codes.add(code.toLowerCase());
+    if (!isValidSharePercent(entry.saudiPercent)) {
+      return `Saudi percent of trade "${code}" must be a number from 0 to 100`;
+    }
+  }
+  return null;
+}
+
+/** Hours of a working day, entered as text: a number from 0 to 24. */
+function isValidDayHours(value: unknown): boolean {
+  if (typeof value !== "string" || !value.trim() || !isNumericInput(value)) return false;
+  return Number(value) >= 0 && Number(value) <= 24;
+}
+
+/** Checks a working calendar; returns an error message, or null when it can be stored. */
+function validateWorkingCalendar(calendar: unknown): string | null {
+  if (!calendar || typeof calendar !== "object" || Array.isArray(calendar)) {
+    return "calendar must be an object or null";
+  }
+  const source = calendar as Record<string, unknown>;
+  if (source.startDate !== undefined && source.startDate !== "" && !isCalendarDate(String(source.startDate))) {
+    return "startDate must be a date (YYYY-MM-DD)";
+  }
+  const restDays = source.restDays ?? [];
+  if (!Array.isArray(restDays) || restDays.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+    return "restDays must be a list of weekdays from 0 (Sunday) to 6 (Saturday)";
+  }
+  if (new Set(restDays).size >= 7) {
+    return "At least one day of the week must be worked";
+  }
+  if (!isValidDayHours(source.hoursPerDay) || Number(source.hoursPerDay) === 0) {
+    return "hoursPerDay must be a number above 0 and up to 24";
+  }
+  const periods = source.periods ?? [];
+  if (!Array.isArray(periods)) {
+    return "periods must be an array";
+  }
+  for (const [index, period] of periods.entries()) {
+    const entry = (period && typeof period === "object" ? period : {}) as Record<string, unknown>;
+    const position = `Period ${index + 1}`;
+    if (typeof entry.id !== "string" || !entry.id.trim()) {
+      return `${position} needs an id`;
+    }
+    if (typeof entry.name !== "string" || !entry.name.trim()) {
+      return `${position} needs a name`;
+    }
+    if (entry.kind !== undefined && !(CALENDAR_PERIOD_KINDS as readonly unknown[]).includes(entry.kind)) {
+      return `${position} kind must be one of ${CALENDAR_PERIOD_KINDS.join(", ")}`;
+    }
+    const startDate = String(entry.startDate ?? "");
+    const endDate = String(entry.endDate ?? "");
+    if (!isCalendarDate(startDate) || !isCalendarDate(endDate)) {
+      return `${position} needs start and end dates (YYYY-MM-DD)`;
+    }
+    if (endDate < startDate) {
+      return `${position} ends before it starts`;
+    }
+    if (!isValidDayHours(entry.hoursPerDay)) {
+      return `${position} hoursPerDay must be a number from 0 to 24`;
+    }
+  }
+  return null;
+}
+
+/** Accepts a list either as an array of strings or as newline-separated text. */
+function toTextList(value: unknown): string[] {
+  const entries = Array.isArray(value) ? value : String(value ?? "").split(/\r?\n/);
+  return entries.map((entry) => String(entry ?? "").trim()).filter(Boolean);
+}
+
+function toTenderDetails(value: unknown): TenderDetails {
+  const source = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  return {
+    clientName: String(source.clientName ?? "").trim(),
+    reference: String(source.reference ?? "").trim(),
+    assumptions: toTextList(source.assumptions),
+    exclusions: toTextList(source.exclusions),
+  };
 }
 
-const SEARCH_BLOCKS_MAX = 500;
 const SEARCH_BLOCKS_PAGE_SIZE_DEFAULT = 5;
 
-/** Search blocks from other projects by block code and/or text (main item description). */
+/**
+ * Search the assembly library by block code and/or text, leaving out blocks captured from the project
+ * being priced. Text matches are ranked by relevance.
+ */
 router.get("/search-blocks", async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const userId = getUserId(req);
     const projectId = String(req.query.projectId ?? "").trim();
-    const blockCode = normSearch(String(req.query.blockCode ?? ""));
-    const text = normSearch(String(req.query.text ?? ""));
+    const blockCode = String(req.query.blockCode ?? "").trim();
+    const text = String(req.query.text ?? "").trim();
+    const tag = String(req.query.tag ?? "").trim();
     const page = Math.max(1, parseInt(String(req.query.page ?? "1"), 10) || 1);
     const pageSize = Math.min(50, Math.max(1, parseInt(String(req.query.pageSize ?? String(SEARCH_BLOCKS_PAGE_SIZE_DEFAULT)), 10) || SEARCH_BLOCKS_PAGE_SIZE_DEFAULT));
 
     if (!projectId) {
       return res.status(400).json({ message: "projectId is required" });
     }
-    if (!blockCode && !text) {
+    if (!blockCode && !text && !tag) {
       return res.status(200).json({ blocks: [], total: 0 });
     }
 
-    const projects = await listProjects(userId);
-    const otherProjects = projects.filter((p) => String(p._id) !== projectId);
-    const blocks: Array<{
-      projectId: string;
-      projectName: string;
-      itemId: string;
-      description: string;
-      subitems: Array<{ description: string; code: string; qty: string; thickness: number | null }>;
-    }> = [];
-
-    for (const proj of otherProjects) {
-      if (blocks.length >= SEARCH_BLOCKS_MAX) break;
-      const pid = String(proj._id);
-      const [items, pricing] = await Promise.all([
-        listProjectItems(userId, pid),
-        getPricing(userId, pid),
-      ]);
-      const pricedItems = items.filter((item) => String(item.item_code ?? "").trim() !== "ITEM");
-      const subItemsByItemId = (pricing?.subItemsByItemId ?? {}) as Record<
-        string,
-        Array<{ code?: string; description?: string; qty?: string; thickness?: number | null }>
-      >;
-      const blockCodeByItemId = (pricing?.blockCodeByItemId ?? {}) as Record<string, string>;
-
-      for (const item of pricedItems) {
-        if (blocks.length >= SEARCH_BLOCKS_MAX) break;
-        const itemId = String(item._id);
-        const subs = subItemsByItemId[itemId];
-        if (!Array.isArray(subs) || subs.length === 0) continue;
-
-        const mainDesc = String(item.description ?? "").trim();
-        const blockCodeVal = normSearch(blockCodeByItemId[itemId] ?? "");
-
-        const matchBlockCode = !blockCode || blockCodeVal === blockCode;
-        const matchText = !text || mainDesc.toLowerCase().includes(text);
-        if (!matchBlockCode || !matchText) continue;
-
-        blocks.push({
-          projectId: pid,
-          projectName: proj.name ?? "Unnamed",
-          itemId,
-          description: mainDesc || "—",
-          subitems: subs.map((s) => ({
-            description: String(s.description ?? "").trim() || "—",
-            code: String(s.code ?? "").trim() || "—",
-            qty: String(s.qty ?? "").trim() || "—",
-            thickness: s.thickness != null && Number.isFinite(s.thickness) ? s.thickness : null,
-          })),
-        });
+    const { assemblies, total } = await searchAssemblies({
+      userId,
+      text,
+      blockCode,
+      tag,
+      excludeProjectId: projectId,
+      page,
+      pageSize,
+    });
+    const blocks = assemblies.map((assembly) => ({
+      assemblyId: String(assembly._id),
+      projectId: assembly.sourceProjectId ? String(assembly.sourceProjectId) : "",
+      projectName: assembly.sourceProjectName || "Assembly library",
+      itemId: assembly.sourceItemId,
+      blockCode: assembly.blockCode,
+      tags: assembly.tags,
+      description: assembly.description || "—",
+      subitems: assembly.subitems.map((sub) => ({
+        description: sub.description || "—",
+        code: sub.code || "—",
+        qty: sub.qty || "—",
+        thickness: sub.thickness,
+      })),
+    }));
+    res.status(200).json({ blocks, total });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Per-item, per-category and project totals computed with the same rules as the Pricing page. */
+router.get("/:projectId/computed", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    const computed = await computeProjectPricing(userId, projectId);
+    res.status(200).json({ projectId, projectName: project.name, ...computed });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** The client's BOQ workbook with our sell rates and amounts written into its original rows. */
+router.get("/:projectId/priced-boq/:fileId", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const fileId = String(req.params.fileId || "").trim();
+    const file = await findProjectFileById(userId, projectId, fileId);
+    if (!file || file.fileType !== "boq") {
+      return res.status(404).json({ message: "BOQ file not found" });
+    }
+    const result = await exportPricedBoq(userId, projectId, file);
+    if (result.written === 0) {
+      const reason = result.skipped[0]?.reason ?? "No priced BOQ items belong to this file";
+      return res.status(400).json({ message: `Nothing to export: ${reason}` });
+    }
+    res.setHeader("X-Skipped-Rows", String(result.skipped.length));
+    res.attachment(result.fileName);
+    res.status(200).send(result.buffer);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Headcount per trade per month from the priced man-hours; `?format=xlsx` downloads it as a workbook. */
+router.get("/:projectId/manpower-histogram", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    const histogram = await computeManpowerHistogram(userId, projectId);
+    if (!histogram) {
+      return res.status(400).json({ message: "Set a project duration before building the manpower histogram" });
+    }
+    if (String(req.query.format || "").trim().toLowerCase() === "xlsx") {
+      const safeName = project.name.replace(/[^a-z0-9]+/gi, "_").replace(/^_+|_+$/g, "") || "project";
+      res.attachment(`${safeName}-manpower-histogram.xlsx`);
+      return res.status(200).send(buildManpowerHistogramWorkbook(histogram));
+    }
+    res.status(200).json(histogram);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Materials grouped by productivity code and unit with waste applied; `?format=xlsx` downloads the enquiry sheet. */
+router.get("/:projectId/material-takeoff", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    const takeoff = await computeMaterialTakeoff(userId, projectId);
+    if (String(req.query.format || "").trim().toLowerCase() === "xlsx") {
+      const safeName = project.name.replace(/[^a-z0-9]+/gi, "_").replace(/^_+|_+$/g, "") || "project";
+      res.attachment(`${safeName}-material-enquiry.xlsx`);
+      return res.status(200).send(buildMaterialEnquiryWorkbook({ projectName: project.name, takeoff }));
+    }
+    res.status(200).json(takeoff);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Saves the default and per-line waste percentages and returns the recalculated take-off. */
+router.put("/:projectId/material-takeoff/waste", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    const { defaultWastePercent, wasteFactors } = req.body ?? {};
+    if (!isValidWastePercent(defaultWastePercent)) {
+      return res.status(400).json({ message: "defaultWastePercent must be a number of 0 or more" });
+    }
+    if (!Array.isArray(wasteFactors)) {
+      return res.status(400).json({ message: "wasteFactors must be an array" });
+    }
+    for (const factor of wasteFactors) {
+      if (!factor || typeof factor.key !== "string" || !factor.key.trim() || !isValidWastePercent(factor.percent)) {
+        return res.status(400).json({ message: "Each waste factor needs a key and a percent of 0 or more" });
       }
     }
+    await updateMaterialWaste(
+      userId,
+      projectId,
+      defaultWastePercent.trim(),
+      wasteFactors
+        .filter((factor: { percent: string }) => factor.percent.trim() !== "")
+        .map((factor: { key: string; percent: string }) => ({ key: factor.key, percent: factor.percent.trim() }))
+    );
+    res.status(200).json(await computeMaterialTakeoff(userId, projectId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Monthly cash-flow forecast with its S-curve and peak negative cash; `?format=xlsx` downloads it as a workbook. */
+router.get("/:projectId/cash-flow", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    const forecast = await computeCashFlow(userId, projectId);
+    if (!forecast) {
+      return res.status(400).json({ message: "Set a project duration before forecasting the cash flow" });
+    }
+    if (String(req.query.format || "").trim().toLowerCase() === "xlsx") {
+      const safeName = project.name.replace(/[^a-z0-9]+/gi, "_").replace(/^_+|_+$/g, "") || "project";
+      res.attachment(`${safeName}-cash-flow.xlsx`);
+      return res.status(200).send(buildCashFlowWorkbook(forecast));
+    }
+    res.status(200).json(forecast);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Saves the spending profile and payment terms and returns the recalculated forecast. */
+router.put("/:projectId/cash-flow/terms", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    const error = validateCashFlowTerms(req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    await updatePricingCashFlowTerms(userId, projectId, normalizeCashFlowTerms(req.body));
+    const forecast = await computeCashFlow(userId, projectId);
+    if (!forecast) {
+      return res.status(400).json({ message: "Terms saved; set a project duration to forecast the cash flow" });
+    }
+    res.status(200).json(forecast);
+  } catch (error) {
+    next(error);
+  }
+});
 
-    const total = blocks.length;
-    const start = (page - 1) * pageSize;
-    const pageBlocks = blocks.slice(start, start + pageSize);
-    res.status(200).json({ blocks: pageBlocks, total });
+/** The project's stored what-if scenarios. */
+router.get("/:projectId/scenarios", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    const pricing = await getPricing(userId, projectId);
+    res.status(200).json(normalizeScenarios(pricing?.scenarios));
   } catch (error) {
     next(error);
   }
 });
 
-router.get("/:projectId", async (req: AuthRequest, res: Response, next: NextFunction) => {
+/** Replaces the project's scenario list. */
+router.put("/:projectId/scenarios", async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const userId = getUserId(req);
     const projectId = String(req.params.projectId || "").trim();
-    if (!projectId) {
-      return res.status(400).json({ message: "projectId is required" });
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
     }
-    const record = await getPricing(userId, projectId);
-    if (!record) {
-      return res.status(200).json({
-        percentage: "10",
-        idleText: "idle time",
-        poRate: "8",
-        mpHourlyRate: "0",
-        subItemsByItemId: {},
-        autoRowQtyByItemId: {},
-        qtyOverrideByItemId: {},
-        collapsedByItemId: {},
-        completedByItemId: {},
-        blockCodeByItemId: {},
-        updatedAt: null,
+    const scenarios = req.body?.scenarios;
+    const error = validateScenarios(scenarios);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    const saved = await updatePricingScenarios(userId, projectId, normalizeScenarios(scenarios));
+    res.status(200).json(normalizeScenarios(saved?.scenarios));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Totals of the base pricing and of every scenario, with each scenario's difference to the base. */
+router.get("/:projectId/scenarios/compare", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    res.status(200).json(await compareProjectScenarios(userId, projectId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** The top-down breakdown of a lump-sum project. */
+router.get("/:projectId/lump-sum", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    const pricing = await getPricing(userId, projectId);
+    res.status(200).json(normalizeLumpSum(pricing?.lumpSum));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Replaces the lump sum and its trade packages. */
+router.put("/:projectId/lump-sum", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    const error = validateLumpSum(req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    const saved = await updatePricingLumpSum(userId, projectId, normalizeLumpSum(req.body));
+    res.status(200).json(normalizeLumpSum(saved?.lumpSum));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** The lump sum spread back to the BOQ lines through the packages, with the rate each line gets. */
+router.get("/:projectId/lump-sum/spread", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    res.status(200).json(await computeLumpSumSpread(userId, projectId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Pre-submission lint report: items without rates, unit problems and rate outliers. */
+router.get("/:projectId/validation", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    res.status(200).json(await validateProjectPricing(userId, projectId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Productivity rates the project is priced with: its pinned company library version, or the user's own rates,
+ * with the trade costs of its location, the equipment catalogue costs and the project's adjustment factors.
+ * `latestVersion` tells the page when a newer library version has been published.
+ */
+async function loadProjectRatesResponse(userId: string, projectId: string) {
+  const [rates, latest] = await Promise.all([getProjectProductivityRates(userId, projectId), getLatestLibraryVersion()]);
+  return {
+    factor: rates?.factor ?? "1",
+    blocks: rates?.blocks ?? [],
+    libraryVersion: rates?.libraryVersion ?? null,
+    latestVersion: latest?.version ?? null,
+    tradeLocation: rates?.tradeLocation ?? null,
+    tradeCosts: rates?.tradeCosts ?? null,
+    equipmentCosts: rates?.equipmentCosts ?? {},
+    adjustments: rates?.adjustments ?? [],
+    calendar: rates?.calendar ?? null,
+  };
+}
+
+router.get("/:projectId/productivity-rates", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    res.status(200).json(await loadProjectRatesResponse(userId, projectId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Pins the project to a company library version (`version`), or to the user's own rates with null. */
+router.put("/:projectId/library-version", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    const requested = req.body?.version;
+    if (requested !== null && !Number.isInteger(requested)) {
+      return res.status(400).json({ message: "version must be a library version number or null" });
+    }
+    if (requested !== null && !(await findLibraryVersion(requested))) {
+      return res.status(400).json({ message: `Library version ${requested} does not exist` });
+    }
+    const actor = { id: userId, name: getUserName(req) };
+    await withItemReviewReset({ userId, projectId, actor }, () =>
+      updatePricingLibraryVersion(userId, projectId, requested)
+    );
+    await createProjectLog({
+      userId,
+      projectId,
+      message:
+        requested === null
+          ? "Pricing switched to the estimator's own productivity rates."
+          : `Pricing switched to company productivity library v${requested}.`,
+    });
+    res.status(200).json(await loadProjectRatesResponse(userId, projectId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Prices the project's crews from a location's trade table (`location`), or at the manpower hourly rate with null. */
+router.put("/:projectId/trade-location", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    const requested = req.body?.location;
+    if (requested !== null && (typeof requested !== "string" || !requested.trim())) {
+      return res.status(400).json({ message: "location must be a trade rates location or null" });
+    }
+    const table = requested === null ? null : await getTradeRates(userId, requested);
+    if (requested !== null && !table) {
+      return res.status(400).json({ message: `There are no trade rates for "${requested.trim()}"` });
+    }
+    const actor = { id: userId, name: getUserName(req) };
+    await withItemReviewReset({ userId, projectId, actor }, () =>
+      updatePricingTradeLocation(userId, projectId, table?.location ?? null)
+    );
+    await createProjectLog({
+      userId,
+      projectId,
+      message: table
+        ? `Crews priced from the ${table.location} trade rates.`
+        : "Crews priced at the manpower hourly rate.",
+    });
+    res.status(200).json(await loadProjectRatesResponse(userId, projectId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** The project's productivity adjustment factors. */
+router.get("/:projectId/productivity-adjustments", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    const pricing = await getPricing(userId, projectId);
+    res.status(200).json(normalizeProductivityAdjustments(pricing?.productivityAdjustments));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Replaces the project's adjustment factors; the library man-hours of every linked sub row are re-priced with them. */
+router.put("/:projectId/productivity-adjustments", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    const adjustments = req.body?.adjustments;
+    const error = validateProductivityAdjustments(adjustments);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    const normalized = normalizeProductivityAdjustments(adjustments);
+    const actor = { id: userId, name: getUserName(req) };
+    const saved = await withItemReviewReset({ userId, projectId, actor }, () =>
+      updatePricingProductivityAdjustments(userId, projectId, normalized)
+    );
+    await createProjectLog({
+      userId,
+      projectId,
+      message: normalized.length
+        ? `Productivity adjusted by ${normalized.map((entry) => `${entry.name} (${entry.percent}%)`).join(", ")}.`
+        : "Productivity adjustment factors removed.",
+    });
+    res.status(200).json(normalizeProductivityAdjustments(saved?.productivityAdjustments));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** The project's Saudi/expatriate manpower mix; null when split trades are priced all-expatriate. */
+router.get("/:projectId/manpower-mix", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    const pricing = await getPricing(userId, projectId);
+    res.status(200).json(normalizeManpowerMix(pricing?.manpowerMix));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Replaces the project's manpower mix (`mix`), or removes it with null; the crews are re-priced at the blend. */
+router.put("/:projectId/manpower-mix", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    const mix = req.body?.mix;
+    const error = mix === null ? null : validateManpowerMix(mix);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    const normalized = normalizeManpowerMix(mix);
+    const actor = { id: userId, name: getUserName(req) };
+    const saved = await withItemReviewReset({ userId, projectId, actor }, () =>
+      updatePricingManpowerMix(userId, projectId, normalized)
+    );
+    await createProjectLog({
+      userId,
+      projectId,
+      message: normalized
+        ? `Manpower mix set to ${normalized.saudiPercent || "0"}% Saudi` +
+          (normalized.trades.length ? ` with ${normalized.trades.length} trade override(s).` : ".")
+        : "Manpower mix removed; split trades are priced all-expatriate.",
+    });
+    res.status(200).json(normalizeManpowerMix(saved?.manpowerMix));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Saudi share of the priced manpower against the Nitaqat target, and the cost of the mix over all-expatriate. */
+router.get("/:projectId/nationalisation", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    const report = await computeNationalisation(userId, projectId);
+    if (!report) {
+      return res
+        .status(400)
+        .json({ message: "Price the project at a trade rates location to see its nationalisation cost" });
+    }
+    res.status(200).json(report);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** The calendar with the working days and hours it gives each month of the project duration. */
+function workingCalendarResponse(calendar: WorkingCalendar | null, projectDuration: string | undefined) {
+  const duration = Number(projectDuration ?? PRICING_SETTING_DEFAULTS.projectDuration);
+  return { calendar, months: calendar ? buildCalendarMonths(calendar, duration) : [] };
+}
+
+/** The project's working calendar; null when durations use the flat 160-hour month. */
+router.get("/:projectId/working-calendar", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    const pricing = await getPricing(userId, projectId);
+    res
+      .status(200)
+      .json(workingCalendarResponse(normalizeWorkingCalendar(pricing?.workingCalendar), pricing?.projectDuration));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Replaces the project's working calendar (`calendar`), or removes it with null. The histogram, cash flow,
+ * "Total Working Days" and monthly equipment rates follow it.
+ */
+router.put("/:projectId/working-calendar", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    const calendar = req.body?.calendar;
+    const error = calendar === null ? null : validateWorkingCalendar(calendar);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    const normalized = normalizeWorkingCalendar(calendar);
+    const actor = { id: userId, name: getUserName(req) };
+    const saved = await withItemReviewReset({ userId, projectId, actor }, () =>
+      updatePricingWorkingCalendar(userId, projectId, normalized)
+    );
+    await createProjectLog({
+      userId,
+      projectId,
+      message: normalized
+        ? `Working calendar set: ${normalized.hoursPerDay} h a day, ${normalized.periods.length} special period(s).`
+        : "Working calendar removed; durations use a 160-hour month.",
+    });
+    res
+      .status(200)
+      .json(workingCalendarResponse(normalizeWorkingCalendar(saved?.workingCalendar), saved?.projectDuration));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** The users the project's owner asked to review its pricing. */
+async function listProjectReviewers(project: ProjectDocument) {
+  const users = await User.find({ _id: { $in: project.reviewerIds ?? [] } }).select("username email").exec();
+  return users.map((user) => ({ id: String(user._id), name: user.username, email: user.email }));
+}
+
+/** The project's review as `viewerId` sees it, with its reviewers. Reviewers work on the owner's pricing. */
+async function loadReviewResponse(project: ProjectDocument, viewerId: string) {
+  const [summary, reviewers] = await Promise.all([
+    computeReviewSummary(String(project.userId), String(project._id), viewerId),
+    listProjectReviewers(project),
+  ]);
+  return summary && { ...summary, reviewers };
+}
+
+/** Other users' projects the user was asked to review, with who owns each. */
+router.get("/reviews", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const projects = await listProjectsToReview(getUserId(req));
+    const owners = await User.find({ _id: { $in: projects.map((project) => project.userId) } })
+      .select("username")
+      .exec();
+    const ownerNames = new Map(owners.map((owner) => [String(owner._id), owner.username]));
+    res.status(200).json(
+      projects.map((project) => ({
+        id: String(project._id),
+        name: project.name,
+        status: project.status,
+        ownerName: ownerNames.get(String(project.userId)) ?? "",
+        updatedAt: project.updatedAt,
+      }))
+    );
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Review status of every priced item, who took each step, and the actions the caller may take on it. */
+router.get("/:projectId/review", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findReviewableProject(userId, projectId);
+    const review = project ? await loadReviewResponse(project, userId) : null;
+    if (!review) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    res.status(200).json(review);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Replaces the users asked to review the project (`emails`); only the owner can. The owner prices every
+ * item, so cannot be one of them.
+ */
+router.put("/:projectId/reviewers", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    const emails: unknown = req.body?.emails;
+    if (!Array.isArray(emails) || !emails.every((email) => typeof email === "string")) {
+      return res.status(400).json({ message: "emails must be an array of email addresses" });
+    }
+    const requested = Array.from(
+      new Set((emails as string[]).map((email) => email.trim().toLowerCase()).filter(Boolean))
+    );
+    const users = await User.find({ email: { $in: requested } }).select("username email").exec();
+    const unknown = requested.filter((email) => !users.some((user) => user.email === email));
+    if (unknown.length > 0) {
+      return res.status(400).json({ message: `No user is registered as ${unknown.join(", ")}` });
+    }
+    if (users.some((user) => String(user._id) === userId)) {
+      return res.status(400).json({ message: "You price this project, so you cannot also review it" });
+    }
+    const saved = await updateProjectReviewers(userId, projectId, users.map((user) => String(user._id)));
+    const actorName = getUserName(req) || "A user";
+    await createProjectLog({
+      userId,
+      projectId,
+      message: users.length
+        ? `${actorName} asked ${users.map((user) => user.username).join(", ")} to review the pricing.`
+        : `${actorName} removed the pricing reviewers.`,
+    });
+    res.status(200).json(saved ? await loadReviewResponse(saved, userId) : null);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Moves items one step through the review workflow (price, review, approve) or rejects them back to draft
+ * with a comment. Reviews and approvals need a second person: see reviewActionRefusal. All items must allow
+ * the action or none is changed. The project status follows.
+ */
+router.post("/:projectId/review/actions", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findReviewableProject(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    const ownerId = String(project.userId);
+    const action = req.body?.action as ReviewAction;
+    const itemIds: unknown = req.body?.itemIds;
+    const comment = typeof req.body?.comment === "string" ? req.body.comment.trim() : "";
+    if (!REVIEW_ACTIONS.includes(action)) {
+      return res.status(400).json({ message: `action must be one of ${REVIEW_ACTIONS.join(", ")}` });
+    }
+    if (!Array.isArray(itemIds) || itemIds.length === 0 || !itemIds.every((id) => typeof id === "string")) {
+      return res.status(400).json({ message: "itemIds must be a non-empty array of item ids" });
+    }
+    if (action === "reject" && !comment) {
+      return res.status(400).json({ message: "A comment is required to reject an item" });
+    }
+    const summary = await computeReviewSummary(ownerId, projectId, userId);
+    const itemsById = new Map((summary?.items ?? []).map((item) => [item.itemId, item]));
+    for (const itemId of itemIds as string[]) {
+      const item = itemsById.get(itemId);
+      if (!item) {
+        return res.status(400).json({ message: `Item ${itemId} is not a priced BOQ item of this project` });
+      }
+      if (!canApplyReviewAction(item.status, action)) {
+        return res
+          .status(400)
+          .json({ message: `Item ${item.itemCode || itemId} is ${item.status} and cannot be ${REVIEW_ACTION_VERBS[action]}` });
+      }
+      const refusal = reviewActionRefusal({ review: item, action, actorId: userId, ownerId });
+      if (refusal) {
+        return res.status(403).json({ message: `Item ${item.itemCode || itemId}: ${refusal}` });
+      }
+    }
+    const actor = { id: userId, name: getUserName(req) };
+    const at = new Date();
+    const updates = Object.fromEntries(
+      (itemIds as string[]).map((itemId) => [
+        itemId,
+        applyReviewAction({ review: itemsById.get(itemId)!, action, actor, comment, at }),
+      ])
+    );
+    await updatePricingItemReviews(ownerId, projectId, updates);
+    const statuses = Array.from(itemsById.values()).map((item) => updates[item.itemId]?.status ?? item.status);
+    const allApproved = statuses.every((status) => status === "approved");
+    // A bid with an item sent back is no longer the one submitted.
+    if (project.submittedAt && !allApproved) await updateProjectSubmittedAt(ownerId, projectId, null);
+    // Extraction owns the status while files are still being analysed.
+    if (project.status !== "analyzing") {
+      const status = deriveReviewProjectStatus(statuses, Boolean(project.submittedAt) && allApproved);
+      if (status !== project.status) await updateProjectStatus(ownerId, projectId, status);
+      if (status === "approved") await recordPricedItemRates(ownerId, projectId);
+    }
+    await createProjectLog({
+      userId: ownerId,
+      projectId,
+      message:
+        `${actor.name || "A user"} ${REVIEW_ACTION_VERBS[action]} ${itemIds.length} ` +
+        `item${itemIds.length === 1 ? "" : "s"}${comment ? `: ${comment}` : "."}`,
+    });
+    res.status(200).json(await loadReviewResponse(project, userId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Marks the bid as submitted; only the owner can, once every priced item is approved. */
+router.post("/:projectId/review/submit", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findReviewableProject(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    if (String(project.userId) !== userId) {
+      return res.status(403).json({ message: "Only the project owner can submit the bid" });
+    }
+    const summary = await computeReviewSummary(userId, projectId);
+    if (!summary) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    if (!summary.canSubmit) {
+      const pending = summary.items.length - summary.counts.approved;
+      return res.status(400).json({
+        message:
+          summary.items.length === 0
+            ? "There are no priced items to submit"
+            : `${pending} item${pending === 1 ? " is" : "s are"} not approved yet`,
       });
     }
+    // Benchmarks read the stored rates of finished projects, which may have been saved before rates were stored.
+    await recordPricedItemRates(userId, projectId);
+    await updateProjectSubmittedAt(userId, projectId, new Date());
+    await updateProjectStatus(userId, projectId, "submitted");
+    await createProjectLog({ userId, projectId, message: `${getUserName(req) || "A user"} submitted the bid.` });
+    res.status(200).json({ ...(await loadReviewResponse(project, userId)), projectStatus: "submitted" });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Min, median and max sell rates of similar items priced in the user's approved and submitted projects. */
+router.get("/:projectId/items/:itemId/benchmark", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    const benchmark = await benchmarkProjectItem(userId, projectId, String(req.params.itemId || "").trim());
+    if (!benchmark) {
+      return res.status(404).json({ message: "Item not found" });
+    }
+    res.status(200).json(benchmark);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Cover and appendix text last used for the project's tender pack. */
+router.get("/:projectId/tender-pack/details", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const project = await findProjectById(userId, String(req.params.projectId || "").trim());
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    res.status(200).json(toTenderDetails(project.tenderDetails));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Saves the tender details and returns the tender submission PDF built from the stored pricing. */
+router.post("/:projectId/tender-pack", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    const details = toTenderDetails(req.body);
+    await updateProjectTenderDetails(userId, projectId, details);
+    const pdf = await exportTenderPack(userId, projectId, project.name, details);
+    await createProjectLog({ userId, projectId, message: "Tender pack PDF generated." });
+    const safeName = project.name.replace(/[^a-z0-9]+/gi, "_").replace(/^_+|_+$/g, "") || "project";
+    res.type("application/pdf");
+    res.attachment(`${safeName}-tender-pack.pdf`);
+    res.status(200).send(pdf);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Saved pricing revisions, newest first. */
+router.get("/:projectId/revisions", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const revisions = await listPricingRevisions(userId, projectId);
     res.status(200).json({
-      percentage: record.percentage ?? "10",
-      idleText: record.idleText ?? "idle time",
-      poRate: record.poRate ?? "8",
-      mpHourlyRate: record.mpHourlyRate ?? "0",
-      subItemsByItemId: record.subItemsByItemId ?? {},
-      autoRowQtyByItemId: record.autoRowQtyByItemId ?? {},
-      qtyOverrideByItemId: record.qtyOverrideByItemId ?? {},
-      collapsedByItemId: record.collapsedByItemId ?? {},
-      completedByItemId: record.completedByItemId ?? {},
-      blockCodeByItemId: record.blockCodeByItemId ?? {},
-      updatedAt: record.updatedAt,
+      revisions: revisions.map((revision) => ({
+        revision: revision.revision,
+        authorName: revision.authorName,
+        note: revision.note,
+        restoredFrom: revision.restoredFrom ?? null,
+        libraryVersion: revision.libraryVersion ?? null,
+        createdAt: revision.createdAt,
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Line-level diff between two revisions; `to` may be "current" to compare against the live pricing. */
+router.get("/:projectId/revisions/diff", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const fromRevision = parseInt(String(req.query.from ?? ""), 10);
+    const toParam = String(req.query.to ?? "current").trim();
+    const from = await findPricingRevision(userId, projectId, fromRevision);
+    if (!from) {
+      return res.status(404).json({ message: "Revision not found" });
+    }
+    let to: StoredPricing | null;
+    if (toParam === "current") {
+      to = await getPricing(userId, projectId);
+    } else {
+      to = (await findPricingRevision(userId, projectId, parseInt(toParam, 10)))?.snapshot ?? null;
+    }
+    if (!to) {
+      return res.status(404).json({ message: "Revision not found" });
+    }
+    const diff = await diffProjectPricing(userId, projectId, from.snapshot, to);
+    res.status(200).json({ from: from.revision, to: toParam, ...diff });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Makes an earlier revision the live pricing again and records the restore as a new revision. */
+router.post("/:projectId/revisions/:revision/restore", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const revisionNumber = parseInt(String(req.params.revision ?? ""), 10);
+    const revision = await findPricingRevision(userId, projectId, revisionNumber);
+    if (!revision) {
+      return res.status(404).json({ message: "Revision not found" });
+    }
+    const snapshot = revision.snapshot as PricingPayload;
+    const actor = { id: userId, name: getUserName(req) };
+    const saved = await withItemReviewReset({ userId, projectId, actor }, () =>
+      upsertPricing(userId, projectId, snapshot)
+    );
+    if (!saved) throw new Error("Failed to restore the pricing");
+    const created = await createPricingRevision({
+      pricing: saved,
+      authorId: userId,
+      authorName: actor.name,
+      note: `Restored from revision ${revision.revision}`,
+      restoredFrom: revision.revision,
     });
+    await recordPricedItemRates(userId, projectId);
+    res.status(200).json(toPricingResponse(saved, created.revision));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/:projectId", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    if (!projectId) {
+      return res.status(400).json({ message: "projectId is required" });
+    }
+    const record = await getPricing(userId, projectId);
+    res.status(200).json(toPricingResponse(record ?? {}, record?.revision ?? 0));
   } catch (error) {
     next(error);
   }
@@ -152,46 +1511,71 @@ router.put("/:projectId", async (req: AuthRequest, res: Response, next: NextFunc
     if (!projectId) {
       return res.status(400).json({ message: "projectId is required" });
     }
+    const body = { ...PRICING_SETTING_DEFAULTS, ...(req.body ?? {}) };
     const {
-      percentage = "10",
-      idleText = "idle time",
-      poRate = "8",
-      mpHourlyRate = "0",
       subItemsByItemId = {},
       autoRowQtyByItemId = {},
       qtyOverrideByItemId = {},
       collapsedByItemId = {},
       completedByItemId = {},
       blockCodeByItemId = {},
-    } = req.body ?? {};
-    if (typeof percentage !== "string" || typeof idleText !== "string" || typeof poRate !== "string" || typeof mpHourlyRate !== "string") {
-      return res.status(400).json({ message: "percentage, idleText, poRate, mpHourlyRate must be strings" });
-    }
-    const saved = await upsertPricing(userId, projectId, {
-      percentage,
-      idleText,
-      poRate,
-      mpHourlyRate,
+      allowanceInputsByItemId = {},
+      sellRateOverridesByItemId = {},
+      markups = [],
+    } = body;
+    const validationError =
+      validatePricingSettings(body, sellRateOverridesByItemId) ??
+      validateMarkups(markups) ??
+      validateAllowanceInputs(allowanceInputsByItemId);
+    if (validationError) {
+      return res.status(400).json({ message: validationError });
+    }
+    const payload: PricingPayload = {
+      percentage: body.percentage,
+      idleText: body.idleText,
+      poRate: body.poRate,
+      mpHourlyRate: body.mpHourlyRate,
+      totalPriceFactor: body.totalPriceFactor,
+      projectDuration: body.projectDuration,
+      sellRateFactor: body.sellRateFactor,
+      sellRateOverridesByItemId,
+      markups: normalizeMarkups(markups),
       subItemsByItemId: typeof subItemsByItemId === "object" && subItemsByItemId ? subItemsByItemId : {},
       autoRowQtyByItemId: typeof autoRowQtyByItemId === "object" && autoRowQtyByItemId ? autoRowQtyByItemId : {},
       qtyOverrideByItemId: typeof qtyOverrideByItemId === "object" && qtyOverrideByItemId ? qtyOverrideByItemId : {},
       collapsedByItemId: typeof collapsedByItemId === "object" && collapsedByItemId ? collapsedByItemId : {},
       completedByItemId: typeof completedByItemId === "object" && completedByItemId ? completedByItemId : {},
       blockCodeByItemId: typeof blockCodeByItemId === "object" && blockCodeByItemId ? blockCodeByItemId : {},
+      allowanceInputsByItemId,
+    };
+    const previous = await getPricing(userId, projectId);
+    // Awards and restores write the stored pricing too; a page still holding the older copy must reload first.
+    const baseRevision = typeof req.body?.baseRevision === "number" ? req.body.baseRevision : undefined;
+    const actor = { id: userId, name: getUserName(req) };
+    const saved = await withItemReviewReset({ userId, projectId, actor }, () =>
+      upsertPricing(userId, projectId, payload, baseRevision)
+    );
+    if (!saved) {
+      return res.status(409).json({
+        message:
+          "The pricing was changed elsewhere after this page loaded it. " +
+          "Reload the pricing to pick up those changes, then make your edits again.",
+      });
+    }
+    await captureCompletedBlocks({
+      userId,
+      projectId,
+      previouslyCompleted: previous?.completedByItemId,
+      pricing: payload,
     });
-    res.status(200).json({
-      percentage: saved.percentage ?? "10",
-      idleText: saved.idleText ?? "idle time",
-      poRate: saved.poRate ?? "8",
-      mpHourlyRate: saved.mpHourlyRate ?? "0",
-      subItemsByItemId: saved.subItemsByItemId ?? {},
-      autoRowQtyByItemId: saved.autoRowQtyByItemId ?? {},
-      qtyOverrideByItemId: saved.qtyOverrideByItemId ?? {},
-      collapsedByItemId: saved.collapsedByItemId ?? {},
-      completedByItemId: saved.completedByItemId ?? {},
-      blockCodeByItemId: saved.blockCodeByItemId ?? {},
-      updatedAt: saved.updatedAt,
+    const created = await createPricingRevision({
+      pricing: saved,
+      authorId: userId,
+      authorName: actor.name,
+      note: typeof req.body?.revisionNote === "string" ? req.body.revisionNote : "",
     });
+    await recordPricedItemRates(userId, projectId);
+    res.status(200).json(toPricingResponse(saved, created.revision));
   } catch (error) {
     next(error);
   }
@@ -0,0 +1,312 @@
+import { Router } from "express";
+import type { Response, NextFunction } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { config } from "../config";
+import {
+  createLibraryProposal,
+  createLibraryVersion,
+  findLibraryProposal,
+  findLibraryVersion,
+  getLatestLibraryVersion,
+  listLibraryProposals,
+  listLibraryVersions,
+  reopenLibraryProposal,
+  reviewLibraryProposal,
+  setLibraryProposalPublishedVersion,
+} from "../modules/storage/productivityLibraryRepository";
+import type {
+  LibraryBlockChange,
+  LibraryProposalStatus,
+  ProductivityLibraryProposalDocument,
+  ProductivityLibraryVersionDocument,
+} from "../modules/storage/productivityLibraryModel";
+import { getProductivityRates, upsertProductivityRates } from "../modules/storage/productivityRatesRepository";
+import type { ProductivityRatesBlock } from "../modules/storage/productivityRatesModel";
+import {
+  applyLibraryChanges,
+  buildBlockChangeLog,
+  diffLibraryBlocks,
+} from "../services/pricing/productivityLibrary";
+
+const router = Router();
+
+function getUserId(req: AuthRequest): string {
+  const user = req.user;
+  if (!user?._id) throw new Error("User not found");
+  return String(user._id);
+}
+
+function getUserName(req: AuthRequest): string {
+  return String(req.user?.username ?? req.user?.email ?? "").trim();
+}
+
+/**
+ * Admins are listed by email in PRODUCTIVITY_LIBRARY_ADMINS; everyone else can only propose. Usernames are
+ * not matched: anyone can register a username that reads like an admin's email.
+ */
+function isLibraryAdmin(req: AuthRequest): boolean {
+  const email = String(req.user?.email ?? "").trim().toLowerCase();
+  return Boolean(email) && config.productivityLibraryAdmins.includes(email);
+}
+
+const PROPOSAL_STATUSES: readonly LibraryProposalStatus[] = ["pending", "approved", "rejected"];
+
+/** Plain copies of stored blocks, so they can be saved into another document. */
+const toPlainBlocks = (blocks: ProductivityRatesBlock[]): ProductivityRatesBlock[] =>
+  JSON.parse(JSON.stringify(blocks)) as ProductivityRatesBlock[];
+
+function toVersionSummary(version: ProductivityLibraryVersionDocument) {
+  return {
+    version: version.version,
+    note: version.note,
+    proposedByName: version.proposedByName,
+    publishedByName: version.publishedByName,
+    publishedAt: version.createdAt,
+    changeCount: version.changes.length,
+  };
+}
+
+function toVersionResponse(version: ProductivityLibraryVersionDocument) {
+  return {
+    ...toVersionSummary(version),
+    factor: version.factor,
+    blocks: version.blocks,
+    changes: version.changes,
+  };
+}
+
+function toProposalResponse(proposal: ProductivityLibraryProposalDocument) {
+  return {
+    id: String(proposal._id),
+    userName: proposal.userName,
+    baseVersion: proposal.baseVersion,
+    factor: proposal.factor,
+    changes: proposal.changes,
+    note: proposal.note,
+    status: proposal.status,
+    reviewedByName: proposal.reviewedByName,
+    reviewedAt: proposal.reviewedAt,
+    reviewComment: proposal.reviewComment,
+    publishedVersion: proposal.publishedVersion,
+    createdAt: proposal.createdAt,
+  };
+}
+
+/** Latest published version with its blocks, the version history, and whether the caller can approve. */
+router.get("/", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const [latest, versions] = await Promise.all([getLatestLibraryVersion(), listLibraryVersions()]);
+    res.status(200).json({
+      isAdmin: isLibraryAdmin(req),
+      latest: latest ? toVersionResponse(latest) : null,
+      versions: versions.map(toVersionSummary),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/versions/:version", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const version = await findLibraryVersion(Number(req.params.version));
+    if (!version) {
+      return res.status(404).json({ message: "Library version not found" });
+    }
+    res.status(200).json(toVersionResponse(version));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Every published change to one block, newest first. */
+router.get("/blocks/:code/log", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const code = String(req.params.code || "").trim();
+    const versions = await listLibraryVersions();
+    res.status(200).json({ code, entries: buildBlockChangeLog(versions, code) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** What a proposal from the caller's own rates would change in the latest version. */
+router.get("/my-changes", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const [latest, own] = await Promise.all([getLatestLibraryVersion(), getProductivityRates(userId)]);
+    res.status(200).json({
+      baseVersion: latest?.version ?? null,
+      factor: own && own.factor !== (latest?.factor ?? "") ? own.factor : null,
+      changes: diffLibraryBlocks(latest?.blocks ?? [], own?.blocks ?? []),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Admins see every proposal, other users their own. */
+router.get("/proposals", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const status = String(req.query.status || "").trim() as LibraryProposalStatus;
+    if (status && !PROPOSAL_STATUSES.includes(status)) {
+      return res.status(400).json({ message: `status must be one of ${PROPOSAL_STATUSES.join(", ")}` });
+    }
+    const proposals = await listLibraryProposals({
+      userId: isLibraryAdmin(req) ? undefined : userId,
+      status: status || undefined,
+    });
+    res.status(200).json(proposals.map(toProposalResponse));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Proposes the caller's own rates as changes to the latest version: every block that differs, or only the
+ * blocks in `codes`. The manpower hourly rate is included with `includeFactor`.
+ */
+router.post("/proposals", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const note = typeof req.body?.note === "string" ? req.body.note.trim() : "";
+    const codes: unknown = req.body?.codes;
+    if (codes !== undefined && (!Array.isArray(codes) || !codes.every((code) => typeof code === "string"))) {
+      return res.status(400).json({ message: "codes must be an array of block codes" });
+    }
+    if (!note) {
+      return res.status(400).json({ message: "Describe the change in a note" });
+    }
+    const [latest, own] = await Promise.all([getLatestLibraryVersion(), getProductivityRates(userId)]);
+    if (!own) {
+      return res.status(400).json({ message: "Save your productivity rates before proposing them" });
+    }
+    const changes = diffLibraryBlocks(latest?.blocks ?? [], toPlainBlocks(own.blocks), codes as string[] | undefined);
+    const factor = req.body?.includeFactor === true && own.factor !== latest?.factor ? own.factor : null;
+    if (changes.length === 0 && factor === null) {
+      return res.status(400).json({ message: "Your rates do not differ from the latest library version" });
+    }
+    const proposal = await createLibraryProposal({
+      userId,
+      userName: getUserName(req),
+      baseVersion: latest?.version ?? null,
+      factor,
+      changes,
+      note,
+    });
+    res.status(201).json(toProposalResponse(proposal));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Approves a pending proposal and publishes its changes as the next version. The changes are applied to the
+ * latest version, not the one the proposal was made against, so blocks it does not touch keep later edits.
+ */
+router.post("/proposals/:proposalId/approve", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    if (!isLibraryAdmin(req)) {
+      return res.status(403).json({ message: "Only library admins can approve proposals" });
+    }
+    const proposalId = String(req.params.proposalId || "").trim();
+    const comment = typeof req.body?.comment === "string" ? req.body.comment.trim() : "";
+    const proposal = await reviewLibraryProposal(proposalId, {
+      status: "approved",
+      reviewedById: userId,
+      reviewedByName: getUserName(req),
+      reviewComment: comment,
+    });
+    if (!proposal) {
+      const existing = await findLibraryProposal(proposalId);
+      return existing
+        ? res.status(400).json({ message: `The proposal was already ${existing.status}` })
+        : res.status(404).json({ message: "Proposal not found" });
+    }
+    let version: ProductivityLibraryVersionDocument;
+    try {
+      const latest = await getLatestLibraryVersion();
+      const changes = JSON.parse(JSON.stringify(proposal.changes)) as LibraryBlockChange[];
+      version = await createLibraryVersion({
+        factor: proposal.factor ?? latest?.factor ?? "1",
+        blocks: applyLibraryChanges(toPlainBlocks(latest?.blocks ?? []), changes),
+        changes,
+        note: proposal.note,
+        proposalId,
+        proposedByName: proposal.userName,
+        publishedById: userId,
+        publishedByName: getUserName(req),
+      });
+    } catch (error) {
+      await reopenLibraryProposal(proposalId);
+      throw error;
+    }
+    await setLibraryProposalPublishedVersion(proposalId, version.version);
+    proposal.publishedVersion = version.version;
+    res.status(200).json({
+      proposal: toProposalResponse(proposal),
+      version: toVersionSummary(version),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Rejects a pending proposal; the comment tells the proposer why. */
+router.post("/proposals/:proposalId/reject", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    if (!isLibraryAdmin(req)) {
+      return res.status(403).json({ message: "Only library admins can reject proposals" });
+    }
+    const proposalId = String(req.params.proposalId || "").trim();
+    const comment = typeof req.body?.comment === "string" ? req.body.comment.trim() : "";
+    if (!comment) {
+      return res.status(400).json({ message: "A comment is required to reject a proposal" });
+    }
+    const proposal = await reviewLibraryProposal(proposalId, {
+      status: "rejected",
+      reviewedById: userId,
+      reviewedByName: getUserName(req),
+      reviewComment: comment,
+    });
+    if (!proposal) {
+      const existing = await findLibraryProposal(proposalId);
+      return existing
+        ? res.status(400).json({ message: `The proposal was already ${existing.status}` })
+        : res.status(404).json({ message: "Proposal not found" });
+    }
+    res.status(200).json(toProposalResponse(proposal));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Replaces the caller's own rates with a library version (the latest by default), to edit and propose from. */
+router.post("/pull", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const requested = req.body?.version;
+    const version =
+      requested === undefined || requested === null
+        ? await getLatestLibraryVersion()
+        : await findLibraryVersion(Number(requested));
+    if (!version) {
+      return res.status(404).json({ message: "Library version not found" });
+    }
+    const saved = await upsertProductivityRates(userId, {
+      factor: version.factor,
+      blocks: toPlainBlocks(version.blocks),
+    });
+    res.status(200).json({
+      factor: saved.factor ?? "1",
+      blocks: saved.blocks ?? [],
+      updatedAt: saved.updatedAt,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
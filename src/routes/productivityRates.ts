@@ -5,9 +5,15 @@ import { randomUUID } from "crypto";
 import { AuthRequest } from "../middleware/auth";
 import {
   getProductivityRates,
+  ProductivityRatesPayload,
   upsertProductivityRates,
 } from "../modules/storage/productivityRatesRepository";
 import { config } from "../config";
+import { withItemReviewReset } from "../services/pricing/projectPricing";
+import {
+  buildProductivityRatesWorkbook,
+  parseProductivityRatesWorkbook,
+} from "../services/pricing/productivityRatesWorkbook";
 
 const router = Router();
 const upload = multer({
@@ -21,10 +27,31 @@ function getUserId(req: AuthRequest): string {
   return String(user._id);
 }
 
+function getUserName(req: AuthRequest): string {
+  return String(req.user?.username ?? req.user?.email ?? "").trim();
+}
+
+/**
+ * Saves the user's own productivity rates. Every project not pinned to a library version prices from them, so
+ * items whose pricing this changes go back through the review.
+ */
+async function saveProductivityRates(req: AuthRequest, rates: ProductivityRatesPayload) {
+  const userId = getUserId(req);
+  const actor = { id: userId, name: getUserName(req) };
+  return withItemReviewReset({ userId, actor }, () => upsertProductivityRates(userId, rates));
+}
+
+const WORKBOOK_ROW_ERRORS_IN_MESSAGE = 20;
+
+/** The library as JSON, or with `?format=xlsx` as the Excel template the import reads back. */
 router.get("/", async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const userId = getUserId(req);
     const record = await getProductivityRates(userId);
+    if (String(req.query.format || "").trim().toLowerCase() === "xlsx") {
+      res.attachment("productivity-rates.xlsx");
+      return res.status(200).send(buildProductivityRatesWorkbook(record?.factor ?? "1", record?.blocks ?? []));
+    }
     if (!record) {
       return res.status(200).json({ factor: "1", blocks: [], updatedAt: null });
     }
@@ -45,7 +72,7 @@ router.patch("/", async (req: AuthRequest, res: Response, next: NextFunction) =>
     if (typeof factor !== "string" || !Array.isArray(blocks)) {
       return res.status(400).json({ message: "factor and blocks are required" });
     }
-    const saved = await upsertProductivityRates(userId, { factor, blocks });
+    const saved = await saveProductivityRates(req, { factor, blocks });
     res.status(200).json({
       factor: saved.factor ?? "1",
       blocks: saved.blocks ?? [],
@@ -61,7 +88,7 @@ const toStringValue = (value: unknown) => (value === null || value === undefined
 const normalizeManpowerRows = (
   rows: unknown,
   blockIndex: number
-): { rows: Array<{ id: string; label: string; quantity: string }>; error?: string } => {
+): { rows: Array<{ id: string; label: string; quantity: string; tradeCode: string }>; error?: string } => {
   if (!Array.isArray(rows)) {
     return { rows: [], error: `blocks[${blockIndex}].manpowerRows must be an array` };
   }
@@ -75,19 +102,20 @@ const normalizeManpowerRows = (
       id,
       label: toStringValue(data.label),
       quantity: toStringValue(data.quantity),
+      tradeCode: toStringValue(data.tradeCode),
     };
   });
   if (normalized.some((row) => row === null)) {
     return { rows: [], error: `blocks[${blockIndex}].manpowerRows must contain objects` };
   }
-  return { rows: normalized as Array<{ id: string; label: string; quantity: string }> };
+  return { rows: normalized as Array<{ id: string; label: string; quantity: string; tradeCode: string }> };
 };
 
 const normalizeEquipmentRows = (
   rows: unknown,
   blockIndex: number,
   defaults: { hoursPerDay: string; dailyProductivity: string }
-): { rows: Array<{ id: string; label: string; quantity: string; hourlyRate: string; hoursPerDay: string; dailyProductivity: string; mh: string; rate: string }>; error?: string } => {
+): { rows: Array<{ id: string; label: string; quantity: string; hourlyRate: string; hoursPerDay: string; dailyProductivity: string; mh: string; rate: string; equipmentCode: string }>; error?: string } => {
   if (!Array.isArray(rows)) {
     return { rows: [], error: `blocks[${blockIndex}].equipmentRows must be an array` };
   }
@@ -114,6 +142,7 @@ const normalizeEquipmentRows = (
           : String(rowProductivity),
       mh: toStringValue(data.mh),
       rate: toStringValue(data.rate),
+      equipmentCode: toStringValue(data.equipmentCode),
     };
   });
   if (normalized.some((row) => row === null)) {
@@ -129,6 +158,7 @@ const normalizeEquipmentRows = (
       dailyProductivity: string;
       mh: string;
       rate: string;
+      equipmentCode: string;
     }>,
   };
 };
@@ -140,6 +170,35 @@ router.post("/import", upload.single("file"), async (req: AuthRequest, res: Resp
     if (!file) {
       return res.status(400).json({ message: "file is required" });
     }
+    if (/\.xlsx?$/i.test(file.originalname)) {
+      let parsed: ReturnType<typeof parseProductivityRatesWorkbook>;
+      try {
+        parsed = parseProductivityRatesWorkbook(file.buffer);
+      } catch (error) {
+        return res.status(400).json({ message: (error as Error).message || "Could not read the workbook" });
+      }
+      if (parsed.errors.length > 0) {
+        const lines = parsed.errors
+          .slice(0, WORKBOOK_ROW_ERRORS_IN_MESSAGE)
+          .map((error) => `${error.sheet} row ${error.row}: ${error.message}`);
+        const more = parsed.errors.length - lines.length;
+        return res.status(400).json({
+          message: [
+            `The workbook has ${parsed.errors.length} error${parsed.errors.length === 1 ? "" : "s"}; nothing was imported.`,
+            ...lines,
+            ...(more > 0 ? [`...and ${more} more`] : []),
+          ].join("\n"),
+          errors: parsed.errors,
+        });
+      }
+      const factor = parsed.factor ?? (await getProductivityRates(userId))?.factor ?? "1";
+      const saved = await saveProductivityRates(req, { factor, blocks: parsed.blocks });
+      return res.status(200).json({
+        factor: saved.factor ?? "1",
+        blocks: saved.blocks ?? [],
+        updatedAt: saved.updatedAt,
+      });
+    }
     const raw = file.buffer.toString("utf-8").trim();
     if (!raw) {
       return res.status(400).json({ message: "Uploaded file is empty" });
@@ -186,10 +245,12 @@ router.post("/import", upload.single("file"), async (req: AuthRequest, res: Resp
         equipmentRows: equipmentResult.rows,
         manpowerMh: toStringValue(data.manpowerMh),
         manpowerRate: toStringValue(data.manpowerRate),
+        materialCode: toStringValue(data.materialCode),
+        materialQty: toStringValue(data.materialQty),
       });
     }
 
-    const saved = await upsertProductivityRates(userId, { factor: factorValue, blocks: normalizedBlocks });
+    const saved = await saveProductivityRates(req, { factor: factorValue, blocks: normalizedBlocks });
     res.status(200).json({
       factor: saved.factor ?? "1",
       blocks: saved.blocks ?? [],
@@ -12,6 +12,7 @@ import {
   listProjects,
   updateProjectName,
   updateProjectStatus,
+  updateProjectType,
 } from "../modules/storage/projectRepository";
 import {
   createProjectFiles,
@@ -31,11 +32,15 @@ import { upsertProjectExtractJob } from "../modules/storage/projectExtractionJob
 import { createProjectLog, listProjectLogs } from "../modules/storage/projectLogRepository";
 import { ProjectFileModel } from "../modules/storage/projectFileModel";
 import { ProjectExtractJobModel } from "../modules/storage/projectExtractionJobModel";
-import { ProjectItemModel } from "../modules/storage/projectItemModel";
+import { BOQ_ITEM_TYPES, ProjectItemModel } from "../modules/storage/projectItemModel";
 import { ProjectLogModel } from "../modules/storage/projectLogModel";
-import { ProjectModel } from "../modules/storage/projectModel";
+import { PROJECT_TYPES, ProjectModel } from "../modules/storage/projectModel";
+import type { ProjectDocument, ProjectStatus, ProjectType } from "../modules/storage/projectModel";
 import { ProjectComparisonModel, type ProjectComparisonDocument } from "../modules/storage/projectComparisonModel";
 import { compareProjectItemsWithOpenAI, BoqCompareGroup, DrawingCompareGroup, CompareResult } from "../services/openai/projectCompare";
+import { isBoqItemType } from "../services/boq/boqItemType";
+import { getBoqItemType } from "../services/pricing/pricingEngine";
+import { computeReviewProjectStatus } from "../services/pricing/projectPricing";
 
 const storage = multer.diskStorage({
   destination: config.uploadDir,
@@ -58,12 +63,14 @@ const projectUpload = upload.fields([
 
 const router = Router();
 
-async function syncProjectStatusByJobs(userId: string, projectId: string): Promise<"finalized" | "analyzing"> {
+/** Analyzing while extraction jobs are pending; otherwise the status the item reviews put the project at. */
+async function syncProjectStatusByJobs(userId: string, projectId: string): Promise<ProjectStatus> {
   const pending = await ProjectExtractJobModel.countDocuments({
     projectId,
     status: { $in: ["queued", "processing"] },
   }).exec();
-  const status = pending === 0 ? "finalized" : "analyzing";
+  const status =
+    pending === 0 ? (await computeReviewProjectStatus(userId, projectId)) ?? "finalized" : "analyzing";
   await updateProjectStatus(userId, projectId, status);
   return status;
 }
@@ -74,6 +81,19 @@ function getUserId(req: AuthRequest): string {
   return String(user._id);
 }
 
+function toProjectResponse(project: ProjectDocument) {
+  return {
+    id: project._id,
+    name: project.name,
+    status: project.status,
+    projectType: project.projectType ?? "measured",
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+  };
+}
+
+const isProjectType = (value: unknown): value is ProjectType => PROJECT_TYPES.includes(value as ProjectType);
+
 const normalizeKey = (value: string): string =>
   value.trim().toLowerCase().replace(/\s+/g, " ");
 
@@ -118,15 +138,7 @@ router.get("/", async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const userId = getUserId(req);
     const projects = await listProjects(userId);
-    res.status(200).json(
-      projects.map((project) => ({
-        id: project._id,
-        name: project.name,
-        status: project.status,
-        createdAt: project.createdAt,
-        updatedAt: project.updatedAt,
-      }))
-    );
+    res.status(200).json(projects.map(toProjectResponse));
   } catch (error) {
     next(error);
   }
@@ -137,19 +149,14 @@ router.post("/", async (req: AuthRequest, res: Response, next: NextFunction) =>
     const userId = getUserId(req);
     const name = String(req.body?.name || "").trim();
     const resolvedName = name || `Project ${new Date().toLocaleString()}`;
-    const project = await createProject({ userId, name: resolvedName });
+    const projectType = isProjectType(req.body?.projectType) ? req.body.projectType : "measured";
+    const project = await createProject({ userId, name: resolvedName, projectType });
     await createProjectLog({
       userId,
       projectId: String(project._id),
       message: `Project created: ${project.name}.`,
     });
-    res.status(200).json({
-      id: project._id,
-      name: project.name,
-      status: project.status,
-      createdAt: project.createdAt,
-      updatedAt: project.updatedAt,
-    });
+    res.status(200).json(toProjectResponse(project));
   } catch (error) {
     next(error);
   }
@@ -162,13 +169,7 @@ router.get("/:projectId", async (req: AuthRequest, res: Response, next: NextFunc
     if (!project) {
       return res.status(404).json({ message: "Project not found" });
     }
-    res.status(200).json({
-      id: project._id,
-      name: project.name,
-      status: project.status,
-      createdAt: project.createdAt,
-      updatedAt: project.updatedAt,
-    });
+    res.status(200).json(toProjectResponse(project));
   } catch (error) {
     next(error);
   }
@@ -178,6 +179,22 @@ router.patch("/:projectId", async (req: AuthRequest, res: Response, next: NextFu
   try {
     const userId = getUserId(req);
     const projectId = req.params.projectId;
+    const projectType = req.body?.projectType;
+    if (projectType !== undefined) {
+      if (!isProjectType(projectType)) {
+        return res.status(400).json({ message: `projectType must be one of ${PROJECT_TYPES.join(", ")}` });
+      }
+      const updated = await updateProjectType(userId, projectId, projectType);
+      if (!updated) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      await createProjectLog({
+        userId,
+        projectId,
+        message: `Project type set to ${projectType === "lump_sum" ? "lump sum" : "measured"}.`,
+      });
+      return res.status(200).json(toProjectResponse(updated));
+    }
     const name = String(req.body?.name || "").trim();
     if (!name) {
       return res.status(400).json({ message: "name is required" });
@@ -191,13 +208,7 @@ router.patch("/:projectId", async (req: AuthRequest, res: Response, next: NextFu
       projectId,
       message: `Project renamed to: ${updated.name}.`,
     });
-    res.status(200).json({
-      id: updated._id,
-      name: updated.name,
-      status: updated.status,
-      createdAt: updated.createdAt,
-      updatedAt: updated.updatedAt,
-    });
+    res.status(200).json(toProjectResponse(updated));
   } catch (error) {
     next(error);
   }
@@ -297,6 +308,7 @@ router.post(
           id: project._id,
           name: project.name,
           status: projectStatus,
+          projectType: project.projectType,
         },
         files: createdFiles.map((file) => ({
           id: file._id,
@@ -777,6 +789,7 @@ router.get(
               box: item.box ?? null,
               thickness: item.thickness ?? null,
               productivityRateId: item.productivityRateId ?? null,
+              itemType: item.source === "boq" ? getBoqItemType(item) : null,
               metadata: item.metadata ?? null,
               createdAt: item.createdAt,
               updatedAt: item.updatedAt,
@@ -871,6 +884,7 @@ router.get("/:projectId/items", async (req: AuthRequest, res: Response, next: Ne
           box: item.box ?? null,
           thickness: item.thickness ?? null,
           productivityRateId: item.productivityRateId ?? null,
+          itemType: item.source === "boq" ? getBoqItemType(item) : null,
           metadata: item.metadata ?? null,
           createdAt: item.createdAt,
           updatedAt: item.updatedAt,
@@ -904,6 +918,7 @@ router.get(
           box: item.box ?? null,
           thickness: item.thickness ?? null,
           productivityRateId: item.productivityRateId ?? null,
+          itemType: item.source === "boq" ? getBoqItemType(item) : null,
           metadata: item.metadata ?? null,
           createdAt: item.createdAt,
           updatedAt: item.updatedAt,
@@ -951,6 +966,7 @@ router.post(
         box: item.box ?? null,
         thickness: item.thickness ?? null,
         productivityRateId: item.productivityRateId ?? null,
+        itemType: item.source === "boq" ? getBoqItemType(item) : null,
         createdAt: item.createdAt,
         updatedAt: item.updatedAt,
       });
@@ -966,7 +982,10 @@ router.patch(
     try {
       const userId = getUserId(req);
       const { projectId, itemId } = req.params;
-      const { item_code, description, notes, box, thickness, productivityRateId } = req.body ?? {};
+      const { item_code, description, notes, box, thickness, productivityRateId, itemType } = req.body ?? {};
+      if (itemType !== undefined && itemType !== null && !isBoqItemType(itemType)) {
+        return res.status(400).json({ message: `itemType must be one of ${BOQ_ITEM_TYPES.join(", ")}` });
+      }
       const updated = await updateProjectItem({
         userId,
         projectId,
@@ -978,6 +997,7 @@ router.patch(
           ...(box ? { box } : {}),
           ...(thickness !== undefined ? { thickness: typeof thickness === "number" ? thickness : null } : {}),
           ...(productivityRateId !== undefined ? { productivityRateId: productivityRateId || null } : {}),
+          ...(itemType !== undefined ? { itemType: itemType ?? null } : {}),
         },
       });
       if (!updated) {
@@ -993,6 +1013,7 @@ router.patch(
         box: updated.box ?? null,
         thickness: updated.thickness ?? null,
         productivityRateId: updated.productivityRateId ?? null,
+        itemType: updated.source === "boq" ? getBoqItemType(updated) : null,
         createdAt: updated.createdAt,
         updatedAt: updated.updatedAt,
       });
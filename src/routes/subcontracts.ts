@@ -0,0 +1,365 @@
+import { Router } from "express";
+import type { Response, NextFunction, Express } from "express";
+import multer from "multer";
+import { AuthRequest } from "../middleware/auth";
+import { config } from "../config";
+import { findProjectById } from "../modules/storage/projectRepository";
+import type { SubcontractPackageDocument } from "../modules/storage/subcontractPackageModel";
+import {
+  addSubcontractQuote,
+  createSubcontractPackage,
+  deleteSubcontractPackage,
+  deleteSubcontractQuote,
+  findSubcontractPackage,
+  listSubcontractPackages,
+  setAwardedQuote,
+  SubcontractPackageInput,
+  SubcontractQuoteInput,
+  updateSubcontractPackage,
+  updateSubcontractQuote,
+} from "../modules/storage/subcontractPackageRepository";
+import { computeProjectPricing, withItemReviewReset } from "../services/pricing/projectPricing";
+import {
+  applyAwardedQuote,
+  buildQuoteEnquiryWorkbook,
+  comparePackageQuotes,
+  parseQuoteWorkbook,
+} from "../services/pricing/subcontractQuotes";
+
+const router = Router();
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: config.maxFileSize },
+});
+
+function getUserId(req: AuthRequest): string {
+  const user = req.user;
+  if (!user?._id) throw new Error("User not found");
+  return String(user._id);
+}
+
+function getUserName(req: AuthRequest): string {
+  return String(req.user?.username ?? req.user?.email ?? "").trim();
+}
+
+function toPackageResponse(record: SubcontractPackageDocument) {
+  return {
+    id: String(record._id),
+    name: record.name,
+    description: record.description,
+    itemIds: record.itemIds,
+    quotes: record.quotes.map((quote) => ({
+      id: String(quote._id),
+      subcontractor: quote.subcontractor,
+      reference: quote.reference,
+      receivedAt: quote.receivedAt,
+      validUntil: quote.validUntil,
+      exclusions: quote.exclusions,
+      notes: quote.notes,
+      lines: quote.lines.map((line) => ({ itemId: line.itemId, rate: line.rate, note: line.note })),
+    })),
+    awardedQuoteId: record.awardedQuoteId ? String(record.awardedQuoteId) : null,
+    awardedAt: record.awardedAt,
+    updatedAt: record.updatedAt,
+  };
+}
+
+const toText = (value: unknown): string => String(value ?? "").trim();
+
+/** Splits a list given as an array or as newline/semicolon separated text. */
+function toTextList(value: unknown): string[] {
+  const entries = Array.isArray(value) ? value : String(value ?? "").split(/[\n;]/);
+  return entries.map((entry) => toText(entry)).filter(Boolean);
+}
+
+function toDate(value: unknown): Date | null | undefined {
+  if (value === null || value === undefined || value === "") return null;
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function toPackageInput(body: unknown): SubcontractPackageInput | string {
+  const source = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+  const name = toText(source.name);
+  if (!name) return "name is required";
+  if (!Array.isArray(source.itemIds)) return "itemIds must be an array";
+  return {
+    name,
+    description: toText(source.description),
+    itemIds: Array.from(new Set(source.itemIds.map((id) => toText(id)).filter(Boolean))),
+  };
+}
+
+/** Reads a quote from a request body (lines optional, as for an Excel import); returns an error message if invalid. */
+function toQuoteInput(body: unknown, lines: unknown): SubcontractQuoteInput | string {
+  const source = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+  const subcontractor = toText(source.subcontractor);
+  if (!subcontractor) return "subcontractor is required";
+  const receivedAt = toDate(source.receivedAt);
+  const validUntil = toDate(source.validUntil);
+  if (receivedAt === undefined || validUntil === undefined) return "receivedAt and validUntil must be dates";
+  if (lines !== undefined && !Array.isArray(lines)) return "lines must be an array";
+  const parsedLines: SubcontractQuoteInput["lines"] = [];
+  for (const [index, line] of (Array.isArray(lines) ? lines : []).entries()) {
+    const data = (line && typeof line === "object" ? line : {}) as Record<string, unknown>;
+    const itemId = toText(data.itemId);
+    if (!itemId) return `lines[${index}].itemId is required`;
+    const rateText = toText(data.rate);
+    const rate = rateText === "" ? null : Number(rateText);
+    if (rate !== null && (!Number.isFinite(rate) || rate < 0)) {
+      return `lines[${index}].rate must be a non-negative number or empty`;
+    }
+    parsedLines.push({ itemId, rate, note: toText(data.note) });
+  }
+  return {
+    subcontractor,
+    reference: toText(source.reference),
+    receivedAt,
+    validUntil,
+    exclusions: toTextList(source.exclusions),
+    notes: toText(source.notes),
+    lines: parsedLines,
+  };
+}
+
+router.get("/:projectId/packages", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const packages = await listSubcontractPackages(userId, projectId);
+    res.status(200).json(packages.map(toPackageResponse));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/:projectId/packages", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const project = await findProjectById(userId, projectId);
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    const input = toPackageInput(req.body);
+    if (typeof input === "string") {
+      return res.status(400).json({ message: input });
+    }
+    const saved = await createSubcontractPackage(userId, projectId, input);
+    res.status(201).json(toPackageResponse(saved));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put("/:projectId/packages/:packageId", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const input = toPackageInput(req.body);
+    if (typeof input === "string") {
+      return res.status(400).json({ message: input });
+    }
+    const saved = await updateSubcontractPackage(
+      userId,
+      String(req.params.projectId || "").trim(),
+      String(req.params.packageId || "").trim(),
+      input
+    );
+    if (!saved) {
+      return res.status(404).json({ message: "Package not found" });
+    }
+    res.status(200).json(toPackageResponse(saved));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete("/:projectId/packages/:packageId", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const deleted = await deleteSubcontractPackage(
+      userId,
+      String(req.params.projectId || "").trim(),
+      String(req.params.packageId || "").trim()
+    );
+    if (!deleted) {
+      return res.status(404).json({ message: "Package not found" });
+    }
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Enquiry workbook of the package's items for subcontractors to price; it imports back as a quote. */
+router.get("/:projectId/packages/:packageId/enquiry", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const [project, pkg] = await Promise.all([
+      findProjectById(userId, projectId),
+      findSubcontractPackage(userId, projectId, String(req.params.packageId || "").trim()),
+    ]);
+    if (!project || !pkg) {
+      return res.status(404).json({ message: "Package not found" });
+    }
+    const pricing = await computeProjectPricing(userId, projectId);
+    const buffer = buildQuoteEnquiryWorkbook({ projectName: project.name, pkg, pricing });
+    const safeName = `${project.name}-${pkg.name}`.replace(/[^a-z0-9]+/gi, "_").replace(/^_+|_+$/g, "") || "package";
+    res.attachment(`${safeName}-enquiry.xlsx`);
+    res.status(200).send(buffer);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Line-by-line comparison of the package's quotes with normalised totals. */
+router.get("/:projectId/packages/:packageId/comparison", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const projectId = String(req.params.projectId || "").trim();
+    const pkg = await findSubcontractPackage(userId, projectId, String(req.params.packageId || "").trim());
+    if (!pkg) {
+      return res.status(404).json({ message: "Package not found" });
+    }
+    const pricing = await computeProjectPricing(userId, projectId);
+    res.status(200).json(comparePackageQuotes({ pkg, pricing }));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/:projectId/packages/:packageId/quotes", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const input = toQuoteInput(req.body, req.body?.lines ?? []);
+    if (typeof input === "string") {
+      return res.status(400).json({ message: input });
+    }
+    const saved = await addSubcontractQuote(
+      userId,
+      String(req.params.projectId || "").trim(),
+      String(req.params.packageId || "").trim(),
+      input
+    );
+    if (!saved) {
+      return res.status(404).json({ message: "Package not found" });
+    }
+    res.status(201).json(toPackageResponse(saved));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Records a quote from a subcontractor's priced workbook (the enquiry layout or any sheet with code and rate columns). */
+router.post(
+  "/:projectId/packages/:packageId/quotes/import",
+  upload.single("file"),
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const userId = getUserId(req);
+      const projectId = String(req.params.projectId || "").trim();
+      const packageId = String(req.params.packageId || "").trim();
+      const file = req.file as Express.Multer.File | undefined;
+      if (!file) {
+        return res.status(400).json({ message: "file is required" });
+      }
+      const pkg = await findSubcontractPackage(userId, projectId, packageId);
+      if (!pkg) {
+        return res.status(404).json({ message: "Package not found" });
+      }
+      const pricing = await computeProjectPricing(userId, projectId);
+      let parsed: ReturnType<typeof parseQuoteWorkbook>;
+      try {
+        parsed = parseQuoteWorkbook({ buffer: file.buffer, pkg, pricing });
+      } catch (error) {
+        return res.status(400).json({ message: (error as Error).message || "Could not read the workbook" });
+      }
+      const input = toQuoteInput(req.body, parsed.lines);
+      if (typeof input === "string") {
+        return res.status(400).json({ message: input });
+      }
+      const saved = await addSubcontractQuote(userId, projectId, packageId, input);
+      if (!saved) {
+        return res.status(404).json({ message: "Package not found" });
+      }
+      res.status(201).json({
+        package: toPackageResponse(saved),
+        matchedLines: parsed.lines.length,
+        unmatchedRows: parsed.unmatchedRows,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.put("/:projectId/packages/:packageId/quotes/:quoteId", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const input = toQuoteInput(req.body, req.body?.lines ?? []);
+    if (typeof input === "string") {
+      return res.status(400).json({ message: input });
+    }
+    const saved = await updateSubcontractQuote(
+      userId,
+      String(req.params.projectId || "").trim(),
+      String(req.params.packageId || "").trim(),
+      String(req.params.quoteId || "").trim(),
+      input
+    );
+    if (!saved) {
+      return res.status(404).json({ message: "Quote not found" });
+    }
+    res.status(200).json(toPackageResponse(saved));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete(
+  "/:projectId/packages/:packageId/quotes/:quoteId",
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const userId = getUserId(req);
+      const saved = await deleteSubcontractQuote(
+        userId,
+        String(req.params.projectId || "").trim(),
+        String(req.params.packageId || "").trim(),
+        String(req.params.quoteId || "").trim()
+      );
+      if (!saved) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      res.status(200).json(toPackageResponse(saved));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/** Picks the winning quote and writes its rates into the subcon rate of the package's sub-items. */
+router.post(
+  "/:projectId/packages/:packageId/quotes/:quoteId/award",
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const userId = getUserId(req);
+      const projectId = String(req.params.projectId || "").trim();
+      const packageId = String(req.params.packageId || "").trim();
+      const quoteId = String(req.params.quoteId || "").trim();
+      const awarded = await setAwardedQuote(userId, projectId, packageId, quoteId);
+      if (!awarded) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      const actor = { id: userId, name: getUserName(req) };
+      const updatedItems = await withItemReviewReset({ userId, projectId, actor }, () =>
+        applyAwardedQuote({ userId, projectId, pkg: awarded, quoteId, authorName: actor.name })
+      );
+      res.status(200).json({ package: toPackageResponse(awarded), updatedItems });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
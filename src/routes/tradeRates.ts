@@ -0,0 +1,155 @@
+import { Router } from "express";
+import type { Response, NextFunction } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { deleteTradeRates, listTradeRates, upsertTradeRates } from "../modules/storage/tradeRatesRepository";
+import type { NationalityCost, TradeRate, TradeRatesDocument } from "../modules/storage/tradeRatesModel";
+import { withItemReviewReset } from "../services/pricing/projectPricing";
+import { nationalityHourlyCost, toTradeCodeKey, tradeHourlyCost } from "../services/pricing/tradeRates";
+
+const router = Router();
+
+function getUserId(req: AuthRequest): string {
+  const user = req.user;
+  if (!user?._id) throw new Error("User not found");
+  return String(user._id);
+}
+
+function getUserName(req: AuthRequest): string {
+  return String(req.user?.username ?? req.user?.email ?? "").trim();
+}
+
+function toTradeRatesResponse(table: TradeRatesDocument) {
+  return {
+    location: table.location,
+    trades: table.trades.map((trade) => ({
+      code: trade.code,
+      name: trade.name,
+      basicWage: trade.basicWage,
+      allowances: trade.allowances,
+      burdenPercent: trade.burdenPercent,
+      nationalities: trade.nationalities
+        ? {
+            saudi: toNationalityCost(trade.nationalities.saudi),
+            expatriate: toNationalityCost(trade.nationalities.expatriate),
+          }
+        : null,
+      // All-expatriate for a trade with a Saudi split; projects blend it with their manpower mix.
+      hourlyCost: tradeHourlyCost(trade),
+      saudiHourlyCost: trade.nationalities
+        ? nationalityHourlyCost(trade.nationalities.saudi, trade.burdenPercent)
+        : null,
+    })),
+    updatedAt: table.updatedAt,
+  };
+}
+
+const NUMBER_FIELDS = ["basicWage", "allowances", "burdenPercent"] as const;
+const NATIONALITY_FIELDS = ["basicWage", "allowances", "gosiPercent", "annualFees"] as const;
+
+const toNationalityCost = (cost: NationalityCost): NationalityCost => ({
+  basicWage: cost.basicWage,
+  allowances: cost.allowances,
+  gosiPercent: cost.gosiPercent,
+  annualFees: cost.annualFees,
+});
+
+/** Reads the numbers of a non-negative number record; returns an error message naming the bad field. */
+function toNumbers<Field extends string>(
+  source: Record<string, unknown>,
+  fields: readonly Field[],
+  describe: (field: Field) => string
+): Record<Field, number> | string {
+  const numbers = {} as Record<Field, number>;
+  for (const field of fields) {
+    const raw = source[field];
+    const number = raw === "" || raw === null || raw === undefined ? 0 : Number(raw);
+    if (!Number.isFinite(number) || number < 0) return `${describe(field)} must be a number of zero or more`;
+    numbers[field] = number;
+  }
+  return numbers;
+}
+
+/** Reads the trades of a request body; returns an error message when they cannot be saved. */
+function toTradeRates(value: unknown): TradeRate[] | string {
+  if (!Array.isArray(value)) return "trades must be an array";
+  const trades: TradeRate[] = [];
+  const seen = new Set<string>();
+  for (let index = 0; index < value.length; index += 1) {
+    const source = (value[index] && typeof value[index] === "object" ? value[index] : {}) as Record<string, unknown>;
+    const code = String(source.code ?? "").trim();
+    if (!code) return `trades[${index}].code is required`;
+    if (seen.has(toTradeCodeKey(code))) return `Trade code "${code}" is used more than once`;
+    seen.add(toTradeCodeKey(code));
+    const numbers = toNumbers(source, NUMBER_FIELDS, (field) => `${field} of trade "${code}"`);
+    if (typeof numbers === "string") return numbers;
+    let nationalities: TradeRate["nationalities"] = null;
+    if (source.nationalities) {
+      const split = (typeof source.nationalities === "object" ? source.nationalities : {}) as Record<string, unknown>;
+      const costs = (["saudi", "expatriate"] as const).map((group) =>
+        toNumbers(
+          (split[group] && typeof split[group] === "object" ? split[group] : {}) as Record<string, unknown>,
+          NATIONALITY_FIELDS,
+          (field) => `${group} ${field} of trade "${code}"`
+        )
+      );
+      const [saudi, expatriate] = costs;
+      if (typeof saudi === "string") return saudi;
+      if (typeof expatriate === "string") return expatriate;
+      nationalities = { saudi, expatriate };
+    }
+    trades.push({ code, name: String(source.name ?? "").trim(), ...numbers, nationalities });
+  }
+  return trades;
+}
+
+/** Every location's trade table with the hourly cost of each trade. */
+router.get("/", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const tables = await listTradeRates(getUserId(req));
+    res.status(200).json(tables.map(toTradeRatesResponse));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Replaces a location's trades; a new location is created. Items of projects priced at the location whose
+ * pricing this changes go back through the review.
+ */
+router.put("/:location", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const location = String(req.params.location || "").trim();
+    if (!location) {
+      return res.status(400).json({ message: "location is required" });
+    }
+    const trades = toTradeRates(req.body?.trades);
+    if (typeof trades === "string") {
+      return res.status(400).json({ message: trades });
+    }
+    const actor = { id: userId, name: getUserName(req) };
+    const saved = await withItemReviewReset({ userId, actor }, () => upsertTradeRates(userId, location, trades));
+    res.status(200).json(toTradeRatesResponse(saved));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/** Projects priced at a deleted location fall back to the manpower hourly rate. */
+router.delete("/:location", async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = getUserId(req);
+    const actor = { id: userId, name: getUserName(req) };
+    const deleted = await withItemReviewReset({ userId, actor }, () =>
+      deleteTradeRates(userId, String(req.params.location || ""))
+    );
+    if (!deleted) {
+      return res.status(404).json({ message: "Trade rates not found" });
+    }
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { after, before, describe, it } from "node:test";
+import JSZip from "jszip";
+import xlsx from "xlsx";
+import { buildPricedBoqWorkbook } from "../boqPricedExport";
+
+const text = (value: string) => `<c t="inlineStr"><is><t>${value}</t></is></c>`;
+const number = (value: number) => `<c><v>${value}</v></c>`;
+
+/**
+ * A minimal workbook as some generators write it: no `r` on rows or cells, a styled empty rate cell, and
+ * no calcPr in the workbook part.
+ */
+async function writeWorkbook(filePath: string) {
+  const zip = new JSZip();
+  zip.file(
+    "[Content_Types].xml",
+    '<?xml version="1.0" encoding="UTF-8"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      "</Types>"
+  );
+  zip.file(
+    "_rels/.rels",
+    '<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      "</Relationships>"
+  );
+  zip.file(
+    "xl/workbook.xml",
+    '<?xml version="1.0" encoding="UTF-8"?><workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+      'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      '<sheets><sheet name="BOQ" sheetId="1" r:id="rId1"/></sheets></workbook>'
+  );
+  zip.file(
+    "xl/_rels/workbook.xml.rels",
+    '<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      "</Relationships>"
+  );
+  zip.file(
+    "xl/worksheets/sheet1.xml",
+    '<?xml version="1.0" encoding="UTF-8"?><worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+      `<row>${text("Item")}${text("Description")}${text("Qty")}${text("Rate")}${text("Amount")}</row>` +
+      `<row>${text("A1")}${text("Blockwork")}${number(10)}<c s="3"/></row>` +
+      `<row>${text("A2")}${text("Plaster")}${number(4)}</row>` +
+      "</sheetData></worksheet>"
+  );
+  await fs.writeFile(filePath, await zip.generateAsync({ type: "nodebuffer" }));
+}
+
+describe("buildPricedBoqWorkbook", () => {
+  let dir = "";
+  let filePath = "";
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "priced-boq-"));
+    filePath = path.join(dir, "boq.xlsx");
+    await writeWorkbook(filePath);
+  });
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("fills rows and cells that have no reference, keeping the rest of the row", async () => {
+    const result = await buildPricedBoqWorkbook({
+      filePath,
+      fileName: "boq.xlsx",
+      lines: [
+        { itemCode: "A1", sheetName: "BOQ", rowIndex: 1, rate: 12.5, amount: 125 },
+        { itemCode: "A2", sheetName: "BOQ", rowIndex: 2, rate: 7, amount: 28 },
+      ],
+    });
+
+    assert.equal(result.written, 2);
+    assert.deepEqual(result.skipped, []);
+    const sheet = xlsx.read(result.buffer).Sheets.BOQ;
+    assert.equal(sheet.B2.v, "Blockwork");
+    assert.equal(sheet.D2.v, 12.5);
+    assert.equal(sheet.E2.v, 125);
+    assert.equal(sheet.C3.v, 4);
+    assert.equal(sheet.D3.v, 7);
+    assert.equal(sheet.E3.v, 28);
+    const xml = await (await JSZip.loadAsync(result.buffer)).file("xl/worksheets/sheet1.xml")!.async("string");
+    // The rate cell keeps the style it had in the client's workbook.
+    assert.match(xml, /<c r="D2" s="3"><v>12.5<\/v><\/c>/);
+  });
+
+  it("adds calcPr so Excel recalculates totals over the filled cells", async () => {
+    const result = await buildPricedBoqWorkbook({
+      filePath,
+      fileName: "boq.xlsx",
+      lines: [{ itemCode: "A1", sheetName: "BOQ", rowIndex: 1, rate: 12.5, amount: 125 }],
+    });
+
+    const workbook = await (await JSZip.loadAsync(result.buffer)).file("xl/workbook.xml")!.async("string");
+    assert.match(workbook, /<\/sheets><calcPr fullCalcOnLoad="1"\/><\/workbook>$/);
+  });
+});
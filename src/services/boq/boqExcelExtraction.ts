@@ -2,11 +2,14 @@ import path from "path";
 import xlsx from "xlsx";
 import { config } from "../../config";
 import { getOpenAiClient } from "../openai/client";
+import type { BoqItemType } from "../../modules/storage/projectItemModel";
+import { detectBoqItemType, isBoqItemType } from "./boqItemType";
 
 export type BoqExtractionItem = {
   item_code: string;
   description: string;
   notes: string;
+  itemType: BoqItemType;
   metadata: {
     sheetName: string;
     sheetIndex?: number;
@@ -26,6 +29,7 @@ type BoqSheetItem = {
   quantity: string;
   unit: string;
   rate: string;
+  item_type: string;
   category: string;
   subcategory: string;
   rowIndex: number;
@@ -56,6 +60,7 @@ Rules:
 5) Do NOT include category-only or subcategory-only rows in the output; they only set context for the following items.
 6) Do NOT return empty rows in the output (no description)
 7) CRIZTICAL: if a row has has "Rate Only" in the description or any other field in that row, return "Rate Only" string for the rate field.
+8) Classify every item in "item_type": "provisional_sum" for provisional sums (PS), "pc_sum" for prime cost (PC) sums, "daywork" for daywork labour, plant or material lines, "time_related" for time-related preliminaries charged for the duration of the works (site staff, site offices, plant on standby), "rate_only" for "Rate Only" rows, and "measured" for everything else.
 
 Return only a JSON object with this shape:
 {
@@ -67,6 +72,7 @@ Return only a JSON object with this shape:
       "quantity": "",
       "unit": "",
       "rate": "",
+      "item_type": "measured",
       "category": "",
       "rowIndex": 0
     }
@@ -85,14 +91,26 @@ const BOQ_SHEET_SCHEMA = {
       quantity: { type: "string" },
       unit: { type: "string" },
       rate: { type: "string" },
+      item_type: { type: "string", enum: ["measured", "rate_only", "provisional_sum", "pc_sum", "daywork", "time_related"] },
       category: { type: "string" },
       subcategory: { type: "string" },
       rowIndex: { type: "number" },
     },
-    required: ["item_key", "description", "notes", "quantity", "unit", "rate", "category", "subcategory", "rowIndex"],
+    required: ["item_key", "description", "notes", "quantity", "unit", "rate", "item_type", "category", "subcategory", "rowIndex"],
   },
 };
 
+/** The type the model gave a line, or the one its text reads as when the model gave none it knows. */
+export function resolveBoqSheetItemType(item: BoqSheetItem): BoqItemType {
+  if (isBoqItemType(item.item_type)) return item.item_type;
+  return detectBoqItemType({
+    description: item.description,
+    rate: item.rate,
+    category: item.category,
+    subcategory: item.subcategory,
+  });
+}
+
 function coerceCell(val: unknown): string {
   if (val === undefined || val === null) return "";
   if (typeof val === "number") return Number.isFinite(val) ? String(val) : "";
@@ -367,6 +385,7 @@ export async function extractBoqItemsFromExcel(params: {
         item_code: item.item_key || "ITEM",
         description: item.description || "",
         notes: item.notes || "",
+        itemType: resolveBoqSheetItemType(item),
         metadata: {
           sheetName,
           sheetIndex: typeof sheetIndex === "number" ? sheetIndex : undefined,
@@ -0,0 +1,41 @@
+import { BOQ_ITEM_TYPES, BoqItemType } from "../../modules/storage/projectItemModel";
+
+export const BOQ_ITEM_TYPE_LABELS: Record<BoqItemType, string> = {
+  measured: "Measured work",
+  rate_only: "Rate only",
+  provisional_sum: "Provisional sums",
+  pc_sum: "Prime cost sums",
+  daywork: "Daywork",
+  time_related: "Time-related preliminaries",
+};
+
+const PC_SUM_PATTERN = /\bprime\s+cost\b|\bp\.?\s?c\.?\s+sums?\b/i;
+const PROVISIONAL_SUM_PATTERN = /\bprovisional\s+sums?\b/i;
+const PS_RATE_PATTERN = /^(p\.?\s?s\.?|provisional)$/i;
+const DAYWORK_PATTERN = /\bday\s?-?works?\b/i;
+const TIME_RELATED_PATTERN = /\btime[\s-]+related\b/i;
+
+export const isBoqItemType = (value: unknown): value is BoqItemType =>
+  (BOQ_ITEM_TYPES as readonly unknown[]).includes(value);
+
+/**
+ * Classifies a BOQ line from its text: "Rate Only" in the rate column, prime cost and provisional sums named
+ * in the description (or "PS" in the rate column), daywork by the description or the section it sits in, and
+ * time-related preliminaries named in the description. Anything else is measured work.
+ */
+export function detectBoqItemType(line: {
+  description?: string;
+  rate?: string;
+  category?: string;
+  subcategory?: string;
+}): BoqItemType {
+  const rate = String(line.rate ?? "").trim();
+  if (rate.toLowerCase() === "rate only") return "rate_only";
+  const description = String(line.description ?? "");
+  if (PC_SUM_PATTERN.test(description) || PC_SUM_PATTERN.test(rate)) return "pc_sum";
+  if (PROVISIONAL_SUM_PATTERN.test(description) || PS_RATE_PATTERN.test(rate)) return "provisional_sum";
+  const section = `${line.category ?? ""} ${line.subcategory ?? ""}`;
+  if (DAYWORK_PATTERN.test(description) || DAYWORK_PATTERN.test(section)) return "daywork";
+  if (TIME_RELATED_PATTERN.test(description)) return "time_related";
+  return "measured";
+}
@@ -0,0 +1,297 @@
+import { promises as fs } from "fs";
+import path from "path";
+import JSZip from "jszip";
+import xlsx from "xlsx";
+
+export type PricedBoqLine = {
+  itemCode: string;
+  sheetName: string;
+  /** Row index as stored by extractBoqItemsFromExcel (0-based, relative to the sheet's used range). */
+  rowIndex: number;
+  rate: number;
+  /** Null for "Rate Only" lines: only the rate is filled in. */
+  amount: number | null;
+};
+
+export type PricedBoqResult = {
+  buffer: Buffer;
+  fileName: string;
+  written: number;
+  skipped: Array<{ itemCode: string; sheetName: string; reason: string }>;
+};
+
+const BOOK_TYPES: Record<string, xlsx.BookType> = {
+  ".xlsx": "xlsx",
+  ".xls": "biff8",
+  ".csv": "csv",
+};
+
+const RATE_HEADER = /^(unit\s*)?rate\b|^unit\s*price\b|^price\s*\/?\s*unit\b/i;
+const AMOUNT_HEADER = /^(total\s*)?amount\b|^total(\s*price)?$|^total\s*\(/i;
+const HEADER_SCAN_ROWS = 60;
+
+type PriceColumns = { rate: number; amount: number | null };
+
+/**
+ * Finds the rate and amount columns from the header row closest above the first priced row.
+ * Client BOQs vary, so headers are matched loosely ("Rate", "Unit Rate", "Unit Price", "Amount", "Total").
+ */
+function findPriceColumns(rows: unknown[][], firstItemRow: number): PriceColumns | null {
+  const lastRow = Math.min(firstItemRow, rows.length - 1, HEADER_SCAN_ROWS);
+  for (let r = lastRow; r >= 0; r -= 1) {
+    const cells = (rows[r] ?? []).map((cell) => String(cell ?? "").trim());
+    const rate = cells.findIndex((cell) => RATE_HEADER.test(cell));
+    if (rate < 0) continue;
+    const amount = cells.findIndex((cell, index) => index !== rate && AMOUNT_HEADER.test(cell));
+    return { rate, amount: amount >= 0 ? amount : null };
+  }
+  return null;
+}
+
+type CellWrite = { address: string; value: number };
+
+/** Writes a number into a cell, keeping its number format and any formula the client put there. */
+function writeNumber(sheet: xlsx.WorkSheet, address: string, value: number) {
+  const existing = sheet[address] as xlsx.CellObject | undefined;
+  if (existing?.f) {
+    existing.v = value;
+    existing.t = "n";
+    delete existing.w;
+    return;
+  }
+  sheet[address] = { ...(existing ?? {}), t: "n", v: value } as xlsx.CellObject;
+  delete (sheet[address] as xlsx.CellObject).w;
+}
+
+const ROW_PATTERN = /<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g;
+const CELL_PATTERN = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+const FORMULA_PATTERN = /<f\b[^>]*?(?:\/>|>[\s\S]*?<\/f>)/;
+
+const attributeOf = (attributes: string, name: string): string | null =>
+  new RegExp(`(?:^|\\s)${name}=["']([^"']*)["']`).exec(attributes)?.[1] ?? null;
+
+const decodeXml = (value: string): string =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+
+/** Inserts an element before the first sibling whose position is past its own, or at the end. */
+function insertOrdered(
+  xml: string,
+  pattern: RegExp,
+  positionOf: (attributes: string) => number,
+  position: number,
+  element: string
+): string {
+  const next = Array.from(xml.matchAll(pattern)).find((match) => positionOf(match[1]) > position);
+  if (!next || next.index === undefined) return xml + element;
+  return xml.slice(0, next.index) + element + xml.slice(next.index);
+}
+
+/** A numeric cell with the attributes (style included) and formula of the cell it replaces. */
+function numberCell(attributes: string, content: string, value: number): string {
+  const formula = FORMULA_PATTERN.exec(content)?.[0] ?? "";
+  return `<c${attributes.replace(/\s+t=["'][^"']*["']/, "")}>${formula}<v>${value}</v></c>`;
+}
+
+const columnOf = (attributes: string) => xlsx.utils.decode_cell(attributeOf(attributes, "r") ?? "A1").c;
+const rowOf = (attributes: string) => Number(attributeOf(attributes, "r"));
+
+function patchRow(content: string, writes: CellWrite[]): string {
+  const pending = new Map(writes.map((write) => [write.address, write.value]));
+  let patched = content.replace(CELL_PATTERN, (cell: string, attributes: string, inner?: string) => {
+    const address = attributeOf(attributes, "r");
+    if (!address || !pending.has(address)) return cell;
+    const value = pending.get(address) as number;
+    pending.delete(address);
+    return numberCell(attributes, inner ?? "", value);
+  });
+  pending.forEach((value, address) => {
+    const element = `<c r="${address}"><v>${value}</v></c>`;
+    patched = insertOrdered(patched, CELL_PATTERN, columnOf, xlsx.utils.decode_cell(address).c, element);
+  });
+  return patched;
+}
+
+/**
+ * Gives every row and cell an explicit `r`. The spec lets writers leave it out, meaning one past the row or
+ * cell before, and the patching below finds rows and cells by their reference.
+ */
+function withExplicitReferences(rows: string): string {
+  let rowNumber = 0;
+  return rows.replace(ROW_PATTERN, (_row: string, attributes: string, content?: string) => {
+    rowNumber = rowOf(attributes) || rowNumber + 1;
+    let column = -1;
+    const cells = (content ?? "").replace(CELL_PATTERN, (cell: string, cellAttributes: string) => {
+      const address = attributeOf(cellAttributes, "r");
+      column = address ? xlsx.utils.decode_cell(address).c : column + 1;
+      if (address) return cell;
+      return `<c r="${xlsx.utils.encode_cell({ r: rowNumber - 1, c: column })}"${cell.slice(2)}`;
+    });
+    const rowAttributes = attributeOf(attributes, "r") ? attributes : ` r="${rowNumber}"${attributes}`;
+    return content === undefined ? `<row${rowAttributes}/>` : `<row${rowAttributes}>${cells}</row>`;
+  });
+}
+
+/** Sets the cells in one worksheet's XML; rows and cells the sheet does not have yet are added in order. */
+function patchSheetXml(xml: string, writes: CellWrite[]): string {
+  const byRow = new Map<number, CellWrite[]>();
+  writes.forEach((write) => {
+    const row = xlsx.utils.decode_cell(write.address).r + 1;
+    byRow.set(row, [...(byRow.get(row) ?? []), write]);
+  });
+  const sheetData = /<sheetData\s*\/>|<sheetData([^>]*)>([\s\S]*?)<\/sheetData>/.exec(xml);
+  if (!sheetData) throw new Error("The BOQ workbook has a sheet without cell data.");
+
+  let rows = withExplicitReferences(sheetData[2] ?? "").replace(ROW_PATTERN, (row: string, attributes: string, content?: string) => {
+    const rowWrites = byRow.get(rowOf(attributes));
+    if (!rowWrites) return row;
+    byRow.delete(rowOf(attributes));
+    return `<row${attributes}>${patchRow(content ?? "", rowWrites)}</row>`;
+  });
+  byRow.forEach((rowWrites, row) => {
+    rows = insertOrdered(rows, ROW_PATTERN, rowOf, row, `<row r="${row}">${patchRow("", rowWrites)}</row>`);
+  });
+  const body = `<sheetData${sheetData[1] ?? ""}>${rows}</sheetData>`;
+  return xml.slice(0, sheetData.index) + body + xml.slice(sheetData.index + sheetData[0].length);
+}
+
+/** Worksheet part of each sheet name, from the workbook and its relationships. */
+async function worksheetPaths(zip: JSZip): Promise<Map<string, string>> {
+  const workbook = (await zip.file("xl/workbook.xml")?.async("string")) ?? "";
+  const relationships = (await zip.file("xl/_rels/workbook.xml.rels")?.async("string")) ?? "";
+  const targets = new Map<string, string>();
+  for (const match of relationships.matchAll(/<Relationship\b([^>]*)>/g)) {
+    const id = attributeOf(match[1], "Id");
+    const target = attributeOf(match[1], "Target");
+    if (!id || !target) continue;
+    targets.set(id, target.startsWith("/") ? target.slice(1) : path.posix.join("xl", target));
+  }
+  const paths = new Map<string, string>();
+  for (const match of workbook.matchAll(/<sheet\b([^>]*)>/g)) {
+    const name = attributeOf(match[1], "name");
+    const target = targets.get(attributeOf(match[1], "r:id") ?? "");
+    if (name !== null && target) paths.set(decodeXml(name), target);
+  }
+  return paths;
+}
+
+/** Workbook elements that come after calcPr, in schema order. */
+const AFTER_CALC_PR = [
+  "oleSize",
+  "customWorkbookViews",
+  "pivotCaches",
+  "smartTagPr",
+  "smartTagTypes",
+  "webPublishing",
+  "fileRecoveryPr",
+  "webPublishObjects",
+  "extLst",
+];
+
+/** Asks Excel to recalculate the workbook when it is opened, adding the calcPr element when there is none. */
+function requestFullCalcOnLoad(workbook: string): string {
+  if (/<calcPr\b/.test(workbook)) {
+    return workbook.replace(/<calcPr\b([^>]*?)(\/?)>/, (_match, attributes: string, close: string) => {
+      const rest = attributes.replace(/\s+fullCalcOnLoad=["'][^"']*["']/, "");
+      return `<calcPr${rest} fullCalcOnLoad="1"${close}>`;
+    });
+  }
+  const next = new RegExp(`<(?:${AFTER_CALC_PR.join("|")})\\b|</workbook>`).exec(workbook);
+  if (!next) return workbook;
+  return `${workbook.slice(0, next.index)}<calcPr fullCalcOnLoad="1"/>${workbook.slice(next.index)}`;
+}
+
+/**
+ * Writes the cells straight into the sheet XML of an .xlsx, so every style, column width, merge, image and
+ * chart stays as the client sent it. Excel is asked to recalculate on open, for totals over the filled cells.
+ */
+async function writeXlsxCells(filePath: string, writes: Map<string, CellWrite[]>): Promise<Buffer> {
+  const zip = await JSZip.loadAsync(await fs.readFile(filePath));
+  const paths = await worksheetPaths(zip);
+  for (const [sheetName, sheetWrites] of writes) {
+    const part = paths.get(sheetName);
+    const xml = part ? await zip.file(part)?.async("string") : undefined;
+    if (!part || xml === undefined) throw new Error(`Sheet "${sheetName}" is missing from the BOQ workbook.`);
+    zip.file(part, patchSheetXml(xml, sheetWrites));
+  }
+  const workbook = await zip.file("xl/workbook.xml")?.async("string");
+  if (workbook) zip.file("xl/workbook.xml", requestFullCalcOnLoad(workbook));
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+/**
+ * Opens the client's BOQ workbook and fills the rate/amount cells of the rows the items were extracted
+ * from. An .xlsx is patched in place, leaving every other cell, style and sheet as read; .xls and .csv files
+ * are rewritten by SheetJS, which keeps values, merges and formulas but not cell styles.
+ */
+export async function buildPricedBoqWorkbook(params: {
+  filePath: string;
+  fileName: string;
+  lines: PricedBoqLine[];
+}): Promise<PricedBoqResult> {
+  const ext = path.extname(params.fileName).toLowerCase();
+  const bookType = BOOK_TYPES[ext];
+  if (!bookType) {
+    throw new Error("Unsupported BOQ file type. Please upload an Excel or CSV file.");
+  }
+
+  const workbook = xlsx.readFile(params.filePath, { cellFormula: true, cellStyles: true, cellNF: true });
+  const skipped: PricedBoqResult["skipped"] = [];
+  const writes = new Map<string, CellWrite[]>();
+  let written = 0;
+
+  const linesBySheet = new Map<string, PricedBoqLine[]>();
+  params.lines.forEach((line) => {
+    const list = linesBySheet.get(line.sheetName) ?? [];
+    list.push(line);
+    linesBySheet.set(line.sheetName, list);
+  });
+
+  linesBySheet.forEach((lines, sheetName) => {
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet || !sheet["!ref"]) {
+      lines.forEach((line) => skipped.push({ itemCode: line.itemCode, sheetName, reason: "Sheet not found" }));
+      return;
+    }
+    const range = xlsx.utils.decode_range(sheet["!ref"]);
+    // Same options as extraction so rowIndex lines up with the rows the items came from.
+    const rows = xlsx.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: "", raw: false, blankrows: true });
+    const firstItemRow = Math.min(...lines.map((line) => line.rowIndex));
+    const columns = findPriceColumns(rows, firstItemRow);
+    if (!columns) {
+      lines.forEach((line) => skipped.push({ itemCode: line.itemCode, sheetName, reason: "Rate column not found" }));
+      return;
+    }
+
+    const sheetWrites: CellWrite[] = [];
+    lines.forEach((line) => {
+      if (line.rowIndex < 0 || line.rowIndex >= rows.length) {
+        skipped.push({ itemCode: line.itemCode, sheetName, reason: "Row is outside the sheet" });
+        return;
+      }
+      const r = range.s.r + line.rowIndex;
+      sheetWrites.push({ address: xlsx.utils.encode_cell({ r, c: range.s.c + columns.rate }), value: line.rate });
+      if (line.amount !== null && columns.amount !== null) {
+        sheetWrites.push({ address: xlsx.utils.encode_cell({ r, c: range.s.c + columns.amount }), value: line.amount });
+      }
+      written += 1;
+    });
+    if (sheetWrites.length) writes.set(sheetName, sheetWrites);
+  });
+
+  let buffer: Buffer;
+  if (bookType === "xlsx") {
+    buffer = await writeXlsxCells(params.filePath, writes);
+  } else {
+    writes.forEach((sheetWrites, sheetName) =>
+      sheetWrites.forEach((write) => writeNumber(workbook.Sheets[sheetName], write.address, write.value))
+    );
+    buffer = xlsx.write(workbook, { type: "buffer", bookType, cellStyles: true }) as Buffer;
+  }
+  const baseName = path.basename(params.fileName, ext);
+  return { buffer, fileName: `${baseName}-priced${ext}`, written, skipped };
+}
@@ -3,10 +3,11 @@ import path from "path";
 import { config } from "../../config";
 import { ProjectExtractJobModel } from "../../modules/storage/projectExtractionJobModel";
 import { ProjectFileModel } from "../../modules/storage/projectFileModel";
-import { ProjectItemModel } from "../../modules/storage/projectItemModel";
+import { ProjectItemModel, type BoqItemType } from "../../modules/storage/projectItemModel";
 import { ProjectModel } from "../../modules/storage/projectModel";
 import { upsertProjectExtractJob } from "../../modules/storage/projectExtractionJobRepository";
 import { createProjectLog } from "../../modules/storage/projectLogRepository";
+import { computeReviewProjectStatus } from "../pricing/projectPricing";
 import {
   extractDrawingDetailsWithClaude,
   deleteFileFromClaude,
@@ -16,7 +17,7 @@ import {
   extractScheduleItemsWithClaude,
   deleteScheduleFileFromClaude,
 } from "../claude/scheduleExtraction";
-import { extractBoqItemsFromExcel } from "../boq/boqExcelExtraction";
+import { extractBoqItemsFromExcel, resolveBoqSheetItemType } from "../boq/boqExcelExtraction";
 
 const POLL_INTERVAL_MS = 2000;
 const MAX_CONCURRENCY = 12;
@@ -75,7 +76,9 @@ async function updateProjectStatusIfIdle(projectId: string): Promise<void> {
     status: { $in: ["queued", "processing"] },
   }).exec();
   if (pending === 0) {
-    await ProjectModel.updateOne({ _id: projectId }, { status: "finalized" }).exec();
+    const project = await ProjectModel.findById(projectId).select("userId").exec();
+    const status = project ? await computeReviewProjectStatus(String(project.userId), projectId) : null;
+    await ProjectModel.updateOne({ _id: projectId }, { status: status ?? "finalized" }).exec();
   } else {
     await ProjectModel.updateOne({ _id: projectId }, { status: "analyzing" }).exec();
   }
@@ -212,6 +215,7 @@ async function processJob(jobId: string): Promise<void> {
       description: string;
       notes: string;
       box: { left: number; top: number; right: number; bottom: number } | null;
+      itemType?: BoqItemType | null;
       metadata?: {
         sheetName?: string;
         category?: string;
@@ -351,6 +355,7 @@ async function processJob(jobId: string): Promise<void> {
               description: item.description || "N/A",
               notes: item.notes || "N/A",
               box: null,
+              itemType: resolveBoqSheetItemType(item),
               metadata: {
                 sheetName,
                 sheetIndex: typeof item.sheetIndex === "number" ? item.sheetIndex : undefined,
@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ProductivityRatesBlock } from "../../../modules/storage/productivityRatesModel";
+import { buildEquipmentHourlyCosts, equipmentCostBreakdown } from "../equipmentCatalogue";
+import { computePricing } from "../pricingEngine";
+import { validatePricing } from "../pricingValidation";
+import { boqItem, subItem } from "./fixtures";
+
+const entry = {
+  costBasis: "owned" as const,
+  baseRate: 0,
+  ratePeriod: "hour" as const,
+  purchasePrice: 0,
+  residualValue: 0,
+  usefulLifeHours: 0,
+  maintenancePercent: 0,
+  hoursPerDay: 10,
+  fuelLitresPerHour: 0,
+  fuelPricePerLitre: 0,
+  operatorRequired: false,
+  operatorHourlyCost: 0,
+  mobilisationCost: 0,
+  mobilisationHours: 0,
+};
+
+/** An owned excavator costing 20 depreciation + 10 maintenance + 16 fuel + 25 operator + 30 mobilisation an hour. */
+const excavator = {
+  ...entry,
+  code: "EXC-20",
+  purchasePrice: 200000,
+  residualValue: 20000,
+  usefulLifeHours: 9000,
+  maintenancePercent: 50,
+  fuelLitresPerHour: 8,
+  fuelPricePerLitre: 2,
+  operatorRequired: true,
+  operatorHourlyCost: 25,
+  mobilisationCost: 3000,
+  mobilisationHours: 100,
+};
+
+/** One excavator on a 10-hour day laying 50 units: 0.2 equipment hours a unit. */
+const excavationBlock = (equipmentCode: string): ProductivityRatesBlock => ({
+  id: "excavation",
+  code: "EX-01",
+  description: "Excavation",
+  unit: "m3",
+  hoursPerDay: "10",
+  dailyProductivity: "50",
+  manpowerRows: [],
+  equipmentRows: [
+    {
+      id: "e1",
+      label: "Excavator",
+      quantity: "1",
+      hoursPerDay: "10",
+      dailyProductivity: "50",
+      rate: "5",
+      equipmentCode,
+    },
+  ],
+});
+
+describe("equipment costing", () => {
+  it("depreciates owned plant over its working life and adds running costs", () => {
+    assert.deepEqual(equipmentCostBreakdown(excavator), {
+      base: 20,
+      maintenance: 10,
+      fuel: 16,
+      operator: 25,
+      mobilisation: 30,
+      total: 101,
+    });
+    // The operator cost only counts when the plant needs one.
+    assert.equal(equipmentCostBreakdown({ ...excavator, operatorRequired: false }).total, 76);
+  });
+
+  it("spreads a monthly rental over the working days of the month", () => {
+    const crane = { ...entry, costBasis: "rented" as const, baseRate: 26000, ratePeriod: "month" as const };
+    assert.equal(equipmentCostBreakdown(crane).base, 100);
+    assert.equal(equipmentCostBreakdown(crane, 20).base, 130);
+    assert.equal(equipmentCostBreakdown({ ...crane, ratePeriod: "day" }).base, 2600);
+    // Without a purchase price, owned plant is costed at its per-period rate like rented plant.
+    assert.equal(equipmentCostBreakdown({ ...crane, costBasis: "owned" }).base, 100);
+  });
+
+  it("prices linked block rows from the catalogue and reports codes it does not have", () => {
+    const item = boqItem({ code: "E1", qty: "10", unit: "m3" });
+    const rows = { [String(item._id)]: [subItem("r1", { productivityId: "excavation" })] };
+    const priceWith = (code: string) => {
+      const productivityRates = {
+        factor: "0",
+        blocks: [excavationBlock(code)],
+        equipmentCosts: buildEquipmentHourlyCosts([excavator]),
+      };
+      const pricing = computePricing({ items: [item], pricing: { subItemsByItemId: rows }, productivityRates });
+      return { pricing, report: validatePricing(pricing, productivityRates) };
+    };
+
+    const linked = priceWith("exc-20");
+    assert.equal(linked.pricing.items[0].subItems[0].unitEquip, 0.2 * 101);
+    assert.equal(linked.report.issues.filter((issue) => issue.rule === "unknown-equipment-code").length, 0);
+
+    // A library block set up by someone else may name plant this user's catalogue does not have.
+    const unknown = priceWith("CRN-50");
+    assert.equal(unknown.pricing.items[0].subItems[0].unitEquip, 5);
+    assert.deepEqual(
+      unknown.report.issues.filter((issue) => issue.rule === "unknown-equipment-code").map((issue) => issue.subItemId),
+      ["r1"]
+    );
+  });
+});
@@ -0,0 +1,42 @@
+import { Types } from "mongoose";
+import type { ProjectItemDocument } from "../../../modules/storage/projectItemModel";
+import type { PricingSubItem } from "../pricingEngine";
+
+/** A BOQ line as extraction stores it, with its quantity and unit in the sheet's own columns. */
+export function boqItem(params: {
+  code: string;
+  qty: string;
+  unit?: string;
+  rowIndex?: number;
+  category?: string;
+  description?: string;
+}): ProjectItemDocument {
+  return {
+    _id: new Types.ObjectId(),
+    source: "boq",
+    item_code: params.code,
+    description: params.description ?? `Work item ${params.code}`,
+    notes: "",
+    metadata: {
+      sheetName: "BOQ",
+      sheetIndex: 0,
+      rowIndex: params.rowIndex ?? 0,
+      category: params.category ?? "Civil",
+      fields: { Qty: params.qty, Unit: params.unit ?? "m2" },
+    },
+  } as unknown as ProjectItemDocument;
+}
+
+/** A manually priced sub row; every rate is zero unless given. */
+export function subItem(id: string, rates: Partial<PricingSubItem> = {}): PricingSubItem {
+  return {
+    id,
+    description: `Row ${id}`,
+    unitMh: 0,
+    unitEquipRate: 0,
+    materialsRate: "0",
+    subconRate: "0",
+    toolsRate: "0",
+    ...rates,
+  };
+}
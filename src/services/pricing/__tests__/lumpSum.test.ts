@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { computePricing, roundTo2 } from "../pricingEngine";
+import { spreadLumpSum } from "../lumpSum";
+import { boqItem } from "./fixtures";
+
+/** Items with no rows price to nothing bottom-up, so the lump sum is shared equally between them. */
+const spreadOver = (quantities: string[], breakdown: Parameters<typeof spreadLumpSum>[0]["breakdown"]) => {
+  const items = quantities.map((qty, index) => boqItem({ code: `A${index + 1}`, qty, rowIndex: index + 1 }));
+  const pricing = computePricing({ items, pricing: null, productivityRates: null });
+  return { items, spread: spreadLumpSum({ breakdown, pricing }) };
+};
+
+const extendsExactly = (lines: { qty: number; rate: number; amount: number }[]) =>
+  lines.every((line) => line.amount === roundTo2(line.rate * (line.qty > 0 ? line.qty : 1)));
+
+describe("spreadLumpSum", () => {
+  it("puts the rounding cents on the line whose rate carries them", () => {
+    const { spread } = spreadOver(["3", "3", "1"], { amount: "100", packages: [] });
+
+    assert.ok(extendsExactly(spread.lines));
+    assert.deepEqual(
+      spread.lines.map((line) => [line.rate, line.amount]),
+      [
+        [11.11, 33.33],
+        [11.11, 33.33],
+        [33.34, 33.34],
+      ]
+    );
+    assert.equal(spread.rounding, 0);
+    assert.equal(spread.unspread, 0);
+  });
+
+  it("keeps on the package total the cents no rounded rate can carry", () => {
+    const { spread } = spreadOver(["3", "3", "7"], { amount: "100", packages: [] });
+
+    assert.ok(extendsExactly(spread.lines));
+    const lineTotal = roundTo2(spread.lines.reduce((sum, line) => sum + line.amount, 0));
+    // 11.11 + 11.11 + 4.76 a unit leaves 0.02; a cent more on a 3-unit rate moves 0.03, the nearest any line gets.
+    assert.deepEqual(spread.lines.map((line) => line.rate), [11.12, 11.11, 4.76]);
+    assert.equal(lineTotal, 100.01);
+    assert.equal(spread.packages[0].rounding, -0.01);
+    assert.equal(spread.rounding, -0.01);
+    assert.equal(roundTo2(lineTotal + spread.rounding), spread.amount);
+    assert.equal(spread.unspread, 0);
+  });
+
+  it("spreads each package's share over its own items and the rest over the others", () => {
+    const items = ["2", "6", "4"].map((qty, index) => boqItem({ code: `A${index + 1}`, qty, rowIndex: index + 1 }));
+    const pricing = computePricing({ items, pricing: null, productivityRates: null });
+    const spread = spreadLumpSum({
+      breakdown: {
+        amount: "1000",
+        packages: [{ id: "p1", name: "Finishes", basis: "percent", value: "40", itemIds: [String(items[0]._id)] }],
+      },
+      pricing,
+    });
+
+    assert.deepEqual(
+      spread.packages.map((pkg) => [pkg.name, pkg.amount, pkg.itemCount]),
+      [
+        ["Finishes", 400, 1],
+        ["Other works", 600, 2],
+      ]
+    );
+    assert.deepEqual(
+      spread.lines.map((line) => [line.itemCode, line.rate, line.amount]),
+      [
+        ["A1", 200, 400],
+        ["A2", 50, 300],
+        ["A3", 75, 300],
+      ]
+    );
+    assert.equal(spread.unspread, 0);
+  });
+});
@@ -0,0 +1,123 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ProductivityRatesBlock } from "../../../modules/storage/productivityRatesModel";
+import type { TradeRate } from "../../../modules/storage/tradeRatesModel";
+import { buildNationalisationReport, normalizeManpowerMix, saudiShareOf } from "../manpowerMix";
+import { computePricing, roundTo2 } from "../pricingEngine";
+import { buildTradeHourlyCosts } from "../tradeRates";
+import { boqItem, subItem } from "./fixtures";
+
+/** Masons cost 33 an hour as Saudis and 11 as expatriates (10 in pay, 1,920 a year in fees); helpers cost 6. */
+const trades: TradeRate[] = [
+  {
+    code: "MAS",
+    name: "Mason",
+    basicWage: 0,
+    allowances: 0,
+    burdenPercent: 0,
+    nationalities: {
+      saudi: { basicWage: 30, allowances: 0, gosiPercent: 10, annualFees: 0 },
+      expatriate: { basicWage: 10, allowances: 0, gosiPercent: 0, annualFees: 1920 },
+    },
+  },
+  { code: "HLP", name: "Helper", basicWage: 5, allowances: 0, burdenPercent: 20 },
+];
+
+/** Two masons and two helpers on an 8-hour day laying 10 units: 1.6 man-hours a unit for each trade. */
+const blockwork: ProductivityRatesBlock = {
+  id: "blockwork",
+  code: "BW-01",
+  description: "Blockwork",
+  unit: "m2",
+  hoursPerDay: "8",
+  dailyProductivity: "10",
+  manpowerRows: [
+    { id: "m1", label: "Mason", quantity: "2", tradeCode: "mas" },
+    { id: "m2", label: "Helper", quantity: "2", tradeCode: "HLP" },
+  ],
+  equipmentRows: [],
+};
+
+const mix = normalizeManpowerMix({
+  saudiPercent: "10",
+  trades: [{ tradeCode: "MAS", saudiPercent: "50" }],
+  nitaqatPercent: "25",
+});
+
+const price = () => {
+  const item = boqItem({ code: "B1", qty: "10" });
+  return computePricing({
+    items: [item],
+    pricing: {
+      percentage: "0",
+      subItemsByItemId: { [String(item._id)]: [subItem("r1", { productivityId: "blockwork" })] },
+    },
+    productivityRates: {
+      factor: "0",
+      blocks: [blockwork],
+      tradeCosts: buildTradeHourlyCosts(trades, (code) => saudiShareOf(mix, code)),
+    },
+  });
+};
+
+describe("manpower mix", () => {
+  it("reads a stored mix, keeping the first entry of each trade code", () => {
+    assert.equal(normalizeManpowerMix(null), null);
+    assert.deepEqual(
+      normalizeManpowerMix({
+        saudiPercent: 10,
+        trades: [
+          { tradeCode: "MAS", saudiPercent: "50" },
+          { tradeCode: " mas ", saudiPercent: "80" },
+          { tradeCode: "" },
+        ],
+      }),
+      { saudiPercent: "10", trades: [{ tradeCode: "MAS", saudiPercent: "50" }], nitaqatPercent: "" }
+    );
+  });
+
+  it("gives each trade its own Saudi share or the project's, held between 0 and 100%", () => {
+    assert.equal(saudiShareOf(mix, "mas"), 0.5);
+    assert.equal(saudiShareOf(mix, "HLP"), 0.1);
+    assert.equal(saudiShareOf({ saudiPercent: "150", trades: [], nitaqatPercent: "" }, "HLP"), 1);
+    assert.equal(saudiShareOf(null, "MAS"), 0);
+  });
+
+  it("prices split trades at the blend of the mix", () => {
+    // 1.6 mason hours at 0.5 × 33 + 0.5 × 11 = 22 and 1.6 helper hours at 6.
+    assert.equal(roundTo2(price().items[0].unitRates.wages), 44.8);
+  });
+
+  it("reports the Saudi share of the man-hours and the cost of the mix", () => {
+    const report = buildNationalisationReport({ pricing: price(), blocks: [blockwork], adjustments: [], trades, mix });
+    // 16 mason hours half Saudi and 16 helper hours at the project's 10%.
+    assert.equal(report.totalMh, 32);
+    assert.equal(report.saudiPercent, 30);
+    assert.equal(report.meetsNitaqat, true);
+    assert.deepEqual(report.trades, [
+      {
+        tradeCode: "MAS",
+        name: "Mason",
+        totalMh: 16,
+        saudiPercent: 50,
+        saudiHourly: 33,
+        expatriateHourly: 11,
+        blendedHourly: 22,
+        cost: 176,
+      },
+    ]);
+    assert.equal(report.cost, 176);
+
+    // On a shorter working year the expatriate fees weigh more per hour, so the Saudi share costs less over them.
+    const shortYear = buildNationalisationReport({
+      pricing: price(),
+      blocks: [blockwork],
+      adjustments: [],
+      trades,
+      mix,
+      hoursPerYear: 960,
+    });
+    assert.equal(shortYear.trades[0].expatriateHourly, 12);
+    assert.equal(shortYear.cost, 168);
+  });
+});
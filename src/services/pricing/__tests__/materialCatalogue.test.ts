@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import xlsx from "xlsx";
+import { parseIsoDate, parseMaterialPriceWorkbook } from "../materialCatalogue";
+
+/** A price list whose valid-from column holds `validFrom` as the given cell. */
+function priceList(rows: Array<[string, number, xlsx.CellObject | null]>): Buffer {
+  const sheet = xlsx.utils.aoa_to_sheet([["Code", "Price", "Valid From"]]);
+  rows.forEach(([code, price, validFrom], index) => {
+    const r = index + 1;
+    sheet[xlsx.utils.encode_cell({ r, c: 0 })] = { t: "s", v: code };
+    sheet[xlsx.utils.encode_cell({ r, c: 1 })] = { t: "n", v: price };
+    if (validFrom) sheet[xlsx.utils.encode_cell({ r, c: 2 })] = validFrom;
+  });
+  sheet["!ref"] = xlsx.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: rows.length, c: 2 } });
+  const workbook = xlsx.utils.book_new();
+  xlsx.utils.book_append_sheet(workbook, sheet, "Prices");
+  return xlsx.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+}
+
+describe("parseMaterialPriceWorkbook", () => {
+  it("reads date cells as the calendar day they show, whatever the server's time zone", () => {
+    // 46451 is 5 March 2027 in the 1900 date system.
+    const buffer = priceList([["CEM-1", 18.5, { t: "n", v: 46451, z: "dd/mm/yyyy" }]]);
+
+    const { prices, skippedRows } = parseMaterialPriceWorkbook(buffer);
+
+    assert.equal(skippedRows, 0);
+    assert.equal(prices[0].validFrom.toISOString(), "2027-03-05T00:00:00.000Z");
+  });
+
+  it("takes YYYY-MM-DD text and skips dates that could be read two ways", () => {
+    const buffer = priceList([
+      ["CEM-1", 18.5, { t: "s", v: "2027-03-05" }],
+      ["CEM-2", 19, { t: "s", v: "05/03/2027" }],
+      ["CEM-3", 20, null],
+    ]);
+    const importedAt = new Date("2027-01-10T15:30:00Z");
+
+    const { prices, skippedRows } = parseMaterialPriceWorkbook(buffer, importedAt);
+
+    assert.equal(skippedRows, 1);
+    assert.deepEqual(
+      prices.map((price) => [price.code, price.validFrom.toISOString()]),
+      [
+        ["CEM-1", "2027-03-05T00:00:00.000Z"],
+        ["CEM-3", "2027-01-10T00:00:00.000Z"],
+      ]
+    );
+  });
+});
+
+describe("parseIsoDate", () => {
+  it("refuses days the month does not have", () => {
+    assert.equal(parseIsoDate("2027-02-29"), null);
+    assert.equal(parseIsoDate("2028-02-29")?.toISOString(), "2028-02-29T00:00:00.000Z");
+  });
+});
@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ProductivityRatesBlock } from "../../../modules/storage/productivityRatesModel";
+import { buildMaterialTakeoff } from "../materialTakeoff";
+import { computePricing } from "../pricingEngine";
+import { boqItem, subItem } from "./fixtures";
+
+const block = (id: string, code: string, materialCode = ""): ProductivityRatesBlock => ({
+  id,
+  code,
+  description: `Block ${code}`,
+  unit: "m2",
+  hoursPerDay: "8",
+  dailyProductivity: "10",
+  manpowerRows: [],
+  equipmentRows: [],
+  materialCode,
+});
+
+describe("buildMaterialTakeoff", () => {
+  it("leaves out labour-only rows but keeps material rows that have no rate yet", () => {
+    const item = boqItem({ code: "B1", qty: "20" });
+    const blocks = [block("plaster", "PL-01", "GYP-25"), block("cleaning", "CL-01")];
+    const pricing = computePricing({
+      items: [item],
+      pricing: {
+        subItemsByItemId: {
+          [String(item._id)]: [
+            subItem("r1", { productivityId: "plaster" }),
+            subItem("r2", { productivityId: "cleaning" }),
+            subItem("r3", { description: "Sealant" }),
+          ],
+        },
+      },
+      productivityRates: { factor: "0", blocks },
+    });
+
+    const takeoff = buildMaterialTakeoff({ pricing, blocks, defaultWastePercent: "5", wasteFactors: [] });
+
+    assert.deepEqual(
+      takeoff.lines.map((line) => [line.code || line.description, line.netQty, line.grossQty, line.budgetRate]),
+      [
+        ["PL-01", 20, 21, 0],
+        ["Sealant", 20, 21, 0],
+      ]
+    );
+  });
+});
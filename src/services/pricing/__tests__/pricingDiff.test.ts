@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { diffPricing } from "../pricingDiff";
+import { boqItem, subItem } from "./fixtures";
+
+const wall = boqItem({ code: "A1", qty: "10", rowIndex: 1 });
+const floor = boqItem({ code: "A2", qty: "4", rowIndex: 2 });
+const items = [wall, floor];
+const wallId = String(wall._id);
+const floorId = String(floor._id);
+
+/** No idle allowance or purchase-order uplift, so direct cost is just the rows' rates times quantity. */
+const base = { percentage: "0", idleText: "idle time", poRate: "0", mpHourlyRate: "0", autoRowQtyByItemId: {} };
+
+describe("diffPricing", () => {
+  it("reports added, removed and changed sub rows with the cost they move", () => {
+    const from = {
+      ...base,
+      subItemsByItemId: {
+        [wallId]: [subItem("r1", { materialsRate: "100" }), subItem("r2", { toolsRate: "5" })],
+        [floorId]: [subItem("r3", { materialsRate: "20" })],
+      },
+    };
+    const to = {
+      ...base,
+      subItemsByItemId: {
+        [wallId]: [subItem("r1", { materialsRate: "150" }), subItem("r4", { subconRate: "5" })],
+        [floorId]: [subItem("r3", { materialsRate: "20" })],
+      },
+    };
+
+    const diff = diffPricing({ items, productivityRates: null, from, to });
+
+    assert.deepEqual(diff.items.map((item) => item.itemCode), ["A1"]);
+    const [line] = diff.items;
+    assert.deepEqual(line.added.map((row) => row.id), ["r4"]);
+    assert.deepEqual(line.removed.map((row) => row.id), ["r2"]);
+    assert.deepEqual(line.changed, [
+      { id: "r1", code: "", description: "Row r1", fields: [{ field: "materialsRate", from: "100", to: "150" }] },
+    ]);
+    assert.equal(line.qty, null);
+    assert.ok(line.sellDelta > 0);
+    assert.equal(diff.totals.directFrom, 1000 + 50 + 80);
+    assert.equal(diff.totals.directDelta, 500);
+    assert.deepEqual(diff.settings, []);
+  });
+
+  it("reports quantity overrides and changed settings", () => {
+    const rows = { [wallId]: [subItem("r1", { materialsRate: "100" })] };
+    const from = { ...base, subItemsByItemId: rows };
+    const to = { ...base, poRate: "5", subItemsByItemId: rows, qtyOverrideByItemId: { [wallId]: "12" } };
+
+    const diff = diffPricing({ items, productivityRates: null, from, to });
+
+    assert.deepEqual(diff.settings, [{ field: "poRate", from: "0", to: "5" }]);
+    assert.deepEqual(diff.items[0].qty, { from: "", to: "12" });
+    // 12 units of a 100 rate bought at a 5% uplift, against the 10 units before.
+    assert.equal(diff.totals.directTo, 1260);
+    assert.equal(diff.totals.directDelta, 260);
+  });
+
+  it("leaves out items whose pricing did not change", () => {
+    const record = { ...base, subItemsByItemId: { [wallId]: [subItem("r1", { materialsRate: "100" })] } };
+
+    const diff = diffPricing({ items, productivityRates: null, from: record, to: { ...record } });
+
+    assert.deepEqual(diff.items, []);
+    assert.equal(diff.totals.sellDelta, 0);
+  });
+});
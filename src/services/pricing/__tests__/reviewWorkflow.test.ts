@@ -0,0 +1,135 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { computePricing } from "../pricingEngine";
+import {
+  allowedReviewActions,
+  applyReviewAction,
+  buildReviewSummary,
+  canApplyReviewAction,
+  deriveReviewProjectStatus,
+  ItemReview,
+  normalizeItemReview,
+  resetItemReview,
+  ReviewAction,
+  reviewActionRefusal,
+} from "../reviewWorkflow";
+import { boqItem } from "./fixtures";
+
+const owner = { id: "owner", name: "Omar" };
+const reviewer = { id: "reviewer", name: "Rana" };
+const approver = { id: "approver", name: "Adel" };
+const at = new Date("2026-03-01T09:00:00Z");
+
+const act = (review: ItemReview, action: ReviewAction, actor: { id: string; name: string }, comment = "") => {
+  assert.ok(canApplyReviewAction(review.status, action), `${action} from ${review.status}`);
+  assert.equal(reviewActionRefusal({ review, action, actorId: actor.id, ownerId: owner.id }), null);
+  return applyReviewAction({ review, action, actor, comment, at });
+};
+
+describe("review workflow", () => {
+  it("moves an item from draft to approved, recording who took each step", () => {
+    const priced = act(normalizeItemReview(undefined), "price", owner);
+    const reviewed = act(priced, "review", reviewer);
+    const approved = act(reviewed, "approve", approver);
+
+    assert.equal(approved.status, "approved");
+    assert.deepEqual(
+      [approved.pricedBy?.name, approved.reviewedBy?.name, approved.approvedBy?.name],
+      ["Omar", "Rana", "Adel"]
+    );
+    assert.deepEqual(
+      approved.history.map((event) => `${event.action}:${event.from}->${event.to}`),
+      ["price:draft->priced", "review:priced->reviewed", "approve:reviewed->approved"]
+    );
+    assert.equal(canApplyReviewAction("approved", "approve"), false);
+    assert.equal(canApplyReviewAction("draft", "review"), false);
+  });
+
+  it("refuses review by whoever priced the item and approval by whoever priced or reviewed it", () => {
+    const priced = act(normalizeItemReview(undefined), "price", owner);
+    const refusal = (review: ItemReview, action: ReviewAction, actorId: string) =>
+      reviewActionRefusal({ review, action, actorId, ownerId: owner.id });
+
+    assert.match(refusal(priced, "review", owner.id) ?? "", /priced this item/);
+    assert.match(refusal(priced, "price", reviewer.id) ?? "", /Only the project owner/);
+    const reviewed = act(priced, "review", reviewer);
+    assert.match(refusal(reviewed, "approve", owner.id) ?? "", /priced this item/);
+    assert.match(refusal(reviewed, "approve", reviewer.id) ?? "", /reviewed this item/);
+    assert.equal(refusal(reviewed, "reject", owner.id), null);
+
+    assert.deepEqual(allowedReviewActions(reviewed, reviewer.id, owner.id), ["reject"]);
+    assert.deepEqual(allowedReviewActions(reviewed, approver.id, owner.id), ["approve", "reject"]);
+    assert.deepEqual(allowedReviewActions(priced, owner.id, owner.id), ["reject"]);
+  });
+
+  it("sends a repriced item back to priced by whoever changed it, clearing the sign-offs", () => {
+    const reviewed = act(act(normalizeItemReview(undefined), "price", owner), "review", reviewer);
+    const approved = act(reviewed, "approve", approver);
+
+    const reset = resetItemReview({ review: approved, completed: true, actor: owner, at });
+    assert.equal(reset.status, "priced");
+    assert.equal(reset.pricedBy?.id, owner.id);
+    assert.equal(reset.reviewedBy, null);
+    assert.equal(reset.approvedBy, null);
+    assert.equal(reset.history[reset.history.length - 1].action, "repriced");
+    // The earlier reviewer checked other rates, so may review the new ones.
+    assert.deepEqual(allowedReviewActions(reset, reviewer.id, owner.id), ["review", "reject"]);
+
+    assert.equal(resetItemReview({ review: approved, completed: false, actor: owner, at }).status, "draft");
+    const priced = act(normalizeItemReview(undefined), "price", owner);
+    assert.equal(resetItemReview({ review: priced, completed: true, actor: owner, at }), priced);
+  });
+
+  it("replays the steps from the history of reviews stored without them", () => {
+    const reviewed = act(act(normalizeItemReview(undefined), "price", owner), "review", reviewer);
+    const stored: Record<string, unknown> = { ...reviewed };
+    delete stored.pricedBy;
+    delete stored.reviewedBy;
+    delete stored.approvedBy;
+
+    const legacy = normalizeItemReview(stored);
+    assert.equal(legacy.pricedBy?.id, owner.id);
+    assert.equal(legacy.reviewedBy?.id, reviewer.id);
+    assert.match(
+      reviewActionRefusal({ review: legacy, action: "approve", actorId: reviewer.id, ownerId: owner.id }) ?? "",
+      /reviewed this item/
+    );
+  });
+
+  it("derives the project status from the item reviews", () => {
+    assert.equal(deriveReviewProjectStatus([]), "finalized");
+    assert.equal(deriveReviewProjectStatus(["draft", "draft"]), "finalized");
+    assert.equal(deriveReviewProjectStatus(["draft", "priced"]), "in_review");
+    assert.equal(deriveReviewProjectStatus(["approved", "approved"]), "approved");
+    assert.equal(deriveReviewProjectStatus(["approved", "approved"], true), "submitted");
+  });
+
+  it("lists each item with the actions the viewer may take", () => {
+    const items = [boqItem({ code: "A1", qty: "10", rowIndex: 1 }), boqItem({ code: "A2", qty: "5", rowIndex: 2 })];
+    const pricing = computePricing({
+      items,
+      pricing: { completedByItemId: { [String(items[0]._id)]: true } },
+      productivityRates: null,
+    });
+    const summarize = (viewerId: string) =>
+      buildReviewSummary({ pricing, reviewByItemId: {}, projectStatus: "in_review", ownerId: owner.id, viewerId });
+
+    const ownerView = summarize(owner.id);
+    assert.equal(ownerView.isOwner, true);
+    assert.deepEqual(ownerView.counts, { draft: 1, priced: 1, reviewed: 0, approved: 0 });
+    assert.deepEqual(
+      ownerView.items.map((item) => [item.itemCode, item.status, item.actions]),
+      [
+        ["A1", "priced", ["reject"]],
+        ["A2", "draft", ["price"]],
+      ]
+    );
+    const reviewerView = summarize(reviewer.id);
+    assert.equal(reviewerView.isOwner, false);
+    assert.deepEqual(
+      reviewerView.items.map((item) => item.actions),
+      [["review", "reject"], []]
+    );
+    assert.equal(ownerView.canSubmit, false);
+  });
+});
@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { computePricing } from "../pricingEngine";
+import { buildCalendarMonths, normalizeWorkingCalendar, WorkingCalendar } from "../workingCalendar";
+import { boqItem } from "./fixtures";
+
+/** February 2027 starts on a Monday; Fridays are off, Ramadan runs at six hours and Founding Day is a holiday. */
+const calendar = normalizeWorkingCalendar({
+  startDate: "2027-02-01",
+  restDays: [5],
+  hoursPerDay: "8",
+  periods: [
+    {
+      id: "ramadan",
+      name: "Ramadan",
+      kind: "ramadan",
+      startDate: "2027-02-08",
+      endDate: "2027-03-09",
+      hoursPerDay: "6",
+    },
+    { id: "founding", name: "Founding Day", kind: "holiday", startDate: "2027-02-22", endDate: "2027-02-22" },
+  ],
+}) as WorkingCalendar;
+
+describe("working calendar", () => {
+  it("counts the working days and hours of each programme month", () => {
+    assert.deepEqual(buildCalendarMonths(calendar, 1.5), [
+      // 24 days without Fridays, less the holiday; 6 days at 8 hours, then 17 at Ramadan's 6.
+      { month: "M1", label: "Feb 2027", workingDays: 23, hours: 150 },
+      // Half of March is its first 16 days: 8 at Ramadan's 6 hours and 6 at 8 hours.
+      { month: "M2", label: "Mar 2027", workingDays: 14, hours: 96 },
+    ]);
+  });
+
+  it("uses average months of the weekly pattern without a start date", () => {
+    const weekly = normalizeWorkingCalendar({ restDays: [5], hoursPerDay: "8" }) as WorkingCalendar;
+    assert.deepEqual(buildCalendarMonths(weekly, 2).map((month) => [month.workingDays, month.hours]), [
+      [26, 208],
+      [26, 208],
+    ]);
+  });
+
+  it("prices time-related preliminaries over the programme's months and working days", () => {
+    const staff = boqItem({ code: "P1", qty: "1", unit: "item", description: "Site staff, time related charges" });
+    const priceWith = (productivityCalendar: WorkingCalendar | null) =>
+      computePricing({
+        items: [staff],
+        pricing: {
+          projectDuration: "1.5",
+          allowanceInputsByItemId: { [String(staff._id)]: { monthlyRate: "10000", dailyRate: "100" } },
+        },
+        productivityRates: { factor: "0", blocks: [], calendar: productivityCalendar },
+      });
+
+    const scheduled = priceWith(calendar);
+    assert.equal(scheduled.items[0].itemType, "time_related");
+    // 1.5 months at 10,000 and the calendar's 37 working days at 100.
+    assert.equal(scheduled.items[0].totals.direct, 18700);
+    assert.deepEqual(scheduled.allowances, [
+      { itemType: "time_related", label: "Time-related preliminaries", itemCount: 1, direct: 18700, sell: 18700 },
+    ]);
+    assert.equal(scheduled.tenderTotals.sell, 18700);
+
+    // Without a calendar a month has 26 working days.
+    assert.equal(priceWith(null).items[0].totals.direct, 18900);
+  });
+});
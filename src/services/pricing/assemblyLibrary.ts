@@ -0,0 +1,106 @@
+import type { AssemblySubitem } from "../../modules/storage/assemblyModel";
+import { listCapturedItemIds, upsertCompletedAssembly } from "../../modules/storage/assemblyRepository";
+import type { PricingPayload } from "../../modules/storage/pricingRepository";
+import { getPricing } from "../../modules/storage/pricingRepository";
+import type { ProjectItemDocument } from "../../modules/storage/projectItemModel";
+import { listProjectItems } from "../../modules/storage/projectItemRepository";
+import { findProjectById, listProjects } from "../../modules/storage/projectRepository";
+import { getBoqFieldValue, isNoteItem } from "./pricingEngine";
+
+type StoredSubItem = { code?: string; description?: string; qty?: string | number; thickness?: number | null };
+
+export function toAssemblySubitems(rows: StoredSubItem[]): AssemblySubitem[] {
+  return rows.map((row) => ({
+    description: String(row.description ?? "").trim(),
+    code: String(row.code ?? "").trim(),
+    qty: String(row.qty ?? "").trim(),
+    thickness: row.thickness != null && Number.isFinite(row.thickness) ? row.thickness : null,
+  }));
+}
+
+/** Writes the completed blocks among `itemIds` into the assembly library. Returns how many were captured. */
+async function captureBlocks(params: {
+  userId: string;
+  projectId: string;
+  projectName: string;
+  items: ProjectItemDocument[];
+  pricing: Pick<PricingPayload, "subItemsByItemId" | "blockCodeByItemId">;
+  itemIds: Set<string>;
+}): Promise<number> {
+  const subItemsByItemId = (params.pricing.subItemsByItemId ?? {}) as Record<string, StoredSubItem[]>;
+  const blockCodeByItemId = (params.pricing.blockCodeByItemId ?? {}) as Record<string, string>;
+  let captured = 0;
+  for (const item of params.items) {
+    const itemId = String(item._id);
+    const rows = subItemsByItemId[itemId];
+    if (!params.itemIds.has(itemId) || isNoteItem(item) || !Array.isArray(rows) || rows.length === 0) continue;
+    await upsertCompletedAssembly({
+      userId: params.userId,
+      projectId: params.projectId,
+      projectName: params.projectName,
+      itemId,
+      assembly: {
+        description: String(item.description ?? "").trim(),
+        blockCode: String(blockCodeByItemId[itemId] ?? "").trim(),
+        unit: getBoqFieldValue(item, "unit").trim(),
+        category: (item.metadata?.category ?? "").trim(),
+        subitems: toAssemblySubitems(rows),
+      },
+    });
+    captured += 1;
+  }
+  return captured;
+}
+
+/** Adds the blocks a pricing save has just marked complete to the assembly library. */
+export async function captureCompletedBlocks(params: {
+  userId: string;
+  projectId: string;
+  previouslyCompleted: Record<string, unknown> | undefined;
+  pricing: PricingPayload;
+}): Promise<number> {
+  const completed = (params.pricing.completedByItemId ?? {}) as Record<string, unknown>;
+  const newlyCompleted = new Set(
+    Object.keys(completed).filter((itemId) => completed[itemId] && !params.previouslyCompleted?.[itemId])
+  );
+  if (newlyCompleted.size === 0) return 0;
+  const [project, items] = await Promise.all([
+    findProjectById(params.userId, params.projectId),
+    listProjectItems(params.userId, params.projectId),
+  ]);
+  if (!project) return 0;
+  return captureBlocks({
+    userId: params.userId,
+    projectId: params.projectId,
+    projectName: project.name ?? "Unnamed",
+    items,
+    pricing: params.pricing,
+    itemIds: newlyCompleted,
+  });
+}
+
+/**
+ * One-off backfill: captures every block already marked complete in the user's projects that is not in
+ * the library yet. Blocks captured earlier are left as curated.
+ */
+export async function importCompletedBlocks(userId: string): Promise<number> {
+  const projects = await listProjects(userId);
+  let captured = 0;
+  for (const project of projects) {
+    const projectId = String(project._id);
+    const pricing = await getPricing(userId, projectId);
+    const completed = (pricing?.completedByItemId ?? {}) as Record<string, unknown>;
+    const alreadyCaptured = await listCapturedItemIds(userId, projectId);
+    const itemIds = new Set(Object.keys(completed).filter((id) => completed[id] && !alreadyCaptured.has(id)));
+    if (!pricing || itemIds.size === 0) continue;
+    captured += await captureBlocks({
+      userId,
+      projectId,
+      projectName: project.name ?? "Unnamed",
+      items: await listProjectItems(userId, projectId),
+      pricing,
+      itemIds,
+    });
+  }
+  return captured;
+}
@@ -0,0 +1,238 @@
+import xlsx from "xlsx";
+import { parseNumber, roundTo2 } from "./pricingEngine";
+
+export type SpendProfile = "linear" | "s_curve" | "custom";
+
+export const SPEND_PROFILES: readonly SpendProfile[] = ["linear", "s_curve", "custom"];
+
+/** Commercial terms of a bid, stored with its pricing; numbers are kept as entered, like the other settings. */
+export type CashFlowTerms = {
+  profile: SpendProfile;
+  /** Percent of the work done in each month for the "custom" profile; scaled to 100% when it does not add up. */
+  customProfile: string[];
+  /** Advance payment as a percent of the contract sum, recovered from each certificate at the same percent. */
+  advancePercent: string;
+  /** Percent held back from each certificate, released in one payment after completion. */
+  retentionPercent: string;
+  /** Months after completion before retention is released (the defects liability period). */
+  retentionReleaseMonths: string;
+  /** Months between certifying work and being paid for it. */
+  paymentDelayMonths: string;
+  /** VAT charged on every payment, paid over to the authority the month after invoicing. */
+  vatPercent: string;
+};
+
+export const DEFAULT_CASH_FLOW_TERMS: CashFlowTerms = {
+  profile: "s_curve",
+  customProfile: [],
+  advancePercent: "10",
+  retentionPercent: "10",
+  retentionReleaseMonths: "12",
+  paymentDelayMonths: "2",
+  vatPercent: "15",
+};
+
+export type CashFlowMonth = {
+  month: string;
+  /** Direct cost spent in the month; paid as incurred, net of recoverable input VAT. */
+  cost: number;
+  /** Sell value of the work done in the month. */
+  revenue: number;
+  /** Payments received, VAT included. */
+  cashIn: number;
+  /** Cost plus the output VAT paid over. */
+  cashOut: number;
+  net: number;
+  cumulativeCost: number;
+  cumulativeRevenue: number;
+  cumulativeNet: number;
+};
+
+export type CashFlowForecast = {
+  terms: CashFlowTerms;
+  projectDuration: number;
+  contractSum: number;
+  directCost: number;
+  months: CashFlowMonth[];
+  /** The lowest cumulative cash position, when the project is ever out of pocket. */
+  peakNegative: { month: string; amount: number } | null;
+  /** Month the cumulative cash position stops being negative for good; null when it never does. */
+  breakEvenMonth: string | null;
+};
+
+const toText = (value: unknown): string => (value === null || value === undefined ? "" : String(value).trim());
+
+/** Fills a stored terms object up with the defaults. */
+export function normalizeCashFlowTerms(value: unknown): CashFlowTerms {
+  const source = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const text = (key: Exclude<keyof CashFlowTerms, "profile" | "customProfile">) =>
+    source[key] === undefined || source[key] === null ? DEFAULT_CASH_FLOW_TERMS[key] : toText(source[key]);
+  return {
+    profile: SPEND_PROFILES.includes(source.profile as SpendProfile)
+      ? (source.profile as SpendProfile)
+      : DEFAULT_CASH_FLOW_TERMS.profile,
+    customProfile: Array.isArray(source.customProfile) ? source.customProfile.map(toText) : [],
+    advancePercent: text("advancePercent"),
+    retentionPercent: text("retentionPercent"),
+    retentionReleaseMonths: text("retentionReleaseMonths"),
+    paymentDelayMonths: text("paymentDelayMonths"),
+    vatPercent: text("vatPercent"),
+  };
+}
+
+/** Smoothstep: slow mobilisation, a steady middle and a slow finish; 0 at the start, 1 at completion. */
+const sCurve = (t: number): number => {
+  const clamped = Math.min(Math.max(t, 0), 1);
+  return clamped * clamped * (3 - 2 * clamped);
+};
+
+/**
+ * Share of the work done in each month of the programme. The last month may be a part month, which the
+ * linear and S-curve profiles allow for; a custom profile is taken month by month as entered. Given the
+ * working hours of each month (see workingCalendar.ts), the linear and S-curve profiles progress with the
+ * hours worked rather than the months elapsed.
+ */
+export function buildSpendProfile(terms: CashFlowTerms, duration: number, monthHours?: number[]): number[] {
+  const monthCount = Math.ceil(duration);
+  if (terms.profile === "custom") {
+    const weights = Array.from({ length: monthCount }, (_, month) => Math.max(parseNumber(terms.customProfile[month]), 0));
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    if (total > 0) return weights.map((weight) => weight / total);
+  }
+  const hours = monthHours?.length === monthCount ? monthHours : [];
+  const totalHours = hours.reduce((sum, value) => sum + value, 0);
+  // Progress at the end of each month: the share of the working hours, or of the duration, gone by.
+  const progress = (month: number) =>
+    totalHours > 0
+      ? hours.slice(0, month).reduce((sum, value) => sum + value, 0) / totalHours
+      : Math.min(month / duration, 1);
+  const cumulative = (month: number) => (terms.profile === "s_curve" ? sCurve(progress(month)) : progress(month));
+  return Array.from({ length: monthCount }, (_, month) => cumulative(month + 1) - cumulative(month));
+}
+
+/**
+ * Monthly cost and revenue forecast of a bid. Work is valued at sell and certified monthly; each certificate
+ * less retention and advance recovery is paid `paymentDelayMonths` later with VAT on top. The advance is paid
+ * in the first month, and retention once the defects period after completion has run. Returns null when the
+ * project has no duration to spread over.
+ */
+export function buildCashFlowForecast(params: {
+  contractSum: number;
+  directCost: number;
+  projectDuration: number;
+  terms: CashFlowTerms;
+  /** Working hours of each month of the programme, when the project has a working calendar. */
+  monthHours?: number[];
+}): CashFlowForecast | null {
+  const { contractSum, directCost, terms } = params;
+  const duration = params.projectDuration;
+  if (!(duration > 0)) return null;
+  const profile = buildSpendProfile(terms, duration, params.monthHours);
+  const advance = parseNumber(terms.advancePercent) / 100;
+  const retention = parseNumber(terms.retentionPercent) / 100;
+  const vat = parseNumber(terms.vatPercent) / 100;
+  const delay = Math.max(Math.round(parseNumber(terms.paymentDelayMonths)), 0);
+  const releaseMonth = profile.length - 1 + Math.max(Math.round(parseNumber(terms.retentionReleaseMonths)), 0) + delay;
+  const monthCount = Math.max(profile.length + delay, releaseMonth + 1) + 1;
+
+  const cost = new Array<number>(monthCount).fill(0);
+  const revenue = new Array<number>(monthCount).fill(0);
+  const cashIn = new Array<number>(monthCount).fill(0);
+  const vatDue = new Array<number>(monthCount).fill(0);
+  const receive = (month: number, amount: number) => {
+    cashIn[month] += amount * (1 + vat);
+    vatDue[month + 1] += amount * vat;
+  };
+
+  receive(0, contractSum * advance);
+  profile.forEach((share, month) => {
+    cost[month] = directCost * share;
+    revenue[month] = contractSum * share;
+    receive(month + delay, revenue[month] * (1 - retention - advance));
+  });
+  receive(releaseMonth, contractSum * retention);
+
+  let cumulativeCost = 0;
+  let cumulativeRevenue = 0;
+  let cumulativeNet = 0;
+  const months: CashFlowMonth[] = cost.map((_, month) => {
+    const cashOut = cost[month] + vatDue[month];
+    const net = cashIn[month] - cashOut;
+    cumulativeCost += cost[month];
+    cumulativeRevenue += revenue[month];
+    cumulativeNet += net;
+    return {
+      month: `M${month + 1}`,
+      cost: roundTo2(cost[month]),
+      revenue: roundTo2(revenue[month]),
+      cashIn: roundTo2(cashIn[month]),
+      cashOut: roundTo2(cashOut),
+      net: roundTo2(net),
+      cumulativeCost: roundTo2(cumulativeCost),
+      cumulativeRevenue: roundTo2(cumulativeRevenue),
+      cumulativeNet: roundTo2(cumulativeNet),
+    };
+  });
+
+  const lowest = months.reduce((best, entry) => (entry.cumulativeNet < best.cumulativeNet ? entry : best), months[0]);
+  const lastNegative = months.reduce((last, entry, index) => (entry.cumulativeNet < 0 ? index : last), -1);
+  return {
+    terms,
+    projectDuration: duration,
+    contractSum: roundTo2(contractSum),
+    directCost: roundTo2(directCost),
+    months,
+    peakNegative: lowest.cumulativeNet < 0 ? { month: lowest.month, amount: lowest.cumulativeNet } : null,
+    breakEvenMonth: months[lastNegative + 1]?.month ?? null,
+  };
+}
+
+/** Two-sheet workbook: the monthly forecast, and the terms and figures it was built from. */
+export function buildCashFlowWorkbook(forecast: CashFlowForecast): Buffer {
+  const workbook = xlsx.utils.book_new();
+  const forecastRows: Array<Array<string | number>> = [
+    [
+      "Month",
+      "Cost",
+      "Revenue",
+      "Cash in",
+      "Cash out",
+      "Net",
+      "Cumulative cost",
+      "Cumulative revenue",
+      "Cumulative net",
+    ],
+    ...forecast.months.map((entry) => [
+      entry.month,
+      entry.cost,
+      entry.revenue,
+      entry.cashIn,
+      entry.cashOut,
+      entry.net,
+      entry.cumulativeCost,
+      entry.cumulativeRevenue,
+      entry.cumulativeNet,
+    ]),
+  ];
+  xlsx.utils.book_append_sheet(workbook, xlsx.utils.aoa_to_sheet(forecastRows), "Cash Flow");
+  const { terms } = forecast;
+  const termRows: Array<Array<string | number>> = [
+    ["Contract sum", forecast.contractSum],
+    ["Direct cost", forecast.directCost],
+    ["Project duration (months)", forecast.projectDuration],
+    ["Spending profile", terms.profile === "s_curve" ? "S-curve" : terms.profile === "custom" ? "Custom" : "Linear"],
+    ["Advance payment (%)", terms.advancePercent || "0"],
+    ["Retention (%)", terms.retentionPercent || "0"],
+    ["Retention released after (months)", terms.retentionReleaseMonths || "0"],
+    ["Payment delay (months)", terms.paymentDelayMonths || "0"],
+    ["VAT (%)", terms.vatPercent || "0"],
+    [],
+    [
+      "Peak negative cash",
+      forecast.peakNegative ? `${forecast.peakNegative.amount} (${forecast.peakNegative.month})` : "—",
+    ],
+    ["Cash positive from", forecast.breakEvenMonth ?? "—"],
+  ];
+  xlsx.utils.book_append_sheet(workbook, xlsx.utils.aoa_to_sheet(termRows), "Terms");
+  return xlsx.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+}
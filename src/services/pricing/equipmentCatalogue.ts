@@ -0,0 +1,85 @@
+import type { EquipmentDocument, EquipmentRatePeriod } from "../../modules/storage/equipmentModel";
+import { toEquipmentCodeKey } from "../../modules/storage/equipmentRepository";
+
+/** Hourly cost by lower-cased equipment code. */
+export type EquipmentHourlyCosts = Record<string, number>;
+
+export type EquipmentCostBreakdown = {
+  /** Depreciation of owned plant, or the rental charge. */
+  base: number;
+  /** Maintenance and repairs of owned plant; included in the rental charge of rented plant. */
+  maintenance: number;
+  fuel: number;
+  operator: number;
+  mobilisation: number;
+  total: number;
+};
+
+/** Working days in a month, for monthly ownership or rental rates when the project has no working calendar. */
+export const WORKING_DAYS_PER_MONTH = 26;
+
+type EquipmentCostFields = Pick<
+  EquipmentDocument,
+  | "costBasis"
+  | "baseRate"
+  | "ratePeriod"
+  | "purchasePrice"
+  | "residualValue"
+  | "usefulLifeHours"
+  | "maintenancePercent"
+  | "hoursPerDay"
+  | "fuelLitresPerHour"
+  | "fuelPricePerLitre"
+  | "operatorRequired"
+  | "operatorHourlyCost"
+  | "mobilisationCost"
+  | "mobilisationHours"
+>;
+
+const hoursPerPeriod = (period: EquipmentRatePeriod, hoursPerDay: number, workingDaysPerMonth: number): number => {
+  if (period === "day") return hoursPerDay;
+  if (period === "month") return hoursPerDay * workingDaysPerMonth;
+  return 1;
+};
+
+/** Owned plant with a purchase price is costed from it; without one, its per-period rate is used as entered. */
+const isDepreciated = (entry: EquipmentCostFields): boolean =>
+  entry.costBasis === "owned" && entry.purchasePrice > 0;
+
+/**
+ * Ownership or rental, fuel, operator and mobilisation cost of one working hour. Owned plant is depreciated
+ * over its working life, with maintenance on top, so its hourly cost does not depend on the calendar. Rented
+ * plant is charged by the period whether it works or not: a monthly rate is spread over the project's average
+ * working days a month when it has a working calendar.
+ */
+export function equipmentCostBreakdown(
+  entry: EquipmentCostFields,
+  workingDaysPerMonth = WORKING_DAYS_PER_MONTH
+): EquipmentCostBreakdown {
+  let base = 0;
+  let maintenance = 0;
+  if (isDepreciated(entry)) {
+    const depreciable = Math.max(entry.purchasePrice - entry.residualValue, 0);
+    base = entry.usefulLifeHours > 0 ? depreciable / entry.usefulLifeHours : 0;
+    maintenance = (base * entry.maintenancePercent) / 100;
+  } else {
+    const periodHours = hoursPerPeriod(entry.ratePeriod, entry.hoursPerDay, workingDaysPerMonth);
+    base = periodHours > 0 ? entry.baseRate / periodHours : 0;
+  }
+  const fuel = entry.fuelLitresPerHour * entry.fuelPricePerLitre;
+  const operator = entry.operatorRequired ? entry.operatorHourlyCost : 0;
+  const mobilisation = entry.mobilisationHours > 0 ? entry.mobilisationCost / entry.mobilisationHours : 0;
+  return { base, maintenance, fuel, operator, mobilisation, total: base + maintenance + fuel + operator + mobilisation };
+}
+
+export function buildEquipmentHourlyCosts(
+  entries: Array<EquipmentCostFields & { code: string }>,
+  workingDaysPerMonth = WORKING_DAYS_PER_MONTH
+): EquipmentHourlyCosts {
+  const costs: EquipmentHourlyCosts = {};
+  entries.forEach((entry) => {
+    const key = toEquipmentCodeKey(entry.code);
+    if (key) costs[key] = equipmentCostBreakdown(entry, workingDaysPerMonth).total;
+  });
+  return costs;
+}
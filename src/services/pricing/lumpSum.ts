@@ -0,0 +1,211 @@
+import type { ComputedPricing } from "./pricingEngine";
+import { roundTo2 } from "./pricingEngine";
+
+export type LumpSumBasis = "allowance" | "percent";
+
+/** A trade package of a lump-sum tender: a fixed allowance or a share of the lump sum, over some BOQ items. */
+export type LumpSumPackage = {
+  id: string;
+  name: string;
+  basis: LumpSumBasis;
+  /** Amount for "allowance", percentage of the lump sum for "percent". */
+  value: string;
+  itemIds: string[];
+};
+
+/** Top-down breakdown stored with a lump-sum project's pricing. */
+export type LumpSumBreakdown = {
+  amount: string;
+  packages: LumpSumPackage[];
+};
+
+export type LumpSumSpreadPackage = {
+  /** Null for the remainder spread over items in no package. */
+  id: string | null;
+  name: string;
+  basis: LumpSumBasis | "remainder";
+  amount: number;
+  /** Cents of the amount that the lines' rounded rates cannot carry, kept on the package total. */
+  rounding: number;
+  /** Share of the lump sum. */
+  percent: number;
+  itemCount: number;
+  /** Bottom-up sell total of the package's items, the weights of the spread. */
+  bottomUpSell: number;
+};
+
+export type LumpSumSpreadLine = {
+  itemId: string;
+  itemCode: string;
+  description: string;
+  unit: string;
+  qty: number;
+  packageId: string | null;
+  packageName: string;
+  bottomUpSell: number;
+  amount: number;
+  /** Amount / qty rounded to cents; the amount itself when the item has no quantity. */
+  rate: number;
+};
+
+export type LumpSumSpread = {
+  amount: number;
+  /** Sum of the packages' allowances and percentages. */
+  allocated: number;
+  /** Lump sum left after the packages; spread over items in no package when there are any. */
+  remainder: number;
+  /** Sum of the packages' rounding, carried on the package totals rather than on any line. */
+  rounding: number;
+  /** Part of the lump sum that reached no BOQ line (negative when the packages over-allocate). */
+  unspread: number;
+  packages: LumpSumSpreadPackage[];
+  lines: LumpSumSpreadLine[];
+};
+
+const REMAINDER_NAME = "Other works";
+
+const toText = (value: unknown): string => (value === null || value === undefined ? "" : String(value).trim());
+
+const toNumber = (value: string): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) ? parsed : 0;
+};
+
+/** Drops malformed packages from a stored breakdown; an item stays in the first package that lists it. */
+export function normalizeLumpSum(value: unknown): LumpSumBreakdown {
+  const source = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const assigned = new Set<string>();
+  const packages = (Array.isArray(source.packages) ? source.packages : [])
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === "object")
+    .map((entry) => {
+      const itemIds = (Array.isArray(entry.itemIds) ? entry.itemIds : [])
+        .map(toText)
+        .filter((itemId) => itemId && !assigned.has(itemId));
+      itemIds.forEach((itemId) => assigned.add(itemId));
+      return {
+        id: toText(entry.id),
+        name: toText(entry.name),
+        basis: (entry.basis === "percent" ? "percent" : "allowance") as LumpSumBasis,
+        value: toText(entry.value),
+        itemIds,
+      };
+    })
+    .filter((entry) => entry.id && entry.name);
+  return { amount: toText(source.amount), packages };
+}
+
+type SpreadShares = {
+  rates: number[];
+  amounts: number[];
+  /** Cents that no line's rate can carry, left on the package total. */
+  rounding: number;
+};
+
+/**
+ * Splits `amount` over lines in proportion to their bottom-up sell totals (equally when those are all zero).
+ * Each line's rate is rounded first and its amount is rate × qty, so the BOQ extends exactly; a line without
+ * a quantity is priced as one unit. The cents lost to rounding go on the one line whose rate carries them
+ * best, and whatever that line cannot carry stays on the package total as rounding.
+ */
+function spreadAmount(amount: number, weights: number[], quantities: number[]): SpreadShares {
+  if (weights.length === 0) return { rates: [], amounts: [], rounding: 0 };
+  const units = quantities.map((qty) => (qty > 0 ? qty : 1));
+  const totalWeight = weights.reduce((sum, weight) => sum + Math.max(weight, 0), 0);
+  const rates = weights.map((weight, index) => {
+    const share = totalWeight > 0 ? (amount * Math.max(weight, 0)) / totalWeight : amount / weights.length;
+    return roundTo2(share / units[index]);
+  });
+  const amounts = rates.map((rate, index) => roundTo2(rate * units[index]));
+  const spread = amounts.reduce((sum, lineAmount) => sum + lineAmount, 0);
+  const drift = roundTo2(amount - spread);
+  if (drift !== 0) {
+    let best: { index: number; rate: number; amount: number; residual: number } | null = null;
+    for (let index = 0; index < units.length; index += 1) {
+      const rate = roundTo2(rates[index] + roundTo2(drift / units[index]));
+      if (rate < 0) continue;
+      const lineAmount = roundTo2(rate * units[index]);
+      const residual = Math.abs(roundTo2(drift - (lineAmount - amounts[index])));
+      if (!best || residual < best.residual) best = { index, rate, amount: lineAmount, residual };
+    }
+    if (best && best.residual < Math.abs(drift)) {
+      rates[best.index] = best.rate;
+      amounts[best.index] = best.amount;
+    }
+  }
+  const rounding = roundTo2(amount - amounts.reduce((sum, lineAmount) => sum + lineAmount, 0));
+  return { rates, amounts, rounding };
+}
+
+/**
+ * Spreads the lump sum back to the BOQ: each package's amount over its items, then what the packages leave
+ * over the items in no package, weighted by the bottom-up pricing. Rate-only items and the allowances carried
+ * on top of the lump sum (provisional sums, PC sums, daywork and time-related preliminaries) are not part of
+ * it and keep their own rates.
+ */
+export function spreadLumpSum(params: { breakdown: LumpSumBreakdown; pricing: ComputedPricing }): LumpSumSpread {
+  const amount = roundTo2(toNumber(params.breakdown.amount));
+  const items = params.pricing.items.filter((item) => item.itemType === "measured");
+  const itemIds = new Set(items.map((item) => item.itemId));
+
+  const groups = params.breakdown.packages.map((pkg) => ({
+    id: pkg.id as string | null,
+    name: pkg.name,
+    basis: pkg.basis as LumpSumSpreadPackage["basis"],
+    amount: roundTo2(pkg.basis === "percent" ? (amount * toNumber(pkg.value)) / 100 : toNumber(pkg.value)),
+    itemIds: new Set(pkg.itemIds.filter((itemId) => itemIds.has(itemId))),
+  }));
+  const allocated = roundTo2(groups.reduce((sum, group) => sum + group.amount, 0));
+  const remainder = roundTo2(amount - allocated);
+  const packaged = new Set(groups.flatMap((group) => Array.from(group.itemIds)));
+  const unpackaged = items.filter((item) => !packaged.has(item.itemId));
+  if (unpackaged.length > 0 && remainder > 0) {
+    groups.push({
+      id: null,
+      name: REMAINDER_NAME,
+      basis: "remainder",
+      amount: remainder,
+      itemIds: new Set(unpackaged.map((item) => item.itemId)),
+    });
+  }
+
+  const lines: LumpSumSpreadLine[] = [];
+  const packages: LumpSumSpreadPackage[] = groups.map((group) => {
+    const groupItems = items.filter((item) => group.itemIds.has(item.itemId));
+    const shares = spreadAmount(
+      group.amount,
+      groupItems.map((item) => item.totals.sell),
+      groupItems.map((item) => item.qty)
+    );
+    groupItems.forEach((item, index) => {
+      lines.push({
+        itemId: item.itemId,
+        itemCode: item.itemCode,
+        description: item.description,
+        unit: item.unit,
+        qty: item.qty,
+        packageId: group.id,
+        packageName: group.name,
+        bottomUpSell: roundTo2(item.totals.sell),
+        amount: shares.amounts[index],
+        rate: shares.rates[index],
+      });
+    });
+    return {
+      id: group.id,
+      name: group.name,
+      basis: group.basis,
+      amount: group.amount,
+      rounding: shares.rounding,
+      percent: amount > 0 ? roundTo2((group.amount / amount) * 100) : 0,
+      itemCount: groupItems.length,
+      bottomUpSell: roundTo2(groupItems.reduce((sum, item) => sum + item.totals.sell, 0)),
+    };
+  });
+
+  const spread = roundTo2(lines.reduce((sum, line) => sum + line.amount, 0));
+  const rounding = roundTo2(packages.reduce((sum, pkg) => sum + pkg.rounding, 0));
+  const order = new Map(items.map((item, index) => [item.itemId, index]));
+  lines.sort((a, b) => (order.get(a.itemId) ?? 0) - (order.get(b.itemId) ?? 0));
+  const unspread = roundTo2(amount - roundTo2(spread + rounding));
+  return { amount, allocated, remainder, rounding, unspread, packages, lines };
+}
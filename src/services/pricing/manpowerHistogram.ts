@@ -0,0 +1,204 @@
+import xlsx from "xlsx";
+import type { ProductivityRatesBlock } from "../../modules/storage/productivityRatesModel";
+import { ComputedPricing, parseNumber, roundTo2 } from "./pricingEngine";
+import { buildCalendarMonths, HOURS_PER_WORKER_MONTH, WorkingCalendar, workerHoursByMonth } from "./workingCalendar";
+
+/** Share of a category's window that runs alongside the next category. */
+const CATEGORY_OVERLAP = 0.5;
+
+const UNASSIGNED_TRADE = "Unassigned";
+
+export type ManpowerTradeLoading = {
+  trade: string;
+  totalMh: number;
+  /** Average headcount per month. */
+  headcount: number[];
+};
+
+export type ManpowerPhase = {
+  category: string;
+  totalMh: number;
+  /** Start and end in months from the project start. */
+  start: number;
+  end: number;
+};
+
+export type ManpowerHistogram = {
+  projectDuration: number;
+  /** Average hours one worker puts in a month. */
+  hoursPerMonth: number;
+  /** Hours one worker puts in over each month, from the working calendar when the project has one. */
+  monthHours: number[];
+  months: string[];
+  /** Calendar month of each month, e.g. "Mar 2027", when the calendar has a start date; otherwise the month. */
+  monthLabels: string[];
+  trades: ManpowerTradeLoading[];
+  totals: number[];
+  peak: { month: string; headcount: number } | null;
+  phases: ManpowerPhase[];
+  totalMh: number;
+};
+
+/** Splits one crew's hours across its trades in proportion to the crew make-up. */
+function tradeShares(block: ProductivityRatesBlock | undefined): Array<{ trade: string; share: number }> {
+  const rows = (block?.manpowerRows ?? [])
+    .map((row) => ({ trade: String(row.label ?? "").trim() || UNASSIGNED_TRADE, quantity: parseNumber(row.quantity) }))
+    .filter((row) => row.quantity > 0);
+  const crew = rows.reduce((sum, row) => sum + row.quantity, 0);
+  if (!crew) return [{ trade: UNASSIGNED_TRADE, share: 1 }];
+  return rows.map((row) => ({ trade: row.trade, share: row.quantity / crew }));
+}
+
+/**
+ * Lays each category's hours over the project duration. Categories run in BOQ order, each window sized by
+ * its share of the man-hours, and the next category starts once the previous one is half way through.
+ */
+function sequencePhases(categoryMh: Array<{ category: string; totalMh: number }>, duration: number): ManpowerPhase[] {
+  const active = categoryMh.filter((entry) => entry.totalMh > 0);
+  if (active.length === 0) return [];
+  const weightedSpan = active.reduce(
+    (sum, entry, index) => sum + entry.totalMh * (index === active.length - 1 ? 1 : 1 - CATEGORY_OVERLAP),
+    0
+  );
+  const monthsPerMh = duration / weightedSpan;
+  let start = 0;
+  return active.map((entry) => {
+    const length = entry.totalMh * monthsPerMh;
+    const phase = { category: entry.category, totalMh: entry.totalMh, start, end: Math.min(start + length, duration) };
+    start += length * (1 - CATEGORY_OVERLAP);
+    return phase;
+  });
+}
+
+/**
+ * Spreads the priced man-hours (idle time included) over the project duration as headcount per trade per
+ * month. Each sub-item's hours are split across the trades of its productivity block crew; hours priced
+ * without a block are reported as "Unassigned". Rate-only items are left out, as in the pricing totals.
+ * With a working calendar, a phase puts more hours into the months with more working hours, and headcount
+ * is taken against each month's own hours. Returns null when the project has no duration to spread over.
+ */
+export function buildManpowerHistogram(params: {
+  pricing: ComputedPricing;
+  blocks: ProductivityRatesBlock[];
+  calendar?: WorkingCalendar | null;
+}): ManpowerHistogram | null {
+  const duration = parseNumber(params.pricing.settings.projectDuration);
+  if (!(duration > 0)) return null;
+  const calendar = params.calendar ?? null;
+  const monthHours = workerHoursByMonth(calendar, duration);
+  const blocksById = new Map(params.blocks.map((block) => [block.id, block]));
+
+  // Man-hours by category, then by trade (keyed case-insensitively, first spelling wins).
+  const tradeNames = new Map<string, string>();
+  const categories = new Map<string, Map<string, number>>();
+  params.pricing.items.forEach((item) => {
+    if (item.isRateOnly || !item.totals.totalMh) return;
+    const subMh = item.subItems.reduce((sum, row) => sum + row.totalMh, 0);
+    if (!subMh) return;
+    // Idle time follows the item's own crew split, so scale every row up to the item total.
+    const scale = item.totals.totalMh / subMh;
+    const byTrade = categories.get(item.category) ?? new Map<string, number>();
+    item.subItems.forEach((row) => {
+      if (!row.totalMh) return;
+      const block = row.productivityId ? blocksById.get(row.productivityId) : undefined;
+      tradeShares(block).forEach(({ trade, share }) => {
+        const key = trade.toLowerCase();
+        if (!tradeNames.has(key)) tradeNames.set(key, trade);
+        byTrade.set(key, (byTrade.get(key) ?? 0) + row.totalMh * scale * share);
+      });
+    });
+    categories.set(item.category, byTrade);
+  });
+
+  const phases = sequencePhases(
+    Array.from(categories.entries()).map(([category, byTrade]) => ({
+      category,
+      totalMh: Array.from(byTrade.values()).reduce((sum, value) => sum + value, 0),
+    })),
+    duration
+  );
+
+  const monthCount = Math.ceil(duration);
+  const months = Array.from({ length: monthCount }, (_, index) => `M${index + 1}`);
+  // The last month may be a part month, e.g. month 3 of a 2.5 month project.
+  const monthLength = (month: number) => Math.min(1, duration - month);
+  // Working hours per unit of programme time; a flat 160 without a calendar.
+  const capacity = (month: number) => monthHours[month] / monthLength(month);
+  const tradeHours = new Map<string, number[]>();
+  phases.forEach((phase) => {
+    const overlaps = months.map((_, month) =>
+      Math.max(Math.min(month + 1, phase.end) - Math.max(month, phase.start), 0)
+    );
+    const worked = overlaps.map((overlap, month) => overlap * capacity(month));
+    // A phase that falls wholly on non-working time (e.g. a shutdown) keeps its hours at an even spread.
+    const weights = worked.some((value) => value > 0) ? worked : overlaps;
+    const weight = weights.reduce((sum, value) => sum + value, 0);
+    if (!(weight > 0)) return;
+    categories.get(phase.category)?.forEach((mh, key) => {
+      const hours = tradeHours.get(key) ?? new Array<number>(monthCount).fill(0);
+      weights.forEach((value, month) => {
+        hours[month] += (mh * value) / weight;
+      });
+      tradeHours.set(key, hours);
+    });
+  });
+
+  const toHeadcount = (hours: number[]) =>
+    hours.map((value, month) => (monthHours[month] > 0 ? roundTo2(value / monthHours[month]) : 0));
+
+  const trades = Array.from(tradeHours.entries())
+    .map(([key, hours]) => ({
+      trade: tradeNames.get(key) ?? key,
+      totalMh: roundTo2(hours.reduce((sum, value) => sum + value, 0)),
+      headcount: toHeadcount(hours),
+    }))
+    .sort((a, b) => b.totalMh - a.totalMh);
+
+  const totalHours = months.map((_, month) =>
+    Array.from(tradeHours.values()).reduce((sum, hours) => sum + hours[month], 0)
+  );
+  const totals = toHeadcount(totalHours);
+  const peakIndex = totals.reduce((best, value, index) => (value > totals[best] ? index : best), 0);
+
+  return {
+    projectDuration: duration,
+    hoursPerMonth: calendar
+      ? roundTo2(monthHours.reduce((sum, value) => sum + value, 0) / duration)
+      : HOURS_PER_WORKER_MONTH,
+    monthHours: monthHours.map(roundTo2),
+    months,
+    monthLabels: calendar ? buildCalendarMonths(calendar, duration).map((month) => month.label) : months,
+    trades,
+    totals,
+    peak: totals[peakIndex] > 0 ? { month: months[peakIndex], headcount: totals[peakIndex] } : null,
+    phases: phases.map((phase) => ({
+      ...phase,
+      totalMh: roundTo2(phase.totalMh),
+      start: roundTo2(phase.start),
+      end: roundTo2(phase.end),
+    })),
+    totalMh: roundTo2(totalHours.reduce((sum, value) => sum + value, 0)),
+  };
+}
+
+/** Two-sheet workbook: headcount per trade per month, and the category sequence it was built from. */
+export function buildManpowerHistogramWorkbook(histogram: ManpowerHistogram): Buffer {
+  const workbook = xlsx.utils.book_new();
+  const histogramRows: Array<Array<string | number>> = [
+    ["Trade", "Total MH", ...histogram.monthLabels],
+    ...histogram.trades.map((trade) => [trade.trade, trade.totalMh, ...trade.headcount]),
+    ["Total headcount", histogram.totalMh, ...histogram.totals],
+    ["Hours per worker", "", ...histogram.monthHours],
+    [],
+    ["Peak manpower", histogram.peak ? `${histogram.peak.headcount} (${histogram.peak.month})` : "—"],
+    ["Project duration (months)", histogram.projectDuration],
+    ["Average hours per worker per month", histogram.hoursPerMonth],
+  ];
+  xlsx.utils.book_append_sheet(workbook, xlsx.utils.aoa_to_sheet(histogramRows), "Histogram");
+  const phaseRows: Array<Array<string | number>> = [
+    ["Category", "Total MH", "Start (month)", "End (month)"],
+    ...histogram.phases.map((phase) => [phase.category, phase.totalMh, phase.start, phase.end]),
+  ];
+  xlsx.utils.book_append_sheet(workbook, xlsx.utils.aoa_to_sheet(phaseRows), "Sequence");
+  return xlsx.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+}
@@ -0,0 +1,159 @@
+import type { ProductivityRatesBlock } from "../../modules/storage/productivityRatesModel";
+import type { TradeRate } from "../../modules/storage/tradeRatesModel";
+import { adjustManpowerMh, ComputedPricing, parseNumber, roundTo2 } from "./pricingEngine";
+import type { ProductivityAdjustment } from "./productivityAdjustments";
+import { nationalityHourlyCost, toTradeCodeKey, tradeHourlyCost } from "./tradeRates";
+
+/**
+ * The Saudi share of the workforce a project requires: one percentage for every trade, overridden per trade
+ * code, and the Nitaqat share the project's manpower must reach. Numbers are kept as entered.
+ */
+export type ManpowerMix = {
+  saudiPercent: string;
+  trades: Array<{ tradeCode: string; saudiPercent: string }>;
+  /** Saudi share of the man-hours the Nitaqat band requires; empty when there is no requirement. */
+  nitaqatPercent: string;
+};
+
+export type NationalisationTrade = {
+  tradeCode: string;
+  name: string;
+  totalMh: number;
+  saudiPercent: number;
+  saudiHourly: number;
+  expatriateHourly: number;
+  blendedHourly: number;
+  /** Cost of the Saudi share over pricing the same hours all-expatriate. */
+  cost: number;
+};
+
+export type NationalisationReport = {
+  trades: NationalisationTrade[];
+  /** All priced man-hours, whatever the trade; the base the Nitaqat share is measured on. */
+  totalMh: number;
+  /** Saudi share of those man-hours under the mix. */
+  saudiPercent: number;
+  nitaqatPercent: number | null;
+  meetsNitaqat: boolean | null;
+  /** Total cost of the mix over an all-expatriate workforce, at direct cost. */
+  cost: number;
+};
+
+type SplitTrade = TradeRate & { nationalities: NonNullable<TradeRate["nationalities"]> };
+
+const toText = (value: unknown): string => (value === null || value === undefined ? "" : String(value).trim());
+
+/** Reads a stored mix; null when the project has none, so split trades are priced all-expatriate. */
+export function normalizeManpowerMix(value: unknown): ManpowerMix | null {
+  if (!value || typeof value !== "object") return null;
+  const source = value as Record<string, unknown>;
+  const trades = (Array.isArray(source.trades) ? source.trades : [])
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === "object")
+    .map((entry) => ({ tradeCode: toText(entry.tradeCode), saudiPercent: toText(entry.saudiPercent) }))
+    .filter((entry) => entry.tradeCode);
+  return {
+    saudiPercent: toText(source.saudiPercent),
+    trades: trades.filter(
+      (entry, index) =>
+        trades.findIndex((other) => toTradeCodeKey(other.tradeCode) === toTradeCodeKey(entry.tradeCode)) === index
+    ),
+    nitaqatPercent: toText(source.nitaqatPercent),
+  };
+}
+
+/** Saudi share (0 to 1) of a trade under the mix: its own percentage, or the project's. */
+export function saudiShareOf(mix: ManpowerMix | null, tradeCode: string): number {
+  if (!mix) return 0;
+  const key = toTradeCodeKey(tradeCode);
+  const override = mix.trades.find((entry) => toTradeCodeKey(entry.tradeCode) === key);
+  const percent = parseNumber(override ? override.saudiPercent : mix.saudiPercent);
+  return Math.min(Math.max(percent, 0), 100) / 100;
+}
+
+/**
+ * Saudi share and nationalisation cost of the priced manpower. Each sub-item's hours (idle time included) are
+ * split over the manpower rows of its block by their adjusted hours; rows of trades with Saudi and expatriate
+ * pay are costed at the mix, and the cost is the difference from pricing them all-expatriate. The Saudi share
+ * is measured over every priced man-hour at its trade's share under the mix, with hours not traced to a crew
+ * row at the project's share. Rate-only items are left out, as in the pricing totals.
+ */
+export function buildNationalisationReport(params: {
+  pricing: ComputedPricing;
+  blocks: ProductivityRatesBlock[];
+  adjustments: ProductivityAdjustment[];
+  trades: TradeRate[];
+  mix: ManpowerMix | null;
+  /** Working hours a year the annual fees are spread over; the flat year when omitted. */
+  hoursPerYear?: number;
+}): NationalisationReport {
+  const tradesByKey = new Map(
+    params.trades
+      .filter((trade): trade is SplitTrade => Boolean(trade.nationalities))
+      .map((trade) => [toTradeCodeKey(trade.code), trade])
+  );
+  const blocksById = new Map(params.blocks.map((block) => [block.id, block]));
+
+  const mhByTrade = new Map<SplitTrade, number>();
+  let totalMh = 0;
+  let saudiMh = 0;
+  params.pricing.items.forEach((item) => {
+    if (item.isRateOnly || !item.totals.totalMh) return;
+    totalMh += item.totals.totalMh;
+    let untracedMh = item.totals.totalMh;
+    const subMh = item.subItems.reduce((sum, row) => sum + row.totalMh, 0);
+    // Idle time follows the item's own crew split, so scale every row up to the item total.
+    const scale = subMh ? item.totals.totalMh / subMh : 0;
+    item.subItems.forEach((row) => {
+      const block = row.productivityId ? blocksById.get(row.productivityId) : undefined;
+      if (!block || !row.totalMh) return;
+      const { rowMultiplier } = adjustManpowerMh(block, params.adjustments);
+      const rowHours = block.manpowerRows.map((entry) => parseNumber(entry.quantity) * rowMultiplier(entry));
+      const crewHours = rowHours.reduce((sum, value) => sum + value, 0);
+      if (!crewHours) return;
+      block.manpowerRows.forEach((entry, index) => {
+        const tradeCode = entry.tradeCode ?? "";
+        const mh = (row.totalMh * scale * rowHours[index]) / crewHours;
+        untracedMh -= mh;
+        saudiMh += mh * saudiShareOf(params.mix, tradeCode);
+        const trade = tradesByKey.get(toTradeCodeKey(tradeCode));
+        if (trade) mhByTrade.set(trade, (mhByTrade.get(trade) ?? 0) + mh);
+      });
+    });
+    saudiMh += Math.max(untracedMh, 0) * saudiShareOf(params.mix, "");
+  });
+
+  const trades = Array.from(mhByTrade.entries())
+    .map<NationalisationTrade>(([trade, tradeMh]) => {
+      const share = saudiShareOf(params.mix, trade.code);
+      const expatriateHourly = nationalityHourlyCost(
+        trade.nationalities.expatriate,
+        trade.burdenPercent,
+        params.hoursPerYear
+      );
+      const blendedHourly = tradeHourlyCost(trade, share, params.hoursPerYear);
+      return {
+        tradeCode: trade.code,
+        name: trade.name,
+        totalMh: roundTo2(tradeMh),
+        saudiPercent: roundTo2(share * 100),
+        saudiHourly: roundTo2(
+          nationalityHourlyCost(trade.nationalities.saudi, trade.burdenPercent, params.hoursPerYear)
+        ),
+        expatriateHourly: roundTo2(expatriateHourly),
+        blendedHourly: roundTo2(blendedHourly),
+        cost: roundTo2(tradeMh * (blendedHourly - expatriateHourly)),
+      };
+    })
+    .sort((a, b) => b.totalMh - a.totalMh);
+
+  const saudiPercent = totalMh ? roundTo2((saudiMh / totalMh) * 100) : 0;
+  const nitaqatPercent = params.mix?.nitaqatPercent ? parseNumber(params.mix.nitaqatPercent) : null;
+  return {
+    trades,
+    totalMh: roundTo2(totalMh),
+    saudiPercent,
+    nitaqatPercent,
+    meetsNitaqat: nitaqatPercent === null || !totalMh ? null : saudiPercent >= nitaqatPercent,
+    cost: roundTo2(trades.reduce((sum, trade) => sum + trade.cost, 0)),
+  };
+}
@@ -0,0 +1,143 @@
+import type { SellRateKey } from "./pricingEngine";
+
+/** Markup kinds in the order they are applied; each layer is charged on direct cost plus the layers before it. */
+export const MARKUP_KINDS = ["overhead", "contingency", "risk", "profit", "bond", "insurance"] as const;
+
+export type MarkupKind = (typeof MARKUP_KINDS)[number];
+
+export const MARKUP_SCOPES = ["project", "category", "costType"] as const;
+
+export type MarkupScope = (typeof MARKUP_SCOPES)[number];
+
+export type PricingMarkup = {
+  id: string;
+  kind: MarkupKind;
+  label: string;
+  /** Percentage added on top of the running cost, e.g. "10" for 10%. */
+  percent: string;
+  scope: MarkupScope;
+  /** BOQ category name for "category" scope, cost column (wages, materials, ...) for "costType" scope. */
+  scopeValue: string;
+};
+
+/** Amount one layer adds to a cost column; keyed by markup id, or one of the two sell-rate keys below. */
+export type MarkupLayerAmount = { key: string; amount: number };
+
+export type MarkupBreakdownLine = {
+  key: string;
+  label: string;
+  amount: number;
+};
+
+export const SELL_RATE_FACTOR_KEY = "sellRateFactor";
+export const SELL_RATE_OVERRIDE_KEY = "sellRateOverride";
+
+const KIND_LABELS: Record<MarkupKind, string> = {
+  overhead: "Overhead",
+  contingency: "Contingency",
+  risk: "Risk",
+  profit: "Profit",
+  bond: "Bond",
+  insurance: "Insurance",
+};
+
+const COST_TYPE_LABELS: Record<SellRateKey, string> = {
+  wages: "Manpower",
+  materials: "Materials",
+  subcon: "Subcontract",
+  equip: "Equipment",
+  other: "Tools & other",
+};
+
+const parsePercent = (value: string): number => {
+  const parsed = Number(String(value ?? "").trim() || 0);
+  return Number.isFinite(parsed) ? parsed / 100 : 0;
+};
+
+const normalizeScopeValue = (value: string): string => value.trim().toLowerCase();
+
+/** Drops malformed entries from a stored markup list and sorts it into application order. */
+export function normalizeMarkups(value: unknown): PricingMarkup[] {
+  if (!Array.isArray(value)) return [];
+  const markups = value
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === "object")
+    .map((entry) => ({
+      id: String(entry.id ?? "").trim(),
+      kind: String(entry.kind ?? "") as MarkupKind,
+      label: String(entry.label ?? "").trim(),
+      percent: String(entry.percent ?? "").trim(),
+      scope: String(entry.scope ?? "project") as MarkupScope,
+      scopeValue: String(entry.scopeValue ?? "").trim(),
+    }))
+    .filter(
+      (entry) =>
+        entry.id && MARKUP_KINDS.includes(entry.kind) && (MARKUP_SCOPES as readonly string[]).includes(entry.scope)
+    );
+  return markups
+    .map((markup, index) => ({ markup, index }))
+    .sort(
+      (a, b) => MARKUP_KINDS.indexOf(a.markup.kind) - MARKUP_KINDS.indexOf(b.markup.kind) || a.index - b.index
+    )
+    .map(({ markup }) => markup);
+}
+
+function appliesTo(markup: PricingMarkup, category: string, costType: SellRateKey): boolean {
+  if (markup.scope === "project") return true;
+  if (markup.scope === "category") return normalizeScopeValue(markup.scopeValue) === normalizeScopeValue(category);
+  return markup.scopeValue === costType;
+}
+
+/**
+ * Turns one unit direct cost column into its sell rate. A per-item sell-rate override wins; otherwise the
+ * structured markups are layered in order, and a project without markups keeps the single sell-rate factor
+ * (applied as a margin on sell, as the Pricing page always has).
+ */
+export function applyMarkupLayers(params: {
+  direct: number;
+  category: string;
+  costType: SellRateKey;
+  markups: PricingMarkup[];
+  sellRateFactor: string;
+  override?: string;
+}): { sell: number; layers: MarkupLayerAmount[] } {
+  const { direct } = params;
+  if (params.override !== undefined && String(params.override).trim() !== "") {
+    const sell = direct / (1 - parsePercent(params.override));
+    return { sell, layers: [{ key: SELL_RATE_OVERRIDE_KEY, amount: sell - direct }] };
+  }
+  if (params.markups.length === 0) {
+    const sell = direct / (1 - parsePercent(params.sellRateFactor));
+    return { sell, layers: [{ key: SELL_RATE_FACTOR_KEY, amount: sell - direct }] };
+  }
+  let running = direct;
+  const layers: MarkupLayerAmount[] = [];
+  params.markups.forEach((markup) => {
+    if (!appliesTo(markup, params.category, params.costType)) return;
+    const amount = running * parsePercent(markup.percent);
+    layers.push({ key: markup.id, amount });
+    running += amount;
+  });
+  return { sell: running, layers };
+}
+
+export function describeMarkup(markup: PricingMarkup): string {
+  const name = markup.label || KIND_LABELS[markup.kind];
+  const scope =
+    markup.scope === "project"
+      ? "all items"
+      : markup.scope === "category"
+        ? `category ${markup.scopeValue}`
+        : COST_TYPE_LABELS[markup.scopeValue as SellRateKey] ?? markup.scopeValue;
+  return `${name} ${markup.percent || "0"}% (${scope})`;
+}
+
+/** Labels for the layer keys in a breakdown, in application order. */
+export function markupBreakdownLabels(markups: PricingMarkup[], sellRateFactor: string): Map<string, string> {
+  const labels = new Map<string, string>();
+  if (markups.length === 0) {
+    labels.set(SELL_RATE_FACTOR_KEY, `Sell rate factor ${sellRateFactor || "0"}%`);
+  }
+  markups.forEach((markup) => labels.set(markup.id, describeMarkup(markup)));
+  labels.set(SELL_RATE_OVERRIDE_KEY, "Item sell-rate overrides");
+  return labels;
+}
@@ -0,0 +1,215 @@
+import xlsx from "xlsx";
+import type { MaterialPriceDocument } from "../../modules/storage/materialPriceModel";
+import { listMaterialPrices, MaterialPriceInput, toMaterialCodeKey } from "../../modules/storage/materialPriceRepository";
+import { getPricing } from "../../modules/storage/pricingRepository";
+import { listProjectItems } from "../../modules/storage/projectItemRepository";
+import { listProjects } from "../../modules/storage/projectRepository";
+import type { PricingSubItem } from "./pricingEngine";
+import { roundTo2 } from "./pricingEngine";
+
+type DatedPrice = Pick<MaterialPriceDocument, "codeKey" | "validFrom" | "validTo" | "createdAt">;
+
+/**
+ * Start of the given UTC day, so a price valid "to" a date still applies for the whole of that day. Validity
+ * dates are stored as UTC midnights.
+ */
+const startOfDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+export function isPriceValidAt(price: DatedPrice, at: Date): boolean {
+  const day = startOfDay(at).getTime();
+  if (startOfDay(price.validFrom).getTime() > day) return false;
+  return !price.validTo || startOfDay(price.validTo).getTime() >= day;
+}
+
+/**
+ * The price that applies to each material code on a date: among the prices valid then, the one that took
+ * effect last; a later entry wins a tie.
+ */
+export function selectCurrentPrices<T extends DatedPrice>(prices: T[], at = new Date()): Map<string, T> {
+  const current = new Map<string, T>();
+  prices.forEach((price) => {
+    if (!isPriceValidAt(price, at)) return;
+    const held = current.get(price.codeKey);
+    const isNewer =
+      !held ||
+      price.validFrom.getTime() > held.validFrom.getTime() ||
+      (price.validFrom.getTime() === held.validFrom.getTime() && price.createdAt.getTime() > held.createdAt.getTime());
+    if (isNewer) current.set(price.codeKey, price);
+  });
+  return current;
+}
+
+const normalizeHeader = (value: unknown): string => String(value ?? "").replace(/\s+/g, " ").trim().toLowerCase();
+
+const HEADER_ALIASES: Record<keyof MaterialPriceInput, string[]> = {
+  code: ["code", "material code", "item code", "ref", "ref."],
+  description: ["description", "material", "material description"],
+  unit: ["unit", "uom"],
+  supplier: ["supplier", "vendor"],
+  price: ["price", "unit price", "rate", "unit rate"],
+  currency: ["currency", "cur", "ccy"],
+  validFrom: ["valid from", "effective from", "from", "effective date"],
+  validTo: ["valid to", "valid until", "effective to", "to", "expiry", "expiry date"],
+};
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * A YYYY-MM-DD date as a UTC midnight, like the stored validity dates; null for any other text. Other
+ * formats are refused rather than guessed at: 05/03/2027 is March to some suppliers and May to others.
+ */
+export function parseIsoDate(text: string): Date | null {
+  const match = ISO_DATE.exec(text.trim());
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+}
+
+/**
+ * A price list date cell as a UTC midnight: date cells hold Excel day serials, which are read without a time
+ * zone, and dates typed as text must be YYYY-MM-DD. Undefined for a blank cell, null when it is not a date.
+ */
+function toDate(value: unknown, date1904: boolean): Date | null | undefined {
+  if (typeof value === "number") {
+    const parsed = xlsx.SSF.parse_date_code(value, { date1904 });
+    return parsed ? new Date(Date.UTC(parsed.y, parsed.m - 1, parsed.d)) : null;
+  }
+  const text = String(value ?? "").trim();
+  return text ? parseIsoDate(text) : undefined;
+}
+
+/**
+ * Reads a supplier price list: the first sheet, from the header row naming a code and a price column.
+ * Rows with a code but no numeric price, a price but no code, or a validity date that cannot be read are
+ * counted as skipped. A missing valid-from date means the import date and a missing currency means SAR.
+ */
+export function parseMaterialPriceWorkbook(
+  buffer: Buffer,
+  importedAt = new Date()
+): { prices: MaterialPriceInput[]; skippedRows: number } {
+  const workbook = xlsx.read(buffer, { type: "buffer" });
+  const date1904 = Boolean(workbook.Workbook?.WBProps?.date1904);
+  const sheet = workbook.Sheets[workbook.SheetNames[0] ?? ""];
+  if (!sheet) throw new Error("The workbook has no sheets");
+  const rows = xlsx.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: "" });
+
+  const headerIndex = rows.findIndex((row) => {
+    const cells = row.map(normalizeHeader);
+    return (
+      cells.some((cell) => HEADER_ALIASES.code.includes(cell)) &&
+      cells.some((cell) => HEADER_ALIASES.price.includes(cell))
+    );
+  });
+  if (headerIndex < 0) throw new Error("No header row with a code and a price column was found");
+  const headers = rows[headerIndex].map(normalizeHeader);
+  const column = (field: keyof MaterialPriceInput) =>
+    HEADER_ALIASES[field].map((name) => headers.indexOf(name)).find((index) => index >= 0) ?? -1;
+  const columns = Object.fromEntries(
+    (Object.keys(HEADER_ALIASES) as Array<keyof MaterialPriceInput>).map((field) => [field, column(field)])
+  ) as Record<keyof MaterialPriceInput, number>;
+  const cell = (row: unknown[], field: keyof MaterialPriceInput): unknown =>
+    columns[field] >= 0 ? row[columns[field]] : "";
+  const text = (row: unknown[], field: keyof MaterialPriceInput): string => String(cell(row, field) ?? "").trim();
+
+  const prices: MaterialPriceInput[] = [];
+  let skippedRows = 0;
+  rows.slice(headerIndex + 1).forEach((row) => {
+    const code = text(row, "code");
+    const rawPrice = cell(row, "price");
+    // Rows without a code and a price are blank lines, headings, subtotals and the like.
+    if (!code && String(rawPrice ?? "").trim() === "") return;
+    const price = typeof rawPrice === "number" ? rawPrice : Number(String(rawPrice ?? "").replace(/,/g, "").trim());
+    const validFrom = toDate(cell(row, "validFrom"), date1904);
+    const validTo = toDate(cell(row, "validTo"), date1904);
+    if (
+      !code ||
+      String(rawPrice ?? "").trim() === "" ||
+      !Number.isFinite(price) ||
+      validFrom === null ||
+      validTo === null
+    ) {
+      skippedRows += 1;
+      return;
+    }
+    prices.push({
+      code,
+      description: text(row, "description"),
+      unit: text(row, "unit"),
+      supplier: text(row, "supplier"),
+      price,
+      currency: text(row, "currency").toUpperCase() || "SAR",
+      validFrom: validFrom ?? startOfDay(importedAt),
+      validTo: validTo ?? null,
+    });
+  });
+  return { prices, skippedRows };
+}
+
+export type SupersededMaterialPrice = {
+  projectId: string;
+  projectName: string;
+  itemId: string;
+  itemCode: string;
+  subItemId: string;
+  description: string;
+  code: string;
+  usedPrice: number;
+  /** Null when no catalogue price for the code is valid today. */
+  currentPrice: number | null;
+  currentPriceId: string | null;
+  supplier: string;
+  currency: string;
+  /** Materials rate the sub-item would get at the current price. */
+  currentRate: number | null;
+};
+
+/**
+ * Sub-items whose materials rate came from a catalogue price that is no longer the current one for its code.
+ * Submitted bids are closed and left out; every other project of the user is checked, only `projectId` when given.
+ */
+export async function findSupersededMaterialPrices(
+  userId: string,
+  projectId?: string
+): Promise<SupersededMaterialPrice[]> {
+  const [prices, projects] = await Promise.all([listMaterialPrices(userId), listProjects(userId)]);
+  const current = selectCurrentPrices(prices);
+  const scanned = projects.filter(
+    (project) => project.status !== "submitted" && (!projectId || String(project._id) === projectId)
+  );
+
+  const results: SupersededMaterialPrice[] = [];
+  for (const project of scanned) {
+    const pricing = await getPricing(userId, String(project._id));
+    const subItemsByItemId = (pricing?.subItemsByItemId ?? {}) as Record<string, PricingSubItem[]>;
+    const hits: Array<Omit<SupersededMaterialPrice, "itemCode">> = [];
+    Object.entries(subItemsByItemId).forEach(([itemId, rows]) => {
+      (Array.isArray(rows) ? rows : []).forEach((row) => {
+        const ref = row.materialPrice;
+        if (!ref?.priceId) return;
+        const latest = current.get(toMaterialCodeKey(ref.code));
+        if (latest && String(latest._id) === ref.priceId) return;
+        hits.push({
+          projectId: String(project._id),
+          projectName: project.name,
+          itemId,
+          subItemId: row.id,
+          description: row.description,
+          code: ref.code,
+          usedPrice: ref.price,
+          currentPrice: latest ? latest.price : null,
+          currentPriceId: latest ? String(latest._id) : null,
+          supplier: latest?.supplier ?? "",
+          currency: latest?.currency ?? "",
+          currentRate: latest ? roundTo2(latest.price * ref.quantity) : null,
+        });
+      });
+    });
+    if (hits.length === 0) continue;
+    const items = await listProjectItems(userId, String(project._id));
+    const codeById = new Map(items.map((item) => [String(item._id), item.item_code]));
+    hits.forEach((hit) => results.push({ ...hit, itemCode: codeById.get(hit.itemId) ?? "" }));
+  }
+  return results;
+}
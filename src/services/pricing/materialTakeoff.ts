@@ -0,0 +1,145 @@
+import xlsx from "xlsx";
+import type { MaterialWasteFactor } from "../../modules/storage/pricingModel";
+import type { ProductivityRatesBlock } from "../../modules/storage/productivityRatesModel";
+import { ComputedPricing, ComputedSubItem, parseNumber, roundTo2 } from "./pricingEngine";
+import { resolveUnit } from "./units";
+
+export type MaterialTakeoffLine = {
+  key: string;
+  code: string;
+  description: string;
+  unit: string;
+  /** Sum of effective sub-item quantities (thickness rows already converted to volume). */
+  netQty: number;
+  wastePercent: string;
+  grossQty: number;
+  /** Materials rate priced so far, averaged over the quantity; excludes the PO rate. */
+  budgetRate: number;
+  budgetAmount: number;
+  /** BOQ item codes the line is used in. */
+  itemCodes: string[];
+};
+
+export type MaterialTakeoff = {
+  defaultWastePercent: string;
+  lines: MaterialTakeoffLine[];
+};
+
+const roundQty = (value: number): number => Math.round(value * 1000) / 1000;
+
+/** Unit of a thickness row, whose quantity is the BOQ area times the thickness. */
+const THICKNESS_UNIT = "m3";
+
+/** A thickness row is a volume even when its unit fell back to the BOQ item's area unit. */
+const takeoffUnit = (row: ComputedSubItem): string =>
+  row.thickness !== null && resolveUnit(row.unit).dimension !== "volume" ? THICKNESS_UNIT : row.unit.trim();
+
+/** Lines are the same material when they share a productivity code (or, without one, a description) and unit. */
+export const materialTakeoffKey = (code: string, description: string, unit: string): string =>
+  `${(code.trim() || description.trim()).toLowerCase()}|${unit.trim().toLowerCase()}`;
+
+/**
+ * A row linked to a productivity block that names no material, and with no materials rate entered by hand,
+ * is labour (and plant) only and buys nothing. Rows priced by hand are kept, priced or not.
+ */
+function isLabourOnly(row: ComputedSubItem, blocksById: Map<string, ProductivityRatesBlock>): boolean {
+  const block = row.productivityId ? blocksById.get(row.productivityId) : undefined;
+  if (!block) return false;
+  return !block.materialCode?.trim() && !(row.unitMaterials > 0);
+}
+
+/**
+ * Consolidates the pricing sub-items of every BOQ item into one material list, grouped by productivity code
+ * and unit, with waste added per line (falling back to the project default). Rate-only items carry no
+ * quantity and are left out, as are labour-only rows (see isLabourOnly). Rows without a materials rate yet
+ * stay in, with no budget, so they still go out for prices.
+ */
+export function buildMaterialTakeoff(params: {
+  pricing: ComputedPricing;
+  blocks: ProductivityRatesBlock[];
+  defaultWastePercent: string;
+  wasteFactors: MaterialWasteFactor[];
+}): MaterialTakeoff {
+  const wasteByKey = new Map(params.wasteFactors.map((factor) => [factor.key, factor.percent]));
+  const blocksById = new Map(params.blocks.map((block) => [block.id, block]));
+  const lines = new Map<string, Omit<MaterialTakeoffLine, "wastePercent" | "grossQty" | "budgetRate">>();
+
+  params.pricing.items.forEach((item) => {
+    if (item.isRateOnly) return;
+    item.subItems.forEach((row) => {
+      if (!(row.qty > 0) || isLabourOnly(row, blocksById)) return;
+      const unit = takeoffUnit(row);
+      const key = materialTakeoffKey(row.code, row.description, unit);
+      const line = lines.get(key) ?? {
+        key,
+        code: row.code.trim(),
+        description: row.description.trim(),
+        unit,
+        netQty: 0,
+        budgetAmount: 0,
+        itemCodes: [],
+      };
+      line.netQty += row.qty;
+      line.budgetAmount += row.unitMaterials * row.qty;
+      if (item.itemCode && !line.itemCodes.includes(item.itemCode)) line.itemCodes.push(item.itemCode);
+      lines.set(key, line);
+    });
+  });
+
+  return {
+    defaultWastePercent: params.defaultWastePercent,
+    lines: Array.from(lines.values())
+      .map((line) => {
+        const wastePercent = wasteByKey.get(line.key) ?? params.defaultWastePercent;
+        return {
+          ...line,
+          netQty: roundQty(line.netQty),
+          wastePercent,
+          grossQty: roundQty(line.netQty * (1 + parseNumber(wastePercent) / 100)),
+          budgetRate: line.netQty ? roundTo2(line.budgetAmount / line.netQty) : 0,
+          budgetAmount: roundTo2(line.budgetAmount),
+        };
+      })
+      .sort((a, b) => (a.code || a.description).localeCompare(b.code || b.description, undefined, { numeric: true })),
+  };
+}
+
+/**
+ * Supplier enquiry workbook: one row per take-off line with gross quantities, and blank rate cells whose
+ * amounts are formulas so the supplier's prices total up as they fill them in. Budget rates are not included.
+ */
+export function buildMaterialEnquiryWorkbook(params: { projectName: string; takeoff: MaterialTakeoff }): Buffer {
+  const header = ["No.", "Code", "Description", "Unit", "Qty", "Unit Rate", "Amount", "Remarks"];
+  const firstRow = 5;
+  const rows: Array<Array<string | number>> = [
+    ["Material Enquiry"],
+    ["Project", params.projectName],
+    ["Date", new Date().toLocaleDateString("en-GB")],
+    [],
+    header,
+    ...params.takeoff.lines.map((line, index) => [
+      index + 1,
+      line.code,
+      line.description,
+      line.unit,
+      line.grossQty,
+      "",
+      "",
+      "",
+    ]),
+  ];
+  const sheet = xlsx.utils.aoa_to_sheet(rows);
+  params.takeoff.lines.forEach((_, index) => {
+    const row = firstRow + index + 1;
+    sheet[`G${row}`] = { t: "s", v: "", f: `IF(F${row}="","",E${row}*F${row})` };
+  });
+  const totalRow = firstRow + params.takeoff.lines.length + 1;
+  sheet[`F${totalRow}`] = { t: "s", v: "Total" };
+  sheet[`G${totalRow}`] = { t: "n", v: 0, f: `SUM(G${firstRow + 1}:G${totalRow - 1})` };
+  sheet["!ref"] = xlsx.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: totalRow - 1, c: header.length - 1 } });
+  sheet["!cols"] = [{ wch: 6 }, { wch: 14 }, { wch: 50 }, { wch: 8 }, { wch: 12 }, { wch: 12 }, { wch: 14 }, { wch: 30 }];
+
+  const workbook = xlsx.utils.book_new();
+  xlsx.utils.book_append_sheet(workbook, sheet, "Enquiry");
+  return xlsx.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+}
@@ -0,0 +1,177 @@
+import type { ProjectItemDocument } from "../../modules/storage/projectItemModel";
+import { describeMarkup, normalizeMarkups } from "./markups";
+import {
+  computePricing,
+  PricingProductivityRates,
+  PricingRecord,
+  PricingSubItem,
+  roundTo2,
+  SELL_RATE_KEYS,
+} from "./pricingEngine";
+
+type FieldChange = { field: string; from: string; to: string };
+
+type SubItemRef = { id: string; code: string; description: string };
+
+export type PricingItemDiff = {
+  itemId: string;
+  itemCode: string;
+  description: string;
+  qty: { from: string; to: string } | null;
+  added: SubItemRef[];
+  removed: SubItemRef[];
+  changed: Array<SubItemRef & { fields: FieldChange[] }>;
+  sellRateOverrides: FieldChange[];
+  sellFrom: number;
+  sellTo: number;
+  sellDelta: number;
+};
+
+export type PricingDiff = {
+  settings: FieldChange[];
+  items: PricingItemDiff[];
+  totals: {
+    directFrom: number;
+    directTo: number;
+    directDelta: number;
+    sellFrom: number;
+    sellTo: number;
+    sellDelta: number;
+  };
+};
+
+const SETTING_FIELDS = [
+  "percentage",
+  "idleText",
+  "poRate",
+  "mpHourlyRate",
+  "totalPriceFactor",
+  "projectDuration",
+  "sellRateFactor",
+];
+
+const SUB_ITEM_FIELDS: Array<keyof PricingSubItem> = [
+  "code",
+  "description",
+  "qty",
+  "thickness",
+  "unitMh",
+  "unitWagesRate",
+  "unitEquipRate",
+  "materialsRate",
+  "subconRate",
+  "toolsRate",
+];
+
+const toText = (value: unknown): string => (value === null || value === undefined ? "" : String(value));
+
+const toRef = (row: PricingSubItem): SubItemRef => ({
+  id: toText(row.id),
+  code: toText(row.code),
+  description: toText(row.description),
+});
+
+const subItemsOf = (record: PricingRecord, itemId: string): PricingSubItem[] => {
+  const rows = (record.subItemsByItemId as Record<string, PricingSubItem[]> | undefined)?.[itemId];
+  return Array.isArray(rows) ? rows : [];
+};
+
+/**
+ * Compares two pricing snapshots line by line. Both are priced against the current BOQ items and
+ * productivity library so the total delta only reflects what changed between the snapshots.
+ */
+export function diffPricing(params: {
+  items: ProjectItemDocument[];
+  productivityRates: PricingProductivityRates | null;
+  from: PricingRecord;
+  to: PricingRecord;
+}): PricingDiff {
+  const fromComputed = computePricing({ items: params.items, pricing: params.from, productivityRates: params.productivityRates });
+  const toComputed = computePricing({ items: params.items, pricing: params.to, productivityRates: params.productivityRates });
+  const fromById = new Map(fromComputed.items.map((item) => [item.itemId, item]));
+
+  const settings = SETTING_FIELDS.map((field) => ({
+    field,
+    from: toText((params.from as Record<string, unknown>)[field]),
+    to: toText((params.to as Record<string, unknown>)[field]),
+  })).filter((change) => change.from !== change.to);
+  const describeMarkups = (record: PricingRecord) => normalizeMarkups(record.markups).map(describeMarkup).join("; ");
+  const markupsFrom = describeMarkups(params.from);
+  const markupsTo = describeMarkups(params.to);
+  if (markupsFrom !== markupsTo) {
+    settings.push({ field: "markups", from: markupsFrom, to: markupsTo });
+  }
+
+  const fromOverrides = (params.from.sellRateOverridesByItemId ?? {}) as Record<string, Record<string, unknown>>;
+  const toOverrides = (params.to.sellRateOverridesByItemId ?? {}) as Record<string, Record<string, unknown>>;
+
+  const fromQty = (params.from.qtyOverrideByItemId ?? {}) as Record<string, unknown>;
+  const toQty = (params.to.qtyOverrideByItemId ?? {}) as Record<string, unknown>;
+
+  const items = toComputed.items
+    .map<PricingItemDiff>((item) => {
+      const before = subItemsOf(params.from, item.itemId);
+      const after = subItemsOf(params.to, item.itemId);
+      const beforeById = new Map(before.map((row) => [toText(row.id), row]));
+      const afterIds = new Set(after.map((row) => toText(row.id)));
+
+      const changed = after
+        .filter((row) => beforeById.has(toText(row.id)))
+        .map((row) => {
+          const previous = beforeById.get(toText(row.id)) as PricingSubItem;
+          const fields = SUB_ITEM_FIELDS.map((field) => ({
+            field,
+            from: toText(previous[field]),
+            to: toText(row[field]),
+          })).filter((change) => change.from !== change.to);
+          return { ...toRef(row), fields };
+        })
+        .filter((row) => row.fields.length > 0);
+
+      const sellRateOverrides = SELL_RATE_KEYS.map((field) => ({
+        field,
+        from: toText(fromOverrides[item.itemId]?.[field]),
+        to: toText(toOverrides[item.itemId]?.[field]),
+      })).filter((change) => change.from !== change.to);
+
+      const qtyFrom = toText(fromQty[item.itemId]);
+      const qtyTo = toText(toQty[item.itemId]);
+      const sellFrom = fromById.get(item.itemId)?.totals.sell ?? 0;
+      const sellTo = item.totals.sell;
+      return {
+        itemId: item.itemId,
+        itemCode: item.itemCode,
+        description: item.description,
+        qty: qtyFrom !== qtyTo ? { from: qtyFrom, to: qtyTo } : null,
+        added: after.filter((row) => !beforeById.has(toText(row.id))).map(toRef),
+        removed: before.filter((row) => !afterIds.has(toText(row.id))).map(toRef),
+        changed,
+        sellRateOverrides,
+        sellFrom: roundTo2(sellFrom),
+        sellTo: roundTo2(sellTo),
+        sellDelta: roundTo2(sellTo - sellFrom),
+      };
+    })
+    .filter(
+      (item) =>
+        item.qty !== null ||
+        item.added.length > 0 ||
+        item.removed.length > 0 ||
+        item.changed.length > 0 ||
+        item.sellRateOverrides.length > 0 ||
+        item.sellDelta !== 0
+    );
+
+  return {
+    settings,
+    items,
+    totals: {
+      directFrom: roundTo2(fromComputed.totals.direct),
+      directTo: roundTo2(toComputed.totals.direct),
+      directDelta: roundTo2(toComputed.totals.direct - fromComputed.totals.direct),
+      sellFrom: roundTo2(fromComputed.totals.sell),
+      sellTo: roundTo2(toComputed.totals.sell),
+      sellDelta: roundTo2(toComputed.totals.sell - fromComputed.totals.sell),
+    },
+  };
+}
@@ -0,0 +1,980 @@
+import type { BoqItemType, ProjectItemDocument } from "../../modules/storage/projectItemModel";
+import type { PricingDocument } from "../../modules/storage/pricingModel";
+import type {
+  ProductivityRatesBlock,
+  ProductivityRatesDocument,
+} from "../../modules/storage/productivityRatesModel";
+import {
+  applyMarkupLayers,
+  markupBreakdownLabels,
+  MarkupBreakdownLine,
+  MarkupLayerAmount,
+  normalizeMarkups,
+  PricingMarkup,
+} from "./markups";
+import { BOQ_ITEM_TYPE_LABELS, detectBoqItemType } from "../boq/boqItemType";
+import { toTradeCodeKey, TradeHourlyCosts } from "./tradeRates";
+import { EquipmentHourlyCosts, WORKING_DAYS_PER_MONTH } from "./equipmentCatalogue";
+import { adjustmentApplies, ProductivityAdjustment, ProductivityAdjustmentCategory } from "./productivityAdjustments";
+import { averageWorkingDaysPerMonth, WorkingCalendar, workerHoursByMonth } from "./workingCalendar";
+
+/**
+ * Server-side mirror of the calculations done on the Pricing page (frontend/src/pages/Pricing.tsx).
+ * Keep both in sync: any change to how the UI derives MH, direct or sell rates must be reflected here
+ * so reports and exports show the same numbers the estimators see.
+ */
+
+export const SELL_RATE_KEYS = ["wages", "materials", "subcon", "equip", "other"] as const;
+
+export type SellRateKey = (typeof SELL_RATE_KEYS)[number];
+
+export type PricingSubItem = {
+  id: string;
+  code?: string;
+  description: string;
+  note?: string;
+  /** Thickness in mm; when set, sub row qty = main row qty * thickness * 0.001 */
+  thickness?: number | null;
+  productivityId?: string;
+  qty?: string;
+  unit?: string;
+  unitMh: number;
+  unitWagesRate?: number;
+  unitEquipRate: number;
+  materialsRate: string;
+  subconRate: string;
+  toolsRate: string;
+  /** Set when `subconRate` was filled from an awarded subcontract quote. */
+  subconQuote?: SubcontractQuoteRef | null;
+  /** Set when `materialsRate` was taken from the materials catalogue through the productivity block. */
+  materialPrice?: MaterialPriceRef | null;
+};
+
+export type SubcontractQuoteRef = {
+  packageId: string;
+  quoteId: string;
+  subcontractor: string;
+  reference: string;
+};
+
+/** `materialsRate` = `price` × `quantity` (material per unit of the block) at the time it was picked up. */
+export type MaterialPriceRef = {
+  priceId: string;
+  code: string;
+  price: number;
+  quantity: number;
+};
+
+export type PricingSettings = {
+  percentage: string;
+  idleText: string;
+  poRate: string;
+  mpHourlyRate: string;
+  totalPriceFactor: string;
+  projectDuration: string;
+  sellRateFactor: string;
+  sellRateOverridesByItemId: Record<string, Partial<Record<SellRateKey, string>>>;
+  /** Structured markups in application order; when empty the sell-rate factor applies. */
+  markups: PricingMarkup[];
+};
+
+/** BOQ line types priced on their own terms and summarised apart from the measured work. */
+export const ALLOWANCE_ITEM_TYPES: readonly BoqItemType[] = ["provisional_sum", "pc_sum", "daywork", "time_related"];
+
+/**
+ * Page inputs of an allowance line. `sum` replaces the amount in the BOQ rate column; `attendancePercent` is
+ * the main contractor's profit and attendance added to a PC sum; `hourlyRate` is the daywork sell rate, which
+ * otherwise is the MP hourly rate marked up as wages. `monthlyRate` and `dailyRate` price a time-related
+ * preliminary per month of the programme and per working day of it.
+ */
+export type AllowanceInputs = {
+  sum?: string;
+  attendancePercent?: string;
+  hourlyRate?: string;
+  monthlyRate?: string;
+  dailyRate?: string;
+};
+
+export type PricingTotals = {
+  totalMh: number;
+  wages: number;
+  materials: number;
+  subcon: number;
+  equip: number;
+  tools: number;
+  direct: number;
+  sellWages: number;
+  sellMaterials: number;
+  sellSubcon: number;
+  sellEquip: number;
+  sellOther: number;
+  sell: number;
+};
+
+export type ComputedSubItem = {
+  id: string;
+  code: string;
+  description: string;
+  productivityId: string | null;
+  thickness: number | null;
+  qty: number;
+  unit: string;
+  /** Man-hours of the productivity block before the project's adjustment factors. */
+  libraryUnitMh: number;
+  /** Man-hours each adjustment factor adds; with `libraryUnitMh` these make up `unitMh`. */
+  mhAdjustments: Array<MhAdjustmentShare & { totalMh: number }>;
+  unitMh: number;
+  totalMh: number;
+  unitWages: number;
+  totalWages: number;
+  unitMaterials: number;
+  totalMaterials: number;
+  unitSubcon: number;
+  totalSubcon: number;
+  unitEquip: number;
+  totalEquip: number;
+  unitTools: number;
+  totalTools: number;
+  unitPrice: number;
+  totalPrice: number;
+};
+
+export type ComputedIdleRow = {
+  label: string;
+  qty: number;
+  unitMh: number;
+  totalMh: number;
+  unitWages: number;
+  totalWages: number;
+  unitEquip: number;
+  totalEquip: number;
+  unitPrice: number;
+  totalPrice: number;
+};
+
+export type ComputedPricingItem = {
+  itemId: string;
+  itemCode: string;
+  description: string;
+  category: string;
+  subcategory: string;
+  qty: number;
+  qtyDisplay: string;
+  unit: string;
+  itemType: BoqItemType;
+  isRateOnly: boolean;
+  completed: boolean;
+  blockCode: string;
+  subItems: ComputedSubItem[];
+  idle: ComputedIdleRow;
+  unitRates: {
+    mh: number;
+    wages: number;
+    materials: number;
+    subcon: number;
+    equip: number;
+    tools: number;
+    direct: number;
+    sellWages: number;
+    sellMaterials: number;
+    sellSubcon: number;
+    sellEquip: number;
+    sellOther: number;
+    sell: number;
+  };
+  totals: PricingTotals;
+  /** Sell minus direct for the item's quantity, split by markup layer. */
+  markups: MarkupLayerAmount[];
+  /** Man-hours the project's adjustment factors add to the item's sub rows, per factor. */
+  mhAdjustments: ComputedMhAdjustment[];
+};
+
+export type ComputedMhAdjustment = {
+  adjustmentId: string;
+  name: string;
+  category: ProductivityAdjustmentCategory;
+  totalMh: number;
+};
+
+export type ComputedPricingCategory = {
+  category: string;
+  itemCount: number;
+  totals: PricingTotals;
+};
+
+export type ComputedAllowance = {
+  itemType: BoqItemType;
+  label: string;
+  itemCount: number;
+  direct: number;
+  sell: number;
+};
+
+export type ComputedPricing = {
+  settings: PricingSettings;
+  items: ComputedPricingItem[];
+  categories: ComputedPricingCategory[];
+  /** Measured work only; rate-only lines and the allowances below are left out. */
+  totals: PricingTotals;
+  /** Provisional sums, PC sums, daywork and time-related preliminaries, one entry per type present. */
+  allowances: ComputedAllowance[];
+  /** Measured work plus the allowances: what the tender is submitted at. */
+  tenderTotals: { direct: number; sell: number };
+  /**
+   * "Total Working Days" on the page: total MH over the hours one worker puts in across the project duration,
+   * 160 a month unless the project has a working calendar.
+   */
+  workingDays: number;
+  /** Project markup from direct cost to sell price, one line per layer (rate-only items excluded). */
+  markupBreakdown: MarkupBreakdownLine[];
+  /** Man-hours each productivity adjustment factor adds to the measured work (rate-only items excluded). */
+  mhAdjustments: ComputedMhAdjustment[];
+};
+
+/** What-if changes priced on top of the stored pricing (see scenarios.ts). */
+export type PricingAdjustments = {
+  /** Multipliers on each direct cost column; wages also scale the MP hourly rate. */
+  rateMultipliers: Record<SellRateKey, number>;
+  /** Multiplier on man-hours, e.g. 1.1 for crews 10% slower. Wages follow the hours. */
+  productivityFactor: number;
+  /** Markups replacing the stored ones, or null to keep them. */
+  markups: PricingMarkup[] | null;
+  /** Items priced as one subcontract rate; a null rate keeps the item's current direct unit cost. */
+  subconRateByItemId: Map<string, number | null>;
+};
+
+/** Stored pricing state the engine reads; a saved document or any snapshot of one (e.g. a revision). */
+export type PricingRecord = Partial<
+  Pick<
+    PricingDocument,
+    | "percentage"
+    | "idleText"
+    | "poRate"
+    | "mpHourlyRate"
+    | "totalPriceFactor"
+    | "projectDuration"
+    | "sellRateFactor"
+    | "sellRateOverridesByItemId"
+    | "markups"
+    | "subItemsByItemId"
+    | "autoRowQtyByItemId"
+    | "qtyOverrideByItemId"
+    | "completedByItemId"
+    | "blockCodeByItemId"
+    | "allowanceInputsByItemId"
+  >
+>;
+
+export const DEFAULT_PRICING_SETTINGS: PricingSettings = {
+  percentage: "10",
+  idleText: "idle time",
+  poRate: "8",
+  mpHourlyRate: "0",
+  totalPriceFactor: "0",
+  projectDuration: "2",
+  sellRateFactor: "12.14",
+  sellRateOverridesByItemId: {},
+  markups: [],
+};
+
+const normalizeColumn = (value: string): string => value.trim().toLowerCase().replace(/\s+/g, " ");
+
+export const parseNumber = (value: string | number | null | undefined): number => {
+  if (value === null || value === undefined) return 0;
+  if (typeof value === "number") return Number.isFinite(value) ? value : 0;
+  const trimmed = String(value).trim();
+  if (!trimmed) return 0;
+  const cleaned = trimmed.replace(/,/g, "");
+  const match = cleaned.match(/-?\d+(\.\d+)?/);
+  if (!match) return 0;
+  const numberValue = Number(match[0]);
+  return Number.isFinite(numberValue) ? numberValue : 0;
+};
+
+export const roundTo2 = (value: number): number => {
+  if (!Number.isFinite(value)) return 0;
+  return Number(value.toFixed(2));
+};
+
+export const emptyTotals = (): PricingTotals => ({
+  totalMh: 0,
+  wages: 0,
+  materials: 0,
+  subcon: 0,
+  equip: 0,
+  tools: 0,
+  direct: 0,
+  sellWages: 0,
+  sellMaterials: 0,
+  sellSubcon: 0,
+  sellEquip: 0,
+  sellOther: 0,
+  sell: 0,
+});
+
+export const addTotals = (target: PricingTotals, source: PricingTotals): PricingTotals => {
+  (Object.keys(target) as Array<keyof PricingTotals>).forEach((key) => {
+    target[key] += source[key];
+  });
+  return target;
+};
+
+export const getBoqFieldValue = (
+  item: Pick<ProjectItemDocument, "metadata">,
+  field: "qty" | "unit" | "rate"
+): string => {
+  const fields = item.metadata?.fields ?? {};
+  const findField = (candidates: string[]) =>
+    fields[Object.keys(fields).find((key) => candidates.includes(normalizeColumn(key))) ?? ""];
+  if (field === "qty") {
+    return findField(["qty", "quantity", "q'ty", "qnty"]) ?? "";
+  }
+  if (field === "unit") {
+    return findField(["unit", "uom", "unit of measure"]) ?? "";
+  }
+  return findField(["rate", "unit rate", "unit price", "price"]) ?? "";
+};
+
+/** The line's type as set at extraction or in review, or as its text suggests for items without one. */
+export const getBoqItemType = (item: Pick<ProjectItemDocument, "itemType" | "description" | "metadata">): BoqItemType =>
+  item.itemType ??
+  detectBoqItemType({
+    description: item.description,
+    rate: getBoqFieldValue(item, "rate"),
+    category: item.metadata?.category,
+    subcategory: item.metadata?.subcategory,
+  });
+
+export const isRateOnlyItem = (item: Pick<ProjectItemDocument, "itemType" | "description" | "metadata">): boolean =>
+  getBoqItemType(item) === "rate_only";
+
+export const isAllowanceType = (itemType: BoqItemType): boolean => ALLOWANCE_ITEM_TYPES.includes(itemType);
+
+export const isNoteItem = (item: Pick<ProjectItemDocument, "item_code">): boolean =>
+  String(item.item_code ?? "").trim() === "ITEM";
+
+/** Effective qty for a sub row: when thickness is set, qty = mainQty * thickness (mm) * 0.001 */
+export const getSubRowEffectiveQty = (
+  row: Pick<PricingSubItem, "thickness" | "qty">,
+  mainQtyDisplay: string
+): number => {
+  const mainQty = parseNumber(mainQtyDisplay);
+  const thick = row.thickness != null && Number.isFinite(row.thickness) ? row.thickness : null;
+  if (thick !== null) return mainQty * thick * 0.001;
+  return parseNumber(row.qty ?? mainQtyDisplay);
+};
+
+export const computeManpowerMh = (block: ProductivityRatesBlock): number => {
+  const hoursValue = parseNumber(block.hoursPerDay);
+  const productivityValue = parseNumber(block.dailyProductivity);
+  const manpowerSum = (block.manpowerRows ?? []).reduce((sum, row) => sum + parseNumber(row.quantity), 0);
+  return productivityValue ? (manpowerSum * hoursValue) / productivityValue : 0;
+};
+
+type ManpowerRow = ProductivityRatesBlock["manpowerRows"][number];
+
+/** Man-hours one adjustment factor adds to (or, when negative, takes off) a unit of work. */
+export type MhAdjustmentShare = {
+  adjustmentId: string;
+  name: string;
+  category: ProductivityAdjustmentCategory;
+  unitMh: number;
+};
+
+export type AdjustedManpower = {
+  libraryUnitMh: number;
+  unitMh: number;
+  shares: MhAdjustmentShare[];
+  /** Multiplier on a manpower row's hours from the factors in its scope. */
+  rowMultiplier: (row: ManpowerRow) => number;
+};
+
+/**
+ * Man-hours per unit of the block with the project's adjustment factors applied to the manpower rows in their
+ * scope. The percentages in scope of a row add up (15% congestion and 10% height make 25%), so the hours each
+ * factor adds can be reported on its own and the library hours plus the shares give `unitMh`.
+ */
+export function adjustManpowerMh(block: ProductivityRatesBlock, adjustments: ProductivityAdjustment[]): AdjustedManpower {
+  const libraryUnitMh = computeManpowerMh(block);
+  const hoursValue = parseNumber(block.hoursPerDay);
+  const productivityValue = parseNumber(block.dailyProductivity);
+  const blockCode = String(block.code ?? "");
+  const inScope = (row: ManpowerRow) =>
+    adjustments.filter((adjustment) => adjustmentApplies(adjustment, blockCode, row.tradeCode ?? ""));
+  const shares = adjustments.map<MhAdjustmentShare>((adjustment) => ({
+    adjustmentId: adjustment.id,
+    name: adjustment.name,
+    category: adjustment.category,
+    unitMh: 0,
+  }));
+  (block.manpowerRows ?? []).forEach((row) => {
+    const rowMh = productivityValue ? (parseNumber(row.quantity) * hoursValue) / productivityValue : 0;
+    const applied = inScope(row);
+    shares.forEach((share, index) => {
+      if (applied.includes(adjustments[index])) share.unitMh += (rowMh * parseNumber(adjustments[index].percent)) / 100;
+    });
+  });
+  const appliedShares = shares.filter((share) => share.unitMh !== 0);
+  return {
+    libraryUnitMh,
+    unitMh: appliedShares.reduce((sum, share) => sum + share.unitMh, libraryUnitMh),
+    shares: appliedShares,
+    rowMultiplier: (row) =>
+      inScope(row).reduce((multiplier, adjustment) => multiplier + parseNumber(adjustment.percent) / 100, 1),
+  };
+}
+
+/**
+ * Wages per unit of the block from its crew mix: each manpower row at its trade's hourly cost, or at the
+ * manpower hourly rate when it has no trade or the trade is not in the table, for the row's adjusted hours.
+ * Null when no row is priced from the trade table, so the block keeps its flat-rate wages.
+ */
+export const computeCrewWagesRate = (
+  block: ProductivityRatesBlock,
+  mpHourlyRate: number,
+  tradeCosts: TradeHourlyCosts | null | undefined,
+  rowMultiplier: (row: ManpowerRow) => number = () => 1
+): number | null => {
+  if (!tradeCosts) return null;
+  const rows = block.manpowerRows ?? [];
+  const costOf = (row: ManpowerRow) => tradeCosts[toTradeCodeKey(row.tradeCode ?? "")];
+  if (!rows.some((row) => costOf(row) !== undefined)) return null;
+  const hoursValue = parseNumber(block.hoursPerDay);
+  const productivityValue = parseNumber(block.dailyProductivity);
+  const crewHourlyCost = rows.reduce(
+    (sum, row) => sum + parseNumber(row.quantity) * (costOf(row) ?? mpHourlyRate) * rowMultiplier(row),
+    0
+  );
+  return productivityValue ? (crewHourlyCost * hoursValue) / productivityValue : 0;
+};
+
+/** Rows linked to the equipment catalogue are priced at its current hourly cost; others use their saved rate. */
+export const computeEquipmentRateSum = (
+  block: ProductivityRatesBlock,
+  equipmentCosts?: EquipmentHourlyCosts | null
+): number => {
+  return (block.equipmentRows ?? []).reduce((sum, row) => {
+    const catalogueCost = equipmentCosts?.[(row.equipmentCode ?? "").trim().toLowerCase()];
+    if (catalogueCost !== undefined) {
+      const rowProductivity = parseNumber(row.dailyProductivity ?? "");
+      const rowEh = rowProductivity
+        ? (parseNumber(row.quantity) * parseNumber(row.hoursPerDay ?? "")) / rowProductivity
+        : 0;
+      return sum + rowEh * catalogueCost;
+    }
+    const savedRate = row.rate !== undefined ? parseNumber(row.rate) : null;
+    if (savedRate !== null && Number.isFinite(savedRate)) return sum + savedRate;
+    const rowQty = parseNumber(row.quantity);
+    const rowHours = parseNumber(row.hoursPerDay ?? "");
+    const rowProductivity = parseNumber(row.dailyProductivity ?? "");
+    const rowMh = rowProductivity ? (rowQty * rowHours) / rowProductivity : 0;
+    return sum + rowMh * parseNumber(row.hourlyRate ?? "");
+  }, 0);
+};
+
+export type ProductivityOption = {
+  id: string;
+  code: string;
+  description: string;
+  unit: string;
+  libraryUnitMh: number;
+  mhAdjustments: MhAdjustmentShare[];
+  unitMh: number;
+  unitWagesRate: number;
+  equipmentRate: number;
+};
+
+/**
+ * The crew-mix wages win over the saved `manpowerRate`, which the rates page stores at the flat hourly rate.
+ * Wages follow the hours the project's adjustment factors add.
+ */
+export function buildProductivityOptions(
+  blocks: ProductivityRatesBlock[],
+  mpHourlyRate: string,
+  costs?: Pick<PricingProductivityRates, "tradeCosts" | "equipmentCosts" | "adjustments"> | null
+): Map<string, ProductivityOption> {
+  const options = new Map<string, ProductivityOption>();
+  blocks.forEach((block) => {
+    const manpower = adjustManpowerMh(block, costs?.adjustments ?? []);
+    const crewWagesRate = computeCrewWagesRate(
+      block,
+      parseNumber(mpHourlyRate),
+      costs?.tradeCosts,
+      manpower.rowMultiplier
+    );
+    const hoursRatio = manpower.libraryUnitMh ? manpower.unitMh / manpower.libraryUnitMh : 1;
+    options.set(block.id, {
+      id: block.id,
+      code: String(block.code ?? "").trim(),
+      description: block.description || "Untitled",
+      unit: block.unit,
+      libraryUnitMh: manpower.libraryUnitMh,
+      mhAdjustments: manpower.shares,
+      unitMh: manpower.unitMh,
+      unitWagesRate:
+        crewWagesRate ??
+        (block.manpowerRate
+          ? parseNumber(block.manpowerRate) * hoursRatio
+          : manpower.unitMh * parseNumber(mpHourlyRate)),
+      equipmentRate: computeEquipmentRateSum(block, costs?.equipmentCosts),
+    });
+  });
+  return options;
+}
+
+/**
+ * Settings stored on the pricing record merged over defaults. The MP hourly rate shown on the page
+ * is read-only and sourced from the productivity rates factor, so that wins when available.
+ */
+export function resolvePricingSettings(
+  pricing: PricingRecord | null | undefined,
+  productivityRates?: Pick<ProductivityRatesDocument, "factor"> | null
+): PricingSettings {
+  const source = pricing ?? {};
+  const overrides =
+    source.sellRateOverridesByItemId && typeof source.sellRateOverridesByItemId === "object"
+      ? (source.sellRateOverridesByItemId as PricingSettings["sellRateOverridesByItemId"])
+      : {};
+  return {
+    percentage: source.percentage ?? DEFAULT_PRICING_SETTINGS.percentage,
+    idleText: source.idleText ?? DEFAULT_PRICING_SETTINGS.idleText,
+    poRate: source.poRate ?? DEFAULT_PRICING_SETTINGS.poRate,
+    mpHourlyRate: productivityRates?.factor ?? source.mpHourlyRate ?? DEFAULT_PRICING_SETTINGS.mpHourlyRate,
+    totalPriceFactor: source.totalPriceFactor ?? DEFAULT_PRICING_SETTINGS.totalPriceFactor,
+    projectDuration: source.projectDuration ?? DEFAULT_PRICING_SETTINGS.projectDuration,
+    sellRateFactor: source.sellRateFactor ?? DEFAULT_PRICING_SETTINGS.sellRateFactor,
+    sellRateOverridesByItemId: overrides,
+    markups: normalizeMarkups(source.markups),
+  };
+}
+
+export function sortBoqItems<T extends Pick<ProjectItemDocument, "metadata">>(items: T[]): T[] {
+  return [...items].sort((a, b) => {
+    const aSheet = a.metadata?.sheetIndex ?? 0;
+    const bSheet = b.metadata?.sheetIndex ?? 0;
+    if (aSheet !== bSheet) return aSheet - bSheet;
+    return (a.metadata?.rowIndex ?? 0) - (b.metadata?.rowIndex ?? 0);
+  });
+}
+
+/**
+ * Unit rates and totals of an allowance line, which ignore sub-items and markups. A provisional sum is carried
+ * at its sum, a PC sum at its sum plus attendance, and a time-related preliminary at its monthly rate over the
+ * programme's months plus its daily rate over the programme's working days (all in the subcon column, with a
+ * missing quantity read as one sum); daywork is its quantity in hours times the hourly rate (in the wages
+ * column). A time-related line with neither rate is carried at its BOQ rate, like a sum.
+ */
+function priceAllowance(params: {
+  itemType: BoqItemType;
+  inputs: AllowanceInputs;
+  qty: number;
+  boqRate: string;
+  hourlyCost: number;
+  hourlySell: number;
+  /** Programme length in months and the working days in it, for time-related preliminaries. */
+  months: number;
+  workingDays: number;
+}): Pick<ComputedPricingItem, "unitRates" | "totals"> {
+  const { itemType, inputs } = params;
+  const isDaywork = itemType === "daywork";
+  const qty = isDaywork ? params.qty : params.qty || 1;
+  const isTimed = itemType === "time_related" && Boolean(inputs.monthlyRate?.trim() || inputs.dailyRate?.trim());
+  let direct: number;
+  let sell: number;
+  if (isDaywork) {
+    const hourlySell = inputs.hourlyRate?.trim() ? parseNumber(inputs.hourlyRate) : params.hourlySell;
+    direct = params.hourlyCost * qty;
+    sell = roundTo2(hourlySell) * qty;
+  } else if (isTimed) {
+    direct = parseNumber(inputs.monthlyRate) * params.months + parseNumber(inputs.dailyRate) * params.workingDays;
+    sell = direct;
+  } else {
+    const attendance = itemType === "pc_sum" ? parseNumber(inputs.attendancePercent) / 100 : 0;
+    direct = inputs.sum?.trim() ? parseNumber(inputs.sum) : parseNumber(params.boqRate) * qty;
+    sell = direct * (1 + attendance);
+  }
+  const unitDirect = qty ? direct / qty : 0;
+  const unitSell = qty ? sell / qty : 0;
+  return {
+    unitRates: {
+      mh: isDaywork ? 1 : 0,
+      wages: isDaywork ? unitDirect : 0,
+      materials: 0,
+      subcon: isDaywork ? 0 : unitDirect,
+      equip: 0,
+      tools: 0,
+      direct: roundTo2(unitDirect),
+      sellWages: isDaywork ? unitSell : 0,
+      sellMaterials: 0,
+      sellSubcon: isDaywork ? 0 : unitSell,
+      sellEquip: 0,
+      sellOther: 0,
+      sell: roundTo2(unitSell),
+    },
+    totals: {
+      ...emptyTotals(),
+      totalMh: isDaywork ? qty : 0,
+      wages: isDaywork ? direct : 0,
+      subcon: isDaywork ? 0 : direct,
+      direct: roundTo2(direct),
+      sellWages: isDaywork ? sell : 0,
+      sellSubcon: isDaywork ? 0 : sell,
+      sell: roundTo2(sell),
+    },
+  };
+}
+
+/** Totals the man-hours added per adjustment factor, in the order the factors first appear. */
+function sumMhAdjustments(entries: ComputedMhAdjustment[]): ComputedMhAdjustment[] {
+  const byId = new Map<string, ComputedMhAdjustment>();
+  entries.forEach((entry) => {
+    const current = byId.get(entry.adjustmentId) ?? {
+      adjustmentId: entry.adjustmentId,
+      name: entry.name,
+      category: entry.category,
+      totalMh: 0,
+    };
+    current.totalMh += entry.totalMh;
+    byId.set(entry.adjustmentId, current);
+  });
+  return Array.from(byId.values());
+}
+
+/**
+ * Rates the engine prices with: the productivity blocks, the trade costs of the project's location, the
+ * equipment catalogue's hourly costs, the project's adjustment factors on library man-hours and its working
+ * calendar.
+ */
+export type PricingProductivityRates = Pick<ProductivityRatesDocument, "factor" | "blocks"> & {
+  tradeCosts?: TradeHourlyCosts | null;
+  equipmentCosts?: EquipmentHourlyCosts | null;
+  adjustments?: ProductivityAdjustment[] | null;
+  calendar?: WorkingCalendar | null;
+};
+
+export function computePricing(params: {
+  items: ProjectItemDocument[];
+  pricing: PricingRecord | null;
+  productivityRates: PricingProductivityRates | null;
+  adjustments?: PricingAdjustments;
+}): ComputedPricing {
+  const { adjustments } = params;
+  const resolved = resolvePricingSettings(params.pricing, params.productivityRates);
+  const settings = adjustments?.markups ? { ...resolved, markups: adjustments.markups } : resolved;
+  const rateMultiplier = (key: SellRateKey): number => adjustments?.rateMultipliers[key] ?? 1;
+  const productivityFactor = adjustments?.productivityFactor ?? 1;
+  const percentValue = parseNumber(settings.percentage) / 100;
+  const poRateValue = parseNumber(settings.poRate) / 100;
+  const mpHourlyRateValue = parseNumber(settings.mpHourlyRate) * rateMultiplier("wages");
+  const programmeMonths = parseNumber(settings.projectDuration);
+  const programmeWorkingDays =
+    (averageWorkingDaysPerMonth(params.productivityRates?.calendar ?? null, programmeMonths) ??
+      WORKING_DAYS_PER_MONTH) * programmeMonths;
+  const options = buildProductivityOptions(
+    params.productivityRates?.blocks ?? [],
+    settings.mpHourlyRate,
+    params.productivityRates
+  );
+
+  const subItemsByItemId = (params.pricing?.subItemsByItemId ?? {}) as Record<string, PricingSubItem[]>;
+  const autoRowQtyByItemId = (params.pricing?.autoRowQtyByItemId ?? {}) as Record<string, string>;
+  const qtyOverrideByItemId = (params.pricing?.qtyOverrideByItemId ?? {}) as Record<string, string>;
+  const completedByItemId = (params.pricing?.completedByItemId ?? {}) as Record<string, boolean>;
+  const blockCodeByItemId = (params.pricing?.blockCodeByItemId ?? {}) as Record<string, string>;
+  const allowanceInputsByItemId = (params.pricing?.allowanceInputsByItemId ?? {}) as Record<string, AllowanceInputs>;
+
+  const applySellMarkup = (
+    itemId: string,
+    category: string,
+    rateKey: SellRateKey,
+    direct: number,
+    layers: Map<string, number>
+  ): number => {
+    const result = applyMarkupLayers({
+      direct,
+      category,
+      costType: rateKey,
+      markups: settings.markups,
+      sellRateFactor: settings.sellRateFactor,
+      override: settings.sellRateOverridesByItemId[itemId]?.[rateKey],
+    });
+    result.layers.forEach((layer) => layers.set(layer.key, (layers.get(layer.key) ?? 0) + layer.amount));
+    return result.sell;
+  };
+
+  const pricedItems = sortBoqItems(params.items.filter((item) => item.source === "boq")).filter(
+    (item) => !isNoteItem(item)
+  );
+
+  const items = pricedItems.map<ComputedPricingItem>((item) => {
+    const itemId = String(item._id);
+    const qtyDisplay = String(qtyOverrideByItemId[itemId] ?? getBoqFieldValue(item, "qty"));
+    const unitDisplay = getBoqFieldValue(item, "unit");
+    const qtyValue = parseNumber(qtyDisplay);
+    const itemType = getBoqItemType(item);
+    const category = (item.metadata?.category ?? "").trim() || "Uncategorized";
+    const identity = {
+      itemId,
+      itemCode: String(item.item_code ?? "").trim(),
+      description: String(item.description ?? "").trim(),
+      category,
+      subcategory: (item.metadata?.subcategory ?? "").trim(),
+      qty: qtyValue,
+      qtyDisplay,
+      unit: unitDisplay,
+      itemType,
+      isRateOnly: itemType === "rate_only",
+      completed: Boolean(completedByItemId[itemId]),
+      blockCode: String(blockCodeByItemId[itemId] ?? "").trim(),
+    };
+
+    if (isAllowanceType(itemType)) {
+      const label = `${settings.percentage.trim() || "0"}% - ${settings.idleText}`;
+      return {
+        ...identity,
+        subItems: [],
+        idle: {
+          label,
+          qty: 0,
+          unitMh: 0,
+          totalMh: 0,
+          unitWages: 0,
+          totalWages: 0,
+          unitEquip: 0,
+          totalEquip: 0,
+          unitPrice: 0,
+          totalPrice: 0,
+        },
+        ...priceAllowance({
+          itemType,
+          inputs: allowanceInputsByItemId[itemId] ?? {},
+          qty: qtyValue,
+          boqRate: getBoqFieldValue(item, "rate"),
+          hourlyCost: mpHourlyRateValue,
+          hourlySell: applySellMarkup(itemId, category, "wages", mpHourlyRateValue, new Map()),
+          months: programmeMonths,
+          workingDays: programmeWorkingDays,
+        }),
+        markups: [],
+        mhAdjustments: [],
+      };
+    }
+
+    const rows = Array.isArray(subItemsByItemId[itemId]) ? subItemsByItemId[itemId] : [];
+
+    const subItems = rows.map<ComputedSubItem>((row) => {
+      // The page re-syncs linked rows from the current productivity library on load.
+      const option = row.productivityId ? options.get(row.productivityId) : undefined;
+      const rowQty = getSubRowEffectiveQty(row, qtyDisplay);
+      const unitMh = (option ? option.unitMh : parseNumber(row.unitMh)) * productivityFactor;
+      const mhAdjustments = (option?.mhAdjustments ?? []).map((share) => ({
+        ...share,
+        unitMh: share.unitMh * productivityFactor,
+        totalMh: share.unitMh * productivityFactor * rowQty,
+      }));
+      const rowWagesRate = option ? option.unitWagesRate : row.unitWagesRate;
+      const unitWages =
+        rowWagesRate !== undefined
+          ? parseNumber(rowWagesRate) * productivityFactor * rateMultiplier("wages")
+          : unitMh * mpHourlyRateValue;
+      const unitMaterials = parseNumber(row.materialsRate) * rateMultiplier("materials");
+      const unitSubcon = parseNumber(row.subconRate) * rateMultiplier("subcon");
+      const unitEquip = (option ? option.equipmentRate : parseNumber(row.unitEquipRate)) * rateMultiplier("equip");
+      const unitTools = parseNumber(row.toolsRate) * rateMultiplier("other");
+      const unitPrice = unitTools + unitEquip + unitSubcon + unitWages + unitMaterials * (1 + poRateValue);
+      return {
+        id: String(row.id ?? ""),
+        code: String(row.code ?? option?.code ?? ""),
+        description: String(row.description ?? ""),
+        productivityId: row.productivityId ?? null,
+        thickness: row.thickness != null && Number.isFinite(row.thickness) ? row.thickness : null,
+        qty: rowQty,
+        unit: String(option?.unit ?? row.unit ?? unitDisplay ?? ""),
+        libraryUnitMh: option ? option.libraryUnitMh * productivityFactor : unitMh,
+        mhAdjustments,
+        unitMh,
+        totalMh: unitMh * rowQty,
+        unitWages,
+        totalWages: unitWages * rowQty,
+        unitMaterials,
+        totalMaterials: (unitMaterials + unitMaterials * poRateValue) * rowQty,
+        unitSubcon,
+        totalSubcon: unitSubcon * rowQty,
+        unitEquip,
+        totalEquip: unitEquip * rowQty,
+        unitTools,
+        totalTools: unitTools * rowQty,
+        unitPrice,
+        totalPrice: unitPrice * rowQty,
+      };
+    });
+
+    const manual = subItems.reduce(
+      (acc, row) => ({
+        totalMh: acc.totalMh + row.totalMh,
+        wages: acc.wages + row.totalWages,
+        materials: acc.materials + row.totalMaterials,
+        subcon: acc.subcon + row.totalSubcon,
+        equip: acc.equip + row.totalEquip,
+        tools: acc.tools + row.totalTools,
+      }),
+      { totalMh: 0, wages: 0, materials: 0, subcon: 0, equip: 0, tools: 0 }
+    );
+
+    const autoQty = parseNumber(autoRowQtyByItemId[itemId] ?? "1");
+    const autoUnitMh = manual.totalMh * percentValue;
+    // Idle time is paid at the average hourly cost of the crews on the item.
+    const crewHourlyRate = manual.totalMh ? manual.wages / manual.totalMh : mpHourlyRateValue;
+    const autoUnitWages = autoUnitMh * crewHourlyRate;
+    const autoUnitEquip = manual.equip * percentValue;
+    const idle: ComputedIdleRow = {
+      label: `${settings.percentage.trim() || "0"}% - ${settings.idleText}`,
+      qty: autoQty,
+      unitMh: autoUnitMh,
+      totalMh: autoUnitMh * autoQty,
+      unitWages: autoUnitWages,
+      totalWages: autoUnitWages * autoQty,
+      unitEquip: autoUnitEquip,
+      totalEquip: autoUnitEquip * autoQty,
+      unitPrice: autoUnitEquip + autoUnitWages,
+      totalPrice: (autoUnitEquip + autoUnitWages) * autoQty,
+    };
+
+    const withIdle = {
+      totalMh: manual.totalMh + idle.totalMh,
+      wages: manual.wages + idle.totalWages,
+      materials: manual.materials,
+      subcon: manual.subcon,
+      equip: manual.equip + idle.totalEquip,
+      tools: manual.tools,
+    };
+
+    let unitMh = qtyValue ? withIdle.totalMh / qtyValue : 0;
+    let unitWages = qtyValue ? withIdle.wages / qtyValue : 0;
+    let unitMaterials = qtyValue ? withIdle.materials / qtyValue : 0;
+    let unitSubcon = qtyValue ? withIdle.subcon / qtyValue : 0;
+    let unitEquip = qtyValue ? withIdle.equip / qtyValue : 0;
+    let unitTools = qtyValue ? withIdle.tools / qtyValue : 0;
+    const subconRate = adjustments?.subconRateByItemId.get(itemId);
+    if (subconRate !== undefined) {
+      // Subcontracted outright: the whole unit cost moves to the subcon column and no own labour is used.
+      unitSubcon = subconRate ?? unitWages + unitMaterials + unitSubcon + unitEquip + unitTools;
+      unitMh = 0;
+      unitWages = 0;
+      unitMaterials = 0;
+      unitEquip = 0;
+      unitTools = 0;
+    }
+    const unitDirect = roundTo2(unitTools + unitEquip + unitSubcon + unitWages + unitMaterials);
+
+    const unitLayers = new Map<string, number>();
+    const sellWages = applySellMarkup(itemId, category, "wages", unitWages, unitLayers);
+    const sellMaterials = applySellMarkup(itemId, category, "materials", unitMaterials, unitLayers);
+    const sellSubcon = applySellMarkup(itemId, category, "subcon", unitSubcon, unitLayers);
+    const sellEquip = applySellMarkup(itemId, category, "equip", unitEquip, unitLayers);
+    const sellOther = applySellMarkup(itemId, category, "other", unitTools, unitLayers);
+    const unitSell = roundTo2(sellWages + sellMaterials + sellSubcon + sellEquip + sellOther);
+
+    return {
+      ...identity,
+      subItems,
+      idle,
+      unitRates: {
+        mh: unitMh,
+        wages: unitWages,
+        materials: unitMaterials,
+        subcon: unitSubcon,
+        equip: unitEquip,
+        tools: unitTools,
+        direct: unitDirect,
+        sellWages,
+        sellMaterials,
+        sellSubcon,
+        sellEquip,
+        sellOther,
+        sell: unitSell,
+      },
+      totals: {
+        totalMh: unitMh * qtyValue,
+        wages: unitWages * qtyValue,
+        materials: unitMaterials * qtyValue,
+        subcon: unitSubcon * qtyValue,
+        equip: unitEquip * qtyValue,
+        tools: unitTools * qtyValue,
+        direct: roundTo2(unitDirect * qtyValue),
+        sellWages: sellWages * qtyValue,
+        sellMaterials: sellMaterials * qtyValue,
+        sellSubcon: sellSubcon * qtyValue,
+        sellEquip: sellEquip * qtyValue,
+        sellOther: sellOther * qtyValue,
+        sell: unitSell * qtyValue,
+      },
+      markups: Array.from(unitLayers.entries()).map(([key, amount]) => ({ key, amount: amount * qtyValue })),
+      mhAdjustments: subconRate !== undefined ? [] : sumMhAdjustments(subItems.flatMap((row) => row.mhAdjustments)),
+    };
+  });
+
+  // "Rate Only" lines are priced per unit but excluded from the summary, matching the page; allowances are
+  // summarised on their own.
+  const categoryMap = new Map<string, ComputedPricingCategory>();
+  const allowanceMap = new Map<BoqItemType, ComputedAllowance>();
+  const totals = emptyTotals();
+  items.forEach((item) => {
+    if (item.isRateOnly) return;
+    if (isAllowanceType(item.itemType)) {
+      const entry = allowanceMap.get(item.itemType) ?? {
+        itemType: item.itemType,
+        label: BOQ_ITEM_TYPE_LABELS[item.itemType],
+        itemCount: 0,
+        direct: 0,
+        sell: 0,
+      };
+      entry.itemCount += 1;
+      entry.direct = roundTo2(entry.direct + item.totals.direct);
+      entry.sell = roundTo2(entry.sell + item.totals.sell);
+      allowanceMap.set(item.itemType, entry);
+      return;
+    }
+    const entry = categoryMap.get(item.category) ?? { category: item.category, itemCount: 0, totals: emptyTotals() };
+    entry.itemCount += 1;
+    addTotals(entry.totals, item.totals);
+    categoryMap.set(item.category, entry);
+    addTotals(totals, item.totals);
+  });
+
+  const layerTotals = new Map<string, number>();
+  items.forEach((item) => {
+    if (item.isRateOnly) return;
+    item.markups.forEach((layer) => layerTotals.set(layer.key, (layerTotals.get(layer.key) ?? 0) + layer.amount));
+  });
+  const markupBreakdown: MarkupBreakdownLine[] = [];
+  markupBreakdownLabels(settings.markups, settings.sellRateFactor).forEach((label, key) => {
+    const amount = layerTotals.get(key);
+    if (amount === undefined) return;
+    markupBreakdown.push({ key, label, amount: roundTo2(amount) });
+  });
+
+  const mhAdjustments = sumMhAdjustments(
+    items.filter((item) => !item.isRateOnly).flatMap((item) => item.mhAdjustments)
+  );
+
+  const allowances = ALLOWANCE_ITEM_TYPES.flatMap((itemType) => allowanceMap.get(itemType) ?? []);
+  const workerHours = workerHoursByMonth(
+    params.productivityRates?.calendar ?? null,
+    parseNumber(settings.projectDuration)
+  ).reduce((sum, hours) => sum + hours, 0);
+  return {
+    settings,
+    items,
+    categories: Array.from(categoryMap.values()),
+    totals,
+    allowances,
+    tenderTotals: {
+      direct: roundTo2(allowances.reduce((sum, entry) => sum + entry.direct, totals.direct)),
+      sell: roundTo2(allowances.reduce((sum, entry) => sum + entry.sell, totals.sell)),
+    },
+    workingDays: workerHours > 0 ? roundTo2(totals.totalMh / workerHours) : 0,
+    markupBreakdown,
+    mhAdjustments,
+  };
+}
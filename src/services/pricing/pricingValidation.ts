@@ -0,0 +1,230 @@
+import type { ProductivityRatesBlock } from "../../modules/storage/productivityRatesModel";
+import type { ComputedPricing, ComputedPricingItem, PricingProductivityRates } from "./pricingEngine";
+import { isAllowanceType, roundTo2 } from "./pricingEngine";
+import { toTradeCodeKey } from "./tradeRates";
+import { resolveUnit } from "./units";
+
+/** An item's sell rate this many times above (or below 1/x of) the median of its unit group is an outlier. */
+const OUTLIER_FACTOR = 3;
+/** Unit groups smaller than this have no meaningful median. */
+const OUTLIER_MIN_GROUP = 5;
+
+export type PricingIssueSeverity = "error" | "warning";
+
+export type PricingIssueRule =
+  | "missing-unit"
+  | "no-subitems"
+  | "subitem-zero-mh"
+  | "subitem-zero-total"
+  | "unit-mismatch"
+  | "thickness-non-volumetric"
+  | "rate-only-qty"
+  | "allowance-zero"
+  | "rate-outlier"
+  | "unknown-trade-code"
+  | "unknown-equipment-code";
+
+export type PricingIssue = {
+  rule: PricingIssueRule;
+  severity: PricingIssueSeverity;
+  itemId: string;
+  itemCode: string;
+  description: string;
+  /** Set when the issue is on one sub-item of the block. */
+  subItemId: string | null;
+  message: string;
+};
+
+export type PricingValidationReport = {
+  checkedItems: number;
+  errors: number;
+  warnings: number;
+  issues: PricingIssue[];
+};
+
+const formatNumber = (value: number): string =>
+  roundTo2(value).toLocaleString("en-US", { maximumFractionDigits: 2 });
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+type ItemIssue = Omit<PricingIssue, "itemId" | "itemCode" | "description">;
+
+function checkItem(item: ComputedPricingItem, push: (issue: ItemIssue) => void) {
+  // Provisional sums, PC sums, daywork and time-related preliminaries have no sub-items, only an amount to carry.
+  if (isAllowanceType(item.itemType)) {
+    if (item.totals.sell === 0) {
+      push({
+        rule: "allowance-zero",
+        severity: "error",
+        subItemId: null,
+        message:
+          item.itemType === "daywork"
+            ? "Daywork item has no hours or no hourly rate, so no amount."
+            : item.itemType === "time_related"
+              ? "Time-related item has no amount; enter its monthly or daily rate, or check the project duration."
+              : "Sum item has no amount; enter the sum or check the BOQ rate.",
+      });
+    }
+    return;
+  }
+  const boqUnit = resolveUnit(item.unit);
+  if (!item.unit.trim()) {
+    push({ rule: "missing-unit", severity: "warning", subItemId: null, message: "BOQ item has no unit." });
+  }
+  if (item.isRateOnly && item.qty !== 0) {
+    push({
+      rule: "rate-only-qty",
+      severity: "warning",
+      subItemId: null,
+      message: `Rate Only item has quantity ${item.qtyDisplay}; it is priced per unit and left out of the totals.`,
+    });
+  }
+  if (item.subItems.length === 0) {
+    push({ rule: "no-subitems", severity: "error", subItemId: null, message: "Item has no sub-items, so no rate." });
+    return;
+  }
+
+  item.subItems.forEach((sub) => {
+    const label = sub.code || sub.description || "Sub-item";
+    const subUnit = resolveUnit(sub.unit);
+    // Rows priced purely as a subcontract carry no own labour.
+    if (sub.unitMh === 0 && sub.unitSubcon === 0) {
+      push({ rule: "subitem-zero-mh", severity: "warning", subItemId: sub.id, message: `${label}: unit MH is zero.` });
+    }
+    if (sub.totalPrice === 0) {
+      push({ rule: "subitem-zero-total", severity: "error", subItemId: sub.id, message: `${label}: total is zero.` });
+    }
+    if (sub.thickness !== null && subUnit.dimension !== "volume") {
+      push({
+        rule: "thickness-non-volumetric",
+        severity: "warning",
+        subItemId: sub.id,
+        message: `${label}: thickness ${sub.thickness} mm is set but the unit "${sub.unit || "—"}" is not a volume.`,
+      });
+    }
+    // Only rows that follow the BOQ quantity must share its unit; rows with their own qty may differ
+    // (e.g. kg of rebar under a m3 of concrete).
+    const followsBoqQty = sub.thickness === null && sub.qty === item.qty;
+    const bothUnitsSet = Boolean(item.unit.trim() && sub.unit.trim());
+    if (sub.productivityId && followsBoqQty && bothUnitsSet && subUnit.dimension !== boqUnit.dimension) {
+      push({
+        rule: "unit-mismatch",
+        severity: "warning",
+        subItemId: sub.id,
+        message: `${label}: productivity unit "${sub.unit}" does not match the BOQ unit "${item.unit}".`,
+      });
+    }
+  });
+}
+
+/** The rates a project was priced from, for checking the codes its linked blocks refer to. */
+type LinkedRates = Pick<PricingProductivityRates, "blocks" | "tradeCosts" | "equipmentCosts">;
+
+/**
+ * Codes in the linked block that the user's own tables do not know. Company library blocks are shared, but
+ * the trade tables and equipment catalogue they are costed from are each user's own, so a code one estimator
+ * set up may be missing for another; the row then quietly falls back to a flat rate.
+ */
+function checkLinkedCodes(
+  item: ComputedPricingItem,
+  blocksById: Map<string, ProductivityRatesBlock>,
+  rates: LinkedRates,
+  push: (issue: ItemIssue) => void
+) {
+  item.subItems.forEach((sub) => {
+    const block = sub.productivityId ? blocksById.get(sub.productivityId) : undefined;
+    if (!block) return;
+    const label = sub.code || sub.description || "Sub-item";
+    const { tradeCosts } = rates;
+    if (tradeCosts) {
+      const unknownTrades = new Set(
+        (block.manpowerRows ?? [])
+          .map((row) => (row.tradeCode ?? "").trim())
+          .filter((code) => code && tradeCosts[toTradeCodeKey(code)] === undefined)
+      );
+      unknownTrades.forEach((code) =>
+        push({
+          rule: "unknown-trade-code",
+          severity: "warning",
+          subItemId: sub.id,
+          message:
+            `${label}: trade code "${code}" is not in the project's trade rates, ` +
+            "so it is costed at the manpower hourly rate.",
+        })
+      );
+    }
+    const equipmentCosts = rates.equipmentCosts ?? {};
+    const unknownEquipment = new Set(
+      (block.equipmentRows ?? [])
+        .map((row) => (row.equipmentCode ?? "").trim())
+        .filter((code) => code && equipmentCosts[code.toLowerCase()] === undefined)
+    );
+    unknownEquipment.forEach((code) =>
+      push({
+        rule: "unknown-equipment-code",
+        severity: "warning",
+        subItemId: sub.id,
+        message:
+          `${label}: equipment code "${code}" is not in your equipment catalogue, ` +
+          "so the rate typed in the block is used.",
+      })
+    );
+  });
+}
+
+/**
+ * Rule-based pre-submission checks over a priced project. Errors leave an item without a usable rate;
+ * warnings are worth a look before the bid goes out.
+ */
+export function validatePricing(pricing: ComputedPricing, rates?: LinkedRates | null): PricingValidationReport {
+  const issues: PricingIssue[] = [];
+  const blocksById = new Map((rates?.blocks ?? []).map((block) => [block.id, block]));
+  pricing.items.forEach((item) => {
+    const push = (issue: ItemIssue) =>
+      issues.push({ ...issue, itemId: item.itemId, itemCode: item.itemCode, description: item.description });
+    checkItem(item, push);
+    if (rates) checkLinkedCodes(item, blocksById, rates, push);
+  });
+
+  // Outliers are judged per unit, since a rate per m3 and a rate per m2 are not comparable.
+  const byUnit = new Map<string, ComputedPricingItem[]>();
+  pricing.items.forEach((item) => {
+    if (!(item.unitRates.sell > 0) || isAllowanceType(item.itemType)) return;
+    const key = resolveUnit(item.unit).dimension;
+    byUnit.set(key, [...(byUnit.get(key) ?? []), item]);
+  });
+  byUnit.forEach((group) => {
+    if (group.length < OUTLIER_MIN_GROUP) return;
+    const groupMedian = median(group.map((item) => item.unitRates.sell / resolveUnit(item.unit).factor));
+    group.forEach((item) => {
+      const rate = item.unitRates.sell / resolveUnit(item.unit).factor;
+      if (rate <= groupMedian * OUTLIER_FACTOR && rate >= groupMedian / OUTLIER_FACTOR) return;
+      const medianInUnit = formatNumber(groupMedian * resolveUnit(item.unit).factor);
+      const direction = rate > groupMedian ? "above" : "below";
+      issues.push({
+        rule: "rate-outlier",
+        severity: "warning",
+        itemId: item.itemId,
+        itemCode: item.itemCode,
+        description: item.description,
+        subItemId: null,
+        message:
+          `Sell rate ${formatNumber(item.unitRates.sell)} is far ${direction} the project median of ` +
+          `${medianInUnit} per ${item.unit} (${group.length} items).`,
+      });
+    });
+  });
+
+  const order = new Map(pricing.items.map((item, index) => [item.itemId, index]));
+  issues.sort((a, b) => (order.get(a.itemId) ?? 0) - (order.get(b.itemId) ?? 0));
+  return {
+    checkedItems: pricing.items.length,
+    errors: issues.filter((issue) => issue.severity === "error").length,
+    warnings: issues.filter((issue) => issue.severity === "warning").length,
+    issues,
+  };
+}
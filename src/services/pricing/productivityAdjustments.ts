@@ -0,0 +1,63 @@
+export const PRODUCTIVITY_ADJUSTMENT_CATEGORIES = [
+  "height",
+  "congestion",
+  "working_hours",
+  "climate",
+  "learning_curve",
+  "other",
+] as const;
+
+export type ProductivityAdjustmentCategory = (typeof PRODUCTIVITY_ADJUSTMENT_CATEGORIES)[number];
+
+/**
+ * A named change to the library man-hours of one project, e.g. +15% for a congested city-centre site. Stored
+ * with the project's pricing and applied by the pricing engine to the manpower rows in scope.
+ */
+export type ProductivityAdjustment = {
+  id: string;
+  name: string;
+  category: ProductivityAdjustmentCategory;
+  /** Percent added to the man-hours in scope; negative when crews beat the library rate. */
+  percent: string;
+  /** Trade codes of the manpower rows it applies to; empty for every trade. */
+  tradeCodes: string[];
+  /** Productivity block codes it applies to; empty for every block. */
+  blockCodes: string[];
+};
+
+const toText = (value: unknown): string => (value === null || value === undefined ? "" : String(value).trim());
+
+const toCodes = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+  const codes = value.map(toText).filter(Boolean);
+  return codes.filter((code, index) => codes.findIndex((other) => other.toLowerCase() === code.toLowerCase()) === index);
+};
+
+/** Drops malformed entries from a stored adjustment list. */
+export function normalizeProductivityAdjustments(value: unknown): ProductivityAdjustment[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === "object")
+    .map((entry) => {
+      const category = toText(entry.category) as ProductivityAdjustmentCategory;
+      return {
+        id: toText(entry.id),
+        name: toText(entry.name),
+        category: PRODUCTIVITY_ADJUSTMENT_CATEGORIES.includes(category) ? category : "other",
+        percent: toText(entry.percent),
+        tradeCodes: toCodes(entry.tradeCodes),
+        blockCodes: toCodes(entry.blockCodes),
+      };
+    })
+    .filter((adjustment) => adjustment.id && adjustment.name);
+}
+
+/**
+ * Whether an adjustment covers a manpower row of a block. Trade and block scopes must both match; an empty
+ * scope matches everything.
+ */
+export function adjustmentApplies(adjustment: ProductivityAdjustment, blockCode: string, tradeCode: string): boolean {
+  const matches = (codes: string[], code: string) =>
+    codes.length === 0 || codes.some((entry) => entry.toLowerCase() === code.trim().toLowerCase());
+  return matches(adjustment.blockCodes, blockCode) && matches(adjustment.tradeCodes, tradeCode);
+}
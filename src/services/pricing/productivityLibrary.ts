@@ -0,0 +1,117 @@
+import type { ProductivityRatesBlock } from "../../modules/storage/productivityRatesModel";
+import type {
+  LibraryBlockChange,
+  LibraryChangeAction,
+  ProductivityLibraryVersionDocument,
+} from "../../modules/storage/productivityLibraryModel";
+
+const codeKey = (code: string): string => code.trim().toLowerCase();
+
+/** Block content without the generated ids, which differ between copies of the same rates. */
+const blockContent = (block: ProductivityRatesBlock): string =>
+  JSON.stringify({
+    code: block.code,
+    description: block.description,
+    unit: block.unit,
+    hoursPerDay: block.hoursPerDay,
+    dailyProductivity: block.dailyProductivity,
+    manpowerMh: block.manpowerMh ?? "",
+    manpowerRate: block.manpowerRate ?? "",
+    materialCode: block.materialCode ?? "",
+    materialQty: block.materialQty ?? "",
+    manpowerRows: block.manpowerRows.map((row) => [row.label, row.quantity, row.tradeCode ?? ""]),
+    equipmentRows: block.equipmentRows.map((row) => [
+      row.label,
+      row.quantity,
+      row.hourlyRate ?? "",
+      row.hoursPerDay,
+      row.dailyProductivity,
+      row.mh ?? "",
+      row.rate ?? "",
+      row.equipmentCode ?? "",
+    ]),
+  });
+
+/**
+ * Changes that turn the library's blocks into `next`, matched by code. With `codes`, only those blocks are
+ * compared, so an estimator can propose part of their rates; blocks without a code cannot be proposed.
+ */
+export function diffLibraryBlocks(
+  library: ProductivityRatesBlock[],
+  next: ProductivityRatesBlock[],
+  codes?: string[]
+): LibraryBlockChange[] {
+  const only = codes ? new Set(codes.map(codeKey)) : null;
+  const included = (code: string) => Boolean(code.trim()) && (!only || only.has(codeKey(code)));
+  const libraryByCode = new Map(library.map((block) => [codeKey(block.code), block]));
+  const nextCodes = new Set(next.map((block) => codeKey(block.code)));
+
+  const changes: LibraryBlockChange[] = [];
+  next.forEach((block) => {
+    if (!included(block.code)) return;
+    const current = libraryByCode.get(codeKey(block.code));
+    if (!current) {
+      changes.push({ code: block.code, action: "added", block });
+    } else if (blockContent(current) !== blockContent(block)) {
+      changes.push({ code: block.code, action: "updated", block });
+    }
+  });
+  library.forEach((block) => {
+    if (included(block.code) && !nextCodes.has(codeKey(block.code))) {
+      changes.push({ code: block.code, action: "removed", block: null });
+    }
+  });
+  return changes;
+}
+
+/** The library's blocks with the changes applied: updates keep their place, additions go at the end. */
+export function applyLibraryChanges(
+  library: ProductivityRatesBlock[],
+  changes: LibraryBlockChange[]
+): ProductivityRatesBlock[] {
+  const byCode = new Map(changes.map((change) => [codeKey(change.code), change]));
+  const seen = new Set<string>();
+  const blocks = library.flatMap((block) => {
+    const change = byCode.get(codeKey(block.code));
+    seen.add(codeKey(block.code));
+    if (!change) return [block];
+    return change.block ? [change.block] : [];
+  });
+  changes.forEach((change) => {
+    if (change.block && !seen.has(codeKey(change.code))) blocks.push(change.block);
+  });
+  return blocks;
+}
+
+export type BlockChangeLogEntry = {
+  version: number;
+  action: LibraryChangeAction;
+  note: string;
+  proposedByName: string;
+  publishedByName: string;
+  publishedAt: Date;
+  block: ProductivityRatesBlock | null;
+};
+
+/** Every published change to one block code, newest first. */
+export function buildBlockChangeLog(
+  versions: Pick<ProductivityLibraryVersionDocument, "version" | "changes" | "note" | "proposedByName" | "publishedByName" | "createdAt">[],
+  code: string
+): BlockChangeLogEntry[] {
+  const key = codeKey(code);
+  return versions
+    .flatMap((version) =>
+      version.changes
+        .filter((change) => codeKey(change.code) === key)
+        .map((change) => ({
+          version: version.version,
+          action: change.action,
+          note: version.note,
+          proposedByName: version.proposedByName,
+          publishedByName: version.publishedByName,
+          publishedAt: version.createdAt,
+          block: change.block,
+        }))
+    )
+    .sort((a, b) => b.version - a.version);
+}
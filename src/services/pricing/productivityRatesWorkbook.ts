@@ -0,0 +1,259 @@
+import xlsx from "xlsx";
+import { randomUUID } from "crypto";
+import type {
+  ProductivityRatesBlock,
+  ProductivityRatesEquipmentRow,
+  ProductivityRatesManpowerRow,
+} from "../../modules/storage/productivityRatesModel";
+
+/**
+ * Layout of the Excel library: one row per block on "Blocks", and its crew and plant on "Manpower" and
+ * "Equipment", linked back by the block code. Values are written as text so a round trip keeps them as typed.
+ */
+const SHEETS = { settings: "Settings", blocks: "Blocks", manpower: "Manpower", equipment: "Equipment" } as const;
+
+/** Optional columns may be left out of an imported sheet; the ID column always is. */
+type Column<T> = { key: keyof T & string; header: string; numeric?: boolean; optional?: boolean };
+
+const BLOCK_COLUMNS: Column<ProductivityRatesBlock>[] = [
+  { key: "code", header: "Code" },
+  { key: "description", header: "Description" },
+  { key: "unit", header: "Unit" },
+  { key: "hoursPerDay", header: "Hours/Day", numeric: true },
+  { key: "dailyProductivity", header: "Daily Productivity", numeric: true },
+  { key: "manpowerMh", header: "Manpower MH", numeric: true },
+  { key: "manpowerRate", header: "Manpower Rate", numeric: true },
+  { key: "materialCode", header: "Material Code" },
+  { key: "materialQty", header: "Material Qty", numeric: true },
+  { key: "id", header: "ID" },
+];
+
+const MANPOWER_COLUMNS: Column<ProductivityRatesManpowerRow>[] = [
+  { key: "label", header: "Trade" },
+  { key: "quantity", header: "Quantity", numeric: true },
+  { key: "tradeCode", header: "Trade Code", optional: true },
+  { key: "id", header: "ID" },
+];
+
+const EQUIPMENT_COLUMNS: Column<ProductivityRatesEquipmentRow>[] = [
+  { key: "label", header: "Equipment" },
+  { key: "quantity", header: "Quantity", numeric: true },
+  { key: "hourlyRate", header: "Hourly Rate", numeric: true },
+  { key: "hoursPerDay", header: "Hours/Day", numeric: true },
+  { key: "dailyProductivity", header: "Daily Productivity", numeric: true },
+  { key: "mh", header: "MH", numeric: true },
+  { key: "rate", header: "Rate", numeric: true },
+  { key: "equipmentCode", header: "Equipment Code", optional: true },
+  { key: "id", header: "ID" },
+];
+
+const BLOCK_CODE_HEADER = "Block Code";
+const FACTOR_LABEL = "Manpower Hourly Rate";
+
+export type ProductivityRatesRowError = {
+  sheet: string;
+  /** 1-based row number as Excel shows it. */
+  row: number;
+  message: string;
+};
+
+export type ParsedProductivityRatesWorkbook = {
+  /** Null when the workbook has no Settings sheet, so the caller keeps the current factor. */
+  factor: string | null;
+  blocks: ProductivityRatesBlock[];
+  errors: ProductivityRatesRowError[];
+};
+
+const toText = (value: unknown): string => (value === null || value === undefined ? "" : String(value).trim());
+
+const normalizeHeader = (value: unknown): string => toText(value).replace(/\s+/g, " ").toLowerCase();
+
+const isNumericText = (value: string): boolean => value === "" || Number.isFinite(Number(value.replace(/,/g, "")));
+
+/** Writes the user's library in the import layout. */
+export function buildProductivityRatesWorkbook(factor: string, blocks: ProductivityRatesBlock[]): Buffer {
+  const workbook = xlsx.utils.book_new();
+  const sheet = (rows: string[][]) => xlsx.utils.aoa_to_sheet(rows);
+  xlsx.utils.book_append_sheet(workbook, sheet([["Setting", "Value"], [FACTOR_LABEL, factor]]), SHEETS.settings);
+  xlsx.utils.book_append_sheet(
+    workbook,
+    sheet([
+      BLOCK_COLUMNS.map((column) => column.header),
+      ...blocks.map((block) => BLOCK_COLUMNS.map((column) => toText(block[column.key]))),
+    ]),
+    SHEETS.blocks
+  );
+  xlsx.utils.book_append_sheet(
+    workbook,
+    sheet([
+      [BLOCK_CODE_HEADER, ...MANPOWER_COLUMNS.map((column) => column.header)],
+      ...blocks.flatMap((block) =>
+        block.manpowerRows.map((row) => [block.code, ...MANPOWER_COLUMNS.map((column) => toText(row[column.key]))])
+      ),
+    ]),
+    SHEETS.manpower
+  );
+  xlsx.utils.book_append_sheet(
+    workbook,
+    sheet([
+      [BLOCK_CODE_HEADER, ...EQUIPMENT_COLUMNS.map((column) => column.header)],
+      ...blocks.flatMap((block) =>
+        block.equipmentRows.map((row) => [block.code, ...EQUIPMENT_COLUMNS.map((column) => toText(row[column.key]))])
+      ),
+    ]),
+    SHEETS.equipment
+  );
+  return xlsx.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+}
+
+/**
+ * Reads one sheet from its header row (the first row) into records keyed by column, with the Excel row number.
+ * Blank rows are dropped. A missing sheet reads as no rows, so a library without plant can leave "Equipment" out.
+ */
+function readSheet<T>(
+  workbook: xlsx.WorkBook,
+  sheetName: string,
+  columns: Column<T>[],
+  errors: ProductivityRatesRowError[],
+  extraHeaders: string[] = []
+): Array<{ row: number; values: Record<string, string> }> {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) return [];
+  const rows = xlsx.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: "", blankrows: true });
+  const headers = (rows[0] ?? []).map(normalizeHeader);
+  const wanted = [...extraHeaders.map((header) => ({ key: header, header })), ...columns];
+  const indexes = wanted.map((column) => headers.indexOf(column.header.toLowerCase()));
+  const missing = wanted.filter(
+    (column, index) => indexes[index] < 0 && column.key !== "id" && !("optional" in column && column.optional)
+  );
+  if (missing.length > 0) {
+    errors.push({
+      sheet: sheetName,
+      row: 1,
+      message: `Missing column${missing.length === 1 ? "" : "s"} ${missing.map((column) => `"${column.header}"`).join(", ")}`,
+    });
+    return [];
+  }
+  return rows
+    .slice(1)
+    .map((cells, offset) => ({
+      row: offset + 2,
+      values: Object.fromEntries(
+        wanted.map((column, index) => [column.key, indexes[index] >= 0 ? toText(cells[indexes[index]]) : ""])
+      ),
+    }))
+    .filter((entry) => Object.values(entry.values).some((value) => value !== ""));
+}
+
+function checkNumbers<T>(
+  sheetName: string,
+  row: number,
+  values: Record<string, string>,
+  columns: Column<T>[],
+  errors: ProductivityRatesRowError[]
+): void {
+  columns
+    .filter((column) => column.numeric && !isNumericText(values[column.key]))
+    .forEach((column) =>
+      errors.push({ sheet: sheetName, row, message: `${column.header} "${values[column.key]}" is not a number` })
+    );
+}
+
+/**
+ * Reads a workbook in the export layout. Every row is checked, and all problems are returned together
+ * with their sheet and row so the file can be fixed in one pass. The blocks are only usable when there are
+ * no errors. Blank IDs get new ones, and blank equipment hours and productivity take the block's values,
+ * as the JSON import does.
+ */
+export function parseProductivityRatesWorkbook(buffer: Buffer): ParsedProductivityRatesWorkbook {
+  const workbook = xlsx.read(buffer, { type: "buffer" });
+  if (!workbook.Sheets[SHEETS.blocks]) {
+    throw new Error(`The workbook has no "${SHEETS.blocks}" sheet; export the library to get the template`);
+  }
+  const errors: ProductivityRatesRowError[] = [];
+
+  let factor: string | null = null;
+  const settings = workbook.Sheets[SHEETS.settings];
+  if (settings) {
+    const rows = xlsx.utils.sheet_to_json<unknown[]>(settings, { header: 1, defval: "" });
+    const index = rows.findIndex((cells) => normalizeHeader(cells[0]) === FACTOR_LABEL.toLowerCase());
+    if (index >= 0) {
+      factor = toText(rows[index][1]);
+      if (!isNumericText(factor)) {
+        errors.push({ sheet: SHEETS.settings, row: index + 1, message: `${FACTOR_LABEL} "${factor}" is not a number` });
+      }
+    }
+  }
+
+  const blocks: ProductivityRatesBlock[] = [];
+  const blocksByCode = new Map<string, ProductivityRatesBlock>();
+  readSheet(workbook, SHEETS.blocks, BLOCK_COLUMNS, errors).forEach(({ row, values }) => {
+    checkNumbers(SHEETS.blocks, row, values, BLOCK_COLUMNS, errors);
+    if (!values.code) {
+      errors.push({ sheet: SHEETS.blocks, row, message: "Code is required" });
+      return;
+    }
+    const codeKey = values.code.toLowerCase();
+    if (blocksByCode.has(codeKey)) {
+      errors.push({ sheet: SHEETS.blocks, row, message: `Code "${values.code}" is used by an earlier block` });
+      return;
+    }
+    const block: ProductivityRatesBlock = {
+      id: values.id || randomUUID(),
+      code: values.code,
+      description: values.description,
+      unit: values.unit,
+      hoursPerDay: values.hoursPerDay,
+      dailyProductivity: values.dailyProductivity,
+      manpowerRows: [],
+      equipmentRows: [],
+      manpowerMh: values.manpowerMh,
+      manpowerRate: values.manpowerRate,
+      materialCode: values.materialCode,
+      materialQty: values.materialQty,
+    };
+    blocks.push(block);
+    blocksByCode.set(codeKey, block);
+  });
+
+  const findBlock = (sheetName: string, row: number, code: string): ProductivityRatesBlock | null => {
+    const block = blocksByCode.get(code.toLowerCase());
+    if (!block) {
+      errors.push({
+        sheet: sheetName,
+        row,
+        message: code ? `Block code "${code}" is not on the ${SHEETS.blocks} sheet` : `${BLOCK_CODE_HEADER} is required`,
+      });
+    }
+    return block ?? null;
+  };
+
+  readSheet(workbook, SHEETS.manpower, MANPOWER_COLUMNS, errors, [BLOCK_CODE_HEADER]).forEach(({ row, values }) => {
+    checkNumbers(SHEETS.manpower, row, values, MANPOWER_COLUMNS, errors);
+    const block = findBlock(SHEETS.manpower, row, values[BLOCK_CODE_HEADER]);
+    block?.manpowerRows.push({
+      id: values.id || randomUUID(),
+      label: values.label,
+      quantity: values.quantity,
+      tradeCode: values.tradeCode,
+    });
+  });
+
+  readSheet(workbook, SHEETS.equipment, EQUIPMENT_COLUMNS, errors, [BLOCK_CODE_HEADER]).forEach(({ row, values }) => {
+    checkNumbers(SHEETS.equipment, row, values, EQUIPMENT_COLUMNS, errors);
+    const block = findBlock(SHEETS.equipment, row, values[BLOCK_CODE_HEADER]);
+    block?.equipmentRows.push({
+      id: values.id || randomUUID(),
+      label: values.label,
+      quantity: values.quantity,
+      hourlyRate: values.hourlyRate,
+      hoursPerDay: values.hoursPerDay || block.hoursPerDay,
+      dailyProductivity: values.dailyProductivity || block.dailyProductivity,
+      mh: values.mh,
+      rate: values.rate,
+      equipmentCode: values.equipmentCode,
+    });
+  });
+
+  return { factor, blocks, errors };
+}
@@ -0,0 +1,538 @@
+import { listProjectItems } from "../../modules/storage/projectItemRepository";
+import { getPricing, updatePricingItemReviews } from "../../modules/storage/pricingRepository";
+import {
+  findProjectById,
+  listProjects,
+  updateProjectStatus,
+  updateProjectSubmittedAt,
+} from "../../modules/storage/projectRepository";
+import { createProjectLog } from "../../modules/storage/projectLogRepository";
+import { getProductivityRates } from "../../modules/storage/productivityRatesRepository";
+import type { ProductivityRatesBlock } from "../../modules/storage/productivityRatesModel";
+import { findLibraryVersion } from "../../modules/storage/productivityLibraryRepository";
+import { getTradeRates } from "../../modules/storage/tradeRatesRepository";
+import { listEquipment } from "../../modules/storage/equipmentRepository";
+import { listPricedItemRates, replacePricedItemRates } from "../../modules/storage/pricedItemRateRepository";
+import type { PricingDocument } from "../../modules/storage/pricingModel";
+import type { ProjectFileDocument } from "../../modules/storage/projectFileModel";
+import type { ProjectStatus, TenderDetails } from "../../modules/storage/projectModel";
+import { buildPricedBoqWorkbook, PricedBoqLine, PricedBoqResult } from "../boq/boqPricedExport";
+import {
+  computePricing,
+  ComputedPricing,
+  ComputedPricingItem,
+  getBoqFieldValue,
+  parseNumber,
+  PricingRecord,
+  roundTo2,
+} from "./pricingEngine";
+import { buildTenderPackPdf } from "./tenderPack";
+import { diffPricing, PricingDiff } from "./pricingDiff";
+import { buildManpowerHistogram, ManpowerHistogram } from "./manpowerHistogram";
+import { buildMaterialTakeoff, MaterialTakeoff } from "./materialTakeoff";
+import { compareScenarios, normalizeScenarios, ScenarioComparison } from "./scenarios";
+import { PricingValidationReport, validatePricing } from "./pricingValidation";
+import { benchmarkUnitRate, BenchmarkSource, UnitRateBenchmark } from "./unitRateBenchmark";
+import { resolveUnit } from "./units";
+import { LumpSumSpread, LumpSumSpreadLine, normalizeLumpSum, spreadLumpSum } from "./lumpSum";
+import { buildCashFlowForecast, CashFlowForecast, normalizeCashFlowTerms } from "./cashFlow";
+import {
+  buildReviewSummary,
+  deriveReviewProjectStatus,
+  normalizeItemReview,
+  resetItemReview,
+  ReviewStatus,
+  ReviewSummary,
+} from "./reviewWorkflow";
+import { buildTradeHourlyCosts, TradeHourlyCosts } from "./tradeRates";
+import { buildEquipmentHourlyCosts, EquipmentHourlyCosts } from "./equipmentCatalogue";
+import { normalizeProductivityAdjustments, ProductivityAdjustment } from "./productivityAdjustments";
+import { buildNationalisationReport, NationalisationReport, normalizeManpowerMix, saudiShareOf } from "./manpowerMix";
+import {
+  averageWorkingDaysPerMonth,
+  normalizeWorkingCalendar,
+  WorkingCalendar,
+  workerHoursByMonth,
+  workerHoursPerYear,
+} from "./workingCalendar";
+
+export type ProjectProductivityRates = {
+  factor: string;
+  blocks: ProductivityRatesBlock[];
+  /** Company library version the rates come from; null for the user's own rates. */
+  libraryVersion: number | null;
+  /** Location whose trade table prices the crews; null when the project has none or it was deleted. */
+  tradeLocation: string | null;
+  tradeCosts: TradeHourlyCosts | null;
+  /**
+   * Hourly cost of every equipment catalogue entry, for the equipment rows linked to it; monthly rates are
+   * spread over the project's working calendar.
+   */
+  equipmentCosts: EquipmentHourlyCosts;
+  /** The project's productivity adjustment factors, applied on top of the library man-hours. */
+  adjustments: ProductivityAdjustment[];
+  /** The project's working calendar; null for the flat working month. */
+  calendar: WorkingCalendar | null;
+};
+
+type ProjectRatesSelection = Partial<
+  Pick<
+    PricingDocument,
+    | "libraryVersion"
+    | "tradeLocation"
+    | "productivityAdjustments"
+    | "workingCalendar"
+    | "projectDuration"
+    | "manpowerMix"
+  >
+> | null;
+
+/**
+ * Productivity rates of the company library version a project is pinned to, or the user's own rates when it
+ * is not pinned (or the version cannot be found), with the trade costs of the project's location at its
+ * manpower mix, the user's equipment catalogue and the project's adjustment factors and working calendar.
+ */
+async function loadProductivityRates(
+  userId: string,
+  selection: ProjectRatesSelection
+): Promise<ProjectProductivityRates | null> {
+  const libraryVersion = selection?.libraryVersion;
+  const [version, trades, equipment] = await Promise.all([
+    typeof libraryVersion === "number" ? findLibraryVersion(libraryVersion) : null,
+    selection?.tradeLocation ? getTradeRates(userId, selection.tradeLocation) : null,
+    listEquipment(userId),
+  ]);
+  const calendar = normalizeWorkingCalendar(selection?.workingCalendar);
+  const mix = normalizeManpowerMix(selection?.manpowerMix);
+  const duration = parseNumber(selection?.projectDuration);
+  const workingDaysPerMonth = averageWorkingDaysPerMonth(calendar, duration);
+  const hoursPerYear = workerHoursPerYear(calendar, duration);
+  const costs = {
+    tradeLocation: trades?.location ?? null,
+    tradeCosts: trades
+      ? buildTradeHourlyCosts(trades.trades, (code) => saudiShareOf(mix, code), hoursPerYear ?? undefined)
+      : null,
+    equipmentCosts: buildEquipmentHourlyCosts(equipment, workingDaysPerMonth ?? undefined),
+    adjustments: normalizeProductivityAdjustments(selection?.productivityAdjustments),
+    calendar,
+  };
+  if (version) {
+    return { factor: version.factor, blocks: version.blocks, libraryVersion: version.version, ...costs };
+  }
+  const own = await getProductivityRates(userId);
+  return own ? { factor: own.factor, blocks: own.blocks, libraryVersion: null, ...costs } : null;
+}
+
+/** The productivity rates a project is priced with (see loadProductivityRates). */
+export async function getProjectProductivityRates(
+  userId: string,
+  projectId: string
+): Promise<ProjectProductivityRates | null> {
+  return loadProductivityRates(userId, await getPricing(userId, projectId));
+}
+
+/** A project's BOQ items and stored pricing, with the productivity rates that pricing selects. */
+async function loadProjectPricingInputs(userId: string, projectId: string) {
+  const [items, pricing] = await Promise.all([listProjectItems(userId, projectId), getPricing(userId, projectId)]);
+  return { items, pricing, productivityRates: await loadProductivityRates(userId, pricing) };
+}
+
+/** Loads a project's BOQ items, pricing and productivity library and runs the pricing engine. */
+export async function computeProjectPricing(userId: string, projectId: string): Promise<ComputedPricing> {
+  const { items, pricing, productivityRates } = await loadProjectPricingInputs(userId, projectId);
+  return computePricing({ items, pricing, productivityRates });
+}
+
+/** Diffs two pricing snapshots of a project against its current BOQ items and productivity library. */
+export async function diffProjectPricing(
+  userId: string,
+  projectId: string,
+  from: PricingRecord,
+  to: PricingRecord
+): Promise<PricingDiff> {
+  const [items, productivityRates] = await Promise.all([
+    listProjectItems(userId, projectId),
+    getProjectProductivityRates(userId, projectId),
+  ]);
+  return diffPricing({ items, productivityRates, from, to });
+}
+
+/**
+ * Lines of the top-down spread by item id for a lump-sum project with a lump sum entered, whose tendered
+ * rates they are; null otherwise, when the bottom-up rates are tendered.
+ */
+function lumpSumLinesById(
+  project: { projectType?: string } | null,
+  pricing: Pick<PricingDocument, "lumpSum"> | null,
+  computed: ComputedPricing
+): Map<string, LumpSumSpreadLine> | null {
+  const breakdown = normalizeLumpSum(pricing?.lumpSum);
+  if (project?.projectType !== "lump_sum" || !(Number(breakdown.amount) > 0)) return null;
+  return new Map(spreadLumpSum({ breakdown, pricing: computed }).lines.map((line) => [line.itemId, line]));
+}
+
+/**
+ * Prices the project and writes the sell rates into the rows of one of its BOQ workbooks. A lump-sum project
+ * with a lump sum entered gets the rates of its top-down spread instead.
+ */
+export async function exportPricedBoq(
+  userId: string,
+  projectId: string,
+  file: Pick<ProjectFileDocument, "_id" | "storedPath" | "originalName">
+): Promise<PricedBoqResult> {
+  const [{ items, pricing, productivityRates }, project] = await Promise.all([
+    loadProjectPricingInputs(userId, projectId),
+    findProjectById(userId, projectId),
+  ]);
+  const computed = computePricing({ items, pricing, productivityRates });
+  const computedById = new Map(computed.items.map((item) => [item.itemId, item]));
+  const spreadById = lumpSumLinesById(project, pricing, computed);
+  const lines: PricedBoqLine[] = [];
+  items.forEach((item) => {
+    if (String(item.fileId) !== String(file._id)) return;
+    const priced = computedById.get(String(item._id));
+    const sheetName = item.metadata?.sheetName;
+    const rowIndex = item.metadata?.rowIndex;
+    if (!priced || !sheetName || typeof rowIndex !== "number") return;
+    const spread = spreadById?.get(priced.itemId);
+    lines.push({
+      itemCode: priced.itemCode,
+      sheetName,
+      rowIndex,
+      rate: spread ? spread.rate : priced.unitRates.sell,
+      amount: priced.isRateOnly ? null : roundTo2(spread ? spread.amount : priced.totals.sell),
+    });
+  });
+  return buildPricedBoqWorkbook({ filePath: file.storedPath, fileName: file.originalName, lines });
+}
+
+/**
+ * Renders the tender pack PDF from the project's stored pricing; a lump-sum project tenders the rates of its
+ * top-down spread, as in the priced BOQ export.
+ */
+export async function exportTenderPack(
+  userId: string,
+  projectId: string,
+  projectName: string,
+  details: TenderDetails
+): Promise<Buffer> {
+  const [{ items, pricing, productivityRates }, project] = await Promise.all([
+    loadProjectPricingInputs(userId, projectId),
+    findProjectById(userId, projectId),
+  ]);
+  const computed = computePricing({ items, pricing, productivityRates });
+  return buildTenderPackPdf({
+    projectName,
+    details,
+    pricing: computed,
+    spreadById: lumpSumLinesById(project, pricing, computed),
+  });
+}
+
+/** Spreads the project's priced man-hours over its duration as headcount per trade per month. */
+export async function computeManpowerHistogram(
+  userId: string,
+  projectId: string
+): Promise<ManpowerHistogram | null> {
+  const { items, pricing, productivityRates } = await loadProjectPricingInputs(userId, projectId);
+  const computed = computePricing({ items, pricing, productivityRates });
+  return buildManpowerHistogram({
+    pricing: computed,
+    blocks: productivityRates?.blocks ?? [],
+    calendar: productivityRates?.calendar ?? null,
+  });
+}
+
+/** Consolidated material list for the project, with its saved waste factors applied. */
+export async function computeMaterialTakeoff(userId: string, projectId: string): Promise<MaterialTakeoff> {
+  const { items, pricing, productivityRates } = await loadProjectPricingInputs(userId, projectId);
+  const computed = computePricing({ items, pricing, productivityRates });
+  return buildMaterialTakeoff({
+    pricing: computed,
+    blocks: productivityRates?.blocks ?? [],
+    defaultWastePercent: pricing?.materialWastePercent ?? "5",
+    wasteFactors: pricing?.materialWasteFactors ?? [],
+  });
+}
+
+/** Base pricing and every stored scenario of the project, priced side by side. */
+export async function compareProjectScenarios(userId: string, projectId: string): Promise<ScenarioComparison> {
+  const { items, pricing, productivityRates } = await loadProjectPricingInputs(userId, projectId);
+  return compareScenarios({ items, pricing, productivityRates, scenarios: normalizeScenarios(pricing?.scenarios) });
+}
+
+/** The project's lump sum spread over its BOQ through the stored trade packages. */
+export async function computeLumpSumSpread(userId: string, projectId: string): Promise<LumpSumSpread> {
+  const { items, pricing, productivityRates } = await loadProjectPricingInputs(userId, projectId);
+  const computed = computePricing({ items, pricing, productivityRates });
+  return spreadLumpSum({ breakdown: normalizeLumpSum(pricing?.lumpSum), pricing: computed });
+}
+
+/**
+ * Monthly cash-flow forecast from the priced totals and the stored payment terms. A lump-sum project with a
+ * lump sum entered is paid that sum rather than its bottom-up price. Null when the project has no duration.
+ */
+export async function computeCashFlow(userId: string, projectId: string): Promise<CashFlowForecast | null> {
+  const [{ items, pricing, productivityRates }, project] = await Promise.all([
+    loadProjectPricingInputs(userId, projectId),
+    findProjectById(userId, projectId),
+  ]);
+  const computed = computePricing({ items, pricing, productivityRates });
+  const lumpSum = Number(normalizeLumpSum(pricing?.lumpSum).amount);
+  const projectDuration = parseNumber(computed.settings.projectDuration);
+  return buildCashFlowForecast({
+    contractSum:
+      project?.projectType === "lump_sum" && lumpSum > 0
+        ? lumpSum + computed.tenderTotals.sell - computed.totals.sell
+        : computed.tenderTotals.sell,
+    directCost: computed.tenderTotals.direct,
+    projectDuration,
+    terms: normalizeCashFlowTerms(pricing?.cashFlowTerms),
+    monthHours: workerHoursByMonth(productivityRates?.calendar ?? null, projectDuration),
+  });
+}
+
+/**
+ * Saudi share and nationalisation cost of the project's priced manpower, for the trades of its location with
+ * Saudi and expatriate pay; null when the project is not priced at a location.
+ */
+export async function computeNationalisation(userId: string, projectId: string): Promise<NationalisationReport | null> {
+  const { items, pricing, productivityRates } = await loadProjectPricingInputs(userId, projectId);
+  const table = productivityRates?.tradeLocation ? await getTradeRates(userId, productivityRates.tradeLocation) : null;
+  if (!productivityRates || !table) return null;
+  return buildNationalisationReport({
+    pricing: computePricing({ items, pricing, productivityRates }),
+    blocks: productivityRates.blocks,
+    adjustments: productivityRates.adjustments,
+    trades: table.trades,
+    mix: normalizeManpowerMix(pricing?.manpowerMix),
+    hoursPerYear: workerHoursPerYear(productivityRates.calendar, parseNumber(pricing?.projectDuration)) ?? undefined,
+  });
+}
+
+/**
+ * Review state of each of the project's priced items, with the project's current status and the actions
+ * `viewerId` (the owner, `userId`, unless a reviewer is looking) may take on each.
+ */
+export async function computeReviewSummary(
+  userId: string,
+  projectId: string,
+  viewerId = userId
+): Promise<ReviewSummary | null> {
+  const [{ items, pricing, productivityRates }, project] = await Promise.all([
+    loadProjectPricingInputs(userId, projectId),
+    findProjectById(userId, projectId),
+  ]);
+  if (!project) return null;
+  return buildReviewSummary({
+    pricing: computePricing({ items, pricing, productivityRates }),
+    reviewByItemId: (pricing?.reviewByItemId ?? {}) as Record<string, unknown>,
+    projectStatus: project.status,
+    ownerId: userId,
+    viewerId,
+  });
+}
+
+/**
+ * Status the project's item reviews put it at, for when extraction stops overriding it: submitted bids stay
+ * submitted while every item is still approved.
+ */
+export async function computeReviewProjectStatus(userId: string, projectId: string): Promise<ProjectStatus | null> {
+  const [{ items, pricing, productivityRates }, project] = await Promise.all([
+    loadProjectPricingInputs(userId, projectId),
+    findProjectById(userId, projectId),
+  ]);
+  if (!project) return null;
+  const summary = buildReviewSummary({
+    pricing: computePricing({ items, pricing, productivityRates }),
+    reviewByItemId: (pricing?.reviewByItemId ?? {}) as Record<string, unknown>,
+    projectStatus: project.status,
+    ownerId: userId,
+    viewerId: userId,
+  });
+  return deriveReviewProjectStatus(
+    summary.items.map((item) => item.status),
+    Boolean(project.submittedAt)
+  );
+}
+
+const isSignedOff = (status: ReviewStatus): boolean => status === "reviewed" || status === "approved";
+
+/** What a review signs off on an item: its rows, quantity, rates and totals, not whether it is ticked as completed. */
+const signedOffPricing = (item: ComputedPricingItem): string =>
+  JSON.stringify([
+    item.itemType,
+    item.qty,
+    item.subItems,
+    item.idle,
+    item.unitRates,
+    item.totals,
+    item.markups,
+    item.mhAdjustments,
+  ]);
+
+/** Signed-off pricing of each reviewed and approved item of the project, by item id; empty when none is. */
+async function fingerprintSignedOffItems(userId: string, projectId: string): Promise<Map<string, string>> {
+  const stored = await getPricing(userId, projectId);
+  const reviews = (stored?.reviewByItemId ?? {}) as Record<string, unknown>;
+  if (!Object.values(reviews).some((review) => isSignedOff(normalizeItemReview(review).status))) return new Map();
+  const { items, pricing, productivityRates } = await loadProjectPricingInputs(userId, projectId);
+  return new Map(
+    computePricing({ items, pricing, productivityRates })
+      .items.filter((item) => isSignedOff(normalizeItemReview(reviews[item.itemId], item.completed).status))
+      .map((item) => [item.itemId, signedOffPricing(item)])
+  );
+}
+
+/**
+ * Sends the signed-off items whose computed pricing no longer matches `signedOff` back through the review,
+ * reopens a submitted bid, moves the project status along and logs the items sent back.
+ */
+async function resetRepricedItems(
+  userId: string,
+  projectId: string,
+  signedOff: Map<string, string>,
+  actor: { id: string; name: string }
+): Promise<void> {
+  const [{ items, pricing, productivityRates }, project] = await Promise.all([
+    loadProjectPricingInputs(userId, projectId),
+    findProjectById(userId, projectId),
+  ]);
+  if (!project || !pricing) return;
+  const computed = computePricing({ items, pricing, productivityRates });
+  const computedById = new Map(computed.items.map((item) => [item.itemId, item]));
+  const summary = buildReviewSummary({
+    pricing: computed,
+    reviewByItemId: (pricing.reviewByItemId ?? {}) as Record<string, unknown>,
+    projectStatus: project.status,
+    ownerId: userId,
+    viewerId: actor.id,
+  });
+  const reset = summary.items.filter((item) => {
+    const before = signedOff.get(item.itemId);
+    const now = computedById.get(item.itemId);
+    return before !== undefined && isSignedOff(item.status) && now && signedOffPricing(now) !== before;
+  });
+  if (reset.length === 0) return;
+  const completed = (pricing.completedByItemId ?? {}) as Record<string, unknown>;
+  const at = new Date();
+  const updates = Object.fromEntries(
+    reset.map((item) => [
+      item.itemId,
+      resetItemReview({ review: item, completed: Boolean(completed[item.itemId]), actor, at }),
+    ])
+  );
+  await updatePricingItemReviews(userId, projectId, updates);
+  // The bid that went out was priced differently.
+  if (project.submittedAt) await updateProjectSubmittedAt(userId, projectId, null);
+  // Extraction owns the status while files are still being analysed.
+  if (project.status !== "analyzing") {
+    const status = deriveReviewProjectStatus(
+      summary.items.map((item) => updates[item.itemId]?.status ?? item.status)
+    );
+    if (status !== project.status) await updateProjectStatus(userId, projectId, status);
+  }
+  const codes = reset.map((item) => item.itemCode || item.itemId);
+  await createProjectLog({
+    userId,
+    projectId,
+    message:
+      `${actor.name || "A user"} changed the pricing of ${codes.length} reviewed ` +
+      `item${codes.length === 1 ? "" : "s"}, sent back for review: ${codes.join(", ")}.`,
+  });
+}
+
+/**
+ * Runs `write`, a change to anything a project's pricing is computed from, and sends the reviewed and
+ * approved items whose computed pricing it changed back through the review: their sign-off was for other
+ * rates. Every write that can move pricing goes through here. `projectId` limits the check to one project;
+ * without it every project of the user is checked, for the catalogues they all price from.
+ */
+export async function withItemReviewReset<T>(
+  params: { userId: string; projectId?: string; actor: { id: string; name: string } },
+  write: () => Promise<T>
+): Promise<T> {
+  const { userId, actor } = params;
+  const projectIds = params.projectId
+    ? [params.projectId]
+    : (await listProjects(userId)).map((project) => String(project._id));
+  const signedOff = new Map<string, Map<string, string>>();
+  for (const projectId of projectIds) {
+    const fingerprints = await fingerprintSignedOffItems(userId, projectId);
+    if (fingerprints.size > 0) signedOff.set(projectId, fingerprints);
+  }
+  const result = await write();
+  for (const [projectId, fingerprints] of signedOff) {
+    await resetRepricedItems(userId, projectId, fingerprints, actor);
+  }
+  return result;
+}
+
+/**
+ * Runs the pre-submission checks over the project's stored pricing, including the codes of its linked blocks
+ * that the user's trade tables or equipment catalogue do not know.
+ */
+export async function validateProjectPricing(userId: string, projectId: string): Promise<PricingValidationReport> {
+  const { items, pricing, productivityRates } = await loadProjectPricingInputs(userId, projectId);
+  return validatePricing(computePricing({ items, pricing, productivityRates }), productivityRates);
+}
+
+/** Projects whose rates other projects are benchmarked against: those finished pricing. */
+const BENCHMARK_PROJECT_STATUSES: readonly ProjectStatus[] = ["approved", "submitted"];
+
+/**
+ * Stores the sell unit rate of every priced item of the project, for benchmarking other projects against it.
+ * Run whenever the project's pricing is saved; rate-only items are stored too, they carry a rate.
+ */
+export async function recordPricedItemRates(userId: string, projectId: string): Promise<void> {
+  const computed = await computeProjectPricing(userId, projectId);
+  await replacePricedItemRates(
+    userId,
+    projectId,
+    computed.items
+      .filter((item) => item.unitRates.sell > 0)
+      .map((item) => ({
+        itemId: item.itemId,
+        itemCode: item.itemCode,
+        description: item.description,
+        unit: item.unit,
+        unitDimension: resolveUnit(item.unit).dimension,
+        rate: item.unitRates.sell,
+      }))
+  );
+}
+
+/**
+ * Benchmarks one BOQ item's unit rate against similar items of the user's approved and submitted projects,
+ * from the rates stored when those projects were saved. Returns null when the item is not in the project.
+ */
+export async function benchmarkProjectItem(
+  userId: string,
+  projectId: string,
+  itemId: string
+): Promise<UnitRateBenchmark | null> {
+  const [items, projects] = await Promise.all([listProjectItems(userId, projectId), listProjects(userId)]);
+  const item = items.find((entry) => String(entry._id) === itemId);
+  if (!item) return null;
+
+  const unit = getBoqFieldValue(item, "unit");
+  const finished = new Map(
+    projects
+      .filter((project) => String(project._id) !== projectId && BENCHMARK_PROJECT_STATUSES.includes(project.status))
+      .map((project) => [String(project._id), project.name ?? "Unnamed"])
+  );
+  const rates = await listPricedItemRates(userId, Array.from(finished.keys()), resolveUnit(unit).dimension);
+  return benchmarkUnitRate({
+    description: String(item.description ?? ""),
+    unit,
+    sources: rates.map<BenchmarkSource>((rate) => ({
+      projectId: String(rate.projectId),
+      projectName: finished.get(String(rate.projectId)) ?? "Unnamed",
+      itemId: rate.itemId,
+      itemCode: rate.itemCode,
+      description: rate.description,
+      unit: rate.unit,
+      rate: rate.rate,
+    })),
+  });
+}
@@ -0,0 +1,295 @@
+import type { ProjectStatus } from "../../modules/storage/projectModel";
+import type { ComputedPricing } from "./pricingEngine";
+
+/** Where a priced item stands: being priced, ready for review, checked, and signed off. */
+export type ReviewStatus = "draft" | "priced" | "reviewed" | "approved";
+
+export type ReviewAction = "price" | "review" | "approve" | "reject";
+
+export const REVIEW_STATUSES: readonly ReviewStatus[] = ["draft", "priced", "reviewed", "approved"];
+
+export const REVIEW_ACTIONS: readonly ReviewAction[] = ["price", "review", "approve", "reject"];
+
+/** Past tense of each action, for messages and the project log. */
+export const REVIEW_ACTION_VERBS: Record<ReviewAction, string> = {
+  price: "marked as priced",
+  review: "reviewed",
+  approve: "approved",
+  reject: "rejected",
+};
+
+/** Statuses each action may be taken from, and the status it leads to. A rejection sends the item back to draft. */
+const TRANSITIONS: Record<ReviewAction, { from: readonly ReviewStatus[]; to: ReviewStatus }> = {
+  price: { from: ["draft"], to: "priced" },
+  review: { from: ["priced"], to: "reviewed" },
+  approve: { from: ["reviewed"], to: "approved" },
+  reject: { from: ["priced", "reviewed", "approved"], to: "draft" },
+};
+
+export type ReviewEvent = {
+  /** "repriced" when a pricing save changed an item that was already reviewed or approved. */
+  action: ReviewAction | "repriced";
+  from: ReviewStatus;
+  to: ReviewStatus;
+  byId: string;
+  byName: string;
+  at: string;
+  comment: string;
+};
+
+/** Who took a step of an item's review, and when. */
+export type ReviewStep = { id: string; name: string; at: string };
+
+export type ItemReview = {
+  status: ReviewStatus;
+  updatedById: string | null;
+  updatedByName: string;
+  updatedAt: string | null;
+  /** Comment of the last action; the reason when the item was rejected. */
+  comment: string;
+  /** Who marked the item as priced, or re-priced it after review; null while it is a draft. */
+  pricedBy: ReviewStep | null;
+  /** Who reviewed the current pricing; null until it is reviewed. */
+  reviewedBy: ReviewStep | null;
+  /** Who approved the current pricing; null until it is approved. */
+  approvedBy: ReviewStep | null;
+  history: ReviewEvent[];
+};
+
+type ReviewSteps = Pick<ItemReview, "pricedBy" | "reviewedBy" | "approvedBy">;
+
+const NO_STEPS: ReviewSteps = { pricedBy: null, reviewedBy: null, approvedBy: null };
+
+export type ReviewItem = ItemReview & {
+  itemId: string;
+  itemCode: string;
+  description: string;
+  category: string;
+  /** What is being signed off, for reviewers who cannot open the Pricing page. */
+  qty: number;
+  unit: string;
+  sellRate: number;
+  sellTotal: number;
+  /** Actions the viewer may take on the item now. */
+  actions: ReviewAction[];
+};
+
+export type ReviewSummary = {
+  projectStatus: ProjectStatus;
+  /** The viewer owns the project; everyone else with access is one of its reviewers. */
+  isOwner: boolean;
+  items: ReviewItem[];
+  counts: Record<ReviewStatus, number>;
+  /** Every item is approved, so the bid can be marked as submitted. */
+  canSubmit: boolean;
+};
+
+const toText = (value: unknown): string => (value === null || value === undefined ? "" : String(value));
+
+const toStep = (value: unknown): ReviewStep | null => {
+  if (!value || typeof value !== "object") return null;
+  const source = value as Record<string, unknown>;
+  return source.id ? { id: toText(source.id), name: toText(source.name), at: toText(source.at) } : null;
+};
+
+/**
+ * Who took each step of the current pricing's review, replayed from the history, for reviews stored before
+ * the steps were.
+ */
+function stepsFromHistory(history: ReviewEvent[]): ReviewSteps {
+  let steps = NO_STEPS;
+  for (const event of history) {
+    const step = { id: toText(event.byId), name: toText(event.byName), at: toText(event.at) };
+    if (event.action === "price" || (event.action === "repriced" && event.to === "priced")) {
+      steps = { ...NO_STEPS, pricedBy: step };
+    } else if (event.action === "review") {
+      steps = { ...steps, reviewedBy: step, approvedBy: null };
+    } else if (event.action === "approve") {
+      steps = { ...steps, approvedBy: step };
+    } else {
+      steps = NO_STEPS;
+    }
+  }
+  return steps;
+}
+
+/**
+ * Fills a stored review up. Items never put through the workflow start as draft, or as priced when the
+ * estimator ticked them as completed on the Pricing page.
+ */
+export function normalizeItemReview(value: unknown, completed = false): ItemReview {
+  const source = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const status = REVIEW_STATUSES.includes(source.status as ReviewStatus)
+    ? (source.status as ReviewStatus)
+    : completed
+      ? "priced"
+      : "draft";
+  const history = Array.isArray(source.history) ? (source.history as ReviewEvent[]) : [];
+  const steps =
+    "pricedBy" in source
+      ? {
+          pricedBy: toStep(source.pricedBy),
+          reviewedBy: toStep(source.reviewedBy),
+          approvedBy: toStep(source.approvedBy),
+        }
+      : stepsFromHistory(history);
+  return {
+    status,
+    updatedById: source.updatedById ? toText(source.updatedById) : null,
+    updatedByName: toText(source.updatedByName),
+    updatedAt: source.updatedAt ? toText(source.updatedAt) : null,
+    comment: toText(source.comment),
+    ...steps,
+    history,
+  };
+}
+
+export const canApplyReviewAction = (status: ReviewStatus, action: ReviewAction): boolean =>
+  TRANSITIONS[action].from.includes(status);
+
+/**
+ * Why `actorId` may not take `action` on the item, or null when they may. The project owner prices every item
+ * on the Pricing page, so only the owner marks items as priced and counts as a pricer of all of them. Nobody
+ * reviews an item they priced, and nobody approves one they priced or reviewed. Anyone may reject.
+ */
+export function reviewActionRefusal(params: {
+  review: ItemReview;
+  action: ReviewAction;
+  actorId: string;
+  ownerId: string;
+}): string | null {
+  const { review, action, actorId, ownerId } = params;
+  const priced = actorId === ownerId || actorId === review.pricedBy?.id;
+  if (action === "price") {
+    return actorId === ownerId ? null : "Only the project owner can mark items as priced";
+  }
+  if ((action === "review" || action === "approve") && priced) {
+    return `You priced this item, so someone else must ${action} it`;
+  }
+  if (action === "approve" && actorId === review.reviewedBy?.id) {
+    return "You reviewed this item, so someone else must approve it";
+  }
+  return null;
+}
+
+/** Actions `actorId` may take on the item now. */
+export const allowedReviewActions = (review: ItemReview, actorId: string, ownerId: string): ReviewAction[] =>
+  REVIEW_ACTIONS.filter(
+    (action) =>
+      canApplyReviewAction(review.status, action) && !reviewActionRefusal({ review, action, actorId, ownerId })
+  );
+
+/** The item's review after `action`; callers check canApplyReviewAction and reviewActionRefusal first. */
+export function applyReviewAction(params: {
+  review: ItemReview;
+  action: ReviewAction;
+  actor: { id: string; name: string };
+  comment: string;
+  at: Date;
+}): ItemReview {
+  const { review, action, actor } = params;
+  const at = params.at.toISOString();
+  const comment = params.comment.trim();
+  const to = TRANSITIONS[action].to;
+  const step = { id: actor.id, name: actor.name, at };
+  const steps: ReviewSteps =
+    action === "price"
+      ? { ...NO_STEPS, pricedBy: step }
+      : action === "review"
+        ? { pricedBy: review.pricedBy, reviewedBy: step, approvedBy: null }
+        : action === "approve"
+          ? { pricedBy: review.pricedBy, reviewedBy: review.reviewedBy, approvedBy: step }
+          : NO_STEPS;
+  return {
+    status: to,
+    updatedById: actor.id,
+    updatedByName: actor.name,
+    updatedAt: at,
+    comment,
+    ...steps,
+    history: [
+      ...review.history,
+      { action, from: review.status, to, byId: actor.id, byName: actor.name, at, comment },
+    ],
+  };
+}
+
+/** Comment recorded when a pricing change sends an item back. */
+const REPRICED_COMMENT = "Pricing changed after review";
+
+/**
+ * The item's review after its priced rows or totals changed: reviewed and approved items need checking
+ * again, so they go back to priced by whoever changed them, or to draft when the estimator no longer ticks
+ * them as completed. Draft and priced items are returned as they are.
+ */
+export function resetItemReview(params: {
+  review: ItemReview;
+  completed: boolean;
+  actor: { id: string; name: string };
+  at: Date;
+}): ItemReview {
+  const { review, actor } = params;
+  if (review.status !== "reviewed" && review.status !== "approved") return review;
+  const at = params.at.toISOString();
+  const to: ReviewStatus = params.completed ? "priced" : "draft";
+  return {
+    status: to,
+    updatedById: actor.id,
+    updatedByName: actor.name,
+    updatedAt: at,
+    comment: REPRICED_COMMENT,
+    ...NO_STEPS,
+    pricedBy: to === "priced" ? { id: actor.id, name: actor.name, at } : null,
+    history: [
+      ...review.history,
+      { action: "repriced", from: review.status, to, byId: actor.id, byName: actor.name, at, comment: REPRICED_COMMENT },
+    ],
+  };
+}
+
+/**
+ * Project status implied by its items' reviews: approved once every item is (submitted when the bid went
+ * out), in review as soon as any item has moved on from draft, and otherwise the plain "finalized" the
+ * extraction left it at.
+ */
+export function deriveReviewProjectStatus(statuses: ReviewStatus[], submitted = false): ProjectStatus {
+  if (statuses.length > 0 && statuses.every((status) => status === "approved")) {
+    return submitted ? "submitted" : "approved";
+  }
+  if (statuses.some((status) => status !== "draft")) return "in_review";
+  return "finalized";
+}
+
+/** Review state of every priced BOQ item, in BOQ order, with the actions `viewerId` may take on each. */
+export function buildReviewSummary(params: {
+  pricing: ComputedPricing;
+  reviewByItemId: Record<string, unknown>;
+  projectStatus: ProjectStatus;
+  ownerId: string;
+  viewerId: string;
+}): ReviewSummary {
+  const counts: Record<ReviewStatus, number> = { draft: 0, priced: 0, reviewed: 0, approved: 0 };
+  const items = params.pricing.items.map<ReviewItem>((item) => {
+    const review = normalizeItemReview(params.reviewByItemId[item.itemId], item.completed);
+    counts[review.status] += 1;
+    return {
+      itemId: item.itemId,
+      itemCode: item.itemCode,
+      description: item.description,
+      category: item.category,
+      qty: item.qty,
+      unit: item.unit,
+      sellRate: item.unitRates.sell,
+      sellTotal: item.totals.sell,
+      ...review,
+      actions: allowedReviewActions(review, params.viewerId, params.ownerId),
+    };
+  });
+  return {
+    projectStatus: params.projectStatus,
+    isOwner: params.viewerId === params.ownerId,
+    items,
+    counts,
+    canSubmit: items.length > 0 && counts.approved === items.length,
+  };
+}
@@ -0,0 +1,149 @@
+import type { ProjectItemDocument } from "../../modules/storage/projectItemModel";
+import { normalizeMarkups, PricingMarkup } from "./markups";
+import {
+  computePricing,
+  PricingAdjustments,
+  PricingProductivityRates,
+  PricingRecord,
+  PricingTotals,
+  roundTo2,
+  SELL_RATE_KEYS,
+  SellRateKey,
+} from "./pricingEngine";
+
+/** A named what-if stored with the project's pricing; empty fields leave the base pricing as it is. */
+export type PricingScenario = {
+  id: string;
+  name: string;
+  description: string;
+  /** Multipliers per cost column, e.g. { wages: "1.1" } for labour rates up 10%. */
+  rateMultipliers: Partial<Record<SellRateKey, string>>;
+  /** Multiplier on man-hours, e.g. "1.15" for crews 15% slower. */
+  productivityFactor: string;
+  /** Markups used instead of the project's, or null to keep them. */
+  markups: PricingMarkup[] | null;
+  /** BOQ items let to a subcontractor; an empty rate keeps the item's current direct unit cost. */
+  subconItems: Array<{ itemId: string; rate: string }>;
+};
+
+export type ScenarioSummary = {
+  id: string;
+  name: string;
+  totals: PricingTotals;
+  categories: Array<{ category: string; direct: number; sell: number }>;
+  margin: number;
+  /** Differences to the base pricing; zero for the base itself. */
+  directDelta: number;
+  sellDelta: number;
+  sellDeltaPercent: number;
+  totalMhDelta: number;
+};
+
+export type ScenarioComparison = {
+  base: ScenarioSummary;
+  scenarios: ScenarioSummary[];
+};
+
+const toText = (value: unknown): string => (value === null || value === undefined ? "" : String(value).trim());
+
+/** Empty or unparsable multipliers mean "unchanged". */
+const toMultiplier = (value: string | undefined): number => {
+  const parsed = Number(toText(value));
+  return toText(value) && Number.isFinite(parsed) ? parsed : 1;
+};
+
+/** Drops malformed entries from a stored scenario list. */
+export function normalizeScenarios(value: unknown): PricingScenario[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === "object")
+    .map((entry) => {
+      const multipliers = (
+        entry.rateMultipliers && typeof entry.rateMultipliers === "object" ? entry.rateMultipliers : {}
+      ) as Record<string, unknown>;
+      const rateMultipliers: PricingScenario["rateMultipliers"] = {};
+      SELL_RATE_KEYS.forEach((key) => {
+        const multiplier = toText(multipliers[key]);
+        if (multiplier) rateMultipliers[key] = multiplier;
+      });
+      const subconItems = (Array.isArray(entry.subconItems) ? entry.subconItems : [])
+        .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === "object")
+        .map((item) => ({ itemId: toText(item.itemId), rate: toText(item.rate) }))
+        .filter((item) => item.itemId);
+      return {
+        id: toText(entry.id),
+        name: toText(entry.name),
+        description: toText(entry.description),
+        rateMultipliers,
+        productivityFactor: toText(entry.productivityFactor),
+        markups: Array.isArray(entry.markups) ? normalizeMarkups(entry.markups) : null,
+        subconItems,
+      };
+    })
+    .filter((scenario) => scenario.id && scenario.name);
+}
+
+export function toPricingAdjustments(scenario: PricingScenario): PricingAdjustments {
+  const rateMultipliers = {} as Record<SellRateKey, number>;
+  SELL_RATE_KEYS.forEach((key) => {
+    rateMultipliers[key] = toMultiplier(scenario.rateMultipliers[key]);
+  });
+  return {
+    rateMultipliers,
+    productivityFactor: toMultiplier(scenario.productivityFactor),
+    markups: scenario.markups,
+    subconRateByItemId: new Map(
+      scenario.subconItems.map((item) => [item.itemId, item.rate ? Number(item.rate) : null])
+    ),
+  };
+}
+
+/**
+ * Prices the project once as stored and once per scenario, against the same BOQ items and productivity
+ * library, and reports each scenario's totals next to the base.
+ */
+export function compareScenarios(params: {
+  items: ProjectItemDocument[];
+  pricing: PricingRecord | null;
+  productivityRates: PricingProductivityRates | null;
+  scenarios: PricingScenario[];
+}): ScenarioComparison {
+  const summarize = (id: string, name: string, adjustments?: PricingAdjustments) => {
+    const computed = computePricing({
+      items: params.items,
+      pricing: params.pricing,
+      productivityRates: params.productivityRates,
+      adjustments,
+    });
+    return {
+      id,
+      name,
+      totals: computed.totals,
+      categories: computed.categories.map((category) => ({
+        category: category.category,
+        direct: roundTo2(category.totals.direct),
+        sell: roundTo2(category.totals.sell),
+      })),
+    };
+  };
+
+  const base = summarize("base", "Base");
+  const withDeltas = (summary: ReturnType<typeof summarize>): ScenarioSummary => {
+    const sellDelta = summary.totals.sell - base.totals.sell;
+    return {
+      ...summary,
+      margin: roundTo2(summary.totals.sell - summary.totals.direct),
+      directDelta: roundTo2(summary.totals.direct - base.totals.direct),
+      sellDelta: roundTo2(sellDelta),
+      sellDeltaPercent: base.totals.sell ? roundTo2((sellDelta / base.totals.sell) * 100) : 0,
+      totalMhDelta: roundTo2(summary.totals.totalMh - base.totals.totalMh),
+    };
+  };
+
+  return {
+    base: withDeltas(base),
+    scenarios: params.scenarios.map((scenario) =>
+      withDeltas(summarize(scenario.id, scenario.name, toPricingAdjustments(scenario)))
+    ),
+  };
+}
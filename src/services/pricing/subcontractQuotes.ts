@@ -0,0 +1,309 @@
+import { randomUUID } from "crypto";
+import xlsx from "xlsx";
+import { getPricing, updatePricingSubItems } from "../../modules/storage/pricingRepository";
+import { createPricingRevision } from "../../modules/storage/pricingRevisionRepository";
+import type {
+  SubcontractPackageDocument,
+  SubcontractQuoteLine,
+} from "../../modules/storage/subcontractPackageModel";
+import type { ComputedPricing, ComputedPricingItem, PricingSubItem } from "./pricingEngine";
+import { roundTo2 } from "./pricingEngine";
+import { recordPricedItemRates } from "./projectPricing";
+
+export type PackageComparisonLine = {
+  itemId: string;
+  itemCode: string;
+  description: string;
+  unit: string;
+  qty: number;
+  isRateOnly: boolean;
+  /** One entry per quote, in the package's quote order. */
+  quotes: Array<{ quoteId: string; rate: number | null; amount: number | null; note: string }>;
+  lowestQuoteId: string | null;
+};
+
+export type PackageComparisonQuote = {
+  quoteId: string;
+  subcontractor: string;
+  reference: string;
+  exclusions: string[];
+  quotedTotal: number;
+  /** Lines the subcontractor did not price, plugged at the highest rate the other quotes gave. */
+  missingLines: number;
+  plugAmount: number;
+  normalisedTotal: number;
+  /** 1 for the lowest normalised total; null for a quote with no priced lines. */
+  rank: number | null;
+  awarded: boolean;
+};
+
+export type PackageComparison = {
+  lines: PackageComparisonLine[];
+  quotes: PackageComparisonQuote[];
+};
+
+const normalizeKey = (value: string): string => value.trim().toLowerCase().replace(/\s+/g, " ");
+
+/** The package's BOQ items in BOQ order; items removed from the BOQ since are skipped. */
+function packageItems(pkg: SubcontractPackageDocument, pricing: ComputedPricing): ComputedPricingItem[] {
+  const itemIds = new Set(pkg.itemIds);
+  return pricing.items.filter((item) => itemIds.has(item.itemId));
+}
+
+/**
+ * Compares a package's quotes line by line. Totals are normalised so quotes that leave lines out are not
+ * cheaper for it: each missing line is plugged at the highest rate quoted for it by anyone else. Rate-only
+ * items are compared on rate but carry no amount.
+ */
+export function comparePackageQuotes(params: {
+  pkg: SubcontractPackageDocument;
+  pricing: ComputedPricing;
+}): PackageComparison {
+  const { pkg } = params;
+  const quotes = pkg.quotes.map((quote) => ({
+    quote,
+    quoteId: String(quote._id),
+    rateByItemId: new Map(quote.lines.map((line) => [line.itemId, line])),
+  }));
+
+  const lines = packageItems(pkg, params.pricing).map<PackageComparisonLine>((item) => {
+    const entries = quotes.map(({ quoteId, rateByItemId }) => {
+      const line = rateByItemId.get(item.itemId);
+      const rate = line?.rate ?? null;
+      return {
+        quoteId,
+        rate,
+        amount: rate === null || item.isRateOnly ? null : roundTo2(rate * item.qty),
+        note: line?.note ?? "",
+      };
+    });
+    const priced = entries.filter((entry) => entry.rate !== null);
+    const lowest = priced.reduce<(typeof priced)[number] | null>(
+      (best, entry) => (best === null || (entry.rate as number) < (best.rate as number) ? entry : best),
+      null
+    );
+    return {
+      itemId: item.itemId,
+      itemCode: item.itemCode,
+      description: item.description,
+      unit: item.unit,
+      qty: item.qty,
+      isRateOnly: item.isRateOnly,
+      quotes: entries,
+      lowestQuoteId: lowest?.quoteId ?? null,
+    };
+  });
+
+  const summaries = quotes.map<PackageComparisonQuote>(({ quote, quoteId }, quoteIndex) => {
+    let quotedTotal = 0;
+    let plugAmount = 0;
+    let missingLines = 0;
+    let pricedLines = 0;
+    lines.forEach((line) => {
+      const entry = line.quotes[quoteIndex];
+      if (entry.rate !== null) {
+        pricedLines += 1;
+        quotedTotal += entry.amount ?? 0;
+        return;
+      }
+      const others = line.quotes.map((other) => other.rate).filter((rate): rate is number => rate !== null);
+      if (others.length === 0) return;
+      missingLines += 1;
+      if (!line.isRateOnly) plugAmount += Math.max(...others) * line.qty;
+    });
+    return {
+      quoteId,
+      subcontractor: quote.subcontractor,
+      reference: quote.reference,
+      exclusions: quote.exclusions,
+      quotedTotal: roundTo2(quotedTotal),
+      missingLines,
+      plugAmount: roundTo2(plugAmount),
+      normalisedTotal: roundTo2(quotedTotal + plugAmount),
+      rank: pricedLines > 0 ? 0 : null,
+      awarded: pkg.awardedQuoteId != null && String(pkg.awardedQuoteId) === quoteId,
+    };
+  });
+
+  [...summaries]
+    .filter((summary) => summary.rank !== null)
+    .sort((a, b) => a.normalisedTotal - b.normalisedTotal)
+    .forEach((summary, index) => {
+      summary.rank = index + 1;
+    });
+
+  return { lines, quotes: summaries };
+}
+
+/** Enquiry sheet listing the package's items with an empty rate column; the same layout imports back. */
+export function buildQuoteEnquiryWorkbook(params: {
+  projectName: string;
+  pkg: SubcontractPackageDocument;
+  pricing: ComputedPricing;
+}): Buffer {
+  const header = ["No.", "Item Code", "Description", "Unit", "Qty", "Unit Rate", "Amount", "Remarks"];
+  const items = packageItems(params.pkg, params.pricing);
+  const firstRow = 6;
+  const rows: Array<Array<string | number>> = [
+    ["Subcontract Enquiry"],
+    ["Project", params.projectName],
+    ["Package", params.pkg.name],
+    ["Date", new Date().toLocaleDateString("en-GB")],
+    [],
+    header,
+    ...items.map((item, index) => [
+      index + 1,
+      item.itemCode,
+      item.description,
+      item.unit,
+      item.isRateOnly ? "Rate Only" : item.qty,
+      "",
+      "",
+      "",
+    ]),
+  ];
+  const sheet = xlsx.utils.aoa_to_sheet(rows);
+  items.forEach((item, index) => {
+    if (item.isRateOnly) return;
+    const row = firstRow + index + 1;
+    sheet[`G${row}`] = { t: "s", v: "", f: `IF(F${row}="","",E${row}*F${row})` };
+  });
+  const totalRow = firstRow + items.length + 1;
+  sheet[`F${totalRow}`] = { t: "s", v: "Total" };
+  sheet[`G${totalRow}`] = { t: "n", v: 0, f: `SUM(G${firstRow + 1}:G${totalRow - 1})` };
+  sheet["!ref"] = xlsx.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: totalRow - 1, c: header.length - 1 } });
+  sheet["!cols"] = [{ wch: 6 }, { wch: 14 }, { wch: 50 }, { wch: 8 }, { wch: 12 }, { wch: 12 }, { wch: 14 }, { wch: 30 }];
+
+  const workbook = xlsx.utils.book_new();
+  xlsx.utils.book_append_sheet(workbook, sheet, "Enquiry");
+  return xlsx.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+}
+
+const CODE_HEADERS = ["item code", "code", "item", "item no", "item no.", "ref", "ref."];
+const RATE_HEADERS = ["unit rate", "rate", "unit price", "price"];
+const NOTE_HEADERS = ["remarks", "remark", "notes", "note", "comments"];
+
+/**
+ * Reads a subcontractor's priced sheet: the first sheet, from the header row naming an item code and a rate
+ * column. Rows match package items by item code (repeated codes are taken in order), then by description.
+ * A rate cell with text instead of a number (e.g. "Excluded") leaves the line unpriced with that note.
+ */
+export function parseQuoteWorkbook(params: {
+  buffer: Buffer;
+  pkg: SubcontractPackageDocument;
+  pricing: ComputedPricing;
+}): { lines: SubcontractQuoteLine[]; unmatchedRows: number } {
+  const workbook = xlsx.read(params.buffer, { type: "buffer" });
+  const sheet = workbook.Sheets[workbook.SheetNames[0] ?? ""];
+  if (!sheet) throw new Error("The workbook has no sheets");
+  const rows = xlsx.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: "" });
+
+  const headerIndex = rows.findIndex((row) => {
+    const cells = row.map((cell) => normalizeKey(String(cell)));
+    return cells.some((cell) => CODE_HEADERS.includes(cell)) && cells.some((cell) => RATE_HEADERS.includes(cell));
+  });
+  if (headerIndex < 0) throw new Error("No header row with an item code and a rate column was found");
+  const headers = rows[headerIndex].map((cell) => normalizeKey(String(cell)));
+  const findColumn = (names: string[]) => names.map((name) => headers.indexOf(name)).find((index) => index >= 0) ?? -1;
+  const codeColumn = findColumn(CODE_HEADERS);
+  const rateColumn = findColumn(RATE_HEADERS);
+  const noteColumn = findColumn(NOTE_HEADERS);
+  const descriptionColumn = headers.indexOf("description");
+
+  const items = packageItems(params.pkg, params.pricing);
+  const byCode = new Map<string, ComputedPricingItem[]>();
+  items.forEach((item) => {
+    const key = normalizeKey(item.itemCode);
+    if (key) byCode.set(key, [...(byCode.get(key) ?? []), item]);
+  });
+  const byDescription = new Map(items.map((item) => [normalizeKey(item.description), item]));
+  const assigned = new Map<string, SubcontractQuoteLine>();
+  let unmatchedRows = 0;
+
+  rows.slice(headerIndex + 1).forEach((row) => {
+    const code = normalizeKey(String(row[codeColumn] ?? ""));
+    const rateCell = row[rateColumn];
+    const rateText = String(rateCell ?? "").trim();
+    if (!code && !rateText) return;
+    const numeric = typeof rateCell === "number" ? rateCell : Number(rateText.replace(/,/g, ""));
+    const isNumber = rateText !== "" && Number.isFinite(numeric);
+    const candidates = (byCode.get(code) ?? []).filter((item) => !assigned.has(item.itemId));
+    const description = descriptionColumn >= 0 ? normalizeKey(String(row[descriptionColumn] ?? "")) : "";
+    const item = candidates[0] ?? (description ? byDescription.get(description) : undefined);
+    if (!item || assigned.has(item.itemId)) {
+      // Rows without a code and a rate are headings, totals and the like.
+      if (code || isNumber) unmatchedRows += 1;
+      return;
+    }
+    const note = noteColumn >= 0 ? String(row[noteColumn] ?? "").trim() : "";
+    assigned.set(item.itemId, {
+      itemId: item.itemId,
+      rate: isNumber ? numeric : null,
+      note: isNumber ? note : [rateText, note].filter(Boolean).join(" — "),
+    });
+  });
+
+  return { lines: Array.from(assigned.values()), unmatchedRows };
+}
+
+/**
+ * Writes an awarded quote into the project's pricing: on each package item the sub-item already linked to
+ * the package takes the quoted rate, or a subcontract sub-item is added. Items the quote did not price are
+ * left alone. The change is recorded as a pricing revision and in the stored item rates. Returns how many
+ * items were updated.
+ */
+export async function applyAwardedQuote(params: {
+  userId: string;
+  projectId: string;
+  pkg: SubcontractPackageDocument;
+  quoteId: string;
+  authorName: string;
+}): Promise<number> {
+  const { pkg } = params;
+  const quote = pkg.quotes.id(params.quoteId);
+  if (!quote) return 0;
+  const pricing = await getPricing(params.userId, params.projectId);
+  const stored = (pricing?.subItemsByItemId ?? {}) as Record<string, PricingSubItem[]>;
+  const packageId = String(pkg._id);
+  const ref = {
+    packageId,
+    quoteId: params.quoteId,
+    subcontractor: quote.subcontractor,
+    reference: quote.reference,
+  };
+  const packageItemIds = new Set(pkg.itemIds);
+
+  const updates: Record<string, PricingSubItem[]> = {};
+  quote.lines.forEach((line) => {
+    if (line.rate === null || !packageItemIds.has(line.itemId)) return;
+    const subconRate = roundTo2(line.rate).toFixed(2);
+    const rows = Array.isArray(stored[line.itemId]) ? stored[line.itemId] : [];
+    const linked = rows.some((row) => row.subconQuote?.packageId === packageId);
+    updates[line.itemId] = linked
+      ? rows.map((row) => (row.subconQuote?.packageId === packageId ? { ...row, subconRate, subconQuote: ref } : row))
+      : [
+          ...rows,
+          {
+            id: randomUUID(),
+            description: `Subcontract: ${pkg.name}`,
+            unitMh: 0,
+            unitEquipRate: 0,
+            materialsRate: "0.00",
+            subconRate,
+            toolsRate: "0.00",
+            subconQuote: ref,
+          },
+        ];
+  });
+  if (Object.keys(updates).length === 0) return 0;
+
+  const saved = await updatePricingSubItems(params.userId, params.projectId, updates);
+  await createPricingRevision({
+    pricing: saved,
+    authorId: params.userId,
+    authorName: params.authorName,
+    note: `Awarded ${pkg.name} to ${quote.subcontractor}`,
+  });
+  await recordPricedItemRates(params.userId, params.projectId);
+  return Object.keys(updates).length;
+}
@@ -0,0 +1,351 @@
+import fs from "fs";
+import path from "path";
+import PDFDocument from "pdfkit";
+import type { TenderDetails } from "../../modules/storage/projectModel";
+import type { LumpSumSpreadLine } from "./lumpSum";
+import type { ComputedPricing, ComputedPricingItem } from "./pricingEngine";
+import { roundTo2 } from "./pricingEngine";
+
+const projectRoot = path.resolve(__dirname, "..", "..", "..");
+const logoPath = path.join(projectRoot, "data", "company.png");
+
+const PAGE_MARGIN = 50;
+const CONTENT_WIDTH = 495;
+const PAGE_BOTTOM = 770;
+const HEADER_FILL = "#e0e0e0";
+const STRIPE_FILL = "#f9f9f9";
+const GROUP_FILL = "#eef2f7";
+
+type Column = { label: string; width: number; align?: "left" | "right" };
+
+/**
+ * Rates and amounts the pack tenders: each item's lump-sum spread line when it has one, its own pricing
+ * otherwise. `adjustment` is what the spread moves the bottom-up sell total by.
+ */
+type Tendered = {
+  rate: (item: ComputedPricingItem) => number;
+  amount: (item: ComputedPricingItem) => number;
+  adjustment: number;
+  /** Sell total of the measured work. */
+  sell: number;
+  tenderSum: number;
+};
+
+function tenderedFigures(pricing: ComputedPricing, spreadById: Map<string, LumpSumSpreadLine> | null): Tendered {
+  const adjustment = roundTo2(
+    pricing.items.reduce((sum, item) => {
+      const line = spreadById?.get(item.itemId);
+      return line ? sum + line.amount - item.totals.sell : sum;
+    }, 0)
+  );
+  return {
+    rate: (item) => spreadById?.get(item.itemId)?.rate ?? item.unitRates.sell,
+    amount: (item) => spreadById?.get(item.itemId)?.amount ?? item.totals.sell,
+    adjustment,
+    sell: pricing.totals.sell + adjustment,
+    tenderSum: pricing.tenderTotals.sell + adjustment,
+  };
+}
+
+const formatMoney = (value: number): string =>
+  (Number.isFinite(value) ? value : 0).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatQty = (value: number): string =>
+  (Number.isFinite(value) ? value : 0).toLocaleString("en-US", { maximumFractionDigits: 3 });
+
+function sectionTitle(doc: PDFKit.PDFDocument, title: string) {
+  doc.fillColor("#000000").fontSize(16).font("Helvetica-Bold").text(title, PAGE_MARGIN, doc.y);
+  doc.moveDown(0.75);
+}
+
+function ensureSpace(doc: PDFKit.PDFDocument, height: number): boolean {
+  if (doc.y + height <= PAGE_BOTTOM) return false;
+  doc.addPage();
+  return true;
+}
+
+function drawRow(doc: PDFKit.PDFDocument, columns: Column[], values: string[], options: { bold?: boolean; fill?: string }) {
+  doc.fontSize(9).font(options.bold ? "Helvetica-Bold" : "Helvetica");
+  const height =
+    Math.max(...columns.map((column, index) => doc.heightOfString(values[index] ?? "", { width: column.width - 8 }))) + 8;
+  const top = doc.y;
+  if (options.fill) {
+    doc.rect(PAGE_MARGIN, top, CONTENT_WIDTH, height).fill(options.fill);
+  }
+  doc.fillColor("#000000");
+  let x = PAGE_MARGIN;
+  columns.forEach((column, index) => {
+    doc.text(values[index] ?? "", x + 4, top + 4, { width: column.width - 8, align: column.align ?? "left" });
+    x += column.width;
+  });
+  doc.y = top + height;
+  doc.x = PAGE_MARGIN;
+}
+
+/** Draws a table, repeating the header row whenever it breaks onto a new page. */
+function drawTable(
+  doc: PDFKit.PDFDocument,
+  columns: Column[],
+  rows: Array<{ values: string[]; bold?: boolean; fill?: string; fullWidth?: boolean }>
+) {
+  const header = () => drawRow(doc, columns, columns.map((column) => column.label), { bold: true, fill: HEADER_FILL });
+  header();
+  rows.forEach((row, index) => {
+    if (ensureSpace(doc, 30)) header();
+    if (row.fullWidth) {
+      drawRow(doc, [{ label: "", width: CONTENT_WIDTH }], [row.values[0] ?? ""], { bold: true, fill: row.fill });
+      return;
+    }
+    drawRow(doc, columns, row.values, { bold: row.bold, fill: row.fill ?? (index % 2 === 0 ? STRIPE_FILL : undefined) });
+  });
+}
+
+function drawNumberedList(doc: PDFKit.PDFDocument, entries: string[], emptyText: string) {
+  doc.fontSize(10).font("Helvetica").fillColor("#000000");
+  if (entries.length === 0) {
+    doc.text(emptyText, PAGE_MARGIN, doc.y);
+    return;
+  }
+  entries.forEach((entry, index) => {
+    ensureSpace(doc, 30);
+    doc.text(`${index + 1}. ${entry}`, PAGE_MARGIN, doc.y, { width: CONTENT_WIDTH, lineGap: 2 });
+    doc.moveDown(0.4);
+  });
+}
+
+function drawCover(doc: PDFKit.PDFDocument, projectName: string, details: TenderDetails, tendered: Tendered) {
+  if (fs.existsSync(logoPath)) {
+    doc.image(logoPath, PAGE_MARGIN, 60, { fit: [160, 80] });
+  }
+  doc.y = 240;
+  doc.fontSize(28).font("Helvetica-Bold").text("TENDER SUBMISSION", PAGE_MARGIN, doc.y, { align: "center" });
+  doc.moveDown(0.5);
+  doc.fontSize(18).font("Helvetica").text(projectName, { align: "center" });
+  doc.moveDown(3);
+  const lines: Array<[string, string]> = [
+    ["Client", details.clientName || "—"],
+    ["Reference", details.reference || "—"],
+    ["Date", new Date().toLocaleDateString("en-GB")],
+    ["Tender Sum", formatMoney(tendered.tenderSum)],
+  ];
+  lines.forEach(([label, value]) => {
+    doc.fontSize(12).font("Helvetica-Bold").text(`${label}: `, { continued: true, align: "center" });
+    doc.font("Helvetica").text(value, { align: "center" });
+    doc.moveDown(0.4);
+  });
+}
+
+function drawProjectSummary(doc: PDFKit.PDFDocument, pricing: ComputedPricing, tendered: Tendered) {
+  sectionTitle(doc, "Project Summary");
+  const priced = pricing.items.filter((item) => item.itemType === "measured");
+  const rateOnly = pricing.items.filter((item) => item.isRateOnly);
+  const rows: Array<[string, string]> = [
+    ["Priced BOQ items", String(priced.length)],
+    ["Rate-only items", String(rateOnly.length)],
+    ...pricing.allowances.map((entry): [string, string] => [entry.label, String(entry.itemCount)]),
+    ["Total man-hours", formatQty(pricing.totals.totalMh)],
+    ["Project duration (months)", pricing.settings.projectDuration || "—"],
+    ["Total working days", formatMoney(pricing.workingDays)],
+    ["Manpower hourly rate", pricing.settings.mpHourlyRate || "—"],
+  ];
+  drawTable(
+    doc,
+    [
+      { label: "Description", width: 300 },
+      { label: "Value", width: 195, align: "right" },
+    ],
+    rows.map(([label, value]) => ({ values: [label, value] }))
+  );
+  doc.moveDown(1);
+  doc.fontSize(10).font("Helvetica-Bold").text("Markup breakdown", PAGE_MARGIN, doc.y);
+  doc.moveDown(0.5);
+  const markupTotal = pricing.markupBreakdown.reduce((sum, line) => sum + line.amount, 0);
+  // Unit sell rates are rounded per item, so the lines may not add up to the tender sum to the cent.
+  const rounding = pricing.totals.sell - pricing.totals.direct - markupTotal;
+  drawTable(
+    doc,
+    [
+      { label: "Description", width: 300 },
+      { label: "Amount", width: 195, align: "right" },
+    ],
+    [
+      { values: ["Direct cost", formatMoney(pricing.totals.direct)], bold: true },
+      ...pricing.markupBreakdown.map((line) => ({ values: [line.label, formatMoney(line.amount)] })),
+      ...(Math.abs(rounding) >= 0.01 ? [{ values: ["Rounding", formatMoney(rounding)] }] : []),
+      ...(tendered.adjustment ? [{ values: ["Lump sum adjustment", formatMoney(tendered.adjustment)] }] : []),
+      ...pricing.allowances.map((entry) => ({ values: [entry.label, formatMoney(entry.sell)] })),
+      { values: ["Tender sum", formatMoney(tendered.tenderSum)], bold: true },
+    ]
+  );
+  doc.moveDown(1);
+  doc.fontSize(10).font("Helvetica-Bold").text("Cost breakdown", PAGE_MARGIN, doc.y);
+  doc.moveDown(0.5);
+  drawTable(
+    doc,
+    [
+      { label: "Component", width: 195 },
+      { label: "Direct", width: 150, align: "right" },
+      { label: "Sell", width: 150, align: "right" },
+    ],
+    [
+      { values: ["Manpower", formatMoney(pricing.totals.wages), formatMoney(pricing.totals.sellWages)] },
+      { values: ["Materials", formatMoney(pricing.totals.materials), formatMoney(pricing.totals.sellMaterials)] },
+      { values: ["Subcontract", formatMoney(pricing.totals.subcon), formatMoney(pricing.totals.sellSubcon)] },
+      { values: ["Equipment", formatMoney(pricing.totals.equip), formatMoney(pricing.totals.sellEquip)] },
+      { values: ["Tools & other", formatMoney(pricing.totals.tools), formatMoney(pricing.totals.sellOther)] },
+      ...(tendered.adjustment ? [{ values: ["Lump sum adjustment", "", formatMoney(tendered.adjustment)] }] : []),
+      {
+        values: ["Total", formatMoney(pricing.totals.direct), formatMoney(tendered.sell)],
+        bold: true,
+      },
+    ]
+  );
+}
+
+function drawCategorySummary(doc: PDFKit.PDFDocument, pricing: ComputedPricing, tendered: Tendered) {
+  sectionTitle(doc, "Category Summary");
+  const total = tendered.sell || 1;
+  const sellOf = (category: string, bottomUp: number) =>
+    pricing.items
+      .filter((item) => item.category === category)
+      .reduce((sum, item) => sum + tendered.amount(item) - item.totals.sell, bottomUp);
+  drawTable(
+    doc,
+    [
+      { label: "Category", width: 195 },
+      { label: "Items", width: 50, align: "right" },
+      { label: "Direct", width: 95, align: "right" },
+      { label: "Sell", width: 95, align: "right" },
+      { label: "Share", width: 60, align: "right" },
+    ],
+    [
+      ...pricing.categories.map((category) => {
+        const sell = sellOf(category.category, category.totals.sell);
+        return {
+          values: [
+            category.category,
+            String(category.itemCount),
+            formatMoney(category.totals.direct),
+            formatMoney(sell),
+            `${((sell / total) * 100).toFixed(1)}%`,
+          ],
+        };
+      }),
+      {
+        values: ["Total", "", formatMoney(pricing.totals.direct), formatMoney(tendered.sell), "100.0%"],
+        bold: true,
+      },
+      // Allowances are the client's figures, so they sit under the measured work rather than among it.
+      ...pricing.allowances.map((entry) => ({
+        values: [entry.label, String(entry.itemCount), formatMoney(entry.direct), formatMoney(entry.sell), "—"],
+      })),
+      ...(pricing.allowances.length > 0
+        ? [
+            {
+              values: [
+                "Tender total",
+                "",
+                formatMoney(pricing.tenderTotals.direct),
+                formatMoney(tendered.tenderSum),
+                "",
+              ],
+              bold: true,
+            },
+          ]
+        : []),
+    ]
+  );
+}
+
+function drawPricedBoq(doc: PDFKit.PDFDocument, pricing: ComputedPricing, tendered: Tendered) {
+  sectionTitle(doc, "Priced Bill of Quantities");
+  const rows: Array<{ values: string[]; bold?: boolean; fill?: string; fullWidth?: boolean }> = [];
+  let lastCategory = "";
+  pricing.items.forEach((item) => {
+    if (item.category !== lastCategory) {
+      rows.push({ values: [item.category], fullWidth: true, fill: GROUP_FILL });
+      lastCategory = item.category;
+    }
+    rows.push({
+      values: [
+        item.itemCode,
+        item.description,
+        item.isRateOnly ? "—" : formatQty(item.qty),
+        item.unit,
+        formatMoney(tendered.rate(item)),
+        item.isRateOnly ? "Rate only" : formatMoney(tendered.amount(item)),
+      ],
+    });
+  });
+  rows.push({
+    values: ["", "Total", "", "", "", formatMoney(tendered.tenderSum)],
+    bold: true,
+    fill: HEADER_FILL,
+  });
+  drawTable(
+    doc,
+    [
+      { label: "Item", width: 55 },
+      { label: "Description", width: 205 },
+      { label: "Qty", width: 55, align: "right" },
+      { label: "Unit", width: 40 },
+      { label: "Rate", width: 65, align: "right" },
+      { label: "Amount", width: 75, align: "right" },
+    ],
+    rows
+  );
+}
+
+/**
+ * Builds the tender submission PDF: cover, project and category summaries, the priced BOQ and the
+ * assumptions/exclusions appendices. All figures come from the computed pricing passed in; items with a
+ * line in `spreadById` (a lump-sum project's top-down spread) are tendered at its rate and amount.
+ */
+export function buildTenderPackPdf(params: {
+  projectName: string;
+  details: TenderDetails;
+  pricing: ComputedPricing;
+  spreadById?: Map<string, LumpSumSpreadLine> | null;
+}): Promise<Buffer> {
+  const tendered = tenderedFigures(params.pricing, params.spreadById ?? null);
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: PAGE_MARGIN, bufferPages: true });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    drawCover(doc, params.projectName, params.details, tendered);
+    doc.addPage();
+    drawProjectSummary(doc, params.pricing, tendered);
+    doc.addPage();
+    drawCategorySummary(doc, params.pricing, tendered);
+    doc.addPage();
+    drawPricedBoq(doc, params.pricing, tendered);
+    doc.addPage();
+    sectionTitle(doc, "Appendix A — Assumptions");
+    drawNumberedList(doc, params.details.assumptions, "No assumptions recorded.");
+    doc.moveDown(1.5);
+    ensureSpace(doc, 80);
+    sectionTitle(doc, "Appendix B — Exclusions");
+    drawNumberedList(doc, params.details.exclusions, "No exclusions recorded.");
+
+    // Footer on every page except the cover.
+    const range = doc.bufferedPageRange();
+    for (let index = 1; index < range.count; index += 1) {
+      doc.switchToPage(range.start + index);
+      // Writing inside the bottom margin would otherwise make pdfkit start a new page.
+      doc.page.margins.bottom = 0;
+      doc
+        .fontSize(8)
+        .font("Helvetica")
+        .fillColor("#666666")
+        .text(`${params.projectName} — Page ${index + 1} of ${range.count}`, PAGE_MARGIN, 800, {
+          width: CONTENT_WIDTH,
+          align: "center",
+          lineBreak: false,
+        });
+    }
+    doc.end();
+  });
+}
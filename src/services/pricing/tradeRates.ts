@@ -0,0 +1,60 @@
+import type { NationalityCost, TradeRate } from "../../modules/storage/tradeRatesModel";
+import { HOURS_PER_WORKER_MONTH } from "./workingCalendar";
+
+/** Hourly cost by lower-cased trade code, for the location a project is priced at. */
+export type TradeHourlyCosts = Record<string, number>;
+
+export const toTradeCodeKey = (code: string): string => code.trim().toLowerCase();
+
+/**
+ * Working hours a year the annual iqama, permit and visa fees are spread over when the project has no working
+ * calendar.
+ */
+const HOURS_PER_WORKER_YEAR = HOURS_PER_WORKER_MONTH * 12;
+
+/**
+ * (basic wage + allowances) × (1 + GOSI % + the trade's burden %) plus the annual fees spread over
+ * `hoursPerYear`, per hour, for the Saudi or the expatriate workers of a trade.
+ */
+export const nationalityHourlyCost = (
+  cost: NationalityCost,
+  burdenPercent: number,
+  hoursPerYear = HOURS_PER_WORKER_YEAR
+): number =>
+  (cost.basicWage + cost.allowances) * (1 + (cost.gosiPercent + burdenPercent) / 100) +
+  cost.annualFees / hoursPerYear;
+
+/**
+ * (basic wage + allowances) × (1 + burden %), per hour. A trade with Saudi and expatriate pay is priced at the
+ * blend of the Saudi share of its workers (0 to 1).
+ */
+export const tradeHourlyCost = (
+  trade: Pick<TradeRate, "basicWage" | "allowances" | "burdenPercent" | "nationalities">,
+  saudiShare = 0,
+  hoursPerYear = HOURS_PER_WORKER_YEAR
+): number => {
+  if (trade.nationalities) {
+    return (
+      saudiShare * nationalityHourlyCost(trade.nationalities.saudi, trade.burdenPercent, hoursPerYear) +
+      (1 - saudiShare) * nationalityHourlyCost(trade.nationalities.expatriate, trade.burdenPercent, hoursPerYear)
+    );
+  }
+  return (trade.basicWage + trade.allowances) * (1 + trade.burdenPercent / 100);
+};
+
+/**
+ * Hourly cost of each trade; `saudiShareOf` gives the Saudi share of a trade code for the blended rates, and
+ * annual fees are spread over `hoursPerYear` (the project calendar's, when it has one).
+ */
+export function buildTradeHourlyCosts(
+  trades: TradeRate[],
+  saudiShareOf: (tradeCode: string) => number = () => 0,
+  hoursPerYear = HOURS_PER_WORKER_YEAR
+): TradeHourlyCosts {
+  const costs: TradeHourlyCosts = {};
+  trades.forEach((trade) => {
+    const key = toTradeCodeKey(trade.code);
+    if (key) costs[key] = tradeHourlyCost(trade, saudiShareOf(trade.code), hoursPerYear);
+  });
+  return costs;
+}
@@ -0,0 +1,121 @@
+import { PorterStemmer, WordTokenizer, stopwords } from "natural";
+import stringSimilarity from "string-similarity";
+import { roundTo2 } from "./pricingEngine";
+import { resolveUnit } from "./units";
+
+/** Below this description similarity an item is not treated as comparable work. */
+const MIN_SIMILARITY = 0.45;
+const MAX_SAMPLES = 25;
+
+export type UnitRateSample = {
+  projectId: string;
+  projectName: string;
+  itemId: string;
+  itemCode: string;
+  description: string;
+  unit: string;
+  /** The item's sell unit rate as priced. */
+  rate: number;
+  /** `rate` converted to the benchmarked item's unit. */
+  normalizedRate: number;
+  similarity: number;
+};
+
+export type UnitRateBenchmark = {
+  description: string;
+  unit: string;
+  count: number;
+  min: number | null;
+  median: number | null;
+  max: number | null;
+  samples: UnitRateSample[];
+};
+
+/** A priced item of another project with its sell unit rate, as stored when that project was saved. */
+export type BenchmarkSource = {
+  projectId: string;
+  projectName: string;
+  itemId: string;
+  itemCode: string;
+  description: string;
+  unit: string;
+  rate: number;
+};
+
+const tokenizer = new WordTokenizer();
+const STOPWORDS = new Set(stopwords);
+
+/** Lower-cased, stemmed description words without stop words, so "Excavations in rock" ≈ "excavate rock". */
+function toStems(description: string): string[] {
+  return tokenizer
+    .tokenize(description.toLowerCase())
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token))
+    .map((token) => PorterStemmer.stem(token));
+}
+
+/** Blends stem overlap (word choice) with character bigram similarity (spelling and codes). */
+function descriptionSimilarity(stemsA: string[], stemsB: string[]): number {
+  if (stemsA.length === 0 || stemsB.length === 0) return 0;
+  const setA = new Set(stemsA);
+  const setB = new Set(stemsB);
+  let shared = 0;
+  setA.forEach((stem) => {
+    if (setB.has(stem)) shared += 1;
+  });
+  const overlap = shared / (setA.size + setB.size - shared);
+  const bigrams = stringSimilarity.compareTwoStrings([...setA].sort().join(" "), [...setB].sort().join(" "));
+  return overlap * 0.5 + bigrams * 0.5;
+}
+
+function median(sorted: number[]): number | null {
+  if (sorted.length === 0) return null;
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Finds priced items in other projects that describe similar work in a comparable unit and summarises
+ * their sell rates, converted to `unit`. Items without a sell rate are ignored.
+ */
+export function benchmarkUnitRate(params: {
+  description: string;
+  unit: string;
+  sources: BenchmarkSource[];
+}): UnitRateBenchmark {
+  const stems = toStems(params.description);
+  const target = resolveUnit(params.unit);
+  const samples: UnitRateSample[] = [];
+
+  params.sources.forEach((source) => {
+    if (!(source.rate > 0)) return;
+    const unit = resolveUnit(source.unit);
+    if (unit.dimension !== target.dimension) return;
+    const similarity = descriptionSimilarity(stems, toStems(source.description));
+    if (similarity < MIN_SIMILARITY) return;
+    samples.push({
+      projectId: source.projectId,
+      projectName: source.projectName,
+      itemId: source.itemId,
+      itemCode: source.itemCode,
+      description: source.description,
+      unit: source.unit,
+      rate: roundTo2(source.rate),
+      normalizedRate: roundTo2((source.rate * target.factor) / unit.factor),
+      similarity: Math.round(similarity * 100) / 100,
+    });
+  });
+
+  samples.sort((a, b) => b.similarity - a.similarity);
+  const kept = samples.slice(0, MAX_SAMPLES);
+  const rates = kept.map((sample) => sample.normalizedRate).sort((a, b) => a - b);
+  const mid = median(rates);
+  return {
+    description: params.description,
+    unit: params.unit,
+    count: kept.length,
+    min: rates.length ? rates[0] : null,
+    median: mid == null ? null : roundTo2(mid),
+    max: rates.length ? rates[rates.length - 1] : null,
+    samples: kept,
+  };
+}
@@ -0,0 +1,30 @@
+export type UnitDimension = "length" | "area" | "volume" | "mass" | "count" | "lump";
+
+export type ResolvedUnit = {
+  /** A known dimension, or `raw:<unit>` for spellings not listed here (those only match themselves). */
+  dimension: UnitDimension | `raw:${string}`;
+  /** How many base units of the dimension one unit holds, e.g. 1000 for t (base kg). */
+  factor: number;
+};
+
+/**
+ * Unit spellings found in BOQs, mapped to a dimension and how many base units one unit holds.
+ * Rates only compare within a dimension; kg and t, for example, convert into each other.
+ */
+const UNIT_ALIASES: Array<{ aliases: string[]; dimension: UnitDimension; factor: number }> = [
+  { aliases: ["m", "lm", "rm", "lin.m", "linm", "mtr", "metre", "meter", "rmt"], dimension: "length", factor: 1 },
+  { aliases: ["km"], dimension: "length", factor: 1000 },
+  { aliases: ["m2", "m²", "sqm", "sq.m", "sq m"], dimension: "area", factor: 1 },
+  { aliases: ["m3", "m³", "cum", "cu.m", "cu m"], dimension: "volume", factor: 1 },
+  { aliases: ["l", "ltr", "litre", "liter"], dimension: "volume", factor: 0.001 },
+  { aliases: ["kg", "kgs"], dimension: "mass", factor: 1 },
+  { aliases: ["t", "ton", "tons", "tonne", "tonnes", "mt"], dimension: "mass", factor: 1000 },
+  { aliases: ["no", "nos", "no.", "nr", "each", "ea", "pcs", "pc", "unit", "units", "set", "sets"], dimension: "count", factor: 1 },
+  { aliases: ["ls", "l.s", "l.s.", "lump sum", "lumpsum", "item", "sum"], dimension: "lump", factor: 1 },
+];
+
+export function resolveUnit(unit: string): ResolvedUnit {
+  const key = unit.trim().toLowerCase().replace(/\s+/g, " ");
+  const match = UNIT_ALIASES.find((entry) => entry.aliases.includes(key));
+  return match ? { dimension: match.dimension, factor: match.factor } : { dimension: `raw:${key}`, factor: 1 };
+}
@@ -0,0 +1,181 @@
+/** Hours one worker puts in a month when the project has no working calendar. */
+export const HOURS_PER_WORKER_MONTH = 160;
+
+/** Longest programme the pricing accepts; the calendar is walked day by day, so this also bounds that work. */
+export const MAX_PROJECT_DURATION_MONTHS = 120;
+
+export const CALENDAR_PERIOD_KINDS = ["ramadan", "holiday", "summer_hours", "other"] as const;
+
+export type CalendarPeriodKind = (typeof CALENDAR_PERIOD_KINDS)[number];
+
+/** Dates on which the working day is shorter than normal, or not worked at all. */
+export type CalendarPeriod = {
+  id: string;
+  name: string;
+  kind: CalendarPeriodKind;
+  /** First and last day, YYYY-MM-DD, both included. */
+  startDate: string;
+  endDate: string;
+  /** Hours worked on each working day of the period; "0" for public holidays. */
+  hoursPerDay: string;
+};
+
+/**
+ * Working days and hours of a project's programme, stored with its pricing. Numbers are kept as entered, like
+ * the other settings.
+ */
+export type WorkingCalendar = {
+  /** First day of the programme, YYYY-MM-DD; without it the periods cannot be placed and are left out. */
+  startDate: string;
+  /** Days of the week with no work, 0 for Sunday to 6 for Saturday. */
+  restDays: number[];
+  /** Hours on a normal working day. */
+  hoursPerDay: string;
+  periods: CalendarPeriod[];
+};
+
+export type CalendarMonth = {
+  month: string;
+  /** Calendar month of the programme month, e.g. "Mar 2027"; the month key when there is no start date. */
+  label: string;
+  workingDays: number;
+  /** Hours one worker puts in over the month. */
+  hours: number;
+};
+
+const AVERAGE_WEEKS_PER_MONTH = 52 / 12;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const toText = (value: unknown): string => (value === null || value === undefined ? "" : String(value).trim());
+
+const toNumber = (value: string): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+export const isCalendarDate = (value: string): boolean =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * The `day` of the month `month` months after January of `year`, held to the month's last day, so a programme
+ * starting on the 31st has its February month start on the 28th or 29th instead of rolling into March.
+ */
+const monthDay = (year: number, month: number, day: number): number =>
+  Date.UTC(year, month, Math.min(day, new Date(Date.UTC(year, month + 1, 0)).getUTCDate()));
+
+/** Reads a stored calendar; null when the project has none, so the flat month is used. */
+export function normalizeWorkingCalendar(value: unknown): WorkingCalendar | null {
+  if (!value || typeof value !== "object") return null;
+  const source = value as Record<string, unknown>;
+  const restDays = (Array.isArray(source.restDays) ? source.restDays : [])
+    .map(Number)
+    .filter((day, index, days) => Number.isInteger(day) && day >= 0 && day <= 6 && days.indexOf(day) === index)
+    .sort((a, b) => a - b);
+  const periods = (Array.isArray(source.periods) ? source.periods : [])
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === "object")
+    .map((entry) => {
+      const kind = toText(entry.kind) as CalendarPeriodKind;
+      return {
+        id: toText(entry.id),
+        name: toText(entry.name),
+        kind: CALENDAR_PERIOD_KINDS.includes(kind) ? kind : "other",
+        startDate: toText(entry.startDate),
+        endDate: toText(entry.endDate),
+        hoursPerDay: toText(entry.hoursPerDay) || "0",
+      };
+    })
+    .filter((period) => period.id && isCalendarDate(period.startDate) && isCalendarDate(period.endDate));
+  const startDate = toText(source.startDate);
+  return {
+    startDate: isCalendarDate(startDate) ? startDate : "",
+    restDays,
+    hoursPerDay: toText(source.hoursPerDay) || "8",
+    periods,
+  };
+}
+
+/**
+ * Hours worked on one day: none on rest days, otherwise the fewest hours of any period covering it, so a
+ * holiday inside Ramadan is still a holiday.
+ */
+function hoursOn(calendar: WorkingCalendar, date: Date): number {
+  if (calendar.restDays.includes(date.getUTCDay())) return 0;
+  const key = toDateKey(date);
+  const dayHours = (value: string) => Math.max(toNumber(value), 0);
+  return calendar.periods
+    .filter((period) => period.startDate <= key && key <= period.endDate)
+    .reduce((hours, period) => Math.min(hours, dayHours(period.hoursPerDay)), dayHours(calendar.hoursPerDay));
+}
+
+/**
+ * Working days and hours of each month of the programme. The last month may be a part month, e.g. month 3 of
+ * a 2.5 month project. Without a start date every month is an average month of the weekly pattern.
+ */
+export function buildCalendarMonths(calendar: WorkingCalendar, duration: number): CalendarMonth[] {
+  if (!(duration > 0)) return [];
+  const monthCount = Math.ceil(duration);
+  const fraction = (month: number) => Math.min(1, duration - month);
+  if (!calendar.startDate) {
+    const workingDays = (7 - calendar.restDays.length) * AVERAGE_WEEKS_PER_MONTH;
+    return Array.from({ length: monthCount }, (_, month) => ({
+      month: `M${month + 1}`,
+      label: `M${month + 1}`,
+      workingDays: round2(workingDays * fraction(month)),
+      hours: round2(workingDays * fraction(month) * Math.max(toNumber(calendar.hoursPerDay), 0)),
+    }));
+  }
+  const start = new Date(`${calendar.startDate}T00:00:00Z`);
+  return Array.from({ length: monthCount }, (_, month) => {
+    const from = new Date(monthDay(start.getUTCFullYear(), start.getUTCMonth() + month, start.getUTCDate()));
+    const next = new Date(monthDay(start.getUTCFullYear(), start.getUTCMonth() + month + 1, start.getUTCDate()));
+    const days = Math.round(((next.getTime() - from.getTime()) / DAY_MS) * fraction(month));
+    let workingDays = 0;
+    let hours = 0;
+    for (let day = 0; day < days; day += 1) {
+      const dayHours = hoursOn(calendar, new Date(from.getTime() + day * DAY_MS));
+      if (dayHours > 0) workingDays += 1;
+      hours += dayHours;
+    }
+    return {
+      month: `M${month + 1}`,
+      label: `${MONTH_NAMES[from.getUTCMonth()]} ${from.getUTCFullYear()}`,
+      workingDays,
+      hours: round2(hours),
+    };
+  });
+}
+
+/** Hours one worker puts in over each month of the programme; the flat month when there is no calendar. */
+export function workerHoursByMonth(calendar: WorkingCalendar | null, duration: number): number[] {
+  if (!(duration > 0)) return [];
+  if (calendar) return buildCalendarMonths(calendar, duration).map((month) => month.hours);
+  return Array.from(
+    { length: Math.ceil(duration) },
+    (_, month) => HOURS_PER_WORKER_MONTH * Math.min(1, duration - month)
+  );
+}
+
+/**
+ * Hours one worker puts in a year on the project's calendar, for spreading annual fees; null without a calendar
+ * or duration, or when the calendar has no working hours.
+ */
+export function workerHoursPerYear(calendar: WorkingCalendar | null, duration: number): number | null {
+  if (!calendar || !(duration > 0)) return null;
+  const hours = buildCalendarMonths(calendar, duration).reduce((sum, month) => sum + month.hours, 0);
+  return hours > 0 ? (hours / duration) * 12 : null;
+}
+
+/**
+ * Average working days a month over the programme, for spreading monthly plant rates; null without a calendar
+ * or duration, or when the calendar has no working days.
+ */
+export function averageWorkingDaysPerMonth(calendar: WorkingCalendar | null, duration: number): number | null {
+  if (!calendar || !(duration > 0)) return null;
+  const workingDays = buildCalendarMonths(calendar, duration).reduce((sum, month) => sum + month.workingDays, 0);
+  return workingDays > 0 ? workingDays / duration : null;
+}